@@ -22,26 +22,50 @@ export const options = {
 
 const BASE_URL = __ENV.API_URL || 'http://localhost:3000';
 
+// Deposits need the deposits:issue permission, so setup makes them as a
+// user holding the issuer role (npm run roles:grant -- <email> issuer)
+const ISSUER_EMAIL = __ENV.ISSUER_EMAIL || 'issuer@example.com';
+const ISSUER_PASSWORD = __ENV.ISSUER_PASSWORD || 'password123';
+
+// Logs a user in and returns their access token
+function login(email, password = 'password123') {
+  const res = http.post(`${BASE_URL}/auth/login`, JSON.stringify({
+    email,
+    password,
+  }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  return res.status === 200 ? JSON.parse(res.body).access_token : null;
+}
+
+const authHeaders = (token) => ({ 'Content-Type': 'application/json', Authorization: `Bearer ${token}` });
+
 // Setup: Create test users with exactly 1 transaction each
 export function setup() {
   console.log('Setting up test users for simple balance reads...');
 
+  const issuerToken = login(ISSUER_EMAIL, ISSUER_PASSWORD);
+  if (!issuerToken) {
+    throw new Error(`Could not log in as the issuer ${ISSUER_EMAIL}`);
+  }
+
   const timestamp = Date.now();
   const numUsers = 1000; // Create 1000 users to query
-  const userIds = [];
+  const users = [];
 
   console.log('Creating users...');
   for (let i = 0; i < numUsers; i++) {
+    const email = `balancesimple${timestamp}_${i}@example.com`;
     const res = http.post(`${BASE_URL}/users`, JSON.stringify({
-      email: `balancesimple${timestamp}_${i}@example.com`,
+      email,
       password: 'password123',
     }), {
       headers: { 'Content-Type': 'application/json' },
     });
 
     if (res.status === 201) {
-      const userId = JSON.parse(res.body).id;
-      userIds.push(userId);
+      users.push({ id: JSON.parse(res.body).id, token: login(email) });
     }
 
     if ((i + 1) % 100 === 0) {
@@ -49,42 +73,42 @@ export function setup() {
     }
   }
 
-  console.log(`Created ${userIds.length} users`);
+  console.log(`Created ${users.length} users`);
   console.log('Creating exactly 1 deposit transaction per user...');
 
   // Give each user exactly 1 transaction (a deposit)
-  for (let i = 0; i < userIds.length; i++) {
-    http.post(`${BASE_URL}/users/${userIds[i]}/deposit`, JSON.stringify({
+  for (let i = 0; i < users.length; i++) {
+    http.post(`${BASE_URL}/users/${users[i].id}/deposit`, JSON.stringify({
       idempotency_key: uuidv4(),
       amount: 1000000, // $10,000 per user
     }), {
-      headers: { 'Content-Type': 'application/json' },
+      headers: authHeaders(issuerToken),
     });
 
     if ((i + 1) % 100 === 0) {
-      console.log(`Created deposits for ${i + 1}/${userIds.length} users`);
+      console.log(`Created deposits for ${i + 1}/${users.length} users`);
     }
   }
 
-  console.log(`Setup complete: ${userIds.length} users, ${userIds.length} transactions (1 per user)`);
-  return { userIds };
+  console.log(`Setup complete: ${users.length} users, ${users.length} transactions (1 per user)`);
+  return { users };
 }
 
 // Main test: Read balances repeatedly
 export default function (data) {
-  const { userIds } = data;
+  const { users } = data;
 
-  if (!userIds || userIds.length === 0) {
+  if (!users || users.length === 0) {
     console.error('No users available for testing');
     return;
   }
 
   // Pick a random user to query
-  const randomUserId = userIds[Math.floor(Math.random() * userIds.length)];
+  const randomUser = users[Math.floor(Math.random() * users.length)];
 
   // GET balance for the user
-  const res = http.get(`${BASE_URL}/users/${randomUserId}/balance`, {
-    headers: { 'Content-Type': 'application/json' },
+  const res = http.get(`${BASE_URL}/users/${randomUser.id}/balance`, {
+    headers: authHeaders(randomUser.token),
   });
 
   // Verify response
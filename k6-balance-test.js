@@ -22,50 +22,75 @@ export const options = {
 
 const BASE_URL = __ENV.API_URL || 'http://localhost:3000';
 
+// Deposits need the deposits:issue permission, so setup makes them as a
+// user holding the issuer role (npm run roles:grant -- <email> issuer)
+const ISSUER_EMAIL = __ENV.ISSUER_EMAIL || 'issuer@example.com';
+const ISSUER_PASSWORD = __ENV.ISSUER_PASSWORD || 'password123';
+
+// Logs a user in and returns their access token
+function login(email, password = 'password123') {
+  const res = http.post(`${BASE_URL}/auth/login`, JSON.stringify({
+    email,
+    password,
+  }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  return res.status === 200 ? JSON.parse(res.body).access_token : null;
+}
+
+const authHeaders = (token) => ({ 'Content-Type': 'application/json', Authorization: `Bearer ${token}` });
+
 // Setup: Create test users with known balances
 export function setup() {
   console.log('Setting up test users for balance reads...');
 
+  const issuerToken = login(ISSUER_EMAIL, ISSUER_PASSWORD);
+  if (!issuerToken) {
+    throw new Error(`Could not log in as the issuer ${ISSUER_EMAIL}`);
+  }
+
   const timestamp = Date.now();
   const numUsers = 1000; // Create 1000 users to query
-  const userIds = [];
+  const users = [];
 
   for (let i = 0; i < numUsers; i++) {
+    const email = `balancetest${timestamp}_${i}@example.com`;
     const res = http.post(`${BASE_URL}/users`, JSON.stringify({
-      email: `balancetest${timestamp}_${i}@example.com`,
+      email,
       password: 'password123',
     }), {
       headers: { 'Content-Type': 'application/json' },
     });
 
     if (res.status === 201) {
-      const userId = JSON.parse(res.body).id;
-      userIds.push(userId);
+      const user = { id: JSON.parse(res.body).id, token: login(email) };
+      users.push(user);
 
       // Give each user a large initial balance
-      http.post(`${BASE_URL}/users/${userId}/deposit`, JSON.stringify({
+      http.post(`${BASE_URL}/users/${user.id}/deposit`, JSON.stringify({
         idempotency_key: uuidv4(),
         amount: 100000000, // $1M per user to support many transactions
       }), {
-        headers: { 'Content-Type': 'application/json' },
+        headers: authHeaders(issuerToken),
       });
     }
   }
 
-  console.log(`Created ${userIds.length} users with balances`);
+  console.log(`Created ${users.length} users with balances`);
   console.log('Creating 10-100 transactions per user to build transaction history...');
 
   // Create 10-100 transactions per user to create realistic balance calculation load
   let totalTransactionsCreated = 0;
-  for (let i = 0; i < userIds.length; i++) {
+  for (let i = 0; i < users.length; i++) {
     const numTransactions = Math.floor(Math.random() * 101) + 10; // Random 10-100 transactions per user
 
     for (let j = 0; j < numTransactions; j++) {
       // Pick random source and destination (different users)
       const sourceIdx = i;
-      let destIdx = Math.floor(Math.random() * userIds.length);
+      let destIdx = Math.floor(Math.random() * users.length);
       while (destIdx === sourceIdx) {
-        destIdx = Math.floor(Math.random() * userIds.length);
+        destIdx = Math.floor(Math.random() * users.length);
       }
 
       // Small random amount
@@ -73,40 +98,40 @@ export function setup() {
 
       http.post(`${BASE_URL}/transactions`, JSON.stringify({
         idempotency_key: uuidv4(),
-        source_user_id: userIds[sourceIdx],
-        destination_user_id: userIds[destIdx],
+        source_user_id: users[sourceIdx].id,
+        destination_user_id: users[destIdx].id,
         amount: amount,
       }), {
-        headers: { 'Content-Type': 'application/json' },
+        headers: authHeaders(users[sourceIdx].token),
       });
 
       totalTransactionsCreated++;
     }
 
     if ((i + 1) % 100 === 0) {
-      console.log(`Created transactions for ${i + 1}/${userIds.length} users (${totalTransactionsCreated} total transactions so far)`);
+      console.log(`Created transactions for ${i + 1}/${users.length} users (${totalTransactionsCreated} total transactions so far)`);
     }
   }
 
-  console.log(`Setup complete: ${userIds.length} users, ${totalTransactionsCreated} transactions created`);
-  return { userIds };
+  console.log(`Setup complete: ${users.length} users, ${totalTransactionsCreated} transactions created`);
+  return { users };
 }
 
 // Main test: Read balances repeatedly
 export default function (data) {
-  const { userIds } = data;
+  const { users } = data;
 
-  if (!userIds || userIds.length === 0) {
+  if (!users || users.length === 0) {
     console.error('No users available for testing');
     return;
   }
 
   // Pick a random user to query
-  const randomUserId = userIds[Math.floor(Math.random() * userIds.length)];
+  const randomUser = users[Math.floor(Math.random() * users.length)];
 
   // GET balance for the user
-  const res = http.get(`${BASE_URL}/users/${randomUserId}/balance`, {
-    headers: { 'Content-Type': 'application/json' },
+  const res = http.get(`${BASE_URL}/users/${randomUser.id}/balance`, {
+    headers: authHeaders(randomUser.token),
   });
 
   // Verify response
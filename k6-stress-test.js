@@ -24,35 +24,60 @@ export const options = {
 
 const BASE_URL = __ENV.API_URL || 'http://localhost:3000';
 
+// Deposits need the deposits:issue permission, so setup makes them as a
+// user holding the issuer role (npm run roles:grant -- <email> issuer)
+const ISSUER_EMAIL = __ENV.ISSUER_EMAIL || 'issuer@example.com';
+const ISSUER_PASSWORD = __ENV.ISSUER_PASSWORD || 'password123';
+
+// Logs a user in and returns their access token
+function login(email, password = 'password123') {
+  const res = http.post(`${BASE_URL}/auth/login`, JSON.stringify({
+    email,
+    password,
+  }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  return res.status === 200 ? JSON.parse(res.body).access_token : null;
+}
+
+const authHeaders = (token) => ({ 'Content-Type': 'application/json', Authorization: `Bearer ${token}` });
+
 // Setup: Create users (runs once per VU)
 export function setup() {
   console.log('Setting up test data...');
 
+  const issuerToken = login(ISSUER_EMAIL, ISSUER_PASSWORD);
+  if (!issuerToken) {
+    throw new Error(`Could not log in as the issuer ${ISSUER_EMAIL}`);
+  }
+
   // Use timestamp to ensure unique emails across test runs
   const timestamp = Date.now();
 
   // Create test users (more users = less contention, better success rate)
   const numUsers = 10000;
-  const userIds = [];
+  const users = [];
 
   for (let i = 0; i < numUsers; i++) {
+    const email = `k6test${timestamp}_${i}@example.com`;
     const res = http.post(`${BASE_URL}/users`, JSON.stringify({
-      email: `k6test${timestamp}_${i}@example.com`,
+      email,
       password: 'password123',
     }), {
       headers: { 'Content-Type': 'application/json' },
     });
 
     if (res.status === 201) {
-      const userId = JSON.parse(res.body).id;
-      userIds.push(userId);
+      const user = { id: JSON.parse(res.body).id, token: login(email) };
+      users.push(user);
 
       // Deposit initial balance immediately after creating user
-      const depositRes = http.post(`${BASE_URL}/users/${userId}/deposit`, JSON.stringify({
+      const depositRes = http.post(`${BASE_URL}/users/${user.id}/deposit`, JSON.stringify({
         idempotency_key: uuidv4(),
         amount: 10000000000, // 100,000,000.00 in cents = $100M per user
       }), {
-        headers: { 'Content-Type': 'application/json' },
+        headers: authHeaders(issuerToken),
       });
 
       if (depositRes.status !== 201) {
@@ -61,24 +86,24 @@ export function setup() {
     }
   }
 
-  console.log(`Created ${userIds.length} users with initial balances`);
-  return { userIds };
+  console.log(`Created ${users.length} users with initial balances`);
+  return { users };
 }
 
 // Main test scenario (runs repeatedly by each VU)
 export default function (data) {
-  const { userIds } = data;
+  const { users } = data;
 
-  if (!userIds || userIds.length < 2) {
+  if (!users || users.length < 2) {
     console.error('Not enough users created');
     return;
   }
 
   // Pick random source and destination users
-  const sourceIdx = Math.floor(Math.random() * userIds.length);
-  let destIdx = Math.floor(Math.random() * userIds.length);
+  const sourceIdx = Math.floor(Math.random() * users.length);
+  let destIdx = Math.floor(Math.random() * users.length);
   while (destIdx === sourceIdx) {
-    destIdx = Math.floor(Math.random() * userIds.length);
+    destIdx = Math.floor(Math.random() * users.length);
   }
 
   const amount = 1; // Fixed 1 cent per transaction to minimize depletion
@@ -87,11 +112,11 @@ export default function (data) {
   // Execute transaction
   const res = http.post(`${BASE_URL}/transactions`, JSON.stringify({
     idempotency_key: idempotencyKey,
-    source_user_id: userIds[sourceIdx],
-    destination_user_id: userIds[destIdx],
+    source_user_id: users[sourceIdx].id,
+    destination_user_id: users[destIdx].id,
     amount: amount,
   }), {
-    headers: { 'Content-Type': 'application/json' },
+    headers: authHeaders(users[sourceIdx].token),
   });
 
   // Verify response
@@ -104,19 +129,21 @@ export default function (data) {
 
 // Teardown: Verify data integrity (runs once after all VUs finish)
 export function teardown(data) {
-  const { userIds } = data;
+  const { users } = data;
 
   console.log('\nVerifying data integrity...');
 
   let totalBalance = 0;
-  for (const userId of userIds) {
-    const res = http.get(`${BASE_URL}/users/${userId}/balance`);
+  for (const user of users) {
+    const res = http.get(`${BASE_URL}/users/${user.id}/balance`, {
+      headers: authHeaders(user.token),
+    });
     if (res.status === 200) {
       totalBalance += JSON.parse(res.body).balance;
     }
   }
 
-  const expectedTotal = userIds.length * 10000000000;
+  const expectedTotal = users.length * 10000000000;
   console.log(`Expected total: ${expectedTotal} cents`);
   console.log(`Actual total: ${totalBalance} cents`);
   console.log(`Difference: ${totalBalance - expectedTotal} cents`);
@@ -0,0 +1,101 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.transactions (withdrawals)
+-- Purpose: Allow money to leave the ledger to an external sink.
+-- Every row now carries an explicit type instead of encoding the kind of
+-- movement in which party columns happen to be NULL:
+--   deposit    = external source  -> user
+--   transfer   = user             -> user
+--   withdrawal = user             -> external destination
+----------------------------------------------------
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS type TEXT;
+
+UPDATE public.transactions
+SET type = CASE WHEN source_user_id IS NULL THEN 'deposit' ELSE 'transfer' END
+WHERE type IS NULL;
+
+ALTER TABLE public.transactions ALTER COLUMN type SET NOT NULL;
+ALTER TABLE public.transactions ALTER COLUMN destination_user_id DROP NOT NULL;
+
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('deposit', 'transfer', 'withdrawal'));
+
+-- The parties present on a row must match its type, so an external party is
+-- only ever represented by the type and never by an accidental NULL.
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_parties_match_type
+CHECK (
+    (type = 'deposit' AND source_user_id IS NULL AND destination_user_id IS NOT NULL)
+    OR (type = 'transfer' AND source_user_id IS NOT NULL AND destination_user_id IS NOT NULL AND source_user_id != destination_user_id)
+    OR (type = 'withdrawal' AND source_user_id IS NOT NULL AND destination_user_id IS NULL)
+);
+
+----------------------------------------------------
+-- Function: public.get_balance_on_date
+-- Purpose: Calculate a user's balance at any point in time.
+-- Deposits only ever credit the destination and withdrawals only ever debit
+-- the source, so the external side of either never contributes to a balance.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_balance_on_date(
+    p_user_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(
+        CASE
+            WHEN type IN ('transfer', 'withdrawal') AND source_user_id = p_user_id THEN -amount
+            WHEN type IN ('transfer', 'deposit') AND destination_user_id = p_user_id THEN amount
+            ELSE 0
+        END
+    ), 0)
+    FROM public.transactions
+    WHERE (source_user_id = p_user_id OR destination_user_id = p_user_id)
+        AND created_at <= p_date;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Table: private.failed_transactions
+-- Record which kind of operation failed so withdrawals can be told apart
+-- from transfers when investigating.
+----------------------------------------------------
+ALTER TABLE private.failed_transactions ADD COLUMN IF NOT EXISTS type TEXT NOT NULL DEFAULT 'transfer';
+
+-- Down Migration
+
+----------------------------------------------------
+-- Withdrawals are ledger history: money that left the system. Deleting them
+-- would silently inflate balances, so rolling back is refused while any
+-- exist.
+----------------------------------------------------
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.transactions WHERE type = 'withdrawal') THEN
+        RAISE EXCEPTION 'Cannot roll back withdrawals while withdrawal transactions exist'
+            USING HINT = 'Withdrawals are part of the ledger; move them out in a maintenance window first.';
+    END IF;
+END;
+$$;
+
+ALTER TABLE private.failed_transactions DROP COLUMN IF EXISTS type;
+
+CREATE OR REPLACE FUNCTION public.get_balance_on_date(
+    p_user_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(
+        CASE
+            WHEN source_user_id = p_user_id THEN -amount
+            WHEN destination_user_id = p_user_id THEN amount
+            ELSE 0
+        END
+    ), 0)
+    FROM public.transactions
+    WHERE (source_user_id = p_user_id OR destination_user_id = p_user_id)
+        AND created_at <= p_date;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_parties_match_type;
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE public.transactions ALTER COLUMN destination_user_id SET NOT NULL;
+ALTER TABLE public.transactions DROP COLUMN IF EXISTS type;
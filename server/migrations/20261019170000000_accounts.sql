@@ -0,0 +1,204 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.accounts
+-- Purpose: Accounts owned by users. A user can hold several accounts
+-- (savings pots, shared wallets, business sub-accounts), one of which is
+-- their default account. User-level endpoints resolve to the default account.
+-- We lock on account rows during transactions to prevent concurrent transfers.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id),
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'personal' CHECK (kind IN ('personal', 'savings', 'shared', 'business')),
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Lets the ledger reference (account, owner) pairs so the denormalized
+    -- user columns on transactions can never disagree with the account owner.
+    CONSTRAINT accounts_id_user_id_key UNIQUE (id, user_id)
+);
+
+-- A user has at most one default account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_default_per_user
+ON public.accounts (user_id) WHERE is_default;
+
+CREATE INDEX IF NOT EXISTS idx_accounts_user ON public.accounts (user_id, created_at);
+
+-- Give every existing user a default account
+INSERT INTO public.accounts (user_id, name, kind, is_default)
+SELECT id, 'Main', 'personal', TRUE
+FROM public.users
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.accounts WHERE accounts.user_id = users.id AND accounts.is_default
+);
+
+----------------------------------------------------
+-- Function: public.create_default_account
+-- Purpose: Every new user gets a default account so that user-level
+-- endpoints always have an account to resolve to.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.create_default_account()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.accounts (user_id, name, kind, is_default)
+    VALUES (NEW.id, 'Main', 'personal', TRUE);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER users_create_default_account
+AFTER INSERT ON public.users
+FOR EACH ROW EXECUTE FUNCTION public.create_default_account();
+
+----------------------------------------------------
+-- Table: public.transactions (accounts)
+-- Purpose: Address ledger movements by account. The user columns are kept
+-- as the owners of those accounts for user-level history queries.
+----------------------------------------------------
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS source_account_id UUID;
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS destination_account_id UUID;
+
+UPDATE public.transactions t
+SET source_account_id = a.id
+FROM public.accounts a
+WHERE a.user_id = t.source_user_id AND a.is_default AND t.source_account_id IS NULL;
+
+UPDATE public.transactions t
+SET destination_account_id = a.id
+FROM public.accounts a
+WHERE a.user_id = t.destination_user_id AND a.is_default AND t.destination_account_id IS NULL;
+
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_source_account_fkey
+FOREIGN KEY (source_account_id, source_user_id) REFERENCES public.accounts (id, user_id);
+
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_destination_account_fkey
+FOREIGN KEY (destination_account_id, destination_user_id) REFERENCES public.accounts (id, user_id);
+
+-- An account is present exactly when its owner is, and transfers move money
+-- between two different accounts (which may belong to the same user).
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_parties_match_type;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_parties_match_type
+CHECK (
+    (source_user_id IS NULL) = (source_account_id IS NULL)
+    AND (destination_user_id IS NULL) = (destination_account_id IS NULL)
+    AND (
+        (type = 'deposit' AND source_account_id IS NULL AND destination_account_id IS NOT NULL)
+        OR (type = 'transfer' AND source_account_id IS NOT NULL AND destination_account_id IS NOT NULL AND source_account_id != destination_account_id)
+        OR (type = 'withdrawal' AND source_account_id IS NOT NULL AND destination_account_id IS NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_source_account ON public.transactions (source_account_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_transactions_dest_account ON public.transactions (destination_account_id, created_at);
+
+----------------------------------------------------
+-- Function: public.get_account_balance_on_date
+-- Purpose: Calculate an account's balance at any point in time.
+-- Performance: Optimized with STABLE PARALLEL SAFE for query parallelization.
+-- Note: NULL account columns are the external side of deposits/withdrawals.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_account_balance_on_date(
+    p_account_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(
+        CASE
+            WHEN source_account_id = p_account_id THEN -amount
+            WHEN destination_account_id = p_account_id THEN amount
+            ELSE 0
+        END
+    ), 0)
+    FROM public.transactions
+    WHERE (source_account_id = p_account_id OR destination_account_id = p_account_id)
+        AND created_at <= p_date;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Function: public.get_account_current_balance
+-- Purpose: Calculate an account's current balance from the ledger.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_account_current_balance(p_account_id UUID)
+RETURNS BIGINT AS $$
+    SELECT public.get_account_balance_on_date(p_account_id, NOW());
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Function: public.get_balance_on_date
+-- Purpose: Calculate a user's balance at any point in time.
+-- A user's balance is the balance of their default account, the same
+-- account that user-level transfers, deposits and withdrawals resolve to.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_balance_on_date(
+    p_user_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS BIGINT AS $$
+    SELECT COALESCE((
+        SELECT public.get_account_balance_on_date(id, p_date)
+        FROM public.accounts
+        WHERE user_id = p_user_id AND is_default
+    ), 0);
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Table: private.failed_transactions (accounts)
+----------------------------------------------------
+ALTER TABLE private.failed_transactions ADD COLUMN IF NOT EXISTS source_account_id UUID REFERENCES public.accounts(id);
+ALTER TABLE private.failed_transactions ADD COLUMN IF NOT EXISTS destination_account_id UUID REFERENCES public.accounts(id);
+
+-- Transfers between two accounts of the same user are legitimate now
+ALTER TABLE private.failed_transactions DROP CONSTRAINT IF EXISTS different_users;
+ALTER TABLE private.failed_transactions ADD CONSTRAINT different_accounts
+CHECK (source_account_id IS NULL OR source_account_id != destination_account_id);
+
+-- Down Migration
+
+ALTER TABLE private.failed_transactions DROP CONSTRAINT IF EXISTS different_accounts;
+ALTER TABLE private.failed_transactions ADD CONSTRAINT different_users
+CHECK (source_user_id IS NULL OR source_user_id != destination_user_id) NOT VALID;
+ALTER TABLE private.failed_transactions DROP COLUMN IF EXISTS destination_account_id;
+ALTER TABLE private.failed_transactions DROP COLUMN IF EXISTS source_account_id;
+
+CREATE OR REPLACE FUNCTION public.get_balance_on_date(
+    p_user_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(
+        CASE
+            WHEN type IN ('transfer', 'withdrawal') AND source_user_id = p_user_id THEN -amount
+            WHEN type IN ('transfer', 'deposit') AND destination_user_id = p_user_id THEN amount
+            ELSE 0
+        END
+    ), 0)
+    FROM public.transactions
+    WHERE (source_user_id = p_user_id OR destination_user_id = p_user_id)
+        AND created_at <= p_date;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+DROP FUNCTION IF EXISTS public.get_account_current_balance(UUID);
+DROP FUNCTION IF EXISTS public.get_account_balance_on_date(UUID, TIMESTAMPTZ);
+
+DROP INDEX IF EXISTS idx_transactions_dest_account;
+DROP INDEX IF EXISTS idx_transactions_source_account;
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_parties_match_type;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_parties_match_type
+CHECK (
+    (type = 'deposit' AND source_user_id IS NULL AND destination_user_id IS NOT NULL)
+    OR (type = 'transfer' AND source_user_id IS NOT NULL AND destination_user_id IS NOT NULL AND source_user_id != destination_user_id)
+    OR (type = 'withdrawal' AND source_user_id IS NOT NULL AND destination_user_id IS NULL)
+);
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_destination_account_fkey;
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_source_account_fkey;
+ALTER TABLE public.transactions DROP COLUMN IF EXISTS destination_account_id;
+ALTER TABLE public.transactions DROP COLUMN IF EXISTS source_account_id;
+
+DROP TRIGGER IF EXISTS users_create_default_account ON public.users;
+DROP FUNCTION IF EXISTS public.create_default_account();
+DROP INDEX IF EXISTS idx_accounts_user;
+DROP INDEX IF EXISTS idx_accounts_default_per_user;
+DROP TABLE IF EXISTS public.accounts;
@@ -0,0 +1,157 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.currencies
+-- Purpose: Currencies the ledger can hold. minor_units is the ISO 4217
+-- exponent: amounts are stored as integers in the currency's minor unit
+-- (cents for USD/EUR, yen for JPY) and clients divide by 10^minor_units.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.currencies (
+    code CHAR(3) PRIMARY KEY CHECK (code ~ '^[A-Z]{3}$'),
+    name TEXT NOT NULL,
+    minor_units SMALLINT NOT NULL CHECK (minor_units BETWEEN 0 AND 4)
+);
+
+INSERT INTO public.currencies (code, name, minor_units) VALUES
+    ('USD', 'US Dollar', 2),
+    ('EUR', 'Euro', 2),
+    ('JPY', 'Japanese Yen', 0)
+ON CONFLICT (code) DO NOTHING;
+
+----------------------------------------------------
+-- Table: public.accounts (currency)
+-- Purpose: Every account holds a single currency. A user has at most one
+-- default account per currency; user-level endpoints resolve to it.
+-- Existing accounts are USD accounts.
+----------------------------------------------------
+ALTER TABLE public.accounts ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'USD' REFERENCES public.currencies(code);
+
+DROP INDEX IF EXISTS idx_accounts_default_per_user;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_default_per_user_currency
+ON public.accounts (user_id, currency) WHERE is_default;
+
+ALTER TABLE public.accounts ADD CONSTRAINT accounts_id_user_id_currency_key UNIQUE (id, user_id, currency);
+
+----------------------------------------------------
+-- Table: public.transactions (currency)
+-- Purpose: Every ledger row moves an amount in one currency. The composite
+-- foreign keys guarantee that both accounts hold the transaction's currency,
+-- so money can never silently cross currencies.
+----------------------------------------------------
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS currency CHAR(3) REFERENCES public.currencies(code);
+
+UPDATE public.transactions SET currency = 'USD' WHERE currency IS NULL;
+
+ALTER TABLE public.transactions ALTER COLUMN currency SET NOT NULL;
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_source_account_fkey;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_source_account_fkey
+FOREIGN KEY (source_account_id, source_user_id, currency) REFERENCES public.accounts (id, user_id, currency);
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_destination_account_fkey;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_destination_account_fkey
+FOREIGN KEY (destination_account_id, destination_user_id, currency) REFERENCES public.accounts (id, user_id, currency);
+
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_id_user_id_key;
+
+----------------------------------------------------
+-- Function: public.get_balance_on_date
+-- Purpose: Calculate a user's balances at any point in time, one row per
+-- currency the user holds a default account in, with the currency's exponent.
+----------------------------------------------------
+DROP FUNCTION IF EXISTS public.get_current_balance(UUID);
+DROP FUNCTION IF EXISTS public.get_balance_on_date(UUID, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.get_balance_on_date(
+    p_user_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS TABLE (currency CHAR(3), balance BIGINT, minor_units SMALLINT) AS $$
+    SELECT a.currency, public.get_account_balance_on_date(a.id, p_date), c.minor_units
+    FROM public.accounts a
+    JOIN public.currencies c ON c.code = a.currency
+    WHERE a.user_id = p_user_id AND a.is_default
+    ORDER BY a.currency;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Function: public.get_current_balance
+-- Purpose: Calculate a user's current per-currency balances from the ledger.
+-- Implementation: Delegates to get_balance_on_date with NOW() to avoid code duplication.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_current_balance(p_user_id UUID)
+RETURNS TABLE (currency CHAR(3), balance BIGINT, minor_units SMALLINT) AS $$
+    SELECT * FROM public.get_balance_on_date(p_user_id, NOW());
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Function: public.create_default_account
+-- Purpose: Every new user gets a default USD account. Default accounts in
+-- other currencies are opened on first use.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.create_default_account()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.accounts (user_id, name, kind, is_default, currency)
+    VALUES (NEW.id, 'Main', 'personal', TRUE, 'USD');
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+----------------------------------------------------
+-- Table: private.failed_transactions (currency)
+----------------------------------------------------
+ALTER TABLE private.failed_transactions ADD COLUMN IF NOT EXISTS currency CHAR(3);
+
+-- Down Migration
+
+ALTER TABLE private.failed_transactions DROP COLUMN IF EXISTS currency;
+
+CREATE OR REPLACE FUNCTION public.create_default_account()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.accounts (user_id, name, kind, is_default)
+    VALUES (NEW.id, 'Main', 'personal', TRUE);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS public.get_current_balance(UUID);
+DROP FUNCTION IF EXISTS public.get_balance_on_date(UUID, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.get_balance_on_date(
+    p_user_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS BIGINT AS $$
+    SELECT COALESCE((
+        SELECT public.get_account_balance_on_date(id, p_date)
+        FROM public.accounts
+        WHERE user_id = p_user_id AND is_default
+    ), 0);
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION public.get_current_balance(p_user_id UUID)
+RETURNS BIGINT AS $$
+    SELECT public.get_balance_on_date(p_user_id, NOW());
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+ALTER TABLE public.accounts ADD CONSTRAINT accounts_id_user_id_key UNIQUE (id, user_id);
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_destination_account_fkey;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_destination_account_fkey
+FOREIGN KEY (destination_account_id, destination_user_id) REFERENCES public.accounts (id, user_id);
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_source_account_fkey;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_source_account_fkey
+FOREIGN KEY (source_account_id, source_user_id) REFERENCES public.accounts (id, user_id);
+
+ALTER TABLE public.transactions DROP COLUMN IF EXISTS currency;
+
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_id_user_id_currency_key;
+DROP INDEX IF EXISTS idx_accounts_default_per_user_currency;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_default_per_user
+ON public.accounts (user_id) WHERE is_default;
+ALTER TABLE public.accounts DROP COLUMN IF EXISTS currency;
+
+DROP TABLE IF EXISTS public.currencies;
@@ -0,0 +1,99 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.exchange_rates
+-- Purpose: Locally managed exchange rates. A rate converts one major unit of
+-- base_currency into `rate` major units of quote_currency and applies from
+-- effective_at until a newer rate for the same pair takes effect. Rates are
+-- append-only: a correction is a new row, so past conversions stay explainable.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    base_currency CHAR(3) NOT NULL REFERENCES public.currencies(code),
+    quote_currency CHAR(3) NOT NULL REFERENCES public.currencies(code),
+    rate NUMERIC(24, 12) NOT NULL CHECK (rate > 0),
+    effective_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT exchange_rates_different_currencies CHECK (base_currency != quote_currency),
+    CONSTRAINT exchange_rates_pair_effective_at_key UNIQUE (base_currency, quote_currency, effective_at)
+);
+
+----------------------------------------------------
+-- Table: public.transactions (conversion legs)
+-- Purpose: A conversion is recorded as two ledger rows of type 'conversion':
+-- a debit leg leaving the source account and a credit leg entering the
+-- destination account, each in its own account's currency.
+----------------------------------------------------
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('deposit', 'transfer', 'withdrawal', 'conversion'));
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_parties_match_type;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_parties_match_type
+CHECK (
+    (source_user_id IS NULL) = (source_account_id IS NULL)
+    AND (destination_user_id IS NULL) = (destination_account_id IS NULL)
+    AND (
+        (type = 'deposit' AND source_account_id IS NULL AND destination_account_id IS NOT NULL)
+        OR (type = 'transfer' AND source_account_id IS NOT NULL AND destination_account_id IS NOT NULL AND source_account_id != destination_account_id)
+        OR (type = 'withdrawal' AND source_account_id IS NOT NULL AND destination_account_id IS NULL)
+        OR (type = 'conversion' AND (source_account_id IS NULL) != (destination_account_id IS NULL))
+    )
+);
+
+----------------------------------------------------
+-- Table: public.conversions
+-- Purpose: Immutable record of every currency conversion, stored next to its
+-- two ledger legs. Keeps the rate that was applied (and the exchange_rates
+-- row it came from), the exact unrounded result and the rounding mode, so
+-- an auditor can recompute destination_amount from source_amount.
+--
+--   unrounded_destination_amount = source_amount * rate * 10^(destination minor_units - source minor_units)
+--   destination_amount           = unrounded_destination_amount rounded with `rounding`
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.conversions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    idempotency_key UUID NOT NULL UNIQUE,
+    exchange_rate_id UUID NOT NULL REFERENCES public.exchange_rates(id),
+    rate NUMERIC(24, 12) NOT NULL CHECK (rate > 0),
+    rounding TEXT NOT NULL CHECK (rounding IN ('down')),
+    source_transaction_id UUID NOT NULL UNIQUE REFERENCES public.transactions(id),
+    source_account_id UUID NOT NULL REFERENCES public.accounts(id),
+    source_currency CHAR(3) NOT NULL REFERENCES public.currencies(code),
+    source_amount BIGINT NOT NULL CHECK (source_amount > 0),
+    destination_transaction_id UUID NOT NULL UNIQUE REFERENCES public.transactions(id),
+    destination_account_id UUID NOT NULL REFERENCES public.accounts(id),
+    destination_currency CHAR(3) NOT NULL REFERENCES public.currencies(code),
+    destination_amount BIGINT NOT NULL CHECK (destination_amount > 0),
+    unrounded_destination_amount NUMERIC NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT conversions_different_currencies CHECK (source_currency != destination_currency)
+);
+
+-- Effective rate lookup: latest rate for a pair at or before a point in time
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair_effective ON public.exchange_rates (base_currency, quote_currency, effective_at DESC);
+
+-- Down Migration
+
+DROP INDEX IF EXISTS idx_exchange_rates_pair_effective;
+DROP TABLE IF EXISTS public.conversions;
+
+DELETE FROM public.transactions WHERE type = 'conversion';
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_parties_match_type;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_parties_match_type
+CHECK (
+    (source_user_id IS NULL) = (source_account_id IS NULL)
+    AND (destination_user_id IS NULL) = (destination_account_id IS NULL)
+    AND (
+        (type = 'deposit' AND source_account_id IS NULL AND destination_account_id IS NOT NULL)
+        OR (type = 'transfer' AND source_account_id IS NOT NULL AND destination_account_id IS NOT NULL AND source_account_id != destination_account_id)
+        OR (type = 'withdrawal' AND source_account_id IS NOT NULL AND destination_account_id IS NULL)
+    )
+);
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('deposit', 'transfer', 'withdrawal'));
+
+DROP TABLE IF EXISTS public.exchange_rates;
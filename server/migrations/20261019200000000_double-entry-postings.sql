@@ -0,0 +1,223 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.accounts (system accounts)
+-- Purpose: The books need counterparties for money entering and leaving the
+-- system. System accounts have no owner, are identified by their name and
+-- exist once per currency:
+--   equity:deposits  issuance account debited by deposits, credited by withdrawals
+--   fx:conversions   position account on the other side of each conversion leg
+--   fees:revenue     fees charged by the platform
+--   suspense         movements that cannot be attributed yet
+----------------------------------------------------
+ALTER TABLE public.accounts ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_kind_check;
+ALTER TABLE public.accounts ADD CONSTRAINT accounts_kind_check
+CHECK (kind IN ('personal', 'savings', 'shared', 'business', 'system'));
+
+ALTER TABLE public.accounts ADD CONSTRAINT accounts_owner_matches_kind
+CHECK ((user_id IS NULL) = (kind = 'system'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_system_per_currency
+ON public.accounts (name, currency) WHERE kind = 'system';
+
+-- Lets postings reference (account, currency) pairs
+ALTER TABLE public.accounts ADD CONSTRAINT accounts_id_currency_key UNIQUE (id, currency);
+
+INSERT INTO public.accounts (user_id, name, kind, currency)
+SELECT NULL, system_account.name, 'system', currencies.code
+FROM public.currencies
+CROSS JOIN (VALUES ('equity:deposits'), ('fx:conversions'), ('fees:revenue'), ('suspense')) AS system_account (name)
+ON CONFLICT (name, currency) WHERE kind = 'system' DO NOTHING;
+
+----------------------------------------------------
+-- Table: public.postings
+-- Purpose: Double-entry postings. A row in public.transactions is the header
+-- of a journal entry; its postings move money between accounts and must sum
+-- to zero. A positive amount credits the account (raises its balance), a
+-- negative amount debits it. Postings share their entry's currency.
+----------------------------------------------------
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_id_currency_key UNIQUE (id, currency);
+
+CREATE TABLE IF NOT EXISTS public.postings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL,
+    account_id UUID NOT NULL,
+    amount BIGINT NOT NULL CHECK (amount != 0),
+    currency CHAR(3) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT postings_transaction_fkey FOREIGN KEY (transaction_id, currency) REFERENCES public.transactions (id, currency),
+    CONSTRAINT postings_account_fkey FOREIGN KEY (account_id, currency) REFERENCES public.accounts (id, currency)
+);
+
+-- JIT balance calculation per account (point-in-time)
+CREATE INDEX IF NOT EXISTS idx_postings_account ON public.postings (account_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_postings_transaction ON public.postings (transaction_id);
+
+-- Backfill postings for the existing ledger
+INSERT INTO public.postings (transaction_id, account_id, amount, currency, created_at)
+SELECT t.id, leg.account_id, leg.amount, t.currency, t.created_at
+FROM public.transactions t
+JOIN public.accounts equity ON equity.kind = 'system' AND equity.name = 'equity:deposits' AND equity.currency = t.currency
+JOIN public.accounts fx ON fx.kind = 'system' AND fx.name = 'fx:conversions' AND fx.currency = t.currency
+CROSS JOIN LATERAL (
+    VALUES
+        (COALESCE(t.source_account_id, CASE WHEN t.type = 'deposit' THEN equity.id ELSE fx.id END), -t.amount),
+        (COALESCE(t.destination_account_id, CASE WHEN t.type = 'withdrawal' THEN equity.id ELSE fx.id END), t.amount)
+) AS leg (account_id, amount);
+
+----------------------------------------------------
+-- Function: public.assert_journal_entry_balanced
+-- Purpose: A journal entry must have at least two postings that sum to zero.
+-- Checked by deferred constraint triggers at commit, once the entry and all
+-- of its postings have been written.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.assert_journal_entry_balanced(p_transaction_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_count INTEGER;
+    v_sum BIGINT;
+BEGIN
+    SELECT COUNT(*), COALESCE(SUM(amount), 0)
+    INTO v_count, v_sum
+    FROM public.postings
+    WHERE transaction_id = p_transaction_id;
+
+    IF v_count < 2 OR v_sum != 0 THEN
+        RAISE EXCEPTION 'Journal entry % does not balance (% postings, sum %)', p_transaction_id, v_count, v_sum
+            USING ERRCODE = 'check_violation';
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.check_transaction_balanced()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.assert_journal_entry_balanced(NEW.id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.check_posting_balanced()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.assert_journal_entry_balanced(NEW.transaction_id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE CONSTRAINT TRIGGER transactions_balanced
+AFTER INSERT ON public.transactions
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW EXECUTE FUNCTION public.check_transaction_balanced();
+
+CREATE CONSTRAINT TRIGGER postings_balanced
+AFTER INSERT ON public.postings
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW EXECUTE FUNCTION public.check_posting_balanced();
+
+----------------------------------------------------
+-- Function: public.get_account_balance_on_date
+-- Purpose: Calculate an account's balance at any point in time as the sum of
+-- its postings.
+-- Performance: Uses idx_postings_account; STABLE PARALLEL SAFE.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_account_balance_on_date(
+    p_account_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(amount), 0)::BIGINT
+    FROM public.postings
+    WHERE account_id = p_account_id
+        AND created_at <= p_date;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Function: public.get_balance_on_date
+-- Purpose: Calculate a user's balances at any point in time from the postings
+-- on their default accounts, one row per currency, with the currency's exponent.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_balance_on_date(
+    p_user_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS TABLE (currency CHAR(3), balance BIGINT, minor_units SMALLINT) AS $$
+    SELECT a.currency, COALESCE(SUM(p.amount), 0)::BIGINT, c.minor_units
+    FROM public.accounts a
+    JOIN public.currencies c ON c.code = a.currency
+    LEFT JOIN public.postings p ON p.account_id = a.id AND p.created_at <= p_date
+    WHERE a.user_id = p_user_id AND a.is_default
+    GROUP BY a.currency, c.minor_units
+    ORDER BY a.currency;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Function: public.get_trial_balance
+-- Purpose: Prove the books balance. Totals all debits and credits per
+-- currency up to a point in time; in a consistent ledger they are equal.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_trial_balance(p_date TIMESTAMPTZ)
+RETURNS TABLE (currency CHAR(3), debits BIGINT, credits BIGINT) AS $$
+    SELECT
+        currency,
+        COALESCE(-SUM(amount) FILTER (WHERE amount < 0), 0)::BIGINT,
+        COALESCE(SUM(amount) FILTER (WHERE amount > 0), 0)::BIGINT
+    FROM public.postings
+    WHERE created_at <= p_date
+    GROUP BY currency
+    ORDER BY currency;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+-- Down Migration
+
+DROP FUNCTION IF EXISTS public.get_trial_balance(TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.get_balance_on_date(
+    p_user_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS TABLE (currency CHAR(3), balance BIGINT, minor_units SMALLINT) AS $$
+    SELECT a.currency, public.get_account_balance_on_date(a.id, p_date), c.minor_units
+    FROM public.accounts a
+    JOIN public.currencies c ON c.code = a.currency
+    WHERE a.user_id = p_user_id AND a.is_default
+    ORDER BY a.currency;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION public.get_account_balance_on_date(
+    p_account_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(
+        CASE
+            WHEN source_account_id = p_account_id THEN -amount
+            WHEN destination_account_id = p_account_id THEN amount
+            ELSE 0
+        END
+    ), 0)
+    FROM public.transactions
+    WHERE (source_account_id = p_account_id OR destination_account_id = p_account_id)
+        AND created_at <= p_date;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+DROP TRIGGER IF EXISTS postings_balanced ON public.postings;
+DROP TRIGGER IF EXISTS transactions_balanced ON public.transactions;
+DROP FUNCTION IF EXISTS public.check_posting_balanced();
+DROP FUNCTION IF EXISTS public.check_transaction_balanced();
+DROP FUNCTION IF EXISTS public.assert_journal_entry_balanced(UUID);
+
+DROP TABLE IF EXISTS public.postings;
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_id_currency_key;
+
+DELETE FROM public.accounts WHERE kind = 'system';
+
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_id_currency_key;
+DROP INDEX IF EXISTS idx_accounts_system_per_currency;
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_owner_matches_kind;
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_kind_check;
+ALTER TABLE public.accounts ADD CONSTRAINT accounts_kind_check
+CHECK (kind IN ('personal', 'savings', 'shared', 'business'));
+ALTER TABLE public.accounts ALTER COLUMN user_id SET NOT NULL;
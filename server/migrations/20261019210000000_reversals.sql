@@ -0,0 +1,64 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.transactions (reversals)
+-- Purpose: The ledger is immutable, so a mistaken transaction is undone by a
+-- compensating entry of type 'reversal' that points at the original through
+-- reverses_transaction_id. A reversal moves money back the way it came: its
+-- source is the original destination and vice versa. An original can be
+-- reversed in several partial steps, never beyond its amount.
+----------------------------------------------------
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS reverses_transaction_id UUID REFERENCES public.transactions(id);
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('deposit', 'transfer', 'withdrawal', 'conversion', 'reversal'));
+
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_reversal_has_original
+CHECK ((type = 'reversal') = (reverses_transaction_id IS NOT NULL));
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_parties_match_type;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_parties_match_type
+CHECK (
+    (source_user_id IS NULL) = (source_account_id IS NULL)
+    AND (destination_user_id IS NULL) = (destination_account_id IS NULL)
+    AND (
+        (type = 'deposit' AND source_account_id IS NULL AND destination_account_id IS NOT NULL)
+        OR (type = 'transfer' AND source_account_id IS NOT NULL AND destination_account_id IS NOT NULL AND source_account_id != destination_account_id)
+        OR (type = 'withdrawal' AND source_account_id IS NOT NULL AND destination_account_id IS NULL)
+        OR (type = 'conversion' AND (source_account_id IS NULL) != (destination_account_id IS NULL))
+        OR (type = 'reversal' AND (source_account_id IS NOT NULL OR destination_account_id IS NOT NULL))
+    )
+);
+
+-- Sum of reversals per original, checked on every reversal
+CREATE INDEX IF NOT EXISTS idx_transactions_reverses ON public.transactions (reverses_transaction_id)
+WHERE reverses_transaction_id IS NOT NULL;
+
+-- Down Migration
+
+DROP INDEX IF EXISTS idx_transactions_reverses;
+
+DELETE FROM public.postings WHERE transaction_id IN (SELECT id FROM public.transactions WHERE type = 'reversal');
+DELETE FROM public.transactions WHERE type = 'reversal';
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_parties_match_type;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_parties_match_type
+CHECK (
+    (source_user_id IS NULL) = (source_account_id IS NULL)
+    AND (destination_user_id IS NULL) = (destination_account_id IS NULL)
+    AND (
+        (type = 'deposit' AND source_account_id IS NULL AND destination_account_id IS NOT NULL)
+        OR (type = 'transfer' AND source_account_id IS NOT NULL AND destination_account_id IS NOT NULL AND source_account_id != destination_account_id)
+        OR (type = 'withdrawal' AND source_account_id IS NOT NULL AND destination_account_id IS NULL)
+        OR (type = 'conversion' AND (source_account_id IS NULL) != (destination_account_id IS NULL))
+    )
+);
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_reversal_has_original;
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('deposit', 'transfer', 'withdrawal', 'conversion'));
+
+ALTER TABLE public.transactions DROP COLUMN IF EXISTS reverses_transaction_id;
@@ -0,0 +1,107 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.holds
+-- Purpose: Authorization holds. A hold reserves funds in a source account
+-- for a later transfer to a destination account without moving any money:
+-- the ledger balance is untouched, the available balance drops. A hold is
+-- captured (fully or partially, creating the actual transfer and releasing
+-- the rest), voided, or expires once expires_at has passed.
+--
+-- Unlike the ledger, holds change state. Only status, captured_amount,
+-- capture_transaction_id and closed_at are ever updated.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.holds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    idempotency_key UUID NOT NULL UNIQUE,
+    source_user_id UUID NOT NULL,
+    source_account_id UUID NOT NULL,
+    destination_user_id UUID NOT NULL,
+    destination_account_id UUID NOT NULL,
+    amount BIGINT NOT NULL CHECK (amount > 0),
+    currency CHAR(3) NOT NULL REFERENCES public.currencies(code),
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'captured', 'voided', 'expired')),
+    expires_at TIMESTAMPTZ NOT NULL,
+    captured_amount BIGINT CHECK (captured_amount > 0 AND captured_amount <= amount),
+    capture_transaction_id UUID UNIQUE REFERENCES public.transactions(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    closed_at TIMESTAMPTZ,
+    CONSTRAINT holds_source_account_fkey FOREIGN KEY (source_account_id, source_user_id, currency)
+        REFERENCES public.accounts (id, user_id, currency),
+    CONSTRAINT holds_destination_account_fkey FOREIGN KEY (destination_account_id, destination_user_id, currency)
+        REFERENCES public.accounts (id, user_id, currency),
+    CONSTRAINT holds_different_accounts CHECK (source_account_id != destination_account_id),
+    CONSTRAINT holds_expires_after_creation CHECK (expires_at > created_at),
+    CONSTRAINT holds_capture_matches_status CHECK (
+        (status = 'captured') = (capture_transaction_id IS NOT NULL)
+        AND (status = 'captured') = (captured_amount IS NOT NULL)
+        AND (status = 'active') = (closed_at IS NULL)
+    )
+);
+
+-- Active holds per account, summed by every available balance check
+CREATE INDEX IF NOT EXISTS idx_holds_source_active ON public.holds (source_account_id, expires_at)
+WHERE status = 'active';
+
+-- Expiry sweep
+CREATE INDEX IF NOT EXISTS idx_holds_active_expiry ON public.holds (expires_at)
+WHERE status = 'active';
+
+----------------------------------------------------
+-- Function: public.get_account_held_amount
+-- Purpose: Total reserved by an account's active holds. A hold stops
+-- counting the moment it expires, whether or not its status has been
+-- swept to 'expired' yet.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_account_held_amount(p_account_id UUID)
+RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(amount), 0)::BIGINT
+    FROM public.holds
+    WHERE source_account_id = p_account_id
+        AND status = 'active'
+        AND expires_at > NOW();
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Function: public.get_account_available_balance
+-- Purpose: What an account can spend: its ledger balance minus active holds.
+-- Every debit is checked against this balance.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_account_available_balance(p_account_id UUID)
+RETURNS BIGINT AS $$
+    SELECT public.get_account_current_balance(p_account_id) - public.get_account_held_amount(p_account_id);
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Function: public.get_current_balance
+-- Purpose: A user's current per-currency balances, split into the ledger
+-- balance (`balance`, what the postings say) and `available_balance`
+-- (ledger balance minus active holds).
+----------------------------------------------------
+DROP FUNCTION IF EXISTS public.get_current_balance(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_current_balance(p_user_id UUID)
+RETURNS TABLE (currency CHAR(3), balance BIGINT, available_balance BIGINT, minor_units SMALLINT) AS $$
+    SELECT
+        b.currency,
+        b.balance,
+        b.balance - public.get_account_held_amount(a.id),
+        b.minor_units
+    FROM public.get_balance_on_date(p_user_id, NOW()) b
+    JOIN public.accounts a ON a.user_id = p_user_id AND a.is_default AND a.currency = b.currency
+    ORDER BY b.currency;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+-- Down Migration
+
+DROP FUNCTION IF EXISTS public.get_current_balance(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_current_balance(p_user_id UUID)
+RETURNS TABLE (currency CHAR(3), balance BIGINT, minor_units SMALLINT) AS $$
+    SELECT * FROM public.get_balance_on_date(p_user_id, NOW());
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+DROP FUNCTION IF EXISTS public.get_account_available_balance(UUID);
+DROP FUNCTION IF EXISTS public.get_account_held_amount(UUID);
+
+DROP TABLE IF EXISTS public.holds;
@@ -0,0 +1,67 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.scheduled_transfers
+-- Purpose: Future-dated and recurring transfers between the default accounts
+-- of two users ("pay rent on the 1st"). A schedule without a recurrence
+-- runs once at start_at; otherwise `recurrence` holds an RRULE (UTC) and
+-- occurrence_index counts the occurrences already consumed.
+--
+-- The background worker claims due rows with FOR UPDATE SKIP LOCKED and
+-- executes each occurrence with an idempotency key derived from the schedule
+-- id and occurrence_index, so an occurrence never pays twice even if the
+-- worker crashes between the transfer and the schedule update.
+--
+-- On failure the schedule follows failure_policy: 'pause' stops it, 'retry'
+-- tries the same occurrence again after retry_delay_seconds, up to
+-- max_retries times, and then pauses it.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.scheduled_transfers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    idempotency_key UUID NOT NULL UNIQUE,
+    source_user_id UUID NOT NULL REFERENCES public.users(id),
+    destination_user_id UUID NOT NULL REFERENCES public.users(id),
+    amount BIGINT NOT NULL CHECK (amount > 0),
+    currency CHAR(3) NOT NULL REFERENCES public.currencies(code),
+    recurrence TEXT,
+    start_at TIMESTAMPTZ NOT NULL,
+    next_run_at TIMESTAMPTZ,
+    occurrence_index INTEGER NOT NULL DEFAULT 0 CHECK (occurrence_index >= 0),
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'cancelled')),
+    failure_policy TEXT NOT NULL DEFAULT 'pause' CHECK (failure_policy IN ('pause', 'retry')),
+    max_retries INTEGER NOT NULL DEFAULT 3 CHECK (max_retries >= 0),
+    retry_delay_seconds INTEGER NOT NULL DEFAULT 3600 CHECK (retry_delay_seconds > 0),
+    retry_count INTEGER NOT NULL DEFAULT 0 CHECK (retry_count >= 0),
+    last_run_at TIMESTAMPTZ,
+    last_transaction_id UUID REFERENCES public.transactions(id),
+    last_error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT scheduled_transfers_different_users CHECK (source_user_id != destination_user_id),
+    CONSTRAINT scheduled_transfers_next_run_matches_status CHECK (
+        (status IN ('completed', 'cancelled')) = (next_run_at IS NULL)
+    )
+);
+
+-- Worker claim: due active schedules, oldest first
+CREATE INDEX IF NOT EXISTS idx_scheduled_transfers_due ON public.scheduled_transfers (next_run_at)
+WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_transfers_source_user ON public.scheduled_transfers (source_user_id, created_at);
+
+----------------------------------------------------
+-- Table: private.failed_transactions (scheduled transfers)
+-- Purpose: Link failed occurrences to the schedule they belong to. The
+-- failure reason is kept in error_message.
+----------------------------------------------------
+ALTER TABLE private.failed_transactions ADD COLUMN IF NOT EXISTS scheduled_transfer_id UUID REFERENCES public.scheduled_transfers(id);
+
+CREATE INDEX IF NOT EXISTS idx_failed_transactions_scheduled_transfer ON private.failed_transactions (scheduled_transfer_id)
+WHERE scheduled_transfer_id IS NOT NULL;
+
+-- Down Migration
+
+DROP INDEX IF EXISTS private.idx_failed_transactions_scheduled_transfer;
+ALTER TABLE private.failed_transactions DROP COLUMN IF EXISTS scheduled_transfer_id;
+
+DROP TABLE IF EXISTS public.scheduled_transfers;
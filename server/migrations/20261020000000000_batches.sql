@@ -0,0 +1,37 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.batches
+-- Purpose: A batch groups many transfers (e.g. a payroll run) that are applied
+-- all-or-nothing in one database transaction under a single idempotency key.
+-- Each leg is an ordinary transfer row in public.transactions that points at
+-- its batch and records its position in the request.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    idempotency_key UUID NOT NULL UNIQUE,
+    leg_count INTEGER NOT NULL CHECK (leg_count > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+----------------------------------------------------
+-- Table: public.transactions (batches)
+----------------------------------------------------
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES public.batches(id);
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS batch_leg_index INTEGER CHECK (batch_leg_index >= 0);
+
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_batch_leg_has_index
+CHECK ((batch_id IS NULL) = (batch_leg_index IS NULL));
+
+-- One transaction per leg; also serves the lookup of a batch's legs in order
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_batch_leg_unique
+UNIQUE (batch_id, batch_leg_index);
+
+-- Down Migration
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_batch_leg_unique;
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_batch_leg_has_index;
+ALTER TABLE public.transactions DROP COLUMN IF EXISTS batch_leg_index;
+ALTER TABLE public.transactions DROP COLUMN IF EXISTS batch_id;
+
+DROP TABLE IF EXISTS public.batches;
@@ -0,0 +1,51 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.transactions (split payments)
+-- Purpose: A split payment is one journal entry that debits one or more
+-- customer accounts and credits several others, e.g. a marketplace order
+-- split between seller, platform and courier. It has no single source or
+-- destination: its parties are the accounts of its postings, and its amount
+-- is the total debited.
+----------------------------------------------------
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('deposit', 'transfer', 'withdrawal', 'conversion', 'reversal', 'split'));
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_parties_match_type;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_parties_match_type
+CHECK (
+    (source_user_id IS NULL) = (source_account_id IS NULL)
+    AND (destination_user_id IS NULL) = (destination_account_id IS NULL)
+    AND (
+        (type = 'deposit' AND source_account_id IS NULL AND destination_account_id IS NOT NULL)
+        OR (type = 'transfer' AND source_account_id IS NOT NULL AND destination_account_id IS NOT NULL AND source_account_id != destination_account_id)
+        OR (type = 'withdrawal' AND source_account_id IS NOT NULL AND destination_account_id IS NULL)
+        OR (type = 'conversion' AND (source_account_id IS NULL) != (destination_account_id IS NULL))
+        OR (type = 'reversal' AND (source_account_id IS NOT NULL OR destination_account_id IS NOT NULL))
+        OR (type = 'split' AND source_account_id IS NULL AND destination_account_id IS NULL)
+    )
+);
+
+-- Down Migration
+
+DELETE FROM public.postings WHERE transaction_id IN (SELECT id FROM public.transactions WHERE type = 'split');
+DELETE FROM public.transactions WHERE type = 'split';
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_parties_match_type;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_parties_match_type
+CHECK (
+    (source_user_id IS NULL) = (source_account_id IS NULL)
+    AND (destination_user_id IS NULL) = (destination_account_id IS NULL)
+    AND (
+        (type = 'deposit' AND source_account_id IS NULL AND destination_account_id IS NOT NULL)
+        OR (type = 'transfer' AND source_account_id IS NOT NULL AND destination_account_id IS NOT NULL AND source_account_id != destination_account_id)
+        OR (type = 'withdrawal' AND source_account_id IS NOT NULL AND destination_account_id IS NULL)
+        OR (type = 'conversion' AND (source_account_id IS NULL) != (destination_account_id IS NULL))
+        OR (type = 'reversal' AND (source_account_id IS NOT NULL OR destination_account_id IS NOT NULL))
+    )
+);
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('deposit', 'transfer', 'withdrawal', 'conversion', 'reversal'));
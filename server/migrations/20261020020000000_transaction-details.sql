@@ -0,0 +1,30 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.transactions (details)
+-- Purpose: Record why money moved. Transfers and deposits may carry a free
+-- text description, the caller's own reference (an invoice or order number)
+-- and a small JSON object of metadata. Like the rest of a ledger row, these
+-- are written once and never updated. The API enforces the detailed limits;
+-- the database only guards against oversized values.
+----------------------------------------------------
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS description TEXT
+CHECK (char_length(description) <= 500);
+
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS external_reference TEXT
+CHECK (char_length(external_reference) <= 128);
+
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS metadata JSONB
+CHECK (jsonb_typeof(metadata) = 'object' AND pg_column_size(metadata) <= 16384);
+
+-- History filtered by reference, and reconciliation against callers' records
+CREATE INDEX IF NOT EXISTS idx_transactions_external_reference ON public.transactions (external_reference)
+WHERE external_reference IS NOT NULL;
+
+-- Down Migration
+
+DROP INDEX IF EXISTS idx_transactions_external_reference;
+
+ALTER TABLE public.transactions DROP COLUMN IF EXISTS metadata;
+ALTER TABLE public.transactions DROP COLUMN IF EXISTS external_reference;
+ALTER TABLE public.transactions DROP COLUMN IF EXISTS description;
@@ -0,0 +1,87 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Indexes: transaction history keyset pagination
+-- Purpose: History pages are ordered by (created_at, id) and continue from
+-- the last row of the previous page, so each side of a user's history is
+-- indexed in that order. They supersede the (user, created_at) indexes.
+----------------------------------------------------
+CREATE INDEX IF NOT EXISTS idx_transactions_source_history ON public.transactions (source_user_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_transactions_dest_history ON public.transactions (destination_user_id, created_at, id);
+
+DROP INDEX IF EXISTS idx_transactions_source;
+DROP INDEX IF EXISTS idx_transactions_dest;
+
+----------------------------------------------------
+-- Function: get_account_balance_after_transaction
+-- Purpose: Running balance for transaction history. Same sum of postings as
+-- get_account_balance_on_date, but cut off at a ledger row rather than at a
+-- point in time: rows created in the same instant are ordered by id, as the
+-- history pages are, so consecutive rows always show consecutive balances.
+-- Performance: Uses idx_postings_account; STABLE PARALLEL SAFE.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_account_balance_after_transaction(
+    p_account_id UUID,
+    p_transaction_id UUID
+)
+RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(p.amount), 0)::BIGINT
+    FROM public.transactions ref
+    JOIN public.postings p ON p.account_id = p_account_id AND p.created_at <= ref.created_at
+    JOIN public.transactions t ON t.id = p.transaction_id
+    WHERE ref.id = p_transaction_id
+        AND (t.created_at, t.id) <= (ref.created_at, ref.id);
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Functions: get_account_current_balance, get_current_balance
+-- Purpose: Current balance as the sum of every posting the caller can see.
+-- Cutting off at NOW() missed postings committed after the caller's
+-- transaction began but before its snapshot was taken: a transfer that
+-- waited on an account lock held by another transfer could then pass the
+-- funds check against a stale balance. The newest history row's running
+-- balance now always equals the current balance.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_account_current_balance(p_account_id UUID)
+RETURNS BIGINT AS $$
+    SELECT public.get_account_balance_on_date(p_account_id, 'infinity');
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION public.get_current_balance(p_user_id UUID)
+RETURNS TABLE (currency CHAR(3), balance BIGINT, available_balance BIGINT, minor_units SMALLINT) AS $$
+    SELECT
+        b.currency,
+        b.balance,
+        b.balance - public.get_account_held_amount(a.id),
+        b.minor_units
+    FROM public.get_balance_on_date(p_user_id, 'infinity') b
+    JOIN public.accounts a ON a.user_id = p_user_id AND a.is_default AND a.currency = b.currency
+    ORDER BY b.currency;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+-- Down Migration
+
+CREATE OR REPLACE FUNCTION public.get_account_current_balance(p_account_id UUID)
+RETURNS BIGINT AS $$
+    SELECT public.get_account_balance_on_date(p_account_id, NOW());
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION public.get_current_balance(p_user_id UUID)
+RETURNS TABLE (currency CHAR(3), balance BIGINT, available_balance BIGINT, minor_units SMALLINT) AS $$
+    SELECT
+        b.currency,
+        b.balance,
+        b.balance - public.get_account_held_amount(a.id),
+        b.minor_units
+    FROM public.get_balance_on_date(p_user_id, NOW()) b
+    JOIN public.accounts a ON a.user_id = p_user_id AND a.is_default AND a.currency = b.currency
+    ORDER BY b.currency;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+DROP FUNCTION IF EXISTS public.get_account_balance_after_transaction(UUID, UUID);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_source ON public.transactions (source_user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_transactions_dest ON public.transactions (destination_user_id, created_at);
+
+DROP INDEX IF EXISTS idx_transactions_dest_history;
+DROP INDEX IF EXISTS idx_transactions_source_history;
@@ -0,0 +1,185 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.balance_checkpoints
+-- Purpose: Balance of a customer account as of a point in time, so balance
+-- queries add up only the postings after the nearest checkpoint instead of
+-- the account's whole history. A checkpoint covers every posting with
+-- created_at <= as_of; posting_count lets the verifier compare it with a
+-- full recomputation.
+--
+-- Checkpoints are derived data: they are never updated, and they are
+-- deleted when a posting lands at or before their as_of (a backdated
+-- import), so a visible checkpoint always matches the ledger. Checkpoints
+-- are only taken up to the start of the oldest open database transaction,
+-- since a transaction's postings are stamped with its start time and can
+-- commit long after it.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.balance_checkpoints (
+    account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+    as_of TIMESTAMPTZ NOT NULL,
+    balance BIGINT NOT NULL,
+    posting_count BIGINT NOT NULL CHECK (posting_count > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (account_id, as_of)
+);
+
+----------------------------------------------------
+-- Trigger: postings_invalidate_balance_checkpoints
+-- Purpose: Drop the checkpoints a new posting falls under. Postings stamped
+-- with the time of their own transaction are always newer than every
+-- checkpoint; only backdated ones (imports with created_at) delete any.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.invalidate_balance_checkpoints()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM public.balance_checkpoints c
+    USING (
+        SELECT account_id, MIN(created_at) AS created_at
+        FROM new_postings
+        GROUP BY account_id
+    ) p
+    WHERE c.account_id = p.account_id
+        AND c.as_of >= p.created_at;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER postings_invalidate_balance_checkpoints
+AFTER INSERT ON public.postings
+REFERENCING NEW TABLE AS new_postings
+FOR EACH STATEMENT EXECUTE FUNCTION public.invalidate_balance_checkpoints();
+
+----------------------------------------------------
+-- Function: public.get_account_balance_on_date
+-- Purpose: Calculate an account's balance at any point in time as its
+-- nearest checkpoint at or before that time plus the postings after it.
+-- Accounts without a checkpoint sum all their postings, as before.
+-- Performance: Uses the balance_checkpoints primary key and
+-- idx_postings_account; STABLE PARALLEL SAFE.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_account_balance_on_date(
+    p_account_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS BIGINT AS $$
+    WITH checkpoint AS (
+        SELECT as_of, balance
+        FROM public.balance_checkpoints
+        WHERE account_id = p_account_id
+            AND as_of <= p_date
+        ORDER BY as_of DESC
+        LIMIT 1
+    )
+    SELECT (
+        COALESCE((SELECT balance FROM checkpoint), 0) +
+        COALESCE((
+            SELECT SUM(amount)
+            FROM public.postings
+            WHERE account_id = p_account_id
+                AND created_at > COALESCE((SELECT as_of FROM checkpoint), '-infinity')
+                AND created_at <= p_date
+        ), 0)
+    )::BIGINT;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Function: public.get_balance_on_date
+-- Purpose: A user's balances at any point in time, one row per currency,
+-- from their default accounts' checkpoints and postings.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_balance_on_date(
+    p_user_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS TABLE (currency CHAR(3), balance BIGINT, minor_units SMALLINT) AS $$
+    SELECT a.currency, public.get_account_balance_on_date(a.id, p_date), c.minor_units
+    FROM public.accounts a
+    JOIN public.currencies c ON c.code = a.currency
+    WHERE a.user_id = p_user_id AND a.is_default
+    ORDER BY a.currency;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Function: public.get_account_balance_after_transaction
+-- Purpose: Running balance for transaction history, starting from the
+-- nearest checkpoint strictly before the ledger row, so that rows created in
+-- the same instant are still ordered by id.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_account_balance_after_transaction(
+    p_account_id UUID,
+    p_transaction_id UUID
+)
+RETURNS BIGINT AS $$
+    WITH ref AS (
+        SELECT id, created_at
+        FROM public.transactions
+        WHERE id = p_transaction_id
+    ),
+    checkpoint AS (
+        SELECT c.as_of, c.balance
+        FROM public.balance_checkpoints c
+        JOIN ref ON c.as_of < ref.created_at
+        WHERE c.account_id = p_account_id
+        ORDER BY c.as_of DESC
+        LIMIT 1
+    )
+    SELECT (
+        COALESCE((SELECT balance FROM checkpoint), 0) +
+        COALESCE((
+            SELECT SUM(p.amount)
+            FROM ref
+            JOIN public.postings p ON p.account_id = p_account_id
+                AND p.created_at > COALESCE((SELECT as_of FROM checkpoint), '-infinity')
+                AND p.created_at <= ref.created_at
+            JOIN public.transactions t ON t.id = p.transaction_id
+            WHERE (t.created_at, t.id) <= (ref.created_at, ref.id)
+        ), 0)
+    )::BIGINT;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+-- Down Migration
+
+CREATE OR REPLACE FUNCTION public.get_account_balance_after_transaction(
+    p_account_id UUID,
+    p_transaction_id UUID
+)
+RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(p.amount), 0)::BIGINT
+    FROM public.transactions ref
+    JOIN public.postings p ON p.account_id = p_account_id AND p.created_at <= ref.created_at
+    JOIN public.transactions t ON t.id = p.transaction_id
+    WHERE ref.id = p_transaction_id
+        AND (t.created_at, t.id) <= (ref.created_at, ref.id);
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION public.get_balance_on_date(
+    p_user_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS TABLE (currency CHAR(3), balance BIGINT, minor_units SMALLINT) AS $$
+    SELECT a.currency, COALESCE(SUM(p.amount), 0)::BIGINT, c.minor_units
+    FROM public.accounts a
+    JOIN public.currencies c ON c.code = a.currency
+    LEFT JOIN public.postings p ON p.account_id = a.id AND p.created_at <= p_date
+    WHERE a.user_id = p_user_id AND a.is_default
+    GROUP BY a.currency, c.minor_units
+    ORDER BY a.currency;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION public.get_account_balance_on_date(
+    p_account_id UUID,
+    p_date TIMESTAMPTZ
+)
+RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(amount), 0)::BIGINT
+    FROM public.postings
+    WHERE account_id = p_account_id
+        AND created_at <= p_date;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+DROP TRIGGER IF EXISTS postings_invalidate_balance_checkpoints ON public.postings;
+DROP FUNCTION IF EXISTS public.invalidate_balance_checkpoints();
+
+DROP TABLE IF EXISTS public.balance_checkpoints;
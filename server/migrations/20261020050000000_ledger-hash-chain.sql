@@ -0,0 +1,168 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Columns: public.transactions.chain_seq, prev_hash, hash
+-- Purpose: Chain every ledger entry to the one before it, so that changing,
+-- deleting or inserting a committed entry breaks every link after it.
+-- chain_seq numbers entries in the order they were committed (which for
+-- backdated imports is not the order of created_at); prev_hash is the hash
+-- of entry chain_seq - 1, or 64 zeros for the first entry; hash is
+-- public.ledger_entry_hash() of the entry itself. Hashes are lowercase hex.
+--
+-- The columns are set by the transactions_chain trigger and never by the
+-- application. They are required by a CHECK constraint rather than NOT NULL
+-- so that inserts don't have to name them.
+----------------------------------------------------
+ALTER TABLE public.transactions
+    ADD COLUMN chain_seq BIGINT,
+    ADD COLUMN prev_hash TEXT,
+    ADD COLUMN hash TEXT;
+
+----------------------------------------------------
+-- Function: public.ledger_entry_hash
+-- Purpose: SHA-256 over an entry's prev_hash followed by its position and
+-- every column a client can see, as a JSON array. jsonb renders numbers and
+-- object keys canonically; created_at is rendered in UTC with microseconds,
+-- so the hash doesn't depend on the session time zone.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.ledger_entry_hash(t public.transactions)
+RETURNS TEXT AS $$
+    SELECT encode(sha256(convert_to(
+        t.prev_hash || jsonb_build_array(
+            t.chain_seq,
+            t.id,
+            t.idempotency_key,
+            t.type,
+            t.source_user_id,
+            t.source_account_id,
+            t.destination_user_id,
+            t.destination_account_id,
+            t.amount,
+            t.currency,
+            to_char(t.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+            t.reverses_transaction_id,
+            t.batch_id,
+            t.batch_leg_index,
+            t.description,
+            t.external_reference,
+            t.metadata
+        )::text,
+        'UTF8'
+    )), 'hex');
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Backfill: chain the existing entries in created_at order
+----------------------------------------------------
+DO $$
+DECLARE
+    entry RECORD;
+    seq BIGINT := 0;
+    previous TEXT := repeat('0', 64);
+BEGIN
+    FOR entry IN SELECT id FROM public.transactions ORDER BY created_at, id LOOP
+        seq := seq + 1;
+
+        UPDATE public.transactions
+        SET chain_seq = seq, prev_hash = previous
+        WHERE id = entry.id;
+
+        UPDATE public.transactions t
+        SET hash = public.ledger_entry_hash(t)
+        WHERE id = entry.id
+        RETURNING t.hash INTO previous;
+    END LOOP;
+END;
+$$;
+
+ALTER TABLE public.transactions
+    ADD CONSTRAINT transactions_chain_seq_key UNIQUE (chain_seq),
+    ADD CONSTRAINT transactions_chained CHECK (chain_seq IS NOT NULL AND prev_hash IS NOT NULL AND hash IS NOT NULL);
+
+----------------------------------------------------
+-- Table: public.ledger_chain_head
+-- Purpose: The last entry of the chain, in a single row. Every transaction
+-- that writes ledger entries locks this table first (see lockLedgerChain in
+-- services/ledger.ts), so entries are chained one writer at a time and
+-- concurrent writers never read the same head.
+-- transaction_id is checked at commit: the head is written by the insert
+-- trigger, before its entry exists.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.ledger_chain_head (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    chain_seq BIGINT NOT NULL,
+    hash TEXT NOT NULL,
+    transaction_id UUID NOT NULL REFERENCES public.transactions(id) DEFERRABLE INITIALLY DEFERRED
+);
+
+INSERT INTO public.ledger_chain_head (chain_seq, hash, transaction_id)
+SELECT chain_seq, hash, id
+FROM public.transactions
+ORDER BY chain_seq DESC
+LIMIT 1;
+
+----------------------------------------------------
+-- Trigger: transactions_chain
+-- Purpose: Append each new entry to the chain inside the inserting
+-- transaction. Values a client sends for the chain columns are overwritten.
+-- The table lock is a no-op for writers that already took it; for anyone
+-- else it still keeps the chain linear. Under SERIALIZABLE, FOR UPDATE fails
+-- with a serialization error instead of reading a head that has moved since
+-- the snapshot.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.chain_transaction()
+RETURNS TRIGGER AS $$
+DECLARE
+    head public.ledger_chain_head%ROWTYPE;
+BEGIN
+    LOCK TABLE public.ledger_chain_head IN EXCLUSIVE MODE;
+
+    SELECT * INTO head FROM public.ledger_chain_head FOR UPDATE;
+
+    NEW.chain_seq := COALESCE(head.chain_seq, 0) + 1;
+    NEW.prev_hash := COALESCE(head.hash, repeat('0', 64));
+    NEW.hash := public.ledger_entry_hash(NEW);
+
+    INSERT INTO public.ledger_chain_head (chain_seq, hash, transaction_id)
+    VALUES (NEW.chain_seq, NEW.hash, NEW.id)
+    ON CONFLICT (id) DO UPDATE
+    SET chain_seq = EXCLUDED.chain_seq, hash = EXCLUDED.hash, transaction_id = EXCLUDED.transaction_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER transactions_chain
+BEFORE INSERT ON public.transactions
+FOR EACH ROW EXECUTE FUNCTION public.chain_transaction();
+
+----------------------------------------------------
+-- Table: public.ledger_chain_checkpoints
+-- Purpose: Signed statements of the chain head at a point in time. The
+-- signature (Ed25519, base64) covers 'thesaurum-ledger-head:v1:' ||
+-- chain_seq || ':' || hash; key_id identifies the public key it verifies
+-- with. A checkpoint kept outside the database pins the chain up to its
+-- entry: rewriting history means recomputing hashes, which no longer match
+-- the signed one.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.ledger_chain_checkpoints (
+    chain_seq BIGINT PRIMARY KEY REFERENCES public.transactions(chain_seq),
+    hash TEXT NOT NULL,
+    key_id TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    signed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Down Migration
+
+DROP TABLE IF EXISTS public.ledger_chain_checkpoints;
+DROP TRIGGER IF EXISTS transactions_chain ON public.transactions;
+DROP FUNCTION IF EXISTS public.chain_transaction();
+DROP TABLE IF EXISTS public.ledger_chain_head;
+DROP FUNCTION IF EXISTS public.ledger_entry_hash(public.transactions);
+ALTER TABLE public.transactions
+    DROP CONSTRAINT IF EXISTS transactions_chained,
+    DROP CONSTRAINT IF EXISTS transactions_chain_seq_key,
+    DROP COLUMN IF EXISTS hash,
+    DROP COLUMN IF EXISTS prev_hash,
+    DROP COLUMN IF EXISTS chain_seq;
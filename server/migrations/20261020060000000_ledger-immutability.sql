@@ -0,0 +1,95 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Roles: thesaurum_app, thesaurum_maintenance
+-- Purpose: thesaurum_app holds what the API server needs; deployments run
+-- the server as a login role that is a member of it. It may append to the
+-- ledger (transactions, postings) but not change, delete or truncate it.
+-- thesaurum_maintenance is the only role the immutability triggers below
+-- let through. It cannot log in and has no members: an operator grants it
+-- for a maintenance window and uses it explicitly with SET ROLE.
+-- Roles are shared by every database of the cluster, so they are only
+-- created if missing.
+----------------------------------------------------
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'thesaurum_app') THEN
+        CREATE ROLE thesaurum_app NOLOGIN;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'thesaurum_maintenance') THEN
+        CREATE ROLE thesaurum_maintenance NOLOGIN;
+    END IF;
+END;
+$$;
+
+GRANT USAGE ON SCHEMA public, private TO thesaurum_app;
+GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO thesaurum_app;
+GRANT SELECT, INSERT ON ALL TABLES IN SCHEMA private TO thesaurum_app;
+GRANT USAGE, SELECT ON ALL SEQUENCES IN SCHEMA public, private TO thesaurum_app;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT SELECT, INSERT, UPDATE, DELETE ON TABLES TO thesaurum_app;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public, private GRANT USAGE, SELECT ON SEQUENCES TO thesaurum_app;
+
+-- The ledger and its signed checkpoints are append-only
+REVOKE UPDATE, DELETE, TRUNCATE ON public.transactions, public.postings, public.ledger_chain_checkpoints FROM thesaurum_app;
+REVOKE ALL ON public.pgmigrations FROM thesaurum_app;
+
+GRANT USAGE ON SCHEMA public, private TO thesaurum_maintenance;
+GRANT ALL ON ALL TABLES IN SCHEMA public, private TO thesaurum_maintenance;
+GRANT ALL ON ALL SEQUENCES IN SCHEMA public, private TO thesaurum_maintenance;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public, private GRANT ALL ON TABLES TO thesaurum_maintenance;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public, private GRANT ALL ON SEQUENCES TO thesaurum_maintenance;
+
+----------------------------------------------------
+-- Triggers: transactions_immutable, postings_immutable (and _truncate)
+-- Purpose: Reject UPDATE, DELETE and TRUNCATE of ledger rows for every role
+-- but thesaurum_maintenance, superusers and table owners included, so
+-- immutability doesn't depend on how the server connects. Deletes that
+-- cascade from users or accounts are rejected too. The check is on
+-- current_user, which only SET ROLE thesaurum_maintenance changes;
+-- membership alone is not enough.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.reject_ledger_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user = 'thesaurum_maintenance' THEN
+        IF TG_OP = 'DELETE' THEN
+            RETURN OLD;
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION '% on %.% is not allowed: ledger entries are immutable', TG_OP, TG_TABLE_SCHEMA, TG_TABLE_NAME
+        USING ERRCODE = 'insufficient_privilege',
+              HINT = 'Corrections are recorded as new entries, such as reversals.';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER transactions_immutable
+BEFORE UPDATE OR DELETE ON public.transactions
+FOR EACH ROW EXECUTE FUNCTION public.reject_ledger_change();
+
+CREATE TRIGGER transactions_immutable_truncate
+BEFORE TRUNCATE ON public.transactions
+FOR EACH STATEMENT EXECUTE FUNCTION public.reject_ledger_change();
+
+CREATE TRIGGER postings_immutable
+BEFORE UPDATE OR DELETE ON public.postings
+FOR EACH ROW EXECUTE FUNCTION public.reject_ledger_change();
+
+CREATE TRIGGER postings_immutable_truncate
+BEFORE TRUNCATE ON public.postings
+FOR EACH STATEMENT EXECUTE FUNCTION public.reject_ledger_change();
+
+-- Down Migration
+
+DROP TRIGGER IF EXISTS postings_immutable_truncate ON public.postings;
+DROP TRIGGER IF EXISTS postings_immutable ON public.postings;
+DROP TRIGGER IF EXISTS transactions_immutable_truncate ON public.transactions;
+DROP TRIGGER IF EXISTS transactions_immutable ON public.transactions;
+DROP FUNCTION IF EXISTS public.reject_ledger_change();
+
+-- Revokes the roles' privileges in this database; the roles themselves are
+-- left for any other database of the cluster that uses them
+DROP OWNED BY thesaurum_app, thesaurum_maintenance;
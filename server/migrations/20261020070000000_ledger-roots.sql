@@ -0,0 +1,31 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.ledger_roots
+-- Purpose: Merkle roots over consecutive ranges of the hash chain, for
+-- publishing and for proving that a transaction is part of the ledger.
+-- A root covers the entries first_seq..last_seq; its leaves are their
+-- hash columns in chain order. Ranges follow each other without gaps or
+-- overlaps, starting at entry 1.
+--
+-- Tree layout (services/merkle.ts): a leaf node is SHA-256(0x00 || hash),
+-- an inner node SHA-256(0x01 || left || right); an odd node at the end of a
+-- level moves up unchanged. The root is lowercase hex.
+--
+-- Roots are published data: the application role can add them but not
+-- change or delete them.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.ledger_roots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    first_seq BIGINT NOT NULL UNIQUE REFERENCES public.transactions(chain_seq),
+    last_seq BIGINT NOT NULL UNIQUE REFERENCES public.transactions(chain_seq),
+    root TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (last_seq >= first_seq)
+);
+
+REVOKE UPDATE, DELETE, TRUNCATE ON public.ledger_roots FROM thesaurum_app;
+
+-- Down Migration
+
+DROP TABLE IF EXISTS public.ledger_roots;
@@ -0,0 +1,54 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Column: public.users.password_hash
+-- Purpose: Users created so far had their raw password stored here. Prefix
+-- those values with 'plain$' so the server can tell them from scrypt hashes
+-- ('scrypt$...', services/passwords.ts): it accepts them once more and
+-- replaces them with a hash on the user's next login.
+----------------------------------------------------
+UPDATE public.users
+SET password_hash = 'plain$' || password_hash
+WHERE password_hash NOT LIKE 'scrypt$%';
+
+----------------------------------------------------
+-- Table: public.auth_sessions
+-- Purpose: A login. Access tokens name their session (sid) and are only
+-- accepted while it is neither revoked (logout, refresh token reuse) nor
+-- expired; expires_at bounds how long refresh tokens can keep it alive.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.auth_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON public.auth_sessions(user_id);
+
+----------------------------------------------------
+-- Table: public.refresh_tokens
+-- Purpose: Refresh tokens of a session, stored as the SHA-256 of the token.
+-- Each one is exchanged at most once (used_at) for new tokens; presenting a
+-- used one again means it leaked, and revokes the whole session.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES public.auth_sessions(id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session ON public.refresh_tokens(session_id);
+
+-- Down Migration
+
+DROP TABLE IF EXISTS public.refresh_tokens;
+DROP TABLE IF EXISTS public.auth_sessions;
+
+UPDATE public.users
+SET password_hash = substr(password_hash, length('plain$') + 1)
+WHERE password_hash LIKE 'plain$%';
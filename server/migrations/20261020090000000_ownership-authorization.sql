@@ -0,0 +1,58 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.admins
+-- Purpose: Users who may read any user's balances and history and use the
+-- /admin endpoints. Being an admin does not let a user debit accounts they
+-- neither own nor were delegated. There is no endpoint to make a user an
+-- admin; an operator inserts the row.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.admins (
+    user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+----------------------------------------------------
+-- Table: public.account_delegations
+-- Purpose: Users an account's owner lets debit it (pay from it, withdraw,
+-- place holds) as if they owned it. A delegation lasts until the owner
+-- removes it.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.account_delegations (
+    account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+    delegate_user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (account_id, delegate_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_delegations_delegate ON public.account_delegations(delegate_user_id);
+
+----------------------------------------------------
+-- Table: public.audit_log
+-- Purpose: Security-relevant events, starting with requests the
+-- authorization policies refused. actor_user_id is not a foreign key so
+-- that entries outlive the users they name; the application role can add
+-- entries but not change or remove them.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.audit_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    actor_user_id UUID NULL,
+    action TEXT NOT NULL,
+    resource_type TEXT NOT NULL,
+    resource_id TEXT NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('allowed', 'denied')),
+    ip_address TEXT NULL,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON public.audit_log(actor_user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON public.audit_log(created_at);
+
+REVOKE UPDATE, DELETE, TRUNCATE ON public.audit_log FROM thesaurum_app;
+
+-- Down Migration
+
+DROP TABLE IF EXISTS public.audit_log;
+DROP TABLE IF EXISTS public.account_delegations;
+DROP TABLE IF EXISTS public.admins;
@@ -0,0 +1,90 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.permissions
+-- Purpose: What a role can let a user do beyond acting on their own
+-- accounts. The application checks permissions by name, so they are seeded
+-- here rather than created through the API.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.permissions (
+    name TEXT PRIMARY KEY,
+    description TEXT NOT NULL
+);
+
+INSERT INTO public.permissions (name, description) VALUES
+    ('accounts:read', 'Read any user''s balances, history, accounts, holds, schedules, statements and exports'),
+    ('deposits:issue', 'Deposit funds into any account, minting them'),
+    ('exchange_rates:write', 'Record exchange rates'),
+    ('ledger:audit', 'Run the reconciliation checks and verify the ledger hash chain'),
+    ('ledger:import', 'Import historical deposits and transfers'),
+    ('roles:manage', 'Grant and revoke roles'),
+    ('transactions:reverse', 'Reverse any transaction')
+ON CONFLICT (name) DO NOTHING;
+
+----------------------------------------------------
+-- Table: public.roles
+-- Purpose: Named sets of permissions granted to users
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.roles (
+    name TEXT PRIMARY KEY,
+    description TEXT NOT NULL
+);
+
+INSERT INTO public.roles (name, description) VALUES
+    ('admin', 'Every permission'),
+    ('operator', 'Deposits, reversals, exchange rates and read access to every account'),
+    ('auditor', 'Read access to every account and the ledger checks, nothing else'),
+    ('issuer', 'Deposits only')
+ON CONFLICT (name) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+    role TEXT NOT NULL REFERENCES public.roles(name) ON DELETE CASCADE,
+    permission TEXT NOT NULL REFERENCES public.permissions(name) ON DELETE CASCADE,
+    PRIMARY KEY (role, permission)
+);
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'admin', name FROM public.permissions
+UNION ALL
+SELECT 'operator', unnest(ARRAY['accounts:read', 'deposits:issue', 'exchange_rates:write', 'ledger:audit', 'transactions:reverse'])
+UNION ALL
+SELECT 'auditor', unnest(ARRAY['accounts:read', 'ledger:audit'])
+UNION ALL
+SELECT 'issuer', 'deposits:issue'
+ON CONFLICT DO NOTHING;
+
+----------------------------------------------------
+-- Table: public.user_roles
+-- Purpose: Roles granted to users. granted_by is NULL for roles granted
+-- from the command line (or migrated from public.admins).
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.user_roles (
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL REFERENCES public.roles(name) ON DELETE CASCADE,
+    granted_by UUID NULL REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, role)
+);
+
+-- Admins keep their access as holders of the admin role
+INSERT INTO public.user_roles (user_id, role, created_at)
+SELECT user_id, 'admin', created_at FROM public.admins
+ON CONFLICT DO NOTHING;
+
+DROP TABLE IF EXISTS public.admins;
+
+-- Down Migration
+
+CREATE TABLE IF NOT EXISTS public.admins (
+    user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.admins (user_id, created_at)
+SELECT user_id, created_at FROM public.user_roles WHERE role = 'admin'
+ON CONFLICT DO NOTHING;
+
+DROP TABLE IF EXISTS public.user_roles;
+DROP TABLE IF EXISTS public.role_permissions;
+DROP TABLE IF EXISTS public.roles;
+DROP TABLE IF EXISTS public.permissions;
@@ -0,0 +1,34 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Table: public.api_keys
+-- Purpose: Long-lived credentials for services that cannot log in. A key
+-- acts as the user it belongs to, limited to its scopes. Only the SHA-256
+-- of the key is stored; prefix is its first, non-secret part, kept to
+-- recognise a key in listings and logs. allowed_ips, when set, lists the
+-- addresses and CIDR ranges the key may be used from. last_used_at and
+-- last_used_ip are refreshed at most once a minute.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL UNIQUE,
+    key_hash TEXT NOT NULL UNIQUE,
+    scopes TEXT[] NOT NULL CHECK (
+        cardinality(scopes) > 0
+        AND scopes <@ ARRAY['accounts:read', 'accounts:write', 'balance:read', 'exchange_rates:write', 'transactions:read', 'transactions:write']::TEXT[]
+    ),
+    allowed_ips TEXT[] NULL CHECK (cardinality(allowed_ips) > 0),
+    expires_at TIMESTAMPTZ NULL,
+    last_used_at TIMESTAMPTZ NULL,
+    last_used_ip TEXT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    revoked_at TIMESTAMPTZ NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON public.api_keys(user_id, created_at);
+
+-- Down Migration
+
+DROP TABLE IF EXISTS public.api_keys;
@@ -0,0 +1,39 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Columns: public.api_keys.require_signature, signing_secret
+-- Purpose: Keys created with require_signature must sign the requests they
+-- make to POST /transactions and the deposit endpoints with HMAC-SHA256,
+-- using signing_secret. Unlike the key, the secret cannot be hashed, since
+-- the server computes the same HMAC; it is only returned when the key is
+-- created.
+----------------------------------------------------
+ALTER TABLE public.api_keys
+    ADD COLUMN require_signature BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN signing_secret TEXT NULL,
+    ADD CONSTRAINT api_keys_signing_secret_check CHECK (NOT require_signature OR signing_secret IS NOT NULL);
+
+----------------------------------------------------
+-- Table: public.api_key_nonces
+-- Purpose: Nonces of the signed requests each key made recently, so that a
+-- captured request cannot be replayed. Signed requests older than the
+-- clock-skew window are refused anyway, so nonces are only kept for twice
+-- that window.
+----------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.api_key_nonces (
+    api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+    nonce TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (api_key_id, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_key_nonces_created ON public.api_key_nonces(api_key_id, created_at);
+
+-- Down Migration
+
+DROP TABLE IF EXISTS public.api_key_nonces;
+
+ALTER TABLE public.api_keys
+    DROP CONSTRAINT IF EXISTS api_keys_signing_secret_check,
+    DROP COLUMN IF EXISTS signing_secret,
+    DROP COLUMN IF EXISTS require_signature;
@@ -0,0 +1,67 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Function: public.ledger_entry_preimage
+-- Purpose: The text public.ledger_entry_hash() hashes after prev_hash: the
+-- entry's position and every column a client can see, as a JSON array (see
+-- 20261020050000000_ledger-hash-chain). Split out so that inclusion proofs
+-- can carry it and clients can recompute an entry's hash offline
+-- (ledgerEntryHash in services/merkle.ts). Hashes are unchanged.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.ledger_entry_preimage(t public.transactions)
+RETURNS TEXT AS $$
+    SELECT jsonb_build_array(
+        t.chain_seq,
+        t.id,
+        t.idempotency_key,
+        t.type,
+        t.source_user_id,
+        t.source_account_id,
+        t.destination_user_id,
+        t.destination_account_id,
+        t.amount,
+        t.currency,
+        to_char(t.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+        t.reverses_transaction_id,
+        t.batch_id,
+        t.batch_leg_index,
+        t.description,
+        t.external_reference,
+        t.metadata
+    )::text;
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION public.ledger_entry_hash(t public.transactions)
+RETURNS TEXT AS $$
+    SELECT encode(sha256(convert_to(t.prev_hash || public.ledger_entry_preimage(t), 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Down Migration
+
+CREATE OR REPLACE FUNCTION public.ledger_entry_hash(t public.transactions)
+RETURNS TEXT AS $$
+    SELECT encode(sha256(convert_to(
+        t.prev_hash || jsonb_build_array(
+            t.chain_seq,
+            t.id,
+            t.idempotency_key,
+            t.type,
+            t.source_user_id,
+            t.source_account_id,
+            t.destination_user_id,
+            t.destination_account_id,
+            t.amount,
+            t.currency,
+            to_char(t.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+            t.reverses_transaction_id,
+            t.batch_id,
+            t.batch_leg_index,
+            t.description,
+            t.external_reference,
+            t.metadata
+        )::text,
+        'UTF8'
+    )), 'hex');
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+DROP FUNCTION IF EXISTS public.ledger_entry_preimage(public.transactions);
@@ -0,0 +1,191 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Constraint: public.postings.postings_transaction_fkey (deferred)
+-- Purpose: Balances are sums of postings, so an entry's hash has to cover
+-- its postings as well as its header row. The hash is computed when the
+-- entry is inserted (public.chain_transaction), so its postings are written
+-- first, in the same database transaction, and reference an entry that only
+-- exists at commit.
+----------------------------------------------------
+ALTER TABLE public.postings
+    ALTER CONSTRAINT postings_transaction_fkey DEFERRABLE INITIALLY DEFERRED;
+
+----------------------------------------------------
+-- Function: public.ledger_entry_preimage
+-- Purpose: As before (20261020130000000_ledger-entry-preimage), followed by
+-- the entry's postings as an array of [account_id, amount, currency],
+-- ordered by account and amount. STABLE rather than IMMUTABLE, since it
+-- reads public.postings.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.ledger_entry_preimage(t public.transactions)
+RETURNS TEXT AS $$
+    SELECT jsonb_build_array(
+        t.chain_seq,
+        t.id,
+        t.idempotency_key,
+        t.type,
+        t.source_user_id,
+        t.source_account_id,
+        t.destination_user_id,
+        t.destination_account_id,
+        t.amount,
+        t.currency,
+        to_char(t.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+        t.reverses_transaction_id,
+        t.batch_id,
+        t.batch_leg_index,
+        t.description,
+        t.external_reference,
+        t.metadata,
+        (
+            SELECT COALESCE(jsonb_agg(jsonb_build_array(p.account_id, p.amount, p.currency) ORDER BY p.account_id, p.amount), '[]'::jsonb)
+            FROM public.postings p
+            WHERE p.transaction_id = t.id
+        )
+    )::text;
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION public.ledger_entry_hash(t public.transactions)
+RETURNS TEXT AS $$
+    SELECT encode(sha256(convert_to(t.prev_hash || public.ledger_entry_preimage(t), 'UTF8')), 'hex');
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+----------------------------------------------------
+-- Trigger: postings_hashed
+-- Purpose: Reject, at commit, postings written after the entry they belong
+-- to was hashed: in the same transaction after the entry, or added to an
+-- entry committed earlier. Either would leave the entry's hash not matching
+-- its contents.
+----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.check_posting_hashed()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1
+        FROM public.transactions t
+        WHERE t.id = NEW.transaction_id
+            AND t.hash IS DISTINCT FROM public.ledger_entry_hash(t)
+    ) THEN
+        RAISE EXCEPTION 'Posting % was written after journal entry % was hashed', NEW.id, NEW.transaction_id
+            USING ERRCODE = 'check_violation',
+                  HINT = 'Write an entry''s postings before the entry itself.';
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE CONSTRAINT TRIGGER postings_hashed
+AFTER INSERT ON public.postings
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW EXECUTE FUNCTION public.check_posting_hashed();
+
+----------------------------------------------------
+-- Backfill: rehash the existing chain in chain_seq order, as
+-- thesaurum_maintenance (see 20261020060000000_ledger-immutability).
+-- Signed checkpoints and published roots certify the old hashes and cannot
+-- be rewritten with them, so the migration refuses to run once there are
+-- any.
+----------------------------------------------------
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.ledger_chain_checkpoints) OR EXISTS (SELECT 1 FROM public.ledger_roots) THEN
+        RAISE EXCEPTION 'Cannot rehash a ledger with signed checkpoints or published roots'
+            USING HINT = 'Rehash and re-sign the chain in a maintenance window.';
+    END IF;
+END;
+$$;
+
+SET LOCAL ROLE thesaurum_maintenance;
+
+DO $$
+DECLARE
+    entry RECORD;
+    previous TEXT := repeat('0', 64);
+BEGIN
+    FOR entry IN SELECT id FROM public.transactions ORDER BY chain_seq LOOP
+        UPDATE public.transactions
+        SET prev_hash = previous
+        WHERE id = entry.id;
+
+        UPDATE public.transactions t
+        SET hash = public.ledger_entry_hash(t)
+        WHERE id = entry.id
+        RETURNING t.hash INTO previous;
+    END LOOP;
+
+    UPDATE public.ledger_chain_head SET hash = previous;
+END;
+$$;
+
+RESET ROLE;
+
+-- Down Migration
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.ledger_chain_checkpoints) OR EXISTS (SELECT 1 FROM public.ledger_roots) THEN
+        RAISE EXCEPTION 'Cannot rehash a ledger with signed checkpoints or published roots'
+            USING HINT = 'Rehash and re-sign the chain in a maintenance window.';
+    END IF;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS postings_hashed ON public.postings;
+DROP FUNCTION IF EXISTS public.check_posting_hashed();
+
+CREATE OR REPLACE FUNCTION public.ledger_entry_preimage(t public.transactions)
+RETURNS TEXT AS $$
+    SELECT jsonb_build_array(
+        t.chain_seq,
+        t.id,
+        t.idempotency_key,
+        t.type,
+        t.source_user_id,
+        t.source_account_id,
+        t.destination_user_id,
+        t.destination_account_id,
+        t.amount,
+        t.currency,
+        to_char(t.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+        t.reverses_transaction_id,
+        t.batch_id,
+        t.batch_leg_index,
+        t.description,
+        t.external_reference,
+        t.metadata
+    )::text;
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION public.ledger_entry_hash(t public.transactions)
+RETURNS TEXT AS $$
+    SELECT encode(sha256(convert_to(t.prev_hash || public.ledger_entry_preimage(t), 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+SET LOCAL ROLE thesaurum_maintenance;
+
+DO $$
+DECLARE
+    entry RECORD;
+    previous TEXT := repeat('0', 64);
+BEGIN
+    FOR entry IN SELECT id FROM public.transactions ORDER BY chain_seq LOOP
+        UPDATE public.transactions
+        SET prev_hash = previous
+        WHERE id = entry.id;
+
+        UPDATE public.transactions t
+        SET hash = public.ledger_entry_hash(t)
+        WHERE id = entry.id
+        RETURNING t.hash INTO previous;
+    END LOOP;
+
+    UPDATE public.ledger_chain_head SET hash = previous;
+END;
+$$;
+
+RESET ROLE;
+
+ALTER TABLE public.postings
+    ALTER CONSTRAINT postings_transaction_fkey NOT DEFERRABLE;
@@ -0,0 +1,19 @@
+-- Up Migration
+
+----------------------------------------------------
+-- Column: public.scheduled_transfers.created_by_user_id
+-- Purpose: The user who created the schedule: its source user, or a
+-- delegate of the source's default account. Each run debits the source on
+-- the creator's behalf, so the worker checks that the creator may still do
+-- so (a delegation can be removed after the schedule was created). Existing
+-- schedules are taken to be their source user's own.
+----------------------------------------------------
+ALTER TABLE public.scheduled_transfers ADD COLUMN created_by_user_id UUID REFERENCES public.users(id);
+
+UPDATE public.scheduled_transfers SET created_by_user_id = source_user_id;
+
+ALTER TABLE public.scheduled_transfers ALTER COLUMN created_by_user_id SET NOT NULL;
+
+-- Down Migration
+
+ALTER TABLE public.scheduled_transfers DROP COLUMN IF EXISTS created_by_user_id;
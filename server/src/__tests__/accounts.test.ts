@@ -0,0 +1,354 @@
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('Accounts API', () => {
+  let user1Id: string;
+  let user2Id: string;
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    user1Id = (await createUser('accounts1@example.com')).id;
+    await grantRole(user1Id, 'issuer');
+
+    user2Id = (await createUser('accounts2@example.com')).id;
+  });
+
+  const getDefaultAccountId = async (userId: string): Promise<string> => {
+    const response = await asUser(userId).get(`/users/${userId}/accounts`);
+    return response.body.find((account: any) => account.is_default).id;
+  };
+
+  const openAccount = async (userId: string, name: string, kind?: string): Promise<string> => {
+    const response = await asUser(userId)
+      .post(`/users/${userId}/accounts`)
+      .send({ name, kind })
+      .expect(201);
+    return response.body.id;
+  };
+
+  describe('GET /users/:id/accounts', () => {
+    it('should give every new user a default account', async () => {
+      const response = await asUser(user1Id)
+        .get(`/users/${user1Id}/accounts`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0]).toMatchObject({
+        id: expect.any(String),
+        user_id: user1Id,
+        name: 'Main',
+        kind: 'personal',
+        is_default: true,
+        balance: 0,
+        created_at: expect.any(String),
+      });
+    });
+
+    it('should list the default account first with per-account balances', async () => {
+      const savingsId = await openAccount(user1Id, 'Savings', 'savings');
+
+      await asUser(user1Id)
+        .post(`/accounts/${savingsId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 2500 })
+        .expect(201);
+
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 1000 })
+        .expect(201);
+
+      const response = await asUser(user1Id)
+        .get(`/users/${user1Id}/accounts`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(2);
+      expect(response.body[0]).toMatchObject({ is_default: true, balance: 1000 });
+      expect(response.body[1]).toMatchObject({ id: savingsId, name: 'Savings', kind: 'savings', is_default: false, balance: 2500 });
+    });
+
+    it('should return empty array for non-existent user', async () => {
+      await grantRole(user1Id, 'admin');
+
+      const response = await asUser(user1Id)
+        .get(`/users/${randomUUID()}/accounts`)
+        .expect(200);
+
+      expect(response.body).toEqual([]);
+    });
+
+    it('should reject invalid user id', async () => {
+      const response = await asUser(user1Id)
+        .get('/users/invalid-id/accounts')
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+  });
+
+  describe('POST /users/:id/accounts', () => {
+    it('should open an additional account', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Business', kind: 'business' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        id: expect.any(String),
+        user_id: user1Id,
+        name: 'Business',
+        kind: 'business',
+        is_default: false,
+        balance: 0,
+      });
+    });
+
+    it('should default kind to personal', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Spending' })
+        .expect(201);
+
+      expect(response.body.kind).toBe('personal');
+    });
+
+    it('should reject unknown account kind', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Pot', kind: 'crypto' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should reject missing name', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({})
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should only let the user or an admin open accounts for them', async () => {
+      const response = await asUser(user2Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Mine now' })
+        .expect(403);
+
+      expect(response.body.error).toBe('Forbidden.');
+
+      const adminId = (await createUser('accounts-admin@example.com')).id;
+      await grantRole(adminId, 'admin');
+      await asUser(adminId)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Opened by support' })
+        .expect(201);
+
+      const accounts = await asUser(user1Id).get(`/users/${user1Id}/accounts`).expect(200);
+      expect(accounts.body).toHaveLength(2);
+      expect(accounts.body.find((account: any) => !account.is_default).name).toBe('Opened by support');
+    });
+
+    it('should return 404 for non-existent user', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${randomUUID()}/accounts`)
+        .send({ name: 'Savings' })
+        .expect(404);
+
+      expect(response.body.error).toBe('User not found');
+    });
+  });
+
+  describe('Account-addressed operations', () => {
+    let mainId: string;
+    let savingsId: string;
+
+    beforeEach(async () => {
+      mainId = await getDefaultAccountId(user1Id);
+      savingsId = await openAccount(user1Id, 'Savings', 'savings');
+
+      await asUser(user1Id)
+        .post(`/accounts/${mainId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 10000 })
+        .expect(201);
+    });
+
+    it('should record account ids on deposits', async () => {
+      const response = await asUser(user1Id)
+        .post(`/accounts/${savingsId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 500 })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        type: 'deposit',
+        source_user_id: null,
+        source_account_id: null,
+        destination_user_id: user1Id,
+        destination_account_id: savingsId,
+        amount: 500,
+      });
+    });
+
+    it('should transfer between two accounts of the same user', async () => {
+      const response = await asUser(user1Id)
+        .post(`/accounts/${mainId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: savingsId, amount: 4000 })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        type: 'transfer',
+        source_user_id: user1Id,
+        destination_user_id: user1Id,
+        source_account_id: mainId,
+        destination_account_id: savingsId,
+        amount: 4000,
+      });
+
+      const main = await asUser(user1Id).get(`/accounts/${mainId}/balance`).expect(200);
+      const savings = await asUser(user1Id).get(`/accounts/${savingsId}/balance`).expect(200);
+
+      expect(main.body).toEqual({ account_id: mainId, currency: 'USD', balance: 6000, available_balance: 6000, minor_units: 2 });
+      expect(savings.body).toEqual({ account_id: savingsId, currency: 'USD', balance: 4000, available_balance: 4000, minor_units: 2 });
+    });
+
+    it('should transfer to another user\'s account', async () => {
+      const user2MainId = await getDefaultAccountId(user2Id);
+
+      await asUser(user1Id)
+        .post(`/accounts/${mainId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: user2MainId, amount: 3000 })
+        .expect(201);
+
+      const balance = await asUser(user2Id).get(`/users/${user2Id}/balance`);
+      expect(balance.body.balance).toBe(3000);
+    });
+
+    it('should only count the default account in the user-level balance', async () => {
+      await asUser(user1Id)
+        .post(`/accounts/${mainId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: savingsId, amount: 4000 })
+        .expect(201);
+
+      const balance = await asUser(user1Id).get(`/users/${user1Id}/balance`);
+      expect(balance.body.balance).toBe(6000);
+    });
+
+    it('should draw user-level transfers from the default account only', async () => {
+      await asUser(user1Id)
+        .post(`/accounts/${mainId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: savingsId, amount: 9000 })
+        .expect(201);
+
+      const response = await asUser(user1Id)
+        .post('/transactions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_user_id: user1Id,
+          destination_user_id: user2Id,
+          amount: 2000,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Insufficient funds.');
+    });
+
+    it('should reject transfer with insufficient funds in the source account', async () => {
+      const response = await asUser(user1Id)
+        .post(`/accounts/${savingsId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: mainId, amount: 1 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Insufficient funds.');
+    });
+
+    it('should reject transfer to the same account', async () => {
+      const response = await asUser(user1Id)
+        .post(`/accounts/${mainId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: mainId, amount: 100 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should return 404 for transfer to non-existent account', async () => {
+      const response = await asUser(user1Id)
+        .post(`/accounts/${mainId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: randomUUID(), amount: 100 })
+        .expect(404);
+
+      expect(response.body.error).toBe('Account not found.');
+    });
+
+    it('should withdraw from a specific account', async () => {
+      const response = await asUser(user1Id)
+        .post(`/accounts/${mainId}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 2500 })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        type: 'withdrawal',
+        source_account_id: mainId,
+        destination_account_id: null,
+      });
+
+      const balance = await asUser(user1Id).get(`/accounts/${mainId}/balance`);
+      expect(balance.body.balance).toBe(7500);
+    });
+
+    it('should return 404 for operations on non-existent accounts', async () => {
+      const fakeAccountId = randomUUID();
+
+      await asUser(user1Id)
+        .post(`/accounts/${fakeAccountId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 100 })
+        .expect(404);
+
+      await asUser(user1Id)
+        .post(`/accounts/${fakeAccountId}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 100 })
+        .expect(404);
+
+      await asUser(user1Id)
+        .get(`/accounts/${fakeAccountId}/balance`)
+        .expect(404);
+    });
+
+    it('should return historical account balance', async () => {
+      const beforeTransfer = new Date().toISOString();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      await asUser(user1Id)
+        .post(`/accounts/${mainId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: savingsId, amount: 1000 })
+        .expect(201);
+
+      const historical = await asUser(user1Id)
+        .get(`/accounts/${savingsId}/balance?date=${beforeTransfer}`)
+        .expect(200);
+
+      expect(historical.body.balance).toBe(0);
+    });
+
+    it('should not double-spend across concurrent transfers from one account', async () => {
+      const transfers = Array.from({ length: 5 }, () =>
+        asUser(user1Id)
+          .post(`/accounts/${mainId}/transfer`)
+          .send({ idempotency_key: randomUUID(), destination_account_id: savingsId, amount: 3000 })
+      );
+
+      const results = await Promise.all(transfers);
+      const successful = results.filter(r => r.status === 201);
+
+      expect(successful).toHaveLength(3);
+      expect(results.filter(r => r.status === 400)).toHaveLength(2);
+
+      const main = await asUser(user1Id).get(`/accounts/${mainId}/balance`);
+      const savings = await asUser(user1Id).get(`/accounts/${savingsId}/balance`);
+
+      expect(main.body.balance).toBe(1000);
+      expect(savings.body.balance).toBe(9000);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import request from 'supertest';
+import { app } from './app';
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asApiKey, asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('API keys', () => {
+  let aliceId: string;
+  let bobId: string;
+
+  const createKey = (userId: string, body: object) => asUser(userId)
+    .post(`/users/${userId}/api-keys`)
+    .send({ name: 'Payroll service', ...body });
+
+  const auditEntries = async (actorUserId: string) => {
+    const result = await pool.query(
+      'SELECT action, resource_type, resource_id, outcome, details FROM audit_log WHERE actor_user_id = $1 ORDER BY created_at',
+      [actorUserId]
+    );
+    return result.rows;
+  };
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    aliceId = (await createUser('alice@api-keys.example.com')).id;
+    bobId = (await createUser('bob@api-keys.example.com')).id;
+
+    const issuerId = (await createUser('issuer@api-keys.example.com')).id;
+    await grantRole(issuerId, 'issuer');
+    await asUser(issuerId)
+      .post(`/users/${aliceId}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount: 10000 })
+      .expect(201);
+  });
+
+  describe('Managing keys', () => {
+    it('should create a key, show it once and store only its hash', async () => {
+      const response = await createKey(aliceId, { scopes: ['balance:read'] }).expect(201);
+
+      expect(response.body).toEqual({
+        id: expect.any(String),
+        user_id: aliceId,
+        name: 'Payroll service',
+        prefix: expect.stringMatching(/^thk_[0-9a-f]{12}$/),
+        scopes: ['balance:read'],
+        allowed_ips: null,
+        expires_at: null,
+        last_used_at: null,
+        last_used_ip: null,
+        created_at: expect.any(String),
+        revoked_at: null,
+        require_signature: false,
+        key: expect.stringMatching(/^thk_[0-9a-f]{12}_[\w-]{43}$/),
+        signing_secret: null,
+      });
+      expect(response.body.key.startsWith(`${response.body.prefix}_`)).toBe(true);
+
+      const stored = await pool.query('SELECT key_hash FROM api_keys WHERE id = $1', [response.body.id]);
+      expect(stored.rows[0].key_hash).not.toContain(response.body.key);
+
+      const list = await asUser(aliceId).get(`/users/${aliceId}/api-keys`).expect(200);
+      expect(list.body).toHaveLength(1);
+      expect(list.body[0]).not.toHaveProperty('key');
+      expect(list.body[0]).not.toHaveProperty('key_hash');
+
+      expect(await auditEntries(aliceId)).toEqual([{
+        action: 'api_keys.create',
+        resource_type: 'api_key',
+        resource_id: response.body.id,
+        outcome: 'allowed',
+        details: { scopes: ['balance:read'] },
+      }]);
+    });
+
+    it('should validate scopes, allow-lists and expiry', async () => {
+      await createKey(aliceId, { scopes: [] }).expect(400);
+      await createKey(aliceId, { scopes: ['ledger:audit'] }).expect(400);
+      await createKey(aliceId, { scopes: ['balance:read', 'balance:read'] }).expect(400);
+      await createKey(aliceId, { scopes: ['balance:read'], allowed_ips: ['not-an-address'] }).expect(400);
+      await createKey(aliceId, { scopes: ['balance:read'], expires_at: 'tomorrow' }).expect(400);
+
+      const past = await createKey(aliceId, { scopes: ['balance:read'], expires_at: '2020-01-01T00:00:00Z' }).expect(400);
+      expect(past.body.error).toBe('API key expiry must be in the future.');
+    });
+
+    it('should revoke a key', async () => {
+      const created = await createKey(aliceId, { scopes: ['balance:read'] }).expect(201);
+
+      await asUser(aliceId).delete(`/users/${aliceId}/api-keys/${created.body.id}`).expect(204);
+
+      const response = await asApiKey(created.body.key).get(`/users/${aliceId}/balance`).expect(401);
+      expect(response.body.error).toBe('Invalid or expired API key.');
+
+      const list = await asUser(aliceId).get(`/users/${aliceId}/api-keys`).expect(200);
+      expect(list.body[0].revoked_at).not.toBeNull();
+
+      const again = await asUser(aliceId).delete(`/users/${aliceId}/api-keys/${created.body.id}`).expect(404);
+      expect(again.body.error).toBe('API key not found.');
+    });
+
+    it('should only let users manage their own keys', async () => {
+      const created = await createKey(aliceId, { scopes: ['balance:read'] }).expect(201);
+
+      await asUser(bobId).post(`/users/${aliceId}/api-keys`).send({ name: 'Stolen', scopes: ['transactions:write'] }).expect(403);
+      await asUser(bobId).get(`/users/${aliceId}/api-keys`).expect(403);
+      await asUser(bobId).delete(`/users/${aliceId}/api-keys/${created.body.id}`).expect(403);
+      await asUser(bobId).delete(`/users/${bobId}/api-keys/${created.body.id}`).expect(404);
+
+      await asApiKey(created.body.key).get(`/users/${aliceId}/balance`).expect(200);
+    });
+  });
+
+  describe('Authenticating with a key', () => {
+    it('should act as the key\'s user within its scopes', async () => {
+      const created = await createKey(aliceId, { scopes: ['balance:read', 'transactions:write'] }).expect(201);
+
+      await asApiKey(created.body.key)
+        .post('/transactions')
+        .send({ idempotency_key: randomUUID(), source_user_id: aliceId, destination_user_id: bobId, amount: 2500 })
+        .expect(201);
+      const balance = await asApiKey(created.body.key).get(`/users/${aliceId}/balance`).expect(200);
+
+      expect(balance.body.balance).toBe(7500);
+    });
+
+    it('should refuse requests outside the key\'s scopes and record them', async () => {
+      const created = await createKey(aliceId, { scopes: ['balance:read'] }).expect(201);
+
+      const response = await asApiKey(created.body.key)
+        .post('/transactions')
+        .send({ idempotency_key: randomUUID(), source_user_id: aliceId, destination_user_id: bobId, amount: 2500 })
+        .expect(403);
+      await asApiKey(created.body.key).get(`/users/${aliceId}/transactions`).expect(403);
+
+      expect(response.body.error).toBe('Forbidden.');
+      expect((await auditEntries(aliceId)).filter(entry => entry.outcome === 'denied')).toEqual([
+        {
+          action: 'transactions:write',
+          resource_type: 'endpoint',
+          resource_id: 'POST /transactions',
+          outcome: 'denied',
+          details: { api_key_id: created.body.id },
+        },
+        {
+          action: 'transactions:read',
+          resource_type: 'endpoint',
+          resource_id: `GET /users/${aliceId}/transactions`,
+          outcome: 'denied',
+          details: { api_key_id: created.body.id },
+        },
+      ]);
+    });
+
+    it('should not widen what the key\'s user may do', async () => {
+      const created = await createKey(aliceId, { scopes: ['balance:read', 'transactions:write'] }).expect(201);
+
+      await asApiKey(created.body.key).get(`/users/${bobId}/balance`).expect(403);
+      await asApiKey(created.body.key)
+        .post(`/users/${aliceId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 100 })
+        .expect(403);
+    });
+
+    it('should refuse administration, role and key management endpoints', async () => {
+      const created = await createKey(aliceId, {
+        scopes: ['accounts:read', 'accounts:write', 'balance:read', 'exchange_rates:write', 'transactions:read', 'transactions:write'],
+      }).expect(201);
+      await grantRole(aliceId, 'admin');
+
+      await asApiKey(created.body.key).get(`/users/${aliceId}/api-keys`).expect(403);
+      await asApiKey(created.body.key).post(`/users/${aliceId}/api-keys`).send({ name: 'Child', scopes: ['balance:read'] }).expect(403);
+      await asApiKey(created.body.key).get('/admin/roles').expect(403);
+      await asApiKey(created.body.key).get('/admin/reconciliation').expect(403);
+      await asApiKey(created.body.key).post('/auth/logout').expect(403);
+
+      await asApiKey(created.body.key).get(`/users/${aliceId}/accounts`).expect(200);
+    });
+
+    it('should reject unknown and expired keys', async () => {
+      const unknown = await asApiKey('thk_000000000000_unknown').get(`/users/${aliceId}/balance`).expect(401);
+      expect(unknown.body.error).toBe('Invalid or expired API key.');
+
+      const created = await createKey(aliceId, { scopes: ['balance:read'], expires_at: '2100-01-01T00:00:00Z' }).expect(201);
+      await asApiKey(created.body.key).get(`/users/${aliceId}/balance`).expect(200);
+
+      await pool.query("UPDATE api_keys SET expires_at = NOW() - INTERVAL '1 second' WHERE id = $1", [created.body.id]);
+
+      await asApiKey(created.body.key).get(`/users/${aliceId}/balance`).expect(401);
+    });
+
+    it('should still accept access tokens, and require one or the other', async () => {
+      await asUser(aliceId).get(`/users/${aliceId}/balance`).expect(200);
+
+      const response = await request(app).get(`/users/${aliceId}/balance`).expect(401);
+      expect(response.body.error).toBe('Authentication required.');
+    });
+
+    it('should record when and where a key was last used', async () => {
+      const created = await createKey(aliceId, { scopes: ['balance:read'] }).expect(201);
+
+      await asApiKey(created.body.key).get(`/users/${aliceId}/balance`).expect(200);
+
+      const list = await asUser(aliceId).get(`/users/${aliceId}/api-keys`).expect(200);
+      expect(list.body[0].last_used_at).not.toBeNull();
+      expect(list.body[0].last_used_ip).toMatch(/127\.0\.0\.1|::1/);
+    });
+  });
+
+  describe('IP allow-lists', () => {
+    it('should accept keys used from an allowed address or range', async () => {
+      const address = await createKey(aliceId, { scopes: ['balance:read'], allowed_ips: ['127.0.0.1', '::1'] }).expect(201);
+      const range = await createKey(aliceId, { scopes: ['balance:read'], allowed_ips: ['127.0.0.0/8', '::1/128'] }).expect(201);
+
+      await asApiKey(address.body.key).get(`/users/${aliceId}/balance`).expect(200);
+      await asApiKey(range.body.key).get(`/users/${aliceId}/balance`).expect(200);
+    });
+
+    it('should refuse keys used from elsewhere and record it', async () => {
+      const created = await createKey(aliceId, { scopes: ['balance:read'], allowed_ips: ['203.0.113.0/24'] }).expect(201);
+
+      const response = await asApiKey(created.body.key).get(`/users/${aliceId}/balance`).expect(403);
+
+      expect(response.body.error).toBe('API key not allowed from this address.');
+      expect((await auditEntries(aliceId)).filter(entry => entry.outcome === 'denied')).toEqual([{
+        action: 'api_keys.use',
+        resource_type: 'api_key',
+        resource_id: created.body.id,
+        outcome: 'denied',
+        details: {},
+      }]);
+    });
+  });
+});
@@ -1,14 +1,39 @@
 import '../init';
 import express from 'express';
+import authRouter from '../routes/auth';
 import transactionsRouter from '../routes/transactions';
 import usersRouter from '../routes/users';
+import accountsRouter from '../routes/accounts';
+import conversionsRouter from '../routes/conversions';
+import holdsRouter from '../routes/holds';
+import scheduledTransfersRouter from '../routes/scheduledTransfers';
+import statementsRouter from '../routes/statements';
+import exportsRouter from '../routes/exports';
+import importsRouter from '../routes/imports';
+import reconciliationRouter from '../routes/reconciliation';
+import ledgerChainRouter from '../routes/ledgerChain';
+import apiKeysRouter from '../routes/apiKeys';
+import { authenticate, captureRawBody } from '../middleware/auth';
 
 export const app = express();
 
-app.use(express.json());
-app.use('/', transactionsRouter);
-app.use('/', usersRouter);
+app.use(express.json({ verify: captureRawBody }));
 
 app.get('/health', (req, res) => {
   res.json({ status: 'ok' });
 });
+
+app.use('/', authRouter);
+app.use('/', usersRouter);
+app.use(authenticate);
+app.use('/', transactionsRouter);
+app.use('/', accountsRouter);
+app.use('/', conversionsRouter);
+app.use('/', holdsRouter);
+app.use('/', scheduledTransfersRouter);
+app.use('/', statementsRouter);
+app.use('/', exportsRouter);
+app.use('/', importsRouter);
+app.use('/', reconciliationRouter);
+app.use('/', ledgerChainRouter);
+app.use('/', apiKeysRouter);
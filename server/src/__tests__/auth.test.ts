@@ -0,0 +1,207 @@
+import request from 'supertest';
+import { app } from './app';
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, signIn, TEST_PASSWORD } from './auth';
+import { createHmac, randomUUID } from 'crypto';
+
+describe('Authentication', () => {
+  let aliceId: string;
+
+  const storedHash = async (userId: string) => {
+    const result = await pool.query('SELECT password_hash FROM users WHERE id = $1', [userId]);
+    return result.rows[0].password_hash;
+  };
+
+  const balance = (token: string) => request(app)
+    .get(`/users/${aliceId}/balance`)
+    .set('Authorization', `Bearer ${token}`);
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    aliceId = (await createUser('alice@auth.example.com')).id;
+  });
+
+  afterEach(() => {
+    process.env.PASSWORD_HASH_COST = '4';
+  });
+
+  describe('Password hashing', () => {
+    it('should store a salted scrypt hash instead of the password', async () => {
+      const bobId = (await createUser('bob@auth.example.com')).id;
+
+      const [aliceHash, bobHash] = [await storedHash(aliceId), await storedHash(bobId)];
+
+      expect(aliceHash).toMatch(/^scrypt\$4\$8\$1\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/);
+      expect(aliceHash).not.toContain(TEST_PASSWORD);
+      expect(bobHash).not.toBe(aliceHash);
+    });
+
+    it('should rehash on login when the cost changed', async () => {
+      const before = await storedHash(aliceId);
+      process.env.PASSWORD_HASH_COST = '5';
+
+      await signIn('alice@auth.example.com');
+
+      const after = await storedHash(aliceId);
+      expect(after).toMatch(/^scrypt\$5\$/);
+      expect(after).not.toBe(before);
+
+      await signIn('alice@auth.example.com');
+      expect(await storedHash(aliceId)).toBe(after);
+    });
+
+    it('should accept a password stored before hashing once, and hash it', async () => {
+      await pool.query("UPDATE users SET password_hash = 'plain$legacy-password' WHERE id = $1", [aliceId]);
+
+      await signIn('alice@auth.example.com', 'legacy-password');
+
+      expect(await storedHash(aliceId)).toMatch(/^scrypt\$4\$/);
+      await signIn('alice@auth.example.com', 'legacy-password');
+    });
+  });
+
+  describe('POST /auth/login', () => {
+    it('should issue an access token and a refresh token', async () => {
+      const response = await request(app)
+        .post('/auth/login')
+        .send({ email: 'alice@auth.example.com', password: TEST_PASSWORD })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        access_token: expect.stringMatching(/^[\w-]+\.[\w-]+\.[\w-]+$/),
+        token_type: 'Bearer',
+        expires_in: 900,
+        refresh_token: expect.any(String),
+        refresh_expires_in: expect.any(Number),
+        user: { id: aliceId, email: 'alice@auth.example.com', created_at: expect.any(String), updated_at: expect.any(String) },
+      });
+
+      await balance(response.body.access_token).expect(200);
+    });
+
+    it('should reject a wrong password and an unknown email alike', async () => {
+      const wrongPassword = await request(app)
+        .post('/auth/login')
+        .send({ email: 'alice@auth.example.com', password: 'wrong-password' })
+        .expect(401);
+      const unknownEmail = await request(app)
+        .post('/auth/login')
+        .send({ email: 'nobody@auth.example.com', password: TEST_PASSWORD })
+        .expect(401);
+
+      expect(wrongPassword.body.error).toBe('Invalid email or password.');
+      expect(unknownEmail.body).toEqual(wrongPassword.body);
+    });
+
+    it('should reject a missing password', async () => {
+      const response = await request(app)
+        .post('/auth/login')
+        .send({ email: 'alice@auth.example.com' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+  });
+
+  describe('Access tokens', () => {
+    it('should require a token on protected routes', async () => {
+      const response = await request(app).get(`/users/${aliceId}/balance`).expect(401);
+
+      expect(response.body.error).toBe('Authentication required.');
+    });
+
+    it('should reject a token with a changed payload', async () => {
+      const { access_token } = await signIn('alice@auth.example.com');
+      const [header, payload, signature] = access_token.split('.');
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+      const forged = Buffer.from(JSON.stringify({ ...claims, sub: randomUUID() })).toString('base64url');
+
+      const response = await balance(`${header}.${forged}.${signature}`).expect(401);
+
+      expect(response.body.error).toBe('Invalid or expired access token.');
+    });
+
+    it('should reject an expired token', async () => {
+      const { access_token } = await signIn('alice@auth.example.com');
+      const [header, payload] = access_token.split('.');
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+      const expired = `${header}.${Buffer.from(JSON.stringify({ ...claims, exp: claims.iat - 1 })).toString('base64url')}`;
+      const signature = createHmac('sha256', process.env.AUTH_TOKEN_SECRET!).update(expired).digest('base64url');
+
+      await balance(`${expired}.${signature}`).expect(401);
+    });
+
+    it('should attach the authenticated user to the request', async () => {
+      await asUser(aliceId).get(`/users/${aliceId}/balance`).expect(200);
+    });
+  });
+
+  describe('POST /auth/refresh', () => {
+    it('should rotate the refresh token', async () => {
+      const { refresh_token } = await signIn('alice@auth.example.com');
+
+      const refreshed = await request(app).post('/auth/refresh').send({ refresh_token }).expect(200);
+
+      expect(refreshed.body.refresh_token).not.toBe(refresh_token);
+      expect(refreshed.body.user.id).toBe(aliceId);
+      await balance(refreshed.body.access_token).expect(200);
+      await request(app).post('/auth/refresh').send({ refresh_token: refreshed.body.refresh_token }).expect(200);
+    });
+
+    it('should revoke the session when a used refresh token comes back', async () => {
+      const { refresh_token } = await signIn('alice@auth.example.com');
+      const refreshed = await request(app).post('/auth/refresh').send({ refresh_token }).expect(200);
+
+      const reused = await request(app).post('/auth/refresh').send({ refresh_token }).expect(401);
+
+      expect(reused.body.error).toBe('Invalid refresh token.');
+      await balance(refreshed.body.access_token).expect(401);
+      await request(app).post('/auth/refresh').send({ refresh_token: refreshed.body.refresh_token }).expect(401);
+    });
+
+    it('should hand out one set of tokens for concurrent refreshes', async () => {
+      const { refresh_token } = await signIn('alice@auth.example.com');
+
+      const responses = await Promise.all(Array.from({ length: 3 }, () => request(app)
+        .post('/auth/refresh')
+        .send({ refresh_token })));
+
+      expect(responses.map(response => response.status).sort()).toEqual([200, 401, 401]);
+    });
+
+    it('should reject an unknown or expired refresh token', async () => {
+      await request(app).post('/auth/refresh').send({ refresh_token: 'unknown' }).expect(401);
+
+      const { refresh_token } = await signIn('alice@auth.example.com');
+      await pool.query("UPDATE refresh_tokens SET expires_at = NOW() - INTERVAL '1 second'");
+
+      await request(app).post('/auth/refresh').send({ refresh_token }).expect(401);
+    });
+
+    it('should not outlive its session', async () => {
+      const { refresh_token } = await signIn('alice@auth.example.com');
+      await pool.query("UPDATE auth_sessions SET expires_at = NOW() - INTERVAL '1 second'");
+
+      await request(app).post('/auth/refresh').send({ refresh_token }).expect(401);
+    });
+  });
+
+  describe('POST /auth/logout', () => {
+    it('should revoke the access and refresh tokens of the session', async () => {
+      const { access_token, refresh_token } = await signIn('alice@auth.example.com');
+      const other = await signIn('alice@auth.example.com');
+
+      await request(app).post('/auth/logout').set('Authorization', `Bearer ${access_token}`).expect(204);
+
+      await balance(access_token).expect(401);
+      await request(app).post('/auth/refresh').send({ refresh_token }).expect(401);
+      await balance(other.access_token).expect(200);
+    });
+
+    it('should require a token', async () => {
+      await request(app).post('/auth/logout').expect(401);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import request from 'supertest';
+import { app } from './app';
+import { pool } from '../db';
+
+export const TEST_PASSWORD = 'password123';
+
+// Access token of every user signed in through the helpers, by user id
+const accessTokens = new Map<string, string>();
+
+/**
+ * Logs a user in with POST /auth/login; later requests made with asUser
+ * use the new access token
+ * @returns The tokens issued
+ */
+export async function signIn(email: string, password = TEST_PASSWORD) {
+  const response = await request(app).post('/auth/login').send({ email, password }).expect(200);
+
+  accessTokens.set(response.body.user.id, response.body.access_token);
+
+  return response.body;
+}
+
+/**
+ * Signs a user up with POST /users and logs them in
+ * @returns The created user
+ */
+export async function createUser(email: string, password = TEST_PASSWORD) {
+  const response = await request(app).post('/users').send({ email, password }).expect(201);
+
+  await signIn(email, password);
+
+  return response.body;
+}
+
+/**
+ * Grants a user a role, as npm run roles:grant would
+ */
+export async function grantRole(userId: string, role: 'admin' | 'operator' | 'auditor' | 'issuer') {
+  await pool.query('INSERT INTO user_roles (user_id, role) VALUES ($1, $2) ON CONFLICT DO NOTHING', [userId, role]);
+}
+
+/**
+ * A request agent authenticated as a user created or signed in with the
+ * helpers above: asUser(aliceId).post('/transactions')
+ */
+export function asUser(userId: string) {
+  const accessToken = accessTokens.get(userId);
+
+  if (!accessToken) {
+    throw new Error(`User ${userId} has not signed in`);
+  }
+
+  return request.agent(app).set('Authorization', `Bearer ${accessToken}`);
+}
+
+/**
+ * A request agent authenticated with an API key, as a service would be:
+ * asApiKey(key).get(`/users/${aliceId}/balance`)
+ */
+export function asApiKey(key: string) {
+  return request.agent(app).set('X-API-Key', key);
+}
@@ -0,0 +1,300 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+import { canDebitAccount, canReadAccount } from '../services/policies';
+
+describe('Authorization', () => {
+  let aliceId: string;
+  let bobId: string;
+  let malloryId: string;
+  let aliceAccountId: string;
+
+  const deposit = (userId: string, amount: number) => asUser(userId)
+    .post(`/users/${userId}/deposit`)
+    .send({ idempotency_key: randomUUID(), amount })
+    .expect(201);
+
+  const transfer = (callerId: string, sourceUserId: string, destinationUserId: string, amount: number) => asUser(callerId)
+    .post('/transactions')
+    .send({ idempotency_key: randomUUID(), source_user_id: sourceUserId, destination_user_id: destinationUserId, amount });
+
+  const getBalance = async (userId: string) => {
+    const response = await asUser(userId).get(`/users/${userId}/balance`).expect(200);
+    return response.body.balance;
+  };
+
+  const auditEntries = async (actorUserId: string) => {
+    const result = await pool.query(
+      'SELECT action, resource_type, resource_id, outcome, ip_address FROM audit_log WHERE actor_user_id = $1 ORDER BY created_at',
+      [actorUserId]
+    );
+    return result.rows;
+  };
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    aliceId = (await createUser('alice@authz.example.com')).id;
+    await grantRole(aliceId, 'issuer');
+    bobId = (await createUser('bob@authz.example.com')).id;
+    malloryId = (await createUser('mallory@authz.example.com')).id;
+
+    aliceAccountId = (await asUser(aliceId).get(`/users/${aliceId}/accounts`).expect(200)).body[0].id;
+
+    await deposit(aliceId, 10000);
+  });
+
+  describe('Debits', () => {
+    it('should refuse to debit another user and record the attempt', async () => {
+      const response = await transfer(malloryId, aliceId, malloryId, 10000).expect(403);
+
+      expect(response.body.error).toBe('Forbidden.');
+      expect(await getBalance(aliceId)).toBe(10000);
+      expect(await auditEntries(malloryId)).toEqual([{
+        action: 'transactions.create',
+        resource_type: 'user',
+        resource_id: aliceId,
+        outcome: 'denied',
+        ip_address: expect.any(String),
+      }]);
+    });
+
+    it('should refuse withdrawals, transfers, conversions and holds from another user\'s account', async () => {
+      await asUser(malloryId)
+        .post(`/users/${aliceId}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 100 })
+        .expect(403);
+      await asUser(malloryId)
+        .post(`/accounts/${aliceAccountId}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 100 })
+        .expect(403);
+      await asUser(malloryId)
+        .post(`/accounts/${aliceAccountId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: randomUUID(), amount: 100 })
+        .expect(403);
+      await asUser(malloryId)
+        .post('/conversions')
+        .send({ idempotency_key: randomUUID(), source_account_id: aliceAccountId, destination_account_id: randomUUID(), amount: 100 })
+        .expect(403);
+      await asUser(malloryId)
+        .post('/holds')
+        .send({ idempotency_key: randomUUID(), source_user_id: aliceId, destination_user_id: malloryId, amount: 100 })
+        .expect(403);
+      await asUser(malloryId)
+        .post(`/users/${aliceId}/scheduled-transfers`)
+        .send({ idempotency_key: randomUUID(), destination_user_id: malloryId, amount: 100, start_at: new Date(Date.now() + 60000).toISOString() })
+        .expect(403);
+
+      expect(await getBalance(aliceId)).toBe(10000);
+      expect((await auditEntries(malloryId)).map(entry => entry.action)).toEqual([
+        'users.withdraw',
+        'accounts.withdraw',
+        'accounts.transfer',
+        'conversions.create',
+        'holds.create',
+        'scheduled_transfers.create',
+      ]);
+    });
+
+    it('should only let the payer capture or void a hold, and its parties read it', async () => {
+      const hold = await asUser(aliceId)
+        .post('/holds')
+        .send({ idempotency_key: randomUUID(), source_user_id: aliceId, destination_user_id: bobId, amount: 4000 })
+        .expect(201);
+
+      await asUser(bobId)
+        .post(`/holds/${hold.body.id}/capture`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(403);
+      await asUser(malloryId).post(`/holds/${hold.body.id}/void`).expect(403);
+      await asUser(malloryId).get(`/holds/${hold.body.id}`).expect(403);
+      await asUser(bobId).get(`/holds/${hold.body.id}`).expect(200);
+
+      await asUser(aliceId)
+        .post(`/holds/${hold.body.id}/capture`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(201);
+
+      expect(await getBalance(bobId)).toBe(4000);
+    });
+
+    it('should leave unknown accounts and holds to be reported as not found', async () => {
+      await asUser(malloryId)
+        .post(`/accounts/${randomUUID()}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 100 })
+        .expect(404);
+      await asUser(malloryId).post(`/holds/${randomUUID()}/void`).expect(404);
+
+      expect(await auditEntries(malloryId)).toEqual([]);
+    });
+
+    it('should treat system accounts as owned by no one', async () => {
+      const equity = await pool.query("SELECT id FROM accounts WHERE kind = 'system' AND name = 'equity:deposits' AND currency = 'USD'");
+      const equityId = equity.rows[0].id;
+
+      expect(await canDebitAccount(malloryId, equityId)).toBe(false);
+      expect(await canReadAccount(malloryId, equityId)).toBe(false);
+
+      await asUser(malloryId).get(`/accounts/${equityId}/balance`).expect(403);
+      await asUser(malloryId)
+        .post(`/accounts/${equityId}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 1 })
+        .expect(403);
+      await asUser(malloryId)
+        .post(`/accounts/${equityId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: aliceAccountId, amount: 1 })
+        .expect(403);
+
+      await grantRole(bobId, 'auditor');
+      const balance = await asUser(bobId).get(`/accounts/${equityId}/balance`).expect(200);
+      expect(balance.body.balance).toBe(-10000);
+    });
+
+    it('should not let an admin debit another user', async () => {
+      await grantRole(malloryId, 'admin');
+
+      await transfer(malloryId, aliceId, malloryId, 100).expect(403);
+    });
+  });
+
+  describe('Delegations', () => {
+    const delegate = (accountId: string, userId: string) => asUser(aliceId)
+      .post(`/accounts/${accountId}/delegations`)
+      .send({ user_id: userId });
+
+    it('should let a delegate debit the account until the delegation is removed', async () => {
+      const delegation = await delegate(aliceAccountId, bobId).expect(201);
+
+      expect(delegation.body).toEqual({ account_id: aliceAccountId, delegate_user_id: bobId, created_at: expect.any(String) });
+
+      await transfer(bobId, aliceId, bobId, 3000).expect(201);
+      await asUser(bobId).get(`/accounts/${aliceAccountId}/balance`).expect(200);
+      expect(await getBalance(bobId)).toBe(3000);
+
+      await asUser(aliceId).delete(`/accounts/${aliceAccountId}/delegations/${bobId}`).expect(204);
+
+      await transfer(bobId, aliceId, bobId, 3000).expect(403);
+      expect(await getBalance(aliceId)).toBe(7000);
+    });
+
+    it('should not let a delegate read the user\'s balance or history', async () => {
+      await delegate(aliceAccountId, bobId).expect(201);
+
+      await asUser(bobId).get(`/users/${aliceId}/balance`).expect(403);
+      await asUser(bobId).get(`/users/${aliceId}/transactions`).expect(403);
+    });
+
+    it('should only cover the delegated account', async () => {
+      const savings = await asUser(aliceId)
+        .post(`/users/${aliceId}/accounts`)
+        .send({ name: 'Savings', kind: 'savings' })
+        .expect(201);
+      await asUser(aliceId)
+        .post(`/accounts/${aliceAccountId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: savings.body.id, amount: 5000 })
+        .expect(201);
+      await delegate(savings.body.id, bobId).expect(201);
+
+      await transfer(bobId, aliceId, bobId, 1000).expect(403);
+      await asUser(bobId)
+        .post(`/accounts/${savings.body.id}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 1000 })
+        .expect(201);
+    });
+
+    it('should list delegations and return an existing one when delegating twice', async () => {
+      await delegate(aliceAccountId, bobId).expect(201);
+      await delegate(aliceAccountId, bobId).expect(201);
+
+      const response = await asUser(aliceId).get(`/accounts/${aliceAccountId}/delegations`).expect(200);
+
+      expect(response.body.map((delegation: any) => delegation.delegate_user_id)).toEqual([bobId]);
+    });
+
+    it('should only let the owner change delegations', async () => {
+      await asUser(malloryId)
+        .post(`/accounts/${aliceAccountId}/delegations`)
+        .send({ user_id: malloryId })
+        .expect(403);
+      await delegate(aliceAccountId, bobId).expect(201);
+
+      // A delegate cannot delegate further or remove others
+      await asUser(bobId)
+        .post(`/accounts/${aliceAccountId}/delegations`)
+        .send({ user_id: malloryId })
+        .expect(403);
+      await asUser(bobId).delete(`/accounts/${aliceAccountId}/delegations/${bobId}`).expect(403);
+      await asUser(malloryId).get(`/accounts/${aliceAccountId}/delegations`).expect(403);
+    });
+
+    it('should reject delegating to the owner or an unknown user', async () => {
+      const toOwner = await delegate(aliceAccountId, aliceId).expect(400);
+      expect(toOwner.body.error).toBe('An account cannot be delegated to its owner.');
+
+      await delegate(aliceAccountId, randomUUID()).expect(404);
+      await delegate(randomUUID(), bobId).expect(404);
+      await delegate(aliceAccountId, 'not-a-uuid').expect(400);
+
+      const missing = await asUser(aliceId).delete(`/accounts/${aliceAccountId}/delegations/${bobId}`).expect(404);
+      expect(missing.body.error).toBe('Delegation not found.');
+    });
+  });
+
+  describe('Reads', () => {
+    it('should only show balances and history to the owner', async () => {
+      await asUser(malloryId).get(`/users/${aliceId}/balance`).expect(403);
+      await asUser(malloryId).get(`/users/${aliceId}/transactions`).expect(403);
+      await asUser(malloryId).get(`/users/${aliceId}/accounts`).expect(403);
+      await asUser(malloryId).get(`/users/${aliceId}/scheduled-transfers`).expect(403);
+      await asUser(malloryId).get(`/accounts/${aliceAccountId}/balance`).expect(403);
+
+      expect((await auditEntries(malloryId)).map(entry => [entry.action, entry.resource_id])).toEqual([
+        ['balance.read', aliceId],
+        ['transactions.read', aliceId],
+        ['accounts.read', aliceId],
+        ['scheduled_transfers.read', aliceId],
+        ['balance.read', aliceAccountId],
+      ]);
+    });
+
+    it('should show any user\'s balances and history to an admin', async () => {
+      await grantRole(malloryId, 'admin');
+
+      const balance = await asUser(malloryId).get(`/users/${aliceId}/balance`).expect(200);
+      const history = await asUser(malloryId).get(`/users/${aliceId}/transactions`).expect(200);
+      await asUser(malloryId).get(`/accounts/${aliceAccountId}/balance`).expect(200);
+
+      expect(balance.body.balance).toBe(10000);
+      expect(history.body.data).toHaveLength(1);
+    });
+  });
+
+  describe('Admin endpoints', () => {
+    it('should only let admins in', async () => {
+      const response = await asUser(malloryId).get('/admin/reconciliation').expect(403);
+
+      expect(response.body.error).toBe('Forbidden.');
+      expect(await auditEntries(malloryId)).toEqual([expect.objectContaining({
+        action: 'ledger:audit',
+        resource_type: 'endpoint',
+        resource_id: 'GET /admin/reconciliation',
+      })]);
+
+      await grantRole(malloryId, 'admin');
+      await asUser(malloryId).get('/admin/reconciliation').expect(200);
+    });
+  });
+
+  describe('Audit log', () => {
+    it('should not let the application role change or remove entries', async () => {
+      const result = await pool.query(`
+        SELECT has_table_privilege('thesaurum_app', 'public.audit_log', 'INSERT') AS can_insert,
+          has_table_privilege('thesaurum_app', 'public.audit_log', 'UPDATE') AS can_update,
+          has_table_privilege('thesaurum_app', 'public.audit_log', 'DELETE') AS can_delete
+      `);
+
+      expect(result.rows[0]).toEqual({ can_insert: true, can_update: false, can_delete: false });
+    });
+  });
+});
@@ -1,6 +1,5 @@
-import request from 'supertest';
-import { app } from './app';
-import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
 import { randomUUID } from 'crypto';
 
 describe('Balance Calculation Accuracy Tests', () => {
@@ -9,38 +8,32 @@ describe('Balance Calculation Accuracy Tests', () => {
   let user3Id: string;
 
   beforeEach(async () => {
-    await pool.query('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
 
     const users = await Promise.all([
-      request(app).post('/users').send({
-        email: 'balance1@example.com',
-        password: 'password123',
-      }),
-      request(app).post('/users').send({
-        email: 'balance2@example.com',
-        password: 'password123',
-      }),
-      request(app).post('/users').send({
-        email: 'balance3@example.com',
-        password: 'password123',
-      }),
+      createUser('balance1@example.com'),
+      createUser('balance2@example.com'),
+      createUser('balance3@example.com'),
     ]);
 
-    user1Id = users[0].body.id;
-    user2Id = users[1].body.id;
-    user3Id = users[2].body.id;
+    user1Id = users[0].id;
+    user2Id = users[1].id;
+    user3Id = users[2].id;
+    await grantRole(user1Id, 'issuer');
+    await grantRole(user2Id, 'issuer');
+    await grantRole(user3Id, 'issuer');
   });
 
   describe('Simple Balance Calculations', () => {
     it('should calculate correct balance after single deposit', async () => {
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 12345,
         });
 
-      const balance = await request(app).get(`/users/${user1Id}/balance`);
+      const balance = await asUser(user1Id).get(`/users/${user1Id}/balance`);
       expect(balance.body.balance).toBe(12345);
     });
 
@@ -48,7 +41,7 @@ describe('Balance Calculation Accuracy Tests', () => {
       const deposits = [5000, 3000, 2000, 1000];
 
       for (const amount of deposits) {
-        await request(app)
+        await asUser(user1Id)
           .post(`/users/${user1Id}/deposit`)
           .send({
             idempotency_key: randomUUID(),
@@ -56,19 +49,19 @@ describe('Balance Calculation Accuracy Tests', () => {
           });
       }
 
-      const balance = await request(app).get(`/users/${user1Id}/balance`);
+      const balance = await asUser(user1Id).get(`/users/${user1Id}/balance`);
       expect(balance.body.balance).toBe(11000);
     });
 
     it('should calculate correct balance after deposit and single transfer out', async () => {
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 10000,
         });
 
-      await request(app)
+      await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -77,19 +70,19 @@ describe('Balance Calculation Accuracy Tests', () => {
           amount: 3000,
         });
 
-      const balance = await request(app).get(`/users/${user1Id}/balance`);
+      const balance = await asUser(user1Id).get(`/users/${user1Id}/balance`);
       expect(balance.body.balance).toBe(7000);
     });
 
     it('should calculate correct balance after receiving a transfer', async () => {
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 10000,
         });
 
-      await request(app)
+      await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -98,7 +91,7 @@ describe('Balance Calculation Accuracy Tests', () => {
           amount: 4000,
         });
 
-      const balance = await request(app).get(`/users/${user2Id}/balance`);
+      const balance = await asUser(user2Id).get(`/users/${user2Id}/balance`);
       expect(balance.body.balance).toBe(4000);
     });
   });
@@ -106,7 +99,7 @@ describe('Balance Calculation Accuracy Tests', () => {
   describe('Complex Balance Calculations', () => {
     it('should calculate correct balance after many mixed transactions', async () => {
       // Initial deposit
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -114,21 +107,21 @@ describe('Balance Calculation Accuracy Tests', () => {
         });
 
       // Multiple outgoing transfers
-      await request(app).post('/transactions').send({
+      await asUser(user1Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user1Id,
         destination_user_id: user2Id,
         amount: 10000,
       });
 
-      await request(app).post('/transactions').send({
+      await asUser(user1Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user1Id,
         destination_user_id: user3Id,
         amount: 15000,
       });
 
-      await request(app).post('/transactions').send({
+      await asUser(user1Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user1Id,
         destination_user_id: user2Id,
@@ -136,14 +129,14 @@ describe('Balance Calculation Accuracy Tests', () => {
       });
 
       // Fund user2 and receive money from user2
-      await request(app)
+      await asUser(user2Id)
         .post(`/users/${user2Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 50000,
         });
 
-      await request(app).post('/transactions').send({
+      await asUser(user2Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user2Id,
         destination_user_id: user1Id,
@@ -151,14 +144,14 @@ describe('Balance Calculation Accuracy Tests', () => {
       });
 
       // More outgoing
-      await request(app).post('/transactions').send({
+      await asUser(user1Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user1Id,
         destination_user_id: user3Id,
         amount: 12000,
       });
 
-      const balance = await request(app).get(`/users/${user1Id}/balance`);
+      const balance = await asUser(user1Id).get(`/users/${user1Id}/balance`);
       // 100000 - 10000 - 15000 - 5000 + 8000 - 12000 = 66000
       expect(balance.body.balance).toBe(66000);
     });
@@ -166,36 +159,36 @@ describe('Balance Calculation Accuracy Tests', () => {
     it('should maintain correct balances in circular transfer scenario', async () => {
       // Fund all users
       await Promise.all([
-        request(app).post(`/users/${user1Id}/deposit`).send({
+        asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
           idempotency_key: randomUUID(),
           amount: 30000,
         }),
-        request(app).post(`/users/${user2Id}/deposit`).send({
+        asUser(user2Id).post(`/users/${user2Id}/deposit`).send({
           idempotency_key: randomUUID(),
           amount: 20000,
         }),
-        request(app).post(`/users/${user3Id}/deposit`).send({
+        asUser(user3Id).post(`/users/${user3Id}/deposit`).send({
           idempotency_key: randomUUID(),
           amount: 10000,
         }),
       ]);
 
       // Circular transfers
-      await request(app).post('/transactions').send({
+      await asUser(user1Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user1Id,
         destination_user_id: user2Id,
         amount: 5000,
       });
 
-      await request(app).post('/transactions').send({
+      await asUser(user2Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user2Id,
         destination_user_id: user3Id,
         amount: 7000,
       });
 
-      await request(app).post('/transactions').send({
+      await asUser(user3Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user3Id,
         destination_user_id: user1Id,
@@ -203,9 +196,9 @@ describe('Balance Calculation Accuracy Tests', () => {
       });
 
       const balances = await Promise.all([
-        request(app).get(`/users/${user1Id}/balance`),
-        request(app).get(`/users/${user2Id}/balance`),
-        request(app).get(`/users/${user3Id}/balance`),
+        asUser(user1Id).get(`/users/${user1Id}/balance`),
+        asUser(user2Id).get(`/users/${user2Id}/balance`),
+        asUser(user3Id).get(`/users/${user3Id}/balance`),
       ]);
 
       // user1: 30000 - 5000 + 3000 = 28000
@@ -217,7 +210,7 @@ describe('Balance Calculation Accuracy Tests', () => {
     });
 
     it('should calculate balance correctly after 100 small transactions', async () => {
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -227,7 +220,7 @@ describe('Balance Calculation Accuracy Tests', () => {
       // Make 100 small transfers
       const transferAmount = 100;
       for (let i = 0; i < 100; i++) {
-        await request(app).post('/transactions').send({
+        await asUser(user1Id).post('/transactions').send({
           idempotency_key: randomUUID(),
           source_user_id: user1Id,
           destination_user_id: user2Id,
@@ -235,8 +228,8 @@ describe('Balance Calculation Accuracy Tests', () => {
         });
       }
 
-      const balance1 = await request(app).get(`/users/${user1Id}/balance`);
-      const balance2 = await request(app).get(`/users/${user2Id}/balance`);
+      const balance1 = await asUser(user1Id).get(`/users/${user1Id}/balance`);
+      const balance2 = await asUser(user2Id).get(`/users/${user2Id}/balance`);
 
       expect(balance1.body.balance).toBe(1000000 - 100 * transferAmount);
       expect(balance2.body.balance).toBe(100 * transferAmount);
@@ -247,31 +240,31 @@ describe('Balance Calculation Accuracy Tests', () => {
     it('should conserve total money in the system across transfers', async () => {
       // Initial deposits
       const initialTotal = 150000;
-      await request(app).post(`/users/${user1Id}/deposit`).send({
+      await asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: 100000,
       });
-      await request(app).post(`/users/${user2Id}/deposit`).send({
+      await asUser(user2Id).post(`/users/${user2Id}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: 50000,
       });
 
       // Perform various transfers
-      await request(app).post('/transactions').send({
+      await asUser(user1Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user1Id,
         destination_user_id: user2Id,
         amount: 25000,
       });
 
-      await request(app).post('/transactions').send({
+      await asUser(user2Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user2Id,
         destination_user_id: user3Id,
         amount: 30000,
       });
 
-      await request(app).post('/transactions').send({
+      await asUser(user1Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user1Id,
         destination_user_id: user3Id,
@@ -280,9 +273,9 @@ describe('Balance Calculation Accuracy Tests', () => {
 
       // Get all balances
       const balances = await Promise.all([
-        request(app).get(`/users/${user1Id}/balance`),
-        request(app).get(`/users/${user2Id}/balance`),
-        request(app).get(`/users/${user3Id}/balance`),
+        asUser(user1Id).get(`/users/${user1Id}/balance`),
+        asUser(user2Id).get(`/users/${user2Id}/balance`),
+        asUser(user3Id).get(`/users/${user3Id}/balance`),
       ]);
 
       const totalBalance = balances.reduce((sum, b) => sum + b.body.balance, 0);
@@ -295,15 +288,15 @@ describe('Balance Calculation Accuracy Tests', () => {
       const initialTotal = amounts.reduce((a, b) => a + b, 0);
 
       await Promise.all([
-        request(app).post(`/users/${user1Id}/deposit`).send({
+        asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
           idempotency_key: randomUUID(),
           amount: amounts[0],
         }),
-        request(app).post(`/users/${user2Id}/deposit`).send({
+        asUser(user2Id).post(`/users/${user2Id}/deposit`).send({
           idempotency_key: randomUUID(),
           amount: amounts[1],
         }),
-        request(app).post(`/users/${user3Id}/deposit`).send({
+        asUser(user3Id).post(`/users/${user3Id}/deposit`).send({
           idempotency_key: randomUUID(),
           amount: amounts[2],
         }),
@@ -320,7 +313,7 @@ describe('Balance Calculation Accuracy Tests', () => {
       ];
 
       for (const transfer of transfers) {
-        await request(app).post('/transactions').send({
+        await asUser(user1Id).post('/transactions').send({
           idempotency_key: randomUUID(),
           source_user_id: transfer.from,
           destination_user_id: transfer.to,
@@ -329,9 +322,9 @@ describe('Balance Calculation Accuracy Tests', () => {
       }
 
       const balances = await Promise.all([
-        request(app).get(`/users/${user1Id}/balance`),
-        request(app).get(`/users/${user2Id}/balance`),
-        request(app).get(`/users/${user3Id}/balance`),
+        asUser(user1Id).get(`/users/${user1Id}/balance`),
+        asUser(user2Id).get(`/users/${user2Id}/balance`),
+        asUser(user3Id).get(`/users/${user3Id}/balance`),
       ]);
 
       const totalBalance = balances.reduce((sum, b) => sum + b.body.balance, 0);
@@ -342,7 +335,7 @@ describe('Balance Calculation Accuracy Tests', () => {
   describe('Historical Balance Calculations', () => {
     it('should calculate balance at specific point in time', async () => {
       // Deposit
-      await request(app).post(`/users/${user1Id}/deposit`).send({
+      await asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: 10000,
       });
@@ -353,18 +346,18 @@ describe('Balance Calculation Accuracy Tests', () => {
       await new Promise(resolve => setTimeout(resolve, 100));
 
       // More transactions after checkpoint
-      await request(app).post(`/users/${user1Id}/deposit`).send({
+      await asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: 5000,
       });
 
       // Balance at checkpoint should be 10000
-      const historicalBalance = await request(app)
+      const historicalBalance = await asUser(user1Id)
         .get(`/users/${user1Id}/balance?date=${checkpointDate}`);
       expect(historicalBalance.body.balance).toBe(10000);
 
       // Current balance should be 15000
-      const currentBalance = await request(app)
+      const currentBalance = await asUser(user1Id)
         .get(`/users/${user1Id}/balance`);
       expect(currentBalance.body.balance).toBe(15000);
     });
@@ -372,24 +365,24 @@ describe('Balance Calculation Accuracy Tests', () => {
     it('should show zero balance before first transaction', async () => {
       const pastDate = new Date('2020-01-01T00:00:00Z').toISOString();
 
-      await request(app).post(`/users/${user1Id}/deposit`).send({
+      await asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: 10000,
       });
 
-      const balance = await request(app)
+      const balance = await asUser(user1Id)
         .get(`/users/${user1Id}/balance?date=${pastDate}`);
       expect(balance.body.balance).toBe(0);
     });
 
     it('should calculate complex historical balance correctly', async () => {
       // Series of transactions
-      await request(app).post(`/users/${user1Id}/deposit`).send({
+      await asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: 50000,
       });
 
-      await request(app).post('/transactions').send({
+      await asUser(user1Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user1Id,
         destination_user_id: user2Id,
@@ -401,7 +394,7 @@ describe('Balance Calculation Accuracy Tests', () => {
       const checkpoint1 = new Date().toISOString();
       await new Promise(resolve => setTimeout(resolve, 100));
 
-      await request(app).post('/transactions').send({
+      await asUser(user1Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user1Id,
         destination_user_id: user2Id,
@@ -413,20 +406,20 @@ describe('Balance Calculation Accuracy Tests', () => {
       const checkpoint2 = new Date().toISOString();
       await new Promise(resolve => setTimeout(resolve, 100));
 
-      await request(app).post(`/users/${user1Id}/deposit`).send({
+      await asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: 20000,
       });
 
-      const balance1 = await request(app)
+      const balance1 = await asUser(user1Id)
         .get(`/users/${user1Id}/balance?date=${checkpoint1}`);
       expect(balance1.body.balance).toBe(40000);
 
-      const balance2 = await request(app)
+      const balance2 = await asUser(user1Id)
         .get(`/users/${user1Id}/balance?date=${checkpoint2}`);
       expect(balance2.body.balance).toBe(35000);
 
-      const currentBalance = await request(app)
+      const currentBalance = await asUser(user1Id)
         .get(`/users/${user1Id}/balance`);
       expect(currentBalance.body.balance).toBe(55000);
     });
@@ -438,13 +431,13 @@ describe('Balance Calculation Accuracy Tests', () => {
       const primeAmounts = [7, 13, 17, 23, 29, 31, 37, 41, 43, 47];
 
       for (const amount of primeAmounts) {
-        await request(app).post(`/users/${user1Id}/deposit`).send({
+        await asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
           idempotency_key: randomUUID(),
           amount,
         });
       }
 
-      const balance = await request(app).get(`/users/${user1Id}/balance`);
+      const balance = await asUser(user1Id).get(`/users/${user1Id}/balance`);
       const expectedSum = primeAmounts.reduce((a, b) => a + b, 0);
       expect(balance.body.balance).toBe(expectedSum);
     });
@@ -453,60 +446,60 @@ describe('Balance Calculation Accuracy Tests', () => {
       const largeAmount1 = 999999999;
       const largeAmount2 = 888888888;
 
-      await request(app).post(`/users/${user1Id}/deposit`).send({
+      await asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: largeAmount1,
       });
 
-      await request(app).post(`/users/${user1Id}/deposit`).send({
+      await asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: largeAmount2,
       });
 
-      const balance = await request(app).get(`/users/${user1Id}/balance`);
+      const balance = await asUser(user1Id).get(`/users/${user1Id}/balance`);
       expect(balance.body.balance).toBe(largeAmount1 + largeAmount2);
     });
   });
 
   describe('Balance After Failed Transactions', () => {
     it('should not change balance after failed transaction (insufficient funds)', async () => {
-      await request(app).post(`/users/${user1Id}/deposit`).send({
+      await asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: 5000,
       });
 
-      const balanceBefore = await request(app).get(`/users/${user1Id}/balance`);
+      const balanceBefore = await asUser(user1Id).get(`/users/${user1Id}/balance`);
 
       // Try to send more than available
-      await request(app).post('/transactions').send({
+      await asUser(user1Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user1Id,
         destination_user_id: user2Id,
         amount: 10000,
       }).expect(400);
 
-      const balanceAfter = await request(app).get(`/users/${user1Id}/balance`);
+      const balanceAfter = await asUser(user1Id).get(`/users/${user1Id}/balance`);
       expect(balanceAfter.body.balance).toBe(balanceBefore.body.balance);
       expect(balanceAfter.body.balance).toBe(5000);
     });
 
     it('should not affect recipient balance after failed transaction', async () => {
-      await request(app).post(`/users/${user1Id}/deposit`).send({
+      await asUser(user1Id).post(`/users/${user1Id}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: 1000,
       });
 
-      const balance2Before = await request(app).get(`/users/${user2Id}/balance`);
+      const balance2Before = await asUser(user2Id).get(`/users/${user2Id}/balance`);
 
       // Try to send more than available
-      await request(app).post('/transactions').send({
+      await asUser(user1Id).post('/transactions').send({
         idempotency_key: randomUUID(),
         source_user_id: user1Id,
         destination_user_id: user2Id,
         amount: 5000,
       }).expect(400);
 
-      const balance2After = await request(app).get(`/users/${user2Id}/balance`);
+      const balance2After = await asUser(user2Id).get(`/users/${user2Id}/balance`);
       expect(balance2After.body.balance).toBe(balance2Before.body.balance);
       expect(balance2After.body.balance).toBe(0);
     });
@@ -0,0 +1,220 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+import { createBalanceCheckpoints, verifyBalanceCheckpoints } from '../services/balanceCheckpoints';
+
+describe('Balance checkpoints', () => {
+  let aliceId: string;
+  let bobId: string;
+
+  const HEADER = 'type,source_email,destination_email,amount,currency,created_at,description,external_reference,metadata';
+
+  const importRows = (...rows: string[]) => asUser(aliceId)
+    .post('/admin/imports')
+    .query({ mode: 'commit' })
+    .set('Content-Type', 'text/csv')
+    .send([HEADER, ...rows].join('\n') + '\n')
+    .expect(200);
+
+  const balanceOf = async (userId: string, date?: string) => {
+    const response = await asUser(userId)
+      .get(`/users/${userId}/balance`)
+      .query(date ? { date } : {})
+      .expect(200);
+    return response.body.balance;
+  };
+
+  const runningBalances = async (userId: string) => {
+    const response = await asUser(userId).get(`/users/${userId}/transactions`).expect(200);
+    return response.body.data.map((row: any) => row.running_balance);
+  };
+
+  const checkpoints = async () => {
+    const result = await pool.query(`
+      SELECT u.email, c.as_of, c.balance::int, c.posting_count::int
+      FROM balance_checkpoints c
+      JOIN accounts a ON a.id = c.account_id
+      JOIN users u ON u.id = a.user_id
+      ORDER BY u.email, c.as_of
+    `);
+    return result.rows.map(row => ({ ...row, as_of: row.as_of.toISOString() }));
+  };
+
+  const MID_MARCH = new Date('2026-03-15T00:00:00.000Z');
+  const MID_APRIL = new Date('2026-04-15T00:00:00.000Z');
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    const users = await Promise.all([
+      createUser('alice@checkpoint.example.com'),
+      createUser('bob@checkpoint.example.com'),
+    ]);
+
+    aliceId = users[0].id;
+    bobId = users[1].id;
+    await grantRole(aliceId, 'admin');
+
+    await importRows(
+      'deposit,,alice@checkpoint.example.com,10000,USD,2026-01-01T10:00:00Z,,,',
+      'transfer,alice@checkpoint.example.com,bob@checkpoint.example.com,1000,USD,2026-02-01T10:00:00Z,,,',
+      'transfer,bob@checkpoint.example.com,alice@checkpoint.example.com,300,USD,2026-03-01T10:00:00Z,,,',
+      'deposit,,bob@checkpoint.example.com,500,USD,2026-04-01T10:00:00Z,,,',
+    );
+  });
+
+  describe('Creating checkpoints', () => {
+    it('should checkpoint each customer account once', async () => {
+      expect(await createBalanceCheckpoints({ asOf: MID_MARCH, minPostings: 1 })).toBe(2);
+      expect(await createBalanceCheckpoints({ asOf: MID_MARCH, minPostings: 1 })).toBe(0);
+
+      expect(await checkpoints()).toEqual([
+        { email: 'alice@checkpoint.example.com', as_of: MID_MARCH.toISOString(), balance: 9300, posting_count: 3 },
+        { email: 'bob@checkpoint.example.com', as_of: MID_MARCH.toISOString(), balance: 700, posting_count: 2 },
+      ]);
+
+      const systemCheckpoints = await pool.query(
+        "SELECT COUNT(*)::int AS count FROM balance_checkpoints c JOIN accounts a ON a.id = c.account_id WHERE a.kind = 'system'"
+      );
+      expect(systemCheckpoints.rows[0].count).toBe(0);
+    });
+
+    it('should only checkpoint accounts with enough postings since their latest checkpoint', async () => {
+      expect(await createBalanceCheckpoints({ asOf: MID_MARCH, minPostings: 3 })).toBe(1);
+      expect(await createBalanceCheckpoints({ asOf: MID_APRIL, minPostings: 3 })).toBe(1);
+
+      expect(await checkpoints()).toEqual([
+        { email: 'alice@checkpoint.example.com', as_of: MID_MARCH.toISOString(), balance: 9300, posting_count: 3 },
+        { email: 'bob@checkpoint.example.com', as_of: MID_APRIL.toISOString(), balance: 1200, posting_count: 3 },
+      ]);
+    });
+
+    it('should build a checkpoint on top of the previous one', async () => {
+      await createBalanceCheckpoints({ asOf: MID_MARCH, minPostings: 1 });
+      expect(await createBalanceCheckpoints({ asOf: MID_APRIL, minPostings: 1 })).toBe(1);
+
+      expect((await checkpoints()).filter(checkpoint => checkpoint.email.startsWith('bob'))).toEqual([
+        { email: 'bob@checkpoint.example.com', as_of: MID_MARCH.toISOString(), balance: 700, posting_count: 2 },
+        { email: 'bob@checkpoint.example.com', as_of: MID_APRIL.toISOString(), balance: 1200, posting_count: 3 },
+      ]);
+    });
+
+    it('should not checkpoint past the start of an open transaction', async () => {
+      const client = await pool.connect();
+
+      try {
+        await client.query('BEGIN');
+        const { rows: [{ started_at }] } = await client.query('SELECT NOW()::text AS started_at');
+
+        await createBalanceCheckpoints({ asOf: new Date(Date.now() + 60000), minPostings: 1 });
+
+        const result = await pool.query(
+          'SELECT COUNT(*)::int AS count, bool_and(as_of < $1::timestamptz) AS before_start FROM balance_checkpoints',
+          [started_at]
+        );
+        expect(result.rows[0]).toEqual({ count: 2, before_start: true });
+      } finally {
+        await client.query('ROLLBACK');
+        client.release();
+      }
+    });
+  });
+
+  describe('Balances', () => {
+    const DATES = [
+      '2026-01-01T09:00:00Z',
+      '2026-01-01T10:00:00Z',
+      '2026-02-15T00:00:00Z',
+      '2026-03-01T10:00:00Z',
+      '2026-03-15T00:00:00Z',
+      '2026-03-20T00:00:00Z',
+      '2026-04-15T00:00:00Z',
+    ];
+
+    const snapshot = async () => ({
+      current: [await balanceOf(aliceId), await balanceOf(bobId)],
+      historical: await Promise.all(DATES.flatMap(date => [balanceOf(aliceId, date), balanceOf(bobId, date)])),
+      running: [await runningBalances(aliceId), await runningBalances(bobId)],
+    });
+
+    it('should be the same with and without checkpoints', async () => {
+      const before = await snapshot();
+
+      await createBalanceCheckpoints({ asOf: MID_MARCH, minPostings: 1 });
+      await createBalanceCheckpoints({ asOf: MID_APRIL, minPostings: 1 });
+
+      expect(await snapshot()).toEqual(before);
+      expect(before.current).toEqual([9300, 1200]);
+    });
+
+    it('should add new postings to the latest checkpoint', async () => {
+      await createBalanceCheckpoints({ asOf: MID_APRIL, minPostings: 1 });
+
+      await asUser(aliceId)
+        .post('/transactions')
+        .send({ idempotency_key: randomUUID(), source_user_id: aliceId, destination_user_id: bobId, amount: 2000 })
+        .expect(201);
+
+      expect(await balanceOf(aliceId)).toBe(7300);
+      expect(await balanceOf(bobId)).toBe(3200);
+      expect((await runningBalances(aliceId))[0]).toBe(7300);
+
+      // The funds check sees the checkpointed balance too
+      await asUser(aliceId)
+        .post('/transactions')
+        .send({ idempotency_key: randomUUID(), source_user_id: aliceId, destination_user_id: bobId, amount: 7301 })
+        .expect(400);
+    });
+
+    it('should delete the checkpoints a backdated import falls under', async () => {
+      await createBalanceCheckpoints({ asOf: MID_MARCH, minPostings: 1 });
+      await createBalanceCheckpoints({ asOf: MID_APRIL, minPostings: 1 });
+
+      await importRows('deposit,,bob@checkpoint.example.com,50,USD,2026-03-20T00:00:00Z,,,');
+
+      expect(await checkpoints()).toEqual([
+        { email: 'alice@checkpoint.example.com', as_of: MID_MARCH.toISOString(), balance: 9300, posting_count: 3 },
+        { email: 'bob@checkpoint.example.com', as_of: MID_MARCH.toISOString(), balance: 700, posting_count: 2 },
+      ]);
+      expect(await balanceOf(bobId)).toBe(1250);
+      expect(await balanceOf(bobId, '2026-03-25T00:00:00Z')).toBe(750);
+      expect(await runningBalances(bobId)).toEqual([1250, 750, 700, 1000]);
+    });
+  });
+
+  describe('Verification', () => {
+    it('should confirm checkpoints that match the ledger', async () => {
+      await createBalanceCheckpoints({ asOf: MID_MARCH, minPostings: 1 });
+      await createBalanceCheckpoints({ asOf: MID_APRIL, minPostings: 1 });
+
+      expect(await verifyBalanceCheckpoints()).toEqual({ checked: 3, mismatches: [] });
+    });
+
+    it('should report and delete checkpoints that do not match the ledger', async () => {
+      await createBalanceCheckpoints({ asOf: MID_MARCH, minPostings: 1 });
+
+      const { rows: [{ id: aliceAccountId }] } = await pool.query(
+        'SELECT id FROM accounts WHERE user_id = $1 AND is_default',
+        [aliceId]
+      );
+      await pool.query('UPDATE balance_checkpoints SET balance = balance + 1 WHERE account_id = $1', [aliceAccountId]);
+
+      expect(await verifyBalanceCheckpoints()).toEqual({
+        checked: 2,
+        mismatches: [{
+          account_id: aliceAccountId,
+          as_of: MID_MARCH.toISOString(),
+          balance: 9301,
+          expected_balance: 9300,
+          posting_count: 3,
+          expected_posting_count: 3,
+        }],
+      });
+
+      expect((await checkpoints()).map(checkpoint => checkpoint.email)).toEqual(['bob@checkpoint.example.com']);
+      expect(await balanceOf(aliceId)).toBe(9300);
+      expect(await verifyBalanceCheckpoints()).toEqual({ checked: 1, mismatches: [] });
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('Batch Transfers API', () => {
+  let employerId: string;
+  let employee1Id: string;
+  let employee2Id: string;
+  let employee3Id: string;
+
+  const getBalance = async (userId: string) => {
+    const response = await asUser(userId).get(`/users/${userId}/balance`).expect(200);
+    return response.body.balance;
+  };
+
+  // Lets a user debit another user's default account
+  const delegate = async (ownerId: string, delegateId: string) => {
+    const accounts = await asUser(ownerId).get(`/users/${ownerId}/accounts`).expect(200);
+
+    await asUser(ownerId)
+      .post(`/accounts/${accounts.body[0].id}/delegations`)
+      .send({ user_id: delegateId })
+      .expect(201);
+  };
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, batches, users RESTART IDENTITY CASCADE');
+
+    employerId = (await createUser('employer@example.com')).id;
+    await grantRole(employerId, 'issuer');
+    employee1Id = (await createUser('employee1@example.com')).id;
+    employee2Id = (await createUser('employee2@example.com')).id;
+    employee3Id = (await createUser('employee3@example.com')).id;
+
+    await asUser(employerId)
+      .post(`/users/${employerId}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount: 10000 })
+      .expect(201);
+  });
+
+  describe('POST /transactions/batch', () => {
+    it('should apply every leg and report each result', async () => {
+      const idempotencyKey = randomUUID();
+
+      const response = await asUser(employerId)
+        .post('/transactions/batch')
+        .send({
+          idempotency_key: idempotencyKey,
+          legs: [
+            { source_user_id: employerId, destination_user_id: employee1Id, amount: 3000 },
+            { source_user_id: employerId, destination_user_id: employee2Id, amount: 2000 },
+            { source_user_id: employerId, destination_user_id: employee3Id, amount: 1000 },
+          ],
+        })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        id: expect.any(String),
+        idempotency_key: idempotencyKey,
+        leg_count: 3,
+        created_at: expect.any(String),
+      });
+      expect(response.body.legs).toHaveLength(3);
+      response.body.legs.forEach((leg: any, index: number) => {
+        expect(leg).toMatchObject({
+          index,
+          status: 'succeeded',
+          transaction: {
+            type: 'transfer',
+            source_user_id: employerId,
+            batch_id: response.body.id,
+            batch_leg_index: index,
+          },
+        });
+      });
+      expect(response.body.legs.map((leg: any) => leg.transaction.destination_user_id))
+        .toEqual([employee1Id, employee2Id, employee3Id]);
+
+      expect(await getBalance(employerId)).toBe(4000);
+      expect(await getBalance(employee1Id)).toBe(3000);
+      expect(await getBalance(employee2Id)).toBe(2000);
+      expect(await getBalance(employee3Id)).toBe(1000);
+    });
+
+    it('should apply no leg if one leg fails', async () => {
+      const response = await asUser(employerId)
+        .post('/transactions/batch')
+        .send({
+          idempotency_key: randomUUID(),
+          legs: [
+            { source_user_id: employerId, destination_user_id: employee1Id, amount: 6000 },
+            { source_user_id: employerId, destination_user_id: employee2Id, amount: 5000 },
+            { source_user_id: employerId, destination_user_id: employee3Id, amount: 1000 },
+          ],
+        })
+        .expect(400);
+
+      expect(response.body).toEqual({
+        error: 'Insufficient funds.',
+        legs: [
+          { index: 0, status: 'not_applied' },
+          { index: 1, status: 'failed', error: 'Insufficient funds.' },
+          { index: 2, status: 'not_applied' },
+        ],
+      });
+
+      expect(await getBalance(employerId)).toBe(10000);
+      expect(await getBalance(employee1Id)).toBe(0);
+
+      const result = await pool.query('SELECT COUNT(*) FROM batches');
+      expect(result.rows[0].count).toBe('0');
+    });
+
+    it('should let a leg spend funds received earlier in the batch', async () => {
+      await delegate(employee1Id, employerId);
+
+      await asUser(employerId)
+        .post('/transactions/batch')
+        .send({
+          idempotency_key: randomUUID(),
+          legs: [
+            { source_user_id: employerId, destination_user_id: employee1Id, amount: 5000 },
+            { source_user_id: employee1Id, destination_user_id: employee2Id, amount: 5000 },
+          ],
+        })
+        .expect(201);
+
+      expect(await getBalance(employee1Id)).toBe(0);
+      expect(await getBalance(employee2Id)).toBe(5000);
+    });
+
+    it('should refuse a batch with a leg the caller may not debit', async () => {
+      const response = await asUser(employerId)
+        .post('/transactions/batch')
+        .send({
+          idempotency_key: randomUUID(),
+          legs: [
+            { source_user_id: employerId, destination_user_id: employee1Id, amount: 5000 },
+            { source_user_id: employee1Id, destination_user_id: employee2Id, amount: 5000 },
+          ],
+        })
+        .expect(403);
+
+      expect(response.body.error).toBe('Forbidden.');
+      expect(await getBalance(employerId)).toBe(10000);
+      expect(await getBalance(employee1Id)).toBe(0);
+    });
+
+    it('should return the original batch for a repeated idempotency key', async () => {
+      const body = {
+        idempotency_key: randomUUID(),
+        legs: [
+          { source_user_id: employerId, destination_user_id: employee1Id, amount: 3000 },
+          { source_user_id: employerId, destination_user_id: employee2Id, amount: 2000 },
+        ],
+      };
+
+      const first = await asUser(employerId).post('/transactions/batch').send(body).expect(201);
+      const second = await asUser(employerId).post('/transactions/batch').send(body).expect(201);
+
+      expect(second.body).toEqual(first.body);
+      expect(await getBalance(employerId)).toBe(5000);
+    });
+
+    it('should apply a batch exactly once under concurrent retries', async () => {
+      const body = {
+        idempotency_key: randomUUID(),
+        legs: [
+          { source_user_id: employerId, destination_user_id: employee1Id, amount: 1000 },
+          { source_user_id: employerId, destination_user_id: employee2Id, amount: 1000 },
+        ],
+      };
+
+      const responses = await Promise.all(
+        Array.from({ length: 5 }, () => asUser(employerId).post('/transactions/batch').send(body))
+      );
+
+      const batchIds = new Set(responses.filter(r => r.status === 201).map(r => r.body.id));
+      expect(batchIds.size).toBe(1);
+      expect(await getBalance(employerId)).toBe(8000);
+    });
+
+    it('should settle legs in several currencies', async () => {
+      await asUser(employerId)
+        .post(`/users/${employerId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 5000, currency: 'EUR' })
+        .expect(201);
+
+      await asUser(employerId)
+        .post('/transactions/batch')
+        .send({
+          idempotency_key: randomUUID(),
+          legs: [
+            { source_user_id: employerId, destination_user_id: employee1Id, amount: 1000 },
+            { source_user_id: employerId, destination_user_id: employee1Id, amount: 2000, currency: 'EUR' },
+          ],
+        })
+        .expect(201);
+
+      const response = await asUser(employee1Id).get(`/users/${employee1Id}/balance`).expect(200);
+      expect(response.body.balances).toEqual(expect.arrayContaining([
+        expect.objectContaining({ currency: 'USD', balance: 1000 }),
+        expect.objectContaining({ currency: 'EUR', balance: 2000 }),
+      ]));
+    });
+
+    it('should not let concurrent batches overdraw a shared source', async () => {
+      const batch = () => asUser(employerId)
+        .post('/transactions/batch')
+        .send({
+          idempotency_key: randomUUID(),
+          legs: [
+            { source_user_id: employerId, destination_user_id: employee1Id, amount: 3000 },
+            { source_user_id: employerId, destination_user_id: employee2Id, amount: 3000 },
+          ],
+        });
+
+      const responses = await Promise.all([batch(), batch()]);
+
+      expect(responses.filter(r => r.status === 201)).toHaveLength(1);
+      expect(await getBalance(employerId)).toBe(4000);
+    });
+
+    it('should return 404 with the failing leg for an unknown recipient', async () => {
+      const response = await asUser(employerId)
+        .post('/transactions/batch')
+        .send({
+          idempotency_key: randomUUID(),
+          legs: [
+            { source_user_id: employerId, destination_user_id: employee1Id, amount: 1000 },
+            { source_user_id: employerId, destination_user_id: randomUUID(), amount: 1000 },
+          ],
+        })
+        .expect(404);
+
+      expect(response.body).toEqual({
+        error: 'User not found',
+        legs: [
+          { index: 0, status: 'not_applied' },
+          { index: 1, status: 'failed', error: 'User not found' },
+        ],
+      });
+      expect(await getBalance(employerId)).toBe(10000);
+    });
+
+    it('should return 400 with the failing leg for an unsupported currency', async () => {
+      const response = await asUser(employerId)
+        .post('/transactions/batch')
+        .send({
+          idempotency_key: randomUUID(),
+          legs: [
+            { source_user_id: employerId, destination_user_id: employee1Id, amount: 1000, currency: 'XYZ' },
+          ],
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Unsupported currency.');
+      expect(response.body.legs).toEqual([{ index: 0, status: 'failed', error: 'Unsupported currency.' }]);
+    });
+
+    it('should reject an empty batch', async () => {
+      const response = await asUser(employerId)
+        .post('/transactions/batch')
+        .send({ idempotency_key: randomUUID(), legs: [] })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should reject a leg paying its own source', async () => {
+      const response = await asUser(employerId)
+        .post('/transactions/batch')
+        .send({
+          idempotency_key: randomUUID(),
+          legs: [{ source_user_id: employerId, destination_user_id: employerId, amount: 1000 }],
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should reject a leg with a non-positive amount', async () => {
+      await asUser(employerId)
+        .post('/transactions/batch')
+        .send({
+          idempotency_key: randomUUID(),
+          legs: [{ source_user_id: employerId, destination_user_id: employee1Id, amount: 0 }],
+        })
+        .expect(400);
+    });
+
+    it('should keep the ledger balanced', async () => {
+      await asUser(employerId)
+        .post('/transactions/batch')
+        .send({
+          idempotency_key: randomUUID(),
+          legs: [
+            { source_user_id: employerId, destination_user_id: employee1Id, amount: 2500 },
+            { source_user_id: employerId, destination_user_id: employee2Id, amount: 2500 },
+          ],
+        })
+        .expect(201);
+
+      const result = await pool.query('SELECT * FROM public.get_trial_balance(NOW())');
+      result.rows.forEach(row => expect(row.debits).toBe(row.credits));
+    });
+  });
+});
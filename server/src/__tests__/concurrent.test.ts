@@ -1,6 +1,5 @@
-import request from 'supertest';
-import { app } from './app';
-import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
 import { randomUUID } from 'crypto';
 
 describe('Concurrent Transaction Tests', () => {
@@ -9,32 +8,17 @@ describe('Concurrent Transaction Tests', () => {
   let user3Id: string;
 
   beforeEach(async () => {
-    await pool.query('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
 
     // Create test users
-    const user1Response = await request(app)
-      .post('/users')
-      .send({
-        email: 'concurrent1@example.com',
-        password: 'password123',
-      });
-    user1Id = user1Response.body.id;
+    user1Id = (await createUser('concurrent1@example.com')).id;
 
-    const user2Response = await request(app)
-      .post('/users')
-      .send({
-        email: 'concurrent2@example.com',
-        password: 'password123',
-      });
-    user2Id = user2Response.body.id;
+    user2Id = (await createUser('concurrent2@example.com')).id;
 
-    const user3Response = await request(app)
-      .post('/users')
-      .send({
-        email: 'concurrent3@example.com',
-        password: 'password123',
-      });
-    user3Id = user3Response.body.id;
+    user3Id = (await createUser('concurrent3@example.com')).id;
+    await grantRole(user1Id, 'issuer');
+    await grantRole(user2Id, 'issuer');
+    await grantRole(user3Id, 'issuer');
   });
 
   describe('Parallel Deposits', () => {
@@ -43,7 +27,7 @@ describe('Concurrent Transaction Tests', () => {
       const depositAmount = 1000;
 
       const deposits = Array.from({ length: depositCount }, () =>
-        request(app)
+        asUser(user1Id)
           .post(`/users/${user1Id}/deposit`)
           .send({
             idempotency_key: randomUUID(),
@@ -59,7 +43,7 @@ describe('Concurrent Transaction Tests', () => {
       });
 
       // Final balance should be correct
-      const balanceResponse = await request(app)
+      const balanceResponse = await asUser(user1Id)
         .get(`/users/${user1Id}/balance`)
         .expect(200);
 
@@ -70,19 +54,19 @@ describe('Concurrent Transaction Tests', () => {
       const depositAmount = 5000;
 
       const deposits = [
-        request(app)
+        asUser(user1Id)
           .post(`/users/${user1Id}/deposit`)
           .send({
             idempotency_key: randomUUID(),
             amount: depositAmount,
           }),
-        request(app)
+        asUser(user2Id)
           .post(`/users/${user2Id}/deposit`)
           .send({
             idempotency_key: randomUUID(),
             amount: depositAmount,
           }),
-        request(app)
+        asUser(user3Id)
           .post(`/users/${user3Id}/deposit`)
           .send({
             idempotency_key: randomUUID(),
@@ -97,9 +81,9 @@ describe('Concurrent Transaction Tests', () => {
       });
 
       // Check all balances
-      const balance1 = await request(app).get(`/users/${user1Id}/balance`);
-      const balance2 = await request(app).get(`/users/${user2Id}/balance`);
-      const balance3 = await request(app).get(`/users/${user3Id}/balance`);
+      const balance1 = await asUser(user1Id).get(`/users/${user1Id}/balance`);
+      const balance2 = await asUser(user2Id).get(`/users/${user2Id}/balance`);
+      const balance3 = await asUser(user3Id).get(`/users/${user3Id}/balance`);
 
       expect(balance1.body.balance).toBe(depositAmount);
       expect(balance2.body.balance).toBe(depositAmount);
@@ -110,7 +94,7 @@ describe('Concurrent Transaction Tests', () => {
   describe('Parallel Transfers', () => {
     beforeEach(async () => {
       // Fund user1 with enough money for multiple transfers
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -123,7 +107,7 @@ describe('Concurrent Transaction Tests', () => {
       const transferAmount = 1000;
 
       const transfers = Array.from({ length: transferCount }, () =>
-        request(app)
+        asUser(user1Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -141,8 +125,8 @@ describe('Concurrent Transaction Tests', () => {
       });
 
       // Check balances
-      const sourceBalance = await request(app).get(`/users/${user1Id}/balance`);
-      const destBalance = await request(app).get(`/users/${user2Id}/balance`);
+      const sourceBalance = await asUser(user1Id).get(`/users/${user1Id}/balance`);
+      const destBalance = await asUser(user2Id).get(`/users/${user2Id}/balance`);
 
       expect(sourceBalance.body.balance).toBe(100000 - transferCount * transferAmount);
       expect(destBalance.body.balance).toBe(transferCount * transferAmount);
@@ -150,7 +134,7 @@ describe('Concurrent Transaction Tests', () => {
 
     it('should handle bidirectional concurrent transfers between two users', async () => {
       // Fund user2 as well
-      await request(app)
+      await asUser(user2Id)
         .post(`/users/${user2Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -159,7 +143,7 @@ describe('Concurrent Transaction Tests', () => {
 
       const transfers = [
         // user1 -> user2
-        request(app)
+        asUser(user1Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -168,7 +152,7 @@ describe('Concurrent Transaction Tests', () => {
             amount: 10000,
           }),
         // user2 -> user1
-        request(app)
+        asUser(user2Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -177,7 +161,7 @@ describe('Concurrent Transaction Tests', () => {
             amount: 5000,
           }),
         // user1 -> user2
-        request(app)
+        asUser(user1Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -194,8 +178,8 @@ describe('Concurrent Transaction Tests', () => {
       });
 
       // Check final balances
-      const balance1 = await request(app).get(`/users/${user1Id}/balance`);
-      const balance2 = await request(app).get(`/users/${user2Id}/balance`);
+      const balance1 = await asUser(user1Id).get(`/users/${user1Id}/balance`);
+      const balance2 = await asUser(user2Id).get(`/users/${user2Id}/balance`);
 
       // user1: 100000 - 10000 + 5000 - 3000 = 92000
       expect(balance1.body.balance).toBe(92000);
@@ -205,14 +189,14 @@ describe('Concurrent Transaction Tests', () => {
 
     it('should handle circular concurrent transfers (A->B, B->C, C->A)', async () => {
       // Fund all users
-      await request(app)
+      await asUser(user2Id)
         .post(`/users/${user2Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 50000,
         });
 
-      await request(app)
+      await asUser(user3Id)
         .post(`/users/${user3Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -221,7 +205,7 @@ describe('Concurrent Transaction Tests', () => {
 
       const transfers = [
         // user1 -> user2
-        request(app)
+        asUser(user1Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -230,7 +214,7 @@ describe('Concurrent Transaction Tests', () => {
             amount: 5000,
           }),
         // user2 -> user3
-        request(app)
+        asUser(user2Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -239,7 +223,7 @@ describe('Concurrent Transaction Tests', () => {
             amount: 7000,
           }),
         // user3 -> user1
-        request(app)
+        asUser(user3Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -256,9 +240,9 @@ describe('Concurrent Transaction Tests', () => {
       });
 
       // Check balances
-      const balance1 = await request(app).get(`/users/${user1Id}/balance`);
-      const balance2 = await request(app).get(`/users/${user2Id}/balance`);
-      const balance3 = await request(app).get(`/users/${user3Id}/balance`);
+      const balance1 = await asUser(user1Id).get(`/users/${user1Id}/balance`);
+      const balance2 = await asUser(user2Id).get(`/users/${user2Id}/balance`);
+      const balance3 = await asUser(user3Id).get(`/users/${user3Id}/balance`);
 
       // user1: 100000 - 5000 + 3000 = 98000
       expect(balance1.body.balance).toBe(98000);
@@ -275,14 +259,14 @@ describe('Concurrent Transaction Tests', () => {
 
   describe('Race Conditions and Deadlock Prevention', () => {
     beforeEach(async () => {
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 10000,
         });
 
-      await request(app)
+      await asUser(user2Id)
         .post(`/users/${user2Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -295,7 +279,7 @@ describe('Concurrent Transaction Tests', () => {
 
       // Try to make two concurrent transfers that would exceed balance if both succeed
       const transfers = [
-        request(app)
+        asUser(user1Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -303,7 +287,7 @@ describe('Concurrent Transaction Tests', () => {
             destination_user_id: user2Id,
             amount: transferAmount,
           }),
-        request(app)
+        asUser(user1Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -329,7 +313,7 @@ describe('Concurrent Transaction Tests', () => {
       });
 
       // CRITICAL: Verify no double-spending occurred
-      const balance = await request(app).get(`/users/${user1Id}/balance`);
+      const balance = await asUser(user1Id).get(`/users/${user1Id}/balance`);
 
       // Balance must be non-negative (no overdraft)
       expect(balance.body.balance).toBeGreaterThanOrEqual(0);
@@ -346,7 +330,7 @@ describe('Concurrent Transaction Tests', () => {
     it('should handle potential deadlock scenario (simultaneous bidirectional transfers)', async () => {
       // Both users try to send to each other simultaneously
       const transfers = [
-        request(app)
+        asUser(user1Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -354,7 +338,7 @@ describe('Concurrent Transaction Tests', () => {
             destination_user_id: user2Id,
             amount: 5000,
           }),
-        request(app)
+        asUser(user2Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -372,8 +356,8 @@ describe('Concurrent Transaction Tests', () => {
       });
 
       // Check balances
-      const balance1 = await request(app).get(`/users/${user1Id}/balance`);
-      const balance2 = await request(app).get(`/users/${user2Id}/balance`);
+      const balance1 = await asUser(user1Id).get(`/users/${user1Id}/balance`);
+      const balance2 = await asUser(user2Id).get(`/users/${user2Id}/balance`);
 
       expect(balance1.body.balance).toBe(8000); // 10000 - 5000 + 3000
       expect(balance2.body.balance).toBe(12000); // 10000 + 5000 - 3000
@@ -382,7 +366,7 @@ describe('Concurrent Transaction Tests', () => {
 
   describe('Idempotency Under Concurrency', () => {
     beforeEach(async () => {
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -396,7 +380,7 @@ describe('Concurrent Transaction Tests', () => {
 
       // Make the same request 5 times concurrently
       const transfers = Array.from({ length: 5 }, () =>
-        request(app)
+        asUser(user1Id)
           .post('/transactions')
           .send({
             idempotency_key: idempotencyKey,
@@ -418,15 +402,15 @@ describe('Concurrent Transaction Tests', () => {
       expect(uniqueIds.size).toBe(1);
 
       // Balance should only reflect one transaction
-      const balance1 = await request(app).get(`/users/${user1Id}/balance`);
-      const balance2 = await request(app).get(`/users/${user2Id}/balance`);
+      const balance1 = await asUser(user1Id).get(`/users/${user1Id}/balance`);
+      const balance2 = await asUser(user2Id).get(`/users/${user2Id}/balance`);
 
       expect(balance1.body.balance).toBe(45000);
       expect(balance2.body.balance).toBe(5000);
 
       // Check transaction count in history
-      const txHistory = await request(app).get(`/users/${user1Id}/transactions`);
-      const transferTxs = txHistory.body.filter(
+      const txHistory = await asUser(user1Id).get(`/users/${user1Id}/transactions`);
+      const transferTxs = txHistory.body.data.filter(
         (tx: any) => tx.idempotency_key === idempotencyKey
       );
       expect(transferTxs.length).toBe(1);
@@ -435,7 +419,7 @@ describe('Concurrent Transaction Tests', () => {
 
   describe('Concurrent Balance Queries', () => {
     beforeEach(async () => {
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -446,8 +430,8 @@ describe('Concurrent Transaction Tests', () => {
     it('should handle concurrent balance queries during active transactions', async () => {
       // Start some transactions and balance queries at the same time
       const operations = [
-        request(app).get(`/users/${user1Id}/balance`),
-        request(app)
+        asUser(user1Id).get(`/users/${user1Id}/balance`),
+        asUser(user1Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -455,8 +439,8 @@ describe('Concurrent Transaction Tests', () => {
             destination_user_id: user2Id,
             amount: 5000,
           }),
-        request(app).get(`/users/${user1Id}/balance`),
-        request(app)
+        asUser(user1Id).get(`/users/${user1Id}/balance`),
+        asUser(user1Id)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -464,7 +448,7 @@ describe('Concurrent Transaction Tests', () => {
             destination_user_id: user2Id,
             amount: 3000,
           }),
-        request(app).get(`/users/${user1Id}/balance`),
+        asUser(user1Id).get(`/users/${user1Id}/balance`),
       ];
 
       const responses = await Promise.all(operations);
@@ -475,13 +459,13 @@ describe('Concurrent Transaction Tests', () => {
       });
 
       // Final balance should be correct
-      const finalBalance = await request(app).get(`/users/${user1Id}/balance`);
+      const finalBalance = await asUser(user1Id).get(`/users/${user1Id}/balance`);
       expect(finalBalance.body.balance).toBe(17000); // 25000 - 5000 - 3000
     });
 
     it('should return consistent balance across multiple concurrent reads', async () => {
       const balanceQueries = Array.from({ length: 10 }, () =>
-        request(app).get(`/users/${user1Id}/balance`)
+        asUser(user1Id).get(`/users/${user1Id}/balance`)
       );
 
       const responses = await Promise.all(balanceQueries);
@@ -497,19 +481,19 @@ describe('Concurrent Transaction Tests', () => {
     it('should handle many concurrent operations across multiple users', async () => {
       // Fund all users
       await Promise.all([
-        request(app)
+        asUser(user1Id)
           .post(`/users/${user1Id}/deposit`)
           .send({
             idempotency_key: randomUUID(),
             amount: 100000,
           }),
-        request(app)
+        asUser(user2Id)
           .post(`/users/${user2Id}/deposit`)
           .send({
             idempotency_key: randomUUID(),
             amount: 100000,
           }),
-        request(app)
+        asUser(user3Id)
           .post(`/users/${user3Id}/deposit`)
           .send({
             idempotency_key: randomUUID(),
@@ -520,7 +504,7 @@ describe('Concurrent Transaction Tests', () => {
       // Mix of operations
       const operations = [
         ...Array.from({ length: 5 }, () =>
-          request(app)
+          asUser(user1Id)
             .post('/transactions')
             .send({
               idempotency_key: randomUUID(),
@@ -530,7 +514,7 @@ describe('Concurrent Transaction Tests', () => {
             })
         ),
         ...Array.from({ length: 5 }, () =>
-          request(app)
+          asUser(user2Id)
             .post('/transactions')
             .send({
               idempotency_key: randomUUID(),
@@ -540,7 +524,7 @@ describe('Concurrent Transaction Tests', () => {
             })
         ),
         ...Array.from({ length: 5 }, () =>
-          request(app)
+          asUser(user3Id)
             .post('/transactions')
             .send({
               idempotency_key: randomUUID(),
@@ -550,7 +534,7 @@ describe('Concurrent Transaction Tests', () => {
             })
         ),
         ...Array.from({ length: 10 }, () =>
-          request(app).get(`/users/${user1Id}/balance`)
+          asUser(user1Id).get(`/users/${user1Id}/balance`)
         ),
       ];
 
@@ -562,9 +546,9 @@ describe('Concurrent Transaction Tests', () => {
 
       // Verify money conservation
       const balances = await Promise.all([
-        request(app).get(`/users/${user1Id}/balance`),
-        request(app).get(`/users/${user2Id}/balance`),
-        request(app).get(`/users/${user3Id}/balance`),
+        asUser(user1Id).get(`/users/${user1Id}/balance`),
+        asUser(user2Id).get(`/users/${user2Id}/balance`),
+        asUser(user3Id).get(`/users/${user3Id}/balance`),
       ]);
 
       const totalBalance = balances.reduce((sum, b) => sum + b.body.balance, 0);
@@ -0,0 +1,347 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('Conversions API', () => {
+  let userId: string;
+  let usdAccountId: string;
+  let eurAccountId: string;
+  let jpyAccountId: string;
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users, exchange_rates RESTART IDENTITY CASCADE');
+
+    userId = (await createUser('conversions@example.com')).id;
+    await grantRole(userId, 'operator');
+
+    const accounts = await asUser(userId).get(`/users/${userId}/accounts`);
+    usdAccountId = accounts.body[0].id;
+
+    const eurAccount = await asUser(userId)
+      .post(`/users/${userId}/accounts`)
+      .send({ name: 'Euros', currency: 'EUR' });
+    eurAccountId = eurAccount.body.id;
+
+    const jpyAccount = await asUser(userId)
+      .post(`/users/${userId}/accounts`)
+      .send({ name: 'Yen', currency: 'JPY' });
+    jpyAccountId = jpyAccount.body.id;
+
+    await asUser(userId)
+      .post(`/accounts/${usdAccountId}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount: 100000 })
+      .expect(201);
+  });
+
+  const recordRate = async (base: string, quote: string, rate: string, effectiveAt?: string) => {
+    return asUser(userId)
+      .post('/exchange-rates')
+      .send({ base_currency: base, quote_currency: quote, rate, effective_at: effectiveAt })
+      .expect(201);
+  };
+
+  const getBalance = async (accountId: string): Promise<number> => {
+    const response = await asUser(userId).get(`/accounts/${accountId}/balance`);
+    return response.body.balance;
+  };
+
+  describe('POST /exchange-rates', () => {
+    it('should record a rate', async () => {
+      const response = await recordRate('USD', 'EUR', '0.9231');
+
+      expect(response.body).toMatchObject({
+        id: expect.any(String),
+        base_currency: 'USD',
+        quote_currency: 'EUR',
+        rate: '0.923100000000',
+        effective_at: expect.any(String),
+      });
+    });
+
+    it('should reject identical currencies', async () => {
+      const response = await asUser(userId)
+        .post('/exchange-rates')
+        .send({ base_currency: 'USD', quote_currency: 'USD', rate: '1' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should reject non-positive or non-decimal rates', async () => {
+      for (const rate of ['0', '-1.5', '1e3', 'abc']) {
+        await asUser(userId)
+          .post('/exchange-rates')
+          .send({ base_currency: 'USD', quote_currency: 'EUR', rate })
+          .expect(400);
+      }
+    });
+
+    it('should reject unsupported currencies', async () => {
+      const response = await asUser(userId)
+        .post('/exchange-rates')
+        .send({ base_currency: 'USD', quote_currency: 'XYZ', rate: '1.5' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Unsupported currency.');
+    });
+
+    it('should list rates for a pair, most recent first', async () => {
+      await recordRate('USD', 'EUR', '0.90', '2025-01-01T00:00:00Z');
+      await recordRate('USD', 'EUR', '0.95', '2025-06-01T00:00:00Z');
+      await recordRate('EUR', 'USD', '1.08', '2025-01-01T00:00:00Z');
+
+      const response = await asUser(userId)
+        .get('/exchange-rates?base_currency=USD&quote_currency=EUR')
+        .expect(200);
+
+      expect(response.body.map((rate: any) => rate.rate)).toEqual(['0.950000000000', '0.900000000000']);
+    });
+  });
+
+  describe('POST /conversions', () => {
+    it('should debit one currency and credit another at the effective rate', async () => {
+      const rate = await recordRate('USD', 'EUR', '0.9231');
+      const idempotencyKey = randomUUID();
+
+      const response = await asUser(userId)
+        .post('/conversions')
+        .send({
+          idempotency_key: idempotencyKey,
+          source_account_id: usdAccountId,
+          destination_account_id: eurAccountId,
+          amount: 10000,
+        })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        idempotency_key: idempotencyKey,
+        exchange_rate_id: rate.body.id,
+        rate: '0.923100000000',
+        rounding: 'down',
+        source_account_id: usdAccountId,
+        source_currency: 'USD',
+        source_amount: 10000,
+        destination_account_id: eurAccountId,
+        destination_currency: 'EUR',
+        destination_amount: 9231,
+        source_transaction_id: expect.any(String),
+        destination_transaction_id: expect.any(String),
+      });
+      expect(Number(response.body.unrounded_destination_amount)).toBe(9231);
+
+      expect(await getBalance(usdAccountId)).toBe(90000);
+      expect(await getBalance(eurAccountId)).toBe(9231);
+    });
+
+    it('should round down and record the unrounded amount', async () => {
+      await recordRate('USD', 'EUR', '0.333333');
+
+      const response = await asUser(userId)
+        .post('/conversions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_account_id: usdAccountId,
+          destination_account_id: eurAccountId,
+          amount: 1000,
+        })
+        .expect(201);
+
+      expect(response.body.destination_amount).toBe(333);
+      expect(Number(response.body.unrounded_destination_amount)).toBeCloseTo(333.333, 6);
+    });
+
+    it('should rescale between currencies with different exponents', async () => {
+      await recordRate('USD', 'JPY', '151.37');
+
+      const response = await asUser(userId)
+        .post('/conversions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_account_id: usdAccountId,
+          destination_account_id: jpyAccountId,
+          amount: 1050, // $10.50
+        })
+        .expect(201);
+
+      // 10.50 * 151.37 = 1589.385 yen, rounded down to whole yen
+      expect(response.body.destination_amount).toBe(1589);
+      expect(await getBalance(jpyAccountId)).toBe(1589);
+    });
+
+    it('should use the most recent rate that is already in effect', async () => {
+      await recordRate('USD', 'EUR', '0.80', '2025-01-01T00:00:00Z');
+      const current = await recordRate('USD', 'EUR', '0.90', '2025-06-01T00:00:00Z');
+      await recordRate('USD', 'EUR', '5.00', '2999-01-01T00:00:00Z');
+
+      const response = await asUser(userId)
+        .post('/conversions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_account_id: usdAccountId,
+          destination_account_id: eurAccountId,
+          amount: 1000,
+        })
+        .expect(201);
+
+      expect(response.body.exchange_rate_id).toBe(current.body.id);
+      expect(response.body.destination_amount).toBe(900);
+    });
+
+    it('should store both legs in the ledger', async () => {
+      await recordRate('USD', 'EUR', '0.5');
+
+      const response = await asUser(userId)
+        .post('/conversions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_account_id: usdAccountId,
+          destination_account_id: eurAccountId,
+          amount: 2000,
+        })
+        .expect(201);
+
+      const legs = await pool.query(
+        'SELECT id, type, source_account_id, destination_account_id, amount, currency FROM transactions WHERE id = ANY($1)',
+        [[response.body.source_transaction_id, response.body.destination_transaction_id]]
+      );
+
+      expect(legs.rows).toHaveLength(2);
+      expect(legs.rows).toContainEqual(expect.objectContaining({
+        id: response.body.source_transaction_id,
+        type: 'conversion',
+        source_account_id: usdAccountId,
+        destination_account_id: null,
+        amount: '2000',
+        currency: 'USD',
+      }));
+      expect(legs.rows).toContainEqual(expect.objectContaining({
+        id: response.body.destination_transaction_id,
+        type: 'conversion',
+        source_account_id: null,
+        destination_account_id: eurAccountId,
+        amount: '1000',
+        currency: 'EUR',
+      }));
+    });
+
+    it('should be idempotent', async () => {
+      await recordRate('USD', 'EUR', '0.9');
+      const payload = {
+        idempotency_key: randomUUID(),
+        source_account_id: usdAccountId,
+        destination_account_id: eurAccountId,
+        amount: 1000,
+      };
+
+      const first = await asUser(userId).post('/conversions').send(payload).expect(201);
+      const second = await asUser(userId).post('/conversions').send(payload).expect(201);
+
+      expect(second.body.id).toBe(first.body.id);
+      expect(await getBalance(usdAccountId)).toBe(99000);
+    });
+
+    it('should reject conversions without a rate for the pair', async () => {
+      await recordRate('EUR', 'USD', '1.1');
+
+      const response = await asUser(userId)
+        .post('/conversions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_account_id: usdAccountId,
+          destination_account_id: eurAccountId,
+          amount: 1000,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Exchange rate not available.');
+      expect(await getBalance(usdAccountId)).toBe(100000);
+    });
+
+    it('should reject conversions with insufficient funds', async () => {
+      await recordRate('USD', 'EUR', '0.9');
+
+      const response = await asUser(userId)
+        .post('/conversions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_account_id: usdAccountId,
+          destination_account_id: eurAccountId,
+          amount: 100001,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Insufficient funds.');
+    });
+
+    it('should reject conversions between accounts in the same currency', async () => {
+      const otherUsd = await asUser(userId)
+        .post(`/users/${userId}/accounts`)
+        .send({ name: 'Spare dollars' })
+        .expect(201);
+
+      const response = await asUser(userId)
+        .post('/conversions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_account_id: usdAccountId,
+          destination_account_id: otherUsd.body.id,
+          amount: 1000,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Accounts hold the same currency.');
+    });
+
+    it('should reject amounts that convert to nothing', async () => {
+      await recordRate('JPY', 'USD', '0.0066');
+
+      await asUser(userId)
+        .post(`/accounts/${jpyAccountId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 1000 })
+        .expect(201);
+
+      const response = await asUser(userId)
+        .post('/conversions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_account_id: jpyAccountId,
+          destination_account_id: usdAccountId,
+          amount: 1,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Converted amount rounds to zero.');
+    });
+
+    it('should return 404 for non-existent accounts', async () => {
+      await recordRate('USD', 'EUR', '0.9');
+
+      const response = await asUser(userId)
+        .post('/conversions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_account_id: usdAccountId,
+          destination_account_id: randomUUID(),
+          amount: 1000,
+        })
+        .expect(404);
+
+      expect(response.body.error).toBe('Account not found.');
+    });
+
+    it('should reject converting into the same account', async () => {
+      const response = await asUser(userId)
+        .post('/conversions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_account_id: usdAccountId,
+          destination_account_id: usdAccountId,
+          amount: 1000,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('Multi-currency', () => {
+  let user1Id: string;
+  let user2Id: string;
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    user1Id = (await createUser('currency1@example.com')).id;
+    await grantRole(user1Id, 'issuer');
+
+    user2Id = (await createUser('currency2@example.com')).id;
+  });
+
+  const getDefaultAccountId = async (userId: string, currency: string): Promise<string> => {
+    const response = await asUser(userId).get(`/users/${userId}/accounts`);
+    return response.body.find((account: any) => account.is_default && account.currency === currency).id;
+  };
+
+  describe('User-level operations', () => {
+    it('should default to USD', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 1000 })
+        .expect(201);
+
+      expect(response.body.currency).toBe('USD');
+    });
+
+    it('should open a default account on first deposit in a new currency', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 5000, currency: 'EUR' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ type: 'deposit', currency: 'EUR', amount: 5000 });
+
+      const accounts = await asUser(user1Id).get(`/users/${user1Id}/accounts`).expect(200);
+
+      expect(accounts.body).toHaveLength(2);
+      expect(accounts.body.find((account: any) => account.currency === 'EUR')).toMatchObject({
+        name: 'Main EUR',
+        is_default: true,
+        balance: 5000,
+        minor_units: 2,
+      });
+    });
+
+    it('should report balances per currency with their exponent', async () => {
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 1250 })
+        .expect(201);
+
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 300, currency: 'JPY' })
+        .expect(201);
+
+      const response = await asUser(user1Id)
+        .get(`/users/${user1Id}/balance`)
+        .expect(200);
+
+      expect(response.body).toEqual({
+        user_id: user1Id,
+        balance: 1250,
+        available_balance: 1250,
+        balances: [
+          { currency: 'JPY', balance: 300, available_balance: 300, minor_units: 0 },
+          { currency: 'USD', balance: 1250, available_balance: 1250, minor_units: 2 },
+        ],
+      });
+    });
+
+    it('should keep currencies apart when checking funds', async () => {
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 10000 })
+        .expect(201);
+
+      const response = await asUser(user1Id)
+        .post('/transactions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_user_id: user1Id,
+          destination_user_id: user2Id,
+          amount: 100,
+          currency: 'EUR',
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Insufficient funds.');
+    });
+
+    it('should transfer in a currency the recipient does not hold yet', async () => {
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 800, currency: 'JPY' })
+        .expect(201);
+
+      await asUser(user1Id)
+        .post('/transactions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_user_id: user1Id,
+          destination_user_id: user2Id,
+          amount: 500,
+          currency: 'JPY',
+        })
+        .expect(201);
+
+      const balance = await asUser(user2Id).get(`/users/${user2Id}/balance`).expect(200);
+
+      expect(balance.body.balance).toBe(0);
+      expect(balance.body.balances).toContainEqual({ currency: 'JPY', balance: 500, available_balance: 500, minor_units: 0 });
+    });
+
+    it('should not open the recipient\'s account for a rejected request', async () => {
+      const request = { source_user_id: user1Id, destination_user_id: user2Id, amount: 500, currency: 'EUR' };
+
+      await asUser(user1Id)
+        .post('/transactions')
+        .send({ idempotency_key: randomUUID(), ...request })
+        .expect(400);
+      await asUser(user1Id)
+        .post('/holds')
+        .send({ idempotency_key: randomUUID(), ...request })
+        .expect(400);
+      await asUser(user1Id)
+        .post('/transactions/split')
+        .send({
+          idempotency_key: randomUUID(),
+          currency: 'EUR',
+          debits: [{ user_id: user1Id, amount: 500 }],
+          credits: [{ user_id: user2Id, amount: 500 }],
+        })
+        .expect(400);
+
+      const accounts = await asUser(user2Id).get(`/users/${user2Id}/accounts`).expect(200);
+
+      expect(accounts.body.map((account: any) => account.currency)).toEqual(['USD']);
+    });
+
+    it('should reject unsupported currencies', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 100, currency: 'XYZ' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Unsupported currency.');
+    });
+
+    it('should reject malformed currency codes', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 100, currency: 'usd' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+  });
+
+  describe('Account-level operations', () => {
+    it('should open an account in another currency', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Travel', currency: 'EUR' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        name: 'Travel',
+        currency: 'EUR',
+        is_default: true,
+        minor_units: 2,
+        balance: 0,
+      });
+    });
+
+    it('should report the account currency with its balance', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Tokyo', currency: 'JPY' })
+        .expect(201);
+
+      await asUser(user1Id)
+        .post(`/accounts/${response.body.id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 1500 })
+        .expect(201);
+
+      const balance = await asUser(user1Id)
+        .get(`/accounts/${response.body.id}/balance`)
+        .expect(200);
+
+      expect(balance.body).toEqual({ account_id: response.body.id, currency: 'JPY', balance: 1500, available_balance: 1500, minor_units: 0 });
+    });
+
+    it('should reject transfers between accounts in different currencies', async () => {
+      const usdAccountId = await getDefaultAccountId(user1Id, 'USD');
+      const eurAccount = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Euros', currency: 'EUR' })
+        .expect(201);
+
+      await asUser(user1Id)
+        .post(`/accounts/${usdAccountId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 10000 })
+        .expect(201);
+
+      const response = await asUser(user1Id)
+        .post(`/accounts/${usdAccountId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: eurAccount.body.id, amount: 100 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Currency mismatch.');
+    });
+
+    it('should reject deposits in a currency the account does not hold', async () => {
+      const usdAccountId = await getDefaultAccountId(user1Id, 'USD');
+
+      const response = await asUser(user1Id)
+        .post(`/accounts/${usdAccountId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 100, currency: 'EUR' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Currency mismatch.');
+    });
+
+    it('should reject accounts in unsupported currencies', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Mystery', currency: 'XYZ' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Unsupported currency.');
+    });
+  });
+});
@@ -1,26 +1,22 @@
 import request from 'supertest';
 import { app } from './app';
-import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
 import { randomUUID } from 'crypto';
 
 describe('Edge Cases and Boundary Tests', () => {
   let userId: string;
 
   beforeEach(async () => {
-    await pool.query('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
-
-    const userResponse = await request(app)
-      .post('/users')
-      .send({
-        email: 'edgecase@example.com',
-        password: 'password123',
-      });
-    userId = userResponse.body.id;
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    userId = (await createUser('edgecase@example.com')).id;
+    await grantRole(userId, 'issuer');
   });
 
   describe('Transaction Amount Edge Cases', () => {
     it('should reject transaction with zero amount', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -34,7 +30,7 @@ describe('Edge Cases and Boundary Tests', () => {
     });
 
     it('should reject deposit with zero amount', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -49,7 +45,7 @@ describe('Edge Cases and Boundary Tests', () => {
       const largeAmount = 999999999999; // 9.99 billion cents = $99,999,999.99
 
       // Deposit large amount
-      await request(app)
+      await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -58,7 +54,7 @@ describe('Edge Cases and Boundary Tests', () => {
         .expect(201);
 
       // Check balance
-      const balanceResponse = await request(app)
+      const balanceResponse = await asUser(userId)
         .get(`/users/${userId}/balance`)
         .expect(200);
 
@@ -66,7 +62,7 @@ describe('Edge Cases and Boundary Tests', () => {
     });
 
     it('should handle minimum valid amount (1 cent)', async () => {
-      await request(app)
+      await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -74,7 +70,7 @@ describe('Edge Cases and Boundary Tests', () => {
         })
         .expect(201);
 
-      const balanceResponse = await request(app)
+      const balanceResponse = await asUser(userId)
         .get(`/users/${userId}/balance`)
         .expect(200);
 
@@ -82,7 +78,7 @@ describe('Edge Cases and Boundary Tests', () => {
     });
 
     it('should reject negative amounts', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -94,7 +90,7 @@ describe('Edge Cases and Boundary Tests', () => {
     });
 
     it('should reject decimal amounts', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -108,7 +104,7 @@ describe('Edge Cases and Boundary Tests', () => {
 
   describe('UUID Validation Edge Cases', () => {
     it('should reject malformed UUID for user id', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get('/users/not-a-uuid/balance')
         .expect(400);
 
@@ -116,7 +112,7 @@ describe('Edge Cases and Boundary Tests', () => {
     });
 
     it('should reject malformed UUID for idempotency key', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: 'not-a-uuid',
@@ -129,7 +125,7 @@ describe('Edge Cases and Boundary Tests', () => {
 
     it('should accept valid v4 UUID', async () => {
       const validUUID = randomUUID();
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: validUUID,
@@ -141,7 +137,7 @@ describe('Edge Cases and Boundary Tests', () => {
     });
 
     it('should reject empty string as UUID', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: '',
@@ -262,7 +258,7 @@ describe('Edge Cases and Boundary Tests', () => {
 
   describe('Date Query Edge Cases', () => {
     beforeEach(async () => {
-      await request(app)
+      await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -272,7 +268,7 @@ describe('Edge Cases and Boundary Tests', () => {
 
     it('should handle future date query', async () => {
       const futureDate = new Date('2099-12-31T23:59:59Z').toISOString();
-      const response = await request(app)
+      const response = await asUser(userId)
         .get(`/users/${userId}/balance?date=${futureDate}`)
         .expect(200);
 
@@ -281,7 +277,7 @@ describe('Edge Cases and Boundary Tests', () => {
 
     it('should handle past date query before any transactions', async () => {
       const pastDate = new Date('2000-01-01T00:00:00Z').toISOString();
-      const response = await request(app)
+      const response = await asUser(userId)
         .get(`/users/${userId}/balance?date=${pastDate}`)
         .expect(200);
 
@@ -289,7 +285,7 @@ describe('Edge Cases and Boundary Tests', () => {
     });
 
     it('should reject invalid ISO 8601 date format', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get(`/users/${userId}/balance?date=2025-13-45`)
         .expect(400);
 
@@ -304,7 +300,7 @@ describe('Edge Cases and Boundary Tests', () => {
       ];
 
       for (const date of validDates) {
-        const response = await request(app)
+        const response = await asUser(userId)
           .get(`/users/${userId}/balance?date=${date}`)
           .expect(200);
 
@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { app } from './app';
-import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
 import { randomUUID } from 'crypto';
 
 describe('Error Handling Tests', () => {
@@ -8,23 +9,12 @@ describe('Error Handling Tests', () => {
   let user2Id: string;
 
   beforeEach(async () => {
-    await pool.query('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
 
-    const userResponse = await request(app)
-      .post('/users')
-      .send({
-        email: 'error@example.com',
-        password: 'password123',
-      });
-    userId = userResponse.body.id;
+    userId = (await createUser('error@example.com')).id;
+    await grantRole(userId, 'issuer');
 
-    const user2Response = await request(app)
-      .post('/users')
-      .send({
-        email: 'error2@example.com',
-        password: 'password123',
-      });
-    user2Id = user2Response.body.id;
+    user2Id = (await createUser('error2@example.com')).id;
   });
 
   describe('Database Error Handling', () => {
@@ -43,7 +33,7 @@ describe('Error Handling Tests', () => {
     it('should handle non-existent user gracefully for deposits', async () => {
       const fakeUserId = randomUUID();
 
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${fakeUserId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -57,7 +47,7 @@ describe('Error Handling Tests', () => {
     it('should handle non-existent source user in transaction', async () => {
       const fakeUserId = randomUUID();
 
-      const response = await request(app)
+      const response = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -65,14 +55,14 @@ describe('Error Handling Tests', () => {
           destination_user_id: userId,
           amount: 1000,
         })
-        .expect(400);
+        .expect(403);
 
-      // Should fail due to insufficient funds (0 balance for non-existent user)
-      expect(response.body.error).toBe('Insufficient funds.');
+      // Should fail because the caller does not own the source account
+      expect(response.body.error).toBe('Forbidden.');
     });
 
     it('should handle non-existent destination user in transaction', async () => {
-      await request(app)
+      await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -81,7 +71,7 @@ describe('Error Handling Tests', () => {
 
       const fakeUserId = randomUUID();
 
-      const response = await request(app)
+      const response = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -97,14 +87,14 @@ describe('Error Handling Tests', () => {
 
   describe('Business Logic Error Handling', () => {
     it('should return 400 for insufficient funds', async () => {
-      await request(app)
+      await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 5000,
         });
 
-      const response = await request(app)
+      const response = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -118,14 +108,14 @@ describe('Error Handling Tests', () => {
     });
 
     it('should prevent self-transfer with validation error', async () => {
-      await request(app)
+      await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 10000,
         });
 
-      const response = await request(app)
+      const response = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -139,14 +129,14 @@ describe('Error Handling Tests', () => {
     });
 
     it('should handle exact balance transfer correctly', async () => {
-      await request(app)
+      await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 5000,
         });
 
-      const response = await request(app)
+      const response = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -158,19 +148,19 @@ describe('Error Handling Tests', () => {
 
       expect(response.body.amount).toBe(5000);
 
-      const balance = await request(app).get(`/users/${userId}/balance`);
+      const balance = await asUser(userId).get(`/users/${userId}/balance`);
       expect(balance.body.balance).toBe(0);
     });
 
     it('should reject transfer one cent over balance', async () => {
-      await request(app)
+      await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 5000,
         });
 
-      const response = await request(app)
+      const response = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -241,20 +231,20 @@ describe('Error Handling Tests', () => {
 
   describe('HTTP Method Error Handling', () => {
     it('should return 404 for unsupported routes', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get('/nonexistent-route')
         .expect(404);
     });
 
     it('should handle POST to balance endpoint (wrong method)', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${userId}/balance`)
         .send({})
         .expect(404);
     });
 
     it('should handle GET to transaction creation endpoint (wrong method)', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get('/transactions')
         .expect(404);
     });
@@ -262,7 +252,7 @@ describe('Error Handling Tests', () => {
 
   describe('Idempotency Error Scenarios', () => {
     it('should return same transaction on duplicate idempotency key', async () => {
-      await request(app)
+      await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -272,7 +262,7 @@ describe('Error Handling Tests', () => {
       const idempotencyKey = randomUUID();
 
       // First transaction
-      const response1 = await request(app)
+      const response1 = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: idempotencyKey,
@@ -283,7 +273,7 @@ describe('Error Handling Tests', () => {
         .expect(201);
 
       // Duplicate transaction
-      const response2 = await request(app)
+      const response2 = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: idempotencyKey,
@@ -300,7 +290,7 @@ describe('Error Handling Tests', () => {
     it('should handle idempotency for deposits', async () => {
       const idempotencyKey = randomUUID();
 
-      const response1 = await request(app)
+      const response1 = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: idempotencyKey,
@@ -308,7 +298,7 @@ describe('Error Handling Tests', () => {
         })
         .expect(201);
 
-      const response2 = await request(app)
+      const response2 = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: idempotencyKey,
@@ -319,19 +309,19 @@ describe('Error Handling Tests', () => {
       expect(response1.body.id).toBe(response2.body.id);
 
       // Balance should only reflect one deposit
-      const balance = await request(app).get(`/users/${userId}/balance`);
+      const balance = await asUser(userId).get(`/users/${userId}/balance`);
       expect(balance.body.balance).toBe(10000);
     });
 
     it('should allow different transactions with different idempotency keys', async () => {
-      await request(app)
+      await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 50000,
         });
 
-      const response1 = await request(app)
+      const response1 = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -341,7 +331,7 @@ describe('Error Handling Tests', () => {
         })
         .expect(201);
 
-      const response2 = await request(app)
+      const response2 = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -353,7 +343,7 @@ describe('Error Handling Tests', () => {
 
       expect(response1.body.id).not.toBe(response2.body.id);
 
-      const balance = await request(app).get(`/users/${userId}/balance`);
+      const balance = await asUser(userId).get(`/users/${userId}/balance`);
       expect(balance.body.balance).toBe(48000); // 50000 - 1000 - 1000
     });
   });
@@ -423,15 +413,15 @@ describe('Error Handling Tests', () => {
 
   describe('Transaction History Error Handling', () => {
     it('should return empty array for user with no transactions', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get(`/users/${userId}/transactions`)
         .expect(200);
 
-      expect(response.body).toEqual([]);
+      expect(response.body.data).toEqual([]);
     });
 
     it('should handle invalid user ID in transaction history', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get('/users/invalid-id/transactions')
         .expect(400);
 
@@ -440,18 +430,22 @@ describe('Error Handling Tests', () => {
 
     it('should handle non-existent user ID in transaction history', async () => {
       const fakeUserId = randomUUID();
-      const response = await request(app)
+      await grantRole(userId, 'admin');
+
+      const response = await asUser(userId)
         .get(`/users/${fakeUserId}/transactions`)
         .expect(200);
 
-      expect(response.body).toEqual([]);
+      expect(response.body.data).toEqual([]);
     });
   });
 
   describe('Balance Query Error Handling', () => {
     it('should return zero for non-existent user balance', async () => {
       const fakeUserId = randomUUID();
-      const response = await request(app)
+      await grantRole(userId, 'admin');
+
+      const response = await asUser(userId)
         .get(`/users/${fakeUserId}/balance`)
         .expect(200);
 
@@ -459,7 +453,7 @@ describe('Error Handling Tests', () => {
     });
 
     it('should handle invalid date format in balance query', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get(`/users/${userId}/balance?date=invalid-date`)
         .expect(400);
 
@@ -467,7 +461,7 @@ describe('Error Handling Tests', () => {
     });
 
     it('should handle malformed query parameters', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get(`/users/${userId}/balance?date=2025-13-45T99:99:99Z`)
         .expect(400);
 
@@ -484,7 +478,7 @@ describe('Error Handling Tests', () => {
       ];
 
       for (const endpoint of errorEndpoints) {
-        const request_obj = request(app)[endpoint.method as 'post' | 'get'](endpoint.url);
+        const request_obj = asUser(userId)[endpoint.method as 'post' | 'get'](endpoint.url);
 
         const response = endpoint.body !== undefined
           ? await request_obj.send(endpoint.body)
@@ -528,7 +522,7 @@ describe('Error Handling Tests', () => {
 
   describe('Concurrent Error Scenarios', () => {
     it('should handle concurrent insufficient fund scenarios correctly', async () => {
-      await request(app)
+      await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -537,13 +531,13 @@ describe('Error Handling Tests', () => {
 
       // Try to spend more than available concurrently
       const transfers = [
-        request(app).post('/transactions').send({
+        asUser(userId).post('/transactions').send({
           idempotency_key: randomUUID(),
           source_user_id: userId,
           destination_user_id: user2Id,
           amount: 8000,
         }),
-        request(app).post('/transactions').send({
+        asUser(userId).post('/transactions').send({
           idempotency_key: randomUUID(),
           source_user_id: userId,
           destination_user_id: user2Id,
@@ -565,7 +559,7 @@ describe('Error Handling Tests', () => {
 
   describe('Health Check Error Handling', () => {
     it('should return ok status for health endpoint', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get('/health')
         .expect(200);
 
@@ -575,7 +569,7 @@ describe('Error Handling Tests', () => {
     it('should handle health check even under load', async () => {
       // Make concurrent requests
       const healthChecks = Array.from({ length: 10 }, () =>
-        request(app).get('/health')
+        asUser(userId).get('/health')
       );
 
       const responses = await Promise.all(healthChecks);
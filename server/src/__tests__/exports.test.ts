@@ -0,0 +1,289 @@
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { EXPORT_FORMATS, EXPORT_WRITERS, type ExportContext, type ExportEntry } from '../services/exportFormats';
+import { exportUserTransactions } from '../services/exports';
+
+describe('Transaction Exports', () => {
+  describe('Formats', () => {
+    const context: ExportContext = {
+      userId: '550e8400-e29b-41d4-a716-446655440000',
+      accountId: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+      currency: 'USD',
+      minorUnits: 2,
+      from: new Date('2026-10-01T00:00:00Z'),
+      to: new Date('2026-11-01T00:00:00Z'),
+      openingBalance: 100000,
+      closingBalance: 84250,
+      generatedAt: new Date('2026-11-01T08:30:00Z'),
+    };
+
+    const entries: ExportEntry[] = [
+      {
+        transactionId: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+        createdAt: new Date('2026-10-28T17:45:12.345Z'),
+        type: 'transfer',
+        amount: -20000,
+        description: 'Rent <October> & "fees"',
+        externalReference: 'INV-2026-0042',
+      },
+      {
+        transactionId: '9b2d7c4e-1f3a-4c5b-8d6e-7f8a9b0c1d2e',
+        createdAt: new Date('2026-10-15T09:00:00Z'),
+        type: 'deposit',
+        amount: 5000,
+        description: null,
+        externalReference: null,
+      },
+      {
+        transactionId: '6ba7b810-9dad-11d1-80b4-00c04fd430c8',
+        createdAt: new Date('2026-10-03T12:30:00Z'),
+        type: 'split',
+        amount: -750,
+        description: 'Dinner\nwith friends',
+        externalReference: null,
+      },
+    ];
+
+    it.each(EXPORT_FORMATS)('should render %s like the golden file', (format) => {
+      const writer = EXPORT_WRITERS[format];
+      const rendered = writer.header(context)
+        + entries.map(entry => writer.entry(context, entry)).join('')
+        + writer.footer(context);
+
+      const golden = readFileSync(path.join(__dirname, 'fixtures', 'exports', `statement.${writer.extension}`), 'utf8');
+
+      expect(rendered).toBe(golden);
+    });
+  });
+
+  describe('GET /users/:id/transactions/export', () => {
+    let user1Id: string;
+    let user2Id: string;
+
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    // An instant strictly between the ledger rows written before and after it
+    const markTime = async () => {
+      await sleep(10);
+      const mark = new Date().toISOString();
+      await sleep(10);
+      return mark;
+    };
+
+    const deposit = (userId: string, amount: number, extra: object = {}) => asUser(userId)
+      .post(`/users/${userId}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount, ...extra })
+      .expect(201);
+
+    const transfer = (sourceUserId: string, destinationUserId: string, amount: number, extra: object = {}) => asUser(sourceUserId)
+      .post('/transactions')
+      .send({ idempotency_key: randomUUID(), source_user_id: sourceUserId, destination_user_id: destinationUserId, amount, ...extra })
+      .expect(201);
+
+    const exportTransactions = (userId: string, query: Record<string, string>, callerId = userId) => asUser(callerId)
+      .get(`/users/${userId}/transactions/export`)
+      .query(query)
+      .buffer(true)
+      .parse((res, callback) => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => { text += chunk; });
+        res.on('end', () => callback(null, text));
+      });
+
+    // Every value of an element in a document, in order
+    const valuesOf = (document: string, element: string) => [...document.matchAll(new RegExp(`<${element}[^>]*>([^<]*)</${element}>`, 'g'))]
+      .map(match => match[1]);
+
+    beforeEach(async () => {
+      await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+      const users = await Promise.all([
+        createUser('export1@example.com'),
+        createUser('export2@example.com'),
+      ]);
+
+      user1Id = users[0].id;
+      await grantRole(user1Id, 'issuer');
+      user2Id = users[1].id;
+    });
+
+    it('should export a CAMT.053 statement that reconciles with the balances', async () => {
+      await deposit(user1Id, 10000);
+      const from = await markTime();
+
+      await transfer(user1Id, user2Id, 2500, { description: 'Rent', external_reference: 'INV-1' });
+      await transfer(user2Id, user1Id, 700);
+      await deposit(user1Id, 300);
+      const to = await markTime();
+
+      await deposit(user1Id, 9999);
+
+      const response = await exportTransactions(user1Id, { format: 'camt053', from, to }).expect(200);
+
+      expect(response.headers['content-type']).toMatch(/^application\/xml/);
+      expect(response.headers['content-disposition'])
+        .toBe(`attachment; filename="transactions-USD-${from.slice(0, 10)}-${to.slice(0, 10)}.xml"`);
+
+      const document: string = response.body;
+      expect(valuesOf(document, 'Cd').filter(code => code === 'OPBD' || code === 'CLBD')).toEqual(['OPBD', 'CLBD']);
+
+      // Two balances, then one amount per entry, newest first
+      const amounts = valuesOf(document, 'Amt');
+      const indicators = valuesOf(document, 'CdtDbtInd');
+      expect(amounts).toEqual(['100.00', '85.00', '3.00', '7.00', '25.00']);
+      expect(indicators).toEqual(['CRDT', 'CRDT', 'CRDT', 'CRDT', 'DBIT']);
+      expect(valuesOf(document, 'EndToEndId')).toEqual(['NOTPROVIDED', 'NOTPROVIDED', 'INV-1']);
+      expect(valuesOf(document, 'Ustrd')).toEqual(['Rent']);
+      expect(valuesOf(document, 'FrDtTm')).toEqual([from]);
+      expect(valuesOf(document, 'ToDtTm')).toEqual([to]);
+    });
+
+    it('should export the same transactions as the history for the range', async () => {
+      await deposit(user1Id, 10000);
+      const from = await markTime();
+
+      for (let i = 0; i < 5; i++) {
+        await transfer(user1Id, user2Id, 100 + i);
+      }
+      const to = await markTime();
+
+      const history = await asUser(user1Id)
+        .get(`/users/${user1Id}/transactions`)
+        .query({ from, to, limit: '100' })
+        .expect(200);
+
+      const response = await exportTransactions(user1Id, { format: 'ofx', from, to }).expect(200);
+
+      expect(response.headers['content-type']).toMatch(/^application\/x-ofx/);
+      expect(valuesOf(response.body, 'FITID')).toEqual(history.body.data.map((transaction: any) => transaction.id));
+      expect(valuesOf(response.body, 'TRNAMT')).toEqual(['-1.04', '-1.03', '-1.02', '-1.01', '-1.00']);
+      expect(valuesOf(response.body, 'BALAMT')).toEqual(['94.90']);
+    });
+
+    it('should export a QIF register', async () => {
+      const from = await markTime();
+      await deposit(user1Id, 1234, { description: 'Salary', external_reference: 'PAY-7' });
+      const to = await markTime();
+
+      const response = await exportTransactions(user1Id, { format: 'qif', from, to }).expect(200);
+
+      expect(response.headers['content-type']).toMatch(/^application\/qif/);
+      expect(response.headers['content-disposition']).toMatch(/\.qif"$/);
+
+      const lines = response.body.split('\n');
+      expect(lines[0]).toBe('!Type:Bank');
+      expect(lines).toEqual(expect.arrayContaining(['T12.34', 'NPAY-7', 'PSalary', '^']));
+    });
+
+    it('should export only the default account in the requested currency', async () => {
+      const from = await markTime();
+      await deposit(user1Id, 5000);
+      await deposit(user1Id, 800, { currency: 'EUR' });
+
+      const savings = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Savings', kind: 'savings' })
+        .expect(201);
+      await asUser(user1Id)
+        .post(`/accounts/${savings.body.id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 2500 })
+        .expect(201);
+      const to = await markTime();
+
+      const usd = await exportTransactions(user1Id, { format: 'camt053', from, to }).expect(200);
+      expect(valuesOf(usd.body, 'Amt')).toEqual(['0.00', '50.00', '50.00']);
+
+      const eur = await exportTransactions(user1Id, { format: 'camt053', from, to, currency: 'EUR' }).expect(200);
+      expect(eur.headers['content-disposition']).toMatch(/transactions-EUR-/);
+      expect(valuesOf(eur.body, 'Amt')).toEqual(['0.00', '8.00', '8.00']);
+    });
+
+    it('should export an empty period for a user without an account in the currency', async () => {
+      await deposit(user1Id, 5000);
+      const from = await markTime();
+      const to = await markTime();
+
+      const response = await exportTransactions(user1Id, { format: 'camt053', from, to, currency: 'JPY' }).expect(200);
+
+      expect(valuesOf(response.body, 'Amt')).toEqual(['0', '0']);
+      expect(response.body).not.toContain('<Ntry>');
+    });
+
+    it('should stream the export page by page from one snapshot', async () => {
+      await deposit(user1Id, 10000);
+      const from = await markTime();
+
+      for (let i = 0; i < 5; i++) {
+        await transfer(user1Id, user2Id, 100);
+      }
+      const to = await markTime();
+
+      const generatedAt = new Date();
+      const collect = async (pageSize: number) => {
+        const chunks: string[] = [];
+        await exportUserTransactions(user1Id, {
+          format: 'qif',
+          from: new Date(from),
+          to: new Date(to),
+          currency: 'USD',
+          generatedAt,
+          pageSize,
+        }, async (chunk) => {
+          chunks.push(chunk);
+        });
+        return chunks;
+      };
+
+      const paged = await collect(2);
+      const whole = await collect(100);
+
+      // Header, three pages of entries, footer
+      expect(paged).toHaveLength(5);
+      expect(whole).toHaveLength(3);
+      expect(paged.join('')).toBe(whole.join(''));
+      expect(paged.join('').match(/\^/g)).toHaveLength(5);
+    });
+
+    describe('Validation', () => {
+      const from = '2026-10-01T00:00:00Z';
+      const to = '2026-11-01T00:00:00Z';
+
+      it('should reject a missing or unknown format', async () => {
+        await exportTransactions(user1Id, { from, to }).expect(400);
+
+        const response = await exportTransactions(user1Id, { format: 'mt940', from, to }).expect(400);
+        expect(JSON.parse(response.body).error).toBe('Validation error');
+      });
+
+      it('should require from to be before to', async () => {
+        await exportTransactions(user1Id, { format: 'qif', from: to, to: from }).expect(400);
+        await exportTransactions(user1Id, { format: 'qif', from }).expect(400);
+      });
+
+      it('should reject an unsupported currency', async () => {
+        const response = await exportTransactions(user1Id, { format: 'qif', from, to, currency: 'XYZ' }).expect(400);
+        expect(JSON.parse(response.body).error).toBe('Unsupported currency.');
+      });
+
+      it('should not export another user\'s transactions', async () => {
+        const response = await exportTransactions(user2Id, { format: 'qif', from, to }, user1Id).expect(403);
+        expect(JSON.parse(response.body).error).toBe('Forbidden.');
+      });
+
+      it('should return 404 for an unknown user', async () => {
+        await grantRole(user1Id, 'admin');
+
+        const response = await exportTransactions(randomUUID(), { format: 'qif', from, to }, user1Id).expect(404);
+        expect(JSON.parse(response.body).error).toBe('User not found.');
+      });
+
+      it('should reject an invalid user ID', async () => {
+        await exportTransactions('not-a-uuid', { format: 'qif', from, to }, user1Id).expect(400);
+      });
+    });
+  });
+});
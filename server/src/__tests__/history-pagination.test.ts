@@ -0,0 +1,251 @@
+import type { Response } from 'supertest';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('Transaction History Pagination', () => {
+  let aliceId: string;
+  let bobId: string;
+  let carolId: string;
+
+  const deposit = (userId: string, amount: number) => asUser(userId)
+    .post(`/users/${userId}/deposit`)
+    .send({ idempotency_key: randomUUID(), amount })
+    .expect(201);
+
+  const transfer = (sourceUserId: string, destinationUserId: string, amount: number) => asUser(sourceUserId)
+    .post('/transactions')
+    .send({ idempotency_key: randomUUID(), source_user_id: sourceUserId, destination_user_id: destinationUserId, amount })
+    .expect(201);
+
+  const history = (userId: string, query: Record<string, string | number> = {}) => asUser(userId)
+    .get(`/users/${userId}/transactions`)
+    .query(query);
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    aliceId = (await createUser('alice@example.com')).id;
+    await grantRole(aliceId, 'issuer');
+    bobId = (await createUser('bob@example.com')).id;
+    carolId = (await createUser('carol@example.com')).id;
+
+    await deposit(aliceId, 10000);
+    await transfer(aliceId, bobId, 1000);
+    await transfer(bobId, aliceId, 300);
+    await transfer(aliceId, carolId, 2500);
+    await deposit(aliceId, 500);
+  });
+
+  describe('Pages', () => {
+    it('should return the newest transactions first with no next page', async () => {
+      const response = await history(aliceId).expect(200);
+
+      expect(response.body.next_cursor).toBeNull();
+      expect(response.body.data.map((t: any) => t.amount)).toEqual([500, 2500, 300, 1000, 10000]);
+    });
+
+    it('should walk every page without gaps or duplicates', async () => {
+      const all = await history(aliceId).expect(200);
+      const seen: string[] = [];
+      let cursor: string | null = null;
+      let pages = 0;
+
+      do {
+        const response: Response = await history(aliceId, cursor ? { limit: 2, cursor } : { limit: 2 }).expect(200);
+        expect(response.body.data.length).toBeLessThanOrEqual(2);
+        seen.push(...response.body.data.map((t: any) => t.id));
+        cursor = response.body.next_cursor;
+        pages++;
+      } while (cursor);
+
+      expect(pages).toBe(3);
+      expect(seen).toEqual(all.body.data.map((t: any) => t.id));
+    });
+
+    it('should not shift later pages when new transactions arrive', async () => {
+      const first = await history(aliceId, { limit: 2 }).expect(200);
+
+      await deposit(aliceId, 700);
+
+      const second = await history(aliceId, { limit: 2, cursor: first.body.next_cursor }).expect(200);
+      expect(second.body.data.map((t: any) => t.amount)).toEqual([300, 1000]);
+    });
+
+    it('should not report a next page when the last page is exactly full', async () => {
+      const response = await history(aliceId, { limit: 5 }).expect(200);
+
+      expect(response.body.data).toHaveLength(5);
+      expect(response.body.next_cursor).toBeNull();
+    });
+
+    it('should reject a malformed cursor', async () => {
+      const response = await history(aliceId, { cursor: 'not-a-cursor' }).expect(400);
+      expect(response.body.error).toBe('Invalid cursor.');
+    });
+
+    it('should reject a cursor that does not point at a row', async () => {
+      const cursor = Buffer.from(JSON.stringify(['yesterday', 'nobody'])).toString('base64url');
+      await history(aliceId, { cursor }).expect(400);
+    });
+
+    it('should reject a page size out of range', async () => {
+      await history(aliceId, { limit: 0 }).expect(400);
+      await history(aliceId, { limit: 201 }).expect(400);
+    });
+  });
+
+  describe('Running balances', () => {
+    it('should show the balance right after each transaction', async () => {
+      const response = await history(aliceId).expect(200);
+
+      expect(response.body.data.map((t: any) => t.running_balance)).toEqual([7300, 6800, 9300, 9000, 10000]);
+    });
+
+    it('should show the counterparty\'s own running balance', async () => {
+      const response = await history(bobId).expect(200);
+
+      expect(response.body.data.map((t: any) => t.running_balance)).toEqual([700, 1000]);
+    });
+
+    it('should keep running balances consistent across pages', async () => {
+      const first = await history(aliceId, { limit: 3 }).expect(200);
+      const second = await history(aliceId, { limit: 3, cursor: first.body.next_cursor }).expect(200);
+
+      expect([...first.body.data, ...second.body.data].map((t: any) => t.running_balance))
+        .toEqual([7300, 6800, 9300, 9000, 10000]);
+    });
+
+    it('should match the current balance on the newest row', async () => {
+      const balance = await asUser(aliceId).get(`/users/${aliceId}/balance`).expect(200);
+      const response = await history(aliceId, { limit: 1 }).expect(200);
+
+      expect(response.body.data[0].running_balance).toBe(balance.body.balance);
+    });
+
+    it('should show the running balance of the account each row posted to', async () => {
+      const accounts = await asUser(aliceId).get(`/users/${aliceId}/accounts`).expect(200);
+      const mainId = accounts.body.find((a: any) => a.is_default).id;
+      const savings = await asUser(aliceId)
+        .post(`/users/${aliceId}/accounts`)
+        .send({ name: 'Savings', kind: 'savings' })
+        .expect(201);
+
+      await asUser(aliceId)
+        .post(`/accounts/${savings.body.id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 2000 })
+        .expect(201);
+      await asUser(aliceId)
+        .post(`/accounts/${mainId}/transfer`)
+        .send({ idempotency_key: randomUUID(), destination_account_id: savings.body.id, amount: 1000 })
+        .expect(201);
+
+      const response = await history(aliceId, { limit: 3 }).expect(200);
+
+      expect(response.body.data.map((t: any) => [t.running_balance_account_id, t.running_balance])).toEqual([
+        [mainId, 6300],
+        [savings.body.id, 2000],
+        [mainId, 7300],
+      ]);
+    });
+  });
+
+  describe('Filters', () => {
+    it('should filter outgoing transactions', async () => {
+      const response = await history(aliceId, { direction: 'outgoing' }).expect(200);
+      expect(response.body.data.map((t: any) => t.amount)).toEqual([2500, 1000]);
+    });
+
+    it('should filter incoming transfers without deposits', async () => {
+      const response = await history(aliceId, { direction: 'incoming' }).expect(200);
+      expect(response.body.data.map((t: any) => t.amount)).toEqual([300]);
+    });
+
+    it('should filter deposits', async () => {
+      const response = await history(aliceId, { direction: 'deposit' }).expect(200);
+      expect(response.body.data.map((t: any) => t.amount)).toEqual([500, 10000]);
+    });
+
+    it('should filter by counterparty', async () => {
+      const response = await history(aliceId, { counterparty_user_id: bobId }).expect(200);
+      expect(response.body.data.map((t: any) => t.amount)).toEqual([300, 1000]);
+    });
+
+    it('should filter split payments by direction and counterparty', async () => {
+      await asUser(aliceId)
+        .post('/transactions/split')
+        .send({
+          idempotency_key: randomUUID(),
+          debits: [{ user_id: aliceId, amount: 400 }],
+          credits: [
+            { user_id: bobId, amount: 300 },
+            { user_id: carolId, amount: 100 },
+          ],
+        })
+        .expect(201);
+
+      const outgoing = await history(aliceId, { direction: 'outgoing' }).expect(200);
+      expect(outgoing.body.data.map((t: any) => t.type)).toEqual(['split', 'transfer', 'transfer']);
+
+      const incoming = await history(carolId, { direction: 'incoming' }).expect(200);
+      expect(incoming.body.data.map((t: any) => t.type)).toEqual(['split', 'transfer']);
+
+      const withCarol = await history(bobId, { counterparty_user_id: carolId }).expect(200);
+      expect(withCarol.body.data.map((t: any) => t.type)).toEqual(['split']);
+    });
+
+    it('should filter by an amount range', async () => {
+      const response = await history(aliceId, { min_amount: 500, max_amount: 2500 }).expect(200);
+      expect(response.body.data.map((t: any) => t.amount)).toEqual([500, 2500, 1000]);
+    });
+
+    it('should filter by a date range', async () => {
+      const all = await history(aliceId).expect(200);
+      const [newest, , middle] = all.body.data;
+
+      const response = await history(aliceId, {
+        from: new Date(middle.created_at).toISOString(),
+        to: new Date(newest.created_at).toISOString(),
+      }).expect(200);
+      expect(response.body.data.map((t: any) => t.id)).toEqual([all.body.data[1].id, middle.id]);
+
+      const future = await history(aliceId, { from: new Date(Date.now() + 60_000).toISOString() }).expect(200);
+      expect(future.body.data).toEqual([]);
+    });
+
+    it('should filter by currency', async () => {
+      await asUser(aliceId)
+        .post(`/users/${aliceId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 800, currency: 'EUR' })
+        .expect(201);
+
+      const eur = await history(aliceId, { currency: 'EUR' }).expect(200);
+      expect(eur.body.data).toEqual([expect.objectContaining({ currency: 'EUR', amount: 800 })]);
+
+      const usd = await history(aliceId, { currency: 'USD' }).expect(200);
+      expect(usd.body.data.map((t: any) => t.amount)).toEqual([500, 2500, 300, 1000, 10000]);
+    });
+
+    it('should paginate filtered results', async () => {
+      const first = await history(aliceId, { direction: 'deposit', limit: 1 }).expect(200);
+      const second = await history(aliceId, { direction: 'deposit', limit: 1, cursor: first.body.next_cursor }).expect(200);
+
+      expect(first.body.data.map((t: any) => t.amount)).toEqual([500]);
+      expect(second.body.data.map((t: any) => t.amount)).toEqual([10000]);
+      expect(second.body.next_cursor).toBeNull();
+    });
+
+    it('should reject an inverted amount range', async () => {
+      const response = await history(aliceId, { min_amount: 2000, max_amount: 1000 }).expect(400);
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should reject an inverted date range', async () => {
+      await history(aliceId, { from: '2026-11-01T00:00:00Z', to: '2026-10-01T00:00:00Z' }).expect(400);
+    });
+
+    it('should reject an unknown direction', async () => {
+      await history(aliceId, { direction: 'sideways' }).expect(400);
+    });
+  });
+});
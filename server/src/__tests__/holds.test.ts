@@ -0,0 +1,453 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+import { expireHolds } from '../services/holds';
+
+describe('Holds API', () => {
+  let user1Id: string;
+  let user2Id: string;
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    user1Id = (await createUser('hold1@example.com')).id;
+    await grantRole(user1Id, 'issuer');
+
+    user2Id = (await createUser('hold2@example.com')).id;
+
+    await asUser(user1Id)
+      .post(`/users/${user1Id}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount: 10000 })
+      .expect(201);
+  });
+
+  const placeHold = async (amount: number, extra: object = {}) => {
+    const response = await asUser(user1Id)
+      .post('/holds')
+      .send({
+        idempotency_key: randomUUID(),
+        source_user_id: user1Id,
+        destination_user_id: user2Id,
+        amount,
+        ...extra,
+      })
+      .expect(201);
+    return response.body;
+  };
+
+  const getBalance = async (userId: string) => {
+    const response = await asUser(userId).get(`/users/${userId}/balance`).expect(200);
+    return response.body;
+  };
+
+  // Moves a hold's expiry into the past without waiting for its TTL
+  const backdateExpiry = async (holdId: string) => {
+    await pool.query(
+      "UPDATE holds SET expires_at = created_at + INTERVAL '1 millisecond' WHERE id = $1",
+      [holdId]
+    );
+  };
+
+  describe('POST /holds', () => {
+    it('should reserve funds without moving money', async () => {
+      const idempotencyKey = randomUUID();
+      const response = await asUser(user1Id)
+        .post('/holds')
+        .send({
+          idempotency_key: idempotencyKey,
+          source_user_id: user1Id,
+          destination_user_id: user2Id,
+          amount: 4000,
+        })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        id: expect.any(String),
+        idempotency_key: idempotencyKey,
+        source_user_id: user1Id,
+        destination_user_id: user2Id,
+        amount: 4000,
+        currency: 'USD',
+        status: 'active',
+        captured_amount: null,
+        capture_transaction_id: null,
+        closed_at: null,
+      });
+
+      // Defaults to a 7 day time to live
+      const ttl = new Date(response.body.expires_at).getTime() - new Date(response.body.created_at).getTime();
+      expect(ttl).toBe(7 * 24 * 60 * 60 * 1000);
+
+      const balance = await getBalance(user1Id);
+      expect(balance.balance).toBe(10000);
+      expect(balance.available_balance).toBe(6000);
+      expect(balance.balances).toEqual([
+        { currency: 'USD', balance: 10000, available_balance: 6000, minor_units: 2 },
+      ]);
+    });
+
+    it('should honour a custom time to live', async () => {
+      const hold = await placeHold(1000, { expires_in_seconds: 60 });
+
+      const ttl = new Date(hold.expires_at).getTime() - new Date(hold.created_at).getTime();
+      expect(ttl).toBe(60 * 1000);
+    });
+
+    it('should reject a hold above the available balance', async () => {
+      await placeHold(7000);
+
+      const response = await asUser(user1Id)
+        .post('/holds')
+        .send({
+          idempotency_key: randomUUID(),
+          source_user_id: user1Id,
+          destination_user_id: user2Id,
+          amount: 3001,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Insufficient funds.');
+    });
+
+    it('should return the original hold on duplicate idempotency key', async () => {
+      const body = {
+        idempotency_key: randomUUID(),
+        source_user_id: user1Id,
+        destination_user_id: user2Id,
+        amount: 2000,
+      };
+
+      const first = await asUser(user1Id).post('/holds').send(body).expect(201);
+      const second = await asUser(user1Id).post('/holds').send(body).expect(201);
+
+      expect(second.body.id).toBe(first.body.id);
+      expect((await getBalance(user1Id)).available_balance).toBe(8000);
+    });
+
+    it('should reject invalid input', async () => {
+      await asUser(user1Id)
+        .post('/holds')
+        .send({ idempotency_key: randomUUID(), source_user_id: user1Id, destination_user_id: user1Id, amount: 100 })
+        .expect(400);
+
+      await asUser(user1Id)
+        .post('/holds')
+        .send({ idempotency_key: randomUUID(), source_user_id: user1Id, destination_user_id: user2Id, amount: 0 })
+        .expect(400);
+
+      await asUser(user1Id)
+        .post('/holds')
+        .send({ idempotency_key: randomUUID(), source_user_id: user1Id, destination_user_id: user2Id, amount: 100, expires_in_seconds: 31 * 24 * 60 * 60 })
+        .expect(400);
+    });
+
+    it('should return 404 for an unknown destination user', async () => {
+      const response = await asUser(user1Id)
+        .post('/holds')
+        .send({ idempotency_key: randomUUID(), source_user_id: user1Id, destination_user_id: randomUUID(), amount: 100 })
+        .expect(404);
+
+      expect(response.body.error).toBe('User not found');
+    });
+  });
+
+  describe('Available balance', () => {
+    it('should reject transfers that would spend held funds', async () => {
+      await placeHold(8000);
+
+      const response = await asUser(user1Id)
+        .post('/transactions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_user_id: user1Id,
+          destination_user_id: user2Id,
+          amount: 2001,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Insufficient funds.');
+
+      await asUser(user1Id)
+        .post('/transactions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_user_id: user1Id,
+          destination_user_id: user2Id,
+          amount: 2000,
+        })
+        .expect(201);
+    });
+
+    it('should reject withdrawals that would spend held funds', async () => {
+      await placeHold(8000);
+
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 2500 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Insufficient funds.');
+    });
+
+    it('should report ledger and available balance per account', async () => {
+      const hold = await placeHold(2500);
+
+      const response = await asUser(user1Id)
+        .get(`/accounts/${hold.source_account_id}/balance`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        account_id: hold.source_account_id,
+        balance: 10000,
+        available_balance: 7500,
+      });
+    });
+
+    it('should leave historical balances without an available balance', async () => {
+      await placeHold(2500);
+
+      const response = await asUser(user1Id)
+        .get(`/users/${user1Id}/balance?date=${new Date().toISOString()}`)
+        .expect(200);
+
+      expect(response.body.balance).toBe(10000);
+      expect(response.body.available_balance).toBeUndefined();
+    });
+  });
+
+  describe('POST /holds/:id/capture', () => {
+    it('should capture the full hold as a transfer', async () => {
+      const hold = await placeHold(4000);
+      const idempotencyKey = randomUUID();
+
+      const response = await asUser(user1Id)
+        .post(`/holds/${hold.id}/capture`)
+        .send({ idempotency_key: idempotencyKey })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        idempotency_key: idempotencyKey,
+        type: 'transfer',
+        source_account_id: hold.source_account_id,
+        destination_account_id: hold.destination_account_id,
+        amount: 4000,
+      });
+
+      const captured = await asUser(user1Id).get(`/holds/${hold.id}`).expect(200);
+      expect(captured.body).toMatchObject({
+        status: 'captured',
+        captured_amount: 4000,
+        capture_transaction_id: response.body.id,
+        closed_at: expect.any(String),
+      });
+
+      const balance1 = await getBalance(user1Id);
+      expect(balance1.balance).toBe(6000);
+      expect(balance1.available_balance).toBe(6000);
+      expect((await getBalance(user2Id)).balance).toBe(4000);
+    });
+
+    it('should capture part of the hold and release the rest', async () => {
+      const hold = await placeHold(4000);
+
+      const response = await asUser(user1Id)
+        .post(`/holds/${hold.id}/capture`)
+        .send({ idempotency_key: randomUUID(), amount: 2500 })
+        .expect(201);
+
+      expect(response.body.amount).toBe(2500);
+
+      const balance1 = await getBalance(user1Id);
+      expect(balance1.balance).toBe(7500);
+      expect(balance1.available_balance).toBe(7500);
+      expect((await getBalance(user2Id)).balance).toBe(2500);
+    });
+
+    it('should reject capturing more than the hold', async () => {
+      const hold = await placeHold(4000);
+
+      const response = await asUser(user1Id)
+        .post(`/holds/${hold.id}/capture`)
+        .send({ idempotency_key: randomUUID(), amount: 4001 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Capture exceeds held amount.');
+    });
+
+    it('should capture a hold only once', async () => {
+      const hold = await placeHold(4000);
+
+      await asUser(user1Id)
+        .post(`/holds/${hold.id}/capture`)
+        .send({ idempotency_key: randomUUID(), amount: 1000 })
+        .expect(201);
+
+      const response = await asUser(user1Id)
+        .post(`/holds/${hold.id}/capture`)
+        .send({ idempotency_key: randomUUID(), amount: 1000 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Hold is not active.');
+    });
+
+    it('should return the original transfer on duplicate idempotency key', async () => {
+      const hold = await placeHold(4000);
+      const idempotencyKey = randomUUID();
+
+      const first = await asUser(user1Id)
+        .post(`/holds/${hold.id}/capture`)
+        .send({ idempotency_key: idempotencyKey })
+        .expect(201);
+
+      const second = await asUser(user1Id)
+        .post(`/holds/${hold.id}/capture`)
+        .send({ idempotency_key: idempotencyKey })
+        .expect(201);
+
+      expect(second.body.id).toBe(first.body.id);
+      expect((await getBalance(user2Id)).balance).toBe(4000);
+    });
+
+    it('should reject capturing an expired hold', async () => {
+      const hold = await placeHold(4000);
+      await backdateExpiry(hold.id);
+
+      const response = await asUser(user1Id)
+        .post(`/holds/${hold.id}/capture`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(400);
+
+      expect(response.body.error).toBe('Hold has expired.');
+      expect((await getBalance(user2Id)).balance).toBe(0);
+    });
+
+    it('should return 404 for an unknown hold', async () => {
+      const response = await asUser(user1Id)
+        .post(`/holds/${randomUUID()}/capture`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(404);
+
+      expect(response.body.error).toBe('Hold not found.');
+    });
+  });
+
+  describe('POST /holds/:id/void', () => {
+    it('should release the held funds', async () => {
+      const hold = await placeHold(4000);
+
+      const response = await asUser(user1Id)
+        .post(`/holds/${hold.id}/void`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ id: hold.id, status: 'voided', closed_at: expect.any(String) });
+
+      const balance = await getBalance(user1Id);
+      expect(balance.balance).toBe(10000);
+      expect(balance.available_balance).toBe(10000);
+    });
+
+    it('should return a voided hold unchanged when voided again', async () => {
+      const hold = await placeHold(4000);
+
+      const first = await asUser(user1Id).post(`/holds/${hold.id}/void`).expect(200);
+      const second = await asUser(user1Id).post(`/holds/${hold.id}/void`).expect(200);
+
+      expect(second.body).toEqual(first.body);
+    });
+
+    it('should reject voiding a captured hold', async () => {
+      const hold = await placeHold(4000);
+
+      await asUser(user1Id)
+        .post(`/holds/${hold.id}/capture`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(201);
+
+      const response = await asUser(user1Id)
+        .post(`/holds/${hold.id}/void`)
+        .expect(400);
+
+      expect(response.body.error).toBe('Hold is not active.');
+    });
+
+    it('should reject capturing a voided hold', async () => {
+      const hold = await placeHold(4000);
+
+      await asUser(user1Id).post(`/holds/${hold.id}/void`).expect(200);
+
+      const response = await asUser(user1Id)
+        .post(`/holds/${hold.id}/capture`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(400);
+
+      expect(response.body.error).toBe('Hold is not active.');
+    });
+
+    it('should return 404 for an unknown hold', async () => {
+      await asUser(user1Id)
+        .post(`/holds/${randomUUID()}/void`)
+        .expect(404);
+    });
+  });
+
+  describe('Expiry', () => {
+    it('should release funds as soon as a hold expires', async () => {
+      const hold = await placeHold(4000);
+      await backdateExpiry(hold.id);
+
+      expect((await getBalance(user1Id)).available_balance).toBe(10000);
+
+      const response = await asUser(user1Id).get(`/holds/${hold.id}`).expect(200);
+      expect(response.body).toMatchObject({ status: 'expired', closed_at: response.body.expires_at });
+    });
+
+    it('should sweep expired holds', async () => {
+      const expiring = await placeHold(1000);
+      const active = await placeHold(1000);
+      await backdateExpiry(expiring.id);
+
+      expect(await expireHolds()).toBe(1);
+
+      const statuses = await pool.query('SELECT id, status FROM holds ORDER BY created_at');
+      expect(statuses.rows).toEqual([
+        { id: expiring.id, status: 'expired' },
+        { id: active.id, status: 'active' },
+      ]);
+    });
+
+    it('should reject voiding an expired hold', async () => {
+      const hold = await placeHold(4000);
+      await backdateExpiry(hold.id);
+
+      const response = await asUser(user1Id)
+        .post(`/holds/${hold.id}/void`)
+        .expect(400);
+
+      expect(response.body.error).toBe('Hold is not active.');
+    });
+  });
+
+  describe('Concurrency', () => {
+    it('should never reserve more than the available balance under concurrent holds', async () => {
+      const holds = Array.from({ length: 10 }, () =>
+        asUser(user1Id)
+          .post('/holds')
+          .send({
+            idempotency_key: randomUUID(),
+            source_user_id: user1Id,
+            destination_user_id: user2Id,
+            amount: 3000,
+          })
+      );
+
+      const results = await Promise.all(holds);
+      const successful = results.filter(r => r.status === 201);
+
+      // 10000 can cover at most three holds of 3000 (fewer if retries run out under contention)
+      expect(successful.length).toBeGreaterThan(0);
+      expect(successful.length).toBeLessThanOrEqual(3);
+      expect((await getBalance(user1Id)).available_balance).toBe(10000 - successful.length * 3000);
+    });
+  });
+});
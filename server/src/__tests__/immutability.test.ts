@@ -0,0 +1,129 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('Ledger immutability', () => {
+  let aliceId: string;
+  let transactionId: string;
+
+  const IMMUTABLE = /is not allowed: ledger entries are immutable/;
+
+  // Runs a statement as the application role, without the superuser
+  // privileges the test pool connects with
+  const asApp = async (text: string, values?: unknown[]) => {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('SET LOCAL ROLE thesaurum_app');
+      return await client.query(text, values);
+    } finally {
+      await client.query('ROLLBACK');
+      client.release();
+    }
+  };
+
+  const ledger = async () => {
+    const transactions = await pool.query('SELECT * FROM transactions ORDER BY chain_seq');
+    const postings = await pool.query('SELECT * FROM postings ORDER BY id');
+    return { transactions: transactions.rows, postings: postings.rows };
+  };
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    aliceId = (await createUser('alice@immutable.example.com')).id;
+    await grantRole(aliceId, 'admin');
+
+    transactionId = (await asUser(aliceId)
+      .post(`/users/${aliceId}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount: 10000 })
+      .expect(201)).body.id;
+  });
+
+  describe('Tampering', () => {
+    it.each([
+      ['UPDATE transactions SET amount = 1 WHERE id = $1', 'UPDATE on public.transactions'],
+      ['DELETE FROM transactions WHERE id = $1', 'DELETE on public.transactions'],
+      ['UPDATE postings SET amount = -amount WHERE transaction_id = $1', 'UPDATE on public.postings'],
+      ['DELETE FROM postings WHERE transaction_id = $1', 'DELETE on public.postings'],
+    ])('should reject %s', async (statement, operation) => {
+      const before = await ledger();
+
+      await expect(pool.query(statement, [transactionId])).rejects.toThrow(`${operation} is not allowed`);
+
+      expect(await ledger()).toEqual(before);
+    });
+
+    it.each([
+      'TRUNCATE TABLE transactions CASCADE',
+      'TRUNCATE TABLE postings',
+      'TRUNCATE TABLE users CASCADE',
+    ])('should reject %s', async (statement) => {
+      await expect(pool.query(statement)).rejects.toThrow(IMMUTABLE);
+
+      expect((await ledger()).transactions).toHaveLength(1);
+    });
+
+    it('should leave the hash chain intact', async () => {
+      await expect(pool.query('UPDATE transactions SET amount = amount + 1')).rejects.toThrow(IMMUTABLE);
+
+      const verification = await asUser(aliceId).get('/admin/ledger/verify').expect(200);
+      expect(verification.body.ok).toBe(true);
+    });
+  });
+
+  describe('Roles', () => {
+    it('should let the application role append to the ledger but not change it', async () => {
+      const result = await pool.query(`
+        SELECT t.name,
+          has_table_privilege('thesaurum_app', t.name, 'SELECT') AS can_select,
+          has_table_privilege('thesaurum_app', t.name, 'INSERT') AS can_insert,
+          has_table_privilege('thesaurum_app', t.name, 'UPDATE') AS can_update,
+          has_table_privilege('thesaurum_app', t.name, 'DELETE') AS can_delete,
+          has_table_privilege('thesaurum_app', t.name, 'TRUNCATE') AS can_truncate
+        FROM unnest(ARRAY['public.transactions', 'public.postings', 'public.ledger_chain_checkpoints']) AS t(name)
+      `);
+
+      result.rows.forEach(row => expect(row).toEqual({
+        name: row.name,
+        can_select: true,
+        can_insert: true,
+        can_update: false,
+        can_delete: false,
+        can_truncate: false,
+      }));
+
+      await expect(asApp('UPDATE transactions SET amount = 1 WHERE id = $1', [transactionId]))
+        .rejects.toThrow('permission denied for table transactions');
+      await expect(asApp('SELECT COUNT(*) FROM transactions')).resolves.toMatchObject({ rows: [{ count: '1' }] });
+    });
+
+    it('should let the application role change the rest of its data', async () => {
+      const result = await pool.query(`
+        SELECT bool_and(has_table_privilege('thesaurum_app', name, 'UPDATE')) AS can_update
+        FROM unnest(ARRAY['public.users', 'public.accounts', 'public.holds', 'public.scheduled_transfers']) AS t(name)
+      `);
+
+      expect(result.rows[0].can_update).toBe(true);
+    });
+
+    it('should let the maintenance role through', async () => {
+      await asMaintenance('UPDATE transactions SET description = $1 WHERE id = $2', ['corrected', transactionId]);
+
+      expect((await ledger()).transactions[0].description).toBe('corrected');
+    });
+
+    it('should create both roles without the right to log in', async () => {
+      const result = await pool.query(
+        "SELECT rolname, rolcanlogin FROM pg_roles WHERE rolname IN ('thesaurum_app', 'thesaurum_maintenance') ORDER BY rolname"
+      );
+
+      expect(result.rows).toEqual([
+        { rolname: 'thesaurum_app', rolcanlogin: false },
+        { rolname: 'thesaurum_maintenance', rolcanlogin: false },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,348 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { parseCsv } from '../services/csv';
+import { getTrialBalance } from '../services/ledger';
+
+describe('Ledger Imports', () => {
+  describe('CSV parsing', () => {
+    const parse = async (...chunks: string[]) => {
+      const records = [];
+      for await (const record of parseCsv((async function* () { yield* chunks; })())) {
+        records.push(record);
+      }
+      return records;
+    };
+
+    it('should read quoted fields with commas, doubled quotes and line breaks', async () => {
+      const records = await parse('a,"b, c","say ""hi"""\r\n', '"multi\nline",,x\n');
+
+      expect(records).toEqual([
+        { line: 1, fields: ['a', 'b, c', 'say "hi"'] },
+        { line: 2, fields: ['multi\nline', '', 'x'] },
+      ]);
+    });
+
+    it('should number records by the line they start on, skipping blank lines', async () => {
+      const records = await parse('\uFEFFh1,h2\n\n"x\ny",1\n', 'z,2');
+
+      expect(records).toEqual([
+        { line: 1, fields: ['h1', 'h2'] },
+        { line: 3, fields: ['x\ny', '1'] },
+        { line: 5, fields: ['z', '2'] },
+      ]);
+    });
+
+    it('should read records split across chunks', async () => {
+      const records = await parse('ab', 'c,"d', '""e"', '\nf');
+
+      expect(records).toEqual([
+        { line: 1, fields: ['abc', 'd"e'] },
+        { line: 2, fields: ['f'] },
+      ]);
+    });
+
+    it('should reject stray and unterminated quotes', async () => {
+      await expect(parse('a,b"c\n')).rejects.toThrow('Invalid CSV: unexpected quote on line 1');
+      await expect(parse('a,"b"c\n')).rejects.toThrow('Invalid CSV: unexpected character after a closing quote on line 1');
+      await expect(parse('a\n"b,c\n')).rejects.toThrow('Invalid CSV: unterminated quoted field starting on line 2');
+    });
+  });
+
+  describe('POST /admin/imports', () => {
+    let aliceId: string;
+    let bobId: string;
+
+    const HEADER = 'type,source_email,destination_email,amount,currency,created_at,description,external_reference,metadata';
+
+    const csv = (...rows: string[]) => [HEADER, ...rows].join('\n') + '\n';
+
+    const runImport = (body: string, query: Record<string, string | number> = {}) => asUser(aliceId)
+      .post('/admin/imports')
+      .query(query)
+      .set('Content-Type', 'text/csv')
+      .send(body);
+
+    const balanceOf = async (userId: string, currency = 'USD') => {
+      const response = await asUser(userId).get(`/users/${userId}/balance`).expect(200);
+      return response.body.balances.find((balance: any) => balance.currency === currency)?.balance ?? 0;
+    };
+
+    const transactionCount = async () => {
+      const result = await pool.query('SELECT COUNT(*)::int AS count FROM transactions');
+      return result.rows[0].count;
+    };
+
+    beforeEach(async () => {
+      await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+      const users = await Promise.all([
+        createUser('alice@import.example.com'),
+        createUser('bob@import.example.com'),
+      ]);
+
+      aliceId = users[0].id;
+      bobId = users[1].id;
+      await grantRole(aliceId, 'admin');
+    });
+
+    const validFile = csv(
+      'deposit,,alice@import.example.com,10000,USD,2020-01-15T09:00:00Z,Opening balance,LEGACY-1,"{""legacy_id"":1}"',
+      'transfer,alice@import.example.com,bob@import.example.com,2500,USD,2020-02-01T12:00:00Z,Rent,LEGACY-2,',
+      'deposit,,bob@import.example.com,300,EUR,,,,',
+    );
+
+    describe('Dry run', () => {
+      it('should report a valid file without writing anything', async () => {
+        const response = await runImport(validFile).expect(200);
+
+        expect(response.body).toEqual({
+          dry_run: true,
+          completed: true,
+          total_rows: 3,
+          valid_rows: 3,
+          already_imported: 0,
+          invalid_rows: 0,
+          imported: 0,
+          errors: [],
+        });
+        expect(await transactionCount()).toBe(0);
+      });
+
+      it('should report every error of every row by line', async () => {
+        const response = await runImport(csv(
+          'deposit,,alice@import.example.com,1000,,,,,',
+          'refund,,alice@import.example.com,100,,,,,',
+          'deposit,,nobody@import.example.com,12.5,,,,,',
+          'deposit,bob@import.example.com,alice@import.example.com,100,,,,,',
+          'transfer,alice@import.example.com,alice@import.example.com,100,,,,,',
+          'deposit,,alice@import.example.com,100,XYZ,,,,',
+          'deposit,,alice@import.example.com,100,,2999-01-01T00:00:00Z,,,',
+          'deposit,,alice@import.example.com,100,,,,,{oops',
+          'deposit,,alice@import.example.com,100',
+          'deposit,,alice@import.example.com,1000,,,,,',
+          'transfer,alice@import.example.com,bob@import.example.com,5000,,,,,',
+        )).expect(200);
+
+        expect(response.body).toMatchObject({ total_rows: 11, valid_rows: 1, invalid_rows: 10, imported: 0 });
+        expect(response.body.errors).toEqual([
+          { row: 3, errors: ['type: Must be deposit or transfer'] },
+          { row: 4, errors: ['Unknown user: nobody@import.example.com', expect.stringMatching(/^amount: /)] },
+          { row: 5, errors: ['source_email: Must be empty for a deposit'] },
+          { row: 6, errors: ['Source and destination users must be different'] },
+          { row: 7, errors: ['Unsupported currency.'] },
+          { row: 8, errors: ['created_at: Must not be in the future'] },
+          { row: 9, errors: ['metadata: Invalid JSON'] },
+          { row: 10, errors: ['Expected 9 fields, found 4.'] },
+          { row: 11, errors: ['Duplicate of row 2.'] },
+          { row: 12, errors: ['Insufficient funds.'] },
+        ]);
+        expect(await transactionCount()).toBe(0);
+      });
+
+      it('should let transfers spend what earlier rows paid in, across chunks', async () => {
+        const response = await runImport(csv(
+          'deposit,,alice@import.example.com,1000,,,,,',
+          'transfer,alice@import.example.com,bob@import.example.com,600,,,,,',
+          'transfer,bob@import.example.com,alice@import.example.com,600,,,,,',
+          'transfer,alice@import.example.com,bob@import.example.com,1000,,,first,,',
+          'transfer,alice@import.example.com,bob@import.example.com,1,,,second,,',
+        ), { chunk_size: 2 }).expect(200);
+
+        expect(response.body).toMatchObject({ valid_rows: 4, invalid_rows: 1 });
+        expect(response.body.errors).toEqual([{ row: 6, errors: ['Insufficient funds.'] }]);
+      });
+
+      it('should check funds against the current available balances', async () => {
+        await runImport(csv('deposit,,alice@import.example.com,500,,,,,'), { mode: 'commit' }).expect(200);
+
+        const response = await runImport(csv(
+          'transfer,alice@import.example.com,bob@import.example.com,500,,,,,',
+          'transfer,alice@import.example.com,bob@import.example.com,1,,,,,',
+        )).expect(200);
+
+        expect(response.body.errors).toEqual([{ row: 3, errors: ['Insufficient funds.'] }]);
+      });
+
+      it('should refuse transfers dated before a later movement of their source', async () => {
+        const response = await runImport(csv(
+          'deposit,,alice@import.example.com,1000,,2020-01-01T00:00:00Z,,,',
+          'transfer,alice@import.example.com,bob@import.example.com,1000,,2020-03-01T00:00:00Z,,,',
+          'deposit,,alice@import.example.com,1000,,2020-06-01T00:00:00Z,,,',
+          'transfer,alice@import.example.com,bob@import.example.com,1000,,2020-02-01T00:00:00Z,,,',
+          'deposit,,alice@import.example.com,500,,2019-01-01T00:00:00Z,,,',
+          'transfer,alice@import.example.com,bob@import.example.com,1000,,2020-06-01T00:00:00Z,,,',
+        )).expect(200);
+
+        expect(response.body).toMatchObject({ valid_rows: 5, invalid_rows: 1 });
+        expect(response.body.errors).toEqual([{ row: 5, errors: ['Transfer dated before a later movement of its source.'] }]);
+      });
+    });
+
+    describe('Commit', () => {
+      it('should write each row as a balanced journal entry', async () => {
+        const response = await runImport(validFile, { mode: 'commit' }).expect(200);
+
+        expect(response.body).toMatchObject({ dry_run: false, completed: true, valid_rows: 3, imported: 3, invalid_rows: 0 });
+        expect(await balanceOf(aliceId)).toBe(7500);
+        expect(await balanceOf(bobId)).toBe(2500);
+        expect(await balanceOf(bobId, 'EUR')).toBe(300);
+
+        const trialBalance = await getTrialBalance();
+        for (const currency of trialBalance) {
+          expect(currency.debits).toBe(currency.credits);
+        }
+      });
+
+      it('should keep the historical dates and details of the rows', async () => {
+        await runImport(validFile, { mode: 'commit' }).expect(200);
+
+        const history = await asUser(aliceId).get(`/users/${aliceId}/transactions`).expect(200);
+
+        expect(history.body.data).toEqual([
+          expect.objectContaining({
+            type: 'transfer',
+            source_user_id: aliceId,
+            destination_user_id: bobId,
+            amount: 2500,
+            created_at: '2020-02-01T12:00:00+00:00',
+            description: 'Rent',
+            external_reference: 'LEGACY-2',
+            metadata: null,
+            running_balance: 7500,
+          }),
+          expect.objectContaining({
+            type: 'deposit',
+            source_user_id: null,
+            amount: 10000,
+            created_at: '2020-01-15T09:00:00+00:00',
+            description: 'Opening balance',
+            external_reference: 'LEGACY-1',
+            metadata: { legacy_id: 1 },
+            running_balance: 10000,
+          }),
+        ]);
+
+        const balanceIn2020 = await asUser(aliceId).get(`/users/${aliceId}/balance`).query({ date: '2020-01-31T00:00:00Z' }).expect(200);
+        expect(balanceIn2020.body.balance).toBe(10000);
+      });
+
+      it('should check backdated transfers against the movements already in the ledger', async () => {
+        await runImport(csv(
+          'deposit,,alice@import.example.com,1000,,2020-01-01T00:00:00Z,,,',
+          'transfer,alice@import.example.com,bob@import.example.com,1000,,2020-03-01T00:00:00Z,,,',
+        ), { mode: 'commit' }).expect(200);
+        await runImport(csv('deposit,,alice@import.example.com,1000,,,,,'), { mode: 'commit' }).expect(200);
+
+        const backdated = await runImport(csv(
+          'transfer,alice@import.example.com,bob@import.example.com,1000,,2020-02-01T00:00:00Z,,,',
+        ), { mode: 'commit' }).expect(400);
+
+        expect(backdated.body).toMatchObject({ completed: false, imported: 0 });
+        expect(backdated.body.errors).toEqual([{ row: 2, errors: ['Transfer dated before a later movement of its source.'] }]);
+
+        const current = await runImport(csv(
+          'transfer,alice@import.example.com,bob@import.example.com,1000,,,,,',
+        ), { mode: 'commit' }).expect(200);
+
+        expect(current.body).toMatchObject({ completed: true, imported: 1 });
+        expect(await balanceOf(aliceId)).toBe(0);
+        expect(await balanceOf(bobId)).toBe(2000);
+      });
+
+      it('should not open receiving accounts for a chunk that is not written', async () => {
+        const rejected = await runImport(csv(
+          'transfer,alice@import.example.com,bob@import.example.com,1000,EUR,,,,',
+        ), { mode: 'commit' }).expect(400);
+
+        expect(rejected.body.errors).toEqual([{ row: 2, errors: ['Insufficient funds.'] }]);
+
+        const accounts = await asUser(bobId).get(`/users/${bobId}/accounts`).expect(200);
+        expect(accounts.body.map((account: any) => account.currency)).toEqual(['USD']);
+      });
+
+      it('should skip the rows of an earlier run', async () => {
+        await runImport(validFile, { mode: 'commit' }).expect(200);
+
+        const dryRun = await runImport(validFile).expect(200);
+        expect(dryRun.body).toMatchObject({ valid_rows: 0, already_imported: 3, invalid_rows: 0 });
+
+        const rerun = await runImport(validFile, { mode: 'commit' }).expect(200);
+        expect(rerun.body).toMatchObject({ completed: true, valid_rows: 0, already_imported: 3, imported: 0 });
+
+        expect(await transactionCount()).toBe(3);
+        expect(await balanceOf(aliceId)).toBe(7500);
+      });
+
+      it('should write nothing when the only chunk has an invalid row', async () => {
+        const response = await runImport(csv(
+          'deposit,,alice@import.example.com,1000,,,,,',
+          'deposit,,nobody@import.example.com,1000,,,,,',
+        ), { mode: 'commit' }).expect(400);
+
+        expect(response.body).toMatchObject({
+          error: 'Import stopped at invalid rows.',
+          completed: false,
+          imported: 0,
+          errors: [{ row: 3, errors: ['Unknown user: nobody@import.example.com'] }],
+        });
+        expect(await transactionCount()).toBe(0);
+      });
+
+      it('should keep the chunks before an invalid one and resume on a re-run', async () => {
+        const rows = [
+          'deposit,,alice@import.example.com,1000,,,,,',
+          'deposit,,alice@import.example.com,2000,,,,,',
+          'transfer,alice@import.example.com,bob@import.example.com,2500,,,,,',
+          'deposit,,bob@import.example.com,4000,,,,,',
+          'transfer,bob@import.example.com,alice@import.example.com,9000,,,,,',
+        ];
+
+        const first = await runImport(csv(...rows), { mode: 'commit', chunk_size: 2 }).expect(400);
+        expect(first.body).toMatchObject({ completed: false, total_rows: 5, imported: 4, invalid_rows: 1 });
+        expect(first.body.errors).toEqual([{ row: 6, errors: ['Insufficient funds.'] }]);
+        expect(await balanceOf(bobId)).toBe(6500);
+
+        rows[4] = 'transfer,bob@import.example.com,alice@import.example.com,6500,,,,,';
+
+        const second = await runImport(csv(...rows), { mode: 'commit', chunk_size: 2 }).expect(200);
+        expect(second.body).toMatchObject({ completed: true, imported: 1, already_imported: 4 });
+        expect(await balanceOf(aliceId)).toBe(7000);
+        expect(await balanceOf(bobId)).toBe(0);
+      });
+
+      it('should import a quoted description spanning lines', async () => {
+        await runImport(csv('deposit,,alice@import.example.com,100,,,"Line one\nLine ""two""",,'), { mode: 'commit' }).expect(200);
+
+        const history = await asUser(aliceId).get(`/users/${aliceId}/transactions`).expect(200);
+        expect(history.body.data[0].description).toBe('Line one\nLine "two"');
+      });
+    });
+
+    describe('Validation', () => {
+      it('should reject an unknown or missing column', async () => {
+        const unknown = await runImport('type,destination_email,amount,colour\n').expect(400);
+        expect(unknown.body.error).toBe('Invalid CSV header: unknown column "colour".');
+
+        const missing = await runImport('type,destination_email\n').expect(400);
+        expect(missing.body.error).toBe('Invalid CSV header: missing amount.');
+      });
+
+      it('should reject an empty file and malformed CSV', async () => {
+        await runImport('').expect(400);
+
+        const response = await runImport(csv('deposit,,"alice@import.example.com,100,,,,,')).expect(400);
+        expect(response.body.error).toMatch(/^Invalid CSV: unterminated quoted field/);
+      });
+
+      it('should require a CSV body', async () => {
+        await asUser(aliceId).post('/admin/imports').send({ rows: [] }).expect(415);
+      });
+
+      it('should reject an unknown mode or chunk size', async () => {
+        await runImport(validFile, { mode: 'yolo' }).expect(400);
+        await runImport(validFile, { chunk_size: 0 }).expect(400);
+      });
+    });
+  });
+});
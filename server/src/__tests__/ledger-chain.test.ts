@@ -0,0 +1,299 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { generateKeyPairSync, randomUUID } from 'crypto';
+import { signLedgerHead } from '../services/ledgerChain';
+
+describe('Ledger hash chain', () => {
+  let aliceId: string;
+  let bobId: string;
+  let depositId: string;
+  let transferId: string;
+
+  const GENESIS_HASH = '0'.repeat(64);
+
+  const generateSigningKey = () => generateKeyPairSync('ed25519')
+    .privateKey.export({ type: 'pkcs8', format: 'pem' })
+    .toString();
+
+  const verify = async () => {
+    const response = await asUser(aliceId).get('/admin/ledger/verify').expect(200);
+    return response.body;
+  };
+
+  const chain = async () => {
+    const result = await pool.query('SELECT id, chain_seq::int, prev_hash, hash FROM transactions ORDER BY chain_seq');
+    return result.rows;
+  };
+
+  // What someone with write access would do to hide a change: recompute
+  // every hash from the changed entry on, and move the head along
+  const rehashFrom = (chainSeq: number) => asMaintenance(`
+    DO $$
+    DECLARE
+      entry RECORD;
+      previous TEXT;
+    BEGIN
+      SELECT hash INTO previous FROM transactions WHERE chain_seq = ${chainSeq} - 1;
+
+      FOR entry IN SELECT id FROM transactions WHERE chain_seq >= ${chainSeq} ORDER BY chain_seq LOOP
+        UPDATE transactions SET prev_hash = COALESCE(previous, repeat('0', 64)) WHERE id = entry.id;
+        UPDATE transactions t SET hash = ledger_entry_hash(t) WHERE id = entry.id RETURNING t.hash INTO previous;
+      END LOOP;
+
+      UPDATE ledger_chain_head SET hash = previous;
+    END;
+    $$
+  `);
+
+  beforeEach(async () => {
+    delete process.env.LEDGER_SIGNING_KEY;
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    const users = await Promise.all([
+      createUser('alice@chain.example.com'),
+      createUser('bob@chain.example.com'),
+    ]);
+
+    aliceId = users[0].id;
+    bobId = users[1].id;
+    await grantRole(aliceId, 'admin');
+
+    depositId = (await asUser(aliceId)
+      .post(`/users/${aliceId}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount: 10000 })
+      .expect(201)).body.id;
+
+    transferId = (await asUser(aliceId)
+      .post('/transactions')
+      .send({ idempotency_key: randomUUID(), source_user_id: aliceId, destination_user_id: bobId, amount: 3000 })
+      .expect(201)).body.id;
+
+    await asUser(bobId)
+      .post(`/users/${bobId}/withdraw`)
+      .send({ idempotency_key: randomUUID(), amount: 500 })
+      .expect(201);
+  });
+
+  afterAll(() => {
+    delete process.env.LEDGER_SIGNING_KEY;
+  });
+
+  describe('Chaining', () => {
+    it('should chain every entry to the one before it', async () => {
+      const entries = await chain();
+
+      expect(entries.map(entry => entry.chain_seq)).toEqual([1, 2, 3]);
+      expect(entries[0].prev_hash).toBe(GENESIS_HASH);
+      expect(entries[1].prev_hash).toBe(entries[0].hash);
+      expect(entries[2].prev_hash).toBe(entries[1].hash);
+      entries.forEach(entry => expect(entry.hash).toMatch(/^[0-9a-f]{64}$/));
+
+      const history = await asUser(bobId).get(`/users/${bobId}/transactions`).expect(200);
+      expect(history.body.data.find((row: any) => row.id === transferId))
+        .toMatchObject({ chain_seq: 2, prev_hash: entries[0].hash, hash: entries[1].hash });
+    });
+
+    it('should overwrite chain values sent by a client', async () => {
+      const response = await asUser(aliceId)
+        .post('/transactions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_user_id: aliceId,
+          destination_user_id: bobId,
+          amount: 100,
+          chain_seq: 1,
+          hash: GENESIS_HASH,
+        })
+        .expect(201);
+
+      expect(response.body.chain_seq).toBe(4);
+      expect(response.body.hash).not.toBe(GENESIS_HASH);
+    });
+
+    it('should keep the chain linear under concurrent transfers', async () => {
+      const responses = await Promise.all(Array.from({ length: 10 }, (_, i) => asUser(i % 2 === 0 ? aliceId : bobId)
+        .post('/transactions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_user_id: i % 2 === 0 ? aliceId : bobId,
+          destination_user_id: i % 2 === 0 ? bobId : aliceId,
+          amount: 100,
+        })));
+
+      responses.forEach(response => expect(response.status).toBe(201));
+      expect((await chain()).map(entry => entry.chain_seq)).toEqual(Array.from({ length: 13 }, (_, i) => i + 1));
+      expect((await verify()).ok).toBe(true);
+    });
+
+    it('should chain imported entries in the order they were written', async () => {
+      await asUser(aliceId)
+        .post('/admin/imports')
+        .query({ mode: 'commit' })
+        .set('Content-Type', 'text/csv')
+        .send([
+          'type,source_email,destination_email,amount,currency,created_at,description,external_reference,metadata',
+          'deposit,,bob@chain.example.com,700,USD,2026-01-01T10:00:00Z,,,',
+          'transfer,bob@chain.example.com,alice@chain.example.com,200,USD,,,,',
+        ].join('\n') + '\n')
+        .expect(200);
+
+      expect((await chain()).map(entry => entry.chain_seq)).toEqual([1, 2, 3, 4, 5]);
+      expect(await verify()).toMatchObject({ ok: true, entries: 5, broken_link: null });
+    });
+  });
+
+  describe('Verification', () => {
+    it('should verify an intact chain', async () => {
+      const entries = await chain();
+
+      expect(await verify()).toEqual({
+        ok: true,
+        checked_at: expect.any(String),
+        entries: 3,
+        head: { chain_seq: 3, hash: entries[2].hash, transaction_id: entries[2].id },
+        broken_link: null,
+        checkpoints: { checked: 0, signatures_verified: false, invalid: [] },
+      });
+    });
+
+    it('should verify an empty ledger', async () => {
+      await asMaintenance('TRUNCATE TABLE transactions CASCADE');
+
+      expect(await verify()).toMatchObject({ ok: true, entries: 0, head: null, broken_link: null });
+    });
+
+    it('should report an entry changed after it was written', async () => {
+      await asMaintenance('UPDATE transactions SET amount = amount + 1 WHERE id = $1', [transferId]);
+
+      expect(await verify()).toMatchObject({
+        ok: false,
+        entries: 1,
+        broken_link: { chain_seq: 2, transaction_id: transferId, reason: 'hash does not match the entry' },
+      });
+    });
+
+    it('should report a posting changed after it was written', async () => {
+      await asMaintenance('UPDATE postings SET amount = amount * 100 WHERE transaction_id = $1', [transferId]);
+
+      const balance = await asUser(bobId).get(`/users/${bobId}/balance`).expect(200);
+      expect(balance.body.balance).toBe(299500);
+
+      expect(await verify()).toMatchObject({
+        ok: false,
+        entries: 1,
+        broken_link: { chain_seq: 2, transaction_id: transferId, reason: 'hash does not match the entry' },
+      });
+    });
+
+    it('should reject postings added to an entry after it was hashed', async () => {
+      const postings = await pool.query('SELECT account_id, currency FROM postings WHERE transaction_id = $1 ORDER BY amount', [transferId]);
+      const [source, destination] = postings.rows;
+      const client = await pool.connect();
+
+      try {
+        await client.query('BEGIN');
+        await client.query(
+          'INSERT INTO postings (transaction_id, account_id, amount, currency) VALUES ($1, $2, -1000, $3), ($1, $4, 1000, $3)',
+          [transferId, source.account_id, source.currency, destination.account_id]
+        );
+
+        await expect(client.query('COMMIT')).rejects.toThrow(/was written after journal entry .* was hashed/);
+      } finally {
+        client.release();
+      }
+
+      expect((await verify()).ok).toBe(true);
+    });
+
+    it('should report the next link when a changed entry was rehashed', async () => {
+      await asMaintenance('UPDATE transactions SET description = $1 WHERE id = $2', ['rewritten', depositId]);
+      await asMaintenance('UPDATE transactions t SET hash = ledger_entry_hash(t) WHERE id = $1', [depositId]);
+
+      expect((await verify()).broken_link).toEqual({
+        chain_seq: 2,
+        transaction_id: transferId,
+        reason: 'prev_hash does not match the previous entry',
+      });
+    });
+
+    it('should report a deleted entry', async () => {
+      await asMaintenance('DELETE FROM postings WHERE transaction_id = $1', [transferId]);
+      await asMaintenance('DELETE FROM transactions WHERE id = $1', [transferId]);
+
+      expect((await verify()).broken_link).toEqual({ chain_seq: 2, transaction_id: null, reason: 'Entry is missing' });
+    });
+
+    it('should report a chain head that does not match the last entry', async () => {
+      await pool.query("UPDATE ledger_chain_head SET hash = repeat('f', 64)");
+
+      expect((await verify()).broken_link).toEqual({
+        chain_seq: 3,
+        transaction_id: expect.any(String),
+        reason: 'Chain head does not match the last entry',
+      });
+    });
+  });
+
+  describe('Signed checkpoints', () => {
+    beforeEach(() => {
+      process.env.LEDGER_SIGNING_KEY = generateSigningKey();
+    });
+
+    it('should sign the chain head once', async () => {
+      expect(await signLedgerHead()).toBe(3);
+      expect(await signLedgerHead()).toBeUndefined();
+
+      expect(await verify()).toMatchObject({
+        ok: true,
+        checkpoints: { checked: 1, signatures_verified: true, invalid: [] },
+      });
+    });
+
+    it('should require a signing key', async () => {
+      delete process.env.LEDGER_SIGNING_KEY;
+
+      await expect(signLedgerHead()).rejects.toThrow('LEDGER_SIGNING_KEY is not set.');
+    });
+
+    it('should report a rewritten history that no longer matches a signed head', async () => {
+      await signLedgerHead();
+
+      await asMaintenance('UPDATE transactions SET amount = amount + 1 WHERE id = $1', [transferId]);
+      await rehashFrom(2);
+
+      const verification = await verify();
+
+      expect(verification.broken_link).toBeNull();
+      expect(verification.ok).toBe(false);
+      expect(verification.checkpoints.invalid).toEqual([
+        { chain_seq: 3, signed_at: expect.any(String), reason: 'Entry does not match the signed hash' },
+      ]);
+    });
+
+    it('should report a forged signature', async () => {
+      await signLedgerHead();
+      await pool.query("UPDATE ledger_chain_checkpoints SET signature = encode(decode(repeat('00', 64), 'hex'), 'base64')");
+
+      expect((await verify()).checkpoints.invalid).toEqual([
+        { chain_seq: 3, signed_at: expect.any(String), reason: 'Signature does not verify' },
+      ]);
+    });
+
+    it('should report a checkpoint signed with another key', async () => {
+      await signLedgerHead();
+      process.env.LEDGER_SIGNING_KEY = generateSigningKey();
+
+      expect((await verify()).checkpoints.invalid).toEqual([
+        { chain_seq: 3, signed_at: expect.any(String), reason: 'Signed with an unknown key' },
+      ]);
+    });
+
+    it('should only compare hashes without a signing key', async () => {
+      await signLedgerHead();
+      delete process.env.LEDGER_SIGNING_KEY;
+
+      expect((await verify()).checkpoints).toEqual({ checked: 1, signatures_verified: false, invalid: [] });
+    });
+  });
+});
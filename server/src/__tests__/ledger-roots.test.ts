@@ -0,0 +1,293 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { createHash, randomUUID } from 'crypto';
+import { buildLedgerRoots } from '../services/ledgerRoots';
+import { hashLeaf, ledgerEntryHash, merklePath, merkleRoot, parseLedgerEntry, rootFromPath, verifyInclusionProof } from '../services/merkle';
+
+describe('Ledger roots', () => {
+  let aliceId: string;
+  let bobId: string;
+
+  const fakeHash = (i: number) => createHash('sha256').update(String(i)).digest('hex');
+
+  const deposit = async (userId: string, amount: number) => {
+    const response = await asUser(userId)
+      .post(`/users/${userId}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount })
+      .expect(201);
+    return response.body;
+  };
+
+  const roots = async () => {
+    const result = await pool.query('SELECT first_seq::int, last_seq::int, root FROM ledger_roots ORDER BY first_seq');
+    return result.rows;
+  };
+
+  const hashes = async () => {
+    const result = await pool.query('SELECT hash FROM transactions ORDER BY chain_seq');
+    return result.rows.map(row => row.hash);
+  };
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    const users = await Promise.all([
+      createUser('alice@roots.example.com'),
+      createUser('bob@roots.example.com'),
+    ]);
+
+    aliceId = users[0].id;
+    bobId = users[1].id;
+    await grantRole(aliceId, 'issuer');
+    await grantRole(bobId, 'issuer');
+
+    await deposit(aliceId, 10000);
+    await deposit(bobId, 5000);
+    await asUser(aliceId)
+      .post('/transactions')
+      .send({ idempotency_key: randomUUID(), source_user_id: aliceId, destination_user_id: bobId, amount: 3000 })
+      .expect(201);
+  });
+
+  describe('Merkle trees', () => {
+    it('should use the leaf node as the root of a single entry', () => {
+      expect(merkleRoot([fakeHash(1)])).toBe(hashLeaf(fakeHash(1)).toString('hex'));
+      expect(merklePath([fakeHash(1)], 0)).toEqual([]);
+    });
+
+    it('should prove every leaf of trees of any size', () => {
+      for (let size = 1; size <= 9; size++) {
+        const leaves = Array.from({ length: size }, (_, i) => fakeHash(i));
+        const root = merkleRoot(leaves);
+
+        leaves.forEach((leaf, index) => {
+          expect(rootFromPath(leaf, merklePath(leaves, index))).toBe(root);
+        });
+      }
+    });
+
+    it('should reject a proof for another leaf, a changed path or another root', () => {
+      const leaves = Array.from({ length: 5 }, (_, i) => fakeHash(i));
+      const root = merkleRoot(leaves);
+      const path = merklePath(leaves, 2);
+
+      expect(rootFromPath(leaves[2], path)).toBe(root);
+      expect(rootFromPath(fakeHash(99), path)).not.toBe(root);
+      expect(rootFromPath(leaves[2], path.slice(1))).not.toBe(root);
+      expect(rootFromPath(leaves[2], [{ ...path[0], hash: fakeHash(99) }, ...path.slice(1)])).not.toBe(root);
+      expect(rootFromPath(leaves[2], path)).not.toBe(merkleRoot(leaves.slice(1)));
+    });
+
+    it('should refuse to build an empty tree', () => {
+      expect(() => merkleRoot([])).toThrow('A Merkle tree needs at least one leaf.');
+    });
+  });
+
+  describe('Building roots', () => {
+    it('should cover the entries after the last root', async () => {
+      expect(await buildLedgerRoots()).toBe(1);
+      expect(await buildLedgerRoots()).toBe(0);
+
+      await deposit(aliceId, 100);
+      await deposit(bobId, 200);
+
+      expect(await buildLedgerRoots()).toBe(1);
+
+      const leaves = await hashes();
+      expect(await roots()).toEqual([
+        { first_seq: 1, last_seq: 3, root: merkleRoot(leaves.slice(0, 3)) },
+        { first_seq: 4, last_seq: 5, root: merkleRoot(leaves.slice(3)) },
+      ]);
+    });
+
+    it('should do nothing on an empty ledger', async () => {
+      await asMaintenance('TRUNCATE TABLE transactions CASCADE');
+
+      expect(await buildLedgerRoots()).toBe(0);
+    });
+
+    it('should not let the application role change a root', async () => {
+      const result = await pool.query(`
+        SELECT has_table_privilege('thesaurum_app', 'public.ledger_roots', 'INSERT') AS can_insert,
+          has_table_privilege('thesaurum_app', 'public.ledger_roots', 'UPDATE') AS can_update,
+          has_table_privilege('thesaurum_app', 'public.ledger_roots', 'DELETE') AS can_delete
+      `);
+
+      expect(result.rows[0]).toEqual({ can_insert: true, can_update: false, can_delete: false });
+    });
+  });
+
+  describe('GET /transactions/:id/proof', () => {
+    it('should return a proof that verifies against the published root', async () => {
+      const { id } = await deposit(aliceId, 100);
+      await buildLedgerRoots();
+      const [published] = await roots();
+
+      const response = await asUser(aliceId).get(`/transactions/${id}/proof`).expect(200);
+
+      expect(response.body).toEqual({
+        transaction_id: id,
+        chain_seq: 4,
+        leaf_index: 3,
+        prev_hash: (await hashes())[2],
+        entry: expect.any(String),
+        leaf: (await hashes())[3],
+        root: {
+          id: expect.any(String),
+          first_seq: 1,
+          last_seq: 4,
+          root: published.root,
+          created_at: expect.any(String),
+        },
+        path: [expect.objectContaining({ side: 'left' }), expect.objectContaining({ side: 'left' })],
+      });
+      expect(verifyInclusionProof(response.body, published.root)).toBe(true);
+      expect(parseLedgerEntry(response.body.entry)).toMatchObject({ chain_seq: 4, id, type: 'deposit', amount: 100, destination_user_id: aliceId });
+    });
+
+    it('should hash entries as the database does', async () => {
+      const response = await asUser(aliceId)
+        .post('/transactions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_user_id: aliceId,
+          destination_user_id: bobId,
+          amount: 250,
+          description: 'Caf\u00e9 "au lait"\n\u2615',
+          metadata: { order: 'A-17', note: 'tab\there', emoji: '\u{1F600}' },
+        })
+        .expect(201);
+      await buildLedgerRoots();
+
+      const proof = await asUser(aliceId).get(`/transactions/${response.body.id}/proof`).expect(200);
+
+      expect(ledgerEntryHash(proof.body.prev_hash, proof.body.entry)).toBe(proof.body.leaf);
+      expect(parseLedgerEntry(proof.body.entry)).toMatchObject({
+        description: 'Caf\u00e9 "au lait"\n\u2615',
+        metadata: { order: 'A-17', note: 'tab\there', emoji: '\u{1F600}' },
+        created_at: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}Z$/),
+      });
+    });
+
+    it('should not verify a proof whose entry was changed or belongs to another transaction', async () => {
+      const { id } = await deposit(aliceId, 100);
+      await buildLedgerRoots();
+      const [published] = await roots();
+
+      const proof = (await asUser(aliceId).get(`/transactions/${id}/proof`).expect(200)).body;
+      const [other] = await hashes();
+      const otherId = (await pool.query('SELECT id FROM transactions WHERE chain_seq = 1')).rows[0].id;
+
+      expect(verifyInclusionProof({ ...proof, entry: proof.entry.replace(', 100, ', ', 1000000, ') }, published.root)).toBe(false);
+      expect(verifyInclusionProof({ ...proof, prev_hash: fakeHash(1) }, published.root)).toBe(false);
+      expect(verifyInclusionProof({ ...proof, leaf: other }, published.root)).toBe(false);
+      expect(verifyInclusionProof({ ...proof, transaction_id: otherId }, published.root)).toBe(false);
+      expect(verifyInclusionProof({ ...proof, entry: 'not json' }, published.root)).toBe(false);
+    });
+
+    it('should no longer verify once the entry was rewritten', async () => {
+      const { id } = await deposit(aliceId, 100);
+      await buildLedgerRoots();
+      const [published] = await roots();
+
+      await asMaintenance('UPDATE transactions SET amount = 1 WHERE id = $1', [id]);
+      await asMaintenance('UPDATE transactions t SET hash = ledger_entry_hash(t) WHERE id = $1', [id]);
+
+      const response = await asUser(aliceId).get(`/transactions/${id}/proof`).expect(200);
+
+      expect(verifyInclusionProof(response.body, published.root)).toBe(false);
+    });
+
+    it('should prove which accounts a split payment moved money between', async () => {
+      const carolId = (await createUser('carol@roots.example.com')).id;
+      const split = await asUser(aliceId)
+        .post('/transactions/split')
+        .send({
+          idempotency_key: randomUUID(),
+          debits: [{ user_id: aliceId, amount: 400 }],
+          credits: [{ user_id: bobId, amount: 300 }, { user_id: carolId, amount: 100 }],
+        })
+        .expect(201);
+      await buildLedgerRoots();
+      const [published] = await roots();
+
+      const proof = (await asUser(aliceId).get(`/transactions/${split.body.id}/proof`).expect(200)).body;
+      const postings = await pool.query(
+        'SELECT account_id, amount::int, currency FROM postings WHERE transaction_id = $1 ORDER BY account_id, amount',
+        [split.body.id]
+      );
+
+      expect(verifyInclusionProof(proof, published.root)).toBe(true);
+      expect(parseLedgerEntry(proof.entry).postings).toEqual(postings.rows);
+      expect(postings.rows.map(posting => posting.amount).sort()).toEqual([-400, 100, 300]);
+
+      const [first, second] = postings.rows;
+      const swapped = proof.entry.replace(first.account_id, 'swapped').replace(second.account_id, first.account_id).replace('swapped', second.account_id);
+      expect(verifyInclusionProof({ ...proof, entry: swapped }, published.root)).toBe(false);
+    });
+
+    it('should no longer verify once a posting was rewritten', async () => {
+      const { id } = await deposit(aliceId, 100);
+      await buildLedgerRoots();
+      const [published] = await roots();
+
+      await asMaintenance('UPDATE postings SET amount = amount * 100 WHERE transaction_id = $1', [id]);
+      await asMaintenance('UPDATE transactions t SET hash = ledger_entry_hash(t) WHERE id = $1', [id]);
+
+      const response = await asUser(aliceId).get(`/transactions/${id}/proof`).expect(200);
+
+      expect(parseLedgerEntry(response.body.entry).postings.map(posting => posting.amount).sort()).toEqual([-10000, 10000]);
+      expect(verifyInclusionProof(response.body, published.root)).toBe(false);
+    });
+
+    it('should not verify an entry whose postings do not balance', () => {
+      const proofOf = (postings: unknown[]) => {
+        const entry = JSON.stringify([1, 'id', 'key', 'deposit', null, null, 'user', 'account', 100, 'USD', '2026-10-20T00:00:00.000000Z', null, null, null, null, null, {}, postings]);
+        const leaf = ledgerEntryHash('0'.repeat(64), entry);
+        return { transaction_id: 'id', chain_seq: 1, prev_hash: '0'.repeat(64), entry, leaf, path: [], root: { root: rootFromPath(leaf, []) } };
+      };
+
+      expect(verifyInclusionProof(proofOf([['account', 100, 'USD'], ['equity', -100, 'USD']]))).toBe(true);
+      expect(verifyInclusionProof(proofOf([['account', 100, 'USD'], ['equity', -50, 'USD']]))).toBe(false);
+      expect(verifyInclusionProof(proofOf([['account', 100, 'USD'], ['equity', -100, 'EUR']]))).toBe(false);
+      expect(verifyInclusionProof(proofOf([]))).toBe(false);
+      expect(() => parseLedgerEntry(proofOf([['account', '100', 'USD'], ['equity', -100, 'USD']]).entry)).toThrow('Invalid ledger entry.');
+    });
+
+    it('should only give proofs to the transaction\'s parties and holders of accounts:read', async () => {
+      const transfer = await pool.query("SELECT id FROM transactions WHERE type = 'transfer'");
+      const { id } = transfer.rows[0];
+      await buildLedgerRoots();
+
+      const malloryId = (await createUser('mallory@roots.example.com')).id;
+      const response = await asUser(malloryId).get(`/transactions/${id}/proof`).expect(403);
+      expect(response.body.error).toBe('Forbidden.');
+
+      await asUser(aliceId).get(`/transactions/${id}/proof`).expect(200);
+      await asUser(bobId).get(`/transactions/${id}/proof`).expect(200);
+
+      await grantRole(malloryId, 'auditor');
+      await asUser(malloryId).get(`/transactions/${id}/proof`).expect(200);
+    });
+
+    it('should return 404 for a transaction no root covers yet', async () => {
+      await buildLedgerRoots();
+      const { id } = await deposit(aliceId, 100);
+
+      const response = await asUser(aliceId).get(`/transactions/${id}/proof`).expect(404);
+
+      expect(response.body.error).toBe('Transaction is not covered by a ledger root yet.');
+    });
+
+    it('should return 404 for an unknown transaction', async () => {
+      const response = await asUser(aliceId).get(`/transactions/${randomUUID()}/proof`).expect(404);
+
+      expect(response.body.error).toBe('Transaction not found.');
+    });
+
+    it('should return 400 for an invalid id', async () => {
+      await asUser(aliceId).get('/transactions/not-a-uuid/proof').expect(400);
+    });
+  });
+});
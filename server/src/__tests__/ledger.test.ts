@@ -0,0 +1,250 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+import { getTrialBalance } from '../services/ledger';
+
+describe('Double-entry ledger', () => {
+  let user1Id: string;
+  let user2Id: string;
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users, exchange_rates RESTART IDENTITY CASCADE');
+
+    user1Id = (await createUser('ledger1@example.com')).id;
+
+    user2Id = (await createUser('ledger2@example.com')).id;
+    await grantRole(user1Id, 'operator');
+    await grantRole(user2Id, 'issuer');
+  });
+
+  const getPostings = async (transactionId: string) => {
+    const result = await pool.query(
+      `SELECT a.name, a.kind, p.account_id, p.amount::int AS amount, p.currency
+       FROM postings p JOIN accounts a ON a.id = p.account_id
+       WHERE p.transaction_id = $1
+       ORDER BY p.amount`,
+      [transactionId]
+    );
+    return result.rows;
+  };
+
+  describe('Postings', () => {
+    it('should debit the issuance account on deposits', async () => {
+      const deposit = await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 5000 })
+        .expect(201);
+
+      const postings = await getPostings(deposit.body.id);
+
+      expect(postings).toEqual([
+        expect.objectContaining({ name: 'equity:deposits', kind: 'system', amount: -5000, currency: 'USD' }),
+        expect.objectContaining({ account_id: deposit.body.destination_account_id, amount: 5000, currency: 'USD' }),
+      ]);
+    });
+
+    it('should debit the source and credit the destination on transfers', async () => {
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 5000 })
+        .expect(201);
+
+      const transfer = await asUser(user1Id)
+        .post('/transactions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_user_id: user1Id,
+          destination_user_id: user2Id,
+          amount: 1200,
+        })
+        .expect(201);
+
+      const postings = await getPostings(transfer.body.id);
+
+      expect(postings).toEqual([
+        expect.objectContaining({ account_id: transfer.body.source_account_id, amount: -1200 }),
+        expect.objectContaining({ account_id: transfer.body.destination_account_id, amount: 1200 }),
+      ]);
+    });
+
+    it('should credit the issuance account on withdrawals', async () => {
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 5000 })
+        .expect(201);
+
+      const withdrawal = await asUser(user1Id)
+        .post(`/users/${user1Id}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 2000 })
+        .expect(201);
+
+      const postings = await getPostings(withdrawal.body.id);
+
+      expect(postings).toEqual([
+        expect.objectContaining({ account_id: withdrawal.body.source_account_id, amount: -2000 }),
+        expect.objectContaining({ name: 'equity:deposits', kind: 'system', amount: 2000 }),
+      ]);
+    });
+
+    it('should balance each conversion leg in its own currency', async () => {
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 10000 })
+        .expect(201);
+
+      const accounts = await asUser(user1Id).get(`/users/${user1Id}/accounts`);
+      const eurAccount = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Euros', currency: 'EUR' })
+        .expect(201);
+
+      await asUser(user1Id)
+        .post('/exchange-rates')
+        .send({ base_currency: 'USD', quote_currency: 'EUR', rate: '0.5' })
+        .expect(201);
+
+      const conversion = await asUser(user1Id)
+        .post('/conversions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_account_id: accounts.body[0].id,
+          destination_account_id: eurAccount.body.id,
+          amount: 4000,
+        })
+        .expect(201);
+
+      expect(await getPostings(conversion.body.source_transaction_id)).toEqual([
+        expect.objectContaining({ account_id: accounts.body[0].id, amount: -4000, currency: 'USD' }),
+        expect.objectContaining({ name: 'fx:conversions', amount: 4000, currency: 'USD' }),
+      ]);
+      expect(await getPostings(conversion.body.destination_transaction_id)).toEqual([
+        expect.objectContaining({ name: 'fx:conversions', amount: -2000, currency: 'EUR' }),
+        expect.objectContaining({ account_id: eurAccount.body.id, amount: 2000, currency: 'EUR' }),
+      ]);
+    });
+  });
+
+  describe('Trial balance', () => {
+    it('should balance debits and credits in every currency', async () => {
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 10000 })
+        .expect(201);
+
+      await asUser(user2Id)
+        .post(`/users/${user2Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 700, currency: 'JPY' })
+        .expect(201);
+
+      await asUser(user1Id)
+        .post('/transactions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_user_id: user1Id,
+          destination_user_id: user2Id,
+          amount: 3000,
+        })
+        .expect(201);
+
+      await asUser(user2Id)
+        .post(`/users/${user2Id}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 1000 })
+        .expect(201);
+
+      const trialBalance = await getTrialBalance();
+
+      expect(trialBalance).toEqual([
+        { currency: 'JPY', debits: 700, credits: 700 },
+        { currency: 'USD', debits: 14000, credits: 14000 },
+      ]);
+    });
+
+    it('should mirror customer balances in the issuance account', async () => {
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 8000 })
+        .expect(201);
+
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 2500 })
+        .expect(201);
+
+      const equity = await pool.query(
+        `SELECT public.get_account_current_balance(id)::int AS balance
+         FROM accounts WHERE kind = 'system' AND name = 'equity:deposits' AND currency = 'USD'`
+      );
+      const balance = await asUser(user1Id).get(`/users/${user1Id}/balance`);
+
+      expect(equity.rows[0].balance).toBe(-5500);
+      expect(balance.body.balance).toBe(5500);
+    });
+  });
+
+  describe('Database guarantees', () => {
+    it('should reject journal entries whose postings do not balance', async () => {
+      const accounts = await asUser(user1Id).get(`/users/${user1Id}/accounts`);
+      const accountId = accounts.body[0].id;
+      const client = await pool.connect();
+
+      try {
+        await client.query('BEGIN');
+        const transaction = await client.query(
+          `INSERT INTO transactions (idempotency_key, type, destination_user_id, destination_account_id, amount, currency)
+           VALUES ($1, 'deposit', $2, $3, 100, 'USD') RETURNING id`,
+          [randomUUID(), user1Id, accountId]
+        );
+        await client.query(
+          'INSERT INTO postings (transaction_id, account_id, amount, currency) VALUES ($1, $2, 100, $3)',
+          [transaction.rows[0].id, accountId, 'USD']
+        );
+
+        await expect(client.query('COMMIT')).rejects.toThrow(/does not balance/);
+      } finally {
+        client.release();
+      }
+
+      const balance = await asUser(user1Id).get(`/users/${user1Id}/balance`);
+      expect(balance.body.balance).toBe(0);
+    });
+
+    it('should reject postings in a currency other than the account\'s', async () => {
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 100 })
+        .expect(201);
+
+      const eurAccount = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Euros', currency: 'EUR' })
+        .expect(201);
+
+      const transaction = await pool.query('SELECT id FROM transactions LIMIT 1');
+
+      await expect(pool.query(
+        'INSERT INTO postings (transaction_id, account_id, amount, currency) VALUES ($1, $2, 100, $3)',
+        [transaction.rows[0].id, eurAccount.body.id, 'USD']
+      )).rejects.toThrow(/postings_account_fkey/);
+    });
+
+    it('should not let clients move money through system accounts', async () => {
+      const deposit = await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 100 })
+        .expect(201);
+
+      const [issuance] = (await getPostings(deposit.body.id)).filter(posting => posting.kind === 'system');
+
+      await asUser(user1Id)
+        .post(`/accounts/${issuance.account_id}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 1 })
+        .expect(403);
+
+      await asUser(user1Id)
+        .post(`/accounts/${issuance.account_id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 1 })
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { pool } from '../db';
+
+/**
+ * Runs a statement as the restricted maintenance role, the only role the
+ * ledger's immutability triggers let change or truncate transactions and
+ * postings. Tests use it to reset the database and to tamper with the
+ * ledger on purpose; everything else goes through the pool as the server
+ * does.
+ */
+export async function asMaintenance(text: string, values?: unknown[]) {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query('SET LOCAL ROLE thesaurum_maintenance');
+    const result = await client.query(text, values);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
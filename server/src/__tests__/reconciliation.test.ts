@@ -0,0 +1,191 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+import { createBalanceCheckpoints } from '../services/balanceCheckpoints';
+
+describe('Reconciliation', () => {
+  let aliceId: string;
+  let bobId: string;
+  let aliceUsdAccountId: string;
+  let bobUsdAccountId: string;
+  let aliceEurAccountId: string;
+  let depositId: string;
+
+  const reconcile = async () => {
+    const response = await asUser(aliceId).get('/admin/reconciliation').expect(200);
+    return response.body;
+  };
+
+  const deposit = async (userId: string, amount: number) => {
+    const response = await asUser(userId)
+      .post(`/users/${userId}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount })
+      .expect(201);
+    return response.body;
+  };
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users, exchange_rates RESTART IDENTITY CASCADE');
+
+    const users = await Promise.all([
+      createUser('alice@reconcile.example.com'),
+      createUser('bob@reconcile.example.com'),
+    ]);
+
+    aliceId = users[0].id;
+    bobId = users[1].id;
+    await grantRole(aliceId, 'admin');
+    await grantRole(bobId, 'issuer');
+
+    aliceUsdAccountId = (await asUser(aliceId).get(`/users/${aliceId}/accounts`)).body[0].id;
+    bobUsdAccountId = (await asUser(bobId).get(`/users/${bobId}/accounts`)).body[0].id;
+    aliceEurAccountId = (await asUser(aliceId)
+      .post(`/users/${aliceId}/accounts`)
+      .send({ name: 'Euros', currency: 'EUR' })
+      .expect(201)).body.id;
+
+    await asUser(aliceId)
+      .post('/exchange-rates')
+      .send({ base_currency: 'USD', quote_currency: 'EUR', rate: '0.9' })
+      .expect(201);
+
+    depositId = (await deposit(aliceId, 10000)).id;
+
+    const transfer = await asUser(aliceId)
+      .post('/transactions')
+      .send({ idempotency_key: randomUUID(), source_user_id: aliceId, destination_user_id: bobId, amount: 3000 })
+      .expect(201);
+
+    await asUser(bobId)
+      .post(`/transactions/${transfer.body.id}/reverse`)
+      .send({ idempotency_key: randomUUID(), amount: 1000 })
+      .expect(201);
+
+    await asUser(bobId)
+      .post(`/users/${bobId}/withdraw`)
+      .send({ idempotency_key: randomUUID(), amount: 500 })
+      .expect(201);
+
+    await asUser(aliceId)
+      .post('/conversions')
+      .send({ idempotency_key: randomUUID(), source_account_id: aliceUsdAccountId, destination_account_id: aliceEurAccountId, amount: 2000 })
+      .expect(201);
+  });
+
+  it('should pass every check on a consistent ledger', async () => {
+    await createBalanceCheckpoints({ minPostings: 1 });
+
+    const report = await reconcile();
+
+    expect(report).toEqual({
+      ok: true,
+      checked_at: expect.any(String),
+      checks: {
+        customer_balances: {
+          ok: true,
+          currencies: [
+            { currency: 'EUR', customer_balances: 1800, inflows: 1800, outflows: 0, difference: 0 },
+            { currency: 'USD', customer_balances: 7500, inflows: 10000, outflows: 2500, difference: 0 },
+          ],
+        },
+        negative_balances: { ok: true, accounts: [] },
+        checkpoints: { ok: true, checked: 3, mismatches: [] },
+        failed_transactions: { ok: true, orphaned: [] },
+      },
+    });
+  });
+
+  it('should pass on an empty ledger', async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+    aliceId = (await createUser('alice@reconcile.example.com')).id;
+    await grantRole(aliceId, 'admin');
+
+    const report = await reconcile();
+
+    expect(report.ok).toBe(true);
+    expect(report.checks.customer_balances.currencies).toEqual([]);
+  });
+
+  it('should report customer balances that drifted from the money in and out', async () => {
+    // Still a balanced entry, but it no longer matches the deposit's amount
+    await asMaintenance(`
+      UPDATE postings SET amount = amount + CASE WHEN amount > 0 THEN 1 ELSE -1 END
+      WHERE transaction_id = $1
+    `, [depositId]);
+
+    const report = await reconcile();
+
+    expect(report.ok).toBe(false);
+    expect(report.checks.customer_balances.ok).toBe(false);
+    expect(report.checks.customer_balances.currencies).toContainEqual(
+      { currency: 'USD', customer_balances: 7501, inflows: 10000, outflows: 2500, difference: 1 }
+    );
+    expect(report.checks.negative_balances.ok).toBe(true);
+  });
+
+  it('should report a balance that was negative at some point in history', async () => {
+    // Book Bob's deposit after the withdrawal it funded
+    const { id } = await deposit(bobId, 100);
+    await asUser(bobId)
+      .post(`/users/${bobId}/withdraw`)
+      .send({ idempotency_key: randomUUID(), amount: 1600 })
+      .expect(201);
+    await asMaintenance("UPDATE postings SET created_at = NOW() + INTERVAL '1 hour' WHERE transaction_id = $1", [id]);
+    await asMaintenance("UPDATE transactions SET created_at = NOW() + INTERVAL '1 hour' WHERE id = $1", [id]);
+
+    const report = await reconcile();
+
+    expect(report.ok).toBe(false);
+    expect(report.checks.customer_balances.ok).toBe(true);
+    expect(report.checks.negative_balances).toEqual({
+      ok: false,
+      accounts: [{
+        account_id: bobUsdAccountId,
+        user_id: bobId,
+        currency: 'USD',
+        at: expect.any(String),
+        balance: -100,
+      }],
+    });
+  });
+
+  it('should report checkpoints that do not match the ledger without deleting them', async () => {
+    await createBalanceCheckpoints({ minPostings: 1 });
+    await pool.query('UPDATE balance_checkpoints SET balance = balance - 5 WHERE account_id = $1', [aliceEurAccountId]);
+
+    const report = await reconcile();
+
+    expect(report.ok).toBe(false);
+    expect(report.checks.checkpoints).toEqual({
+      ok: false,
+      checked: 3,
+      mismatches: [expect.objectContaining({ account_id: aliceEurAccountId, balance: 1795, expected_balance: 1800 })],
+    });
+
+    const remaining = await pool.query('SELECT COUNT(*)::int AS count FROM balance_checkpoints');
+    expect(remaining.rows[0].count).toBe(3);
+  });
+
+  it('should report orphaned failed transaction rows', async () => {
+    const idempotencyKey = randomUUID();
+
+    await pool.query(`
+      INSERT INTO private.failed_transactions (idempotency_key, type, source_user_id, source_account_id, amount, currency, error_message)
+      VALUES ($1, 'transfer', $2, $3, 100, 'XXX', 'test')
+    `, [idempotencyKey, aliceId, bobUsdAccountId]);
+    await pool.query(`
+      INSERT INTO private.failed_transactions (idempotency_key, type, amount, error_message)
+      VALUES ($1, 'batch', 100, 'test')
+    `, [randomUUID()]);
+
+    const report = await reconcile();
+
+    expect(report.ok).toBe(false);
+    expect(report.checks.failed_transactions.orphaned).toEqual([{
+      id: expect.any(String),
+      idempotency_key: idempotencyKey,
+      reasons: ['source_account_id does not belong to source_user_id', 'currency is not supported'],
+    }]);
+  });
+});
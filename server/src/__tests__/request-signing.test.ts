@@ -0,0 +1,232 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asApiKey, asUser, createUser, grantRole } from './auth';
+import { canonicalRequest, signRequest, verifySignature } from '../services/requestSigning';
+import { createHash, randomUUID } from 'crypto';
+
+describe('Request signing', () => {
+  let aliceId: string;
+  let bobId: string;
+  let issuerId: string;
+  let aliceKey: { key: string; signing_secret: string; id: string };
+
+  const createKey = async (userId: string, body: object) => {
+    const response = await asUser(userId)
+      .post(`/users/${userId}/api-keys`)
+      .send({ name: 'Treasury service', scopes: ['balance:read', 'transactions:write'], ...body })
+      .expect(201);
+    return response.body;
+  };
+
+  // Sends the JSON body exactly as signed
+  const signedPost = (
+    apiKey: { key: string; signing_secret: string },
+    path: string,
+    body: object,
+    options: { timestamp?: number; nonce?: string; signedPath?: string; signedBody?: object } = {}
+  ) => {
+    const payload = JSON.stringify(body);
+    const headers = signRequest(
+      apiKey.signing_secret,
+      { method: 'POST', path: options.signedPath ?? path, body: JSON.stringify(options.signedBody ?? body) },
+      options
+    );
+
+    return asApiKey(apiKey.key).post(path).set('Content-Type', 'application/json').set(headers).send(payload);
+  };
+
+  const transfer = (amount: number) => ({
+    idempotency_key: randomUUID(),
+    source_user_id: aliceId,
+    destination_user_id: bobId,
+    amount,
+  });
+
+  const getBalance = async (userId: string) => {
+    const response = await asUser(userId).get(`/users/${userId}/balance`).expect(200);
+    return response.body.balance;
+  };
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    aliceId = (await createUser('alice@signing.example.com')).id;
+    bobId = (await createUser('bob@signing.example.com')).id;
+    issuerId = (await createUser('issuer@signing.example.com')).id;
+    await grantRole(issuerId, 'issuer');
+    await asUser(issuerId)
+      .post(`/users/${aliceId}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount: 10000 })
+      .expect(201);
+
+    aliceKey = await createKey(aliceId, { require_signature: true });
+  });
+
+  describe('Signing helper', () => {
+    it('should sign the method, path, timestamp, nonce and body digest', () => {
+      const request = { method: 'post', path: '/transactions', body: '{"amount":100}' };
+      const headers = signRequest('secret', request, { timestamp: 1700000000, nonce: 'nonce-0123456789ab' });
+
+      expect(canonicalRequest(request, '1700000000', 'nonce-0123456789ab')).toBe(
+        `POST\n/transactions\n1700000000\nnonce-0123456789ab\n${createHash('sha256').update('{"amount":100}').digest('hex')}`
+      );
+      expect(headers['X-Signature-Timestamp']).toBe('1700000000');
+      expect(headers['X-Signature-Nonce']).toBe('nonce-0123456789ab');
+
+      const signature = {
+        timestamp: headers['X-Signature-Timestamp'],
+        nonce: headers['X-Signature-Nonce'],
+        signature: headers['X-Signature'],
+      };
+      expect(verifySignature('secret', request, signature)).toBe(true);
+      expect(verifySignature('other secret', request, signature)).toBe(false);
+      expect(verifySignature('secret', { ...request, body: '{"amount":1000}' }, signature)).toBe(false);
+      expect(verifySignature('secret', request, { ...signature, nonce: 'nonce-ba9876543210' })).toBe(false);
+    });
+  });
+
+  describe('Keys that require signatures', () => {
+    it('should return the signing secret once, when the key is created', async () => {
+      expect(aliceKey.signing_secret).toMatch(/^[\w-]{43}$/);
+
+      const list = await asUser(aliceId).get(`/users/${aliceId}/api-keys`).expect(200);
+      expect(list.body[0].require_signature).toBe(true);
+      expect(list.body[0]).not.toHaveProperty('signing_secret');
+    });
+
+    it('should accept a signed transfer', async () => {
+      await signedPost(aliceKey, '/transactions', transfer(2500)).expect(201);
+
+      expect(await getBalance(aliceId)).toBe(7500);
+    });
+
+    it('should refuse an unsigned transfer and record it', async () => {
+      const response = await asApiKey(aliceKey.key).post('/transactions').send(transfer(2500)).expect(401);
+
+      expect(response.body.error).toBe('Request signature required.');
+      expect(await getBalance(aliceId)).toBe(10000);
+
+      const audit = await pool.query(
+        "SELECT resource_type, resource_id, details FROM audit_log WHERE actor_user_id = $1 AND action = 'api_keys.sign'",
+        [aliceId]
+      );
+      expect(audit.rows).toEqual([{
+        resource_type: 'api_key',
+        resource_id: aliceKey.id,
+        details: { reason: 'Request signature required.', method: 'POST', path: '/transactions' },
+      }]);
+    });
+
+    it('should refuse bad signatures', async () => {
+      const body = transfer(2500);
+
+      const tampered = await signedPost(aliceKey, '/transactions', { ...body, amount: 9999 }, { signedBody: body }).expect(401);
+      expect(tampered.body.error).toBe('Invalid request signature.');
+
+      await signedPost({ ...aliceKey, signing_secret: 'not the secret' }, '/transactions', body).expect(401);
+      await signedPost(aliceKey, '/transactions', body, { signedPath: `/users/${aliceId}/withdraw` }).expect(401);
+      await asApiKey(aliceKey.key)
+        .post('/transactions')
+        .set({ 'X-Signature-Timestamp': String(Math.floor(Date.now() / 1000)), 'X-Signature-Nonce': randomUUID(), 'X-Signature': 'zz' })
+        .send(body)
+        .expect(401);
+
+      expect(await getBalance(aliceId)).toBe(10000);
+    });
+
+    it('should refuse timestamps outside the clock-skew window', async () => {
+      const now = Math.floor(Date.now() / 1000);
+
+      const stale = await signedPost(aliceKey, '/transactions', transfer(2500), { timestamp: now - 600 }).expect(401);
+      expect(stale.body.error).toBe('Request timestamp outside the allowed window.');
+
+      await signedPost(aliceKey, '/transactions', transfer(2500), { timestamp: now + 600 }).expect(401);
+      await signedPost(aliceKey, '/transactions', transfer(2500), { timestamp: now - 60 }).expect(201);
+    });
+
+    it('should refuse a replayed request', async () => {
+      const body = transfer(2500);
+      const nonce = randomUUID();
+
+      await signedPost(aliceKey, '/transactions', body, { nonce }).expect(201);
+      const replay = await signedPost(aliceKey, '/transactions', body, { nonce }).expect(401);
+      expect(replay.body.error).toBe('Request nonce already used.');
+
+      // Nonces are per key
+      const otherKey = await createKey(aliceId, { require_signature: true });
+      await signedPost(otherKey, '/transactions', transfer(100), { nonce }).expect(201);
+
+      expect(await getBalance(aliceId)).toBe(7400);
+    });
+
+    it('should require signed deposits', async () => {
+      const issuerKey = await createKey(issuerId, { require_signature: true });
+      const accounts = await asUser(aliceId).get(`/users/${aliceId}/accounts`).expect(200);
+
+      await asApiKey(issuerKey.key)
+        .post(`/users/${aliceId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 500 })
+        .expect(401);
+      await signedPost(issuerKey, `/users/${aliceId}/deposit`, { idempotency_key: randomUUID(), amount: 500 }).expect(201);
+      await signedPost(issuerKey, `/accounts/${accounts.body[0].id}/deposit`, { idempotency_key: randomUUID(), amount: 500 }).expect(201);
+
+      expect(await getBalance(aliceId)).toBe(11000);
+    });
+
+    it('should require signatures on every endpoint that moves money', async () => {
+      const accounts = await asUser(aliceId).get(`/users/${aliceId}/accounts`).expect(200);
+      const accountId = accounts.body[0].id;
+      const id = randomUUID();
+      const unsigned: Array<[string, string]> = [
+        ['post', '/transactions/batch'],
+        ['post', '/transactions/split'],
+        ['post', `/transactions/${id}/reverse`],
+        ['post', `/users/${aliceId}/withdraw`],
+        ['post', `/accounts/${accountId}/withdraw`],
+        ['post', `/accounts/${accountId}/transfer`],
+        ['post', '/conversions'],
+        ['post', '/holds'],
+        ['post', `/holds/${id}/capture`],
+        ['post', `/holds/${id}/void`],
+        ['post', `/users/${aliceId}/scheduled-transfers`],
+        ['patch', `/users/${aliceId}/scheduled-transfers/${id}`],
+        ['delete', `/users/${aliceId}/scheduled-transfers/${id}`],
+      ];
+
+      for (const [method, path] of unsigned) {
+        const response = await asApiKey(aliceKey.key)[method as 'post'](path).send({ idempotency_key: randomUUID(), amount: 100 });
+        expect([method, path, response.status, response.body.error]).toEqual([method, path, 401, 'Request signature required.']);
+      }
+
+      await signedPost(aliceKey, `/users/${aliceId}/withdraw`, { idempotency_key: randomUUID(), amount: 1000 }).expect(201);
+      await signedPost(aliceKey, '/transactions/batch', {
+        idempotency_key: randomUUID(),
+        legs: [{ source_user_id: aliceId, destination_user_id: bobId, amount: 1000 }],
+      }).expect(201);
+      const hold = await signedPost(aliceKey, '/holds', { ...transfer(1000) }).expect(201);
+      await signedPost(aliceKey, `/holds/${hold.body.id}/capture`, { idempotency_key: randomUUID() }).expect(201);
+
+      const schedule = await signedPost(aliceKey, `/users/${aliceId}/scheduled-transfers`, {
+        idempotency_key: randomUUID(),
+        destination_user_id: bobId,
+        amount: 100,
+        start_at: new Date(Date.now() + 60000).toISOString(),
+      }).expect(201);
+      const path = `/users/${aliceId}/scheduled-transfers/${schedule.body.id}`;
+      await asApiKey(aliceKey.key).delete(path).set(signRequest(aliceKey.signing_secret, { method: 'DELETE', path })).expect(200);
+
+      expect(await getBalance(aliceId)).toBe(7000);
+    });
+
+    it('should not require signatures elsewhere, from other keys or with access tokens', async () => {
+      await asApiKey(aliceKey.key).get(`/users/${aliceId}/balance`).expect(200);
+
+      const unsignedKey = await createKey(aliceId, {});
+      await asApiKey(unsignedKey.key).post('/transactions').send(transfer(1000)).expect(201);
+
+      await asUser(aliceId).post('/transactions').send(transfer(1000)).expect(201);
+
+      expect(await getBalance(aliceId)).toBe(8000);
+    });
+  });
+});
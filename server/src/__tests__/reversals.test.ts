@@ -0,0 +1,390 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('Reversals API', () => {
+  let user1Id: string;
+  let user2Id: string;
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users, exchange_rates RESTART IDENTITY CASCADE');
+
+    user1Id = (await createUser('reversal1@example.com')).id;
+
+    user2Id = (await createUser('reversal2@example.com')).id;
+    await grantRole(user1Id, 'issuer');
+    await grantRole(user2Id, 'issuer');
+
+    await asUser(user1Id)
+      .post(`/users/${user1Id}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount: 10000 })
+      .expect(201);
+  });
+
+  const transfer = async (amount: number) => {
+    const response = await asUser(user1Id)
+      .post('/transactions')
+      .send({
+        idempotency_key: randomUUID(),
+        source_user_id: user1Id,
+        destination_user_id: user2Id,
+        amount,
+      })
+      .expect(201);
+    return response.body;
+  };
+
+  const getBalance = async (userId: string) => {
+    const response = await asUser(userId).get(`/users/${userId}/balance`).expect(200);
+    return response.body.balance;
+  };
+
+  describe('POST /transactions/:id/reverse', () => {
+    it('should fully reverse a transfer', async () => {
+      const original = await transfer(3000);
+      const idempotencyKey = randomUUID();
+
+      const response = await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: idempotencyKey })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        id: expect.any(String),
+        idempotency_key: idempotencyKey,
+        type: 'reversal',
+        reverses_transaction_id: original.id,
+        source_user_id: user2Id,
+        source_account_id: original.destination_account_id,
+        destination_user_id: user1Id,
+        destination_account_id: original.source_account_id,
+        amount: 3000,
+        currency: 'USD',
+      });
+
+      expect(await getBalance(user1Id)).toBe(10000);
+      expect(await getBalance(user2Id)).toBe(0);
+    });
+
+    it('should reverse a transfer in partial steps', async () => {
+      const original = await transfer(3000);
+
+      await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID(), amount: 1000 })
+        .expect(201);
+
+      expect(await getBalance(user1Id)).toBe(8000);
+      expect(await getBalance(user2Id)).toBe(2000);
+
+      // Without an amount, the remainder is reversed
+      const remainder = await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(201);
+
+      expect(remainder.body.amount).toBe(2000);
+      expect(await getBalance(user1Id)).toBe(10000);
+      expect(await getBalance(user2Id)).toBe(0);
+    });
+
+    it('should reject reversing more than the original amount', async () => {
+      const original = await transfer(3000);
+
+      const response = await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID(), amount: 3001 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Reversal exceeds original amount.');
+      expect(await getBalance(user2Id)).toBe(3000);
+    });
+
+    it('should reject reversing more than what remains after partial reversals', async () => {
+      const original = await transfer(3000);
+
+      await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID(), amount: 2000 })
+        .expect(201);
+
+      const response = await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID(), amount: 1500 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Reversal exceeds original amount.');
+    });
+
+    it('should reject reversing a fully reversed transaction', async () => {
+      const original = await transfer(3000);
+
+      await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(201);
+
+      const response = await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(400);
+
+      expect(response.body.error).toBe('Reversal exceeds original amount.');
+    });
+
+    it('should reject the reversal when the recipient no longer holds the funds', async () => {
+      const original = await transfer(3000);
+
+      await asUser(user2Id)
+        .post(`/users/${user2Id}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 2500 })
+        .expect(201);
+
+      const response = await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(400);
+
+      expect(response.body.error).toBe('Insufficient funds.');
+      expect(await getBalance(user1Id)).toBe(7000);
+      expect(await getBalance(user2Id)).toBe(500);
+    });
+
+    it('should return the original reversal on duplicate idempotency key', async () => {
+      const original = await transfer(3000);
+      const idempotencyKey = randomUUID();
+
+      const first = await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: idempotencyKey, amount: 1000 })
+        .expect(201);
+
+      const second = await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: idempotencyKey, amount: 1000 })
+        .expect(201);
+
+      expect(second.body.id).toBe(first.body.id);
+      expect(await getBalance(user2Id)).toBe(2000);
+    });
+
+    it('should reverse a deposit', async () => {
+      const operatorId = (await createUser('operator@reversals.example.com')).id;
+      await grantRole(operatorId, 'operator');
+      const deposit = await asUser(user2Id)
+        .post(`/users/${user2Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 4000 })
+        .expect(201);
+
+      const response = await asUser(operatorId)
+        .post(`/transactions/${deposit.body.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        source_user_id: user2Id,
+        destination_user_id: null,
+        destination_account_id: null,
+        amount: 4000,
+      });
+      expect(await getBalance(user2Id)).toBe(0);
+    });
+
+    it('should reverse a withdrawal', async () => {
+      const operatorId = (await createUser('operator@reversals.example.com')).id;
+      await grantRole(operatorId, 'operator');
+      const withdrawal = await asUser(user1Id)
+        .post(`/users/${user1Id}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 4000 })
+        .expect(201);
+
+      const response = await asUser(operatorId)
+        .post(`/transactions/${withdrawal.body.id}/reverse`)
+        .send({ idempotency_key: randomUUID(), amount: 1500 })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        source_user_id: null,
+        source_account_id: null,
+        destination_user_id: user1Id,
+        amount: 1500,
+      });
+      expect(await getBalance(user1Id)).toBe(7500);
+    });
+
+    it('should only let holders of transactions:reverse reverse deposits and withdrawals', async () => {
+      const strangerId = (await createUser('stranger@reversals.example.com')).id;
+      const withdrawal = await asUser(user1Id)
+        .post(`/users/${user1Id}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 10000 })
+        .expect(201);
+      const deposit = await asUser(user2Id)
+        .post(`/users/${user2Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 4000 })
+        .expect(201);
+
+      // Reversing a paid-out withdrawal would credit its source from nothing
+      await asUser(strangerId)
+        .post(`/transactions/${withdrawal.body.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(403);
+      await asUser(user1Id)
+        .post(`/transactions/${withdrawal.body.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(403);
+      await asUser(user2Id)
+        .post(`/transactions/${deposit.body.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(403);
+
+      expect(await getBalance(user1Id)).toBe(0);
+      expect(await getBalance(user2Id)).toBe(4000);
+    });
+
+    it('should post the mirror image of the original entry', async () => {
+      const original = await transfer(3000);
+
+      const reversal = await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID(), amount: 1200 })
+        .expect(201);
+
+      const result = await pool.query(
+        'SELECT account_id, amount::int AS amount FROM postings WHERE transaction_id = $1 ORDER BY amount',
+        [reversal.body.id]
+      );
+
+      expect(result.rows).toEqual([
+        { account_id: original.destination_account_id, amount: -1200 },
+        { account_id: original.source_account_id, amount: 1200 },
+      ]);
+    });
+
+    it('should reject reversing a reversal', async () => {
+      const original = await transfer(3000);
+
+      const reversal = await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(201);
+
+      const response = await asUser(user1Id)
+        .post(`/transactions/${reversal.body.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(400);
+
+      expect(response.body.error).toBe('Transaction cannot be reversed.');
+    });
+
+    it('should reject reversing a conversion leg', async () => {
+      const accounts = await asUser(user1Id).get(`/users/${user1Id}/accounts`);
+      const eurAccount = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Euros', currency: 'EUR' })
+        .expect(201);
+
+      await grantRole(user1Id, 'operator');
+      await asUser(user1Id)
+        .post('/exchange-rates')
+        .send({ base_currency: 'USD', quote_currency: 'EUR', rate: '0.9' })
+        .expect(201);
+
+      const conversion = await asUser(user1Id)
+        .post('/conversions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_account_id: accounts.body[0].id,
+          destination_account_id: eurAccount.body.id,
+          amount: 1000,
+        })
+        .expect(201);
+
+      const response = await asUser(user1Id)
+        .post(`/transactions/${conversion.body.source_transaction_id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(400);
+
+      expect(response.body.error).toBe('Transaction cannot be reversed.');
+    });
+
+    it('should only let the recipient reverse a transfer', async () => {
+      const original = await transfer(3000);
+
+      const response = await asUser(user1Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(403);
+
+      expect(response.body.error).toBe('Forbidden.');
+      expect(await getBalance(user2Id)).toBe(3000);
+    });
+
+    it('should return 404 for an unknown transaction', async () => {
+      const response = await asUser(user2Id)
+        .post(`/transactions/${randomUUID()}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(404);
+
+      expect(response.body.error).toBe('Transaction not found.');
+    });
+
+    it('should reject invalid input', async () => {
+      const original = await transfer(3000);
+
+      await asUser(user2Id)
+        .post('/transactions/invalid-id/reverse')
+        .send({ idempotency_key: randomUUID() })
+        .expect(400);
+
+      await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID(), amount: 0 })
+        .expect(400);
+
+      await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({})
+        .expect(400);
+    });
+
+    it('should never reverse more than the original under concurrent reversals', async () => {
+      const original = await transfer(3000);
+
+      const reversals = Array.from({ length: 5 }, () =>
+        asUser(user2Id)
+          .post(`/transactions/${original.id}/reverse`)
+          .send({ idempotency_key: randomUUID(), amount: 1000 })
+      );
+
+      const results = await Promise.all(reversals);
+      const successful = results.filter(r => r.status === 201);
+
+      // At most three reversals of 1000 fit (fewer if retries run out under contention)
+      expect(successful.length).toBeGreaterThan(0);
+      expect(successful.length).toBeLessThanOrEqual(3);
+      expect(await getBalance(user2Id)).toBe(3000 - successful.length * 1000);
+    });
+  });
+
+  describe('Reversals in history', () => {
+    it('should link reversals to the original in transaction history', async () => {
+      const original = await transfer(3000);
+
+      const reversal = await asUser(user2Id)
+        .post(`/transactions/${original.id}/reverse`)
+        .send({ idempotency_key: randomUUID(), amount: 1000 })
+        .expect(201);
+
+      const response = await asUser(user2Id)
+        .get(`/users/${user2Id}/transactions`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data).toEqual(expect.arrayContaining([
+        expect.objectContaining({ id: original.id, type: 'transfer', reverses_transaction_id: null }),
+        expect.objectContaining({ id: reversal.body.id, type: 'reversal', reverses_transaction_id: original.id }),
+      ]));
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('Roles', () => {
+  let adminId: string;
+  let aliceId: string;
+  let bobId: string;
+  let staffId: string;
+
+  const deposit = (callerId: string, userId: string, amount: number) => asUser(callerId)
+    .post(`/users/${userId}/deposit`)
+    .send({ idempotency_key: randomUUID(), amount });
+
+  const getBalance = async (userId: string) => {
+    const response = await asUser(userId).get(`/users/${userId}/balance`).expect(200);
+    return response.body.balance;
+  };
+
+  const auditEntries = async (actorUserId: string) => {
+    const result = await pool.query(
+      'SELECT action, resource_type, resource_id, outcome, details FROM audit_log WHERE actor_user_id = $1 ORDER BY created_at',
+      [actorUserId]
+    );
+    return result.rows;
+  };
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    adminId = (await createUser('admin@roles.example.com')).id;
+    aliceId = (await createUser('alice@roles.example.com')).id;
+    bobId = (await createUser('bob@roles.example.com')).id;
+    staffId = (await createUser('staff@roles.example.com')).id;
+    await grantRole(adminId, 'admin');
+  });
+
+  describe('Deposits', () => {
+    it('should refuse deposits from users without the issuer permission', async () => {
+      const response = await deposit(aliceId, aliceId, 10000).expect(403);
+
+      expect(response.body.error).toBe('Forbidden.');
+      expect(await getBalance(aliceId)).toBe(0);
+      expect(await auditEntries(aliceId)).toEqual([{
+        action: 'deposits:issue',
+        resource_type: 'endpoint',
+        resource_id: `POST /users/${aliceId}/deposit`,
+        outcome: 'denied',
+        details: {},
+      }]);
+
+      const accounts = await asUser(aliceId).get(`/users/${aliceId}/accounts`).expect(200);
+      await asUser(aliceId)
+        .post(`/accounts/${accounts.body[0].id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 10000 })
+        .expect(403);
+    });
+
+    it('should let an issuer deposit into any user\'s account', async () => {
+      await grantRole(staffId, 'issuer');
+
+      await deposit(staffId, aliceId, 10000).expect(201);
+
+      expect(await getBalance(aliceId)).toBe(10000);
+    });
+  });
+
+  describe('Operators and auditors', () => {
+    beforeEach(async () => {
+      await grantRole(staffId, 'issuer');
+      await deposit(staffId, aliceId, 10000).expect(201);
+    });
+
+    it('should let an operator deposit, reverse any transaction and read any account', async () => {
+      await grantRole(bobId, 'operator');
+
+      const transfer = await asUser(aliceId)
+        .post('/transactions')
+        .send({ idempotency_key: randomUUID(), source_user_id: aliceId, destination_user_id: staffId, amount: 4000 })
+        .expect(201);
+
+      await deposit(bobId, aliceId, 500).expect(201);
+      await asUser(bobId)
+        .post(`/transactions/${transfer.body.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(201);
+      const balance = await asUser(bobId).get(`/users/${aliceId}/balance`).expect(200);
+
+      expect(balance.body.balance).toBe(10500);
+    });
+
+    it('should let an operator reverse another user\'s withdrawal, but not an auditor', async () => {
+      await grantRole(bobId, 'operator');
+      await grantRole(staffId, 'auditor');
+      const withdrawal = await asUser(aliceId)
+        .post(`/users/${aliceId}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 3000 })
+        .expect(201);
+
+      await asUser(staffId)
+        .post(`/transactions/${withdrawal.body.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(403);
+      await asUser(bobId)
+        .post(`/transactions/${withdrawal.body.id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(201);
+
+      expect(await getBalance(aliceId)).toBe(10000);
+    });
+
+    it('should not let an operator debit another user', async () => {
+      await grantRole(bobId, 'operator');
+
+      await asUser(bobId)
+        .post('/transactions')
+        .send({ idempotency_key: randomUUID(), source_user_id: aliceId, destination_user_id: bobId, amount: 100 })
+        .expect(403);
+    });
+
+    it('should only let an auditor read', async () => {
+      await grantRole(bobId, 'auditor');
+
+      await asUser(bobId).get(`/users/${aliceId}/balance`).expect(200);
+      await asUser(bobId).get(`/users/${aliceId}/transactions`).expect(200);
+      await asUser(bobId).get('/admin/reconciliation').expect(200);
+      await asUser(bobId).get('/admin/ledger/verify').expect(200);
+
+      const history = await asUser(aliceId).get(`/users/${aliceId}/transactions`).expect(200);
+      await deposit(bobId, bobId, 100).expect(403);
+      await asUser(bobId)
+        .post(`/transactions/${history.body.data[0].id}/reverse`)
+        .send({ idempotency_key: randomUUID() })
+        .expect(403);
+      await asUser(bobId)
+        .post('/exchange-rates')
+        .send({ base_currency: 'USD', quote_currency: 'EUR', rate: '0.9' })
+        .expect(403);
+      await asUser(bobId)
+        .post('/admin/imports?mode=dry-run')
+        .set('Content-Type', 'text/csv')
+        .send('type,idempotency_key,amount\n')
+        .expect(403);
+
+      expect(await getBalance(aliceId)).toBe(10000);
+    });
+
+    it('should not let a plain user record exchange rates', async () => {
+      await asUser(aliceId)
+        .post('/exchange-rates')
+        .send({ base_currency: 'USD', quote_currency: 'EUR', rate: '0.9' })
+        .expect(403);
+    });
+  });
+
+  describe('Granting and revoking', () => {
+    it('should list the roles and what they grant', async () => {
+      const response = await asUser(adminId).get('/admin/roles').expect(200);
+
+      expect(response.body.map((role: any) => role.name)).toEqual(['admin', 'auditor', 'issuer', 'operator']);
+      expect(response.body.find((role: any) => role.name === 'auditor').permissions).toEqual(['accounts:read', 'ledger:audit']);
+    });
+
+    it('should grant and revoke a role and record both', async () => {
+      const grant = await asUser(adminId)
+        .post(`/admin/users/${bobId}/roles`)
+        .send({ role: 'auditor' })
+        .expect(201);
+
+      expect(grant.body).toEqual({ user_id: bobId, role: 'auditor', granted_by: adminId, created_at: expect.any(String) });
+      await asUser(bobId).get(`/users/${aliceId}/balance`).expect(200);
+
+      const roles = await asUser(adminId).get(`/admin/users/${bobId}/roles`).expect(200);
+      expect(roles.body.map((role: any) => role.role)).toEqual(['auditor']);
+
+      await asUser(adminId).delete(`/admin/users/${bobId}/roles/auditor`).expect(204);
+      await asUser(bobId).get(`/users/${aliceId}/balance`).expect(403);
+
+      expect((await auditEntries(adminId)).map(entry => [entry.action, entry.resource_id, entry.details])).toEqual([
+        ['roles.grant', bobId, { role: 'auditor' }],
+        ['roles.revoke', bobId, { role: 'auditor' }],
+      ]);
+    });
+
+    it('should return the existing grant when granting a role twice', async () => {
+      await asUser(adminId).post(`/admin/users/${bobId}/roles`).send({ role: 'issuer' }).expect(201);
+      await asUser(adminId).post(`/admin/users/${bobId}/roles`).send({ role: 'issuer' }).expect(201);
+
+      const roles = await asUser(adminId).get(`/admin/users/${bobId}/roles`).expect(200);
+
+      expect(roles.body).toHaveLength(1);
+    });
+
+    it('should reject unknown users and roles', async () => {
+      const unknownRole = await asUser(adminId).post(`/admin/users/${bobId}/roles`).send({ role: 'superuser' }).expect(404);
+      expect(unknownRole.body.error).toBe('Role not found.');
+
+      await asUser(adminId).post(`/admin/users/${randomUUID()}/roles`).send({ role: 'auditor' }).expect(404);
+      await asUser(adminId).get(`/admin/users/${randomUUID()}/roles`).expect(404);
+      await asUser(adminId).post(`/admin/users/${bobId}/roles`).send({}).expect(400);
+
+      const missing = await asUser(adminId).delete(`/admin/users/${bobId}/roles/auditor`).expect(404);
+      expect(missing.body.error).toBe('Role grant not found.');
+    });
+
+    it('should only let users with roles:manage grant roles', async () => {
+      await grantRole(bobId, 'operator');
+
+      await asUser(bobId).post(`/admin/users/${bobId}/roles`).send({ role: 'admin' }).expect(403);
+      await asUser(bobId).get('/admin/roles').expect(403);
+      await asUser(bobId).delete(`/admin/users/${adminId}/roles/admin`).expect(403);
+    });
+
+    it('should require an access token', async () => {
+      await asUser(adminId).get('/admin/roles').set('Authorization', '').expect(401);
+    });
+  });
+});
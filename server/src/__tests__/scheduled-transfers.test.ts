@@ -0,0 +1,500 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+import { runDueScheduledTransfers } from '../services/scheduledTransfers';
+import { getOccurrence, parseRecurrence } from '../services/recurrence';
+
+describe('Scheduled transfers', () => {
+  let user1Id: string;
+  let user2Id: string;
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    user1Id = (await createUser('scheduled1@example.com')).id;
+    await grantRole(user1Id, 'issuer');
+
+    user2Id = (await createUser('scheduled2@example.com')).id;
+
+    await asUser(user1Id)
+      .post(`/users/${user1Id}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount: 10000 })
+      .expect(201);
+  });
+
+  const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+  const schedule = async (body: object = {}) => {
+    const response = await asUser(user1Id)
+      .post(`/users/${user1Id}/scheduled-transfers`)
+      .send({
+        idempotency_key: randomUUID(),
+        destination_user_id: user2Id,
+        amount: 3000,
+        start_at: inOneHour(),
+        ...body,
+      })
+      .expect(201);
+    return response.body;
+  };
+
+  // Makes a schedule's pending occurrence due without waiting for it
+  const makeDue = async (scheduleId: string) => {
+    await pool.query(
+      "UPDATE scheduled_transfers SET next_run_at = NOW() - INTERVAL '1 second' WHERE id = $1",
+      [scheduleId]
+    );
+  };
+
+  const getSchedule = async (scheduleId: string) => {
+    const response = await asUser(user1Id)
+      .get(`/users/${user1Id}/scheduled-transfers/${scheduleId}`)
+      .expect(200);
+    return response.body;
+  };
+
+  const getBalance = async (userId: string) => {
+    const response = await asUser(userId).get(`/users/${userId}/balance`).expect(200);
+    return response.body.balance;
+  };
+
+  describe('Recurrence rules', () => {
+    const at = (iso: string) => new Date(iso);
+
+    it('should pay on the 1st of every month', () => {
+      const rule = parseRecurrence('FREQ=MONTHLY;BYMONTHDAY=1');
+      const start = at('2026-10-15T09:00:00Z');
+
+      expect(getOccurrence(rule, start, 0)).toEqual(at('2026-11-01T09:00:00Z'));
+      expect(getOccurrence(rule, start, 1)).toEqual(at('2026-12-01T09:00:00Z'));
+      expect(getOccurrence(rule, start, 2)).toEqual(at('2027-01-01T09:00:00Z'));
+    });
+
+    it('should clamp to short months without drifting', () => {
+      const rule = parseRecurrence('RRULE:FREQ=MONTHLY');
+      const start = at('2027-01-31T12:00:00Z');
+
+      expect(getOccurrence(rule, start, 1)).toEqual(at('2027-02-28T12:00:00Z'));
+      expect(getOccurrence(rule, start, 2)).toEqual(at('2027-03-31T12:00:00Z'));
+      expect(getOccurrence(parseRecurrence('FREQ=MONTHLY;BYMONTHDAY=-1'), start, 3)).toEqual(at('2027-04-30T12:00:00Z'));
+    });
+
+    it('should step daily, weekly and yearly by the interval', () => {
+      const start = at('2028-02-29T08:00:00Z');
+
+      expect(getOccurrence(parseRecurrence('FREQ=DAILY;INTERVAL=2'), start, 1)).toEqual(at('2028-03-02T08:00:00Z'));
+      expect(getOccurrence(parseRecurrence('FREQ=WEEKLY'), start, 2)).toEqual(at('2028-03-14T08:00:00Z'));
+      expect(getOccurrence(parseRecurrence('FREQ=YEARLY'), start, 1)).toEqual(at('2029-02-28T08:00:00Z'));
+      expect(getOccurrence(parseRecurrence('FREQ=YEARLY'), start, 4)).toEqual(at('2032-02-29T08:00:00Z'));
+    });
+
+    it('should stop after COUNT occurrences or after UNTIL', () => {
+      const start = at('2026-10-01T00:00:00Z');
+
+      const counted = parseRecurrence('FREQ=DAILY;COUNT=2');
+      expect(getOccurrence(counted, start, 1)).not.toBeNull();
+      expect(getOccurrence(counted, start, 2)).toBeNull();
+
+      const until = parseRecurrence('FREQ=WEEKLY;UNTIL=20261015');
+      expect(getOccurrence(until, start, 2)).toEqual(at('2026-10-15T00:00:00Z'));
+      expect(getOccurrence(until, start, 3)).toBeNull();
+    });
+
+    it('should reject unsupported or malformed rules', () => {
+      for (const rule of [
+        'FREQ=HOURLY',
+        'INTERVAL=2',
+        'FREQ=DAILY;INTERVAL=0',
+        'FREQ=WEEKLY;BYMONTHDAY=1',
+        'FREQ=MONTHLY;BYMONTHDAY=32',
+        'FREQ=DAILY;COUNT=3;UNTIL=20261231',
+        'FREQ=DAILY;UNTIL=20260230',
+        'FREQ=DAILY;BYDAY=MO',
+        'FREQ=DAILY;FREQ=WEEKLY',
+        'FREQ=DAILY;',
+      ]) {
+        expect(() => parseRecurrence(rule)).toThrow('Invalid recurrence rule.');
+      }
+    });
+  });
+
+  describe('POST /users/:id/scheduled-transfers', () => {
+    it('should create a recurring schedule', async () => {
+      const idempotencyKey = randomUUID();
+
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/scheduled-transfers`)
+        .send({
+          idempotency_key: idempotencyKey,
+          destination_user_id: user2Id,
+          amount: 120000,
+          start_at: '2030-10-15T09:00:00Z',
+          recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1',
+          failure_policy: 'retry',
+        })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        id: expect.any(String),
+        idempotency_key: idempotencyKey,
+        source_user_id: user1Id,
+        destination_user_id: user2Id,
+        amount: 120000,
+        currency: 'USD',
+        recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1',
+        status: 'active',
+        occurrence_index: 0,
+        failure_policy: 'retry',
+        max_retries: 3,
+        retry_delay_seconds: 3600,
+        retry_count: 0,
+        last_run_at: null,
+        last_transaction_id: null,
+      });
+      expect(new Date(response.body.next_run_at)).toEqual(new Date('2030-11-01T09:00:00Z'));
+    });
+
+    it('should run a one-off schedule at its start', async () => {
+      const startAt = inOneHour();
+      const created = await schedule({ start_at: startAt });
+
+      expect(created.recurrence).toBeNull();
+      expect(created.failure_policy).toBe('pause');
+      expect(new Date(created.next_run_at)).toEqual(new Date(startAt));
+    });
+
+    it('should return the original schedule on duplicate idempotency key', async () => {
+      const body = {
+        idempotency_key: randomUUID(),
+        destination_user_id: user2Id,
+        amount: 3000,
+        start_at: inOneHour(),
+      };
+
+      const first = await asUser(user1Id).post(`/users/${user1Id}/scheduled-transfers`).send(body).expect(201);
+      const second = await asUser(user1Id).post(`/users/${user1Id}/scheduled-transfers`).send(body).expect(201);
+
+      expect(second.body.id).toBe(first.body.id);
+    });
+
+    it('should reject invalid schedules', async () => {
+      const send = (body: object) => asUser(user1Id)
+        .post(`/users/${user1Id}/scheduled-transfers`)
+        .send({ idempotency_key: randomUUID(), destination_user_id: user2Id, amount: 3000, start_at: inOneHour(), ...body });
+
+      expect((await send({ recurrence: 'FREQ=HOURLY' })).status).toBe(400);
+      expect((await send({ destination_user_id: user1Id })).status).toBe(400);
+      expect((await send({ start_at: 'tomorrow' })).status).toBe(400);
+      expect((await send({ failure_policy: 'ignore' })).status).toBe(400);
+      expect((await send({ amount: 0 })).status).toBe(400);
+    });
+
+    it('should reject a recurrence that ends before its first occurrence', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/scheduled-transfers`)
+        .send({
+          idempotency_key: randomUUID(),
+          destination_user_id: user2Id,
+          amount: 3000,
+          start_at: '2030-10-15T09:00:00Z',
+          recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1;UNTIL=20301020',
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Recurrence has no occurrences.');
+    });
+
+    it('should return 404 for an unknown destination user', async () => {
+      const response = await asUser(user1Id)
+        .post(`/users/${user1Id}/scheduled-transfers`)
+        .send({ idempotency_key: randomUUID(), destination_user_id: randomUUID(), amount: 3000, start_at: inOneHour() })
+        .expect(404);
+
+      expect(response.body.error).toBe('User not found');
+    });
+  });
+
+  describe('Reading and managing schedules', () => {
+    it('should list a user\'s schedules', async () => {
+      const first = await schedule();
+      const second = await schedule({ recurrence: 'FREQ=WEEKLY' });
+
+      const response = await asUser(user1Id)
+        .get(`/users/${user1Id}/scheduled-transfers`)
+        .expect(200);
+
+      expect(response.body.map((s: any) => s.id)).toEqual([first.id, second.id]);
+
+      const other = await asUser(user2Id)
+        .get(`/users/${user2Id}/scheduled-transfers`)
+        .expect(200);
+
+      expect(other.body).toEqual([]);
+    });
+
+    it('should not expose another user\'s schedule', async () => {
+      const created = await schedule();
+
+      await asUser(user2Id)
+        .get(`/users/${user2Id}/scheduled-transfers/${created.id}`)
+        .expect(404);
+    });
+
+    it('should pause, resume and change a schedule', async () => {
+      const created = await schedule({ recurrence: 'FREQ=WEEKLY' });
+
+      const paused = await asUser(user1Id)
+        .patch(`/users/${user1Id}/scheduled-transfers/${created.id}`)
+        .send({ status: 'paused' })
+        .expect(200);
+
+      expect(paused.body.status).toBe('paused');
+
+      const resumed = await asUser(user1Id)
+        .patch(`/users/${user1Id}/scheduled-transfers/${created.id}`)
+        .send({ status: 'active', amount: 3500 })
+        .expect(200);
+
+      expect(resumed.body).toMatchObject({ status: 'active', amount: 3500 });
+    });
+
+    it('should reject an empty update', async () => {
+      const created = await schedule();
+
+      await asUser(user1Id)
+        .patch(`/users/${user1Id}/scheduled-transfers/${created.id}`)
+        .send({})
+        .expect(400);
+    });
+
+    it('should cancel a schedule', async () => {
+      const created = await schedule({ recurrence: 'FREQ=WEEKLY' });
+
+      const cancelled = await asUser(user1Id)
+        .delete(`/users/${user1Id}/scheduled-transfers/${created.id}`)
+        .expect(200);
+
+      expect(cancelled.body).toMatchObject({ status: 'cancelled', next_run_at: null });
+
+      // Cancelling again returns the cancelled schedule
+      await asUser(user1Id)
+        .delete(`/users/${user1Id}/scheduled-transfers/${created.id}`)
+        .expect(200);
+
+      const response = await asUser(user1Id)
+        .patch(`/users/${user1Id}/scheduled-transfers/${created.id}`)
+        .send({ status: 'active' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Scheduled transfer is closed.');
+    });
+
+    it('should return 404 for an unknown schedule', async () => {
+      await asUser(user1Id)
+        .patch(`/users/${user1Id}/scheduled-transfers/${randomUUID()}`)
+        .send({ status: 'paused' })
+        .expect(404);
+
+      await asUser(user1Id)
+        .delete(`/users/${user1Id}/scheduled-transfers/${randomUUID()}`)
+        .expect(404);
+    });
+  });
+
+  describe('Worker', () => {
+    it('should not run schedules before they are due', async () => {
+      await schedule();
+
+      expect(await runDueScheduledTransfers()).toBe(0);
+      expect(await getBalance(user2Id)).toBe(0);
+    });
+
+    it('should run a due one-off transfer and complete the schedule', async () => {
+      const created = await schedule();
+      await makeDue(created.id);
+
+      expect(await runDueScheduledTransfers()).toBe(1);
+
+      expect(await getBalance(user1Id)).toBe(7000);
+      expect(await getBalance(user2Id)).toBe(3000);
+
+      const ran = await getSchedule(created.id);
+      expect(ran).toMatchObject({
+        status: 'completed',
+        next_run_at: null,
+        occurrence_index: 1,
+        last_run_at: expect.any(String),
+        last_transaction_id: expect.any(String),
+        last_error: null,
+      });
+
+      // Nothing left to run
+      expect(await runDueScheduledTransfers()).toBe(0);
+    });
+
+    it('should advance a recurring schedule to its next occurrence', async () => {
+      const startAt = new Date(Date.now() - 60 * 1000);
+      const created = await schedule({ start_at: startAt.toISOString(), recurrence: 'FREQ=DAILY' });
+
+      expect(await runDueScheduledTransfers()).toBe(1);
+
+      const ran = await getSchedule(created.id);
+      expect(ran).toMatchObject({ status: 'active', occurrence_index: 1 });
+      expect(new Date(ran.next_run_at)).toEqual(new Date(startAt.getTime() + 24 * 60 * 60 * 1000));
+      expect(await getBalance(user2Id)).toBe(3000);
+    });
+
+    it('should never pay an occurrence twice', async () => {
+      const created = await schedule();
+      await makeDue(created.id);
+      await runDueScheduledTransfers();
+
+      // Replay the occurrence, as if the worker died before advancing the schedule
+      await pool.query(
+        "UPDATE scheduled_transfers SET status = 'active', occurrence_index = 0, next_run_at = NOW() - INTERVAL '1 second' WHERE id = $1",
+        [created.id]
+      );
+
+      expect(await runDueScheduledTransfers()).toBe(1);
+
+      const transfers = await pool.query("SELECT id FROM transactions WHERE type = 'transfer'");
+      expect(transfers.rows).toHaveLength(1);
+      expect(await getBalance(user2Id)).toBe(3000);
+    });
+
+    it('should pause the schedule and log the failure under the pause policy', async () => {
+      const created = await schedule({ amount: 20000 });
+      await makeDue(created.id);
+
+      expect(await runDueScheduledTransfers()).toBe(1);
+
+      const failed = await getSchedule(created.id);
+      expect(failed).toMatchObject({
+        status: 'paused',
+        occurrence_index: 0,
+        last_error: 'Insufficient funds.',
+        last_transaction_id: null,
+      });
+
+      const logged = await pool.query(
+        'SELECT error_message, amount FROM private.failed_transactions WHERE scheduled_transfer_id = $1',
+        [created.id]
+      );
+      expect(logged.rows).toEqual([{ error_message: 'Insufficient funds.', amount: 20000 }]);
+
+      // Paused schedules are skipped
+      await makeDue(created.id);
+      expect(await runDueScheduledTransfers()).toBe(0);
+    });
+
+    it('should cancel a delegate\'s schedule once the delegation is removed', async () => {
+      const delegateId = (await createUser('scheduled3@example.com')).id;
+      const accounts = await asUser(user1Id).get(`/users/${user1Id}/accounts`).expect(200);
+      const accountId = accounts.body[0].id;
+      await asUser(user1Id).post(`/accounts/${accountId}/delegations`).send({ user_id: delegateId }).expect(201);
+
+      const created = (await asUser(delegateId)
+        .post(`/users/${user1Id}/scheduled-transfers`)
+        .send({ idempotency_key: randomUUID(), destination_user_id: user2Id, amount: 3000, start_at: inOneHour(), recurrence: 'FREQ=DAILY' })
+        .expect(201)).body;
+      expect(created.created_by_user_id).toBe(delegateId);
+
+      await makeDue(created.id);
+      expect(await runDueScheduledTransfers()).toBe(1);
+      expect(await getBalance(user2Id)).toBe(3000);
+
+      await asUser(user1Id).delete(`/accounts/${accountId}/delegations/${delegateId}`).expect(204);
+      await makeDue(created.id);
+      expect(await runDueScheduledTransfers()).toBe(1);
+
+      expect(await getSchedule(created.id)).toMatchObject({
+        status: 'cancelled',
+        next_run_at: null,
+        occurrence_index: 1,
+        last_error: 'Schedule creator may no longer debit the source user.',
+      });
+      expect(await getBalance(user1Id)).toBe(7000);
+      expect(await getBalance(user2Id)).toBe(3000);
+
+      const logged = await pool.query(
+        'SELECT error_message FROM private.failed_transactions WHERE scheduled_transfer_id = $1',
+        [created.id]
+      );
+      expect(logged.rows).toEqual([{ error_message: 'Schedule creator may no longer debit the source user.' }]);
+    });
+
+    it('should retry a failed occurrence under the retry policy, then pause', async () => {
+      const created = await schedule({ amount: 20000, failure_policy: 'retry', max_retries: 1, retry_delay_seconds: 600 });
+      await makeDue(created.id);
+
+      await runDueScheduledTransfers();
+
+      const retrying = await getSchedule(created.id);
+      expect(retrying).toMatchObject({ status: 'active', retry_count: 1, last_error: 'Insufficient funds.' });
+      expect(new Date(retrying.next_run_at).getTime()).toBeGreaterThan(Date.now() + 500 * 1000);
+
+      await makeDue(created.id);
+      await runDueScheduledTransfers();
+
+      const paused = await getSchedule(created.id);
+      expect(paused).toMatchObject({ status: 'paused', retry_count: 1 });
+
+      const logged = await pool.query(
+        'SELECT id FROM private.failed_transactions WHERE scheduled_transfer_id = $1',
+        [created.id]
+      );
+      expect(logged.rows).toHaveLength(2);
+    });
+
+    it('should succeed on retry once funds arrive', async () => {
+      const created = await schedule({ amount: 12000, failure_policy: 'retry' });
+      await makeDue(created.id);
+      await runDueScheduledTransfers();
+
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 5000 })
+        .expect(201);
+
+      await makeDue(created.id);
+      await runDueScheduledTransfers();
+
+      const ran = await getSchedule(created.id);
+      expect(ran).toMatchObject({ status: 'completed', retry_count: 0, last_error: null });
+      expect(await getBalance(user2Id)).toBe(12000);
+    });
+
+    it('should run a resumed schedule\'s pending occurrence', async () => {
+      const created = await schedule({ amount: 20000 });
+      await makeDue(created.id);
+      await runDueScheduledTransfers();
+
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 10000 })
+        .expect(201);
+
+      await asUser(user1Id)
+        .patch(`/users/${user1Id}/scheduled-transfers/${created.id}`)
+        .send({ status: 'active' })
+        .expect(200);
+
+      expect(await runDueScheduledTransfers()).toBe(1);
+      expect(await getBalance(user2Id)).toBe(20000);
+    });
+
+    it('should run each due occurrence exactly once across concurrent workers', async () => {
+      const schedules = await Promise.all(Array.from({ length: 4 }, () => schedule({ amount: 1000 })));
+      await Promise.all(schedules.map(s => makeDue(s.id)));
+
+      const processed = await Promise.all([runDueScheduledTransfers(), runDueScheduledTransfers()]);
+
+      expect(processed[0] + processed[1]).toBe(4);
+      expect(await getBalance(user2Id)).toBe(4000);
+
+      const transfers = await pool.query("SELECT id FROM transactions WHERE type = 'transfer'");
+      expect(transfers.rows).toHaveLength(4);
+    });
+  });
+});
@@ -1,21 +1,17 @@
 import request from 'supertest';
 import { app } from './app';
-import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
 import { randomUUID } from 'crypto';
 
 describe('Schema Validation Tests', () => {
   let userId: string;
 
   beforeEach(async () => {
-    await pool.query('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
 
-    const userResponse = await request(app)
-      .post('/users')
-      .send({
-        email: 'schema@example.com',
-        password: 'password123',
-      });
-    userId = userResponse.body.id;
+    userId = (await createUser('schema@example.com')).id;
+    await grantRole(userId, 'issuer');
   });
 
   describe('User Creation Schema Validation', () => {
@@ -90,15 +86,9 @@ describe('Schema Validation Tests', () => {
     let user2Id: string;
 
     beforeEach(async () => {
-      const user2Response = await request(app)
-        .post('/users')
-        .send({
-          email: 'user2@example.com',
-          password: 'password123',
-        });
-      user2Id = user2Response.body.id;
+      user2Id = (await createUser('user2@example.com')).id;
 
-      await request(app).post(`/users/${userId}/deposit`).send({
+      await asUser(userId).post(`/users/${userId}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: 100000,
       });
@@ -121,7 +111,7 @@ describe('Schema Validation Tests', () => {
         };
         delete body[fieldToOmit];
 
-        const response = await request(app)
+        const response = await asUser(userId)
           .post('/transactions')
           .send(body)
           .expect(400);
@@ -140,7 +130,7 @@ describe('Schema Validation Tests', () => {
       ];
 
       for (const invalidUUID of invalidUUIDs) {
-        const response = await request(app)
+        const response = await asUser(userId)
           .post('/transactions')
           .send({
             idempotency_key: invalidUUID,
@@ -155,7 +145,7 @@ describe('Schema Validation Tests', () => {
     });
 
     it('should validate source_user_id is UUID format', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -169,7 +159,7 @@ describe('Schema Validation Tests', () => {
     });
 
     it('should validate destination_user_id is UUID format', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -186,7 +176,7 @@ describe('Schema Validation Tests', () => {
       const invalidAmounts = [0, -1, -100, 1.5, 100.99, NaN, Infinity];
 
       for (const amount of invalidAmounts) {
-        const response = await request(app)
+        const response = await asUser(userId)
           .post('/transactions')
           .send({
             idempotency_key: randomUUID(),
@@ -201,7 +191,7 @@ describe('Schema Validation Tests', () => {
     });
 
     it('should validate source and destination are different (refinement)', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -237,7 +227,7 @@ describe('Schema Validation Tests', () => {
       ];
 
       for (const body of invalidBodies) {
-        const response = await request(app)
+        const response = await asUser(userId)
           .post('/transactions')
           .send(body)
           .expect(400);
@@ -249,7 +239,7 @@ describe('Schema Validation Tests', () => {
 
   describe('Deposit Schema Validation', () => {
     it('should validate all required fields are present', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           // Missing both fields
@@ -260,7 +250,7 @@ describe('Schema Validation Tests', () => {
     });
 
     it('should validate idempotency_key format', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: 'invalid',
@@ -275,7 +265,7 @@ describe('Schema Validation Tests', () => {
       const invalidAmounts = [0, -1, -1000];
 
       for (const amount of invalidAmounts) {
-        const response = await request(app)
+        const response = await asUser(userId)
           .post(`/users/${userId}/deposit`)
           .send({
             idempotency_key: randomUUID(),
@@ -288,7 +278,7 @@ describe('Schema Validation Tests', () => {
     });
 
     it('should validate amount is integer', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -303,7 +293,7 @@ describe('Schema Validation Tests', () => {
       const invalidTypes = ['1000', true, {}, [], null];
 
       for (const amount of invalidTypes) {
-        const response = await request(app)
+        const response = await asUser(userId)
           .post(`/users/${userId}/deposit`)
           .send({
             idempotency_key: randomUUID(),
@@ -327,7 +317,7 @@ describe('Schema Validation Tests', () => {
       ];
 
       for (const date of invalidDates) {
-        const response = await request(app)
+        const response = await asUser(userId)
           .get(`/users/${userId}/balance?date=${date}`)
           .expect(400);
 
@@ -343,7 +333,7 @@ describe('Schema Validation Tests', () => {
       ];
 
       for (const date of validDates) {
-        const response = await request(app)
+        const response = await asUser(userId)
           .get(`/users/${userId}/balance?date=${date}`)
           .expect(200);
 
@@ -352,7 +342,7 @@ describe('Schema Validation Tests', () => {
     });
 
     it('should validate user ID in path parameter', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get('/users/not-a-uuid/balance')
         .expect(400);
 
@@ -362,7 +352,7 @@ describe('Schema Validation Tests', () => {
 
   describe('Transaction History Query Validation', () => {
     it('should validate user ID in path parameter', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get('/users/not-a-uuid/transactions')
         .expect(400);
 
@@ -370,11 +360,11 @@ describe('Schema Validation Tests', () => {
     });
 
     it('should accept valid UUID in path parameter', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get(`/users/${userId}/transactions`)
         .expect(200);
 
-      expect(Array.isArray(response.body)).toBe(true);
+      expect(Array.isArray(response.body.data)).toBe(true);
     });
   });
 
@@ -426,7 +416,7 @@ describe('Schema Validation Tests', () => {
 
   describe('Field Coercion and Type Safety', () => {
     it('should not coerce string numbers to numbers', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -472,7 +462,7 @@ describe('Schema Validation Tests', () => {
     });
 
     it('should sanitize UUID inputs through validation', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get("/users/'; DROP TABLE users;--/balance")
         .expect(400);
 
@@ -505,12 +495,12 @@ describe('Schema Validation Tests', () => {
           password: 'password123',
         });
 
-      await request(app).post(`/users/${userId}/deposit`).send({
+      await asUser(userId).post(`/users/${userId}/deposit`).send({
         idempotency_key: randomUUID(),
         amount: 10000,
       });
 
-      const response = await request(app)
+      const response = await asUser(userId)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -529,7 +519,7 @@ describe('Schema Validation Tests', () => {
     });
 
     it('should return consistent balance schema', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .get(`/users/${userId}/balance`)
         .expect(200);
 
@@ -540,7 +530,7 @@ describe('Schema Validation Tests', () => {
     });
 
     it('should return consistent deposit schema', async () => {
-      const response = await request(app)
+      const response = await asUser(userId)
         .post(`/users/${userId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
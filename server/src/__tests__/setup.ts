@@ -1,4 +1,10 @@
 import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+
+// Access tokens need a signing secret; a low scrypt cost keeps the many
+// sign-ups and logins of the suite fast
+process.env.AUTH_TOKEN_SECRET ??= 'test-auth-token-secret';
+process.env.PASSWORD_HASH_COST ??= '4';
 
 beforeAll(async () => {
   // Only suppress console output if not running stress tests
@@ -7,10 +13,11 @@ beforeAll(async () => {
     jest.spyOn(console, 'error').mockImplementation(() => {});
   }
 
-  // Clear test data before running tests
+  // Clear test data before running tests, as the maintenance role: the
+  // ledger rejects TRUNCATE from any other
   // Delete in order to respect foreign key constraints
-  await pool.query('TRUNCATE TABLE transactions CASCADE');
-  await pool.query('TRUNCATE TABLE users CASCADE');
+  await asMaintenance('TRUNCATE TABLE transactions CASCADE');
+  await asMaintenance('TRUNCATE TABLE users CASCADE');
 });
 
 afterAll(async () => {
@@ -0,0 +1,277 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('Split Payments API', () => {
+  let buyerId: string;
+  let sellerId: string;
+  let platformId: string;
+  let courierId: string;
+
+  const getBalance = async (userId: string) => {
+    const response = await asUser(userId).get(`/users/${userId}/balance`).expect(200);
+    return response.body.balance;
+  };
+
+  // Lets a user debit another user's default account
+  const delegate = async (ownerId: string, delegateId: string) => {
+    const accounts = await asUser(ownerId).get(`/users/${ownerId}/accounts`).expect(200);
+
+    await asUser(ownerId)
+      .post(`/accounts/${accounts.body[0].id}/delegations`)
+      .send({ user_id: delegateId })
+      .expect(201);
+  };
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    buyerId = (await createUser('buyer@example.com')).id;
+    sellerId = (await createUser('seller@example.com')).id;
+    platformId = (await createUser('platform@example.com')).id;
+    courierId = (await createUser('courier@example.com')).id;
+    await grantRole(buyerId, 'issuer');
+    await grantRole(courierId, 'issuer');
+
+    await asUser(buyerId)
+      .post(`/users/${buyerId}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount: 10000 })
+      .expect(201);
+  });
+
+  const orderPayment = (idempotencyKey = randomUUID()) => ({
+    idempotency_key: idempotencyKey,
+    debits: [{ user_id: buyerId, amount: 10000 }],
+    credits: [
+      { user_id: sellerId, amount: 8500 },
+      { user_id: platformId, amount: 1000 },
+      { user_id: courierId, amount: 500 },
+    ],
+  });
+
+  describe('POST /transactions/split', () => {
+    it('should split a payment between several recipients', async () => {
+      const idempotencyKey = randomUUID();
+
+      const response = await asUser(buyerId)
+        .post('/transactions/split')
+        .send(orderPayment(idempotencyKey))
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        id: expect.any(String),
+        idempotency_key: idempotencyKey,
+        type: 'split',
+        amount: 10000,
+        currency: 'USD',
+        source_user_id: null,
+        destination_user_id: null,
+      });
+      expect(response.body.legs).toEqual([
+        { user_id: buyerId, account_id: expect.any(String), direction: 'debit', amount: 10000 },
+        { user_id: sellerId, account_id: expect.any(String), direction: 'credit', amount: 8500 },
+        { user_id: platformId, account_id: expect.any(String), direction: 'credit', amount: 1000 },
+        { user_id: courierId, account_id: expect.any(String), direction: 'credit', amount: 500 },
+      ]);
+
+      expect(await getBalance(buyerId)).toBe(0);
+      expect(await getBalance(sellerId)).toBe(8500);
+      expect(await getBalance(platformId)).toBe(1000);
+      expect(await getBalance(courierId)).toBe(500);
+    });
+
+    it('should debit several payers', async () => {
+      await asUser(courierId)
+        .post(`/users/${courierId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 3000 })
+        .expect(201);
+      await delegate(courierId, buyerId);
+
+      const response = await asUser(buyerId)
+        .post('/transactions/split')
+        .send({
+          idempotency_key: randomUUID(),
+          debits: [
+            { user_id: buyerId, amount: 4000 },
+            { user_id: courierId, amount: 2000 },
+          ],
+          credits: [
+            { user_id: sellerId, amount: 5000 },
+            { user_id: platformId, amount: 1000 },
+          ],
+        })
+        .expect(201);
+
+      expect(response.body.amount).toBe(6000);
+      expect(await getBalance(buyerId)).toBe(6000);
+      expect(await getBalance(courierId)).toBe(1000);
+      expect(await getBalance(sellerId)).toBe(5000);
+      expect(await getBalance(platformId)).toBe(1000);
+    });
+
+    it('should record one journal entry with one posting per leg', async () => {
+      const response = await asUser(buyerId)
+        .post('/transactions/split')
+        .send(orderPayment())
+        .expect(201);
+
+      const postings = await pool.query('SELECT amount FROM postings WHERE transaction_id = $1', [response.body.id]);
+      expect(postings.rows.map(row => Number(row.amount)).sort((a, b) => a - b)).toEqual([-10000, 500, 1000, 8500]);
+    });
+
+    it('should apply nothing when a payer cannot cover their leg', async () => {
+      await delegate(courierId, buyerId);
+
+      const response = await asUser(buyerId)
+        .post('/transactions/split')
+        .send({
+          idempotency_key: randomUUID(),
+          debits: [
+            { user_id: buyerId, amount: 5000 },
+            { user_id: courierId, amount: 1000 },
+          ],
+          credits: [{ user_id: sellerId, amount: 6000 }],
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Insufficient funds.');
+      expect(await getBalance(buyerId)).toBe(10000);
+      expect(await getBalance(sellerId)).toBe(0);
+    });
+
+    it('should refuse to debit a payer the caller may not debit', async () => {
+      await asUser(courierId)
+        .post(`/users/${courierId}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 3000 })
+        .expect(201);
+
+      const response = await asUser(buyerId)
+        .post('/transactions/split')
+        .send({
+          idempotency_key: randomUUID(),
+          debits: [
+            { user_id: buyerId, amount: 4000 },
+            { user_id: courierId, amount: 2000 },
+          ],
+          credits: [{ user_id: sellerId, amount: 6000 }],
+        })
+        .expect(403);
+
+      expect(response.body.error).toBe('Forbidden.');
+      expect(await getBalance(courierId)).toBe(3000);
+      expect(await getBalance(sellerId)).toBe(0);
+    });
+
+    it('should return the original payment for a repeated idempotency key', async () => {
+      const body = orderPayment();
+
+      const first = await asUser(buyerId).post('/transactions/split').send(body).expect(201);
+      const second = await asUser(buyerId).post('/transactions/split').send(body).expect(201);
+
+      expect(second.body).toEqual(first.body);
+      expect(await getBalance(sellerId)).toBe(8500);
+    });
+
+    it('should not let concurrent payments overdraw a payer', async () => {
+      const responses = await Promise.all([
+        asUser(buyerId).post('/transactions/split').send(orderPayment()),
+        asUser(buyerId).post('/transactions/split').send(orderPayment()),
+      ]);
+
+      expect(responses.filter(r => r.status === 201)).toHaveLength(1);
+      expect(await getBalance(buyerId)).toBe(0);
+      expect(await getBalance(sellerId)).toBe(8500);
+    });
+
+    it('should reject debits and credits that do not balance', async () => {
+      const response = await asUser(buyerId)
+        .post('/transactions/split')
+        .send({
+          idempotency_key: randomUUID(),
+          debits: [{ user_id: buyerId, amount: 10000 }],
+          credits: [
+            { user_id: sellerId, amount: 8500 },
+            { user_id: platformId, amount: 1000 },
+          ],
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+      expect(await getBalance(buyerId)).toBe(10000);
+    });
+
+    it('should reject a user appearing in more than one leg', async () => {
+      const response = await asUser(buyerId)
+        .post('/transactions/split')
+        .send({
+          idempotency_key: randomUUID(),
+          debits: [{ user_id: buyerId, amount: 1000 }],
+          credits: [
+            { user_id: buyerId, amount: 500 },
+            { user_id: sellerId, amount: 500 },
+          ],
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should reject a payment without credits', async () => {
+      await asUser(buyerId)
+        .post('/transactions/split')
+        .send({
+          idempotency_key: randomUUID(),
+          debits: [{ user_id: buyerId, amount: 1000 }],
+          credits: [],
+        })
+        .expect(400);
+    });
+
+    it('should return 404 for an unknown recipient', async () => {
+      const response = await asUser(buyerId)
+        .post('/transactions/split')
+        .send({
+          idempotency_key: randomUUID(),
+          debits: [{ user_id: buyerId, amount: 1000 }],
+          credits: [{ user_id: randomUUID(), amount: 1000 }],
+        })
+        .expect(404);
+
+      expect(response.body.error).toBe('User not found');
+      expect(await getBalance(buyerId)).toBe(10000);
+    });
+
+    it('should keep the ledger balanced', async () => {
+      await asUser(buyerId).post('/transactions/split').send(orderPayment()).expect(201);
+
+      const result = await pool.query('SELECT * FROM public.get_trial_balance(NOW())');
+      result.rows.forEach(row => expect(row.debits).toBe(row.credits));
+    });
+  });
+
+  describe('GET /users/:id/transactions', () => {
+    it('should show a split payment as one item with its legs to every party', async () => {
+      const payment = await asUser(buyerId)
+        .post('/transactions/split')
+        .send(orderPayment())
+        .expect(201);
+
+      for (const userId of [buyerId, sellerId, platformId, courierId]) {
+        const response = await asUser(userId).get(`/users/${userId}/transactions`).expect(200);
+        const splits = response.body.data.filter((t: any) => t.type === 'split');
+
+        expect(splits).toHaveLength(1);
+        expect(splits[0]).toEqual({ ...payment.body, running_balance_account_id: expect.any(String), running_balance: expect.any(Number) });
+      }
+    });
+
+    it('should not attach legs to other transactions', async () => {
+      const response = await asUser(buyerId).get(`/users/${buyerId}/transactions`).expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].type).toBe('deposit');
+      expect(response.body.data[0]).not.toHaveProperty('legs');
+    });
+  });
+});
@@ -0,0 +1,374 @@
+import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('Account Statements', () => {
+  let user1Id: string;
+  let user2Id: string;
+  let user3Id: string;
+
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  // An instant strictly between the ledger rows written before and after it
+  const markTime = async () => {
+    await sleep(10);
+    const mark = new Date().toISOString();
+    await sleep(10);
+    return mark;
+  };
+
+  const deposit = (userId: string, amount: number, extra: object = {}) => asUser(userId)
+    .post(`/users/${userId}/deposit`)
+    .send({ idempotency_key: randomUUID(), amount, ...extra })
+    .expect(201);
+
+  const transfer = (sourceUserId: string, destinationUserId: string, amount: number, extra: object = {}) => asUser(sourceUserId)
+    .post('/transactions')
+    .send({ idempotency_key: randomUUID(), source_user_id: sourceUserId, destination_user_id: destinationUserId, amount, ...extra })
+    .expect(201);
+
+  const statement = (userId: string, query: Record<string, string>, callerId = userId) => asUser(callerId)
+    .get(`/users/${userId}/statements`)
+    .query(query);
+
+  const balanceOn = async (userId: string, date: string) => {
+    const response = await asUser(userId).get(`/users/${userId}/balance`).query({ date }).expect(200);
+    return response.body.balance;
+  };
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    const users = await Promise.all([
+      createUser('statement1@example.com'),
+      createUser('statement2@example.com'),
+      createUser('statement3@example.com'),
+    ]);
+
+    user1Id = users[0].id;
+    user2Id = users[1].id;
+    await grantRole(user1Id, 'issuer');
+    await grantRole(user2Id, 'issuer');
+    user3Id = users[2].id;
+  });
+
+  describe('Opening and Closing Balances', () => {
+    it('should take the opening and closing balances at the bounds of the period', async () => {
+      await deposit(user1Id, 10000);
+      await transfer(user1Id, user2Id, 1500);
+      const from = await markTime();
+
+      await transfer(user1Id, user2Id, 2500);
+      await transfer(user2Id, user1Id, 700);
+      await deposit(user1Id, 300);
+      const to = await markTime();
+
+      await transfer(user1Id, user3Id, 4000);
+
+      const response = await statement(user1Id, { from, to }).expect(200);
+
+      expect(response.body).toMatchObject({
+        user_id: user1Id,
+        currency: 'USD',
+        minor_units: 2,
+        from,
+        to,
+        opening_balance: 8500,
+        total_in: 1000,
+        total_out: 2500,
+        closing_balance: 7000,
+      });
+      expect(response.body.opening_balance).toBe(await balanceOn(user1Id, from));
+      expect(response.body.closing_balance).toBe(await balanceOn(user1Id, to));
+    });
+
+    it('should list every entry in the period with its running balance', async () => {
+      await deposit(user1Id, 10000);
+      const from = await markTime();
+
+      await transfer(user1Id, user2Id, 2500, { description: 'Rent' });
+      await transfer(user2Id, user1Id, 700);
+      await deposit(user1Id, 300);
+      const to = await markTime();
+
+      const response = await statement(user1Id, { from, to }).expect(200);
+
+      expect(response.body.entries).toEqual([
+        expect.objectContaining({ type: 'transfer', description: 'Rent', counterparty_user_id: user2Id, amount: -2500, running_balance: 7500 }),
+        expect.objectContaining({ type: 'transfer', counterparty_user_id: user2Id, amount: 700, running_balance: 8200 }),
+        expect.objectContaining({ type: 'deposit', counterparty_user_id: null, amount: 300, running_balance: 8500 }),
+      ]);
+    });
+
+    it('should return an empty period with equal opening and closing balances', async () => {
+      await deposit(user1Id, 5000);
+      const from = await markTime();
+      const to = await markTime();
+      await deposit(user1Id, 1000);
+
+      const response = await statement(user1Id, { from, to }).expect(200);
+
+      expect(response.body.entries).toEqual([]);
+      expect(response.body.opening_balance).toBe(5000);
+      expect(response.body.closing_balance).toBe(5000);
+      expect(response.body.total_in).toBe(0);
+      expect(response.body.total_out).toBe(0);
+    });
+
+    it('should include an entry at `from` and leave out one at `to`', async () => {
+      await grantRole(user1Id, 'admin');
+      await asUser(user1Id)
+        .post('/admin/imports')
+        .query({ mode: 'commit' })
+        .set('Content-Type', 'text/csv')
+        .send([
+          'type,destination_email,amount,created_at',
+          'deposit,statement1@example.com,1000,2020-01-01T00:00:00Z',
+          'deposit,statement1@example.com,500,2020-02-01T00:00:00Z',
+        ].join('\n') + '\n')
+        .expect(200);
+
+      const january = await statement(user1Id, { from: '2020-01-01T00:00:00Z', to: '2020-02-01T00:00:00Z' }).expect(200);
+      const february = await statement(user1Id, { from: '2020-02-01T00:00:00Z', to: '2020-03-01T00:00:00Z' }).expect(200);
+
+      expect(january.body).toMatchObject({ opening_balance: 0, total_in: 1000, closing_balance: 1000 });
+      expect(january.body.entries.map((e: any) => e.amount)).toEqual([1000]);
+      expect(february.body).toMatchObject({ opening_balance: 1000, total_in: 500, closing_balance: 1500 });
+      expect(february.body.entries.map((e: any) => e.amount)).toEqual([500]);
+    });
+
+    it('should return a zero statement for a currency the user never held', async () => {
+      await deposit(user1Id, 5000);
+
+      const response = await statement(user1Id, {
+        from: '2026-01-01T00:00:00Z',
+        to: new Date(Date.now() + 60_000).toISOString(),
+        currency: 'EUR',
+      }).expect(200);
+
+      expect(response.body).toMatchObject({
+        account_id: null,
+        currency: 'EUR',
+        opening_balance: 0,
+        closing_balance: 0,
+        entries: [],
+      });
+    });
+  });
+
+  describe('Reconciliation with the Ledger', () => {
+    it('should reconcile a period of many mixed transactions', async () => {
+      await deposit(user1Id, 100000);
+      await deposit(user2Id, 50000);
+      const from = await markTime();
+
+      for (let i = 1; i <= 10; i++) {
+        await transfer(user1Id, user2Id, 1000 * i);
+        await transfer(user2Id, user1Id, 333 * i);
+        if (i % 3 === 0) {
+          await deposit(user1Id, 77 * i);
+        }
+      }
+
+      await asUser(user1Id)
+        .post(`/users/${user1Id}/withdraw`)
+        .send({ idempotency_key: randomUUID(), amount: 1234 })
+        .expect(201);
+      const to = await markTime();
+
+      const response = await statement(user1Id, { from, to }).expect(200);
+      const { opening_balance, total_in, total_out, closing_balance, entries } = response.body;
+
+      // Totals reconcile exactly with the balances at both bounds
+      expect(opening_balance + total_in - total_out).toBe(closing_balance);
+      expect(closing_balance).toBe(await balanceOn(user1Id, to));
+
+      // Totals are the sums of the entries
+      const amounts: number[] = entries.map((entry: any) => entry.amount);
+      expect(total_in).toBe(amounts.filter(a => a > 0).reduce((sum, a) => sum + a, 0));
+      expect(total_out).toBe(-amounts.filter(a => a < 0).reduce((sum, a) => sum + a, 0));
+
+      // Each running balance follows from the one before
+      entries.reduce((previous: number, entry: any) => {
+        expect(entry.running_balance).toBe(previous + entry.amount);
+        return entry.running_balance;
+      }, opening_balance);
+      expect(entries[entries.length - 1].running_balance).toBe(closing_balance);
+
+      // And the entries are exactly the account's postings in the period
+      const postings = await pool.query(
+        `SELECT COUNT(*) AS count, COALESCE(SUM(p.amount), 0) AS total
+         FROM postings p
+         JOIN accounts a ON a.id = p.account_id AND a.user_id = $1 AND a.is_default AND a.currency = 'USD'
+         WHERE p.created_at > $2 AND p.created_at <= $3`,
+        [user1Id, from, to]
+      );
+      expect(entries).toHaveLength(Number(postings.rows[0].count));
+      expect(total_in - total_out).toBe(Number(postings.rows[0].total));
+    });
+
+    it('should reconcile consecutive statements', async () => {
+      const start = await markTime();
+      await deposit(user1Id, 20000);
+      await transfer(user1Id, user2Id, 3000);
+      const middle = await markTime();
+      await transfer(user2Id, user1Id, 1000);
+      await transfer(user1Id, user3Id, 6000);
+      const end = await markTime();
+
+      const first = await statement(user1Id, { from: start, to: middle }).expect(200);
+      const second = await statement(user1Id, { from: middle, to: end }).expect(200);
+      const whole = await statement(user1Id, { from: start, to: end }).expect(200);
+
+      expect(second.body.opening_balance).toBe(first.body.closing_balance);
+      expect(whole.body.total_in).toBe(first.body.total_in + second.body.total_in);
+      expect(whole.body.total_out).toBe(first.body.total_out + second.body.total_out);
+      expect(whole.body.closing_balance).toBe(12000);
+      expect(whole.body.entries.map((e: any) => e.transaction_id))
+        .toEqual([...first.body.entries, ...second.body.entries].map((e: any) => e.transaction_id));
+    });
+
+    it('should include split payments and reversals', async () => {
+      await deposit(user1Id, 10000);
+      const from = await markTime();
+
+      await asUser(user1Id)
+        .post('/transactions/split')
+        .send({
+          idempotency_key: randomUUID(),
+          debits: [{ user_id: user1Id, amount: 3000 }],
+          credits: [
+            { user_id: user2Id, amount: 2000 },
+            { user_id: user3Id, amount: 1000 },
+          ],
+        })
+        .expect(201);
+
+      const payment = await transfer(user1Id, user2Id, 4000);
+      await asUser(user2Id)
+        .post(`/transactions/${payment.body.id}/reverse`)
+        .send({ idempotency_key: randomUUID(), amount: 1500 })
+        .expect(201);
+      const to = await markTime();
+
+      const response = await statement(user1Id, { from, to }).expect(200);
+
+      expect(response.body.entries.map((e: any) => [e.type, e.amount])).toEqual([
+        ['split', -3000],
+        ['transfer', -4000],
+        ['reversal', 1500],
+      ]);
+      expect(response.body.closing_balance).toBe(4500);
+      expect(response.body.closing_balance).toBe(await balanceOn(user1Id, to));
+    });
+
+    it('should cover one currency at a time', async () => {
+      await deposit(user1Id, 10000);
+      const from = await markTime();
+      await deposit(user1Id, 5000, { currency: 'EUR' });
+      await transfer(user1Id, user2Id, 2000, { currency: 'EUR' });
+      await transfer(user1Id, user2Id, 1000);
+      const to = await markTime();
+
+      const eur = await statement(user1Id, { from, to, currency: 'EUR' }).expect(200);
+      const usd = await statement(user1Id, { from, to }).expect(200);
+
+      expect(eur.body.entries.map((e: any) => e.amount)).toEqual([5000, -2000]);
+      expect(eur.body.closing_balance).toBe(3000);
+      expect(usd.body.entries.map((e: any) => e.amount)).toEqual([-1000]);
+      expect(usd.body.closing_balance).toBe(9000);
+    });
+  });
+
+  describe('Formats', () => {
+    it('should render the statement as CSV', async () => {
+      await deposit(user1Id, 10000);
+      const from = await markTime();
+      await transfer(user1Id, user2Id, 2550, { description: 'Dinner, "Chez Nous"', external_reference: '=HYPERLINK("x")' });
+      const to = await markTime();
+
+      const response = await statement(user1Id, { from, to, format: 'csv' }).expect(200);
+
+      expect(response.headers['content-type']).toMatch(/^text\/csv/);
+      expect(response.headers['content-disposition']).toMatch(/^attachment; filename="statement-USD-\d{4}-\d{2}-\d{2}-\d{4}-\d{2}-\d{2}\.csv"$/);
+
+      const lines = response.text.trimEnd().split('\r\n');
+      expect(lines).toHaveLength(6);
+      expect(lines[0]).toBe('record,date,transaction_id,type,description,external_reference,counterparty_user_id,amount,balance');
+      expect(lines[1]).toBe(`opening_balance,${from},,,,,,,100.00`);
+      expect(lines[2]).toMatch(new RegExp(`^entry,[^,]+,[0-9a-f-]{36},transfer,"Dinner, ""Chez Nous""","'=HYPERLINK\\(""x""\\)",${user2Id},-25\\.50,74\\.50$`));
+      expect(lines[3]).toBe(`total_in,${to},,,,,,0.00,`);
+      expect(lines[4]).toBe(`total_out,${to},,,,,,25.50,`);
+      expect(lines[5]).toBe(`closing_balance,${to},,,,,,,74.50`);
+    });
+
+    it('should format amounts in the currency\'s minor units', async () => {
+      const from = await markTime();
+      await deposit(user1Id, 1500, { currency: 'JPY' });
+      const to = await markTime();
+
+      const response = await statement(user1Id, { from, to, currency: 'JPY', format: 'csv' }).expect(200);
+
+      expect(response.text).toContain(`closing_balance,${to},,,,,,,1500\r\n`);
+    });
+
+    it('should render the statement as a printable HTML document', async () => {
+      await deposit(user1Id, 10000);
+      const from = await markTime();
+      await transfer(user1Id, user2Id, 2500, { description: '<script>alert(1)</script>' });
+      const to = await markTime();
+
+      const response = await statement(user1Id, { from, to, format: 'html' }).expect(200);
+
+      expect(response.headers['content-type']).toMatch(/^text\/html/);
+      expect(response.text).toMatch(/^<!DOCTYPE html>/);
+      expect(response.text).toContain('@media print');
+      expect(response.text).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+      expect(response.text).not.toContain('<script>');
+      expect(response.text).toContain('<tr><th>Opening balance</th><td class="amount">100.00</td></tr>');
+      expect(response.text).toContain('<tr><th>Closing balance</th><td class="amount">75.00</td></tr>');
+    });
+  });
+
+  describe('Validation', () => {
+    it('should require a period', async () => {
+      const response = await statement(user1Id, {}).expect(400);
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should reject a period that ends before it starts', async () => {
+      await statement(user1Id, { from: '2026-11-01T00:00:00Z', to: '2026-10-01T00:00:00Z' }).expect(400);
+    });
+
+    it('should reject a period longer than a year', async () => {
+      await statement(user1Id, { from: '2025-01-01T00:00:00Z', to: '2026-10-01T00:00:00Z' }).expect(400);
+    });
+
+    it('should reject an unknown format', async () => {
+      await statement(user1Id, { from: '2026-10-01T00:00:00Z', to: '2026-11-01T00:00:00Z', format: 'pdf' }).expect(400);
+    });
+
+    it('should reject an unsupported currency', async () => {
+      const response = await statement(user1Id, {
+        from: '2026-10-01T00:00:00Z',
+        to: '2026-11-01T00:00:00Z',
+        currency: 'XYZ',
+      }).expect(400);
+
+      expect(response.body.error).toBe('Unsupported currency.');
+    });
+
+    it('should not show another user\'s statement', async () => {
+      const response = await statement(user2Id, { from: '2026-10-01T00:00:00Z', to: '2026-11-01T00:00:00Z' }, user1Id).expect(403);
+      expect(response.body.error).toBe('Forbidden.');
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      await grantRole(user1Id, 'admin');
+
+      const response = await statement(randomUUID(), { from: '2026-10-01T00:00:00Z', to: '2026-11-01T00:00:00Z' }, user1Id).expect(404);
+      expect(response.body.error).toBe('User not found.');
+    });
+  });
+});
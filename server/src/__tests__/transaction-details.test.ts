@@ -0,0 +1,194 @@
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('Transaction Details', () => {
+  let user1Id: string;
+  let user2Id: string;
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    user1Id = (await createUser('details1@example.com')).id;
+
+    user2Id = (await createUser('details2@example.com')).id;
+    await grantRole(user1Id, 'issuer');
+    await grantRole(user2Id, 'issuer');
+
+    await asUser(user1Id)
+      .post(`/users/${user1Id}/deposit`)
+      .send({ idempotency_key: randomUUID(), amount: 10000 })
+      .expect(201);
+  });
+
+  const transfer = (details: object) => asUser(user1Id)
+    .post('/transactions')
+    .send({
+      idempotency_key: randomUUID(),
+      source_user_id: user1Id,
+      destination_user_id: user2Id,
+      amount: 1000,
+      ...details,
+    });
+
+  describe('Recording details', () => {
+    it('should record a description, reference and metadata on a transfer', async () => {
+      const response = await transfer({
+        description: 'October rent',
+        external_reference: 'INV-2026-0042',
+        metadata: { order_id: '1234', attempt: 2, paid_late: false, note: null },
+      }).expect(201);
+
+      expect(response.body).toMatchObject({
+        description: 'October rent',
+        external_reference: 'INV-2026-0042',
+        metadata: { order_id: '1234', attempt: 2, paid_late: false, note: null },
+      });
+    });
+
+    it('should default the details to null', async () => {
+      const response = await transfer({}).expect(201);
+
+      expect(response.body.description).toBeNull();
+      expect(response.body.external_reference).toBeNull();
+      expect(response.body.metadata).toBeNull();
+    });
+
+    it('should record details on user and account deposits', async () => {
+      const userDeposit = await asUser(user2Id)
+        .post(`/users/${user2Id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 500, description: 'Top-up', metadata: { channel: 'card' } })
+        .expect(201);
+
+      expect(userDeposit.body).toMatchObject({ description: 'Top-up', metadata: { channel: 'card' } });
+
+      const accountDeposit = await asUser(user1Id)
+        .post(`/accounts/${userDeposit.body.destination_account_id}/deposit`)
+        .send({ idempotency_key: randomUUID(), amount: 500, external_reference: 'WIRE-77' })
+        .expect(201);
+
+      expect(accountDeposit.body.external_reference).toBe('WIRE-77');
+    });
+
+    it('should record details on account transfers', async () => {
+      const accounts = await asUser(user1Id).get(`/users/${user1Id}/accounts`).expect(200);
+      const savings = await asUser(user1Id)
+        .post(`/users/${user1Id}/accounts`)
+        .send({ name: 'Savings', kind: 'savings' })
+        .expect(201);
+
+      const response = await asUser(user1Id)
+        .post(`/accounts/${accounts.body[0].id}/transfer`)
+        .send({
+          idempotency_key: randomUUID(),
+          destination_account_id: savings.body.id,
+          amount: 1000,
+          description: 'Put aside',
+        })
+        .expect(201);
+
+      expect(response.body.description).toBe('Put aside');
+    });
+
+    it('should keep the original details on a repeated idempotency key', async () => {
+      const idempotencyKey = randomUUID();
+
+      await transfer({ idempotency_key: idempotencyKey, description: 'First' }).expect(201);
+      const replay = await transfer({ idempotency_key: idempotencyKey, description: 'Second' }).expect(201);
+
+      expect(replay.body.description).toBe('First');
+    });
+
+    it('should reject a description over 500 characters', async () => {
+      const response = await transfer({ description: 'x'.repeat(501) }).expect(400);
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should reject an external reference over 128 characters', async () => {
+      await transfer({ external_reference: 'x'.repeat(129) }).expect(400);
+    });
+
+    it('should reject metadata with too many keys', async () => {
+      const metadata = Object.fromEntries(Array.from({ length: 21 }, (_, i) => [`key${i}`, 'value']));
+      await transfer({ metadata }).expect(400);
+    });
+
+    it('should reject nested metadata values', async () => {
+      await transfer({ metadata: { customer: { id: '42' } } }).expect(400);
+    });
+
+    it('should reject metadata that is not an object', async () => {
+      await transfer({ metadata: ['a', 'b'] }).expect(400);
+    });
+
+    it('should reject long metadata values', async () => {
+      await transfer({ metadata: { note: 'x'.repeat(501) } }).expect(400);
+    });
+  });
+
+  describe('Filtering history', () => {
+    beforeEach(async () => {
+      await transfer({ external_reference: 'INV-1', metadata: { order_id: '1', channel: 'web' } }).expect(201);
+      await transfer({ external_reference: 'INV-2', metadata: { order_id: '2', channel: 'web' } }).expect(201);
+      await transfer({ external_reference: 'INV-3', metadata: { order_id: 3, channel: 'app' } }).expect(201);
+    });
+
+    it('should filter by external reference', async () => {
+      const response = await asUser(user1Id)
+        .get(`/users/${user1Id}/transactions`)
+        .query({ external_reference: 'INV-2' })
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].external_reference).toBe('INV-2');
+    });
+
+    it('should filter by a metadata key and value', async () => {
+      const response = await asUser(user2Id)
+        .get(`/users/${user2Id}/transactions?metadata[channel]=web`)
+        .expect(200);
+
+      expect(response.body.data.map((t: any) => t.external_reference).sort()).toEqual(['INV-1', 'INV-2']);
+    });
+
+    it('should compare non-string metadata values as text', async () => {
+      const response = await asUser(user2Id)
+        .get(`/users/${user2Id}/transactions?metadata[order_id]=3`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].external_reference).toBe('INV-3');
+    });
+
+    it('should combine filters', async () => {
+      const response = await asUser(user2Id)
+        .get(`/users/${user2Id}/transactions?metadata[channel]=web&metadata[order_id]=1&external_reference=INV-1`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+
+      const none = await asUser(user2Id)
+        .get(`/users/${user2Id}/transactions?metadata[channel]=app&external_reference=INV-1`)
+        .expect(200);
+
+      expect(none.body.data).toEqual([]);
+    });
+
+    it('should only return the user\'s own transactions', async () => {
+      const other = await createUser('details3@example.com');
+
+      const response = await asUser(other.id)
+        .get(`/users/${other.id}/transactions`)
+        .query({ external_reference: 'INV-1' })
+        .expect(200);
+
+      expect(response.body.data).toEqual([]);
+    });
+
+    it('should reject a nested metadata filter', async () => {
+      await asUser(user2Id)
+        .get(`/users/${user2Id}/transactions?metadata[a][b]=c`)
+        .expect(400);
+    });
+  });
+});
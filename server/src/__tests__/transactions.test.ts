@@ -1,6 +1,5 @@
-import request from 'supertest';
-import { app } from './app';
-import { pool } from '../db';
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
 import { randomUUID } from 'crypto';
 
 describe('Transactions API', () => {
@@ -9,30 +8,20 @@ describe('Transactions API', () => {
 
   beforeEach(async () => {
     // Clean database before each test
-    await pool.query('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
 
     // Create test users
-    const user1Response = await request(app)
-      .post('/users')
-      .send({
-        email: 'user1@example.com',
-        password: 'password123',
-      });
-    user1Id = user1Response.body.id;
+    user1Id = (await createUser('user1@example.com')).id;
 
-    const user2Response = await request(app)
-      .post('/users')
-      .send({
-        email: 'user2@example.com',
-        password: 'password123',
-      });
-    user2Id = user2Response.body.id;
+    user2Id = (await createUser('user2@example.com')).id;
+    await grantRole(user1Id, 'issuer');
+    await grantRole(user2Id, 'issuer');
   });
 
   describe('POST /users/:id/deposit', () => {
     it('should deposit money into user account', async () => {
       const idempotencyKey = randomUUID();
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: idempotencyKey,
@@ -53,7 +42,7 @@ describe('Transactions API', () => {
     it('should reject duplicate idempotency key', async () => {
       const idempotencyKey = randomUUID();
       // First deposit
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: idempotencyKey,
@@ -62,7 +51,7 @@ describe('Transactions API', () => {
         .expect(201);
 
       // Duplicate deposit with same idempotency key
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: idempotencyKey,
@@ -75,7 +64,7 @@ describe('Transactions API', () => {
     });
 
     it('should reject invalid amount', async () => {
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -87,7 +76,7 @@ describe('Transactions API', () => {
     });
 
     it('should reject missing idempotency_key', async () => {
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           amount: 10000,
@@ -99,7 +88,7 @@ describe('Transactions API', () => {
 
     it('should reject non-existent user for deposit', async () => {
       const fakeUserId = randomUUID();
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .post(`/users/${fakeUserId}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -114,7 +103,7 @@ describe('Transactions API', () => {
   describe('POST /transactions', () => {
     beforeEach(async () => {
       // Deposit money into user1's account
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -124,7 +113,7 @@ describe('Transactions API', () => {
 
     it('should create a transaction between users', async () => {
       const idempotencyKey = randomUUID();
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: idempotencyKey,
@@ -145,7 +134,7 @@ describe('Transactions API', () => {
     });
 
     it('should reject transaction with insufficient funds', async () => {
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -159,7 +148,7 @@ describe('Transactions API', () => {
     });
 
     it('should reject transaction with invalid amount', async () => {
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -173,7 +162,7 @@ describe('Transactions API', () => {
     });
 
     it('should reject transaction to same user', async () => {
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -189,7 +178,7 @@ describe('Transactions API', () => {
     it('should handle duplicate idempotency key', async () => {
       const idempotencyKey = randomUUID();
       // First transaction
-      await request(app)
+      await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: idempotencyKey,
@@ -200,7 +189,7 @@ describe('Transactions API', () => {
         .expect(201);
 
       // Duplicate transaction
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: idempotencyKey,
@@ -215,7 +204,7 @@ describe('Transactions API', () => {
     });
 
     it('should reject missing required fields', async () => {
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -227,7 +216,7 @@ describe('Transactions API', () => {
     });
 
     it('should handle invalid date format in balance query', async () => {
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .get(`/users/${user1Id}/balance?date=invalid-date`)
         .expect(400);
 
@@ -236,7 +225,9 @@ describe('Transactions API', () => {
 
     it('should handle non-existent user for balance', async () => {
       const fakeUserId = randomUUID();
-      const response = await request(app)
+      await grantRole(user1Id, 'admin');
+
+      const response = await asUser(user1Id)
         .get(`/users/${fakeUserId}/balance`)
         .expect(200);
 
@@ -246,7 +237,7 @@ describe('Transactions API', () => {
 
     it('should handle non-existent source user for transaction', async () => {
       const fakeUserId = randomUUID();
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -254,24 +245,24 @@ describe('Transactions API', () => {
           destination_user_id: user2Id,
           amount: 10000,
         })
-        .expect(400);
+        .expect(403);
 
-      // Non-existent user will have 0 balance, so this will be insufficient funds
-      expect(response.body.error).toBe('Insufficient funds.');
+      // Only the owner of an account (or a delegate) can debit it
+      expect(response.body.error).toBe('Forbidden.');
     });
   });
 
   describe('GET /users/:id/balance', () => {
     beforeEach(async () => {
       // Setup initial balances
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 100000, // 1000.00 in cents
         });
 
-      await request(app)
+      await asUser(user2Id)
         .post(`/users/${user2Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
@@ -280,7 +271,7 @@ describe('Transactions API', () => {
     });
 
     it('should get current balance for a user', async () => {
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .get(`/users/${user1Id}/balance`)
         .expect(200);
 
@@ -292,7 +283,7 @@ describe('Transactions API', () => {
 
     it('should reflect balance changes after transaction', async () => {
       // Create transaction
-      await request(app)
+      await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -302,13 +293,13 @@ describe('Transactions API', () => {
         });
 
       // Check source user balance
-      const response1 = await request(app)
+      const response1 = await asUser(user1Id)
         .get(`/users/${user1Id}/balance`)
         .expect(200);
       expect(response1.body.balance).toBe(80000); // 800.00 in cents
 
       // Check destination user balance
-      const response2 = await request(app)
+      const response2 = await asUser(user2Id)
         .get(`/users/${user2Id}/balance`)
         .expect(200);
       expect(response2.body.balance).toBe(70000); // 700.00 in cents
@@ -316,15 +307,10 @@ describe('Transactions API', () => {
 
     it('should return zero balance for user with no transactions', async () => {
       // Create a new user
-      const user3Response = await request(app)
-        .post('/users')
-        .send({
-          email: 'user3@example.com',
-          password: 'password123',
-        });
+      const user3Response = await createUser('user3@example.com');
 
-      const response = await request(app)
-        .get(`/users/${user3Response.body.id}/balance`)
+      const response = await asUser(user3Response.id)
+        .get(`/users/${user3Response.id}/balance`)
         .expect(200);
 
       expect(response.body.balance).toBe(0);
@@ -334,7 +320,7 @@ describe('Transactions API', () => {
       // Get current date for query
       const now = new Date().toISOString();
 
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .get(`/users/${user1Id}/balance?date=${now}`)
         .expect(200);
 
@@ -345,7 +331,7 @@ describe('Transactions API', () => {
     });
 
     it('should reject invalid user id', async () => {
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .get('/users/invalid/balance')
         .expect(400);
 
@@ -356,14 +342,14 @@ describe('Transactions API', () => {
   describe('GET /users/:id/transactions', () => {
     beforeEach(async () => {
       // Setup transactions
-      await request(app)
+      await asUser(user1Id)
         .post(`/users/${user1Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 100000, // 1000.00 in cents
         });
 
-      await request(app)
+      await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -372,7 +358,7 @@ describe('Transactions API', () => {
           amount: 10000, // 100.00 in cents
         });
 
-      await request(app)
+      await asUser(user1Id)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -383,15 +369,15 @@ describe('Transactions API', () => {
     });
 
     it('should get transaction history for a user', async () => {
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .get(`/users/${user1Id}/transactions`)
         .expect(200);
 
-      expect(Array.isArray(response.body)).toBe(true);
-      expect(response.body.length).toBeGreaterThanOrEqual(3); // deposit + 2 transactions
+      expect(Array.isArray(response.body.data)).toBe(true);
+      expect(response.body.data.length).toBeGreaterThanOrEqual(3); // deposit + 2 transactions
 
       // Check that transactions include user1
-      response.body.forEach((txn: any) => {
+      response.body.data.forEach((txn: any) => {
         expect(
           txn.source_user_id === user1Id || txn.destination_user_id === user1Id
         ).toBe(true);
@@ -399,46 +385,41 @@ describe('Transactions API', () => {
     });
 
     it('should return transactions in descending order by created_at', async () => {
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .get(`/users/${user1Id}/transactions`)
         .expect(200);
 
-      expect(response.body.length).toBeGreaterThan(0);
+      expect(response.body.data.length).toBeGreaterThan(0);
 
       // Check ordering
-      for (let i = 0; i < response.body.length - 1; i++) {
-        const current = new Date(response.body[i].created_at);
-        const next = new Date(response.body[i + 1].created_at);
+      for (let i = 0; i < response.body.data.length - 1; i++) {
+        const current = new Date(response.body.data[i].created_at);
+        const next = new Date(response.body.data[i + 1].created_at);
         expect(current.getTime()).toBeGreaterThanOrEqual(next.getTime());
       }
     });
 
     it('should return empty array for user with no transactions', async () => {
       // Create a new user
-      const user3Response = await request(app)
-        .post('/users')
-        .send({
-          email: 'user3@example.com',
-          password: 'password123',
-        });
+      const user3Response = await createUser('user3@example.com');
 
-      const response = await request(app)
-        .get(`/users/${user3Response.body.id}/transactions`)
+      const response = await asUser(user3Response.id)
+        .get(`/users/${user3Response.id}/transactions`)
         .expect(200);
 
-      expect(response.body).toEqual([]);
+      expect(response.body.data).toEqual([]);
     });
 
     it('should include both sent and received transactions', async () => {
       // User2 sends money back to user1
-      await request(app)
+      await asUser(user2Id)
         .post(`/users/${user2Id}/deposit`)
         .send({
           idempotency_key: randomUUID(),
           amount: 50000, // 500.00 in cents
         });
 
-      await request(app)
+      await asUser(user2Id)
         .post('/transactions')
         .send({
           idempotency_key: randomUUID(),
@@ -447,16 +428,16 @@ describe('Transactions API', () => {
           amount: 7500, // 75.00 in cents
         });
 
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .get(`/users/${user1Id}/transactions`)
         .expect(200);
 
       // Should have deposit, 2 sent, and 1 received
-      expect(response.body.length).toBeGreaterThanOrEqual(4);
+      expect(response.body.data.length).toBeGreaterThanOrEqual(4);
     });
 
     it('should reject invalid user id', async () => {
-      const response = await request(app)
+      const response = await asUser(user1Id)
         .get('/users/invalid/transactions')
         .expect(400);
 
@@ -1,11 +1,11 @@
 import request from 'supertest';
 import { app } from './app';
-import { pool } from '../db';
+import { asMaintenance } from './maintenance';
 
 describe('Users API', () => {
   beforeEach(async () => {
     // Clean database before each test
-    await pool.query('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
   });
 
   describe('POST /users', () => {
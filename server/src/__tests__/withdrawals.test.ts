@@ -0,0 +1,239 @@
+import { asMaintenance } from './maintenance';
+import { asUser, createUser, grantRole } from './auth';
+import { randomUUID } from 'crypto';
+
+describe('Withdrawals API', () => {
+  let userId: string;
+  let user2Id: string;
+
+  beforeEach(async () => {
+    await asMaintenance('TRUNCATE TABLE transactions, users RESTART IDENTITY CASCADE');
+
+    userId = (await createUser('withdraw1@example.com')).id;
+    await grantRole(userId, 'issuer');
+
+    user2Id = (await createUser('withdraw2@example.com')).id;
+
+    await asUser(userId)
+      .post(`/users/${userId}/deposit`)
+      .send({
+        idempotency_key: randomUUID(),
+        amount: 10000,
+      });
+  });
+
+  describe('POST /users/:id/withdraw', () => {
+    it('should withdraw money to an external destination', async () => {
+      const idempotencyKey = randomUUID();
+      const response = await asUser(userId)
+        .post(`/users/${userId}/withdraw`)
+        .send({
+          idempotency_key: idempotencyKey,
+          amount: 2500,
+        })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        id: expect.any(String),
+        idempotency_key: idempotencyKey,
+        type: 'withdrawal',
+        source_user_id: userId,
+        destination_user_id: null,
+        amount: 2500,
+        created_at: expect.any(String),
+      });
+
+      const balance = await asUser(userId).get(`/users/${userId}/balance`);
+      expect(balance.body.balance).toBe(7500);
+    });
+
+    it('should allow withdrawing the exact balance', async () => {
+      await asUser(userId)
+        .post(`/users/${userId}/withdraw`)
+        .send({
+          idempotency_key: randomUUID(),
+          amount: 10000,
+        })
+        .expect(201);
+
+      const balance = await asUser(userId).get(`/users/${userId}/balance`);
+      expect(balance.body.balance).toBe(0);
+    });
+
+    it('should reject withdrawal with insufficient funds', async () => {
+      const response = await asUser(userId)
+        .post(`/users/${userId}/withdraw`)
+        .send({
+          idempotency_key: randomUUID(),
+          amount: 10001,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Insufficient funds.');
+
+      const balance = await asUser(userId).get(`/users/${userId}/balance`);
+      expect(balance.body.balance).toBe(10000);
+    });
+
+    it('should reject withdrawal from user with no funds', async () => {
+      const response = await asUser(user2Id)
+        .post(`/users/${user2Id}/withdraw`)
+        .send({
+          idempotency_key: randomUUID(),
+          amount: 1,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Insufficient funds.');
+    });
+
+    it('should return the original withdrawal on duplicate idempotency key', async () => {
+      const idempotencyKey = randomUUID();
+
+      const first = await asUser(userId)
+        .post(`/users/${userId}/withdraw`)
+        .send({
+          idempotency_key: idempotencyKey,
+          amount: 3000,
+        })
+        .expect(201);
+
+      const second = await asUser(userId)
+        .post(`/users/${userId}/withdraw`)
+        .send({
+          idempotency_key: idempotencyKey,
+          amount: 3000,
+        })
+        .expect(201);
+
+      expect(second.body.id).toBe(first.body.id);
+
+      const balance = await asUser(userId).get(`/users/${userId}/balance`);
+      expect(balance.body.balance).toBe(7000);
+    });
+
+    it('should reject invalid amount', async () => {
+      const response = await asUser(userId)
+        .post(`/users/${userId}/withdraw`)
+        .send({
+          idempotency_key: randomUUID(),
+          amount: -100,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should reject missing idempotency_key', async () => {
+      const response = await asUser(userId)
+        .post(`/users/${userId}/withdraw`)
+        .send({
+          amount: 100,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should reject invalid user id', async () => {
+      const response = await asUser(userId)
+        .post('/users/invalid-id/withdraw')
+        .send({
+          idempotency_key: randomUUID(),
+          amount: 100,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+    });
+
+    it('should never overdraw under concurrent withdrawals', async () => {
+      const withdrawals = Array.from({ length: 10 }, () =>
+        asUser(userId)
+          .post(`/users/${userId}/withdraw`)
+          .send({
+            idempotency_key: randomUUID(),
+            amount: 3000,
+          })
+      );
+
+      const results = await Promise.all(withdrawals);
+      const successful = results.filter(r => r.status === 201);
+
+      // 10000 can cover at most three withdrawals of 3000
+      expect(successful).toHaveLength(3);
+      expect(results.filter(r => r.status === 400)).toHaveLength(7);
+
+      const balance = await asUser(userId).get(`/users/${userId}/balance`);
+      expect(balance.body.balance).toBe(1000);
+    });
+
+    it('should account for withdrawals alongside transfers', async () => {
+      await asUser(userId)
+        .post('/transactions')
+        .send({
+          idempotency_key: randomUUID(),
+          source_user_id: userId,
+          destination_user_id: user2Id,
+          amount: 4000,
+        })
+        .expect(201);
+
+      await asUser(user2Id)
+        .post(`/users/${user2Id}/withdraw`)
+        .send({
+          idempotency_key: randomUUID(),
+          amount: 1500,
+        })
+        .expect(201);
+
+      const balance1 = await asUser(userId).get(`/users/${userId}/balance`);
+      const balance2 = await asUser(user2Id).get(`/users/${user2Id}/balance`);
+
+      expect(balance1.body.balance).toBe(6000);
+      expect(balance2.body.balance).toBe(2500);
+    });
+  });
+
+  describe('Withdrawals in history', () => {
+    it('should include withdrawals in transaction history', async () => {
+      await asUser(userId)
+        .post(`/users/${userId}/withdraw`)
+        .send({
+          idempotency_key: randomUUID(),
+          amount: 1000,
+        })
+        .expect(201);
+
+      const response = await asUser(userId)
+        .get(`/users/${userId}/transactions`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data.map((t: any) => t.type).sort()).toEqual(['deposit', 'withdrawal']);
+    });
+
+    it('should reflect withdrawals in historical balance', async () => {
+      const beforeWithdrawal = new Date().toISOString();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      await asUser(userId)
+        .post(`/users/${userId}/withdraw`)
+        .send({
+          idempotency_key: randomUUID(),
+          amount: 4000,
+        })
+        .expect(201);
+
+      const historical = await asUser(userId)
+        .get(`/users/${userId}/balance?date=${beforeWithdrawal}`)
+        .expect(200);
+      const current = await asUser(userId)
+        .get(`/users/${userId}/balance`)
+        .expect(200);
+
+      expect(historical.body.balance).toBe(10000);
+      expect(current.body.balance).toBe(6000);
+    });
+  });
+});
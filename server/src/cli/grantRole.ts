@@ -0,0 +1,46 @@
+// IMPORTANT: Must be imported first to extend Zod globally
+import '../init';
+
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import { grantRole } from '../services/roles';
+
+const USAGE = `Usage: npm run roles:grant -- <email> <role>
+
+Grants a role (admin, operator, auditor or issuer) to the user with the
+given email and prints the grant as JSON. Use it to make the first admin,
+who can then grant roles with POST /admin/users/:id/roles.
+
+Exit status: 0 on success, 2 on any error.`;
+
+async function main(): Promise<number> {
+  const [email, role] = process.argv.slice(2);
+
+  if (!email || !role || process.argv.length > 4) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  try {
+    const user = await db.selectOne('users', { email }, { columns: ['id'] }).run(pool);
+
+    if (!user) {
+      throw new Error('User not found.');
+    }
+
+    const grant = await grantRole(user.id, role, null);
+
+    console.log(JSON.stringify(grant, null, 2));
+
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  } finally {
+    await pool.end();
+  }
+}
+
+main().then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,67 @@
+// IMPORTANT: Must be imported first to extend Zod globally
+import '../init';
+
+import { createReadStream } from 'fs';
+import { pool } from '../db';
+import { importLedger } from '../services/imports';
+import { DEFAULT_IMPORT_CHUNK_SIZE, MAX_IMPORT_CHUNK_SIZE } from '../schemas/imports';
+
+const USAGE = `Usage: npm run ledger:import -- <file.csv> [--commit] [--chunk-size=N]
+
+Validates a CSV file of historical deposits and transfers and prints the
+report as JSON. Nothing is written unless --commit is given; run without it
+first and fix the rows it reports. Rows are written ${DEFAULT_IMPORT_CHUNK_SIZE} at a time by default.
+
+Exit status: 0 if every row is valid, 1 if some are not, 2 on any other error.`;
+
+function parseArgs(args: string[]): { file: string; commit: boolean; chunkSize?: number } | undefined {
+  let file: string | undefined;
+  let commit = false;
+  let chunkSize: number | undefined;
+
+  for (const arg of args) {
+    if (arg === '--commit') {
+      commit = true;
+    } else if (arg.startsWith('--chunk-size=')) {
+      chunkSize = Number(arg.slice('--chunk-size='.length));
+      if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_IMPORT_CHUNK_SIZE) {
+        return undefined;
+      }
+    } else if (!arg.startsWith('--') && file === undefined) {
+      file = arg;
+    } else {
+      return undefined;
+    }
+  }
+
+  return file === undefined ? undefined : { file, commit, chunkSize };
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  try {
+    const report = await importLedger(createReadStream(args.file, { encoding: 'utf8' }), {
+      dryRun: !args.commit,
+      chunkSize: args.chunkSize,
+    });
+
+    console.log(JSON.stringify(report, null, 2));
+
+    return report.invalid_rows > 0 ? 1 : 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  } finally {
+    await pool.end();
+  }
+}
+
+main().then(code => {
+  process.exitCode = code;
+});
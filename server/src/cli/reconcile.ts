@@ -0,0 +1,38 @@
+// IMPORTANT: Must be imported first to extend Zod globally
+import '../init';
+
+import { pool } from '../db';
+import { runReconciliation } from '../services/reconciliation';
+
+const USAGE = `Usage: npm run ledger:reconcile
+
+Checks the ledger's invariants and prints the report as JSON: customer
+balances add up to the money that entered minus the money that left, no
+customer balance was ever negative, every balance checkpoint matches the
+ledger, and no failed transaction row is orphaned. Nothing is changed.
+
+Exit status: 0 if every check passes, 1 if any found drift, 2 on any other error.`;
+
+async function main(): Promise<number> {
+  if (process.argv.length > 2) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  try {
+    const report = await runReconciliation();
+
+    console.log(JSON.stringify(report, null, 2));
+
+    return report.ok ? 0 : 1;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  } finally {
+    await pool.end();
+  }
+}
+
+main().then(code => {
+  process.exitCode = code;
+});
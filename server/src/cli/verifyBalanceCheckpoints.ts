@@ -0,0 +1,37 @@
+// IMPORTANT: Must be imported first to extend Zod globally
+import '../init';
+
+import { pool } from '../db';
+import { verifyBalanceCheckpoints } from '../services/balanceCheckpoints';
+
+const USAGE = `Usage: npm run ledger:verify-checkpoints
+
+Recomputes every balance checkpoint from the full ledger and prints the
+result as JSON. Checkpoints that do not match are deleted, so balances fall
+back to an earlier checkpoint; investigate every one reported.
+
+Exit status: 0 if every checkpoint matches, 1 if some do not, 2 on any other error.`;
+
+async function main(): Promise<number> {
+  if (process.argv.length > 2) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  try {
+    const verification = await verifyBalanceCheckpoints();
+
+    console.log(JSON.stringify(verification, null, 2));
+
+    return verification.mismatches.length > 0 ? 1 : 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  } finally {
+    await pool.end();
+  }
+}
+
+main().then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,38 @@
+// IMPORTANT: Must be imported first to extend Zod globally
+import '../init';
+
+import { pool } from '../db';
+import { verifyLedgerChain } from '../services/ledgerChain';
+
+const USAGE = `Usage: npm run ledger:verify
+
+Walks the hash chain over every ledger entry, checks the chain head and the
+signed checkpoints of it, and prints the result as JSON. The first entry
+that does not verify is reported as broken_link. Signatures are checked with
+the public half of LEDGER_SIGNING_KEY when it is set.
+
+Exit status: 0 if everything verifies, 1 if something does not, 2 on any other error.`;
+
+async function main(): Promise<number> {
+  if (process.argv.length > 2) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  try {
+    const verification = await verifyLedgerChain();
+
+    console.log(JSON.stringify(verification, null, 2));
+
+    return verification.ok ? 0 : 1;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 2;
+  } finally {
+    await pool.end();
+  }
+}
+
+main().then(code => {
+  process.exitCode = code;
+});
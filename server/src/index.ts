@@ -3,23 +3,39 @@ import './init';
 
 import express from 'express';
 import swaggerUi from 'swagger-ui-express';
+import authRouter from './routes/auth';
 import transactionsRouter from './routes/transactions';
 import usersRouter from './routes/users';
+import accountsRouter from './routes/accounts';
+import conversionsRouter from './routes/conversions';
+import holdsRouter from './routes/holds';
+import scheduledTransfersRouter from './routes/scheduledTransfers';
+import statementsRouter from './routes/statements';
+import exportsRouter from './routes/exports';
+import importsRouter from './routes/imports';
+import reconciliationRouter from './routes/reconciliation';
+import ledgerChainRouter from './routes/ledgerChain';
+import apiKeysRouter from './routes/apiKeys';
 import { openApiSpec } from './openapi';
+import { authenticate, captureRawBody } from './middleware/auth';
+import { startScheduledTransferWorker } from './workers/scheduledTransfers';
+import { startBalanceCheckpointWorker } from './workers/balanceCheckpoints';
+import { startLedgerChainCheckpointWorker } from './workers/ledgerChainCheckpoints';
+import { startLedgerRootWorker } from './workers/ledgerRoots';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
+const SCHEDULED_TRANSFERS_INTERVAL_MS = Number(process.env.SCHEDULED_TRANSFERS_INTERVAL_MS) || 60000;
+const BALANCE_CHECKPOINT_INTERVAL_MS = Number(process.env.BALANCE_CHECKPOINT_INTERVAL_MS) || 3600000;
+const LEDGER_CHECKPOINT_INTERVAL_MS = Number(process.env.LEDGER_CHECKPOINT_INTERVAL_MS) || 3600000;
+const LEDGER_ROOT_INTERVAL_MS = Number(process.env.LEDGER_ROOT_INTERVAL_MS) || 3600000;
 
-// Middleware
-app.use(express.json());
+// Middleware; signed requests are checked against the body as sent
+app.use(express.json({ verify: captureRawBody }));
 
 // Swagger UI
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(openApiSpec));
 
-// Routes
-app.use('/', transactionsRouter);
-app.use('/', usersRouter);
-
 // OpenAPI spec endpoint
 app.get('/openapi.json', (req, res) => {
   res.json(openApiSpec);
@@ -30,8 +46,42 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok' });
 });
 
+// Public routes: login and sign-up
+app.use('/', authRouter);
+app.use('/', usersRouter);
+
+// Every route below requires an access token or an API key
+app.use(authenticate);
+
+// Routes
+app.use('/', transactionsRouter);
+app.use('/', accountsRouter);
+app.use('/', conversionsRouter);
+app.use('/', holdsRouter);
+app.use('/', scheduledTransfersRouter);
+app.use('/', statementsRouter);
+app.use('/', exportsRouter);
+app.use('/', importsRouter);
+app.use('/', reconciliationRouter);
+app.use('/', ledgerChainRouter);
+app.use('/', apiKeysRouter);
+
 app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
   console.log(`Swagger UI available at http://localhost:${PORT}/api-docs`);
   console.log(`OpenAPI spec available at http://localhost:${PORT}/openapi.json`);
+
+  startScheduledTransferWorker(SCHEDULED_TRANSFERS_INTERVAL_MS);
+  startBalanceCheckpointWorker(BALANCE_CHECKPOINT_INTERVAL_MS);
+  startLedgerRootWorker(LEDGER_ROOT_INTERVAL_MS);
+
+  if (!process.env.AUTH_TOKEN_SECRET) {
+    console.warn('AUTH_TOKEN_SECRET is not set; logins and authenticated requests will fail');
+  }
+
+  if (process.env.LEDGER_SIGNING_KEY) {
+    startLedgerChainCheckpointWorker(LEDGER_CHECKPOINT_INTERVAL_MS);
+  } else {
+    console.warn('LEDGER_SIGNING_KEY is not set; the ledger hash chain will not be signed');
+  }
 });
@@ -0,0 +1,193 @@
+import type { IncomingMessage } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+import { authenticateAccessToken, type AuthenticatedUser } from '../services/auth';
+import { authenticateApiKey, verifySignedRequest } from '../services/apiKeys';
+import { enforcePolicy, type PolicyResource } from '../services/policies';
+import { SIGNATURE_HEADERS } from '../services/requestSigning';
+import { hasPermission, type Permission } from '../services/roles';
+import type { ApiKeyScope } from '../schemas/apiKeys';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by authenticate
+      user?: AuthenticatedUser;
+      // Set by captureRawBody: the body as sent, which signatures cover
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * Keeps the body of JSON requests as sent, for requireSignature:
+ * app.use(express.json({ verify: captureRawBody }))
+ */
+export function captureRawBody(req: IncomingMessage, _res: unknown, body: Buffer) {
+  (req as Request).rawBody = body;
+}
+
+// The route a request was refused on, as recorded in the audit log
+const endpoint = (req: Request): PolicyResource => ({ type: 'endpoint', id: `${req.method} ${req.baseUrl}${req.path}` });
+
+/**
+ * Requires an access token ("Authorization: Bearer <token>") or an API key
+ * ("X-API-Key: <key>") and attaches its user to req.user; responds 401
+ * without a valid one, and 403 to a key used from outside its allow-list
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  const apiKey = req.headers['x-api-key'];
+  const [scheme, token] = req.headers.authorization?.split(' ') ?? [];
+
+  if (typeof apiKey !== 'string' && (scheme !== 'Bearer' || !token)) {
+    res.status(401).json({ error: 'Authentication required.' });
+    return;
+  }
+
+  try {
+    if (typeof apiKey === 'string') {
+      const user = await authenticateApiKey(apiKey, req.ip);
+
+      if (!user) {
+        res.status(401).json({ error: 'Invalid or expired API key.' });
+        return;
+      }
+
+      req.user = user;
+    } else {
+      const user = await authenticateAccessToken(token);
+
+      if (!user) {
+        res.status(401).json({ error: 'Invalid or expired access token.' });
+        return;
+      }
+
+      req.user = user;
+    }
+
+    next();
+  } catch (error) {
+    if (error instanceof Error && error.message === 'API key not allowed from this address.') {
+      res.status(403).json({ error: error.message });
+    } else {
+      console.error('Error authenticating request:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+}
+
+/**
+ * Lets requests made with an API key through only if the key has a scope;
+ * requests made with an access token are not limited by scopes. Responds
+ * 403 otherwise and records the refusal in the audit log:
+ * router.get('/users/:id/balance', requireScope('balance:read'), ...)
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const { apiKey } = req.user!;
+
+    if (!apiKey) {
+      next();
+      return;
+    }
+
+    try {
+      await enforcePolicy(req, scope, endpoint(req), apiKey.scopes.includes(scope));
+
+      next();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else {
+        console.error('Error authorizing request:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  };
+}
+
+/**
+ * Refuses requests made with an API key, for endpoints no scope covers
+ * (administration, roles, API keys themselves); responds 403 and records
+ * the refusal in the audit log
+ */
+export async function requireAccessToken(req: Request, res: Response, next: NextFunction) {
+  if (!req.user!.apiKey) {
+    next();
+    return;
+  }
+
+  try {
+    await enforcePolicy(req, 'api_keys.use', endpoint(req), false);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Forbidden.') {
+      res.status(403).json({ error: error.message });
+    } else {
+      console.error('Error authorizing request:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+}
+
+/**
+ * Requires requests made with an API key that must sign its requests to
+ * carry a valid signature (services/requestSigning.ts); other requests go
+ * through. Responds 401 to missing, invalid, stale and replayed signatures,
+ * which are recorded in the audit log
+ */
+export async function requireSignature(req: Request, res: Response, next: NextFunction) {
+  const { apiKey } = req.user!;
+
+  if (!apiKey?.requireSignature) {
+    next();
+    return;
+  }
+
+  try {
+    await verifySignedRequest(
+      { user: { ...req.user!, apiKey }, ip: req.ip },
+      { method: req.method, path: req.originalUrl, body: req.rawBody },
+      {
+        timestamp: req.header(SIGNATURE_HEADERS.timestamp),
+        nonce: req.header(SIGNATURE_HEADERS.nonce),
+        signature: req.header(SIGNATURE_HEADERS.signature),
+      }
+    );
+
+    next();
+  } catch (error) {
+    if (error instanceof Error && (
+      error.message === 'Request signature required.'
+      || error.message === 'Request timestamp outside the allowed window.'
+      || error.message === 'Invalid request signature.'
+      || error.message === 'Request nonce already used.'
+    )) {
+      res.status(401).json({ error: error.message });
+    } else {
+      console.error('Error verifying request signature:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+}
+
+/**
+ * Lets only users whose roles grant a permission through; responds 403 to
+ * other users and records the refusal in the audit log. Used on routes
+ * registered after authenticate:
+ * router.post('/users/:id/deposit', requirePermission('deposits:issue'), ...)
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await enforcePolicy(req, permission, endpoint(req), hasPermission(req.user!.id, permission));
+
+      next();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else {
+        console.error('Error authorizing request:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  };
+}
@@ -4,11 +4,58 @@ import {
   CreateTransactionSchema,
   TransactionSchema,
   CreateDepositSchema,
+  CreateWithdrawalSchema,
+  CreateReversalSchema,
+  CreateSplitPaymentSchema,
+  SplitPaymentSchema,
+  TransactionHistoryPageSchema,
+  TransactionHistoryQuerySchema,
+  CreateBatchSchema,
+  BatchSchema,
+  BatchFailureSchema,
   UserBalanceSchema,
   BalanceQuerySchema,
   UserIdPathSchema,
+  TransactionIdPathSchema,
 } from '../schemas/transactions';
 import { CreateUserSchema, UserSchema } from '../schemas/users';
+import { RoleSchema, GrantRoleSchema, UserRoleSchema, UserRolePathSchema } from '../schemas/roles';
+import { LoginSchema, RefreshSessionSchema, AuthTokensSchema } from '../schemas/auth';
+import { ApiKeyPathSchema, ApiKeySchema, CreateApiKeySchema, CreatedApiKeySchema, SignatureHeadersSchema } from '../schemas/apiKeys';
+import {
+  CreateAccountSchema,
+  AccountSchema,
+  CreateAccountTransferSchema,
+  AccountBalanceSchema,
+  AccountIdPathSchema,
+  CreateAccountDelegationSchema,
+  AccountDelegationSchema,
+  AccountDelegationPathSchema,
+} from '../schemas/accounts';
+import {
+  CreateExchangeRateSchema,
+  ExchangeRateSchema,
+  ExchangeRateQuerySchema,
+  CreateConversionSchema,
+  ConversionSchema,
+} from '../schemas/conversions';
+import {
+  CreateHoldSchema,
+  CaptureHoldSchema,
+  HoldSchema,
+  HoldIdPathSchema,
+} from '../schemas/holds';
+import {
+  CreateScheduledTransferSchema,
+  UpdateScheduledTransferSchema,
+  ScheduledTransferSchema,
+  ScheduledTransferPathSchema,
+} from '../schemas/scheduledTransfers';
+import { StatementQuerySchema, StatementSchema } from '../schemas/statements';
+import { ExportQuerySchema } from '../schemas/exports';
+import { ImportQuerySchema, ImportReportSchema, ImportFailureSchema } from '../schemas/imports';
+import { ReconciliationReportSchema } from '../schemas/reconciliation';
+import { LedgerVerificationSchema, TransactionProofSchema } from '../schemas/ledgerChain';
 
 export const openApiSpec = createDocument({
   openapi: '3.1.0',
@@ -23,12 +70,118 @@ export const openApiSpec = createDocument({
       description: 'Development server',
     },
   ],
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+        description: 'Access token from POST /auth/login or POST /auth/refresh. Requests without a valid one get 401',
+      },
+      apiKeyAuth: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key',
+        description: 'API key from POST /users/{id}/api-keys, acting as its user. Operations that accept one list the scope it needs; a key without that scope gets 403, as does a key used from an address outside its allow-list. Unknown, revoked and expired keys get 401. Keys created with require_signature must also sign their requests to the operations that need the transactions:write scope, which move money',
+      },
+    },
+  },
+  // Every operation requires an access token unless it overrides this; those
+  // that also accept an API key list apiKeyAuth with the scope it needs
+  security: [{ bearerAuth: [] }],
   paths: {
+    '/auth/login': {
+      post: {
+        summary: 'Log in',
+        description: 'Check a user\'s email and password and open a session. Returns an access token, valid for 15 minutes, and a refresh token. A password hashed with other parameters than the current PASSWORD_HASH_COST is rehashed',
+        tags: ['Auth'],
+        security: [],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: LoginSchema,
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Logged in',
+            content: {
+              'application/json': {
+                schema: AuthTokensSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Validation error',
+          },
+          '401': {
+            description: 'Invalid email or password',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/auth/refresh': {
+      post: {
+        summary: 'Refresh a session',
+        description: 'Exchange a refresh token for a new access token and a new refresh token. Each refresh token works once: presenting one that was already used revokes its session',
+        tags: ['Auth'],
+        security: [],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: RefreshSessionSchema,
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'New tokens',
+            content: {
+              'application/json': {
+                schema: AuthTokensSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Validation error',
+          },
+          '401': {
+            description: 'Invalid refresh token (unknown, used, expired, or its session has ended)',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/auth/logout': {
+      post: {
+        summary: 'Log out',
+        description: 'End the session of the access token: its access and refresh tokens stop working immediately. Other sessions of the user are not affected',
+        tags: ['Auth'],
+        responses: {
+          '204': {
+            description: 'Logged out',
+          },
+          '401': {
+            description: 'Missing or invalid access token',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
     '/users': {
       post: {
         summary: 'Create a new user',
         description: 'Register a new user account',
         tags: ['Users'],
+        security: [],
         requestBody: {
           content: {
             'application/json': {
@@ -60,8 +213,12 @@ export const openApiSpec = createDocument({
     '/transactions': {
       post: {
         summary: 'Create a new transaction',
-        description: 'Execute a financial transfer between two users with JIT balance verification',
+        description: 'Execute a financial transfer between two users with JIT balance verification. The caller must be the source user or a delegate of their account in the currency. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
         tags: ['Transactions'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+        },
         requestBody: {
           content: {
             'application/json': {
@@ -79,7 +236,198 @@ export const openApiSpec = createDocument({
             },
           },
           '400': {
-            description: 'Bad request (validation error or insufficient funds)',
+            description: 'Bad request (validation error, insufficient funds or unsupported currency)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller is neither the source user nor a delegate of their account, or the API key lacks the transactions:write scope',
+          },
+          '409': {
+            description: 'Concurrent requests kept conflicting and nothing was applied; retry with the same idempotency key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/transactions/split': {
+      post: {
+        summary: 'Create a split payment',
+        description: 'Create one payment that debits one or more users and credits several others in one currency, e.g. a marketplace order split between seller, platform and courier. Debits and credits must sum to the same amount. The payment is a single journal entry of type split, applied atomically with sorted row locks, and appears as one item with its legs in each party\'s transaction history. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Transactions'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateSplitPaymentSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Split payment created',
+            content: {
+              'application/json': {
+                schema: SplitPaymentSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, unbalanced legs, insufficient funds or unsupported currency)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller may not debit one of the payers, or the API key lacks the transactions:write scope; nothing was applied',
+          },
+          '404': {
+            description: 'A credited user was not found',
+          },
+          '409': {
+            description: 'Concurrent requests kept conflicting and nothing was applied; retry with the same idempotency key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/transactions/batch': {
+      post: {
+        summary: 'Create a batch of transfers',
+        description: 'Apply many transfers between users (e.g. a payroll run) all-or-nothing in one database transaction, under a single idempotency key. The accounts of every leg are locked in sorted order and the legs are applied in request order, so a leg may spend funds received earlier in the batch. If any leg fails, no leg is applied and the response reports which one failed. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Transactions'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateBatchSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Every leg applied',
+            content: {
+              'application/json': {
+                schema: BatchSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, or a leg failed for insufficient funds or an unsupported currency; no leg was applied)',
+            content: {
+              'application/json': {
+                schema: BatchFailureSchema,
+              },
+            },
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller may not debit the source user of a leg, or the API key lacks the transactions:write scope; no leg was applied',
+          },
+          '404': {
+            description: 'A leg\'s recipient was not found; no leg was applied',
+            content: {
+              'application/json': {
+                schema: BatchFailureSchema,
+              },
+            },
+          },
+          '409': {
+            description: 'Concurrent requests kept conflicting and nothing was applied; retry with the same idempotency key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/transactions/{id}/reverse': {
+      post: {
+        summary: 'Reverse a transaction',
+        description: 'Undo a deposit, withdrawal or transfer, fully or partially, with a compensating reversal entry linked to the original through reverses_transaction_id. The original recipient must still hold the reversed amount, and the reversals of a transaction can never exceed its amount. A reversal debits the original recipient, so only they (or a delegate of the credited account) can reverse a transfer, besides holders of the transactions:reverse permission (operator and admin roles). Deposits and withdrawals can only be reversed by holders of transactions:reverse. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Transactions'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+          path: TransactionIdPathSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateReversalSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Reversal successful',
+            content: {
+              'application/json': {
+                schema: TransactionSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, insufficient funds, reversal exceeds original amount or transaction cannot be reversed)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller may not debit the account the transfer credited, or lacks transactions:reverse for a deposit or withdrawal, or the API key lacks the transactions:write scope',
+          },
+          '404': {
+            description: 'Transaction not found',
+          },
+          '409': {
+            description: 'Concurrent requests kept conflicting and nothing was applied; retry with the same idempotency key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/transactions/{id}/proof': {
+      get: {
+        summary: 'Prove a transaction is in the ledger',
+        description: 'Merkle inclusion proof of a transaction. Merkle roots are built periodically over consecutive ranges of the hash chain (at most 4096 entries each) and stored in ledger_roots for publishing. The proof holds the entry as it was hashed, postings included, and the previous entry\'s hash, the transaction\'s hash (the leaf, SHA-256(prev_hash || entry)), the root of the range it falls in, and the sibling hashes from the leaf up to that root. A leaf node is SHA-256(0x00 || leaf) and an inner node SHA-256(0x01 || left || right), over the raw bytes of the hex hashes. Check the proof against a root obtained independently of it, e.g. with verifyInclusionProof in server/src/services/merkle.ts, which also recomputes the leaf from the entry and checks that its postings balance. The caller must be a party to the transaction or hold the accounts:read permission',
+        tags: ['Transactions'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:read'] }],
+        requestParams: {
+          path: TransactionIdPathSchema,
+        },
+        responses: {
+          '200': {
+            description: 'Inclusion proof',
+            content: {
+              'application/json': {
+                schema: TransactionProofSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Validation error',
+          },
+          '404': {
+            description: 'Transaction not found, or not covered by a ledger root yet',
+          },
+          '403': {
+            description: 'The caller is not a party to the transaction and lacks accounts:read, or the API key lacks the transactions:read scope',
           },
           '500': {
             description: 'Internal server error',
@@ -90,8 +438,9 @@ export const openApiSpec = createDocument({
     '/users/{id}/balance': {
       get: {
         summary: 'Get user balance',
-        description: 'Get current balance or historical balance at a specific date',
+        description: 'Get current per-currency ledger and available balances (ledger minus active holds), or historical ledger balances at a specific date',
         tags: ['Transactions'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['balance:read'] }],
         requestParams: {
           path: UserIdPathSchema,
           query: BalanceQuerySchema,
@@ -108,6 +457,9 @@ export const openApiSpec = createDocument({
           '400': {
             description: 'Bad request (validation error)',
           },
+          '403': {
+            description: 'Only the user and holders of accounts:read can read it, or the API key lacks the balance:read scope',
+          },
           '500': {
             description: 'Internal server error',
           },
@@ -117,22 +469,27 @@ export const openApiSpec = createDocument({
     '/users/{id}/transactions': {
       get: {
         summary: 'Get user transaction history',
-        description: 'Get all transactions where user is source or destination',
+        description: 'Get a page of the transactions where user is source or destination, and the split payments the user takes part in (with their legs), newest first. Each item carries the running balance of the user\'s default account in its currency right after it. Pass next_cursor back as ?cursor= for the next page; it is null on the last page. Filter by direction, counterparty, amount range, date range, currency, external reference, or metadata key/value pairs with ?metadata[key]=value',
         tags: ['Transactions'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:read'] }],
         requestParams: {
           path: UserIdPathSchema,
+          query: TransactionHistoryQuerySchema,
         },
         responses: {
           '200': {
-            description: 'List of transactions',
+            description: 'Page of transactions',
             content: {
               'application/json': {
-                schema: z.array(TransactionSchema),
+                schema: TransactionHistoryPageSchema,
               },
             },
           },
           '400': {
-            description: 'Bad request (validation error)',
+            description: 'Bad request (validation error or invalid cursor)',
+          },
+          '403': {
+            description: 'Only the user and holders of accounts:read can read it, or the API key lacks the transactions:read scope',
           },
           '500': {
             description: 'Internal server error',
@@ -143,9 +500,11 @@ export const openApiSpec = createDocument({
     '/users/{id}/deposit': {
       post: {
         summary: 'Deposit money into user account',
-        description: 'Inject money into the system by depositing funds into a user account',
+        description: 'Inject money into the system by depositing funds into a user account. Requires the deposits:issue permission (issuer, operator and admin roles). Requests made with an API key that requires signatures must be signed (X-Signature headers)',
         tags: ['Transactions'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
         requestParams: {
+          header: SignatureHeadersSchema,
           path: UserIdPathSchema,
         },
         requestBody: {
@@ -164,9 +523,1242 @@ export const openApiSpec = createDocument({
               },
             },
           },
+          '400': {
+            description: 'Bad request (validation error or unsupported currency)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller lacks the deposits:issue permission, or the API key lacks the transactions:write scope',
+          },
+          '409': {
+            description: 'Concurrent requests kept conflicting and nothing was applied; retry with the same idempotency key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/users/{id}/withdraw': {
+      post: {
+        summary: 'Withdraw money from user account',
+        description: 'Move funds out of the system from a user account to an external destination, with JIT balance verification. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Transactions'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+          path: UserIdPathSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateWithdrawalSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Withdrawal successful',
+            content: {
+              'application/json': {
+                schema: TransactionSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error or insufficient funds)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller is neither the user nor a delegate of their account, or the API key lacks the transactions:write scope',
+          },
+          '404': {
+            description: 'User not found',
+          },
+          '409': {
+            description: 'Concurrent requests kept conflicting and nothing was applied; retry with the same idempotency key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/users/{id}/accounts': {
+      get: {
+        summary: 'List user accounts',
+        description: 'List all accounts owned by a user, default account first, with their current balances',
+        tags: ['Accounts'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['accounts:read'] }],
+        requestParams: {
+          path: UserIdPathSchema,
+        },
+        responses: {
+          '200': {
+            description: 'List of accounts',
+            content: {
+              'application/json': {
+                schema: z.array(AccountSchema),
+              },
+            },
+          },
           '400': {
             description: 'Bad request (validation error)',
           },
+          '403': {
+            description: 'Only the user and holders of accounts:read can read it, or the API key lacks the accounts:read scope',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+      post: {
+        summary: 'Open an account',
+        description: 'Open an additional account (savings pot, shared wallet, business sub-account) for a user. The caller must be the user or an admin',
+        tags: ['Accounts'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['accounts:write'] }],
+        requestParams: {
+          path: UserIdPathSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateAccountSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Account created successfully',
+            content: {
+              'application/json': {
+                schema: AccountSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error or unsupported currency)',
+          },
+          '404': {
+            description: 'User not found',
+          },
+          '403': {
+            description: 'The caller is neither the user nor an admin, or the API key lacks the accounts:write scope',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/accounts/{id}/balance': {
+      get: {
+        summary: 'Get account balance',
+        description: 'Get current ledger and available balance (ledger minus active holds), or historical ledger balance at a specific date for an account',
+        tags: ['Accounts'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['balance:read'] }],
+        requestParams: {
+          path: AccountIdPathSchema,
+          query: BalanceQuerySchema,
+        },
+        responses: {
+          '200': {
+            description: 'Account balance',
+            content: {
+              'application/json': {
+                schema: AccountBalanceSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error)',
+          },
+          '403': {
+            description: 'Only the owner, delegates of the account and holders of accounts:read can read it, or the API key lacks the balance:read scope',
+          },
+          '404': {
+            description: 'Account not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/accounts/{id}/deposit': {
+      post: {
+        summary: 'Deposit money into an account',
+        description: 'Inject money into the system by depositing funds into a specific account. Requires the deposits:issue permission (issuer, operator and admin roles). Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Accounts'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+          path: AccountIdPathSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateDepositSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Deposit successful',
+            content: {
+              'application/json': {
+                schema: TransactionSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error or currency mismatch)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller lacks the deposits:issue permission, or the API key lacks the transactions:write scope',
+          },
+          '404': {
+            description: 'Account not found',
+          },
+          '409': {
+            description: 'Concurrent requests kept conflicting and nothing was applied; retry with the same idempotency key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/accounts/{id}/withdraw': {
+      post: {
+        summary: 'Withdraw money from an account',
+        description: 'Move funds out of the system from a specific account, with JIT balance verification. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Accounts'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+          path: AccountIdPathSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateWithdrawalSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Withdrawal successful',
+            content: {
+              'application/json': {
+                schema: TransactionSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, insufficient funds or currency mismatch)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller neither owns the account nor was delegated it, or the API key lacks the transactions:write scope',
+          },
+          '404': {
+            description: 'Account not found',
+          },
+          '409': {
+            description: 'Concurrent requests kept conflicting and nothing was applied; retry with the same idempotency key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/accounts/{id}/transfer': {
+      post: {
+        summary: 'Transfer between accounts',
+        description: 'Execute a financial transfer from an account to another account (possibly owned by the same user) with JIT balance verification. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Accounts'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+          path: AccountIdPathSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateAccountTransferSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Transfer successful',
+            content: {
+              'application/json': {
+                schema: TransactionSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, insufficient funds or currency mismatch)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller neither owns the account nor was delegated it, or the API key lacks the transactions:write scope',
+          },
+          '404': {
+            description: 'Account not found',
+          },
+          '409': {
+            description: 'Concurrent requests kept conflicting and nothing was applied; retry with the same idempotency key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/accounts/{id}/delegations': {
+      get: {
+        summary: 'List an account\'s delegates',
+        description: 'List the users allowed to debit an account besides its owner',
+        tags: ['Accounts'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['accounts:read'] }],
+        requestParams: {
+          path: AccountIdPathSchema,
+        },
+        responses: {
+          '200': {
+            description: 'Delegations of the account, oldest first',
+            content: {
+              'application/json': {
+                schema: z.array(AccountDelegationSchema),
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error)',
+          },
+          '403': {
+            description: 'Only the owner, delegates of the account and holders of accounts:read can read it, or the API key lacks the accounts:read scope',
+          },
+          '404': {
+            description: 'Account not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+      post: {
+        summary: 'Delegate an account',
+        description: 'Let another user debit an account (pay from it, withdraw from it, place and capture holds on it) as if they owned it, until the owner removes the delegation. Only the owner can delegate an account. Delegating to a user who already is a delegate returns the existing delegation',
+        tags: ['Accounts'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['accounts:write'] }],
+        requestParams: {
+          path: AccountIdPathSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateAccountDelegationSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Account delegated',
+            content: {
+              'application/json': {
+                schema: AccountDelegationSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, or the user is the owner)',
+          },
+          '403': {
+            description: 'The caller does not own the account, or the API key lacks the accounts:write scope',
+          },
+          '404': {
+            description: 'Account or user not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/accounts/{id}/delegations/{userId}': {
+      delete: {
+        summary: 'Remove a delegate',
+        description: 'Stop a user from debiting an account. Only the owner can remove a delegate; transfers already scheduled by the delegate keep running',
+        tags: ['Accounts'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['accounts:write'] }],
+        requestParams: {
+          path: AccountDelegationPathSchema,
+        },
+        responses: {
+          '204': {
+            description: 'Delegation removed',
+          },
+          '400': {
+            description: 'Bad request (validation error)',
+          },
+          '403': {
+            description: 'The caller does not own the account, or the API key lacks the accounts:write scope',
+          },
+          '404': {
+            description: 'Delegation not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/exchange-rates': {
+      get: {
+        summary: 'List exchange rates',
+        description: 'List recorded exchange rates, most recent first within each currency pair',
+        tags: ['Conversions'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:read'] }],
+        requestParams: {
+          query: ExchangeRateQuerySchema,
+        },
+        responses: {
+          '200': {
+            description: 'List of exchange rates',
+            content: {
+              'application/json': {
+                schema: z.array(ExchangeRateSchema),
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error)',
+          },
+          '403': {
+            description: 'The API key lacks the transactions:read scope',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+      post: {
+        summary: 'Record an exchange rate',
+        description: 'Record a rate for a currency pair. Rates are append-only; a newer effective time supersedes the previous rate. Requires the exchange_rates:write permission (operator and admin roles)',
+        tags: ['Conversions'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['exchange_rates:write'] }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateExchangeRateSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Exchange rate recorded',
+            content: {
+              'application/json': {
+                schema: ExchangeRateSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error or unsupported currency)',
+          },
+          '403': {
+            description: 'The caller lacks the exchange_rates:write permission, or the API key lacks the exchange_rates:write scope',
+          },
+          '409': {
+            description: 'A rate already exists for this pair and effective time',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/conversions': {
+      post: {
+        summary: 'Convert between currencies',
+        description: 'Debit one account and credit another account in a different currency at the exchange rate in effect, with JIT balance verification. The credited amount is rounded down to the destination currency\'s minor unit. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Conversions'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateConversionSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Conversion successful',
+            content: {
+              'application/json': {
+                schema: ConversionSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, insufficient funds, same currency, missing exchange rate or amount too small)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller neither owns the source account nor was delegated it, or the API key lacks the transactions:write scope',
+          },
+          '404': {
+            description: 'Account not found',
+          },
+          '409': {
+            description: 'Concurrent requests kept conflicting and nothing was applied; retry with the same idempotency key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/holds': {
+      post: {
+        summary: 'Place an authorization hold',
+        description: 'Reserve funds in the source user\'s default account for a later transfer to the destination user. No money moves: the available balance (ledger balance minus active holds) drops until the hold is captured, voided or expires. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Holds'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateHoldSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Hold placed',
+            content: {
+              'application/json': {
+                schema: HoldSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, insufficient funds or unsupported currency)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller is neither the source user nor a delegate of their account, or the API key lacks the transactions:write scope',
+          },
+          '404': {
+            description: 'User not found',
+          },
+          '409': {
+            description: 'Concurrent requests kept conflicting and nothing was applied; retry with the same idempotency key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/holds/{id}': {
+      get: {
+        summary: 'Get a hold',
+        description: 'Get a hold and its status (active, captured, voided or expired)',
+        tags: ['Holds'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:read'] }],
+        requestParams: {
+          path: HoldIdPathSchema,
+        },
+        responses: {
+          '200': {
+            description: 'Hold',
+            content: {
+              'application/json': {
+                schema: HoldSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error)',
+          },
+          '403': {
+            description: 'Only the owners and delegates of the hold\'s accounts, and holders of accounts:read, can read it, or the API key lacks the transactions:read scope',
+          },
+          '404': {
+            description: 'Hold not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/holds/{id}/capture': {
+      post: {
+        summary: 'Capture a hold',
+        description: 'Transfer the held amount, or part of it, to the destination account and release the rest. A hold is captured at most once. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Holds'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+          path: HoldIdPathSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CaptureHoldSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Hold captured',
+            content: {
+              'application/json': {
+                schema: TransactionSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, hold not active, hold expired or capture exceeds held amount)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller may not debit the hold\'s source account, or the API key lacks the transactions:write scope',
+          },
+          '404': {
+            description: 'Hold not found',
+          },
+          '409': {
+            description: 'Concurrent requests kept conflicting and nothing was applied; retry with the same idempotency key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/holds/{id}/void': {
+      post: {
+        summary: 'Void a hold',
+        description: 'Release the held funds without moving any money. Voiding a voided hold returns it unchanged. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Holds'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+          path: HoldIdPathSchema,
+        },
+        responses: {
+          '200': {
+            description: 'Hold voided',
+            content: {
+              'application/json': {
+                schema: HoldSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, or hold captured or expired)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller may not debit the hold\'s source account, or the API key lacks the transactions:write scope',
+          },
+          '404': {
+            description: 'Hold not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/users/{id}/scheduled-transfers': {
+      post: {
+        summary: 'Schedule a transfer',
+        description: 'Schedule a future-dated transfer, or a recurring one with an RRULE, from the user\'s default account. A background worker runs due occurrences through the same path as POST /transactions with a deterministic idempotency key per occurrence. Failed occurrences are logged and the schedule then pauses or retries according to failure_policy. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Scheduled Transfers'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+          path: UserIdPathSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateScheduledTransferSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Scheduled transfer created',
+            content: {
+              'application/json': {
+                schema: ScheduledTransferSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, unsupported currency or recurrence without occurrences)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller is neither the user nor a delegate of their account, or the API key lacks the transactions:write scope',
+          },
+          '404': {
+            description: 'User not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+      get: {
+        summary: 'List scheduled transfers',
+        description: 'List the scheduled transfers a user pays from, oldest first',
+        tags: ['Scheduled Transfers'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:read'] }],
+        requestParams: {
+          path: UserIdPathSchema,
+        },
+        responses: {
+          '200': {
+            description: 'Scheduled transfers',
+            content: {
+              'application/json': {
+                schema: z.array(ScheduledTransferSchema),
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error)',
+          },
+          '403': {
+            description: 'Only the user and holders of accounts:read can read it, or the API key lacks the transactions:read scope',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/users/{id}/scheduled-transfers/{scheduleId}': {
+      get: {
+        summary: 'Get a scheduled transfer',
+        description: 'Get a scheduled transfer with its next run and the outcome of its last run',
+        tags: ['Scheduled Transfers'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:read'] }],
+        requestParams: {
+          path: ScheduledTransferPathSchema,
+        },
+        responses: {
+          '200': {
+            description: 'Scheduled transfer',
+            content: {
+              'application/json': {
+                schema: ScheduledTransferSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error)',
+          },
+          '403': {
+            description: 'Only the user and holders of accounts:read can read it, or the API key lacks the transactions:read scope',
+          },
+          '404': {
+            description: 'Scheduled transfer not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+      patch: {
+        summary: 'Update a scheduled transfer',
+        description: 'Pause or resume a schedule, or change the amount and failure policy of its future occurrences. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Scheduled Transfers'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+          path: ScheduledTransferPathSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: UpdateScheduledTransferSchema,
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Scheduled transfer updated',
+            content: {
+              'application/json': {
+                schema: ScheduledTransferSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, or schedule completed or cancelled)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller is neither the user nor a delegate of their account, or the API key lacks the transactions:write scope',
+          },
+          '404': {
+            description: 'Scheduled transfer not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+      delete: {
+        summary: 'Cancel a scheduled transfer',
+        description: 'Cancel a schedule so no further occurrence runs. The schedule is kept with status cancelled. Requests made with an API key that requires signatures must be signed (X-Signature headers)',
+        tags: ['Scheduled Transfers'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:write'] }],
+        requestParams: {
+          header: SignatureHeadersSchema,
+          path: ScheduledTransferPathSchema,
+        },
+        responses: {
+          '200': {
+            description: 'Scheduled transfer cancelled',
+            content: {
+              'application/json': {
+                schema: ScheduledTransferSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, or schedule completed)',
+          },
+          '401': {
+            description: 'Missing, invalid, stale or replayed request signature, for an API key that requires signatures',
+          },
+          '403': {
+            description: 'The caller is neither the user nor a delegate of their account, or the API key lacks the transactions:write scope',
+          },
+          '404': {
+            description: 'Scheduled transfer not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/users/{id}/statements': {
+      get: {
+        summary: 'Get an account statement',
+        description: 'Statement of the user\'s default account in a currency for the period from `from` (inclusive) to `to` (exclusive): the opening balance (the balance just before `from`), every entry with its running balance, the totals in and out, and the closing balance (the balance just before `to`). Choose the representation with ?format=json|csv|html; the html document is laid out for printing',
+        tags: ['Statements'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:read'] }],
+        requestParams: {
+          path: UserIdPathSchema,
+          query: StatementQuerySchema,
+        },
+        responses: {
+          '200': {
+            description: 'Statement',
+            content: {
+              'application/json': {
+                schema: StatementSchema,
+              },
+              'text/csv': {
+                schema: z.string().meta({ description: 'One record per row: opening_balance, entry..., total_in, total_out, closing_balance, with amounts in major units' }),
+              },
+              'text/html': {
+                schema: z.string().meta({ description: 'Printable statement document' }),
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error or unsupported currency)',
+          },
+          '403': {
+            description: 'Only the user and holders of accounts:read can read it, or the API key lacks the transactions:read scope',
+          },
+          '404': {
+            description: 'User not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/users/{id}/transactions/export': {
+      get: {
+        summary: 'Export transaction history',
+        description: 'Download the movements on the user\'s default account in a currency created from `from` (inclusive) to `to` (exclusive), newest first, in a banking interchange format: ISO 20022 camt.053 (with opening and closing booked balances), OFX 2.2 (with the closing ledger balance) or QIF. The rows are those GET /users/{id}/transactions returns for the same range and currency, and the file is streamed as they are read',
+        tags: ['Exports'],
+        security: [{ bearerAuth: [] }, { apiKeyAuth: ['transactions:read'] }],
+        requestParams: {
+          path: UserIdPathSchema,
+          query: ExportQuerySchema,
+        },
+        responses: {
+          '200': {
+            description: 'Export file, sent as an attachment',
+            content: {
+              'application/xml': {
+                schema: z.string().meta({ description: 'camt.053.001.02 bank-to-customer statement' }),
+              },
+              'application/x-ofx': {
+                schema: z.string().meta({ description: 'OFX 2.2 bank statement response' }),
+              },
+              'application/qif': {
+                schema: z.string().meta({ description: 'QIF bank register' }),
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error or unsupported currency)',
+          },
+          '403': {
+            description: 'Only the user and holders of accounts:read can read it, or the API key lacks the transactions:read scope',
+          },
+          '404': {
+            description: 'User not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/admin/imports': {
+      post: {
+        summary: 'Import historical deposits and transfers',
+        description: 'Load deposits and transfers from a CSV file sent as the request body. The header names the columns, in any order: type (deposit or transfer), source_email (transfers only), destination_email, amount (minor units), and optionally currency, created_at (ISO 8601, defaults to the time of the import), description, external_reference and metadata (a JSON object). Users are resolved by email and each row is checked like a POST /users/{id}/deposit or POST /transactions request, including that transfers are covered by the balances left by the rows before them. A transfer dated before a later movement of its source account is rejected. A dry run (the default) reports the errors of every row and writes nothing. A commit writes the rows chunk by chunk with COPY, one database transaction per chunk, and stops at the first chunk with an invalid row. Each row gets an idempotency key derived from its content, so rows imported by an earlier run are skipped and an interrupted import can be run again',
+        tags: ['Admin'],
+        requestParams: {
+          query: ImportQuerySchema,
+        },
+        requestBody: {
+          content: {
+            'text/csv': {
+              schema: z.string().meta({ description: 'CSV file with a header row', example: 'type,source_email,destination_email,amount,currency,created_at\ndeposit,,alice@example.com,10000,USD,2020-01-15T09:00:00Z\ntransfer,alice@example.com,bob@example.com,2500,USD,2020-02-01T12:00:00Z\n' }),
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Report of the dry run or of the completed import',
+            content: {
+              'application/json': {
+                schema: ImportReportSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, unreadable CSV or header), or a commit stopped at invalid rows; the chunks before them were imported',
+            content: {
+              'application/json': {
+                schema: ImportFailureSchema,
+              },
+            },
+          },
+          '403': {
+            description: 'The caller lacks the ledger:import permission',
+          },
+          '415': {
+            description: 'The body is not text/csv',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/admin/reconciliation': {
+      get: {
+        summary: 'Reconcile the ledger',
+        description: 'Check the ledger\'s invariants in one database snapshot: total customer balances in each currency equal the money that entered (deposits, conversions in) minus the money that left (withdrawals, conversions out); no customer account balance was below zero at any point in its history; every balance checkpoint matches a full recomputation; and every failed transaction row points at users, accounts, a currency and a schedule that exist and belong together. Nothing is changed. Drift is reported with ok: false, not with an error status',
+        tags: ['Admin'],
+        responses: {
+          '200': {
+            description: 'Reconciliation report',
+            content: {
+              'application/json': {
+                schema: ReconciliationReportSchema,
+              },
+            },
+          },
+          '403': {
+            description: 'The caller lacks the ledger:audit permission',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/admin/ledger/verify': {
+      get: {
+        summary: 'Verify the ledger hash chain',
+        description: 'Every transaction carries chain_seq, prev_hash and hash: a SHA-256 over the previous entry\'s hash and the entry\'s own columns, computed when the entry is inserted. This walks the chain from its first entry in one database snapshot, recomputing every hash, and reports the first entry that does not verify (a missing entry, a prev_hash that is not the previous entry\'s hash, or a hash that does not match the entry), as well as a chain head that does not match the last entry. Signed checkpoints of the chain head are compared with the entries they cover and, when LEDGER_SIGNING_KEY is configured, their Ed25519 signatures are checked. Nothing is changed. A broken chain is reported with ok: false, not with an error status',
+        tags: ['Admin'],
+        responses: {
+          '200': {
+            description: 'Ledger verification report',
+            content: {
+              'application/json': {
+                schema: LedgerVerificationSchema,
+              },
+            },
+          },
+          '403': {
+            description: 'The caller lacks the ledger:audit permission',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/admin/roles': {
+      get: {
+        summary: 'List roles',
+        description: 'List the roles and the permissions each grants. The admin role grants every permission; operator: accounts:read, deposits:issue, exchange_rates:write, ledger:audit and transactions:reverse; auditor: accounts:read and ledger:audit; issuer: deposits:issue. Requires the roles:manage permission',
+        tags: ['Admin'],
+        responses: {
+          '200': {
+            description: 'Roles by name',
+            content: {
+              'application/json': {
+                schema: z.array(RoleSchema),
+              },
+            },
+          },
+          '403': {
+            description: 'The caller lacks the roles:manage permission',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/admin/users/{id}/roles': {
+      get: {
+        summary: 'List a user\'s roles',
+        description: 'List the roles granted to a user. Requires the roles:manage permission',
+        tags: ['Admin'],
+        requestParams: {
+          path: UserIdPathSchema,
+        },
+        responses: {
+          '200': {
+            description: 'Roles granted to the user, oldest first',
+            content: {
+              'application/json': {
+                schema: z.array(UserRoleSchema),
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error)',
+          },
+          '403': {
+            description: 'The caller lacks the roles:manage permission',
+          },
+          '404': {
+            description: 'User not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+      post: {
+        summary: 'Grant a role',
+        description: 'Grant a role to a user. Granting a role the user already holds returns the existing grant. Grants are recorded in the audit log. Requires the roles:manage permission',
+        tags: ['Admin'],
+        requestParams: {
+          path: UserIdPathSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: GrantRoleSchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Role granted',
+            content: {
+              'application/json': {
+                schema: UserRoleSchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error)',
+          },
+          '403': {
+            description: 'The caller lacks the roles:manage permission',
+          },
+          '404': {
+            description: 'User or role not found',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/admin/users/{id}/roles/{role}': {
+      delete: {
+        summary: 'Revoke a role',
+        description: 'Take a role back from a user. Revocations are recorded in the audit log. Requires the roles:manage permission',
+        tags: ['Admin'],
+        requestParams: {
+          path: UserRolePathSchema,
+        },
+        responses: {
+          '204': {
+            description: 'Role revoked',
+          },
+          '400': {
+            description: 'Bad request (validation error)',
+          },
+          '403': {
+            description: 'The caller lacks the roles:manage permission',
+          },
+          '404': {
+            description: 'The user does not hold the role',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/users/{id}/api-keys': {
+      get: {
+        summary: 'List a user\'s API keys',
+        description: 'List the API keys of the caller, revoked and expired ones included. The keys themselves are not returned. Requires an access token',
+        tags: ['API Keys'],
+        requestParams: {
+          path: UserIdPathSchema,
+        },
+        responses: {
+          '200': {
+            description: 'API keys, oldest first',
+            content: {
+              'application/json': {
+                schema: z.array(ApiKeySchema),
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error)',
+          },
+          '403': {
+            description: 'The caller is not the user, or used an API key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+      post: {
+        summary: 'Create an API key',
+        description: 'Create a key for a service that cannot log in. Requests made with it (in the X-API-Key header) act as the user, limited to the key\'s scopes and, if given, to the addresses of its allow-list, until it expires or is revoked. For an organization, create the keys as a user dedicated to the service. The key is only in this response: store it, as it cannot be retrieved again. Requires an access token',
+        tags: ['API Keys'],
+        requestParams: {
+          path: UserIdPathSchema,
+        },
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: CreateApiKeySchema,
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'API key created',
+            content: {
+              'application/json': {
+                schema: CreatedApiKeySchema,
+              },
+            },
+          },
+          '400': {
+            description: 'Bad request (validation error, or an expiry in the past)',
+          },
+          '403': {
+            description: 'The caller is not the user, or used an API key',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/users/{id}/api-keys/{keyId}': {
+      delete: {
+        summary: 'Revoke an API key',
+        description: 'Stop an API key from working. The key is kept, with revoked_at set. Requires an access token',
+        tags: ['API Keys'],
+        requestParams: {
+          path: ApiKeyPathSchema,
+        },
+        responses: {
+          '204': {
+            description: 'API key revoked',
+          },
+          '400': {
+            description: 'Bad request (validation error)',
+          },
+          '403': {
+            description: 'The caller is not the user, or used an API key',
+          },
+          '404': {
+            description: 'API key not found, or already revoked',
+          },
           '500': {
             description: 'Internal server error',
           },
@@ -177,6 +1769,7 @@ export const openApiSpec = createDocument({
       get: {
         summary: 'Health check',
         tags: ['System'],
+        security: [],
         responses: {
           '200': {
             description: 'Service is healthy',
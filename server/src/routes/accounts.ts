@@ -0,0 +1,401 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  createAccount,
+  delegateAccount,
+  getAccount,
+  getAccountAvailableBalance,
+  getAccountBalance,
+  getAccountBalanceOnDate,
+  listAccountDelegations,
+  listUserAccounts,
+  revokeAccountDelegation,
+} from '../services/accounts';
+import { executeAccountDeposit, executeAccountTransfer, executeAccountWithdrawal } from '../services/transactions';
+import { canDebitAccount, canManageAccount, canOpenAccount, canReadAccount, canReadUser, enforcePolicy } from '../services/policies';
+import { AccountDelegationPathSchema, AccountIdPathSchema, CreateAccountDelegationSchema, CreateAccountSchema, CreateAccountTransferSchema } from '../schemas/accounts';
+import { BalanceQuerySchema, CreateDepositSchema, CreateWithdrawalSchema, UserIdPathSchema } from '../schemas/transactions';
+import { DEFAULT_CURRENCY } from '../schemas/currencies';
+import { requirePermission, requireScope, requireSignature } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * GET /users/:id/accounts
+ * List a user's accounts with their current balances
+ */
+router.get('/users/:id/accounts', requireScope('accounts:read'), async (req, res) => {
+  try {
+    const validatedParams = UserIdPathSchema.parse(req.params);
+
+    await enforcePolicy(
+      req,
+      'accounts.read',
+      { type: 'user', id: validatedParams.id },
+      canReadUser(req.user!.id, validatedParams.id)
+    );
+
+    const accounts = await listUserAccounts(validatedParams.id);
+
+    res.json(accounts);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Forbidden.') {
+      res.status(403).json({ error: error.message });
+    } else {
+      console.error('Error fetching accounts:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /users/:id/accounts
+ * Open an additional account (savings pot, shared wallet, business sub-account) for a user
+ */
+router.post('/users/:id/accounts', requireScope('accounts:write'), async (req, res) => {
+  try {
+    const validatedParams = UserIdPathSchema.parse(req.params);
+    const validatedBody = CreateAccountSchema.parse(req.body);
+
+    await enforcePolicy(
+      req,
+      'accounts.create',
+      { type: 'user', id: validatedParams.id },
+      canOpenAccount(req.user!.id, validatedParams.id)
+    );
+
+    const account = await createAccount({
+      userId: validatedParams.id,
+      name: validatedBody.name,
+      kind: validatedBody.kind,
+      currency: validatedBody.currency ?? DEFAULT_CURRENCY,
+    });
+
+    const accountWithBalance = await getAccount(account.id);
+
+    res.status(201).json({ ...accountWithBalance, balance: 0 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Unsupported currency.') {
+      res.status(400).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Forbidden.') {
+      res.status(403).json({ error: error.message });
+    } else if (error instanceof Error && 'code' in error && error.code === '23503') {
+      // Foreign key violation (owner does not exist)
+      res.status(404).json({ error: 'User not found' });
+    } else {
+      console.error('Error creating account:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /accounts/:id/balance
+ * Get the current ledger and available balance for an account (or balance at a specific date if ?date= query param provided)
+ */
+router.get('/accounts/:id/balance', requireScope('balance:read'), async (req, res) => {
+  try {
+    const validatedParams = AccountIdPathSchema.parse(req.params);
+    const validatedQuery = BalanceQuerySchema.parse(req.query);
+
+    await enforcePolicy(
+      req,
+      'balance.read',
+      { type: 'account', id: validatedParams.id },
+      canReadAccount(req.user!.id, validatedParams.id)
+    );
+
+    const account = await getAccount(validatedParams.id);
+
+    if (!account) {
+      res.status(404).json({ error: 'Account not found.' });
+      return;
+    }
+
+    if (validatedQuery.date) {
+      const balance = await getAccountBalanceOnDate(account.id, new Date(validatedQuery.date));
+
+      res.json({ account_id: account.id, currency: account.currency, balance, minor_units: account.minor_units });
+      return;
+    }
+
+    // Holds only affect the current balance, so historical balances have no available balance
+    const [balance, availableBalance] = await Promise.all([
+      getAccountBalance(account.id),
+      getAccountAvailableBalance(account.id),
+    ]);
+
+    res.json({
+      account_id: account.id,
+      currency: account.currency,
+      balance,
+      available_balance: availableBalance,
+      minor_units: account.minor_units,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Forbidden.') {
+      res.status(403).json({ error: error.message });
+    } else {
+      console.error('Error fetching account balance:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /accounts/:id/deposit
+ * Deposit money into an account (inject money into the system)
+ * Requires the deposits:issue permission
+ */
+router.post('/accounts/:id/deposit', requireScope('transactions:write'), requireSignature, requirePermission('deposits:issue'), async (req, res) => {
+  try {
+    const validatedParams = AccountIdPathSchema.parse(req.params);
+    const validatedBody = CreateDepositSchema.parse(req.body);
+
+    const transaction = await executeAccountDeposit({
+      idempotencyKey: validatedBody.idempotency_key,
+      accountId: validatedParams.id,
+      amount: validatedBody.amount,
+      currency: validatedBody.currency,
+      description: validatedBody.description,
+      externalReference: validatedBody.external_reference,
+      metadata: validatedBody.metadata,
+    });
+
+    res.status(201).json(transaction);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Currency mismatch.') {
+      res.status(400).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Account not found.') {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Transaction conflict, please retry.') {
+      res.status(409).json({ error: error.message });
+    } else {
+      console.error('Error creating account deposit:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /accounts/:id/withdraw
+ * Withdraw money from an account (money leaves the system to an external sink)
+ */
+router.post('/accounts/:id/withdraw', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  try {
+    const validatedParams = AccountIdPathSchema.parse(req.params);
+    const validatedBody = CreateWithdrawalSchema.parse(req.body);
+
+    await enforcePolicy(
+      req,
+      'accounts.withdraw',
+      { type: 'account', id: validatedParams.id },
+      canDebitAccount(req.user!.id, validatedParams.id)
+    );
+
+    const transaction = await executeAccountWithdrawal({
+      idempotencyKey: validatedBody.idempotency_key,
+      accountId: validatedParams.id,
+      amount: validatedBody.amount,
+      currency: validatedBody.currency,
+    });
+
+    res.status(201).json(transaction);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Insufficient funds.' || error.message === 'Currency mismatch.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Account not found.') {
+        res.status(404).json({ error: error.message });
+      } else if (error.message === 'Transaction conflict, please retry.') {
+        res.status(409).json({ error: error.message });
+      } else {
+        console.error('Error creating account withdrawal:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /accounts/:id/transfer
+ * Transfer money from an account to another account (which may belong to the same user)
+ */
+router.post('/accounts/:id/transfer', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  try {
+    const validatedParams = AccountIdPathSchema.parse(req.params);
+    const validatedBody = CreateAccountTransferSchema
+      .refine((data) => data.destination_account_id !== validatedParams.id, {
+        message: 'Source and destination accounts must be different',
+      })
+      .parse(req.body);
+
+    await enforcePolicy(
+      req,
+      'accounts.transfer',
+      { type: 'account', id: validatedParams.id },
+      canDebitAccount(req.user!.id, validatedParams.id)
+    );
+
+    const transaction = await executeAccountTransfer({
+      idempotencyKey: validatedBody.idempotency_key,
+      sourceAccountId: validatedParams.id,
+      destinationAccountId: validatedBody.destination_account_id,
+      amount: validatedBody.amount,
+      description: validatedBody.description,
+      externalReference: validatedBody.external_reference,
+      metadata: validatedBody.metadata,
+    });
+
+    res.status(201).json(transaction);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Insufficient funds.' || error.message === 'Currency mismatch.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Account not found.') {
+        res.status(404).json({ error: error.message });
+      } else if (error.message === 'Transaction conflict, please retry.') {
+        res.status(409).json({ error: error.message });
+      } else {
+        console.error('Error creating account transfer:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /accounts/:id/delegations
+ * List the users an account is delegated to
+ */
+router.get('/accounts/:id/delegations', requireScope('accounts:read'), async (req, res) => {
+  try {
+    const validatedParams = AccountIdPathSchema.parse(req.params);
+
+    await enforcePolicy(
+      req,
+      'delegations.read',
+      { type: 'account', id: validatedParams.id },
+      canReadAccount(req.user!.id, validatedParams.id)
+    );
+
+    const delegations = await listAccountDelegations(validatedParams.id);
+
+    res.json(delegations);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Account not found.') {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error('Error fetching account delegations:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /accounts/:id/delegations
+ * Let another user debit an account (owner only)
+ */
+router.post('/accounts/:id/delegations', requireScope('accounts:write'), async (req, res) => {
+  try {
+    const validatedParams = AccountIdPathSchema.parse(req.params);
+    const validatedBody = CreateAccountDelegationSchema.parse(req.body);
+
+    await enforcePolicy(
+      req,
+      'delegations.create',
+      { type: 'account', id: validatedParams.id },
+      canManageAccount(req.user!.id, validatedParams.id)
+    );
+
+    const delegation = await delegateAccount(validatedParams.id, validatedBody.user_id);
+
+    res.status(201).json(delegation);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'An account cannot be delegated to its owner.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Account not found.') {
+        res.status(404).json({ error: error.message });
+      } else if ('code' in error && error.code === '23503') {
+        // Foreign key violation (delegate does not exist)
+        res.status(404).json({ error: 'User not found' });
+      } else {
+        console.error('Error delegating account:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * DELETE /accounts/:id/delegations/:userId
+ * Stop a user from debiting an account (owner only)
+ */
+router.delete('/accounts/:id/delegations/:userId', requireScope('accounts:write'), async (req, res) => {
+  try {
+    const validatedParams = AccountDelegationPathSchema.parse(req.params);
+
+    await enforcePolicy(
+      req,
+      'delegations.delete',
+      { type: 'account', id: validatedParams.id },
+      canManageAccount(req.user!.id, validatedParams.id)
+    );
+
+    await revokeAccountDelegation(validatedParams.id, validatedParams.userId);
+
+    res.status(204).end();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Delegation not found.') {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error('Error revoking account delegation:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
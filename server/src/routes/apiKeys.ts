@@ -0,0 +1,140 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { createApiKey, listApiKeys, revokeApiKey } from '../services/apiKeys';
+import { canManageApiKeys, enforcePolicy } from '../services/policies';
+import { recordAuditEvent } from '../services/audit';
+import { ApiKeyPathSchema, CreateApiKeySchema } from '../schemas/apiKeys';
+import { UserIdPathSchema } from '../schemas/transactions';
+import { requireAccessToken } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * POST /users/:id/api-keys
+ * Create an API key for a user. The key is in the response and cannot be retrieved again
+ */
+router.post('/users/:id/api-keys', requireAccessToken, async (req, res) => {
+  try {
+    const validatedParams = UserIdPathSchema.parse(req.params);
+    const validatedBody = CreateApiKeySchema.parse(req.body);
+
+    await enforcePolicy(
+      req,
+      'api_keys.create',
+      { type: 'user', id: validatedParams.id },
+      canManageApiKeys(req.user!.id, validatedParams.id)
+    );
+
+    const apiKey = await createApiKey(validatedParams.id, {
+      name: validatedBody.name,
+      scopes: validatedBody.scopes,
+      allowedIps: validatedBody.allowed_ips,
+      expiresAt: validatedBody.expires_at,
+      requireSignature: validatedBody.require_signature,
+    });
+
+    await recordAuditEvent({
+      actorUserId: req.user!.id,
+      action: 'api_keys.create',
+      resourceType: 'api_key',
+      resourceId: apiKey.id,
+      outcome: 'allowed',
+      ipAddress: req.ip,
+      details: { scopes: apiKey.scopes },
+    });
+
+    res.status(201).json(apiKey);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'API key expiry must be in the future.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else {
+        console.error('Error creating API key:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /users/:id/api-keys
+ * List a user's API keys, revoked and expired ones included
+ */
+router.get('/users/:id/api-keys', requireAccessToken, async (req, res) => {
+  try {
+    const validatedParams = UserIdPathSchema.parse(req.params);
+
+    await enforcePolicy(
+      req,
+      'api_keys.read',
+      { type: 'user', id: validatedParams.id },
+      canManageApiKeys(req.user!.id, validatedParams.id)
+    );
+
+    const apiKeys = await listApiKeys(validatedParams.id);
+
+    res.json(apiKeys);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Forbidden.') {
+      res.status(403).json({ error: error.message });
+    } else {
+      console.error('Error fetching API keys:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * DELETE /users/:id/api-keys/:keyId
+ * Revoke an API key (the key is kept, with revoked_at set)
+ */
+router.delete('/users/:id/api-keys/:keyId', requireAccessToken, async (req, res) => {
+  try {
+    const validatedParams = ApiKeyPathSchema.parse(req.params);
+
+    await enforcePolicy(
+      req,
+      'api_keys.revoke',
+      { type: 'api_key', id: validatedParams.keyId },
+      canManageApiKeys(req.user!.id, validatedParams.id)
+    );
+
+    await revokeApiKey(validatedParams.id, validatedParams.keyId);
+
+    await recordAuditEvent({
+      actorUserId: req.user!.id,
+      action: 'api_keys.revoke',
+      resourceType: 'api_key',
+      resourceId: validatedParams.keyId,
+      outcome: 'allowed',
+      ipAddress: req.ip,
+    });
+
+    res.status(204).end();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'API key not found.') {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error('Error revoking API key:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { login, refreshSession, revokeSession } from '../services/auth';
+import { authenticate, requireAccessToken } from '../middleware/auth';
+import { LoginSchema, RefreshSessionSchema } from '../schemas/auth';
+
+const router = Router();
+
+/**
+ * POST /auth/login
+ * Check a user's credentials and open a session
+ */
+router.post('/auth/login', async (req, res) => {
+  try {
+    const validatedBody = LoginSchema.parse(req.body);
+
+    const tokens = await login(validatedBody.email, validatedBody.password);
+
+    res.json(tokens);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Invalid email or password.') {
+      res.status(401).json({ error: error.message });
+    } else {
+      console.error('Error logging in:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /auth/refresh
+ * Exchange a refresh token for new tokens
+ */
+router.post('/auth/refresh', async (req, res) => {
+  try {
+    const validatedBody = RefreshSessionSchema.parse(req.body);
+
+    const tokens = await refreshSession(validatedBody.refresh_token);
+
+    res.json(tokens);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Invalid refresh token.') {
+      res.status(401).json({ error: error.message });
+    } else {
+      console.error('Error refreshing session:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /auth/logout
+ * End the session of the access token, revoking its tokens
+ */
+router.post('/auth/logout', authenticate, requireAccessToken, async (req, res) => {
+  try {
+    await revokeSession(req.user!.sessionId!);
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error logging out:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { createExchangeRate, listExchangeRates } from '../services/exchangeRates';
+import { executeConversion } from '../services/transactions';
+import { canDebitAccount, enforcePolicy } from '../services/policies';
+import { CreateConversionSchema, CreateExchangeRateSchema, ExchangeRateQuerySchema } from '../schemas/conversions';
+import { requirePermission, requireScope, requireSignature } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * POST /exchange-rates
+ * Record an exchange rate for a currency pair, effective now or from a given time
+ * Requires the exchange_rates:write permission
+ */
+router.post('/exchange-rates', requireScope('exchange_rates:write'), requirePermission('exchange_rates:write'), async (req, res) => {
+  try {
+    const validatedBody = CreateExchangeRateSchema.parse(req.body);
+
+    const exchangeRate = await createExchangeRate({
+      baseCurrency: validatedBody.base_currency,
+      quoteCurrency: validatedBody.quote_currency,
+      rate: validatedBody.rate,
+      effectiveAt: validatedBody.effective_at ? new Date(validatedBody.effective_at) : undefined,
+    });
+
+    res.status(201).json(exchangeRate);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Unsupported currency.') {
+      res.status(400).json({ error: error.message });
+    } else if (error instanceof Error && 'code' in error && error.code === '23505') {
+      // Unique constraint violation (pair already has a rate at this instant)
+      res.status(409).json({ error: 'Exchange rate already exists for this pair and effective time' });
+    } else {
+      console.error('Error creating exchange rate:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /exchange-rates
+ * List exchange rates, optionally filtered by base and/or quote currency
+ */
+router.get('/exchange-rates', requireScope('transactions:read'), async (req, res) => {
+  try {
+    const validatedQuery = ExchangeRateQuerySchema.parse(req.query);
+
+    const exchangeRates = await listExchangeRates({
+      baseCurrency: validatedQuery.base_currency,
+      quoteCurrency: validatedQuery.quote_currency,
+    });
+
+    res.json(exchangeRates);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else {
+      console.error('Error fetching exchange rates:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /conversions
+ * Convert money between two accounts holding different currencies at the current exchange rate
+ */
+router.post('/conversions', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  try {
+    const validatedBody = CreateConversionSchema.parse(req.body);
+
+    await enforcePolicy(
+      req,
+      'conversions.create',
+      { type: 'account', id: validatedBody.source_account_id },
+      canDebitAccount(req.user!.id, validatedBody.source_account_id)
+    );
+
+    const conversion = await executeConversion({
+      idempotencyKey: validatedBody.idempotency_key,
+      sourceAccountId: validatedBody.source_account_id,
+      destinationAccountId: validatedBody.destination_account_id,
+      amount: validatedBody.amount,
+    });
+
+    res.status(201).json(conversion);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (
+        error.message === 'Insufficient funds.'
+        || error.message === 'Accounts hold the same currency.'
+        || error.message === 'Exchange rate not available.'
+        || error.message === 'Converted amount rounds to zero.'
+      ) {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Account not found.') {
+        res.status(404).json({ error: error.message });
+      } else if (error.message === 'Transaction conflict, please retry.') {
+        res.status(409).json({ error: error.message });
+      } else {
+        console.error('Error creating conversion:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,101 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import { exportUserTransactions } from '../services/exports';
+import { EXPORT_WRITERS } from '../services/exportFormats';
+import { canReadUser, enforcePolicy } from '../services/policies';
+import { ExportQuerySchema } from '../schemas/exports';
+import { UserIdPathSchema } from '../schemas/transactions';
+import { DEFAULT_CURRENCY } from '../schemas/currencies';
+import { requireScope } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Writes a chunk of a streamed response, waiting for the client to catch up
+ * when the socket buffer is full
+ * @throws {Error} 'Client disconnected.' if the client goes away meanwhile
+ */
+function writeChunk(res: Response, chunk: string): Promise<void> {
+  if (res.destroyed) {
+    return Promise.reject(new Error('Client disconnected.'));
+  }
+
+  if (res.write(chunk)) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const onDrain = () => {
+      res.off('close', onClose);
+      resolve();
+    };
+    const onClose = () => {
+      res.off('drain', onDrain);
+      reject(new Error('Client disconnected.'));
+    };
+
+    res.once('drain', onDrain);
+    res.once('close', onClose);
+  });
+}
+
+/**
+ * GET /users/:id/transactions/export
+ * Stream a date range of a user's transaction history as CAMT.053, OFX or QIF
+ */
+router.get('/users/:id/transactions/export', requireScope('transactions:read'), async (req, res) => {
+  try {
+    const validatedParams = UserIdPathSchema.parse(req.params);
+    const validatedQuery = ExportQuerySchema.parse(req.query);
+
+    await enforcePolicy(
+      req,
+      'transactions.export',
+      { type: 'user', id: validatedParams.id },
+      canReadUser(req.user!.id, validatedParams.id)
+    );
+
+    const writer = EXPORT_WRITERS[validatedQuery.format];
+    const currency = validatedQuery.currency ?? DEFAULT_CURRENCY;
+    const filename = `transactions-${currency}-${validatedQuery.from.slice(0, 10)}-${validatedQuery.to.slice(0, 10)}.${writer.extension}`;
+
+    await exportUserTransactions(validatedParams.id, {
+      format: validatedQuery.format,
+      from: new Date(validatedQuery.from),
+      to: new Date(validatedQuery.to),
+      currency,
+    }, (chunk) => {
+      if (!res.headersSent) {
+        res.attachment(filename).type(writer.contentType);
+      }
+      return writeChunk(res, chunk);
+    });
+
+    res.end();
+  } catch (error) {
+    if (res.headersSent) {
+      // Part of the document is out; all that is left is to cut it short
+      if (!(error instanceof Error && error.message === 'Client disconnected.')) {
+        console.error('Error streaming export:', error);
+      }
+      res.destroy();
+    } else if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Unsupported currency.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'User not found.') {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error('Error exporting transactions:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
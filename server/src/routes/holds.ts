@@ -0,0 +1,183 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { captureHold, placeHold } from '../services/transactions';
+import { getHold, voidHold } from '../services/holds';
+import { canDebitUser, canReadHold, canSettleHold, enforcePolicy } from '../services/policies';
+import { CaptureHoldSchema, CreateHoldSchema, DEFAULT_HOLD_TTL_SECONDS, HoldIdPathSchema } from '../schemas/holds';
+import { DEFAULT_CURRENCY } from '../schemas/currencies';
+import { requireScope, requireSignature } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * POST /holds
+ * Reserve funds in a user's account for a later transfer (authorization hold)
+ */
+router.post('/holds', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  try {
+    const validatedBody = CreateHoldSchema.parse(req.body);
+    const currency = validatedBody.currency ?? DEFAULT_CURRENCY;
+
+    await enforcePolicy(
+      req,
+      'holds.create',
+      { type: 'user', id: validatedBody.source_user_id },
+      canDebitUser(req.user!.id, validatedBody.source_user_id, currency)
+    );
+
+    const hold = await placeHold({
+      idempotencyKey: validatedBody.idempotency_key,
+      sourceUserId: validatedBody.source_user_id,
+      destinationUserId: validatedBody.destination_user_id,
+      amount: validatedBody.amount,
+      currency,
+      expiresInSeconds: validatedBody.expires_in_seconds ?? DEFAULT_HOLD_TTL_SECONDS,
+    });
+
+    res.status(201).json(hold);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Insufficient funds.' || error.message === 'Unsupported currency.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if ('code' in error && error.code === '23503') {
+        // Foreign key violation (destination user does not exist)
+        res.status(404).json({ error: 'User not found' });
+      } else if (error.message === 'Transaction conflict, please retry.') {
+        res.status(409).json({ error: error.message });
+      } else {
+        console.error('Error placing hold:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /holds/:id
+ * Get a hold and its current status
+ */
+router.get('/holds/:id', requireScope('transactions:read'), async (req, res) => {
+  try {
+    const validatedParams = HoldIdPathSchema.parse(req.params);
+
+    await enforcePolicy(
+      req,
+      'holds.read',
+      { type: 'hold', id: validatedParams.id },
+      canReadHold(req.user!.id, validatedParams.id)
+    );
+
+    const hold = await getHold(validatedParams.id);
+
+    if (!hold) {
+      res.status(404).json({ error: 'Hold not found.' });
+      return;
+    }
+
+    res.json(hold);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Forbidden.') {
+      res.status(403).json({ error: error.message });
+    } else {
+      console.error('Error fetching hold:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /holds/:id/capture
+ * Capture a hold, fully or partially, transferring the captured amount and releasing the rest
+ */
+router.post('/holds/:id/capture', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  try {
+    const validatedParams = HoldIdPathSchema.parse(req.params);
+    const validatedBody = CaptureHoldSchema.parse(req.body);
+
+    await enforcePolicy(
+      req,
+      'holds.capture',
+      { type: 'hold', id: validatedParams.id },
+      canSettleHold(req.user!.id, validatedParams.id)
+    );
+
+    const transaction = await captureHold({
+      idempotencyKey: validatedBody.idempotency_key,
+      holdId: validatedParams.id,
+      amount: validatedBody.amount,
+    });
+
+    res.status(201).json(transaction);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (
+        error.message === 'Hold is not active.' ||
+        error.message === 'Hold has expired.' ||
+        error.message === 'Capture exceeds held amount.'
+      ) {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Hold not found.') {
+        res.status(404).json({ error: error.message });
+      } else if (error.message === 'Transaction conflict, please retry.') {
+        res.status(409).json({ error: error.message });
+      } else {
+        console.error('Error capturing hold:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /holds/:id/void
+ * Void a hold, releasing its funds without moving any money
+ */
+router.post('/holds/:id/void', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  try {
+    const validatedParams = HoldIdPathSchema.parse(req.params);
+
+    await enforcePolicy(
+      req,
+      'holds.void',
+      { type: 'hold', id: validatedParams.id },
+      canSettleHold(req.user!.id, validatedParams.id)
+    );
+
+    const hold = await voidHold(validatedParams.id);
+
+    res.json(hold);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Hold is not active.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Hold not found.') {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error('Error voiding hold:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
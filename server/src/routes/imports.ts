@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { importLedger } from '../services/imports';
+import { ImportQuerySchema } from '../schemas/imports';
+import { requireAccessToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * POST /admin/imports
+ * Import historical deposits and transfers from a CSV body, or validate them with a dry run
+ * Requires the ledger:import permission
+ */
+router.post('/admin/imports', requireAccessToken, requirePermission('ledger:import'), async (req, res) => {
+  try {
+    const validatedQuery = ImportQuerySchema.parse(req.query);
+
+    if (!req.is('text/csv')) {
+      res.status(415).json({ error: 'Expected a text/csv body.' });
+      return;
+    }
+
+    // The body is read as a stream, so files of any size are never held in memory
+    req.setEncoding('utf8');
+
+    const report = await importLedger(req, {
+      dryRun: (validatedQuery.mode ?? 'dry-run') === 'dry-run',
+      chunkSize: validatedQuery.chunk_size,
+    });
+
+    if (report.completed) {
+      res.json(report);
+    } else {
+      res.status(400).json({ error: 'Import stopped at invalid rows.', ...report });
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message.startsWith('Invalid CSV')) {
+        res.status(400).json({ error: error.message });
+      } else {
+        console.error('Error importing ledger:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { verifyLedgerChain } from '../services/ledgerChain';
+import { requireAccessToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * GET /admin/ledger/verify
+ * Verify the hash chain over the ledger and its signed checkpoints
+ * Requires the ledger:audit permission
+ */
+router.get('/admin/ledger/verify', requireAccessToken, requirePermission('ledger:audit'), async (req, res) => {
+  try {
+    const verification = await verifyLedgerChain();
+    res.json(verification);
+  } catch (error) {
+    console.error('Error verifying ledger:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
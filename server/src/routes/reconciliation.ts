@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { runReconciliation } from '../services/reconciliation';
+import { requireAccessToken, requirePermission } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * GET /admin/reconciliation
+ * Check the ledger's invariants and report any drift
+ * Requires the ledger:audit permission
+ */
+router.get('/admin/reconciliation', requireAccessToken, requirePermission('ledger:audit'), async (req, res) => {
+  try {
+    const report = await runReconciliation();
+    res.json(report);
+  } catch (error) {
+    console.error('Error running reconciliation:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
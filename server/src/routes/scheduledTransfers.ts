@@ -0,0 +1,223 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  cancelScheduledTransfer,
+  createScheduledTransfer,
+  getScheduledTransfer,
+  listScheduledTransfers,
+  updateScheduledTransfer,
+} from '../services/scheduledTransfers';
+import { canDebitUser, canManageScheduledTransfer, canReadUser, enforcePolicy } from '../services/policies';
+import { CreateScheduledTransferSchema, ScheduledTransferPathSchema, UpdateScheduledTransferSchema } from '../schemas/scheduledTransfers';
+import { UserIdPathSchema } from '../schemas/transactions';
+import { DEFAULT_CURRENCY } from '../schemas/currencies';
+import { requireScope, requireSignature } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * POST /users/:id/scheduled-transfers
+ * Schedule a future-dated or recurring transfer from a user
+ */
+router.post('/users/:id/scheduled-transfers', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  try {
+    const validatedParams = UserIdPathSchema.parse(req.params);
+    const validatedBody = CreateScheduledTransferSchema
+      .refine((data) => data.destination_user_id !== validatedParams.id, {
+        message: 'Source and destination users must be different',
+      })
+      .parse(req.body);
+    const currency = validatedBody.currency ?? DEFAULT_CURRENCY;
+
+    await enforcePolicy(
+      req,
+      'scheduled_transfers.create',
+      { type: 'user', id: validatedParams.id },
+      canDebitUser(req.user!.id, validatedParams.id, currency)
+    );
+
+    const schedule = await createScheduledTransfer({
+      idempotencyKey: validatedBody.idempotency_key,
+      sourceUserId: validatedParams.id,
+      destinationUserId: validatedBody.destination_user_id,
+      createdByUserId: req.user!.id,
+      amount: validatedBody.amount,
+      currency,
+      startAt: new Date(validatedBody.start_at),
+      recurrence: validatedBody.recurrence,
+      failurePolicy: validatedBody.failure_policy,
+      maxRetries: validatedBody.max_retries,
+      retryDelaySeconds: validatedBody.retry_delay_seconds,
+    });
+
+    res.status(201).json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Unsupported currency.' || error.message === 'Recurrence has no occurrences.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if ('code' in error && error.code === '23503') {
+        // Foreign key violation (source or destination user does not exist)
+        res.status(404).json({ error: 'User not found' });
+      } else {
+        console.error('Error creating scheduled transfer:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /users/:id/scheduled-transfers
+ * List the scheduled transfers a user pays from
+ */
+router.get('/users/:id/scheduled-transfers', requireScope('transactions:read'), async (req, res) => {
+  try {
+    const validatedParams = UserIdPathSchema.parse(req.params);
+
+    await enforcePolicy(
+      req,
+      'scheduled_transfers.read',
+      { type: 'user', id: validatedParams.id },
+      canReadUser(req.user!.id, validatedParams.id)
+    );
+
+    const schedules = await listScheduledTransfers(validatedParams.id);
+
+    res.json(schedules);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Forbidden.') {
+      res.status(403).json({ error: error.message });
+    } else {
+      console.error('Error fetching scheduled transfers:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /users/:id/scheduled-transfers/:scheduleId
+ * Get a scheduled transfer with its next run and last outcome
+ */
+router.get('/users/:id/scheduled-transfers/:scheduleId', requireScope('transactions:read'), async (req, res) => {
+  try {
+    const validatedParams = ScheduledTransferPathSchema.parse(req.params);
+
+    await enforcePolicy(
+      req,
+      'scheduled_transfers.read',
+      { type: 'user', id: validatedParams.id },
+      canReadUser(req.user!.id, validatedParams.id)
+    );
+
+    const schedule = await getScheduledTransfer(validatedParams.id, validatedParams.scheduleId);
+
+    if (!schedule) {
+      res.status(404).json({ error: 'Scheduled transfer not found.' });
+      return;
+    }
+
+    res.json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Forbidden.') {
+      res.status(403).json({ error: error.message });
+    } else {
+      console.error('Error fetching scheduled transfer:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * PATCH /users/:id/scheduled-transfers/:scheduleId
+ * Pause or resume a scheduled transfer, or change its future occurrences
+ */
+router.patch('/users/:id/scheduled-transfers/:scheduleId', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  try {
+    const validatedParams = ScheduledTransferPathSchema.parse(req.params);
+    const validatedBody = UpdateScheduledTransferSchema.parse(req.body);
+
+    await enforcePolicy(
+      req,
+      'scheduled_transfers.update',
+      { type: 'scheduled_transfer', id: validatedParams.scheduleId },
+      canManageScheduledTransfer(req.user!.id, validatedParams.id, validatedParams.scheduleId)
+    );
+
+    const schedule = await updateScheduledTransfer(validatedParams.id, validatedParams.scheduleId, {
+      status: validatedBody.status,
+      amount: validatedBody.amount,
+      failurePolicy: validatedBody.failure_policy,
+      maxRetries: validatedBody.max_retries,
+      retryDelaySeconds: validatedBody.retry_delay_seconds,
+    });
+
+    res.json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Scheduled transfer is closed.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Scheduled transfer not found.') {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error('Error updating scheduled transfer:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * DELETE /users/:id/scheduled-transfers/:scheduleId
+ * Cancel a scheduled transfer (the schedule is kept, with status 'cancelled')
+ */
+router.delete('/users/:id/scheduled-transfers/:scheduleId', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  try {
+    const validatedParams = ScheduledTransferPathSchema.parse(req.params);
+
+    await enforcePolicy(
+      req,
+      'scheduled_transfers.cancel',
+      { type: 'scheduled_transfer', id: validatedParams.scheduleId },
+      canManageScheduledTransfer(req.user!.id, validatedParams.id, validatedParams.scheduleId)
+    );
+
+    const schedule = await cancelScheduledTransfer(validatedParams.id, validatedParams.scheduleId);
+
+    res.json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Scheduled transfer is closed.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Scheduled transfer not found.') {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error('Error cancelling scheduled transfer:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getStatement, renderStatementCsv, renderStatementHtml } from '../services/statements';
+import { canReadUser, enforcePolicy } from '../services/policies';
+import { StatementQuerySchema } from '../schemas/statements';
+import { UserIdPathSchema } from '../schemas/transactions';
+import { DEFAULT_CURRENCY } from '../schemas/currencies';
+import { requireScope } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * GET /users/:id/statements
+ * Get the statement of a user's default account for a period, as JSON, CSV or printable HTML
+ */
+router.get('/users/:id/statements', requireScope('transactions:read'), async (req, res) => {
+  try {
+    const validatedParams = UserIdPathSchema.parse(req.params);
+    const validatedQuery = StatementQuerySchema.parse(req.query);
+
+    await enforcePolicy(
+      req,
+      'statements.read',
+      { type: 'user', id: validatedParams.id },
+      canReadUser(req.user!.id, validatedParams.id)
+    );
+
+    const statement = await getStatement(validatedParams.id, {
+      from: new Date(validatedQuery.from),
+      to: new Date(validatedQuery.to),
+      currency: validatedQuery.currency ?? DEFAULT_CURRENCY,
+    });
+
+    const filename = `statement-${statement.currency}-${statement.from.slice(0, 10)}-${statement.to.slice(0, 10)}`;
+
+    switch (validatedQuery.format ?? 'json') {
+      case 'csv':
+        res.attachment(`${filename}.csv`).type('text/csv').send(renderStatementCsv(statement));
+        break;
+      case 'html':
+        res.type('html').send(renderStatementHtml(statement));
+        break;
+      default:
+        res.json(statement);
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Unsupported currency.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'User not found.') {
+        res.status(404).json({ error: error.message });
+      } else {
+        console.error('Error building statement:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
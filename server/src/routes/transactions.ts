@@ -1,7 +1,11 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { executeTransaction, executeDeposit, getUserBalance, getUserBalanceOnDate } from '../services/transactions';
-import { CreateTransactionSchema, CreateDepositSchema, UserIdPathSchema, BalanceQuerySchema } from '../schemas/transactions';
+import { executeTransaction, executeBatch, executeSplitPayment, listUserTransactions, executeDeposit, executeWithdrawal, executeReversal, getUserBalances, getUserBalancesOnDate } from '../services/transactions';
+import { CreateTransactionSchema, CreateBatchSchema, CreateSplitPaymentSchema, CreateDepositSchema, CreateWithdrawalSchema, CreateReversalSchema, UserIdPathSchema, TransactionIdPathSchema, BalanceQuerySchema, TransactionHistoryQuerySchema, DEFAULT_HISTORY_PAGE_SIZE } from '../schemas/transactions';
+import { DEFAULT_CURRENCY } from '../schemas/currencies';
+import { getTransactionProof } from '../services/ledgerRoots';
+import { canDebitUser, canReadTransaction, canReadUser, canReverseTransaction, enforcePolicy } from '../services/policies';
+import { requirePermission, requireScope, requireSignature } from '../middleware/auth';
 
 const router = Router();
 
@@ -9,15 +13,27 @@ const router = Router();
  * POST /transactions
  * Create a new financial transaction
  */
-router.post('/transactions', async (req, res) => {
+router.post('/transactions', requireScope('transactions:write'), requireSignature, async (req, res) => {
   try {
     const validatedBody = CreateTransactionSchema.parse(req.body);
+    const currency = validatedBody.currency ?? DEFAULT_CURRENCY;
+
+    await enforcePolicy(
+      req,
+      'transactions.create',
+      { type: 'user', id: validatedBody.source_user_id },
+      canDebitUser(req.user!.id, validatedBody.source_user_id, currency)
+    );
 
     const transaction = await executeTransaction({
       idempotencyKey: validatedBody.idempotency_key,
       sourceUserId: validatedBody.source_user_id,
       destinationUserId: validatedBody.destination_user_id,
       amount: validatedBody.amount,
+      currency,
+      description: validatedBody.description,
+      externalReference: validatedBody.external_reference,
+      metadata: validatedBody.metadata,
     });
 
     res.status(201).json(transaction);
@@ -25,8 +41,12 @@ router.post('/transactions', async (req, res) => {
     if (error instanceof z.ZodError) {
       res.status(400).json({ error: 'Validation error', details: error.issues });
     } else if (error instanceof Error) {
-      if (error.message === 'Insufficient funds.') {
+      if (error.message === 'Insufficient funds.' || error.message === 'Unsupported currency.') {
         res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Transaction conflict, please retry.') {
+        res.status(409).json({ error: error.message });
       } else {
         console.error('Error creating transaction:', error);
         res.status(500).json({ error: 'Internal server error' });
@@ -37,27 +57,253 @@ router.post('/transactions', async (req, res) => {
   }
 });
 
+/**
+ * POST /transactions/batch
+ * Apply many transfers all-or-nothing under one idempotency key
+ */
+router.post('/transactions/batch', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  let legCount = 0;
+
+  try {
+    const validatedBody = CreateBatchSchema.parse(req.body);
+    legCount = validatedBody.legs.length;
+
+    // Every leg debits its source user, so the caller must be allowed to debit each of them
+    for (const leg of validatedBody.legs) {
+      await enforcePolicy(
+        req,
+        'transactions.batch',
+        { type: 'user', id: leg.source_user_id },
+        canDebitUser(req.user!.id, leg.source_user_id, leg.currency ?? DEFAULT_CURRENCY)
+      );
+    }
+
+    const { transactions, ...batch } = await executeBatch({
+      idempotencyKey: validatedBody.idempotency_key,
+      legs: validatedBody.legs.map(leg => ({
+        sourceUserId: leg.source_user_id,
+        destinationUserId: leg.destination_user_id,
+        amount: leg.amount,
+        currency: leg.currency ?? DEFAULT_CURRENCY,
+      })),
+    });
+
+    res.status(201).json({
+      ...batch,
+      legs: transactions.map(transaction => ({
+        index: transaction.batch_leg_index,
+        status: 'succeeded',
+        transaction,
+      })),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && 'legIndex' in error) {
+      // Report every leg: the one that failed, and the others that were rolled back with it
+      const failedLegIndex = error.legIndex;
+      const isUserNotFound = 'code' in error && error.code === '23503';
+      const legError = isUserNotFound ? 'User not found' : error.message;
+      const legs = Array.from({ length: legCount }, (_, index) => (
+        index === failedLegIndex
+          ? { index, status: 'failed', error: legError }
+          : { index, status: 'not_applied' }
+      ));
+
+      if (error.message === 'Insufficient funds.' || error.message === 'Unsupported currency.') {
+        res.status(400).json({ error: error.message, legs });
+      } else if (isUserNotFound) {
+        // Foreign key violation (destination user does not exist)
+        res.status(404).json({ error: legError, legs });
+      } else {
+        console.error('Error creating batch:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else if (error instanceof Error && error.message === 'Forbidden.') {
+      res.status(403).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Transaction conflict, please retry.') {
+      res.status(409).json({ error: error.message });
+    } else {
+      console.error('Error creating batch:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /transactions/split
+ * Create one payment that debits one or more users and credits several others
+ */
+router.post('/transactions/split', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  try {
+    const validatedBody = CreateSplitPaymentSchema.parse(req.body);
+    const currency = validatedBody.currency ?? DEFAULT_CURRENCY;
+
+    for (const leg of validatedBody.debits) {
+      await enforcePolicy(
+        req,
+        'transactions.split',
+        { type: 'user', id: leg.user_id },
+        canDebitUser(req.user!.id, leg.user_id, currency)
+      );
+    }
+
+    const payment = await executeSplitPayment({
+      idempotencyKey: validatedBody.idempotency_key,
+      currency,
+      debits: validatedBody.debits.map(leg => ({ userId: leg.user_id, amount: leg.amount })),
+      credits: validatedBody.credits.map(leg => ({ userId: leg.user_id, amount: leg.amount })),
+    });
+
+    res.status(201).json(payment);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Insufficient funds.' || error.message === 'Unsupported currency.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if ('code' in error && error.code === '23503') {
+        // Foreign key violation (a credited user does not exist)
+        res.status(404).json({ error: 'User not found' });
+      } else if (error.message === 'Transaction conflict, please retry.') {
+        res.status(409).json({ error: error.message });
+      } else {
+        console.error('Error creating split payment:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /transactions/:id/reverse
+ * Reverse a transaction, fully or partially, with a compensating entry linked to the original
+ */
+router.post('/transactions/:id/reverse', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  try {
+    const validatedParams = TransactionIdPathSchema.parse(req.params);
+    const validatedBody = CreateReversalSchema.parse(req.body);
+
+    await enforcePolicy(
+      req,
+      'transactions.reverse',
+      { type: 'transaction', id: validatedParams.id },
+      canReverseTransaction(req.user!.id, validatedParams.id)
+    );
+
+    const reversal = await executeReversal({
+      idempotencyKey: validatedBody.idempotency_key,
+      transactionId: validatedParams.id,
+      amount: validatedBody.amount,
+    });
+
+    res.status(201).json(reversal);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (
+        error.message === 'Insufficient funds.' ||
+        error.message === 'Reversal exceeds original amount.' ||
+        error.message === 'Transaction cannot be reversed.'
+      ) {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Transaction not found.') {
+        res.status(404).json({ error: error.message });
+      } else if (error.message === 'Transaction conflict, please retry.') {
+        res.status(409).json({ error: error.message });
+      } else {
+        console.error('Error reversing transaction:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * GET /transactions/:id/proof
+ * Get a Merkle proof that a transaction is part of the ledger
+ */
+router.get('/transactions/:id/proof', requireScope('transactions:read'), async (req, res) => {
+  try {
+    const validatedParams = TransactionIdPathSchema.parse(req.params);
+
+    await enforcePolicy(
+      req,
+      'transactions.proof',
+      { type: 'transaction', id: validatedParams.id },
+      canReadTransaction(req.user!.id, validatedParams.id)
+    );
+
+    const proof = await getTransactionProof(validatedParams.id);
+
+    res.json(proof);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (
+      error instanceof Error &&
+      (error.message === 'Transaction not found.' || error.message === 'Transaction is not covered by a ledger root yet.')
+    ) {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Forbidden.') {
+      res.status(403).json({ error: error.message });
+    } else {
+      console.error('Error building transaction proof:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
 /**
  * GET /users/:id/balance
- * Get the current balance for a user (or balance at a specific date if ?date= query param provided)
+ * Get the current ledger and available balances for a user (or balances at a specific date if ?date= query param provided)
  */
-router.get('/users/:id/balance', async (req, res) => {
+router.get('/users/:id/balance', requireScope('balance:read'), async (req, res) => {
   try {
     const validatedParams = UserIdPathSchema.parse(req.params);
     const validatedQuery = BalanceQuerySchema.parse(req.query);
 
-    let balance: number;
+    await enforcePolicy(
+      req,
+      'balance.read',
+      { type: 'user', id: validatedParams.id },
+      canReadUser(req.user!.id, validatedParams.id)
+    );
+
+    let balances: Array<{ currency: string; balance: number; available_balance?: number; minor_units: number }>;
 
     if (validatedQuery.date) {
-      balance = await getUserBalanceOnDate(validatedParams.id, new Date(validatedQuery.date));
+      balances = await getUserBalancesOnDate(validatedParams.id, new Date(validatedQuery.date));
     } else {
-      balance = await getUserBalance(validatedParams.id);
+      balances = await getUserBalances(validatedParams.id);
+    }
+
+    // `balance` predates multi-currency support and stays the default currency balance
+    const defaultBalance = balances.find(b => b.currency === DEFAULT_CURRENCY);
+    const balance = defaultBalance?.balance ?? 0;
+
+    if (validatedQuery.date) {
+      res.json({ user_id: validatedParams.id, balance, balances });
+      return;
     }
 
-    res.json({ user_id: validatedParams.id, balance });
+    const availableBalance = defaultBalance?.available_balance ?? 0;
+
+    res.json({ user_id: validatedParams.id, balance, available_balance: availableBalance, balances });
   } catch (error) {
     if (error instanceof z.ZodError) {
       res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Forbidden.') {
+      res.status(403).json({ error: error.message });
     } else {
       console.error('Error fetching balance:', error);
       res.status(500).json({ error: 'Internal server error' });
@@ -67,27 +313,42 @@ router.get('/users/:id/balance', async (req, res) => {
 
 /**
  * GET /users/:id/transactions
- * Get transaction history for a user
+ * Get a page of a user's transaction history, newest first, with running balances
  */
-router.get('/users/:id/transactions', async (req, res) => {
+router.get('/users/:id/transactions', requireScope('transactions:read'), async (req, res) => {
   try {
     const validatedParams = UserIdPathSchema.parse(req.params);
+    const validatedQuery = TransactionHistoryQuerySchema.parse(req.query);
 
-    // Import db here to avoid circular dependencies
-    const db = await import('zapatos/db');
-    const { pool } = await import('../db');
+    await enforcePolicy(
+      req,
+      'transactions.read',
+      { type: 'user', id: validatedParams.id },
+      canReadUser(req.user!.id, validatedParams.id)
+    );
 
-    const transactions = await db.sql`
-      SELECT * FROM ${'transactions'}
-      WHERE ${{ source_user_id: validatedParams.id }}
-         OR ${{ destination_user_id: validatedParams.id }}
-      ORDER BY ${'created_at'} DESC
-    `.run(pool);
+    const page = await listUserTransactions(validatedParams.id, {
+      limit: validatedQuery.limit ?? DEFAULT_HISTORY_PAGE_SIZE,
+      cursor: validatedQuery.cursor,
+      direction: validatedQuery.direction,
+      counterpartyUserId: validatedQuery.counterparty_user_id,
+      minAmount: validatedQuery.min_amount,
+      maxAmount: validatedQuery.max_amount,
+      from: validatedQuery.from ? new Date(validatedQuery.from) : undefined,
+      to: validatedQuery.to ? new Date(validatedQuery.to) : undefined,
+      currency: validatedQuery.currency,
+      externalReference: validatedQuery.external_reference,
+      metadata: validatedQuery.metadata,
+    });
 
-    res.json(transactions);
+    res.json(page);
   } catch (error) {
     if (error instanceof z.ZodError) {
       res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Invalid cursor.') {
+      res.status(400).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Forbidden.') {
+      res.status(403).json({ error: error.message });
     } else {
       console.error('Error fetching transactions:', error);
       res.status(500).json({ error: 'Internal server error' });
@@ -98,8 +359,9 @@ router.get('/users/:id/transactions', async (req, res) => {
 /**
  * POST /users/:id/deposit
  * Deposit money into a user's account (inject money into the system)
+ * Requires the deposits:issue permission
  */
-router.post('/users/:id/deposit', async (req, res) => {
+router.post('/users/:id/deposit', requireScope('transactions:write'), requireSignature, requirePermission('deposits:issue'), async (req, res) => {
   try {
     const validatedParams = UserIdPathSchema.parse(req.params);
     const validatedBody = CreateDepositSchema.parse(req.body);
@@ -108,12 +370,20 @@ router.post('/users/:id/deposit', async (req, res) => {
       idempotencyKey: validatedBody.idempotency_key,
       userId: validatedParams.id,
       amount: validatedBody.amount,
+      currency: validatedBody.currency ?? DEFAULT_CURRENCY,
+      description: validatedBody.description,
+      externalReference: validatedBody.external_reference,
+      metadata: validatedBody.metadata,
     });
 
     res.status(201).json(transaction);
   } catch (error) {
     if (error instanceof z.ZodError) {
       res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Unsupported currency.') {
+      res.status(400).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Transaction conflict, please retry.') {
+      res.status(409).json({ error: error.message });
     } else {
       console.error('Error creating deposit:', error);
       res.status(500).json({ error: 'Internal server error' });
@@ -121,4 +391,51 @@ router.post('/users/:id/deposit', async (req, res) => {
   }
 });
 
+/**
+ * POST /users/:id/withdraw
+ * Withdraw money from a user's account (money leaves the system to an external sink)
+ */
+router.post('/users/:id/withdraw', requireScope('transactions:write'), requireSignature, async (req, res) => {
+  try {
+    const validatedParams = UserIdPathSchema.parse(req.params);
+    const validatedBody = CreateWithdrawalSchema.parse(req.body);
+    const currency = validatedBody.currency ?? DEFAULT_CURRENCY;
+
+    await enforcePolicy(
+      req,
+      'users.withdraw',
+      { type: 'user', id: validatedParams.id },
+      canDebitUser(req.user!.id, validatedParams.id, currency)
+    );
+
+    const transaction = await executeWithdrawal({
+      idempotencyKey: validatedBody.idempotency_key,
+      userId: validatedParams.id,
+      amount: validatedBody.amount,
+      currency,
+    });
+
+    res.status(201).json(transaction);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error) {
+      if (error.message === 'Insufficient funds.') {
+        res.status(400).json({ error: error.message });
+      } else if (error.message === 'Forbidden.') {
+        res.status(403).json({ error: error.message });
+      } else if (error.message === 'Account not found.') {
+        res.status(404).json({ error: error.message });
+      } else if (error.message === 'Transaction conflict, please retry.') {
+        res.status(409).json({ error: error.message });
+      } else {
+        console.error('Error creating withdrawal:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
 export default router;
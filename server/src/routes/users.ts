@@ -2,8 +2,13 @@ import { Router } from 'express';
 import { z } from 'zod';
 import * as db from 'zapatos/db';
 import { pool } from '../db';
-//import * as bcrypt from 'bcrypt';
+import { hashPassword } from '../services/passwords';
+import { grantRole, listRoles, listUserRoles, revokeRole } from '../services/roles';
+import { recordAuditEvent } from '../services/audit';
 import { CreateUserSchema } from '../schemas/users';
+import { GrantRoleSchema, UserRolePathSchema } from '../schemas/roles';
+import { UserIdPathSchema } from '../schemas/transactions';
+import { authenticate, requireAccessToken, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -16,8 +21,7 @@ router.post('/users', async (req, res) => {
     const validatedBody = CreateUserSchema.parse(req.body);
 
     // Hash the password
-    // TODO: Re-enable bcrypt hashing in production
-    const password_hash = validatedBody.password; // await bcrypt.hash(validatedBody.password, 10);
+    const password_hash = await hashPassword(validatedBody.password);
 
     // Create the user
     const newUser = await db.insert('users', {
@@ -41,4 +45,115 @@ router.post('/users', async (req, res) => {
   }
 });
 
+// This router is mounted before authenticate (signing up needs no token),
+// so the admin routes below authenticate themselves
+
+/**
+ * GET /admin/roles
+ * List the roles and the permissions each grants
+ * Requires the roles:manage permission
+ */
+router.get('/admin/roles', authenticate, requireAccessToken, requirePermission('roles:manage'), async (req, res) => {
+  try {
+    const roles = await listRoles();
+    res.json(roles);
+  } catch (error) {
+    console.error('Error fetching roles:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /admin/users/:id/roles
+ * List the roles granted to a user
+ * Requires the roles:manage permission
+ */
+router.get('/admin/users/:id/roles', authenticate, requireAccessToken, requirePermission('roles:manage'), async (req, res) => {
+  try {
+    const validatedParams = UserIdPathSchema.parse(req.params);
+
+    const roles = await listUserRoles(validatedParams.id);
+
+    res.json(roles);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'User not found.') {
+      res.status(404).json({ error: error.message });
+    } else {
+      console.error('Error fetching user roles:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * POST /admin/users/:id/roles
+ * Grant a role to a user
+ * Requires the roles:manage permission
+ */
+router.post('/admin/users/:id/roles', authenticate, requireAccessToken, requirePermission('roles:manage'), async (req, res) => {
+  try {
+    const validatedParams = UserIdPathSchema.parse(req.params);
+    const validatedBody = GrantRoleSchema.parse(req.body);
+
+    const grant = await grantRole(validatedParams.id, validatedBody.role, req.user!.id);
+
+    await recordAuditEvent({
+      actorUserId: req.user!.id,
+      action: 'roles.grant',
+      resourceType: 'user',
+      resourceId: validatedParams.id,
+      outcome: 'allowed',
+      ipAddress: req.ip,
+      details: { role: validatedBody.role },
+    });
+
+    res.status(201).json(grant);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && (error.message === 'User not found.' || error.message === 'Role not found.')) {
+      res.status(404).json({ error: error.message });
+    } else {
+      console.error('Error granting role:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+/**
+ * DELETE /admin/users/:id/roles/:role
+ * Revoke a role from a user
+ * Requires the roles:manage permission
+ */
+router.delete('/admin/users/:id/roles/:role', authenticate, requireAccessToken, requirePermission('roles:manage'), async (req, res) => {
+  try {
+    const validatedParams = UserRolePathSchema.parse(req.params);
+
+    await revokeRole(validatedParams.id, validatedParams.role);
+
+    await recordAuditEvent({
+      actorUserId: req.user!.id,
+      action: 'roles.revoke',
+      resourceType: 'user',
+      resourceId: validatedParams.id,
+      outcome: 'allowed',
+      ipAddress: req.ip,
+      details: { role: validatedParams.role },
+    });
+
+    res.status(204).end();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.issues });
+    } else if (error instanceof Error && error.message === 'Role grant not found.') {
+      res.status(404).json({ error: error.message });
+    } else {
+      console.error('Error revoking role:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
 export default router;
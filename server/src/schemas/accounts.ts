@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { AccountDelegationsRead, AccountDelegationsWrite, AccountsRead, AccountsWrite, CurrenciesRead, TransactionsWrite } from './pgzod/index';
+import { CurrencyCodeSchema } from './currencies';
+import { TransactionDetailsSchema } from './transactions';
+
+// Account kinds (mirrors the CHECK constraint on accounts.kind)
+const AccountKindSchema = z.enum(['personal', 'savings', 'shared', 'business'])
+  .meta({ description: 'Kind of account', example: 'savings' });
+
+// Account creation - Use AccountsWrite, owner comes from path param
+export const CreateAccountSchema = AccountsWrite
+  .omit({ id: true, user_id: true, is_default: true, created_at: true, name: true, kind: true, currency: true })
+  .extend({
+    name: AccountsWrite.shape.name.min(1).max(100).meta({ description: 'Display name of the account', example: 'Holiday savings' }),
+    kind: AccountKindSchema.optional(),
+    currency: CurrencyCodeSchema.optional().meta({ description: 'Currency held by the account (defaults to USD). The first account in a currency becomes the default for it', example: 'EUR' }),
+  })
+  .meta({ id: 'CreateAccount' });
+
+// Account response - Use AccountsRead with the current balance and its currency exponent
+export const AccountSchema = AccountsRead
+  .extend({
+    balance: z.number().int().meta({ description: 'Current balance in minor units of the account currency', example: 50000 }),
+    minor_units: CurrenciesRead.shape.minor_units.meta({ description: 'ISO 4217 exponent of the account currency', example: 2 }),
+  })
+  .meta({ id: 'Account' });
+
+// Account-to-account transfer - source account comes from path param
+export const CreateAccountTransferSchema = z.object({
+  idempotency_key: TransactionsWrite.shape.idempotency_key.meta({ description: 'Unique key for idempotent requests', example: 'txn_abc123xyz' }),
+  destination_account_id: z.uuid().meta({ description: 'UUID of the account receiving funds', example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' }),
+  amount: TransactionsWrite.shape.amount.int().positive().meta({ description: 'Transfer amount in minor units of the currency shared by both accounts', example: 10050 }),
+  ...TransactionDetailsSchema.shape,
+}).meta({ id: 'CreateAccountTransfer' });
+
+// Account balance response (balance in minor units of the account currency)
+export const AccountBalanceSchema = z.object({
+  account_id: AccountsRead.shape.id,
+  currency: CurrencyCodeSchema,
+  balance: z.number().int().meta({ description: 'Ledger balance in minor units of the account currency', example: 50000 }),
+  available_balance: z.number().int().optional().meta({ description: 'Ledger balance minus active holds (current balance only)', example: 42000 }),
+  minor_units: CurrenciesRead.shape.minor_units.meta({ description: 'ISO 4217 exponent of the account currency', example: 2 }),
+}).meta({ id: 'AccountBalance' });
+
+export const AccountIdPathSchema = z.object({
+  id: AccountsRead.shape.id.meta({ description: 'Account UUID', example: '3fa85f64-5717-4562-b3fc-2c963f66afa6' }),
+});
+
+// Account delegation - account comes from path param
+export const CreateAccountDelegationSchema = z.object({
+  user_id: AccountDelegationsWrite.shape.delegate_user_id.meta({ description: 'UUID of the user allowed to debit the account', example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' }),
+}).meta({ id: 'CreateAccountDelegation' });
+
+// Account delegation response - Use AccountDelegationsRead directly
+export const AccountDelegationSchema = AccountDelegationsRead.meta({ id: 'AccountDelegation' });
+
+export const AccountDelegationPathSchema = z.object({
+  id: AccountsRead.shape.id.meta({ description: 'Account UUID', example: '3fa85f64-5717-4562-b3fc-2c963f66afa6' }),
+  userId: AccountDelegationsRead.shape.delegate_user_id.meta({ description: 'UUID of the delegate', example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' }),
+});
+
+export type CreateAccount = z.infer<typeof CreateAccountSchema>;
+export type Account = z.infer<typeof AccountSchema>;
+export type CreateAccountTransfer = z.infer<typeof CreateAccountTransferSchema>;
+export type AccountBalance = z.infer<typeof AccountBalanceSchema>;
+export type CreateAccountDelegation = z.infer<typeof CreateAccountDelegationSchema>;
+export type AccountDelegation = z.infer<typeof AccountDelegationSchema>;
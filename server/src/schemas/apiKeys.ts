@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { ApiKeysRead, ApiKeysWrite } from './pgzod/index';
+import { UserIdPathSchema } from './transactions';
+
+// Scopes an API key can be limited to (mirrors the CHECK constraint on api_keys.scopes)
+export const ApiKeyScopeSchema = z.enum([
+  'accounts:read',
+  'accounts:write',
+  'balance:read',
+  'exchange_rates:write',
+  'transactions:read',
+  'transactions:write',
+]).meta({ description: 'What the key may be used for', example: 'transactions:write' });
+
+// API key creation - owner comes from path param, the key itself is generated
+export const CreateApiKeySchema = z.object({
+  name: ApiKeysWrite.shape.name.min(1).max(100).meta({ description: 'Name to recognise the key by', example: 'Payroll service' }),
+  scopes: z.array(ApiKeyScopeSchema).min(1)
+    .refine(scopes => new Set(scopes).size === scopes.length, { message: 'Scopes must be unique' })
+    .meta({ description: 'Scopes the key is limited to', example: ['transactions:write', 'balance:read'] }),
+  allowed_ips: z.array(z.union([z.ipv4(), z.ipv6(), z.cidrv4(), z.cidrv6()])).min(1).max(100).optional()
+    .meta({ description: 'Addresses and CIDR ranges the key may be used from (any address if omitted)', example: ['203.0.113.7', '10.0.0.0/8'] }),
+  expires_at: z.iso.datetime().optional()
+    .meta({ description: 'When the key stops working (never if omitted)', example: '2027-01-01T00:00:00Z' }),
+  require_signature: z.boolean().optional()
+    .meta({ description: 'Whether requests made with the key to endpoints that move money (those that need the transactions:write scope) must be signed with its signing secret (false if omitted)', example: true }),
+}).meta({ id: 'CreateApiKey' });
+
+// API key response - Use ApiKeysRead, never the hash or the signing secret
+export const ApiKeySchema = ApiKeysRead
+  .omit({ key_hash: true, signing_secret: true })
+  .extend({
+    prefix: ApiKeysRead.shape.prefix.meta({ description: 'First part of the key, to recognise it by', example: 'thk_1a2b3c4d5e6f' }),
+    scopes: z.array(ApiKeyScopeSchema),
+  })
+  .meta({ id: 'ApiKey' });
+
+// Created API key - the only response that carries the key and its signing secret
+export const CreatedApiKeySchema = ApiKeySchema
+  .extend({
+    key: z.string().meta({ description: 'The key, shown only once. Send it in the X-API-Key header', example: 'thk_1a2b3c4d5e6f_Jm9sZm9zZWNyZXRrZXltYXRlcmlhbGdvZXNoZXJlMTIz' }),
+    signing_secret: z.string().nullable().meta({ description: 'The secret to sign requests with, shown only once; null unless require_signature', example: 'q3Vn0xP2b8Yc1Zt5Rw7Lm9Hf4Jk6Ds0Ae2Gi8Uo3Sy1' }),
+  })
+  .meta({ id: 'CreatedApiKey' });
+
+// Headers of a signed request (services/requestSigning.ts), required when the API key requires signatures
+export const SignatureHeadersSchema = z.object({
+  'X-Signature-Timestamp': z.string().regex(/^\d+$/).optional()
+    .meta({ description: 'When the request was signed, in Unix seconds; must be within SIGNATURE_MAX_SKEW_SECONDS (5 minutes by default) of the server\'s clock', example: '1767225600' }),
+  'X-Signature-Nonce': z.string().regex(/^[\w-]{16,128}$/).optional()
+    .meta({ description: 'A value the key has not signed a request with in twice the clock-skew window (16 to 128 letters, digits, - or _)', example: '9b1deb4d3b7d4bad9bdd2b0d7b3dcb6d' }),
+  'X-Signature': z.string().regex(/^[0-9a-f]{64}$/).optional()
+    .meta({ description: 'HMAC-SHA256, in lowercase hex, of the method, path with query string, timestamp, nonce and SHA-256 of the body, one per line, with the key\'s signing secret', example: '5d41402abc4b2a76b9719d911017c5925d41402abc4b2a76b9719d911017c592' }),
+});
+
+// Path parameters of a user's API key
+export const ApiKeyPathSchema = UserIdPathSchema.extend({
+  keyId: ApiKeysRead.shape.id.meta({ description: 'API key UUID', example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' }),
+});
+
+export type ApiKeyScope = z.infer<typeof ApiKeyScopeSchema>;
+export type CreateApiKey = z.infer<typeof CreateApiKeySchema>;
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+export type CreatedApiKey = z.infer<typeof CreatedApiKeySchema>;
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { ConversionsRead, ExchangeRatesRead, ExchangeRatesWrite, TransactionsWrite } from './pgzod/index';
+import { CurrencyCodeSchema } from './currencies';
+
+// Exchange rate as a decimal string, so no precision is lost to floating point (mirrors NUMERIC(24, 12))
+const RateSchema = ExchangeRatesWrite.shape.rate
+  .regex(/^\d{1,12}(\.\d{1,12})?$/, 'Must be a positive decimal with at most 12 integer and 12 fractional digits')
+  .refine((rate) => Number(rate) > 0, { message: 'Must be greater than zero' })
+  .meta({ description: 'Major units of quote_currency per major unit of base_currency', example: '1.0825' });
+
+// Exchange rate creation - Use ExchangeRatesWrite, omit auto-generated fields
+export const CreateExchangeRateSchema = ExchangeRatesWrite
+  .omit({ id: true, created_at: true, base_currency: true, quote_currency: true, rate: true, effective_at: true })
+  .extend({
+    base_currency: CurrencyCodeSchema.meta({ description: 'Currency converted from', example: 'EUR' }),
+    quote_currency: CurrencyCodeSchema.meta({ description: 'Currency converted to', example: 'USD' }),
+    rate: RateSchema,
+    effective_at: z.iso.datetime().optional().meta({ description: 'When the rate takes effect (defaults to now)', example: '2025-10-06T12:00:00Z' }),
+  })
+  .refine((data) => data.base_currency !== data.quote_currency, {
+    message: 'Base and quote currencies must be different',
+  })
+  .meta({ id: 'CreateExchangeRate' });
+
+// Exchange rate response - Use ExchangeRatesRead directly
+export const ExchangeRateSchema = ExchangeRatesRead.meta({ id: 'ExchangeRate' });
+
+export const ExchangeRateQuerySchema = z.object({
+  base_currency: CurrencyCodeSchema.optional(),
+  quote_currency: CurrencyCodeSchema.optional(),
+});
+
+// Conversion creation - amount is debited from the source account in its currency
+export const CreateConversionSchema = z.object({
+  idempotency_key: TransactionsWrite.shape.idempotency_key.meta({ description: 'Unique key for idempotent requests', example: 'cnv_abc123xyz' }),
+  source_account_id: z.uuid().meta({ description: 'UUID of the account debited', example: '3fa85f64-5717-4562-b3fc-2c963f66afa6' }),
+  destination_account_id: z.uuid().meta({ description: 'UUID of the account credited, in a different currency', example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' }),
+  amount: TransactionsWrite.shape.amount.int().positive().meta({ description: 'Amount to convert, in minor units of the source account currency', example: 10000 }),
+})
+  .refine((data) => data.source_account_id !== data.destination_account_id, {
+    message: 'Source and destination accounts must be different',
+  })
+  .meta({ id: 'CreateConversion' });
+
+// Conversion response - Use ConversionsRead directly
+export const ConversionSchema = ConversionsRead.meta({ id: 'Conversion' });
+
+export type CreateExchangeRate = z.infer<typeof CreateExchangeRateSchema>;
+export type ExchangeRate = z.infer<typeof ExchangeRateSchema>;
+export type CreateConversion = z.infer<typeof CreateConversionSchema>;
+export type Conversion = z.infer<typeof ConversionSchema>;
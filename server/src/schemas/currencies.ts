@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { CurrenciesRead } from './pgzod/index';
+
+// Default currency for user-level operations that don't specify one
+export const DEFAULT_CURRENCY = 'USD';
+
+// ISO 4217 currency code (must also be present in the currencies table)
+export const CurrencyCodeSchema = CurrenciesRead.shape.code
+  .regex(/^[A-Z]{3}$/, 'Must be an ISO 4217 currency code')
+  .meta({ description: 'ISO 4217 currency code', example: 'USD' });
+
+// Balance in a single currency, with the exponent needed to format it
+export const CurrencyBalanceSchema = z.object({
+  currency: CurrencyCodeSchema,
+  balance: z.number().int().meta({ description: 'Ledger balance in minor units of the currency', example: 50000 }),
+  available_balance: z.number().int().optional().meta({ description: 'Ledger balance minus active holds (current balances only)', example: 42000 }),
+  minor_units: CurrenciesRead.shape.minor_units.meta({ description: 'ISO 4217 exponent: divide balance by 10^minor_units to get major units', example: 2 }),
+}).meta({ id: 'CurrencyBalance' });
+
+export type CurrencyBalance = z.infer<typeof CurrencyBalanceSchema>;
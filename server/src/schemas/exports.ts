@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { CurrencyCodeSchema } from './currencies';
+import { EXPORT_FORMATS } from '../services/exportFormats';
+
+// Export query - a date range of the transaction history, from (inclusive) to (exclusive)
+export const ExportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).meta({ description: 'camt053 (ISO 20022 camt.053.001.02 XML), ofx (OFX 2.2) or qif (Quicken Interchange Format)', example: 'camt053' }),
+  from: z.iso.datetime().meta({ description: 'Only transactions created at or after this ISO 8601 datetime', example: '2026-10-01T00:00:00Z' }),
+  to: z.iso.datetime().meta({ description: 'Only transactions created before this ISO 8601 datetime', example: '2026-11-01T00:00:00Z' }),
+  currency: CurrencyCodeSchema.optional().meta({ description: 'Currency of the export; the user\'s default account in this currency is exported (defaults to USD)', example: 'USD' }),
+})
+  .refine((data) => Date.parse(data.from) < Date.parse(data.to), {
+    message: 'from must be before to',
+  });
+
+export type ExportQuery = z.infer<typeof ExportQuerySchema>;
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { HoldsRead, HoldsWrite } from './pgzod/index';
+import { CurrencyCodeSchema } from './currencies';
+
+// Time to live of a hold when the request doesn't set one (7 days, like a card authorization)
+export const DEFAULT_HOLD_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Longest a hold may reserve funds for (30 days)
+const MAX_HOLD_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Base amount schema with DB constraints (positive integer)
+const BaseAmountSchema = HoldsWrite.shape.amount.int().positive();
+
+// Hold creation - Use HoldsWrite, omit fields the server resolves, add business rules
+export const CreateHoldSchema = HoldsWrite
+  .omit({ id: true, created_at: true, source_account_id: true, destination_account_id: true, status: true, expires_at: true, captured_amount: true, capture_transaction_id: true, closed_at: true, idempotency_key: true, source_user_id: true, destination_user_id: true, amount: true, currency: true })
+  .extend({
+    idempotency_key: HoldsWrite.shape.idempotency_key.meta({ description: 'Unique key for idempotent requests', example: 'hld_abc123xyz' }),
+    source_user_id: z.uuid().meta({ description: 'UUID of the user whose funds are reserved', example: '550e8400-e29b-41d4-a716-446655440000' }),
+    destination_user_id: z.uuid().meta({ description: 'UUID of the user receiving the funds on capture', example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' }),
+    amount: BaseAmountSchema.meta({ description: 'Amount to reserve in minor units of the currency', example: 10050 }),
+    currency: CurrencyCodeSchema.optional().meta({ description: 'Currency of the hold; both users\' default accounts in this currency are used (defaults to USD)', example: 'USD' }),
+    expires_in_seconds: z.number().int().positive().max(MAX_HOLD_TTL_SECONDS).optional().meta({ description: 'Seconds until the hold expires and its funds are released (defaults to 7 days, at most 30 days)', example: 3600 }),
+  })
+  .refine((data) => data.source_user_id !== data.destination_user_id, {
+    message: 'Source and destination users must be different',
+  })
+  .meta({ id: 'CreateHold' });
+
+// Hold capture - the hold comes from path param
+export const CaptureHoldSchema = z.object({
+  idempotency_key: HoldsWrite.shape.idempotency_key.meta({ description: 'Unique key for idempotent requests, used for the resulting transfer', example: 'cap_abc123xyz' }),
+  amount: BaseAmountSchema.optional().meta({ description: 'Amount to capture in minor units (defaults to the full hold; the rest is released)', example: 8000 }),
+}).meta({ id: 'CaptureHold' });
+
+// Hold response - Use HoldsRead directly
+export const HoldSchema = HoldsRead.meta({ id: 'Hold' });
+
+export const HoldIdPathSchema = z.object({
+  id: HoldsRead.shape.id.meta({ description: 'Hold UUID', example: '9b2d7c4e-1f3a-4c5b-8d6e-7f8a9b0c1d2e' }),
+});
+
+export type CreateHold = z.infer<typeof CreateHoldSchema>;
+export type CaptureHold = z.infer<typeof CaptureHoldSchema>;
+export type Hold = z.infer<typeof HoldSchema>;
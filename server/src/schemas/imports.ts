@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+// Rows validated, and in commit mode written, per database round trip
+export const DEFAULT_IMPORT_CHUNK_SIZE = 1000;
+export const MAX_IMPORT_CHUNK_SIZE = 10000;
+
+// Row errors listed in a report; invalid_rows counts all of them
+export const MAX_REPORTED_IMPORT_ERRORS = 1000;
+
+// Import query - a dry run reports what a commit would do without writing anything
+export const ImportQuerySchema = z.object({
+  mode: z.enum(['dry-run', 'commit']).optional().meta({ description: 'dry-run (default) validates every row and reports errors; commit also writes the valid rows', example: 'dry-run' }),
+  chunk_size: z.coerce.number().int().min(1).max(MAX_IMPORT_CHUNK_SIZE).optional().meta({ description: `Rows written per database transaction (defaults to ${DEFAULT_IMPORT_CHUNK_SIZE}, at most ${MAX_IMPORT_CHUNK_SIZE})`, example: 1000 }),
+});
+
+export const ImportRowErrorSchema = z.object({
+  row: z.number().int().meta({ description: 'Line of the CSV file where the row starts (the header is line 1)', example: 42 }),
+  errors: z.array(z.string()).meta({ description: 'Everything wrong with the row', example: ['amount: Invalid input: expected int, received number', 'Unknown user: jane@example.com'] }),
+}).meta({ id: 'ImportRowError' });
+
+export const ImportReportSchema = z.object({
+  dry_run: z.boolean().meta({ description: 'Whether this was a dry run that wrote nothing', example: true }),
+  completed: z.boolean().meta({ description: 'False when a commit stopped at a chunk with invalid rows; the chunks before it were written', example: true }),
+  total_rows: z.number().int().meta({ description: 'Rows read from the file', example: 25000 }),
+  valid_rows: z.number().int().meta({ description: 'New rows that passed every check (imported, or to be imported by a commit)', example: 24990 }),
+  already_imported: z.number().int().meta({ description: 'Rows skipped because an earlier run imported them', example: 0 }),
+  invalid_rows: z.number().int().meta({ description: 'Rows that failed a check', example: 10 }),
+  imported: z.number().int().meta({ description: 'Rows written by this run (always 0 on a dry run)', example: 0 }),
+  errors: z.array(ImportRowErrorSchema).meta({ description: `Errors of the invalid rows in file order, at most ${MAX_REPORTED_IMPORT_ERRORS}` }),
+}).meta({ id: 'ImportReport' });
+
+// Import failure response - a commit that stopped at a chunk with invalid rows
+export const ImportFailureSchema = ImportReportSchema.extend({
+  error: z.string().meta({ example: 'Import stopped at invalid rows.' }),
+}).meta({ id: 'ImportFailure' });
+
+export type ImportRowError = z.infer<typeof ImportRowErrorSchema>;
+export type ImportReport = z.infer<typeof ImportReportSchema>;
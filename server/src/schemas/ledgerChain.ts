@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { LedgerRootsRead, TransactionsRead } from './pgzod/index';
+import { MAX_REPORTED_FINDINGS } from './reconciliation';
+
+const ChainSeqSchema = z.number().int().meta({ description: 'Position of the entry in the hash chain, from 1', example: 1042 });
+const ChainHashSchema = z.string().meta({ description: 'SHA-256 of the entry, chained to the previous one (lowercase hex)', example: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855' });
+
+export const LedgerChainHeadSchema = z.object({
+  chain_seq: ChainSeqSchema,
+  hash: ChainHashSchema,
+  transaction_id: TransactionsRead.shape.id,
+}).meta({ id: 'LedgerChainHead' });
+
+export const BrokenChainLinkSchema = z.object({
+  chain_seq: ChainSeqSchema,
+  transaction_id: TransactionsRead.shape.id.nullable().meta({ description: 'Entry at that position, or null if it is missing' }),
+  reason: z.string().meta({ description: 'What does not verify', example: 'hash does not match the entry' }),
+}).meta({ id: 'BrokenChainLink' });
+
+export const InvalidChainCheckpointSchema = z.object({
+  chain_seq: ChainSeqSchema,
+  signed_at: z.string().meta({ example: '2026-10-19T12:00:00.000Z' }),
+  reason: z.string().meta({ description: 'Why the checkpoint does not verify', example: 'Signature does not verify' }),
+}).meta({ id: 'InvalidChainCheckpoint' });
+
+export const LedgerVerificationSchema = z.object({
+  ok: z.boolean().meta({ description: 'Whether the whole chain and every signed checkpoint verified', example: true }),
+  checked_at: z.string().meta({ description: 'Time of the database snapshot that was verified', example: '2026-10-19T12:00:00.000Z' }),
+  entries: z.number().int().meta({ description: 'Entries verified, from the first one up to the broken link if any', example: 1042 }),
+  head: LedgerChainHeadSchema.nullable().meta({ description: 'The recorded chain head; null for an empty ledger' }),
+  broken_link: BrokenChainLinkSchema.nullable().meta({ description: 'The first entry that does not verify; null if none' }),
+  checkpoints: z.object({
+    checked: z.number().int().meta({ description: 'Signed checkpoints checked', example: 24 }),
+    signatures_verified: z.boolean().meta({ description: 'Whether signatures were checked; false when no LEDGER_SIGNING_KEY is configured, in which case only the hashes are compared' }),
+    invalid: z.array(InvalidChainCheckpointSchema).meta({ description: `At most ${MAX_REPORTED_FINDINGS}` }),
+  }),
+}).meta({ id: 'LedgerVerification' });
+
+export type LedgerVerification = z.infer<typeof LedgerVerificationSchema>;
+
+export const LedgerRootSchema = LedgerRootsRead.extend({
+  first_seq: ChainSeqSchema.meta({ description: 'First entry the root covers' }),
+  last_seq: ChainSeqSchema.meta({ description: 'Last entry the root covers' }),
+  root: z.string().meta({ description: 'Merkle root over the hashes of entries first_seq..last_seq (lowercase hex)', example: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855' }),
+}).meta({ id: 'LedgerRoot' });
+
+export const MerkleProofStepSchema = z.object({
+  side: z.enum(['left', 'right']).meta({ description: 'Side of the sibling: the next node is SHA-256(0x01 || left || right)' }),
+  hash: z.string().meta({ description: 'Sibling node (lowercase hex)', example: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855' }),
+}).meta({ id: 'MerkleProofStep' });
+
+export const TransactionProofSchema = z.object({
+  transaction_id: TransactionsRead.shape.id,
+  chain_seq: ChainSeqSchema,
+  leaf_index: z.number().int().meta({ description: 'Position of the entry among the leaves of the root, from 0', example: 17 }),
+  prev_hash: ChainHashSchema.meta({ description: 'Hash of the previous entry in the chain, or 64 zeros for the first entry' }),
+  entry: z.string().meta({
+    description: 'The entry as hashed: a JSON array of chain_seq, id, idempotency_key, type, source_user_id, source_account_id, destination_user_id, destination_account_id, amount, currency, created_at (UTC, microseconds), reverses_transaction_id, batch_id, batch_leg_index, description, external_reference, metadata and the postings, an array of [account_id, amount, currency] ordered by account and amount (a negative amount debits the account). Parse it to check the transaction and the accounts it moved money between, but hash it as sent',
+    example: '[1042, "0b9c1c52-8f0e-4f5e-9a43-2c7a1f0e6d11", "order-1042", "deposit", null, null, "550e8400-e29b-41d4-a716-446655440000", "6ba7b810-9dad-11d1-80b4-00c04fd430c8", 2500, "USD", "2026-10-20T09:30:00.000000Z", null, null, null, null, null, {}, [["6ba7b810-9dad-11d1-80b4-00c04fd430c8", 2500, "USD"], ["9f1c7d2e-3b4a-4c5d-8e6f-7a8b9c0d1e2f", -2500, "USD"]]]',
+  }),
+  leaf: ChainHashSchema.meta({ description: 'The entry\'s hash, SHA-256(prev_hash || entry); the leaf node is SHA-256(0x00 || leaf)' }),
+  root: LedgerRootSchema,
+  path: z.array(MerkleProofStepSchema).meta({ description: 'Siblings from the leaf up to the root; a level where the node has no sibling is skipped' }),
+}).meta({ id: 'TransactionProof' });
+
+export type TransactionProof = z.infer<typeof TransactionProofSchema>;
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const AccountDelegationsRead = z.object({
+  account_id: z.string().uuid(),
+  delegate_user_id: z.string().uuid(),
+  created_at: z.string(),
+});
+
+export type AccountDelegationsReadT = z.infer<typeof AccountDelegationsRead>;
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const AccountDelegationsWrite = z.object({
+  account_id: z.string().uuid(),
+  delegate_user_id: z.string().uuid(),
+  created_at: z.string().optional(),
+});
+
+export type AccountDelegationsWriteT = z.infer<typeof AccountDelegationsWrite>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const AccountsRead = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid().nullable().optional(),
+  name: z.string(),
+  kind: z.string(),
+  is_default: z.boolean(),
+  created_at: z.string(),
+  currency: z.string(),
+});
+
+export type AccountsReadT = z.infer<typeof AccountsRead>;
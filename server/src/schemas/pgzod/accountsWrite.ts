@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const AccountsWrite = z.object({
+  id: z.string().uuid().optional(),
+  user_id: z.string().uuid().nullable().optional(),
+  name: z.string(),
+  kind: z.string().optional(),
+  is_default: z.boolean().optional(),
+  created_at: z.string().optional(),
+  currency: z.string().optional(),
+});
+
+export type AccountsWriteT = z.infer<typeof AccountsWrite>;
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const ApiKeyNoncesRead = z.object({
+  api_key_id: z.string().uuid(),
+  nonce: z.string(),
+  created_at: z.string(),
+});
+
+export type ApiKeyNoncesReadT = z.infer<typeof ApiKeyNoncesRead>;
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const ApiKeyNoncesWrite = z.object({
+  api_key_id: z.string().uuid(),
+  nonce: z.string(),
+  created_at: z.string().optional(),
+});
+
+export type ApiKeyNoncesWriteT = z.infer<typeof ApiKeyNoncesWrite>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const ApiKeysRead = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  name: z.string(),
+  prefix: z.string(),
+  key_hash: z.string(),
+  scopes: z.array(z.string()),
+  allowed_ips: z.array(z.string()).nullable().optional(),
+  expires_at: z.string().nullable().optional(),
+  last_used_at: z.string().nullable().optional(),
+  last_used_ip: z.string().nullable().optional(),
+  created_at: z.string(),
+  revoked_at: z.string().nullable().optional(),
+  require_signature: z.boolean(),
+  signing_secret: z.string().nullable().optional(),
+});
+
+export type ApiKeysReadT = z.infer<typeof ApiKeysRead>;
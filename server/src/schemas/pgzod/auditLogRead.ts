@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+export const AuditLogRead = z.object({
+  id: z.string().uuid(),
+  created_at: z.string(),
+  actor_user_id: z.string().uuid().nullable().optional(),
+  action: z.string(),
+  resource_type: z.string(),
+  resource_id: z.string().nullable().optional(),
+  outcome: z.string(),
+  ip_address: z.string().nullable().optional(),
+  details: z.any(),
+});
+
+export type AuditLogReadT = z.infer<typeof AuditLogRead>;
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const AuthSessionsRead = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  created_at: z.string(),
+  expires_at: z.string(),
+  revoked_at: z.string().nullable().optional(),
+});
+
+export type AuthSessionsReadT = z.infer<typeof AuthSessionsRead>;
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const AuthSessionsWrite = z.object({
+  id: z.string().uuid().optional(),
+  user_id: z.string().uuid(),
+  created_at: z.string().optional(),
+  expires_at: z.string(),
+  revoked_at: z.string().nullable().optional(),
+});
+
+export type AuthSessionsWriteT = z.infer<typeof AuthSessionsWrite>;
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const BalanceCheckpointsWrite = z.object({
+  account_id: z.string().uuid(),
+  as_of: z.string(),
+  balance: z.number().int(),
+  posting_count: z.number().int(),
+  created_at: z.string().optional(),
+});
+
+export type BalanceCheckpointsWriteT = z.infer<typeof BalanceCheckpointsWrite>;
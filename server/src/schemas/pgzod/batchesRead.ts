@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const BatchesRead = z.object({
+  id: z.string().uuid(),
+  idempotency_key: z.string().uuid(),
+  leg_count: z.number().int(),
+  created_at: z.string(),
+});
+
+export type BatchesReadT = z.infer<typeof BatchesRead>;
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const BatchesWrite = z.object({
+  id: z.string().uuid().optional(),
+  idempotency_key: z.string().uuid(),
+  leg_count: z.number().int(),
+  created_at: z.string().optional(),
+});
+
+export type BatchesWriteT = z.infer<typeof BatchesWrite>;
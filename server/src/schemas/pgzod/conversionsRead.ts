@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+export const ConversionsRead = z.object({
+  id: z.string().uuid(),
+  idempotency_key: z.string().uuid(),
+  exchange_rate_id: z.string().uuid(),
+  rate: z.string(),
+  rounding: z.string(),
+  source_transaction_id: z.string().uuid(),
+  source_account_id: z.string().uuid(),
+  source_currency: z.string(),
+  source_amount: z.number().int(),
+  destination_transaction_id: z.string().uuid(),
+  destination_account_id: z.string().uuid(),
+  destination_currency: z.string(),
+  destination_amount: z.number().int(),
+  unrounded_destination_amount: z.string(),
+  created_at: z.string(),
+});
+
+export type ConversionsReadT = z.infer<typeof ConversionsRead>;
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const CurrenciesRead = z.object({
+  code: z.string(),
+  name: z.string(),
+  minor_units: z.number().int(),
+});
+
+export type CurrenciesReadT = z.infer<typeof CurrenciesRead>;
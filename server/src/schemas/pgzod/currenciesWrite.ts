@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const CurrenciesWrite = z.object({
+  code: z.string(),
+  name: z.string(),
+  minor_units: z.number().int(),
+});
+
+export type CurrenciesWriteT = z.infer<typeof CurrenciesWrite>;
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const ExchangeRatesRead = z.object({
+  id: z.string().uuid(),
+  base_currency: z.string(),
+  quote_currency: z.string(),
+  rate: z.string(),
+  effective_at: z.string(),
+  created_at: z.string(),
+});
+
+export type ExchangeRatesReadT = z.infer<typeof ExchangeRatesRead>;
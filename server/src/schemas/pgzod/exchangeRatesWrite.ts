@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const ExchangeRatesWrite = z.object({
+  id: z.string().uuid().optional(),
+  base_currency: z.string(),
+  quote_currency: z.string(),
+  rate: z.string(),
+  effective_at: z.string().optional(),
+  created_at: z.string().optional(),
+});
+
+export type ExchangeRatesWriteT = z.infer<typeof ExchangeRatesWrite>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const HoldsRead = z.object({
+  id: z.string().uuid(),
+  idempotency_key: z.string().uuid(),
+  source_user_id: z.string().uuid(),
+  source_account_id: z.string().uuid(),
+  destination_user_id: z.string().uuid(),
+  destination_account_id: z.string().uuid(),
+  amount: z.number().int(),
+  currency: z.string(),
+  status: z.string(),
+  expires_at: z.string(),
+  captured_amount: z.number().int().nullable().optional(),
+  capture_transaction_id: z.string().uuid().nullable().optional(),
+  created_at: z.string(),
+  closed_at: z.string().nullable().optional(),
+});
+
+export type HoldsReadT = z.infer<typeof HoldsRead>;
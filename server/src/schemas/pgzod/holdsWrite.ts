@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const HoldsWrite = z.object({
+  id: z.string().uuid().optional(),
+  idempotency_key: z.string().uuid(),
+  source_user_id: z.string().uuid(),
+  source_account_id: z.string().uuid(),
+  destination_user_id: z.string().uuid(),
+  destination_account_id: z.string().uuid(),
+  amount: z.number().int(),
+  currency: z.string(),
+  status: z.string().optional(),
+  expires_at: z.string(),
+  captured_amount: z.number().int().nullable().optional(),
+  capture_transaction_id: z.string().uuid().nullable().optional(),
+  created_at: z.string().optional(),
+  closed_at: z.string().nullable().optional(),
+});
+
+export type HoldsWriteT = z.infer<typeof HoldsWrite>;
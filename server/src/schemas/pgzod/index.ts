@@ -1,11 +1,99 @@
+export type { AccountDelegationsReadT } from './accountDelegationsRead';
+export { AccountDelegationsRead } from './accountDelegationsRead';
+export type { AccountDelegationsWriteT } from './accountDelegationsWrite';
+export { AccountDelegationsWrite } from './accountDelegationsWrite';
+export type { AccountsReadT } from './accountsRead';
+export { AccountsRead } from './accountsRead';
+export type { AccountsWriteT } from './accountsWrite';
+export { AccountsWrite } from './accountsWrite';
+export type { ApiKeyNoncesReadT } from './apiKeyNoncesRead';
+export { ApiKeyNoncesRead } from './apiKeyNoncesRead';
+export type { ApiKeyNoncesWriteT } from './apiKeyNoncesWrite';
+export { ApiKeyNoncesWrite } from './apiKeyNoncesWrite';
+export type { ApiKeysReadT } from './apiKeysRead';
+export { ApiKeysRead } from './apiKeysRead';
+export type { ApiKeysWriteT } from './apiKeysWrite';
+export { ApiKeysWrite } from './apiKeysWrite';
+export type { AuditLogReadT } from './auditLogRead';
+export { AuditLogRead } from './auditLogRead';
+export type { AuditLogWriteT } from './auditLogWrite';
+export { AuditLogWrite } from './auditLogWrite';
+export type { AuthSessionsReadT } from './authSessionsRead';
+export { AuthSessionsRead } from './authSessionsRead';
+export type { AuthSessionsWriteT } from './authSessionsWrite';
+export { AuthSessionsWrite } from './authSessionsWrite';
+export type { BalanceCheckpointsReadT } from './balanceCheckpointsRead';
+export { BalanceCheckpointsRead } from './balanceCheckpointsRead';
+export type { BalanceCheckpointsWriteT } from './balanceCheckpointsWrite';
+export { BalanceCheckpointsWrite } from './balanceCheckpointsWrite';
+export type { BatchesReadT } from './batchesRead';
+export { BatchesRead } from './batchesRead';
+export type { BatchesWriteT } from './batchesWrite';
+export { BatchesWrite } from './batchesWrite';
+export type { ConversionsReadT } from './conversionsRead';
+export { ConversionsRead } from './conversionsRead';
+export type { ConversionsWriteT } from './conversionsWrite';
+export { ConversionsWrite } from './conversionsWrite';
+export type { CurrenciesReadT } from './currenciesRead';
+export { CurrenciesRead } from './currenciesRead';
+export type { CurrenciesWriteT } from './currenciesWrite';
+export { CurrenciesWrite } from './currenciesWrite';
+export type { ExchangeRatesReadT } from './exchangeRatesRead';
+export { ExchangeRatesRead } from './exchangeRatesRead';
+export type { ExchangeRatesWriteT } from './exchangeRatesWrite';
+export { ExchangeRatesWrite } from './exchangeRatesWrite';
+export type { HoldsReadT } from './holdsRead';
+export { HoldsRead } from './holdsRead';
+export type { HoldsWriteT } from './holdsWrite';
+export { HoldsWrite } from './holdsWrite';
+export type { LedgerChainCheckpointsReadT } from './ledgerChainCheckpointsRead';
+export { LedgerChainCheckpointsRead } from './ledgerChainCheckpointsRead';
+export type { LedgerChainCheckpointsWriteT } from './ledgerChainCheckpointsWrite';
+export { LedgerChainCheckpointsWrite } from './ledgerChainCheckpointsWrite';
+export type { LedgerChainHeadReadT } from './ledgerChainHeadRead';
+export { LedgerChainHeadRead } from './ledgerChainHeadRead';
+export type { LedgerChainHeadWriteT } from './ledgerChainHeadWrite';
+export { LedgerChainHeadWrite } from './ledgerChainHeadWrite';
+export type { LedgerRootsReadT } from './ledgerRootsRead';
+export { LedgerRootsRead } from './ledgerRootsRead';
+export type { LedgerRootsWriteT } from './ledgerRootsWrite';
+export { LedgerRootsWrite } from './ledgerRootsWrite';
+export type { PermissionsReadT } from './permissionsRead';
+export { PermissionsRead } from './permissionsRead';
+export type { PermissionsWriteT } from './permissionsWrite';
+export { PermissionsWrite } from './permissionsWrite';
 export type { PgmigrationsReadT } from './pgmigrationsRead';
 export { PgmigrationsRead } from './pgmigrationsRead';
 export type { PgmigrationsWriteT } from './pgmigrationsWrite';
 export { PgmigrationsWrite } from './pgmigrationsWrite';
+export type { PostingsReadT } from './postingsRead';
+export { PostingsRead } from './postingsRead';
+export type { PostingsWriteT } from './postingsWrite';
+export { PostingsWrite } from './postingsWrite';
+export type { RefreshTokensReadT } from './refreshTokensRead';
+export { RefreshTokensRead } from './refreshTokensRead';
+export type { RefreshTokensWriteT } from './refreshTokensWrite';
+export { RefreshTokensWrite } from './refreshTokensWrite';
+export type { RolePermissionsReadT } from './rolePermissionsRead';
+export { RolePermissionsRead } from './rolePermissionsRead';
+export type { RolePermissionsWriteT } from './rolePermissionsWrite';
+export { RolePermissionsWrite } from './rolePermissionsWrite';
+export type { RolesReadT } from './rolesRead';
+export { RolesRead } from './rolesRead';
+export type { RolesWriteT } from './rolesWrite';
+export { RolesWrite } from './rolesWrite';
+export type { ScheduledTransfersReadT } from './scheduledTransfersRead';
+export { ScheduledTransfersRead } from './scheduledTransfersRead';
+export type { ScheduledTransfersWriteT } from './scheduledTransfersWrite';
+export { ScheduledTransfersWrite } from './scheduledTransfersWrite';
 export type { TransactionsReadT } from './transactionsRead';
 export { TransactionsRead } from './transactionsRead';
 export type { TransactionsWriteT } from './transactionsWrite';
 export { TransactionsWrite } from './transactionsWrite';
+export type { UserRolesReadT } from './userRolesRead';
+export { UserRolesRead } from './userRolesRead';
+export type { UserRolesWriteT } from './userRolesWrite';
+export { UserRolesWrite } from './userRolesWrite';
 export type { UsersReadT } from './usersRead';
 export { UsersRead } from './usersRead';
 export type { UsersWriteT } from './usersWrite';
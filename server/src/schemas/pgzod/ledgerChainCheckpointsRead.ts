@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const LedgerChainCheckpointsRead = z.object({
+  chain_seq: z.number().int(),
+  hash: z.string(),
+  key_id: z.string(),
+  signature: z.string(),
+  signed_at: z.string(),
+});
+
+export type LedgerChainCheckpointsReadT = z.infer<typeof LedgerChainCheckpointsRead>;
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const LedgerChainHeadRead = z.object({
+  id: z.boolean(),
+  chain_seq: z.number().int(),
+  hash: z.string(),
+  transaction_id: z.string().uuid(),
+});
+
+export type LedgerChainHeadReadT = z.infer<typeof LedgerChainHeadRead>;
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const LedgerChainHeadWrite = z.object({
+  id: z.boolean().optional(),
+  chain_seq: z.number().int(),
+  hash: z.string(),
+  transaction_id: z.string().uuid(),
+});
+
+export type LedgerChainHeadWriteT = z.infer<typeof LedgerChainHeadWrite>;
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const LedgerRootsRead = z.object({
+  id: z.string().uuid(),
+  first_seq: z.number().int(),
+  last_seq: z.number().int(),
+  root: z.string(),
+  created_at: z.string(),
+});
+
+export type LedgerRootsReadT = z.infer<typeof LedgerRootsRead>;
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const LedgerRootsWrite = z.object({
+  id: z.string().uuid().optional(),
+  first_seq: z.number().int(),
+  last_seq: z.number().int(),
+  root: z.string(),
+  created_at: z.string().optional(),
+});
+
+export type LedgerRootsWriteT = z.infer<typeof LedgerRootsWrite>;
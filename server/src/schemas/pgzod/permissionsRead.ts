@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const PermissionsRead = z.object({
+  name: z.string(),
+  description: z.string(),
+});
+
+export type PermissionsReadT = z.infer<typeof PermissionsRead>;
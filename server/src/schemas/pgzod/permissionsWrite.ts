@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const PermissionsWrite = z.object({
+  name: z.string(),
+  description: z.string(),
+});
+
+export type PermissionsWriteT = z.infer<typeof PermissionsWrite>;
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const PostingsRead = z.object({
+  id: z.string().uuid(),
+  transaction_id: z.string().uuid(),
+  account_id: z.string().uuid(),
+  amount: z.number().int(),
+  currency: z.string(),
+  created_at: z.string(),
+});
+
+export type PostingsReadT = z.infer<typeof PostingsRead>;
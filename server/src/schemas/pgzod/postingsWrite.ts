@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const PostingsWrite = z.object({
+  id: z.string().uuid().optional(),
+  transaction_id: z.string().uuid(),
+  account_id: z.string().uuid(),
+  amount: z.number().int(),
+  currency: z.string(),
+  created_at: z.string().optional(),
+});
+
+export type PostingsWriteT = z.infer<typeof PostingsWrite>;
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const RefreshTokensRead = z.object({
+  id: z.string().uuid(),
+  session_id: z.string().uuid(),
+  token_hash: z.string(),
+  created_at: z.string(),
+  expires_at: z.string(),
+  used_at: z.string().nullable().optional(),
+});
+
+export type RefreshTokensReadT = z.infer<typeof RefreshTokensRead>;
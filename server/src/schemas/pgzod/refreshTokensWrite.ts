@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const RefreshTokensWrite = z.object({
+  id: z.string().uuid().optional(),
+  session_id: z.string().uuid(),
+  token_hash: z.string(),
+  created_at: z.string().optional(),
+  expires_at: z.string(),
+  used_at: z.string().nullable().optional(),
+});
+
+export type RefreshTokensWriteT = z.infer<typeof RefreshTokensWrite>;
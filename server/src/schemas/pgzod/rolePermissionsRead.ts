@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const RolePermissionsRead = z.object({
+  role: z.string(),
+  permission: z.string(),
+});
+
+export type RolePermissionsReadT = z.infer<typeof RolePermissionsRead>;
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const RolePermissionsWrite = z.object({
+  role: z.string(),
+  permission: z.string(),
+});
+
+export type RolePermissionsWriteT = z.infer<typeof RolePermissionsWrite>;
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const RolesRead = z.object({
+  name: z.string(),
+  description: z.string(),
+});
+
+export type RolesReadT = z.infer<typeof RolesRead>;
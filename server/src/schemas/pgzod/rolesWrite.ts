@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const RolesWrite = z.object({
+  name: z.string(),
+  description: z.string(),
+});
+
+export type RolesWriteT = z.infer<typeof RolesWrite>;
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+export const ScheduledTransfersRead = z.object({
+  id: z.string().uuid(),
+  idempotency_key: z.string().uuid(),
+  source_user_id: z.string().uuid(),
+  destination_user_id: z.string().uuid(),
+  amount: z.number().int(),
+  currency: z.string(),
+  recurrence: z.string().nullable().optional(),
+  start_at: z.string(),
+  next_run_at: z.string().nullable().optional(),
+  occurrence_index: z.number().int(),
+  status: z.string(),
+  failure_policy: z.string(),
+  max_retries: z.number().int(),
+  retry_delay_seconds: z.number().int(),
+  retry_count: z.number().int(),
+  last_run_at: z.string().nullable().optional(),
+  last_transaction_id: z.string().uuid().nullable().optional(),
+  last_error: z.string().nullable().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  created_by_user_id: z.string().uuid(),
+});
+
+export type ScheduledTransfersReadT = z.infer<typeof ScheduledTransfersRead>;
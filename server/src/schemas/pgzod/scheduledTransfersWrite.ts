@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+export const ScheduledTransfersWrite = z.object({
+  id: z.string().uuid().optional(),
+  idempotency_key: z.string().uuid(),
+  source_user_id: z.string().uuid(),
+  destination_user_id: z.string().uuid(),
+  amount: z.number().int(),
+  currency: z.string(),
+  recurrence: z.string().nullable().optional(),
+  start_at: z.string(),
+  next_run_at: z.string().nullable().optional(),
+  occurrence_index: z.number().int().optional(),
+  status: z.string().optional(),
+  failure_policy: z.string().optional(),
+  max_retries: z.number().int().optional(),
+  retry_delay_seconds: z.number().int().optional(),
+  retry_count: z.number().int().optional(),
+  last_run_at: z.string().nullable().optional(),
+  last_transaction_id: z.string().uuid().nullable().optional(),
+  last_error: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+  created_by_user_id: z.string().uuid(),
+});
+
+export type ScheduledTransfersWriteT = z.infer<typeof ScheduledTransfersWrite>;
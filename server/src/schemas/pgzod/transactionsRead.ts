@@ -4,9 +4,22 @@ export const TransactionsRead = z.object({
   id: z.string().uuid(),
   idempotency_key: z.string().uuid(),
   source_user_id: z.string().uuid().nullable().optional(),
-  destination_user_id: z.string().uuid(),
+  destination_user_id: z.string().uuid().nullable().optional(),
   amount: z.number().int(),
   created_at: z.string(),
+  type: z.string(),
+  source_account_id: z.string().uuid().nullable().optional(),
+  destination_account_id: z.string().uuid().nullable().optional(),
+  currency: z.string(),
+  reverses_transaction_id: z.string().uuid().nullable().optional(),
+  batch_id: z.string().uuid().nullable().optional(),
+  batch_leg_index: z.number().int().nullable().optional(),
+  description: z.string().nullable().optional(),
+  external_reference: z.string().nullable().optional(),
+  metadata: z.any().nullable().optional(),
+  chain_seq: z.number().int().nullable().optional(),
+  prev_hash: z.string().nullable().optional(),
+  hash: z.string().nullable().optional(),
 });
 
 export type TransactionsReadT = z.infer<typeof TransactionsRead>;
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const UserRolesWrite = z.object({
+  user_id: z.string().uuid(),
+  role: z.string(),
+  granted_by: z.string().uuid().nullable().optional(),
+  created_at: z.string().optional(),
+});
+
+export type UserRolesWriteT = z.infer<typeof UserRolesWrite>;
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { AccountsRead, UsersRead } from './pgzod/index';
+import { CurrencyCodeSchema } from './currencies';
+
+// Findings listed per check; a check fails on the first one regardless
+export const MAX_REPORTED_FINDINGS = 1000;
+
+// Customer money per currency against the money that entered and left the system
+export const CurrencyReconciliationSchema = z.object({
+  currency: CurrencyCodeSchema,
+  customer_balances: z.number().int().meta({ description: 'Sum of the balances of all customer accounts, in minor units', example: 120000 }),
+  inflows: z.number().int().meta({ description: 'Money that entered customer accounts from outside: deposits, conversions into the currency, and reversals of withdrawals and conversions out of it', example: 150000 }),
+  outflows: z.number().int().meta({ description: 'Money that left customer accounts: withdrawals, conversions out of the currency, and reversals of deposits and conversions into it', example: 30000 }),
+  difference: z.number().int().meta({ description: 'customer_balances - (inflows - outflows); zero when there is no drift', example: 0 }),
+}).meta({ id: 'CurrencyReconciliation' });
+
+export const NegativeBalanceSchema = z.object({
+  account_id: AccountsRead.shape.id,
+  user_id: UsersRead.shape.id,
+  currency: CurrencyCodeSchema,
+  at: z.string().meta({ description: 'First instant at which the account\'s balance was below zero', example: '2026-10-19T12:00:00.000Z' }),
+  balance: z.number().int().meta({ description: 'Balance at that instant, in minor units', example: -500 }),
+}).meta({ id: 'NegativeBalance' });
+
+export const CheckpointMismatchSchema = z.object({
+  account_id: AccountsRead.shape.id,
+  as_of: z.string().meta({ description: 'Time the checkpoint covers', example: '2026-10-19T12:00:00.000Z' }),
+  balance: z.number().int().meta({ description: 'Checkpointed balance, in minor units', example: 10001 }),
+  expected_balance: z.number().int().meta({ description: 'Balance recomputed from the ledger, in minor units', example: 10000 }),
+  posting_count: z.number().int().meta({ description: 'Checkpointed number of postings', example: 42 }),
+  expected_posting_count: z.number().int().meta({ description: 'Number of postings in the ledger', example: 42 }),
+}).meta({ id: 'CheckpointMismatch' });
+
+export const OrphanedFailedTransactionSchema = z.object({
+  id: z.string().uuid().meta({ description: 'Id of the private.failed_transactions row', example: '550e8400-e29b-41d4-a716-446655440000' }),
+  idempotency_key: z.string().uuid().meta({ example: '7c9e6679-7425-40de-944b-e07fc1f90ae7' }),
+  reasons: z.array(z.string()).meta({ description: 'Why the row cannot be traced back', example: ['source_account_id does not belong to source_user_id'] }),
+}).meta({ id: 'OrphanedFailedTransaction' });
+
+export const ReconciliationReportSchema = z.object({
+  ok: z.boolean().meta({ description: 'Whether every check passed', example: true }),
+  checked_at: z.string().meta({ description: 'Time of the database snapshot every check read', example: '2026-10-19T12:00:00.000Z' }),
+  checks: z.object({
+    customer_balances: z.object({
+      ok: z.boolean(),
+      currencies: z.array(CurrencyReconciliationSchema).meta({ description: 'One row per currency' }),
+    }).meta({ description: 'Total customer balances equal the money that entered minus the money that left' }),
+    negative_balances: z.object({
+      ok: z.boolean(),
+      accounts: z.array(NegativeBalanceSchema).meta({ description: `Customer accounts that were ever overdrawn, at most ${MAX_REPORTED_FINDINGS}` }),
+    }).meta({ description: 'No customer account balance is below zero at any point in history' }),
+    checkpoints: z.object({
+      ok: z.boolean(),
+      checked: z.number().int().meta({ description: 'Balance checkpoints recomputed', example: 1200 }),
+      mismatches: z.array(CheckpointMismatchSchema),
+    }).meta({ description: 'Every balance checkpoint matches the ledger' }),
+    failed_transactions: z.object({
+      ok: z.boolean(),
+      orphaned: z.array(OrphanedFailedTransactionSchema).meta({ description: `At most ${MAX_REPORTED_FINDINGS}` }),
+    }).meta({ description: 'Every failed transaction row names a party and points at users, accounts, a currency and a schedule that exist and belong together' }),
+  }),
+}).meta({ id: 'ReconciliationReport' });
+
+export type ReconciliationReport = z.infer<typeof ReconciliationReportSchema>;
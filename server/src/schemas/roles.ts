@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { RolesRead, UserRolesRead, UserRolesWrite } from './pgzod/index';
+import { UserIdPathSchema } from './transactions';
+
+// Role response - Use RolesRead with the permissions the role grants
+export const RoleSchema = RolesRead
+  .extend({
+    name: RolesRead.shape.name.meta({ description: 'Role name', example: 'operator' }),
+    permissions: z.array(z.string()).meta({ description: 'Permissions the role grants', example: ['accounts:read', 'deposits:issue'] }),
+  })
+  .meta({ id: 'Role' });
+
+// Role grant request - the user comes from path param, the granting user from the access token
+export const GrantRoleSchema = z.object({
+  role: UserRolesWrite.shape.role.min(1).meta({ description: 'Name of the role to grant', example: 'auditor' }),
+}).meta({ id: 'GrantRole' });
+
+// Role grant response - Use UserRolesRead
+export const UserRoleSchema = UserRolesRead
+  .extend({
+    granted_by: UserRolesRead.shape.granted_by.meta({ description: 'User who granted the role, or null if it was granted from the command line' }),
+  })
+  .meta({ id: 'UserRole' });
+
+// Path parameters of a user's role grant
+export const UserRolePathSchema = UserIdPathSchema.extend({
+  role: UserRolesRead.shape.role.min(1).meta({ description: 'Role name', example: 'auditor' }),
+});
+
+export type Role = z.infer<typeof RoleSchema>;
+export type GrantRole = z.infer<typeof GrantRoleSchema>;
+export type UserRole = z.infer<typeof UserRoleSchema>;
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { ScheduledTransfersRead, ScheduledTransfersWrite, UsersRead } from './pgzod/index';
+import { CurrencyCodeSchema } from './currencies';
+import { isValidRecurrence } from '../services/recurrence';
+
+// RRULE subset, evaluated in UTC (see services/recurrence.ts)
+const RecurrenceSchema = z.string()
+  .max(200)
+  .refine(isValidRecurrence, { message: 'Must be a supported RRULE (FREQ, INTERVAL, BYMONTHDAY, COUNT, UNTIL)' })
+  .meta({ description: 'RFC 5545 RRULE evaluated in UTC; FREQ=DAILY|WEEKLY|MONTHLY|YEARLY with optional INTERVAL, BYMONTHDAY (monthly), COUNT or UNTIL. Omit for a one-off transfer', example: 'FREQ=MONTHLY;BYMONTHDAY=1' });
+
+const FailurePolicySchema = z.enum(['pause', 'retry'])
+  .meta({ description: 'What happens when an occurrence fails: pause the schedule, or retry the occurrence after retry_delay_seconds (up to max_retries times, then pause)', example: 'retry' });
+
+const MaxRetriesSchema = ScheduledTransfersWrite.shape.max_retries.unwrap().int().min(0).max(10)
+  .meta({ description: 'Retries of a failed occurrence under the retry policy (defaults to 3)', example: 3 });
+
+const RetryDelaySchema = ScheduledTransfersWrite.shape.retry_delay_seconds.unwrap().int().positive().max(7 * 24 * 60 * 60)
+  .meta({ description: 'Seconds between retries of a failed occurrence (defaults to 1 hour)', example: 3600 });
+
+// Scheduled transfer creation - Use ScheduledTransfersWrite, omit fields the server manages
+// Note: source_user_id comes from path param
+export const CreateScheduledTransferSchema = ScheduledTransfersWrite
+  .omit({ id: true, source_user_id: true, next_run_at: true, occurrence_index: true, status: true, retry_count: true, last_run_at: true, last_transaction_id: true, last_error: true, created_at: true, updated_at: true, created_by_user_id: true, idempotency_key: true, destination_user_id: true, amount: true, currency: true, recurrence: true, start_at: true, failure_policy: true, max_retries: true, retry_delay_seconds: true })
+  .extend({
+    idempotency_key: ScheduledTransfersWrite.shape.idempotency_key.meta({ description: 'Unique key for idempotent requests', example: 'sch_abc123xyz' }),
+    destination_user_id: z.uuid().meta({ description: 'UUID of the user receiving funds', example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' }),
+    amount: ScheduledTransfersWrite.shape.amount.int().positive().meta({ description: 'Amount of each transfer in minor units of the currency', example: 120000 }),
+    currency: CurrencyCodeSchema.optional().meta({ description: 'Currency of the transfers (defaults to USD)', example: 'USD' }),
+    start_at: z.iso.datetime().meta({ description: 'First run of the transfer (the only run when there is no recurrence)', example: '2026-11-01T09:00:00Z' }),
+    recurrence: RecurrenceSchema.optional(),
+    failure_policy: FailurePolicySchema.optional(),
+    max_retries: MaxRetriesSchema.optional(),
+    retry_delay_seconds: RetryDelaySchema.optional(),
+  })
+  .meta({ id: 'CreateScheduledTransfer' });
+
+// Scheduled transfer update - pause/resume and change future occurrences
+export const UpdateScheduledTransferSchema = z.object({
+  status: z.enum(['active', 'paused']).optional().meta({ description: 'Pause the schedule, or resume it (a resumed schedule runs its pending occurrence at once if it is due)', example: 'paused' }),
+  amount: ScheduledTransfersWrite.shape.amount.int().positive().optional().meta({ description: 'Amount of future transfers in minor units of the currency', example: 125000 }),
+  failure_policy: FailurePolicySchema.optional(),
+  max_retries: MaxRetriesSchema.optional(),
+  retry_delay_seconds: RetryDelaySchema.optional(),
+})
+  .refine((data) => Object.values(data).some(value => value !== undefined), {
+    message: 'At least one field must be provided',
+  })
+  .meta({ id: 'UpdateScheduledTransfer' });
+
+// Scheduled transfer response - Use ScheduledTransfersRead directly
+export const ScheduledTransferSchema = ScheduledTransfersRead.meta({ id: 'ScheduledTransfer' });
+
+export const ScheduledTransferPathSchema = z.object({
+  id: UsersRead.shape.id.meta({ description: 'User UUID', example: '550e8400-e29b-41d4-a716-446655440000' }),
+  scheduleId: ScheduledTransfersRead.shape.id.meta({ description: 'Scheduled transfer UUID', example: '0e5f7a2c-3b4d-4e6f-8a9b-1c2d3e4f5a6b' }),
+});
+
+export type CreateScheduledTransfer = z.infer<typeof CreateScheduledTransferSchema>;
+export type UpdateScheduledTransfer = z.infer<typeof UpdateScheduledTransferSchema>;
+export type ScheduledTransfer = z.infer<typeof ScheduledTransferSchema>;
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { AccountsRead, CurrenciesRead, TransactionsRead, UsersRead } from './pgzod/index';
+import { CurrencyCodeSchema } from './currencies';
+
+// Longest period a single statement may cover
+export const MAX_STATEMENT_DAYS = 366;
+
+export const STATEMENT_FORMATS = ['json', 'csv', 'html'] as const;
+
+// Statement query - the period runs from `from` (inclusive) to `to` (exclusive)
+export const StatementQuerySchema = z.object({
+  from: z.iso.datetime().meta({ description: 'Start of the period (ISO 8601, inclusive); the opening balance is the balance just before this instant', example: '2026-10-01T00:00:00Z' }),
+  to: z.iso.datetime().meta({ description: 'End of the period (ISO 8601, exclusive); the closing balance is the balance just before this instant', example: '2026-11-01T00:00:00Z' }),
+  currency: CurrencyCodeSchema.optional().meta({ description: 'Currency of the statement; the user\'s default account in this currency is used (defaults to USD)', example: 'USD' }),
+  format: z.enum(STATEMENT_FORMATS).optional().meta({ description: 'json (default), csv, or a printable html document', example: 'json' }),
+})
+  .refine((data) => Date.parse(data.from) < Date.parse(data.to), {
+    message: 'from must be before to',
+  })
+  .refine((data) => Date.parse(data.to) - Date.parse(data.from) <= MAX_STATEMENT_DAYS * 24 * 60 * 60 * 1000, {
+    message: `A statement covers at most ${MAX_STATEMENT_DAYS} days`,
+  });
+
+// One posting on the statement's account, with the balance right after it
+export const StatementEntrySchema = z.object({
+  transaction_id: TransactionsRead.shape.id,
+  created_at: TransactionsRead.shape.created_at,
+  type: TransactionsRead.shape.type,
+  description: TransactionsRead.shape.description,
+  external_reference: TransactionsRead.shape.external_reference,
+  counterparty_user_id: UsersRead.shape.id.nullable().meta({ description: 'The other user of a transfer, hold capture or reversal (null for deposits, withdrawals, conversions and split payments)', example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' }),
+  amount: z.number().int().meta({ description: 'Signed amount in minor units: positive for money in, negative for money out', example: -2500 }),
+  running_balance: z.number().int().meta({ description: 'Balance of the account right after this entry, in minor units', example: 7500 }),
+}).meta({ id: 'StatementEntry' });
+
+export const StatementSchema = z.object({
+  user_id: UsersRead.shape.id,
+  account_id: AccountsRead.shape.id.nullable().meta({ description: 'The user\'s default account in the currency (null if the user never held it)', example: '3fa85f64-5717-4562-b3fc-2c963f66afa6' }),
+  currency: CurrencyCodeSchema,
+  minor_units: CurrenciesRead.shape.minor_units.meta({ description: 'ISO 4217 exponent: divide amounts by 10^minor_units to get major units', example: 2 }),
+  from: z.string().meta({ description: 'Start of the period', example: '2026-10-01T00:00:00.000Z' }),
+  to: z.string().meta({ description: 'End of the period', example: '2026-11-01T00:00:00.000Z' }),
+  opening_balance: z.number().int().meta({ description: 'Balance at the start of the period, in minor units', example: 10000 }),
+  total_in: z.number().int().meta({ description: 'Sum of the money in during the period, in minor units', example: 3000 }),
+  total_out: z.number().int().meta({ description: 'Sum of the money out during the period, in minor units (a positive number)', example: 5500 }),
+  closing_balance: z.number().int().meta({ description: 'Balance at the end of the period (opening_balance + total_in - total_out), in minor units', example: 7500 }),
+  entries: z.array(StatementEntrySchema).meta({ description: 'Every entry in the period, oldest first' }),
+}).meta({ id: 'Statement' });
+
+export type StatementQuery = z.infer<typeof StatementQuerySchema>;
+export type StatementEntry = z.infer<typeof StatementEntrySchema>;
+export type Statement = z.infer<typeof StatementSchema>;
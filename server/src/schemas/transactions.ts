@@ -1,21 +1,42 @@
 import { z } from 'zod';
 import { UsersRead } from './pgzod/index';
-import { TransactionsRead, TransactionsWrite } from './pgzod/index';
+import { BatchesRead, BatchesWrite, TransactionsRead, TransactionsWrite } from './pgzod/index';
+import { CurrencyBalanceSchema, CurrencyCodeSchema } from './currencies';
 
 // Balance schema
-const BalanceSchema = z.number().int().meta({ description: 'Balance in cents', example: 50000 })
+const BalanceSchema = z.number().int().meta({ description: 'Balance of the default USD account in cents', example: 50000 })
 
 // Base amount schema with DB constraints (positive integer)
 const BaseAmountSchema = TransactionsWrite.shape.amount.int().positive()
 
-// Transaction creation - Use TransactionsWrite, omit auto-generated fields, make source_user_id required, add business rules
+// Transaction details - why money moved, recorded with transfers and deposits and never changed
+export const MAX_METADATA_KEYS = 20;
+
+const MetadataValueSchema = z.union([z.string().max(500), z.number(), z.boolean(), z.null()]);
+
+export const TransactionDetailsSchema = z.object({
+  description: z.string().max(500).optional().meta({ description: 'Free text description of the transaction', example: 'October rent' }),
+  external_reference: z.string().min(1).max(128).optional().meta({ description: 'Your own reference for the transaction, such as an invoice or order number', example: 'INV-2026-0042' }),
+  metadata: z.record(z.string().min(1).max(40), MetadataValueSchema)
+    .refine((metadata) => Object.keys(metadata).length <= MAX_METADATA_KEYS, {
+      message: `Metadata has at most ${MAX_METADATA_KEYS} keys`,
+    })
+    .optional()
+    .meta({ description: `Flat key/value pairs (at most ${MAX_METADATA_KEYS} keys of up to 40 characters; values are strings of up to 500 characters, numbers, booleans or null)`, example: { order_id: '1234', channel: 'web' } }),
+});
+
+const sumLegs = (legs: Array<{ amount: number }>) => legs.reduce((total, leg) => total + leg.amount, 0);
+
+// Transaction creation - Use TransactionsWrite, omit auto-generated fields, make source_user_id and destination_user_id required, add business rules
 export const CreateTransactionSchema = TransactionsWrite
-  .omit({ id: true, created_at: true, source_user_id: true, idempotency_key: true, destination_user_id: true, amount: true })
+  .omit({ id: true, created_at: true, type: true, source_account_id: true, destination_account_id: true, currency: true, reverses_transaction_id: true, batch_id: true, batch_leg_index: true, description: true, external_reference: true, metadata: true, chain_seq: true, prev_hash: true, hash: true, source_user_id: true, idempotency_key: true, destination_user_id: true, amount: true })
   .extend({
     idempotency_key: TransactionsWrite.shape.idempotency_key.meta({ description: 'Unique key for idempotent requests', example: 'txn_abc123xyz' }),
     source_user_id: z.uuid().meta({ description: 'UUID of the user sending funds', example: '550e8400-e29b-41d4-a716-446655440000' }), // Make required (not nullable/optional)
-    destination_user_id: TransactionsWrite.shape.destination_user_id.meta({ description: 'UUID of the user receiving funds', example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' }),
-    amount: BaseAmountSchema.meta({ description: 'Transfer amount in cents', example: 10050 }),
+    destination_user_id: z.uuid().meta({ description: 'UUID of the user receiving funds', example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' }), // Make required (NULL is reserved for withdrawals)
+    amount: BaseAmountSchema.meta({ description: 'Transfer amount in minor units of the currency', example: 10050 }),
+    currency: CurrencyCodeSchema.optional().meta({ description: 'Currency of the transfer; both users\' default accounts in this currency are used (defaults to USD)', example: 'USD' }),
+    ...TransactionDetailsSchema.shape,
   })
   .refine((data) => data.source_user_id !== data.destination_user_id, {
     message: 'Source and destination users must be different',
@@ -25,20 +46,129 @@ export const CreateTransactionSchema = TransactionsWrite
 // Deposit creation - Use TransactionsWrite, omit fields not in request body, add business rules
 // Note: destination_user_id comes from path param, not request body
 export const CreateDepositSchema = TransactionsWrite
-  .omit({ id: true, source_user_id: true, created_at: true, destination_user_id: true, idempotency_key: true, amount: true })
+  .omit({ id: true, source_user_id: true, created_at: true, type: true, source_account_id: true, destination_account_id: true, currency: true, reverses_transaction_id: true, batch_id: true, batch_leg_index: true, description: true, external_reference: true, metadata: true, chain_seq: true, prev_hash: true, hash: true, destination_user_id: true, idempotency_key: true, amount: true })
   .extend({
     idempotency_key: TransactionsWrite.shape.idempotency_key.meta({ description: 'Unique key for idempotent requests', example: 'dep_xyz789abc' }),
-    amount: BaseAmountSchema.meta({ description: 'Deposit amount in cents', example: 10000 }),
+    amount: BaseAmountSchema.meta({ description: 'Deposit amount in minor units of the currency', example: 10000 }),
+    currency: CurrencyCodeSchema.optional().meta({ description: 'Currency of the deposit; must match the receiving account (defaults to USD, or the account\'s currency)', example: 'USD' }),
+    ...TransactionDetailsSchema.shape,
   })
   .meta({ id: 'CreateDeposit' });
 
+// Withdrawal creation - Mirror of CreateDepositSchema
+// Note: source_user_id comes from path param, and the destination is always external
+export const CreateWithdrawalSchema = TransactionsWrite
+  .omit({ id: true, source_user_id: true, created_at: true, type: true, source_account_id: true, destination_account_id: true, currency: true, reverses_transaction_id: true, batch_id: true, batch_leg_index: true, description: true, external_reference: true, metadata: true, chain_seq: true, prev_hash: true, hash: true, destination_user_id: true, idempotency_key: true, amount: true })
+  .extend({
+    idempotency_key: TransactionsWrite.shape.idempotency_key.meta({ description: 'Unique key for idempotent requests', example: 'wdr_abc456def' }),
+    amount: BaseAmountSchema.meta({ description: 'Withdrawal amount in minor units of the currency', example: 2500 }),
+    currency: CurrencyCodeSchema.optional().meta({ description: 'Currency of the withdrawal; must match the debited account (defaults to USD, or the account\'s currency)', example: 'USD' }),
+  })
+  .meta({ id: 'CreateWithdrawal' });
+
+// Reversal creation - original transaction comes from path param
+export const CreateReversalSchema = z.object({
+  idempotency_key: TransactionsWrite.shape.idempotency_key.meta({ description: 'Unique key for idempotent requests', example: 'rev_abc123xyz' }),
+  amount: BaseAmountSchema.optional().meta({ description: 'Amount to reverse in minor units (defaults to everything not reversed yet)', example: 2500 }),
+}).meta({ id: 'CreateReversal' });
+
 // Transaction response - Use TransactionsRead directly
 export const TransactionSchema = TransactionsRead.meta({ id: 'Transaction' });
 
-// User balance response (balance in cents)
+// Split payment creation - one payment debiting one or more users and crediting several
+export const MAX_SPLIT_PAYMENT_LEGS = 100;
+
+const SplitPaymentLegSchema = z.object({
+  user_id: z.uuid().meta({ description: 'UUID of the user', example: '550e8400-e29b-41d4-a716-446655440000' }),
+  amount: BaseAmountSchema.meta({ description: 'Amount of the leg in minor units of the currency', example: 8500 }),
+}).meta({ id: 'SplitPaymentLeg' });
+
+export const CreateSplitPaymentSchema = z.object({
+  idempotency_key: TransactionsWrite.shape.idempotency_key.meta({ description: 'Unique key for idempotent requests', example: 'spl_abc123xyz' }),
+  currency: CurrencyCodeSchema.optional().meta({ description: 'Currency of the payment; every party\'s default account in this currency is used (defaults to USD)', example: 'USD' }),
+  debits: z.array(SplitPaymentLegSchema).min(1).meta({ description: 'Users paying, and how much each pays' }),
+  credits: z.array(SplitPaymentLegSchema).min(1).meta({ description: 'Users paid, and how much each receives' }),
+})
+  .refine((data) => data.debits.length + data.credits.length <= MAX_SPLIT_PAYMENT_LEGS, {
+    message: `A split payment has at most ${MAX_SPLIT_PAYMENT_LEGS} legs`,
+  })
+  .refine((data) => sumLegs(data.debits) === sumLegs(data.credits), {
+    message: 'Debits and credits must sum to the same amount',
+  })
+  .refine((data) => new Set([...data.debits, ...data.credits].map(leg => leg.user_id)).size === data.debits.length + data.credits.length, {
+    message: 'A user may appear in only one leg',
+  })
+  .meta({ id: 'CreateSplitPayment' });
+
+// Split payment response - the transaction with one leg per party
+export const SplitPaymentLegResultSchema = z.object({
+  user_id: UsersRead.shape.id,
+  account_id: z.uuid().meta({ description: 'Account of the user that was debited or credited', example: '9b2f4c1e-8d7a-4e3b-a6c5-0f1e2d3c4b5a' }),
+  direction: z.enum(['debit', 'credit']).meta({ example: 'credit' }),
+  amount: z.number().int().meta({ description: 'Amount of the leg in minor units of the currency', example: 8500 }),
+}).meta({ id: 'SplitPaymentLegResult' });
+
+export const SplitPaymentSchema = TransactionsRead.extend({
+  legs: z.array(SplitPaymentLegResultSchema).meta({ description: 'Legs of the payment: debits first, then credits, largest first' }),
+}).meta({ id: 'SplitPayment' });
+
+// Transaction history item - split payments carry their legs
+export const TransactionHistoryItemSchema = TransactionsRead.extend({
+  legs: z.array(SplitPaymentLegResultSchema).optional().meta({ description: 'Legs of a split payment' }),
+  running_balance_account_id: z.uuid().meta({ description: 'Account of the user the transaction posted to (the debited one if it posted to several), whose balance running_balance is', example: '9b2f4c1e-8d7a-4e3b-a6c5-0f1e2d3c4b5a' }),
+  running_balance: z.number().int().meta({ description: 'Balance of running_balance_account_id right after the transaction, in minor units', example: 42000 }),
+}).meta({ id: 'TransactionHistoryItem' });
+
+// Transaction history page - newest first
+export const TransactionHistoryPageSchema = z.object({
+  data: z.array(TransactionHistoryItemSchema),
+  next_cursor: z.string().nullable().meta({ description: 'Cursor of the next (older) page, or null on the last page', example: null }),
+}).meta({ id: 'TransactionHistoryPage' });
+
+// Batch creation - many transfers between users applied all-or-nothing
+export const MAX_BATCH_LEGS = 1000;
+
+const BatchLegSchema = z.object({
+  source_user_id: z.uuid().meta({ description: 'UUID of the user sending funds', example: '550e8400-e29b-41d4-a716-446655440000' }),
+  destination_user_id: z.uuid().meta({ description: 'UUID of the user receiving funds', example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' }),
+  amount: BaseAmountSchema.meta({ description: 'Transfer amount in minor units of the currency', example: 250000 }),
+  currency: CurrencyCodeSchema.optional().meta({ description: 'Currency of the transfer (defaults to USD)', example: 'USD' }),
+})
+  .refine((data) => data.source_user_id !== data.destination_user_id, {
+    message: 'Source and destination users must be different',
+  })
+  .meta({ id: 'BatchLeg' });
+
+export const CreateBatchSchema = z.object({
+  idempotency_key: BatchesWrite.shape.idempotency_key.meta({ description: 'Unique key for idempotent requests, covering the whole batch', example: 'bat_abc123xyz' }),
+  legs: z.array(BatchLegSchema).min(1).max(MAX_BATCH_LEGS).meta({ description: `Transfers to apply, at most ${MAX_BATCH_LEGS}; either all of them are applied or none` }),
+}).meta({ id: 'CreateBatch' });
+
+// Batch response - the batch with the result of each leg
+export const BatchSchema = BatchesRead.extend({
+  legs: z.array(z.object({
+    index: z.number().int().meta({ description: 'Position of the leg in the request', example: 0 }),
+    status: z.literal('succeeded'),
+    transaction: TransactionSchema,
+  })).meta({ description: 'Result of each leg, in request order' }),
+}).meta({ id: 'Batch' });
+
+// Batch failure response - no leg was applied
+export const BatchFailureSchema = z.object({
+  error: z.string().meta({ description: 'Error of the failing leg', example: 'Insufficient funds.' }),
+  legs: z.array(z.object({
+    index: z.number().int().meta({ description: 'Position of the leg in the request', example: 3 }),
+    status: z.enum(['failed', 'not_applied']).meta({ description: 'failed for the leg that caused the batch to fail, not_applied for the others', example: 'failed' }),
+    error: z.string().optional().meta({ description: 'Why the leg failed', example: 'Insufficient funds.' }),
+  })).meta({ description: 'Result of each leg, in request order' }),
+}).meta({ id: 'BatchFailure' });
+
+// User balance response - one balance per currency (in minor units), plus the USD balance for older clients
 export const UserBalanceSchema = z.object({
   user_id: UsersRead.shape.id,
-  balance: BalanceSchema
+  balance: BalanceSchema,
+  available_balance: z.number().int().optional().meta({ description: 'Available balance (ledger minus active holds) of the default USD account in cents (current balance only)', example: 42000 }),
+  balances: z.array(CurrencyBalanceSchema).meta({ description: 'Balance of the user\'s default account in each currency' }),
 }).meta({ id: 'UserBalance' });
 
 // Query/Path parameters
@@ -49,11 +179,48 @@ export const BalanceQuerySchema = z.object({
   }),
 });
 
+export const DEFAULT_HISTORY_PAGE_SIZE = 50;
+export const MAX_HISTORY_PAGE_SIZE = 200;
+
+export const TransactionHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_HISTORY_PAGE_SIZE).optional().meta({ description: `Page size (defaults to ${DEFAULT_HISTORY_PAGE_SIZE}, at most ${MAX_HISTORY_PAGE_SIZE})`, example: 50 }),
+  cursor: z.string().min(1).max(200).optional().meta({ description: 'Opaque cursor from next_cursor of the previous page', example: 'WyIyMDI2LTEwLTE5VDEyOjAwOjAwLjEyMzQ1NiswMDowMCIsIjdjOWU2Njc5LTc0MjUtNDBkZS05NDRiLWUwN2ZjMWY5MGFlNyJd' }),
+  direction: z.enum(['incoming', 'outgoing', 'deposit']).optional().meta({ description: 'Only money received from other users (incoming), money leaving the user (outgoing), or deposits', example: 'incoming' }),
+  counterparty_user_id: z.uuid().optional().meta({ description: 'Only transactions with this other user', example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8' }),
+  min_amount: z.coerce.number().int().min(0).optional().meta({ description: 'Only transactions of at least this amount in minor units', example: 1000 }),
+  max_amount: z.coerce.number().int().min(0).optional().meta({ description: 'Only transactions of at most this amount in minor units', example: 50000 }),
+  from: z.iso.datetime().optional().meta({ description: 'Only transactions created at or after this ISO 8601 datetime', example: '2026-10-01T00:00:00Z' }),
+  to: z.iso.datetime().optional().meta({ description: 'Only transactions created before this ISO 8601 datetime', example: '2026-11-01T00:00:00Z' }),
+  currency: CurrencyCodeSchema.optional().meta({ description: 'Only transactions in this currency', example: 'USD' }),
+  external_reference: z.string().min(1).max(128).optional().meta({ description: 'Only transactions with this external reference', example: 'INV-2026-0042' }),
+  metadata: z.record(z.string().min(1).max(40), z.string()).optional().meta({
+    description: 'Only transactions whose metadata holds these key/value pairs, e.g. ?metadata[order_id]=1234 (values are compared as text)',
+    example: { order_id: '1234' },
+    param: { style: 'deepObject', explode: true },
+  }),
+})
+  .refine((data) => data.min_amount === undefined || data.max_amount === undefined || data.min_amount <= data.max_amount, {
+    message: 'min_amount must not exceed max_amount',
+  })
+  .refine((data) => data.from === undefined || data.to === undefined || Date.parse(data.from) < Date.parse(data.to), {
+    message: 'from must be before to',
+  });
+
+export const TransactionIdPathSchema = z.object({
+  id: TransactionsRead.shape.id.meta({ description: 'Transaction UUID', example: '7c9e6679-7425-40de-944b-e07fc1f90ae7' }),
+});
+
 export const UserIdPathSchema = z.object({
   id: UsersRead.shape.id.meta({ description: 'User UUID', example: '550e8400-e29b-41d4-a716-446655440000' }),
 });
 
 export type CreateTransaction = z.infer<typeof CreateTransactionSchema>;
 export type CreateDeposit = z.infer<typeof CreateDepositSchema>;
+export type CreateWithdrawal = z.infer<typeof CreateWithdrawalSchema>;
+export type CreateReversal = z.infer<typeof CreateReversalSchema>;
 export type Transaction = z.infer<typeof TransactionSchema>;
+export type CreateSplitPayment = z.infer<typeof CreateSplitPaymentSchema>;
+export type SplitPayment = z.infer<typeof SplitPaymentSchema>;
+export type CreateBatch = z.infer<typeof CreateBatchSchema>;
+export type Batch = z.infer<typeof BatchSchema>;
 export type UserBalance = z.infer<typeof UserBalanceSchema>;
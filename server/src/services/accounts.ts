@@ -0,0 +1,209 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+import { assertSupportedCurrency } from './currencies';
+
+type AccountWithMinorUnits = s.accounts.JSONSelectable & { minor_units: number };
+
+/**
+ * Resolves the default account of a user in a currency. User-level
+ * endpoints operate on this account.
+ * @returns The account id, or null if the user holds no default account in that currency
+ */
+export async function resolveDefaultAccountId(userId: string, currency: string, queryable: db.Queryable = pool): Promise<string | null> {
+  const account = await db.selectOne(
+    'accounts',
+    { user_id: userId, currency, is_default: true },
+    { columns: ['id'] }
+  ).run(queryable);
+
+  return account?.id ?? null;
+}
+
+/**
+ * Resolves the default account of a user in a currency, opening one if the
+ * user doesn't hold that currency yet. Used for the receiving side of
+ * user-level deposits and transfers.
+ * @param queryable - Where to open it, e.g. the transaction that will credit it
+ * @returns The account id
+ * @throws {Error} 'Unsupported currency.' if the currency is not supported
+ */
+export async function ensureDefaultAccountId(userId: string, currency: string, queryable: db.Queryable = pool): Promise<string> {
+  const existingAccountId = await resolveDefaultAccountId(userId, currency, queryable);
+
+  if (existingAccountId) {
+    return existingAccountId;
+  }
+
+  await assertSupportedCurrency(currency);
+
+  // ON CONFLICT makes concurrent first uses of a currency converge on one default account
+  await db.sql`
+    INSERT INTO ${'accounts'} (${'user_id'}, ${'name'}, ${'currency'}, ${'is_default'})
+    VALUES (${db.param(userId)}, ${db.param(`Main ${currency}`)}, ${db.param(currency)}, TRUE)
+    ON CONFLICT (${'user_id'}, ${'currency'}) WHERE ${'is_default'} DO NOTHING
+  `.run(queryable);
+
+  return (await resolveDefaultAccountId(userId, currency, queryable))!;
+}
+
+/**
+ * Get an account by id, with the exponent of its currency
+ * @returns The account record, or undefined if it does not exist
+ */
+export async function getAccount(accountId: string): Promise<AccountWithMinorUnits | undefined> {
+  const [account] = await db.sql<s.accounts.SQL | s.currencies.SQL, AccountWithMinorUnits[]>`
+    SELECT ${'accounts'}.*, ${'currencies'}.${'minor_units'}
+    FROM ${'accounts'}
+    JOIN ${'currencies'} ON ${'currencies'}.${'code'} = ${'accounts'}.${'currency'}
+    WHERE ${'accounts'}.${'id'} = ${db.param(accountId)}
+  `.run(pool);
+
+  return account;
+}
+
+/**
+ * Opens an account for a user. The first account a user opens in a currency
+ * becomes their default account for it; later ones are additional accounts.
+ * @returns The created account record
+ * @throws {Error} 'Unsupported currency.' if the currency is not supported
+ */
+export async function createAccount(data: {
+  userId: string;
+  name: string;
+  kind?: string;
+  currency: string;
+}): Promise<s.accounts.JSONSelectable> {
+  await assertSupportedCurrency(data.currency);
+
+  const account: s.accounts.Insertable = {
+    user_id: data.userId,
+    name: data.name,
+    kind: data.kind ?? db.Default,
+    currency: data.currency,
+  };
+
+  // Try to open it as the default account first; the partial unique index
+  // rejects that if the user already has a default account in this currency.
+  const [defaultAccount] = await db.sql<s.accounts.SQL, s.accounts.JSONSelectable[]>`
+    INSERT INTO ${'accounts'} (${db.cols({ ...account, is_default: true })})
+    VALUES (${db.vals({ ...account, is_default: true })})
+    ON CONFLICT (${'user_id'}, ${'currency'}) WHERE ${'is_default'} DO NOTHING
+    RETURNING *
+  `.run(pool);
+
+  if (defaultAccount) {
+    return defaultAccount;
+  }
+
+  return db.insert('accounts', { ...account, is_default: false }).run(pool);
+}
+
+/**
+ * Lists a user's accounts, default accounts first, each with its current balance
+ * @returns Accounts with balances in minor units of their currency
+ */
+export async function listUserAccounts(userId: string): Promise<Array<AccountWithMinorUnits & { balance: number }>> {
+  const accounts = await db.sql<s.accounts.SQL | s.currencies.SQL, Array<AccountWithMinorUnits & { balance: string }>>`
+    SELECT
+      ${'accounts'}.*,
+      ${'currencies'}.${'minor_units'},
+      public.get_account_current_balance(${'accounts'}.${'id'}) AS balance
+    FROM ${'accounts'}
+    JOIN ${'currencies'} ON ${'currencies'}.${'code'} = ${'accounts'}.${'currency'}
+    WHERE ${'accounts'}.${'user_id'} = ${db.param(userId)}
+    ORDER BY ${'accounts'}.${'is_default'} DESC, ${'accounts'}.${'created_at'} ASC
+  `.run(pool);
+
+  return accounts.map(account => ({ ...account, balance: parseInt(account.balance, 10) }));
+}
+
+/**
+ * Get the current balance for an account by calculating from the ledger
+ * @returns Balance in minor units of the account currency (integer)
+ */
+export async function getAccountBalance(accountId: string): Promise<number> {
+  const result = await db.sql<s.transactions.SQL, Array<{ balance: string }>>`
+    SELECT public.get_account_current_balance(${db.param(accountId)}::uuid) as balance
+  `.run(pool);
+
+  return parseInt(result[0].balance, 10);
+}
+
+/**
+ * Get the available balance for an account: its ledger balance minus active holds
+ * @returns Balance in minor units of the account currency (integer)
+ */
+export async function getAccountAvailableBalance(accountId: string): Promise<number> {
+  const result = await db.sql<s.transactions.SQL, Array<{ balance: string }>>`
+    SELECT public.get_account_available_balance(${db.param(accountId)}::uuid) as balance
+  `.run(pool);
+
+  return parseInt(result[0].balance, 10);
+}
+
+/**
+ * Get the balance for an account at a specific date
+ * @returns Balance in minor units of the account currency (integer)
+ */
+export async function getAccountBalanceOnDate(accountId: string, date: Date): Promise<number> {
+  const result = await db.sql<s.transactions.SQL, Array<{ balance: string }>>`
+    SELECT public.get_account_balance_on_date(${db.param(accountId)}::uuid, ${db.param(date)}::timestamptz) as balance
+  `.run(pool);
+
+  return parseInt(result[0].balance, 10);
+}
+
+/**
+ * Lists the users an account is delegated to
+ * @returns Delegations, oldest first
+ * @throws {Error} 'Account not found.'
+ */
+export async function listAccountDelegations(accountId: string): Promise<s.account_delegations.JSONSelectable[]> {
+  const account = await db.selectOne('accounts', { id: accountId }, { columns: ['id'] }).run(pool);
+
+  if (!account) {
+    throw new Error('Account not found.');
+  }
+
+  return db.select('account_delegations', { account_id: accountId }, { order: { by: 'created_at', direction: 'ASC' } }).run(pool);
+}
+
+/**
+ * Lets a user debit an account as if they owned it. Delegating an account
+ * to a user it is already delegated to returns the existing delegation.
+ * @returns The delegation
+ * @throws {Error} 'Account not found.' or 'An account cannot be delegated to its owner.'
+ */
+export async function delegateAccount(accountId: string, delegateUserId: string): Promise<s.account_delegations.JSONSelectable> {
+  const account = await db.selectOne('accounts', { id: accountId }, { columns: ['user_id'] }).run(pool);
+
+  if (!account) {
+    throw new Error('Account not found.');
+  }
+
+  if (account.user_id === delegateUserId) {
+    throw new Error('An account cannot be delegated to its owner.');
+  }
+
+  const [delegation] = await db.sql<s.account_delegations.SQL, s.account_delegations.JSONSelectable[]>`
+    INSERT INTO ${'account_delegations'} (${'account_id'}, ${'delegate_user_id'})
+    VALUES (${db.param(accountId)}, ${db.param(delegateUserId)})
+    ON CONFLICT (${'account_id'}, ${'delegate_user_id'}) DO NOTHING
+    RETURNING *
+  `.run(pool);
+
+  return delegation ?? db.selectExactlyOne('account_delegations', { account_id: accountId, delegate_user_id: delegateUserId }).run(pool);
+}
+
+/**
+ * Stops a user from debiting an account that was delegated to them
+ * @throws {Error} 'Delegation not found.'
+ */
+export async function revokeAccountDelegation(accountId: string, delegateUserId: string): Promise<void> {
+  const deleted = await db.deletes('account_delegations', { account_id: accountId, delegate_user_id: delegateUserId }).run(pool);
+
+  if (deleted.length === 0) {
+    throw new Error('Delegation not found.');
+  }
+}
@@ -0,0 +1,260 @@
+import { createHash, randomBytes } from 'crypto';
+import { BlockList, isIPv4 } from 'net';
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+import type { AuthenticatedUser } from './auth';
+import { recordAuditEvent } from './audit';
+import { verifySignature, type RequestSignature, type SignableRequest } from './requestSigning';
+import type { ApiKeyScope } from '../schemas/apiKeys';
+
+/**
+ * API keys, for services that cannot log in. A key reads
+ * thk_<12 hex characters>_<secret>; its first part (the prefix) names it in
+ * listings, and only the SHA-256 of the whole key is stored, as with
+ * refresh tokens. A request made with a key acts as the key's user,
+ * limited to the key's scopes. Keys may also be required to sign requests
+ * that move money (services/requestSigning.ts).
+ */
+
+export type ApiKey = Omit<s.api_keys.JSONSelectable, 'key_hash' | 'signing_secret'>;
+
+const DEFAULT_SIGNATURE_MAX_SKEW_SECONDS = 300;
+
+const hashApiKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+const toApiKey = ({ key_hash: _, signing_secret: __, ...apiKey }: s.api_keys.JSONSelectable): ApiKey => apiKey;
+
+// How far a signed request's timestamp may be from the server's clock
+function signatureMaxSkewSeconds(): number {
+  const seconds = Number(process.env.SIGNATURE_MAX_SKEW_SECONDS);
+  return Number.isInteger(seconds) && seconds >= 1 && seconds <= 3600 ? seconds : DEFAULT_SIGNATURE_MAX_SKEW_SECONDS;
+}
+
+// Express reports IPv4 clients of a dual-stack server as ::ffff:a.b.c.d
+const normalizeIp = (ip: string) => (ip.startsWith('::ffff:') && isIPv4(ip.slice(7)) ? ip.slice(7) : ip);
+
+/**
+ * @returns Whether an address is one of the addresses or CIDR ranges of an allow-list
+ */
+function isAllowedIp(allowedIps: string[], ip: string): boolean {
+  const blockList = new BlockList();
+
+  for (const entry of allowedIps) {
+    const [address, prefix] = entry.split('/');
+    const type = isIPv4(address) ? 'ipv4' : 'ipv6';
+
+    if (prefix === undefined) {
+      blockList.addAddress(address, type);
+    } else {
+      blockList.addSubnet(address, Number(prefix), type);
+    }
+  }
+
+  const address = normalizeIp(ip);
+
+  return blockList.check(address, isIPv4(address) ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Creates an API key for a user, with a signing secret if it must sign requests
+ * @returns The key's details, the key itself, which is not stored and cannot be shown again, and the signing secret
+ * @throws {Error} 'API key expiry must be in the future.'
+ */
+export async function createApiKey(userId: string, data: {
+  name: string;
+  scopes: ApiKeyScope[];
+  allowedIps?: string[];
+  expiresAt?: string;
+  requireSignature?: boolean;
+}): Promise<ApiKey & { key: string; signing_secret: string | null }> {
+  const expiresAt = data.expiresAt === undefined ? null : new Date(data.expiresAt);
+
+  if (expiresAt && expiresAt.getTime() <= Date.now()) {
+    throw new Error('API key expiry must be in the future.');
+  }
+
+  const prefix = `thk_${randomBytes(6).toString('hex')}`;
+  const key = `${prefix}_${randomBytes(32).toString('base64url')}`;
+
+  const apiKey = await db.insert('api_keys', {
+    user_id: userId,
+    name: data.name,
+    prefix,
+    key_hash: hashApiKey(key),
+    scopes: data.scopes,
+    allowed_ips: data.allowedIps ?? null,
+    expires_at: expiresAt,
+    require_signature: data.requireSignature ?? false,
+    signing_secret: data.requireSignature ? randomBytes(32).toString('base64url') : null,
+  }).run(pool);
+
+  return { ...toApiKey(apiKey), key, signing_secret: apiKey.signing_secret };
+}
+
+/**
+ * @returns A user's API keys, revoked and expired ones included, oldest first
+ */
+export async function listApiKeys(userId: string): Promise<ApiKey[]> {
+  const apiKeys = await db.select('api_keys', { user_id: userId }, { order: { by: 'created_at', direction: 'ASC' } }).run(pool);
+
+  return apiKeys.map(toApiKey);
+}
+
+/**
+ * Revokes an API key: requests made with it are refused from now on
+ * @throws {Error} 'API key not found.' if the user has no such key, or it was already revoked
+ */
+export async function revokeApiKey(userId: string, keyId: string): Promise<void> {
+  const revoked = await db.update(
+    'api_keys',
+    { revoked_at: db.sql`NOW()` },
+    { id: keyId, user_id: userId, revoked_at: db.conditions.isNull }
+  ).run(pool);
+
+  if (revoked.length === 0) {
+    throw new Error('API key not found.');
+  }
+}
+
+/**
+ * Looks an API key up and records its use. A key used from an address
+ * outside its allow-list is refused, and the attempt audited.
+ * @returns The key's user and the key, if it exists, is not revoked and has not expired
+ * @throws {Error} 'API key not allowed from this address.'
+ */
+export async function authenticateApiKey(key: string, ip: string | undefined): Promise<AuthenticatedUser | undefined> {
+  const [apiKey] = await db.sql<s.api_keys.SQL | s.users.SQL, Array<{
+    id: string;
+    user_id: string;
+    email: string;
+    scopes: string[];
+    allowed_ips: string[] | null;
+    require_signature: boolean;
+  }>>`
+    SELECT ${'api_keys'}.${'id'}, ${'user_id'}, ${'email'}, ${'scopes'}, ${'allowed_ips'}, ${'require_signature'}
+    FROM ${'api_keys'}
+    JOIN ${'users'} ON ${'users'}.${'id'} = ${'user_id'}
+    WHERE ${'key_hash'} = ${db.param(hashApiKey(key))}
+      AND ${'revoked_at'} IS NULL
+      AND (${'expires_at'} IS NULL OR ${'expires_at'} > NOW())
+  `.run(pool);
+
+  if (!apiKey) {
+    return undefined;
+  }
+
+  if (apiKey.allowed_ips && !(ip && isAllowedIp(apiKey.allowed_ips, ip))) {
+    await recordAuditEvent({
+      actorUserId: apiKey.user_id,
+      action: 'api_keys.use',
+      resourceType: 'api_key',
+      resourceId: apiKey.id,
+      outcome: 'denied',
+      ipAddress: ip,
+    });
+
+    throw new Error('API key not allowed from this address.');
+  }
+
+  // Once a minute at most, so that busy keys do not write on every request
+  await db.update(
+    'api_keys',
+    { last_used_at: db.sql`NOW()`, last_used_ip: ip ?? null },
+    {
+      id: apiKey.id,
+      last_used_at: db.sql`(${db.self} IS NULL OR ${db.self} < NOW() - INTERVAL '1 minute')`,
+    }
+  ).run(pool);
+
+  return {
+    id: apiKey.user_id,
+    email: apiKey.email,
+    apiKey: { id: apiKey.id, scopes: apiKey.scopes as ApiKeyScope[], requireSignature: apiKey.require_signature },
+  };
+}
+
+// Reasons a signed request is refused, in the order they are checked
+const SIGNATURE_ERRORS = [
+  'Request signature required.',
+  'Request timestamp outside the allowed window.',
+  'Invalid request signature.',
+  'Request nonce already used.',
+];
+
+async function checkSignedRequest(apiKeyId: string, request: SignableRequest, signature: Partial<RequestSignature>): Promise<void> {
+  const { timestamp, nonce, signature: hmac } = signature;
+
+  if (!timestamp || !nonce || !hmac) {
+    throw new Error('Request signature required.');
+  }
+
+  const maxSkew = signatureMaxSkewSeconds();
+
+  if (!/^\d{1,12}$/.test(timestamp) || Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp)) > maxSkew) {
+    throw new Error('Request timestamp outside the allowed window.');
+  }
+
+  const apiKey = await db.selectOne('api_keys', { id: apiKeyId }, { columns: ['signing_secret'] }).run(pool);
+
+  if (
+    !apiKey?.signing_secret
+    || !/^[\w-]{16,128}$/.test(nonce)
+    || !verifySignature(apiKey.signing_secret, request, { timestamp, nonce, signature: hmac })
+  ) {
+    throw new Error('Invalid request signature.');
+  }
+
+  // A request whose timestamp was up to maxSkew ahead stays acceptable for 2 * maxSkew
+  await db.deletes('api_key_nonces', {
+    api_key_id: apiKeyId,
+    created_at: db.sql`${db.self} < NOW() - make_interval(secs => ${db.param(2 * maxSkew)})`,
+  }).run(pool);
+
+  const recorded = await db.sql<s.api_key_nonces.SQL, s.api_key_nonces.Selectable[]>`
+    INSERT INTO ${'api_key_nonces'} (${'api_key_id'}, ${'nonce'})
+    VALUES (${db.param(apiKeyId)}, ${db.param(nonce)})
+    ON CONFLICT DO NOTHING
+    RETURNING *
+  `.run(pool);
+
+  if (recorded.length === 0) {
+    throw new Error('Request nonce already used.');
+  }
+}
+
+/**
+ * Checks the signature of a request made with an API key that requires
+ * signed requests: it must be the key's, made within the clock-skew window
+ * (SIGNATURE_MAX_SKEW_SECONDS, 5 minutes by default) and with a nonce the
+ * key has not used in that time. The nonce is only recorded for a valid
+ * signature, so that forged requests cannot use up a client's nonces. A
+ * refused request is audited.
+ * @throws {Error} 'Request signature required.' if a signature header is missing
+ * @throws {Error} 'Request timestamp outside the allowed window.'
+ * @throws {Error} 'Invalid request signature.'
+ * @throws {Error} 'Request nonce already used.'
+ */
+export async function verifySignedRequest(
+  context: { user: AuthenticatedUser & { apiKey: { id: string } }; ip?: string },
+  request: SignableRequest,
+  signature: Partial<RequestSignature>
+): Promise<void> {
+  try {
+    await checkSignedRequest(context.user.apiKey.id, request, signature);
+  } catch (error) {
+    if (error instanceof Error && SIGNATURE_ERRORS.includes(error.message)) {
+      await recordAuditEvent({
+        actorUserId: context.user.id,
+        action: 'api_keys.sign',
+        resourceType: 'api_key',
+        resourceId: context.user.apiKey.id,
+        outcome: 'denied',
+        ipAddress: context.ip,
+        details: { reason: error.message, method: request.method, path: request.path },
+      });
+    }
+
+    throw error;
+  }
+}
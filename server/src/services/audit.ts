@@ -0,0 +1,28 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+
+/**
+ * Appends an event to the audit log. Entries cannot be changed or removed
+ * by the application role.
+ * @returns The stored entry
+ */
+export async function recordAuditEvent(event: {
+  actorUserId?: string;
+  action: string;
+  resourceType: string;
+  resourceId?: string;
+  outcome: 'allowed' | 'denied';
+  ipAddress?: string;
+  details?: db.JSONObject;
+}, queryable: db.Queryable = pool): Promise<s.audit_log.JSONSelectable> {
+  return db.insert('audit_log', {
+    actor_user_id: event.actorUserId ?? null,
+    action: event.action,
+    resource_type: event.resourceType,
+    resource_id: event.resourceId ?? null,
+    outcome: event.outcome,
+    ip_address: event.ipAddress ?? null,
+    details: event.details ?? {},
+  }).run(queryable);
+}
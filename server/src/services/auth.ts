@@ -0,0 +1,234 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+import { hashPassword, needsRehash, verifyPassword } from './passwords';
+import type { AuthTokens } from '../schemas/auth';
+import type { ApiKeyScope } from '../schemas/apiKeys';
+
+/**
+ * Sessions and tokens. A login opens a session (auth_sessions) and returns
+ * a short-lived access token plus a refresh token. Access tokens are HS256
+ * JWTs signed with AUTH_TOKEN_SECRET that name the user (sub) and the
+ * session (sid); they are accepted while their session is active, so
+ * logging out takes effect immediately. Refresh tokens are random, stored
+ * hashed, and rotated: each one is exchanged once for new tokens.
+ */
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+// A refresh token lapses after a week without use
+export const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Refreshing cannot keep a session alive for longer than this
+export const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  // The session of the access token the request was made with
+  sessionId?: string;
+  // The API key the request was made with instead (services/apiKeys.ts)
+  apiKey?: { id: string; scopes: ApiKeyScope[]; requireSignature: boolean };
+}
+
+interface AccessTokenClaims {
+  sub: string;
+  sid: string;
+  iat: number;
+  exp: number;
+}
+
+const ACCESS_TOKEN_HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+function loadTokenSecret(): Buffer {
+  const secret = process.env.AUTH_TOKEN_SECRET;
+
+  if (!secret) {
+    throw new Error('AUTH_TOKEN_SECRET is not set.');
+  }
+
+  return Buffer.from(secret);
+}
+
+const signature = (content: string) => createHmac('sha256', loadTokenSecret()).update(content).digest();
+
+const hashRefreshToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const toUser = ({ password_hash: _, ...user }: s.users.JSONSelectable) => user;
+
+function signAccessToken(userId: string, sessionId: string): string {
+  const iat = Math.floor(Date.now() / 1000);
+  const claims: AccessTokenClaims = { sub: userId, sid: sessionId, iat, exp: iat + ACCESS_TOKEN_TTL_SECONDS };
+  const content = `${ACCESS_TOKEN_HEADER}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+
+  return `${content}.${signature(content).toString('base64url')}`;
+}
+
+/**
+ * @returns The claims of a token with a valid signature that has not expired
+ */
+function readAccessToken(token: string): AccessTokenClaims | undefined {
+  const [header, payload, tokenSignature, ...rest] = token.split('.');
+
+  if (header !== ACCESS_TOKEN_HEADER || !payload || !tokenSignature || rest.length > 0) {
+    return undefined;
+  }
+
+  const expected = signature(`${header}.${payload}`);
+  const given = Buffer.from(tokenSignature, 'base64url');
+
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return undefined;
+  }
+
+  const claims: AccessTokenClaims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+
+  return claims.exp > Date.now() / 1000 ? claims : undefined;
+}
+
+/**
+ * Stores a new refresh token for a session, expiring with the session at the latest
+ */
+async function issueTokens(queryable: db.Queryable, user: s.users.JSONSelectable, sessionId: string): Promise<AuthTokens> {
+  const refreshToken = randomBytes(32).toString('base64url');
+
+  const [stored] = await db.sql<s.refresh_tokens.SQL | s.auth_sessions.SQL, Array<{ expires_at: Date }>>`
+    INSERT INTO ${'refresh_tokens'} (${'session_id'}, ${'token_hash'}, ${'expires_at'})
+    SELECT ${'id'}, ${db.param(hashRefreshToken(refreshToken))},
+      LEAST(NOW() + make_interval(secs => ${db.param(REFRESH_TOKEN_TTL_SECONDS)}), ${'expires_at'})
+    FROM ${'auth_sessions'}
+    WHERE ${'id'} = ${db.param(sessionId)}
+    RETURNING ${'expires_at'}
+  `.run(queryable);
+
+  return {
+    access_token: signAccessToken(user.id, sessionId),
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    refresh_token: refreshToken,
+    refresh_expires_in: Math.max(0, Math.floor((stored.expires_at.getTime() - Date.now()) / 1000)),
+    user: toUser(user),
+  };
+}
+
+// Verified against when the email is unknown, so that a login takes as
+// long whether or not the user exists
+let dummyHash: Promise<string> | undefined;
+
+/**
+ * Checks a user's password and opens a session. A password stored raw or
+ * hashed with other parameters than the current ones is rehashed.
+ * @throws {Error} 'Invalid email or password.'
+ */
+export async function login(email: string, password: string): Promise<AuthTokens> {
+  const user = await db.selectOne('users', { email }).run(pool);
+
+  if (!user) {
+    dummyHash ??= hashPassword(randomBytes(16).toString('hex'));
+    await verifyPassword(password, await dummyHash);
+    throw new Error('Invalid email or password.');
+  }
+
+  if (!(await verifyPassword(password, user.password_hash))) {
+    throw new Error('Invalid email or password.');
+  }
+
+  if (needsRehash(user.password_hash)) {
+    await db.update(
+      'users',
+      { password_hash: await hashPassword(password), updated_at: db.sql`NOW()` },
+      { id: user.id, password_hash: user.password_hash }
+    ).run(pool);
+  }
+
+  return db.transaction(pool, db.IsolationLevel.ReadCommitted, async txClient => {
+    const session = await db.insert('auth_sessions', {
+      user_id: user.id,
+      expires_at: db.sql`NOW() + make_interval(secs => ${db.param(SESSION_TTL_SECONDS)})`,
+    }).run(txClient);
+
+    return issueTokens(txClient, user, session.id);
+  });
+}
+
+/**
+ * Exchanges a refresh token for new tokens. A refresh token that was
+ * already used revokes its session: either it leaked, or the client that
+ * used it first is the one that should keep the session.
+ * @throws {Error} 'Invalid refresh token.' if it is unknown, used, expired, or its session has ended
+ */
+export async function refreshSession(refreshToken: string): Promise<AuthTokens> {
+  const result = await db.transaction(pool, db.IsolationLevel.ReadCommitted, async txClient => {
+    const [token] = await db.sql<s.refresh_tokens.SQL | s.auth_sessions.SQL, Array<{ id: string; session_id: string; user_id: string; used: boolean; active: boolean }>>`
+      SELECT ${'refresh_tokens'}.${'id'}, ${'session_id'}, ${'user_id'},
+        ${'used_at'} IS NOT NULL AS used,
+        ${'refresh_tokens'}.${'expires_at'} > NOW() AND ${'auth_sessions'}.${'expires_at'} > NOW() AND ${'revoked_at'} IS NULL AS active
+      FROM ${'refresh_tokens'}
+      JOIN ${'auth_sessions'} ON ${'auth_sessions'}.${'id'} = ${'session_id'}
+      WHERE ${'token_hash'} = ${db.param(hashRefreshToken(refreshToken))}
+      FOR UPDATE OF ${'refresh_tokens'}
+    `.run(txClient);
+
+    if (!token) {
+      return undefined;
+    }
+
+    if (token.used) {
+      await revokeSession(token.session_id, txClient);
+      return undefined;
+    }
+
+    if (!token.active) {
+      return undefined;
+    }
+
+    await db.update('refresh_tokens', { used_at: db.sql`NOW()` }, { id: token.id }).run(txClient);
+
+    const user = await db.selectExactlyOne('users', { id: token.user_id }).run(txClient);
+
+    return issueTokens(txClient, user, token.session_id);
+  });
+
+  // Thrown outside the transaction so that revoking a session commits
+  if (!result) {
+    throw new Error('Invalid refresh token.');
+  }
+
+  return result;
+}
+
+/**
+ * Ends a session: its access and refresh tokens stop working
+ */
+export async function revokeSession(sessionId: string, queryable: db.Queryable = pool): Promise<void> {
+  await db.update(
+    'auth_sessions',
+    { revoked_at: db.sql`NOW()` },
+    { id: sessionId, revoked_at: db.conditions.isNull }
+  ).run(queryable);
+}
+
+/**
+ * @returns The user an access token was issued to, if its signature is valid,
+ * it has not expired and its session is still active
+ */
+export async function authenticateAccessToken(token: string): Promise<AuthenticatedUser | undefined> {
+  const claims = readAccessToken(token);
+
+  if (!claims) {
+    return undefined;
+  }
+
+  const [user] = await db.sql<s.users.SQL | s.auth_sessions.SQL, Array<{ id: string; email: string }>>`
+    SELECT ${'users'}.${'id'}, ${'email'}
+    FROM ${'auth_sessions'}
+    JOIN ${'users'} ON ${'users'}.${'id'} = ${'user_id'}
+    WHERE ${'auth_sessions'}.${'id'} = ${db.param(claims.sid)}
+      AND ${'user_id'} = ${db.param(claims.sub)}
+      AND ${'revoked_at'} IS NULL
+      AND ${'expires_at'} > NOW()
+  `.run(pool);
+
+  return user && { id: user.id, email: user.email, sessionId: claims.sid };
+}
@@ -0,0 +1,199 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+
+// Postings an account needs after its latest checkpoint before it gets a new one
+export const DEFAULT_CHECKPOINT_MIN_POSTINGS = 100;
+
+// Checkpoints recomputed per query by the verifier
+const VERIFY_BATCH_SIZE = 500;
+
+export interface CheckpointMismatch {
+  account_id: string;
+  as_of: string;
+  balance: number;
+  expected_balance: number;
+  posting_count: number;
+  expected_posting_count: number;
+}
+
+export interface CheckpointVerification {
+  checked: number;
+  mismatches: CheckpointMismatch[];
+}
+
+/**
+ * The latest time a checkpoint may cover: just before the oldest open
+ * transaction on the database started, since its postings are stamped with
+ * that time and may still commit. Truncated to milliseconds so that
+ * checkpoint times survive a round trip through a JS Date.
+ */
+async function getCheckpointHorizon(): Promise<Date> {
+  const [{ horizon }] = await db.sql<s.balance_checkpoints.SQL, Array<{ horizon: Date }>>`
+    SELECT date_trunc('milliseconds', LEAST(clock_timestamp(), MIN(xact_start)) - INTERVAL '1 microsecond') AS horizon
+    FROM pg_stat_activity
+    WHERE datname = current_database() AND pid <> pg_backend_pid()
+  `.run(pool);
+
+  return horizon;
+}
+
+/**
+ * Checkpoints one account as of `asOf`, from its previous checkpoint plus the
+ * postings after it. Waits for a backdated import holding the account, so
+ * the import either lands in the checkpoint or deletes it.
+ * @returns Whether a checkpoint was created
+ */
+async function createCheckpoint(accountId: string, asOf: Date): Promise<boolean> {
+  return db.transaction(pool, db.IsolationLevel.ReadCommitted, async (txClient) => {
+    await db.sql`SELECT ${'id'} FROM ${'accounts'} WHERE ${'id'} = ${db.param(accountId)} FOR SHARE`.run(txClient);
+
+    const created = await db.sql<s.balance_checkpoints.SQL, Array<{ account_id: string }>>`
+      WITH checkpoint AS (
+        SELECT ${'as_of'}, ${'balance'}, ${'posting_count'}
+        FROM ${'balance_checkpoints'}
+        WHERE ${'account_id'} = ${db.param(accountId)} AND ${'as_of'} <= ${db.param(asOf)}
+        ORDER BY ${'as_of'} DESC
+        LIMIT 1
+      ),
+      delta AS (
+        SELECT SUM(amount) AS amount, COUNT(*) AS count
+        FROM public.postings
+        WHERE account_id = ${db.param(accountId)}
+          AND created_at > COALESCE((SELECT ${'as_of'} FROM checkpoint), '-infinity')
+          AND created_at <= ${db.param(asOf)}
+      )
+      INSERT INTO ${'balance_checkpoints'} (${'account_id'}, ${'as_of'}, ${'balance'}, ${'posting_count'})
+      SELECT
+        ${db.param(accountId)},
+        ${db.param(asOf)},
+        COALESCE((SELECT ${'balance'} FROM checkpoint), 0) + COALESCE(delta.amount, 0),
+        COALESCE((SELECT ${'posting_count'} FROM checkpoint), 0) + delta.count
+      FROM delta
+      WHERE delta.count > 0
+      ON CONFLICT (${'account_id'}, ${'as_of'}) DO NOTHING
+      RETURNING ${'account_id'}
+    `.run(txClient);
+
+    return created.length > 0;
+  });
+}
+
+/**
+ * Checkpoints every customer account with at least `minPostings` postings
+ * since its latest checkpoint. `asOf` (defaults to now) is capped at the
+ * start of the oldest open transaction. Safe to run from several server
+ * instances at once.
+ * @returns The number of checkpoints created
+ */
+export async function createBalanceCheckpoints(options: { asOf?: Date; minPostings?: number } = {}): Promise<number> {
+  const horizon = await getCheckpointHorizon();
+  const asOf = options.asOf && options.asOf < horizon ? options.asOf : horizon;
+  const minPostings = options.minPostings ?? DEFAULT_CHECKPOINT_MIN_POSTINGS;
+
+  const accounts = await db.sql<s.accounts.SQL | s.balance_checkpoints.SQL, Array<{ id: string }>>`
+    SELECT a.${'id'}
+    FROM ${'accounts'} a
+    LEFT JOIN LATERAL (
+      SELECT ${'as_of'}
+      FROM ${'balance_checkpoints'}
+      WHERE ${'account_id'} = a.${'id'}
+      ORDER BY ${'as_of'} DESC
+      LIMIT 1
+    ) c ON true
+    WHERE a.${'kind'} <> 'system'
+      AND (
+        SELECT COUNT(*)
+        FROM public.postings p
+        WHERE p.account_id = a.${'id'}
+          AND p.created_at > COALESCE(c.${'as_of'}, '-infinity')
+          AND p.created_at <= ${db.param(asOf)}
+      ) >= ${db.param(minPostings)}
+    ORDER BY a.${'id'}
+  `.run(pool);
+
+  let created = 0;
+
+  for (const account of accounts) {
+    if (await createCheckpoint(account.id, asOf)) {
+      created++;
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Recomputes every checkpoint from the full ledger, without changing
+ * anything. Pass a transaction client to check inside its snapshot.
+ * @returns How many checkpoints were checked, and the ones that did not match
+ */
+export async function findCheckpointMismatches(queryable: db.Queryable = pool): Promise<CheckpointVerification> {
+  const verification: CheckpointVerification = { checked: 0, mismatches: [] };
+  let after: { accountId: string; asOf: Date } | undefined;
+
+  for (;;) {
+    // One statement per batch: each checkpoint is compared with the postings
+    // in the same snapshot
+    const rows = await db.sql<s.balance_checkpoints.SQL, Array<{
+      account_id: string;
+      as_of: Date;
+      balance: string;
+      posting_count: string;
+      expected_balance: string;
+      expected_posting_count: string;
+    }>>`
+      SELECT c.${'account_id'}, c.${'as_of'}, c.${'balance'}, c.${'posting_count'},
+        r.balance AS expected_balance, r.posting_count AS expected_posting_count
+      FROM ${'balance_checkpoints'} c
+      CROSS JOIN LATERAL (
+        SELECT COALESCE(SUM(amount), 0) AS balance, COUNT(*) AS posting_count
+        FROM public.postings
+        WHERE account_id = c.${'account_id'} AND created_at <= c.${'as_of'}
+      ) r
+      WHERE ${after
+        ? db.sql`(c.${'account_id'}, c.${'as_of'}) > (${db.param(after.accountId)}, ${db.param(after.asOf)})`
+        : db.sql`true`}
+      ORDER BY c.${'account_id'}, c.${'as_of'}
+      LIMIT ${db.param(VERIFY_BATCH_SIZE)}
+    `.run(queryable);
+
+    for (const row of rows) {
+      if (row.balance !== row.expected_balance || row.posting_count !== row.expected_posting_count) {
+        verification.mismatches.push({
+          account_id: row.account_id,
+          as_of: row.as_of.toISOString(),
+          balance: parseInt(row.balance, 10),
+          expected_balance: parseInt(row.expected_balance, 10),
+          posting_count: parseInt(row.posting_count, 10),
+          expected_posting_count: parseInt(row.expected_posting_count, 10),
+        });
+      }
+    }
+
+    verification.checked += rows.length;
+
+    if (rows.length < VERIFY_BATCH_SIZE) {
+      return verification;
+    }
+
+    const last = rows[rows.length - 1];
+    after = { accountId: last.account_id, asOf: last.as_of };
+  }
+}
+
+/**
+ * Recomputes every checkpoint from the full ledger. Mismatched checkpoints
+ * are deleted, so balance queries fall back to an earlier checkpoint, and
+ * reported.
+ * @returns How many checkpoints were checked, and the ones that did not match
+ */
+export async function verifyBalanceCheckpoints(): Promise<CheckpointVerification> {
+  const verification = await findCheckpointMismatches();
+
+  for (const mismatch of verification.mismatches) {
+    await db.deletes('balance_checkpoints', { account_id: mismatch.account_id, as_of: new Date(mismatch.as_of) }).run(pool);
+  }
+
+  return verification;
+}
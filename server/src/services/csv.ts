@@ -0,0 +1,112 @@
+/**
+ * One record of a CSV file
+ */
+export interface CsvRecord {
+  // Line of the file where the record starts, counting from 1
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Parses CSV (RFC 4180) from a stream of text, yielding records as soon as
+ * they are complete so that files of any size can be read in constant
+ * memory. Fields may be quoted, with doubled quotes inside; quoted fields
+ * may span lines. Lines end in LF or CRLF, blank lines are skipped and a
+ * leading byte order mark is ignored.
+ *
+ * @throws {Error} 'Invalid CSV: ...' on a stray or unterminated quote
+ */
+export async function* parseCsv(input: AsyncIterable<string>): AsyncGenerator<CsvRecord> {
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // The current field was quoted and its closing quote has been read
+  let quoteClosed = false;
+  let line = 1;
+  let recordLine = 1;
+  let atStart = true;
+
+  const endRecord = (): CsvRecord | undefined => {
+    fields.push(field);
+    const record = fields.length === 1 && fields[0] === '' && !quoteClosed
+      ? undefined
+      : { line: recordLine, fields };
+
+    fields = [];
+    field = '';
+    quoteClosed = false;
+
+    return record;
+  };
+
+  for await (const chunk of input) {
+    for (const char of chunk) {
+      if (atStart) {
+        atStart = false;
+
+        if (char === '\uFEFF') {
+          continue;
+        }
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          inQuotes = false;
+          quoteClosed = true;
+        } else {
+          if (char === '\n') {
+            line++;
+          }
+          field += char;
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          if (quoteClosed) {
+            // A doubled quote inside a quoted field
+            field += '"';
+            inQuotes = true;
+            quoteClosed = false;
+          } else if (field === '') {
+            inQuotes = true;
+          } else {
+            throw new Error(`Invalid CSV: unexpected quote on line ${line}`);
+          }
+          break;
+        case ',':
+          fields.push(field);
+          field = '';
+          quoteClosed = false;
+          break;
+        case '\r':
+          break;
+        case '\n': {
+          const record = endRecord();
+          line++;
+          if (record) {
+            yield record;
+          }
+          recordLine = line;
+          break;
+        }
+        default:
+          if (quoteClosed) {
+            throw new Error(`Invalid CSV: unexpected character after a closing quote on line ${line}`);
+          }
+          field += char;
+      }
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Invalid CSV: unterminated quoted field starting on line ${recordLine}`);
+  }
+
+  const record = endRecord();
+
+  if (record) {
+    yield record;
+  }
+}
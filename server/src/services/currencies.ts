@@ -0,0 +1,23 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+
+/**
+ * Get a supported currency by its ISO 4217 code
+ * @returns The currency record, or undefined if the currency is not supported
+ */
+export async function getCurrency(code: string): Promise<s.currencies.JSONSelectable | undefined> {
+  return db.selectOne('currencies', { code }).run(pool);
+}
+
+/**
+ * Ensures the ledger can hold a currency
+ * @throws {Error} 'Unsupported currency.' if the currency is not in the currencies table
+ */
+export async function assertSupportedCurrency(code: string): Promise<void> {
+  const currency = await getCurrency(code);
+
+  if (!currency) {
+    throw new Error('Unsupported currency.');
+  }
+}
@@ -0,0 +1,80 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+import { assertSupportedCurrency } from './currencies';
+
+// Return rates as text: JSON numbers would round NUMERIC(24, 12) to a double
+const exactRate = { rate: db.sql<s.exchange_rates.SQL>`${'rate'}::text` };
+
+/**
+ * Records an exchange rate for a currency pair. Rates are never updated in
+ * place; a newer effective_at supersedes the previous rate for the pair.
+ * @returns The created exchange rate record
+ * @throws {Error} 'Unsupported currency.' if either currency is not supported
+ */
+export async function createExchangeRate(data: {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: string;
+  effectiveAt?: Date;
+}): Promise<s.exchange_rates.JSONSelectable> {
+  await assertSupportedCurrency(data.baseCurrency);
+  await assertSupportedCurrency(data.quoteCurrency);
+
+  return db.insert('exchange_rates', {
+    base_currency: data.baseCurrency,
+    quote_currency: data.quoteCurrency,
+    rate: data.rate as db.NumericString,
+    effective_at: data.effectiveAt ?? db.Default,
+  }, { extras: exactRate }).run(pool);
+}
+
+/**
+ * Lists exchange rates, optionally for one base and/or quote currency
+ * @returns Rates ordered by pair, most recent first within a pair
+ */
+export async function listExchangeRates(filters: {
+  baseCurrency?: string;
+  quoteCurrency?: string;
+}): Promise<s.exchange_rates.JSONSelectable[]> {
+  const where: s.exchange_rates.Whereable = {};
+
+  if (filters.baseCurrency) {
+    where.base_currency = filters.baseCurrency;
+  }
+
+  if (filters.quoteCurrency) {
+    where.quote_currency = filters.quoteCurrency;
+  }
+
+  return db.select('exchange_rates', where, {
+    order: [
+      { by: 'base_currency', direction: 'ASC' },
+      { by: 'quote_currency', direction: 'ASC' },
+      { by: 'effective_at', direction: 'DESC' },
+    ],
+    extras: exactRate,
+  }).run(pool);
+}
+
+/**
+ * Finds the rate in effect for a currency pair at a point in time (defaults to
+ * the database clock): the most recent rate whose effective_at is not after it.
+ * @returns The exchange rate record, or undefined if the pair has no rate yet
+ */
+export async function getEffectiveExchangeRate(
+  queryable: db.Queryable,
+  baseCurrency: string,
+  quoteCurrency: string,
+  at?: Date
+): Promise<s.exchange_rates.JSONSelectable | undefined> {
+  const [rate] = await db.sql<s.exchange_rates.SQL, s.exchange_rates.JSONSelectable[]>`
+    SELECT * FROM ${'exchange_rates'}
+    WHERE ${{ base_currency: baseCurrency, quote_currency: quoteCurrency }}
+      AND ${'effective_at'} <= ${at ? db.param(at) : db.sql`NOW()`}
+    ORDER BY ${'effective_at'} DESC
+    LIMIT 1
+  `.run(queryable);
+
+  return rate;
+}
@@ -0,0 +1,267 @@
+import { formatMinorUnits } from './statements';
+
+export const EXPORT_FORMATS = ['camt053', 'ofx', 'qif'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * What an export says about the account as a whole
+ */
+export interface ExportContext {
+  userId: string;
+  accountId: string | null;
+  currency: string;
+  minorUnits: number;
+  from: Date;
+  to: Date;
+  openingBalance: number;
+  closingBalance: number;
+  generatedAt: Date;
+}
+
+/**
+ * One movement on the exported account
+ */
+export interface ExportEntry {
+  transactionId: string;
+  createdAt: Date;
+  type: string;
+  // Signed amount in minor units: positive for money in, negative for money out
+  amount: number;
+  description: string | null;
+  externalReference: string | null;
+}
+
+/**
+ * Renders one interchange format in three parts, so that entries can be
+ * written out as they are read instead of building the whole document
+ */
+export interface ExportWriter {
+  contentType: string;
+  extension: string;
+  header(context: ExportContext): string;
+  entry(context: ExportContext, entry: ExportEntry): string;
+  footer(context: ExportContext): string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Free text on a single line, cut to a format's field length
+function singleLine(value: string, maxLength: number): string {
+  return value.replace(/\s+/g, ' ').trim().slice(0, maxLength);
+}
+
+// UUIDs without dashes fit the 35 character reference fields of ISO 20022
+function compactId(id: string): string {
+  return id.replace(/-/g, '');
+}
+
+// Digits of a UTC datetime down to the second, e.g. 20261019143000
+function compactDateTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace(/\D/g, '');
+}
+
+/**
+ * ISO 20022 bank-to-customer statement (camt.053.001.02): one statement
+ * with opening (OPBD) and closing (CLBD) booked balances and one booked
+ * entry per movement
+ */
+const camt053: ExportWriter = {
+  contentType: 'application/xml',
+  extension: 'xml',
+
+  header(context) {
+    // Message and statement identifications are at most 35 characters
+    const messageId = `THESAURUM${compactDateTime(context.generatedAt)}`;
+    const statementId = `${compactDateTime(context.from)}-${compactDateTime(context.to)}`;
+    const balance = (code: string, amount: number, date: Date) => `
+      <Bal>
+        <Tp><CdOrPrtry><Cd>${code}</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="${context.currency}">${formatMinorUnits(Math.abs(amount), context.minorUnits)}</Amt>
+        <CdtDbtInd>${amount < 0 ? 'DBIT' : 'CRDT'}</CdtDbtInd>
+        <Dt><DtTm>${date.toISOString()}</DtTm></Dt>
+      </Bal>`;
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr>
+      <MsgId>${messageId}</MsgId>
+      <CreDtTm>${context.generatedAt.toISOString()}</CreDtTm>
+    </GrpHdr>
+    <Stmt>
+      <Id>${statementId}</Id>
+      <CreDtTm>${context.generatedAt.toISOString()}</CreDtTm>
+      <FrToDt>
+        <FrDtTm>${context.from.toISOString()}</FrDtTm>
+        <ToDtTm>${context.to.toISOString()}</ToDtTm>
+      </FrToDt>
+      <Acct>
+        <Id><Othr><Id>${context.accountId ?? context.userId}</Id></Othr></Id>
+        <Ccy>${context.currency}</Ccy>
+      </Acct>${balance('OPBD', context.openingBalance, context.from)}${balance('CLBD', context.closingBalance, context.to)}`;
+  },
+
+  entry(context, entry) {
+    const remittance = entry.description
+      ? `
+            <RmtInf><Ustrd>${escapeXml(singleLine(entry.description, 140))}</Ustrd></RmtInf>`
+      : '';
+
+    return `
+      <Ntry>
+        <NtryRef>${compactId(entry.transactionId)}</NtryRef>
+        <Amt Ccy="${context.currency}">${formatMinorUnits(Math.abs(entry.amount), context.minorUnits)}</Amt>
+        <CdtDbtInd>${entry.amount < 0 ? 'DBIT' : 'CRDT'}</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><DtTm>${entry.createdAt.toISOString()}</DtTm></BookgDt>
+        <ValDt><DtTm>${entry.createdAt.toISOString()}</DtTm></ValDt>
+        <AcctSvcrRef>${compactId(entry.transactionId)}</AcctSvcrRef>
+        <BkTxCd><Prtry><Cd>${escapeXml(entry.type.toUpperCase())}</Cd><Issr>THESAURUM</Issr></Prtry></BkTxCd>
+        <NtryDtls>
+          <TxDtls>
+            <Refs><EndToEndId>${escapeXml(singleLine(entry.externalReference ?? 'NOTPROVIDED', 35))}</EndToEndId></Refs>${remittance}
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>`;
+  },
+
+  footer() {
+    return `
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>
+`;
+  },
+};
+
+// OFX datetime in UTC, e.g. 20261019143000.000[0:UTC]
+function ofxDateTime(date: Date): string {
+  const iso = date.toISOString();
+  return `${iso.slice(0, 4)}${iso.slice(5, 7)}${iso.slice(8, 10)}${iso.slice(11, 13)}${iso.slice(14, 16)}${iso.slice(17, 23)}[0:UTC]`;
+}
+
+const OFX_TRANSACTION_TYPES: Record<string, string> = {
+  deposit: 'DEP',
+  transfer: 'XFER',
+};
+
+/**
+ * OFX 2.2 bank statement response: the movements in a BANKTRANLIST and the
+ * closing balance as LEDGERBAL
+ */
+const ofx: ExportWriter = {
+  contentType: 'application/x-ofx',
+  extension: 'ofx',
+
+  header(context) {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <SIGNONMSGSRSV1>
+    <SONRS>
+      <STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>
+      <DTSERVER>${ofxDateTime(context.generatedAt)}</DTSERVER>
+      <LANGUAGE>ENG</LANGUAGE>
+    </SONRS>
+  </SIGNONMSGSRSV1>
+  <BANKMSGSRSV1>
+    <STMTTRNRS>
+      <TRNUID>0</TRNUID>
+      <STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>
+      <STMTRS>
+        <CURDEF>${context.currency}</CURDEF>
+        <BANKACCTFROM>
+          <BANKID>THESAURUM</BANKID>
+          <ACCTID>${context.accountId ?? context.userId}</ACCTID>
+          <ACCTTYPE>CHECKING</ACCTTYPE>
+        </BANKACCTFROM>
+        <BANKTRANLIST>
+          <DTSTART>${ofxDateTime(context.from)}</DTSTART>
+          <DTEND>${ofxDateTime(context.to)}</DTEND>`;
+  },
+
+  entry(context, entry) {
+    const transactionType = OFX_TRANSACTION_TYPES[entry.type] ?? (entry.amount < 0 ? 'DEBIT' : 'CREDIT');
+    const reference = entry.externalReference
+      ? `
+            <REFNUM>${escapeXml(singleLine(entry.externalReference, 32))}</REFNUM>`
+      : '';
+    const memo = entry.description
+      ? `
+            <MEMO>${escapeXml(singleLine(entry.description, 255))}</MEMO>`
+      : '';
+
+    return `
+          <STMTTRN>
+            <TRNTYPE>${transactionType}</TRNTYPE>
+            <DTPOSTED>${ofxDateTime(entry.createdAt)}</DTPOSTED>
+            <TRNAMT>${formatMinorUnits(entry.amount, context.minorUnits)}</TRNAMT>
+            <FITID>${entry.transactionId}</FITID>${reference}
+            <NAME>${escapeXml(singleLine(entry.description ?? entry.type, 32))}</NAME>${memo}
+          </STMTTRN>`;
+  },
+
+  footer(context) {
+    return `
+        </BANKTRANLIST>
+        <LEDGERBAL>
+          <BALAMT>${formatMinorUnits(context.closingBalance, context.minorUnits)}</BALAMT>
+          <DTASOF>${ofxDateTime(context.to)}</DTASOF>
+        </LEDGERBAL>
+      </STMTRS>
+    </STMTTRNRS>
+  </BANKMSGSRSV1>
+</OFX>
+`;
+  },
+};
+
+// QIF dates are month first, e.g. 10/19/2026 (UTC)
+function qifDate(date: Date): string {
+  const iso = date.toISOString();
+  return `${iso.slice(5, 7)}/${iso.slice(8, 10)}/${iso.slice(0, 4)}`;
+}
+
+/**
+ * Quicken Interchange Format bank register: one record per movement. QIF
+ * has no place for balances or the account itself.
+ */
+const qif: ExportWriter = {
+  contentType: 'application/qif',
+  extension: 'qif',
+
+  header() {
+    return '!Type:Bank\n';
+  },
+
+  entry(context, entry) {
+    const lines = [
+      `D${qifDate(entry.createdAt)}`,
+      `T${formatMinorUnits(entry.amount, context.minorUnits)}`,
+    ];
+
+    if (entry.externalReference) {
+      lines.push(`N${singleLine(entry.externalReference, 128)}`);
+    }
+
+    lines.push(`P${singleLine(entry.description ?? entry.type, 500)}`);
+    lines.push(`M${entry.transactionId}`);
+    lines.push('^');
+
+    return `${lines.join('\n')}\n`;
+  },
+
+  footer() {
+    return '';
+  },
+};
+
+export const EXPORT_WRITERS: Record<ExportFormat, ExportWriter> = { camt053, ofx, qif };
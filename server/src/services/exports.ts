@@ -0,0 +1,135 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+import { getCurrency } from './currencies';
+import { listUserTransactions, type TransactionWithLegs } from './transactions';
+import { EXPORT_WRITERS, type ExportContext, type ExportFormat } from './exportFormats';
+import { MAX_HISTORY_PAGE_SIZE } from '../schemas/transactions';
+
+/**
+ * Signed amount a history row moved on an account: positive for money in,
+ * negative for money out, zero if the row did not touch the account
+ */
+function amountOnAccount(transaction: TransactionWithLegs, accountId: string): number {
+  if (transaction.legs) {
+    return transaction.legs
+      .filter(leg => leg.account_id === accountId)
+      .reduce((total, leg) => total + (leg.direction === 'credit' ? leg.amount : -leg.amount), 0);
+  }
+
+  return (transaction.destination_account_id === accountId ? transaction.amount : 0)
+    - (transaction.source_account_id === accountId ? transaction.amount : 0);
+}
+
+/**
+ * Exports the movements on a user's default account in a currency, created
+ * from `from` (inclusive) to `to` (exclusive), in a banking interchange
+ * format. Newest movements come first, as in the transaction history.
+ *
+ * The rows are read page by page through listUserTransactions, the query
+ * behind GET /users/:id/transactions, and each page is handed to `write`
+ * before the next is read, so the export is never held in memory. All pages
+ * and both balances are read from one snapshot.
+ *
+ * @param write - Receives the document chunk by chunk; the first call marks
+ *   the start of the document, after which errors can only abort the stream
+ * @throws {Error} 'User not found.' or 'Unsupported currency.', before
+ *   anything is written
+ */
+export async function exportUserTransactions(userId: string, options: {
+  format: ExportFormat;
+  from: Date;
+  to: Date;
+  currency: string;
+  generatedAt?: Date;
+  pageSize?: number;
+}, write: (chunk: string) => Promise<void>): Promise<void> {
+  const writer = EXPORT_WRITERS[options.format];
+  const currency = await getCurrency(options.currency);
+
+  if (!currency) {
+    throw new Error('Unsupported currency.');
+  }
+
+  await db.transaction(pool, db.IsolationLevel.RepeatableReadRO, async (txClient) => {
+    const user = await db.selectOne('users', { id: userId }, { columns: ['id'] }).run(txClient);
+
+    if (!user) {
+      throw new Error('User not found.');
+    }
+
+    const account = await db.selectOne(
+      'accounts',
+      { user_id: userId, currency: currency.code, is_default: true },
+      { columns: ['id'] }
+    ).run(txClient);
+
+    // Balances just before each bound, since `from` is inclusive and `to` exclusive
+    const balanceBefore = async (date: Date): Promise<number> => {
+      if (!account) {
+        return 0;
+      }
+
+      const [row] = await db.sql<s.accounts.SQL, Array<{ balance: string }>>`
+        SELECT public.get_account_balance_on_date(
+          ${db.param(account.id)}::uuid,
+          ${db.param(date)}::timestamptz - INTERVAL '1 microsecond'
+        ) AS balance
+      `.run(txClient);
+
+      return parseInt(row.balance, 10);
+    };
+
+    const context: ExportContext = {
+      userId,
+      accountId: account?.id ?? null,
+      currency: currency.code,
+      minorUnits: currency.minor_units,
+      from: options.from,
+      to: options.to,
+      openingBalance: await balanceBefore(options.from),
+      closingBalance: await balanceBefore(options.to),
+      generatedAt: options.generatedAt ?? new Date(),
+    };
+
+    await write(writer.header(context));
+
+    let cursor: string | undefined;
+
+    while (account) {
+      const page = await listUserTransactions(userId, {
+        limit: options.pageSize ?? MAX_HISTORY_PAGE_SIZE,
+        cursor,
+        from: options.from,
+        to: options.to,
+        currency: currency.code,
+      }, txClient);
+
+      const chunk = page.data
+        .map(transaction => ({ transaction, amount: amountOnAccount(transaction, account.id) }))
+        // Rows on the user's other accounts in this currency
+        .filter(({ amount }) => amount !== 0)
+        .map(({ transaction, amount }) => writer.entry(context, {
+          transactionId: transaction.id,
+          createdAt: new Date(transaction.created_at),
+          type: transaction.type,
+          amount,
+          description: transaction.description ?? null,
+          externalReference: transaction.external_reference ?? null,
+        }))
+        .join('');
+
+      if (chunk) {
+        await write(chunk);
+      }
+
+      if (!page.next_cursor) {
+        break;
+      }
+
+      cursor = page.next_cursor;
+    }
+
+    await write(writer.footer(context));
+  });
+}
@@ -0,0 +1,73 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+
+/**
+ * Marks active holds whose time to live has passed as 'expired'. Expired
+ * holds stop reserving funds as soon as expires_at passes (see
+ * get_account_held_amount); this only brings their status up to date.
+ * @param holdId - Limit the sweep to one hold
+ * @returns The number of holds expired
+ */
+export async function expireHolds(holdId?: string): Promise<number> {
+  const where: s.holds.Whereable = {
+    status: 'active',
+    expires_at: db.sql`${db.self} <= NOW()`,
+  };
+
+  if (holdId) {
+    where.id = holdId;
+  }
+
+  const expired = await db.update(
+    'holds',
+    { status: 'expired', closed_at: db.sql`${'expires_at'}` },
+    where,
+    { returning: ['id'] }
+  ).run(pool);
+
+  return expired.length;
+}
+
+/**
+ * Get a hold by id, with its expiry applied
+ * @returns The hold record, or undefined if it does not exist
+ */
+export async function getHold(holdId: string): Promise<s.holds.JSONSelectable | undefined> {
+  await expireHolds(holdId);
+
+  return db.selectOne('holds', { id: holdId }).run(pool);
+}
+
+/**
+ * Voids an active hold, releasing its funds without moving any money.
+ * Voiding a voided hold returns it unchanged.
+ * @returns The voided hold
+ * @throws {Error} 'Hold not found.' or 'Hold is not active.' if it was captured or has expired
+ */
+export async function voidHold(holdId: string): Promise<s.holds.JSONSelectable> {
+  await expireHolds(holdId);
+
+  // The status condition makes a void racing a capture lose cleanly
+  const [voided] = await db.update(
+    'holds',
+    { status: 'voided', closed_at: db.sql`NOW()` },
+    { id: holdId, status: 'active', expires_at: db.sql`${db.self} > NOW()` }
+  ).run(pool);
+
+  if (voided) {
+    return voided;
+  }
+
+  const hold = await getHold(holdId);
+
+  if (!hold) {
+    throw new Error('Hold not found.');
+  }
+
+  if (hold.status !== 'voided') {
+    throw new Error('Hold is not active.');
+  }
+
+  return hold;
+}
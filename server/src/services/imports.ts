@@ -0,0 +1,636 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+import { createHash, randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { from as copyFrom } from 'pg-copy-streams';
+import { z } from 'zod';
+import { parseCsv, type CsvRecord } from './csv';
+import { ensureDefaultAccountId, resolveDefaultAccountId } from './accounts';
+import { ensureSystemAccountId, lockLedgerChain } from './ledger';
+import type { TransactionDetails } from './transactions';
+import { CreateDepositSchema, CreateTransactionSchema } from '../schemas/transactions';
+import { DEFAULT_CURRENCY } from '../schemas/currencies';
+import {
+  DEFAULT_IMPORT_CHUNK_SIZE,
+  MAX_REPORTED_IMPORT_ERRORS,
+  type ImportReport,
+  type ImportRowError,
+} from '../schemas/imports';
+
+// Columns of an import file, in any order. Empty fields count as missing.
+export const IMPORT_COLUMNS = [
+  'type',
+  'source_email',
+  'destination_email',
+  'amount',
+  'currency',
+  'created_at',
+  'description',
+  'external_reference',
+  'metadata',
+] as const;
+
+type ImportColumn = typeof IMPORT_COLUMNS[number];
+
+const REQUIRED_IMPORT_COLUMNS: ImportColumn[] = ['type', 'destination_email', 'amount'];
+
+// Request fields reported under the CSV column they come from
+const COLUMN_OF_FIELD: Record<string, string> = {
+  source_user_id: 'source_email',
+  destination_user_id: 'destination_email',
+};
+
+/**
+ * A row that passed every check that does not depend on balances
+ */
+interface ImportRow extends TransactionDetails {
+  line: number;
+  idempotencyKey: string;
+  type: 'deposit' | 'transfer';
+  sourceUserId: string | null;
+  destinationUserId: string;
+  amount: number;
+  currency: string;
+  createdAt: Date | null;
+}
+
+// Balances are tracked per user and currency: accounts opened by the import don't exist yet
+const balanceKey = (userId: string, currency: string) => `${userId}:${currency}`;
+
+/**
+ * A party's available balance, and when its latest movement was booked (in
+ * milliseconds since the epoch, 0 if it has none)
+ */
+interface PartyBalance {
+  balance: number;
+  lastMovementAt: number;
+}
+
+/**
+ * Derives a row's idempotency key from its content, laid out as a version 8
+ * (custom) UUID, so importing the same file again finds the rows it wrote
+ */
+function deriveIdempotencyKey(values: Partial<Record<ImportColumn, string>>): string {
+  const digest = createHash('sha256')
+    .update(JSON.stringify(IMPORT_COLUMNS.map(column => values[column] ?? null)))
+    .digest('hex');
+  const variant = (8 | (parseInt(digest[16], 16) & 3)).toString(16);
+
+  return `${digest.slice(0, 8)}-${digest.slice(8, 12)}-8${digest.slice(13, 16)}-${variant}${digest.slice(17, 20)}-${digest.slice(20, 32)}`;
+}
+
+/**
+ * Maps the header of an import file onto its columns
+ * @throws {Error} 'Invalid CSV header: ...' on unknown, repeated or missing columns
+ */
+function parseHeader(fields: string[]): ImportColumn[] {
+  const columns = fields.map(field => field.trim());
+
+  for (const column of columns) {
+    if (!(IMPORT_COLUMNS as readonly string[]).includes(column)) {
+      throw new Error(`Invalid CSV header: unknown column "${column}".`);
+    }
+  }
+
+  if (new Set(columns).size !== columns.length) {
+    throw new Error('Invalid CSV header: repeated column.');
+  }
+
+  const missing = REQUIRED_IMPORT_COLUMNS.filter(column => !columns.includes(column));
+
+  if (missing.length > 0) {
+    throw new Error(`Invalid CSV header: missing ${missing.join(', ')}.`);
+  }
+
+  return columns as ImportColumn[];
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const field = issue.path.map(String).join('.');
+    const column = COLUMN_OF_FIELD[field] ?? field;
+    return column ? `${column}: ${issue.message}` : issue.message;
+  });
+}
+
+/**
+ * Checks a row against the request schema of its type and resolves its
+ * users. Unknown users get placeholder ids for the schema check, so that
+ * every problem with the row is reported at once.
+ */
+function validateRow(
+  record: CsvRecord,
+  columns: ImportColumn[],
+  lookups: { userIds: Map<string, string | null>; currencies: Set<string>; seenKeys: Map<string, number>; now: Date }
+): { row?: ImportRow; errors: string[] } {
+  if (record.fields.length !== columns.length) {
+    return { errors: [`Expected ${columns.length} fields, found ${record.fields.length}.`] };
+  }
+
+  const values: Partial<Record<ImportColumn, string>> = {};
+  columns.forEach((column, index) => {
+    const value = record.fields[index].trim();
+    if (value !== '') {
+      values[column] = value;
+    }
+  });
+
+  const errors: string[] = [];
+  const idempotencyKey = deriveIdempotencyKey(values);
+
+  const type = values.type;
+  if (type !== 'deposit' && type !== 'transfer') {
+    errors.push('type: Must be deposit or transfer');
+  }
+
+  let metadata: unknown;
+  if (values.metadata !== undefined) {
+    try {
+      metadata = JSON.parse(values.metadata);
+    } catch {
+      errors.push('metadata: Invalid JSON');
+    }
+  }
+
+  let createdAt: Date | null = null;
+  if (values.created_at !== undefined) {
+    if (!z.iso.datetime({ offset: true }).safeParse(values.created_at).success) {
+      errors.push('created_at: Invalid ISO 8601 datetime');
+    } else {
+      createdAt = new Date(values.created_at);
+      if (createdAt > lookups.now) {
+        errors.push('created_at: Must not be in the future');
+      }
+    }
+  }
+
+  const resolveUser = (email: string | undefined) => {
+    if (email === undefined) {
+      return undefined;
+    }
+
+    const userId = lookups.userIds.get(email);
+    if (!userId) {
+      errors.push(`Unknown user: ${email}`);
+    }
+    return userId ?? randomUUID();
+  };
+
+  const sourceUserId = resolveUser(values.source_email);
+  const destinationUserId = resolveUser(values.destination_email);
+
+  const body = {
+    idempotency_key: idempotencyKey,
+    amount: values.amount === undefined ? undefined : Number(values.amount),
+    currency: values.currency,
+    description: values.description,
+    external_reference: values.external_reference,
+    metadata,
+  };
+
+  let parsed: z.infer<typeof CreateDepositSchema> | undefined;
+
+  if (type === 'transfer') {
+    const result = CreateTransactionSchema.safeParse({ ...body, source_user_id: sourceUserId, destination_user_id: destinationUserId });
+    if (result.success) {
+      parsed = result.data;
+    } else {
+      errors.push(...formatIssues(result.error));
+    }
+  } else if (type === 'deposit') {
+    if (values.source_email !== undefined) {
+      errors.push('source_email: Must be empty for a deposit');
+    }
+
+    const result = CreateDepositSchema.safeParse(body);
+    if (result.success) {
+      parsed = result.data;
+    } else {
+      errors.push(...formatIssues(result.error));
+    }
+  }
+
+  if (parsed?.currency && !lookups.currencies.has(parsed.currency)) {
+    errors.push('Unsupported currency.');
+  }
+
+  const firstLine = lookups.seenKeys.get(idempotencyKey);
+  if (firstLine === undefined) {
+    lookups.seenKeys.set(idempotencyKey, record.line);
+  } else {
+    errors.push(`Duplicate of row ${firstLine}.`);
+  }
+
+  if (errors.length > 0 || !parsed || !destinationUserId) {
+    return { errors };
+  }
+
+  return {
+    errors,
+    row: {
+      line: record.line,
+      idempotencyKey,
+      type: type as ImportRow['type'],
+      sourceUserId: sourceUserId ?? null,
+      destinationUserId,
+      amount: parsed.amount,
+      currency: parsed.currency ?? DEFAULT_CURRENCY,
+      createdAt,
+      description: parsed.description,
+      externalReference: parsed.external_reference,
+      metadata: parsed.metadata,
+    },
+  };
+}
+
+/**
+ * Looks up the users of the emails not seen yet, remembering unknown ones as null
+ */
+async function loadUsers(userIds: Map<string, string | null>, emails: string[]): Promise<void> {
+  const missing = [...new Set(emails)].filter(email => !userIds.has(email));
+
+  if (missing.length === 0) {
+    return;
+  }
+
+  const users = await db.select('users', { email: db.conditions.isIn(missing) }, { columns: ['id', 'email'] }).run(pool);
+
+  for (const email of missing) {
+    userIds.set(email, null);
+  }
+  for (const user of users) {
+    userIds.set(user.email, user.id);
+  }
+}
+
+/**
+ * Finds the rows that an earlier run already imported
+ * @returns Their idempotency keys
+ */
+async function findImportedKeys(queryable: db.Queryable, rows: ImportRow[]): Promise<Set<string>> {
+  if (rows.length === 0) {
+    return new Set();
+  }
+
+  const existing = await db.select(
+    'transactions',
+    { idempotency_key: db.conditions.isIn(rows.map(row => row.idempotencyKey)) },
+    { columns: ['idempotency_key'] }
+  ).run(queryable);
+
+  return new Set(existing.map(transaction => transaction.idempotency_key));
+}
+
+/**
+ * Adds the available balances and latest movements of the rows' parties
+ * that `balances` doesn't hold yet. A user without a default account in the
+ * currency has nothing.
+ */
+async function loadBalances(queryable: db.Queryable, balances: Map<string, PartyBalance>, rows: ImportRow[]): Promise<void> {
+  const parties = new Map<string, { userId: string; currency: string }>();
+
+  for (const row of rows) {
+    for (const userId of [row.sourceUserId, row.destinationUserId]) {
+      if (userId && !balances.has(balanceKey(userId, row.currency))) {
+        parties.set(balanceKey(userId, row.currency), { userId, currency: row.currency });
+      }
+    }
+  }
+
+  if (parties.size === 0) {
+    return;
+  }
+
+  const found = await db.sql<s.accounts.SQL | s.postings.SQL, Array<{
+    user_id: string;
+    currency: string;
+    balance: string;
+    last_movement_at: Date | null;
+  }>>`
+    SELECT a.${'user_id'}, a.${'currency'}, public.get_account_available_balance(a.${'id'}) AS balance,
+      (SELECT MAX(p.${'created_at'}) FROM ${'postings'} p WHERE p.${'account_id'} = a.${'id'}) AS last_movement_at
+    FROM unnest(
+      ${db.param([...parties.values()].map(party => party.userId))}::uuid[],
+      ${db.param([...parties.values()].map(party => party.currency))}::text[]
+    ) AS party (user_id, currency)
+    JOIN ${'accounts'} a ON a.${'user_id'} = party.user_id AND a.${'currency'} = party.currency AND a.${'is_default'}
+  `.run(queryable);
+
+  for (const key of parties.keys()) {
+    balances.set(key, { balance: 0, lastMovementAt: 0 });
+  }
+  for (const row of found) {
+    balances.set(balanceKey(row.user_id, row.currency), {
+      balance: parseInt(row.balance, 10),
+      lastMovementAt: row.last_movement_at?.getTime() ?? 0,
+    });
+  }
+}
+
+/**
+ * Applies rows to `balances` in file order, skipping transfers their source
+ * could not cover from the rows before them. Funds are checked against the
+ * current balance, which is only the balance a transfer would have had at
+ * its created_at if its source did not move after it: a transfer dated
+ * before a later movement of its source, in the ledger or earlier in the
+ * file, could overdraw the source in between and is skipped too. Rows
+ * without a created_at are booked at `now`.
+ * @returns The errors of the skipped rows
+ */
+function applyToBalances(rows: ImportRow[], balances: Map<string, PartyBalance>, now: Date): ImportRowError[] {
+  const errors: ImportRowError[] = [];
+  const nobody: PartyBalance = { balance: 0, lastMovementAt: 0 };
+
+  for (const row of rows) {
+    const bookedAt = (row.createdAt ?? now).getTime();
+
+    if (row.sourceUserId) {
+      const sourceKey = balanceKey(row.sourceUserId, row.currency);
+      const source = balances.get(sourceKey) ?? nobody;
+
+      if (row.createdAt && bookedAt < source.lastMovementAt) {
+        errors.push({ row: row.line, errors: ['Transfer dated before a later movement of its source.'] });
+        continue;
+      }
+
+      if (source.balance < row.amount) {
+        errors.push({ row: row.line, errors: ['Insufficient funds.'] });
+        continue;
+      }
+
+      balances.set(sourceKey, { balance: source.balance - row.amount, lastMovementAt: Math.max(source.lastMovementAt, bookedAt) });
+    }
+
+    const destinationKey = balanceKey(row.destinationUserId, row.currency);
+    const destination = balances.get(destinationKey) ?? nobody;
+    balances.set(destinationKey, { balance: destination.balance + row.amount, lastMovementAt: Math.max(destination.lastMovementAt, bookedAt) });
+  }
+
+  return errors;
+}
+
+// A field of COPY ... (FORMAT csv): unquoted empty is NULL, anything else is quoted
+function copyField(value: string | number | null): string {
+  return value === null ? '' : `"${String(value).replace(/"/g, '""')}"`;
+}
+
+async function copyRows(
+  txClient: db.TxnClient<db.IsolationLevel>,
+  table: string,
+  columns: string[],
+  rows: Array<Array<string | number | null>>
+): Promise<void> {
+  await pipeline(
+    Readable.from(rows.map(row => `${row.map(copyField).join(',')}\n`)),
+    txClient.query(copyFrom(`COPY public.${table} (${columns.join(', ')}) FROM STDIN WITH (FORMAT csv)`))
+  );
+}
+
+/**
+ * Writes one chunk of valid rows as journal entries with COPY, in one
+ * database transaction. The accounts of the chunk are locked in sorted order
+ * as for any transfer, and the funds of every transfer are checked against
+ * the balances read under those locks. If a transfer can't be covered,
+ * nothing of the chunk is written.
+ *
+ * @returns How many rows were written and skipped, or the rows that failed
+ */
+async function commitChunk(rows: ImportRow[]): Promise<{ imported: number; alreadyImported: number; errors: ImportRowError[] }> {
+  // Accounts the parties already hold; missing receiving accounts are opened
+  // once the chunk is known to be written
+  const accountIds = new Map<string, string | null>();
+
+  for (const row of rows) {
+    for (const userId of [row.sourceUserId, row.destinationUserId]) {
+      const key = userId ? balanceKey(userId, row.currency) : undefined;
+      if (key && !accountIds.has(key)) {
+        accountIds.set(key, await resolveDefaultAccountId(userId!, row.currency));
+      }
+    }
+  }
+
+  // New money is issued by debiting the issuance account
+  const equityAccountIds = new Map<string, string>();
+  for (const currency of new Set(rows.filter(row => row.type === 'deposit').map(row => row.currency))) {
+    equityAccountIds.set(currency, await ensureSystemAccountId('equity:deposits', currency));
+  }
+
+  return db.transaction(pool, db.IsolationLevel.ReadCommitted, async (txClient) => {
+    const lockOrderIds = [...new Set(accountIds.values())].filter((id): id is string => id !== null);
+
+    // The chain before the accounts, in the same order as every transfer
+    await lockLedgerChain(txClient);
+    await db.sql`
+      SELECT ${'id'} FROM ${'accounts'} WHERE ${'id'} = ANY(${db.param(lockOrderIds)}::uuid[]) ORDER BY ${'id'} FOR UPDATE
+    `.run(txClient);
+
+    const importedKeys = await findImportedKeys(txClient, rows);
+    const newRows = rows.filter(row => !importedKeys.has(row.idempotencyKey));
+
+    // Rows without a date are booked now, as the API would book them
+    const [{ now }] = await db.sql<s.transactions.SQL, Array<{ now: Date }>>`SELECT NOW() AS now`.run(txClient);
+
+    const balances = new Map<string, PartyBalance>();
+    await loadBalances(txClient, balances, newRows);
+    const errors = applyToBalances(newRows, balances, now);
+
+    if (errors.length > 0) {
+      return { imported: 0, alreadyImported: 0, errors };
+    }
+
+    // Open the missing receiving accounts only now that the chunk will be
+    // written, inside its transaction
+    for (const row of newRows) {
+      const key = balanceKey(row.destinationUserId, row.currency);
+      if (!accountIds.get(key)) {
+        accountIds.set(key, await ensureDefaultAccountId(row.destinationUserId, row.currency, txClient));
+      }
+    }
+
+    const entries = newRows.map(row => ({
+      row,
+      id: randomUUID(),
+      createdAt: (row.createdAt ?? now).toISOString(),
+      sourceAccountId: row.sourceUserId ? accountIds.get(balanceKey(row.sourceUserId, row.currency))! : null,
+      destinationAccountId: accountIds.get(balanceKey(row.destinationUserId, row.currency))!,
+    }));
+
+    // Postings first: each entry's hash covers them (see recordJournalEntry)
+    await copyRows(
+      txClient,
+      'postings',
+      ['transaction_id', 'account_id', 'amount', 'currency', 'created_at'],
+      entries.flatMap(({ row, id, createdAt, sourceAccountId, destinationAccountId }) => [
+        [id, sourceAccountId ?? equityAccountIds.get(row.currency)!, -row.amount, row.currency, createdAt],
+        [id, destinationAccountId, row.amount, row.currency, createdAt],
+      ])
+    );
+
+    await copyRows(
+      txClient,
+      'transactions',
+      ['id', 'idempotency_key', 'type', 'source_user_id', 'destination_user_id', 'source_account_id', 'destination_account_id', 'amount', 'currency', 'description', 'external_reference', 'metadata', 'created_at'],
+      entries.map(({ row, id, createdAt, sourceAccountId, destinationAccountId }) => [
+        id,
+        row.idempotencyKey,
+        row.type,
+        row.sourceUserId,
+        row.destinationUserId,
+        sourceAccountId,
+        destinationAccountId,
+        row.amount,
+        row.currency,
+        row.description ?? null,
+        row.externalReference ?? null,
+        row.metadata ? JSON.stringify(row.metadata) : null,
+        createdAt,
+      ])
+    );
+
+    return { imported: newRows.length, alreadyImported: importedKeys.size, errors };
+  });
+}
+
+/**
+ * Imports historical deposits and transfers from a CSV file, or on a dry
+ * run only reports what an import would do.
+ *
+ * The file starts with a header naming its columns (see IMPORT_COLUMNS).
+ * Each row is checked against the request schema of its type
+ * (CreateDepositSchema or CreateTransactionSchema), with users resolved by
+ * email, and given an idempotency key derived from its content: rows that an
+ * earlier run imported are skipped, so an interrupted import can simply be
+ * run again. Transfers must be covered by their source's available balance,
+ * taking the rows before them in the file into account, and may not be dated
+ * before a later movement of their source. Rows without a created_at are
+ * booked at the time of the import.
+ *
+ * The file is read chunk by chunk. A commit writes each chunk with COPY in
+ * its own database transaction and stops at the first chunk holding an
+ * invalid row, so run a dry run first and fix what it reports.
+ *
+ * @returns The validation report
+ * @throws {Error} 'Invalid CSV header: ...' or 'Invalid CSV: ...' when the
+ *   file can't be read as an import file
+ */
+export async function importLedger(input: AsyncIterable<string>, options: {
+  dryRun: boolean;
+  chunkSize?: number;
+}): Promise<ImportReport> {
+  const chunkSize = options.chunkSize ?? DEFAULT_IMPORT_CHUNK_SIZE;
+
+  const report: ImportReport = {
+    dry_run: options.dryRun,
+    completed: true,
+    total_rows: 0,
+    valid_rows: 0,
+    already_imported: 0,
+    invalid_rows: 0,
+    imported: 0,
+    errors: [],
+  };
+
+  const lookups = {
+    userIds: new Map<string, string | null>(),
+    currencies: new Set<string>(),
+    // First row of each idempotency key, to catch repeated rows
+    seenKeys: new Map<string, number>(),
+    now: new Date(),
+  };
+  // Simulated balances of a dry run, carried from chunk to chunk
+  const balances = new Map<string, PartyBalance>();
+
+  const reportErrors = (errors: ImportRowError[]) => {
+    report.invalid_rows += errors.length;
+    report.errors.push(...errors
+      .sort((a, b) => a.row - b.row)
+      .slice(0, MAX_REPORTED_IMPORT_ERRORS - report.errors.length));
+  };
+
+  // @returns false if the import must stop
+  const processChunk = async (columns: ImportColumn[], records: CsvRecord[]): Promise<boolean> => {
+    await loadUsers(lookups.userIds, records.flatMap(record => columns
+      .map((column, index) => column === 'source_email' || column === 'destination_email' ? record.fields[index]?.trim() : '')
+      .filter(email => email)));
+
+    const rows: ImportRow[] = [];
+    const rowErrors: ImportRowError[] = [];
+
+    for (const record of records) {
+      const result = validateRow(record, columns, lookups);
+
+      if (result.row) {
+        rows.push(result.row);
+      } else {
+        rowErrors.push({ row: record.line, errors: result.errors });
+      }
+    }
+
+    if (!options.dryRun) {
+      if (rowErrors.length > 0) {
+        reportErrors(rowErrors);
+        return false;
+      }
+
+      const result = await commitChunk(rows);
+
+      if (result.errors.length > 0) {
+        reportErrors(result.errors);
+        return false;
+      }
+
+      report.imported += result.imported;
+      report.valid_rows += result.imported;
+      report.already_imported += result.alreadyImported;
+      return true;
+    }
+
+    const importedKeys = await findImportedKeys(pool, rows);
+    const newRows = rows.filter(row => !importedKeys.has(row.idempotencyKey));
+
+    await loadBalances(pool, balances, newRows);
+    const fundsErrors = applyToBalances(newRows, balances, lookups.now);
+
+    reportErrors([...rowErrors, ...fundsErrors]);
+    report.valid_rows += newRows.length - fundsErrors.length;
+    report.already_imported += importedKeys.size;
+    return true;
+  };
+
+  let columns: ImportColumn[] | undefined;
+  let records: CsvRecord[] = [];
+
+  for await (const record of parseCsv(input)) {
+    if (!columns) {
+      columns = parseHeader(record.fields);
+
+      // Only once reading has started: an input stream that fails before then has nobody to report to
+      const currencies = await db.select('currencies', db.all, { columns: ['code'] }).run(pool);
+      lookups.currencies = new Set(currencies.map(currency => currency.code));
+      continue;
+    }
+
+    report.total_rows++;
+    records.push(record);
+
+    if (records.length === chunkSize) {
+      if (!(await processChunk(columns, records))) {
+        report.completed = false;
+        return report;
+      }
+      records = [];
+    }
+  }
+
+  if (!columns) {
+    throw new Error('Invalid CSV header: the file is empty.');
+  }
+
+  if (records.length > 0 && !(await processChunk(columns, records))) {
+    report.completed = false;
+  }
+
+  return report;
+}
@@ -0,0 +1,113 @@
+import * as db from 'zapatos/db';
+import { randomUUID } from 'crypto';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+
+/**
+ * Ownerless accounts on the other side of money entering, leaving or moving
+ * across the system. Each exists once per currency.
+ */
+export type SystemAccountName = 'equity:deposits' | 'fx:conversions' | 'fees:revenue' | 'suspense';
+
+/**
+ * One side of a journal entry. A positive amount credits the account
+ * (raises its balance), a negative amount debits it.
+ */
+export interface Posting {
+  accountId: string;
+  amount: number;
+}
+
+type TrialBalance = { currency: string; debits: number; credits: number };
+
+/**
+ * Resolves a system account in a currency, opening it if needed. Runs on its
+ * own connection so that concurrent first uses converge on one account
+ * regardless of the caller's transaction snapshot.
+ * @returns The account id
+ */
+export async function ensureSystemAccountId(name: SystemAccountName, currency: string): Promise<string> {
+  const findAccount = () => db.selectOne(
+    'accounts',
+    { kind: 'system', name, currency },
+    { columns: ['id'] }
+  ).run(pool);
+
+  const existingAccount = await findAccount();
+
+  if (existingAccount) {
+    return existingAccount.id;
+  }
+
+  await db.sql`
+    INSERT INTO ${'accounts'} (${'name'}, ${'kind'}, ${'currency'})
+    VALUES (${db.param(name)}, 'system', ${db.param(currency)})
+    ON CONFLICT (${'name'}, ${'currency'}) WHERE ${'kind'} = 'system' DO NOTHING
+  `.run(pool);
+
+  return (await findAccount())!.id;
+}
+
+/**
+ * Takes the hash chain's lock for the rest of the caller's database
+ * transaction, so that it appends its entries after every writer before it
+ * has committed. Must be the first statement of a transaction that records
+ * journal entries: a SERIALIZABLE snapshot is only taken once the lock is
+ * held, and writers that lock accounts always take this lock first.
+ *
+ * Ledger writes are therefore sequential, however unrelated their accounts;
+ * the README (Hash Chain) explains why the lock is not taken later.
+ */
+export async function lockLedgerChain(txClient: db.Queryable): Promise<void> {
+  await db.sql<s.ledger_chain_head.SQL>`LOCK TABLE ${'ledger_chain_head'} IN EXCLUSIVE MODE`.run(txClient);
+}
+
+/**
+ * Records a journal entry: the transaction row that API clients see, plus
+ * the postings that actually move money. Must be called inside the caller's
+ * database transaction. The postings are written first, since the entry's
+ * hash covers them and is computed when the entry is inserted; the database
+ * re-checks at commit that they sum to zero and were hashed.
+ *
+ * @returns The created transaction record
+ * @throws {Error} 'Unbalanced journal entry.' if the postings don't sum to zero
+ */
+export async function recordJournalEntry(
+  txClient: db.Queryable,
+  entry: Omit<s.transactions.Insertable, 'id'> & { currency: string },
+  postings: Posting[]
+): Promise<s.transactions.JSONSelectable> {
+  const sum = postings.reduce((total, posting) => total + posting.amount, 0);
+
+  if (postings.length < 2 || sum !== 0) {
+    throw new Error('Unbalanced journal entry.');
+  }
+
+  const id = randomUUID();
+
+  await db.insert('postings', postings.map(posting => ({
+    transaction_id: id,
+    account_id: posting.accountId,
+    amount: posting.amount,
+    currency: entry.currency,
+  }))).run(txClient);
+
+  return db.insert('transactions', { ...entry, id }).run(txClient);
+}
+
+/**
+ * Totals all debits and credits per currency at a point in time (defaults to
+ * now). The books balance when debits equal credits in every currency.
+ * @returns One row per currency, amounts in minor units
+ */
+export async function getTrialBalance(date?: Date): Promise<TrialBalance[]> {
+  const result = await db.sql<s.postings.SQL, Array<{ currency: string; debits: string; credits: string }>>`
+    SELECT * FROM public.get_trial_balance(${date ? db.param(date) : db.sql`NOW()`}::timestamptz)
+  `.run(pool);
+
+  return result.map(row => ({
+    currency: row.currency,
+    debits: parseInt(row.debits, 10),
+    credits: parseInt(row.credits, 10),
+  }));
+}
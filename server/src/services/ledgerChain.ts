@@ -0,0 +1,237 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+import { createHash, createPrivateKey, createPublicKey, sign, verify, type KeyObject } from 'crypto';
+import { MAX_REPORTED_FINDINGS } from '../schemas/reconciliation';
+import type { LedgerVerification } from '../schemas/ledgerChain';
+
+// Entries hashed and compared per query by the verifier
+const VERIFY_BATCH_SIZE = 1000;
+
+// prev_hash of the first entry
+const GENESIS_HASH = '0'.repeat(64);
+
+// Prefix of every signed message, so a checkpoint signature can't be passed
+// off as a signature over anything else
+const SIGNATURE_CONTEXT = 'thesaurum-ledger-head:v1';
+
+type BrokenLink = NonNullable<LedgerVerification['broken_link']>;
+
+interface SigningKey {
+  keyId: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+interface ChainEntry {
+  chainSeq: number;
+  hash: string;
+  transactionId: string;
+}
+
+/**
+ * Reads the Ed25519 private key (PEM, PKCS#8) from LEDGER_SIGNING_KEY.
+ * Escaped newlines are accepted, for environments that hold one line per
+ * variable. The key id is the start of the SHA-256 of the public key.
+ * @returns The key, or undefined if none is configured
+ * @throws {Error} 'LEDGER_SIGNING_KEY must be an Ed25519 private key.'
+ */
+function loadSigningKey(): SigningKey | undefined {
+  const pem = process.env.LEDGER_SIGNING_KEY;
+
+  if (!pem) {
+    return undefined;
+  }
+
+  const privateKey = createPrivateKey(pem.replace(/\\n/g, '\n'));
+
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error('LEDGER_SIGNING_KEY must be an Ed25519 private key.');
+  }
+
+  const publicKey = createPublicKey(privateKey);
+  const keyId = createHash('sha256')
+    .update(publicKey.export({ type: 'spki', format: 'der' }))
+    .digest('hex')
+    .slice(0, 16);
+
+  return { keyId, privateKey, publicKey };
+}
+
+const signedMessage = (chainSeq: number, hash: string) => Buffer.from(`${SIGNATURE_CONTEXT}:${chainSeq}:${hash}`);
+
+/**
+ * Signs the current chain head with LEDGER_SIGNING_KEY and stores the
+ * checkpoint. Does nothing if the head is already signed or the ledger is
+ * empty, so it is safe to run from several server instances at once.
+ * @returns The chain_seq of the new checkpoint, or undefined if none was needed
+ * @throws {Error} 'LEDGER_SIGNING_KEY is not set.'
+ */
+export async function signLedgerHead(): Promise<number | undefined> {
+  const key = loadSigningKey();
+
+  if (!key) {
+    throw new Error('LEDGER_SIGNING_KEY is not set.');
+  }
+
+  const head = await db.selectOne('ledger_chain_head', { id: true }).run(pool);
+
+  if (!head) {
+    return undefined;
+  }
+
+  const signature = sign(null, signedMessage(head.chain_seq, head.hash), key.privateKey).toString('base64');
+
+  const created = await db.sql<s.ledger_chain_checkpoints.SQL, Array<{ chain_seq: string }>>`
+    INSERT INTO ${'ledger_chain_checkpoints'} (${'chain_seq'}, ${'hash'}, ${'key_id'}, ${'signature'})
+    VALUES (${db.param(head.chain_seq)}, ${db.param(head.hash)}, ${db.param(key.keyId)}, ${db.param(signature)})
+    ON CONFLICT (${'chain_seq'}) DO NOTHING
+    RETURNING ${'chain_seq'}
+  `.run(pool);
+
+  return created.length > 0 ? head.chain_seq : undefined;
+}
+
+/**
+ * Walks the chain from its first entry in batches, recomputing each hash,
+ * and stops at the first entry that does not verify: a gap in chain_seq, a
+ * prev_hash that isn't the previous entry's hash, or a hash that doesn't
+ * match the entry's contents.
+ * @returns How many entries verified, the last one of them, and the broken link if any
+ */
+async function walkChain(txClient: db.TxnClientForRepeatableReadRO): Promise<{
+  entries: number;
+  last?: ChainEntry;
+  brokenLink: BrokenLink | null;
+}> {
+  let entries = 0;
+  let last: ChainEntry | undefined;
+
+  for (;;) {
+    const rows = await db.sql<s.transactions.SQL, Array<{
+      id: string;
+      chain_seq: string;
+      prev_hash: string;
+      hash: string;
+      expected_hash: string;
+    }>>`
+      SELECT t.${'id'}, t.${'chain_seq'}, t.${'prev_hash'}, t.${'hash'}, public.ledger_entry_hash(t) AS expected_hash
+      FROM ${'transactions'} t
+      WHERE t.${'chain_seq'} > ${db.param(last?.chainSeq ?? 0)}
+      ORDER BY t.${'chain_seq'}
+      LIMIT ${db.param(VERIFY_BATCH_SIZE)}
+    `.run(txClient);
+
+    for (const row of rows) {
+      const chainSeq = parseInt(row.chain_seq, 10);
+      const expectedSeq = (last?.chainSeq ?? 0) + 1;
+
+      if (chainSeq !== expectedSeq) {
+        return { entries, last, brokenLink: { chain_seq: expectedSeq, transaction_id: null, reason: 'Entry is missing' } };
+      }
+
+      const reason = row.prev_hash !== (last?.hash ?? GENESIS_HASH)
+        ? 'prev_hash does not match the previous entry'
+        : row.hash !== row.expected_hash
+          ? 'hash does not match the entry'
+          : undefined;
+
+      if (reason) {
+        return { entries, last, brokenLink: { chain_seq: chainSeq, transaction_id: row.id, reason } };
+      }
+
+      entries++;
+      last = { chainSeq, hash: row.hash, transactionId: row.id };
+    }
+
+    if (rows.length < VERIFY_BATCH_SIZE) {
+      return { entries, last, brokenLink: null };
+    }
+  }
+}
+
+/**
+ * Checks every signed checkpoint against the entry it covers and, when a
+ * signing key is configured, against its signature.
+ */
+async function checkCheckpoints(
+  txClient: db.TxnClientForRepeatableReadRO,
+  key: SigningKey | undefined
+): Promise<LedgerVerification['checkpoints']> {
+  const rows = await db.sql<s.ledger_chain_checkpoints.SQL | s.transactions.SQL, Array<{
+    chain_seq: string;
+    hash: string;
+    key_id: string;
+    signature: string;
+    signed_at: Date;
+    entry_hash: string | null;
+  }>>`
+    SELECT c.${'chain_seq'}, c.${'hash'}, c.${'key_id'}, c.${'signature'}, c.${'signed_at'}, t.${'hash'} AS entry_hash
+    FROM ${'ledger_chain_checkpoints'} c
+    LEFT JOIN ${'transactions'} t ON t.${'chain_seq'} = c.${'chain_seq'}
+    ORDER BY c.${'chain_seq'}
+  `.run(txClient);
+
+  const invalid: LedgerVerification['checkpoints']['invalid'] = [];
+
+  for (const row of rows) {
+    const chainSeq = parseInt(row.chain_seq, 10);
+
+    const reason = row.entry_hash === null
+      ? 'Entry is missing'
+      : row.entry_hash !== row.hash
+        ? 'Entry does not match the signed hash'
+        : !key
+          ? undefined
+          : row.key_id !== key.keyId
+            ? 'Signed with an unknown key'
+            : !verify(null, signedMessage(chainSeq, row.hash), key.publicKey, Buffer.from(row.signature, 'base64'))
+              ? 'Signature does not verify'
+              : undefined;
+
+    if (reason && invalid.length < MAX_REPORTED_FINDINGS) {
+      invalid.push({ chain_seq: chainSeq, signed_at: row.signed_at.toISOString(), reason });
+    }
+  }
+
+  return { checked: rows.length, signatures_verified: key !== undefined, invalid };
+}
+
+/**
+ * Verifies the hash chain over the whole ledger, the recorded chain head
+ * and the signed checkpoints, in one snapshot and without changing anything.
+ * @returns The report; `ok` is false when any link or checkpoint does not verify
+ */
+export async function verifyLedgerChain(): Promise<LedgerVerification> {
+  const key = loadSigningKey();
+
+  return db.transaction(pool, db.IsolationLevel.RepeatableReadRO, async (txClient) => {
+    const [{ now }] = await db.sql<s.transactions.SQL, Array<{ now: Date }>>`SELECT NOW() AS now`.run(txClient);
+
+    const head = await db.selectOne(
+      'ledger_chain_head',
+      { id: true },
+      { columns: ['chain_seq', 'hash', 'transaction_id'] }
+    ).run(txClient);
+
+    const { entries, last, brokenLink } = await walkChain(txClient);
+    const checkpoints = await checkCheckpoints(txClient, key);
+
+    let link = brokenLink;
+
+    if (!link && last && !head) {
+      link = { chain_seq: last.chainSeq, transaction_id: last.transactionId, reason: 'Chain head is missing' };
+    } else if (!link && head && (head.chain_seq !== last?.chainSeq || head.hash !== last.hash)) {
+      link = { chain_seq: head.chain_seq, transaction_id: head.transaction_id, reason: 'Chain head does not match the last entry' };
+    }
+
+    return {
+      ok: link === null && checkpoints.invalid.length === 0,
+      checked_at: now.toISOString(),
+      entries,
+      head: head ?? null,
+      broken_link: link,
+      checkpoints,
+    };
+  });
+}
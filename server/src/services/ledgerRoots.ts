@@ -0,0 +1,125 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+import { merklePath, merkleRoot } from './merkle';
+import type { TransactionProof } from '../schemas/ledgerChain';
+
+// Entries one root covers at most, which bounds the work of building a proof
+export const MAX_ROOT_LEAVES = 4096;
+
+/**
+ * @returns The hashes of entries firstSeq..lastSeq, in chain order
+ */
+async function loadLeaves(queryable: db.Queryable, firstSeq: number, lastSeq: number): Promise<string[]> {
+  const rows = await db.sql<s.transactions.SQL, Array<{ hash: string }>>`
+    SELECT ${'hash'}
+    FROM ${'transactions'}
+    WHERE ${'chain_seq'} BETWEEN ${db.param(firstSeq)} AND ${db.param(lastSeq)}
+    ORDER BY ${'chain_seq'}
+  `.run(queryable);
+
+  return rows.map(row => row.hash);
+}
+
+/**
+ * Builds Merkle roots over the entries after the last root, up to the chain
+ * head, at most MAX_ROOT_LEAVES entries per root. Safe to run from several
+ * server instances at once: a range starting at a given entry is only
+ * stored once, and an instance that loses the race stops.
+ * @returns The number of roots created
+ * @throws {Error} 'Hash chain is missing entries.' if a range has a gap
+ */
+export async function buildLedgerRoots(): Promise<number> {
+  const head = await db.selectOne('ledger_chain_head', { id: true }, { columns: ['chain_seq'] }).run(pool);
+  let created = 0;
+
+  if (!head) {
+    return created;
+  }
+
+  for (;;) {
+    const [{ last_seq: lastRootSeq }] = await db.sql<s.ledger_roots.SQL, Array<{ last_seq: string | null }>>`
+      SELECT MAX(${'last_seq'}) AS ${'last_seq'} FROM ${'ledger_roots'}
+    `.run(pool);
+
+    const firstSeq = (lastRootSeq ? parseInt(lastRootSeq, 10) : 0) + 1;
+
+    if (firstSeq > head.chain_seq) {
+      return created;
+    }
+
+    const lastSeq = Math.min(head.chain_seq, firstSeq + MAX_ROOT_LEAVES - 1);
+    const leaves = await loadLeaves(pool, firstSeq, lastSeq);
+
+    if (leaves.length !== lastSeq - firstSeq + 1) {
+      throw new Error('Hash chain is missing entries.');
+    }
+
+    const inserted = await db.sql<s.ledger_roots.SQL, Array<{ id: string }>>`
+      INSERT INTO ${'ledger_roots'} (${'first_seq'}, ${'last_seq'}, ${'root'})
+      VALUES (${db.param(firstSeq)}, ${db.param(lastSeq)}, ${db.param(merkleRoot(leaves))})
+      ON CONFLICT DO NOTHING
+      RETURNING ${'id'}
+    `.run(pool);
+
+    if (inserted.length === 0) {
+      return created;
+    }
+
+    created++;
+  }
+}
+
+/**
+ * Proves that a transaction is part of the ledger: the entry as it was
+ * hashed, with the previous entry's hash, and the path from its hash to the
+ * root of the range it falls in. Clients check it with verifyInclusionProof
+ * (services/merkle.ts) against a published root.
+ * @returns The proof
+ * @throws {Error} 'Transaction not found.'
+ * @throws {Error} 'Transaction is not covered by a ledger root yet.'
+ */
+export async function getTransactionProof(transactionId: string): Promise<TransactionProof> {
+  return db.transaction(pool, db.IsolationLevel.RepeatableReadRO, async (txClient) => {
+    const [transaction] = await db.sql<s.transactions.SQL, Array<{
+      id: string;
+      chain_seq: string;
+      prev_hash: string;
+      hash: string;
+      entry: string;
+    }>>`
+      SELECT t.${'id'}, t.${'chain_seq'}, t.${'prev_hash'}, t.${'hash'}, public.ledger_entry_preimage(t) AS entry
+      FROM ${'transactions'} t
+      WHERE t.${'id'} = ${db.param(transactionId)}
+    `.run(txClient);
+
+    if (!transaction) {
+      throw new Error('Transaction not found.');
+    }
+
+    const chainSeq = parseInt(transaction.chain_seq, 10);
+
+    const root = await db.selectOne('ledger_roots', {
+      first_seq: db.sql`${db.self} <= ${db.param(chainSeq)}`,
+      last_seq: db.sql`${db.self} >= ${db.param(chainSeq)}`,
+    }).run(txClient);
+
+    if (!root) {
+      throw new Error('Transaction is not covered by a ledger root yet.');
+    }
+
+    const leaves = await loadLeaves(txClient, root.first_seq, root.last_seq);
+    const leafIndex = chainSeq - root.first_seq;
+
+    return {
+      transaction_id: transaction.id,
+      chain_seq: chainSeq,
+      leaf_index: leafIndex,
+      prev_hash: transaction.prev_hash,
+      entry: transaction.entry,
+      leaf: transaction.hash,
+      root,
+      path: merklePath(leaves, leafIndex),
+    };
+  });
+}
@@ -0,0 +1,207 @@
+import { createHash } from 'crypto';
+
+/**
+ * Merkle trees over ledger entry hashes, and verification of inclusion
+ * proofs. This module depends on nothing but node:crypto so that clients can
+ * copy it and check a proof from GET /transactions/:id/proof offline.
+ *
+ * An entry's hash is SHA-256(prev_hash || entry), where entry is the JSON
+ * array of LEDGER_ENTRY_FIELDS as the database renders it
+ * (public.ledger_entry_preimage), its postings last. Proofs carry that text
+ * as it was hashed, since re-serializing parsed JSON would not reproduce it.
+ *
+ * Layout: a leaf node is SHA-256(0x00 || entry hash), an inner node
+ * SHA-256(0x01 || left || right). An odd node at the end of a level moves up
+ * unchanged, so its path has no step for that level. The prefixes keep a
+ * leaf from being passed off as an inner node. Hashes are lowercase hex.
+ */
+
+export interface MerkleProofStep {
+  side: 'left' | 'right';
+  hash: string;
+}
+
+// The parts of an inclusion proof that verification needs
+export interface InclusionProof {
+  transaction_id: string;
+  chain_seq: number;
+  prev_hash: string;
+  entry: string;
+  leaf: string;
+  path: MerkleProofStep[];
+  root: { root: string };
+}
+
+// The values of a ledger entry's preimage, in order
+export const LEDGER_ENTRY_FIELDS = [
+  'chain_seq',
+  'id',
+  'idempotency_key',
+  'type',
+  'source_user_id',
+  'source_account_id',
+  'destination_user_id',
+  'destination_account_id',
+  'amount',
+  'currency',
+  'created_at',
+  'reverses_transaction_id',
+  'batch_id',
+  'batch_leg_index',
+  'description',
+  'external_reference',
+  'metadata',
+  'postings',
+] as const;
+
+// One side of an entry: a positive amount credits the account, a negative one debits it
+export interface LedgerPosting {
+  account_id: string;
+  amount: number;
+  currency: string;
+}
+
+export type LedgerEntry = Record<Exclude<(typeof LEDGER_ENTRY_FIELDS)[number], 'postings'>, unknown> & {
+  postings: LedgerPosting[];
+};
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+const sha256 = (...parts: Buffer[]) => createHash('sha256').update(Buffer.concat(parts)).digest();
+
+/**
+ * @returns The hash of a ledger entry, as public.ledger_entry_hash computes it
+ */
+export const ledgerEntryHash = (prevHash: string, entry: string): string =>
+  createHash('sha256').update(prevHash + entry, 'utf8').digest('hex');
+
+const isPosting = (value: unknown): value is [string, number, string] => Array.isArray(value)
+  && value.length === 3
+  && typeof value[0] === 'string'
+  && Number.isSafeInteger(value[1])
+  && typeof value[2] === 'string';
+
+/**
+ * @returns The values of an entry's preimage by name, e.g. to check a proof's amount, parties and the accounts it moved money between
+ * @throws {Error} 'Invalid ledger entry.'
+ */
+export function parseLedgerEntry(entry: string): LedgerEntry {
+  const values: unknown = JSON.parse(entry);
+
+  if (!Array.isArray(values) || values.length !== LEDGER_ENTRY_FIELDS.length) {
+    throw new Error('Invalid ledger entry.');
+  }
+
+  const postings: unknown = values[values.length - 1];
+
+  if (!Array.isArray(postings) || !postings.every(isPosting)) {
+    throw new Error('Invalid ledger entry.');
+  }
+
+  return {
+    ...Object.fromEntries(LEDGER_ENTRY_FIELDS.map((field, i) => [field, values[i]])),
+    postings: postings.map(([accountId, amount, currency]) => ({ account_id: accountId, amount, currency })),
+  } as LedgerEntry;
+}
+
+export const hashLeaf = (entryHash: string): Buffer => sha256(LEAF_PREFIX, Buffer.from(entryHash, 'hex'));
+
+export const hashNode = (left: Buffer, right: Buffer): Buffer => sha256(NODE_PREFIX, left, right);
+
+function nextLevel(level: Buffer[]): Buffer[] {
+  const next: Buffer[] = [];
+
+  for (let i = 0; i < level.length; i += 2) {
+    next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+  }
+
+  return next;
+}
+
+/**
+ * @returns The root over `leaves`, entry hashes in chain order
+ * @throws {Error} 'A Merkle tree needs at least one leaf.'
+ */
+export function merkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) {
+    throw new Error('A Merkle tree needs at least one leaf.');
+  }
+
+  let level = leaves.map(hashLeaf);
+
+  while (level.length > 1) {
+    level = nextLevel(level);
+  }
+
+  return level[0].toString('hex');
+}
+
+/**
+ * @returns The sibling hashes from the leaf at `index` up to the root
+ */
+export function merklePath(leaves: string[], index: number): MerkleProofStep[] {
+  const path: MerkleProofStep[] = [];
+  let level = leaves.map(hashLeaf);
+  let position = index;
+
+  while (level.length > 1) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+
+    if (sibling < level.length) {
+      path.push({ side: sibling < position ? 'left' : 'right', hash: level[sibling].toString('hex') });
+    }
+
+    level = nextLevel(level);
+    position = Math.floor(position / 2);
+  }
+
+  return path;
+}
+
+/**
+ * @returns The root a path leads to from a leaf (an entry hash)
+ */
+export function rootFromPath(leaf: string, path: MerkleProofStep[]): string {
+  return path.reduce(
+    (node, step) => step.side === 'left'
+      ? hashNode(Buffer.from(step.hash, 'hex'), node)
+      : hashNode(node, Buffer.from(step.hash, 'hex')),
+    hashLeaf(leaf)
+  ).toString('hex');
+}
+
+/**
+ * Checks that a proof's entry is the transaction it claims to prove, that
+ * its postings are a balanced journal entry in its currency, that the entry
+ * (postings included) hashes to its leaf, that the path leads from the leaf
+ * to its root and, if given, that the root is the one published. Only a root
+ * obtained independently of the proof (e.g. a published one) makes the
+ * check meaningful.
+ */
+export function verifyInclusionProof(proof: InclusionProof, publishedRoot?: string): boolean {
+  let entry: LedgerEntry;
+
+  try {
+    entry = parseLedgerEntry(proof.entry);
+  } catch {
+    return false;
+  }
+
+  if (entry.id !== proof.transaction_id || entry.chain_seq !== proof.chain_seq) {
+    return false;
+  }
+
+  if (
+    entry.postings.length < 2
+    || entry.postings.some(posting => posting.currency !== entry.currency)
+    || entry.postings.reduce((sum, posting) => sum + posting.amount, 0) !== 0
+  ) {
+    return false;
+  }
+
+  const leaf = ledgerEntryHash(proof.prev_hash, proof.entry);
+  const root = rootFromPath(leaf, proof.path);
+
+  return leaf === proof.leaf && root === proof.root.root && (publishedRoot === undefined || root === publishedRoot);
+}
@@ -0,0 +1,79 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+/**
+ * Password hashing with scrypt. A hash is stored as
+ * 'scrypt$<cost>$<block size>$<parallelization>$<salt>$<key>' (salt and key
+ * base64), so changing PASSWORD_HASH_COST only affects new hashes; existing
+ * ones are replaced on the next successful login (see needsRehash).
+ *
+ * Passwords stored before hashing was enabled carry the 'plain$' prefix
+ * (migration 20261020080000000) and are still accepted until then.
+ */
+
+// log2 of the scrypt CPU/memory cost N: 2^15 takes 32 MiB and ~100ms
+const DEFAULT_COST = 15;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+
+const SCRYPT_PREFIX = 'scrypt$';
+const PLAIN_PREFIX = 'plain$';
+
+function currentCost(): number {
+  const cost = Number(process.env.PASSWORD_HASH_COST);
+  return Number.isInteger(cost) && cost >= 1 && cost <= 20 ? cost : DEFAULT_COST;
+}
+
+function deriveKey(password: string, salt: Buffer, cost: number, blockSize: number, parallelization: number, keyLength: number): Promise<Buffer> {
+  const N = 2 ** cost;
+
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { N, r: blockSize, p: parallelization, maxmem: 256 * N * blockSize }, (error, key) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(key);
+      }
+    });
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const cost = currentCost();
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, cost, BLOCK_SIZE, PARALLELIZATION, KEY_BYTES);
+
+  return [SCRYPT_PREFIX + cost, BLOCK_SIZE, PARALLELIZATION, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Compares in constant time. Stored values in an unknown format never match.
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  if (storedHash.startsWith(PLAIN_PREFIX)) {
+    const stored = Buffer.from(storedHash.slice(PLAIN_PREFIX.length));
+    const given = Buffer.from(password);
+    return stored.length === given.length && timingSafeEqual(stored, given);
+  }
+
+  const parts = storedHash.split('$');
+
+  if (parts.length !== 6 || parts[0] !== 'scrypt') {
+    return false;
+  }
+
+  const [, cost, blockSize, parallelization, salt, key] = parts;
+  const expected = Buffer.from(key, 'base64');
+  const derived = await deriveKey(password, Buffer.from(salt, 'base64'), Number(cost), Number(blockSize), Number(parallelization), expected.length);
+
+  return timingSafeEqual(derived, expected);
+}
+
+/**
+ * Whether a stored value should be replaced by a fresh hash: a raw password,
+ * or a hash made with other parameters than the current ones.
+ */
+export function needsRehash(storedHash: string): boolean {
+  return !storedHash.startsWith(`${SCRYPT_PREFIX}${currentCost()}$${BLOCK_SIZE}$${PARALLELIZATION}$`);
+}
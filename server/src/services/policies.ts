@@ -0,0 +1,242 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+import type { AuthenticatedUser } from './auth';
+import { recordAuditEvent } from './audit';
+import { hasPermission } from './roles';
+
+/**
+ * Ownership policies. A caller may only debit (pay from, withdraw from,
+ * place or settle holds on, reverse into) accounts they own or that their
+ * owner delegated to them. A user's balances and history can be read by
+ * the user and by holders of the accounts:read permission; an account's
+ * also by its delegates. Refused requests are written to the audit log.
+ *
+ * The checks only refuse resources that exist: an account, transaction or
+ * hold that does not exist is left to the operation, which reports it as
+ * not found.
+ */
+
+// What a policy is checked for: the authenticated request
+export interface PolicyContext {
+  user?: AuthenticatedUser;
+  ip?: string;
+}
+
+export interface PolicyResource {
+  type: 'account' | 'api_key' | 'endpoint' | 'hold' | 'scheduled_transfer' | 'transaction' | 'user';
+  id: string;
+}
+
+/**
+ * System accounts have no owner (user_id is NULL) and no delegates, so no
+ * user owns them
+ * @returns Whether a user owns or was delegated an account; true if there is no such account
+ */
+async function isOwnerOrDelegate(userId: string, accountId: string): Promise<boolean> {
+  const [account] = await db.sql<s.accounts.SQL | s.account_delegations.SQL, Array<{ allowed: boolean }>>`
+    SELECT COALESCE(${'user_id'} = ${db.param(userId)}, false) OR EXISTS (
+      SELECT 1 FROM ${'account_delegations'}
+      WHERE ${'account_id'} = ${'accounts'}.${'id'} AND ${'delegate_user_id'} = ${db.param(userId)}
+    ) AS allowed
+    FROM ${'accounts'}
+    WHERE ${'id'} = ${db.param(accountId)}
+  `.run(pool);
+
+  return account ? account.allowed : true;
+}
+
+/**
+ * @returns Whether a user may debit an account: they own it, or its owner delegated it to them
+ */
+export async function canDebitAccount(userId: string, accountId: string): Promise<boolean> {
+  return isOwnerOrDelegate(userId, accountId);
+}
+
+/**
+ * User-level endpoints debit the user's default account in a currency
+ * @returns Whether a user may debit another user's default account in a currency
+ */
+export async function canDebitUser(userId: string, ownerId: string, currency: string): Promise<boolean> {
+  if (userId === ownerId) {
+    return true;
+  }
+
+  const [delegation] = await db.sql<s.accounts.SQL | s.account_delegations.SQL, Array<{ account_id: string }>>`
+    SELECT ${'account_id'}
+    FROM ${'account_delegations'}
+    JOIN ${'accounts'} ON ${'accounts'}.${'id'} = ${'account_id'}
+    WHERE ${'accounts'}.${'user_id'} = ${db.param(ownerId)}
+      AND ${'accounts'}.${'currency'} = ${db.param(currency)}
+      AND ${'accounts'}.${'is_default'}
+      AND ${'delegate_user_id'} = ${db.param(userId)}
+  `.run(pool);
+
+  return delegation !== undefined;
+}
+
+/**
+ * Reversing a transfer debits the account it credited, so its recipient may
+ * reverse it. Reversing a deposit or a withdrawal moves money across the
+ * ledger's boundary (a withdrawal's reversal is credited from
+ * equity:deposits), so only holders of transactions:reverse may reverse
+ * those, as they may any transaction
+ * @returns Whether a user may reverse a transaction
+ */
+export async function canReverseTransaction(userId: string, transactionId: string): Promise<boolean> {
+  const transaction = await db.selectOne(
+    'transactions',
+    { id: transactionId },
+    { columns: ['type', 'destination_account_id'] }
+  ).run(pool);
+
+  if (!transaction || await hasPermission(userId, 'transactions:reverse')) {
+    return true;
+  }
+
+  if (transaction.type === 'deposit' || transaction.type === 'withdrawal') {
+    return false;
+  }
+
+  // Other types than transfers cannot be reversed, which the reversal reports
+  return transaction.type !== 'transfer'
+    || (transaction.destination_account_id !== null && canDebitAccount(userId, transaction.destination_account_id));
+}
+
+/**
+ * Capturing a hold debits its source account, and voiding it gives up the reservation
+ * @returns Whether a user may capture or void a hold
+ */
+export async function canSettleHold(userId: string, holdId: string): Promise<boolean> {
+  const hold = await db.selectOne('holds', { id: holdId }, { columns: ['source_account_id'] }).run(pool);
+
+  return hold ? canDebitAccount(userId, hold.source_account_id) : true;
+}
+
+/**
+ * A schedule debits its source user's default account in its currency
+ * whenever it runs
+ * @returns Whether a user may change or cancel a user's scheduled transfer
+ */
+export async function canManageScheduledTransfer(userId: string, ownerId: string, scheduleId: string): Promise<boolean> {
+  const schedule = await db.selectOne(
+    'scheduled_transfers',
+    { id: scheduleId, source_user_id: ownerId },
+    { columns: ['currency'] }
+  ).run(pool);
+
+  return schedule ? canDebitUser(userId, ownerId, schedule.currency) : true;
+}
+
+/**
+ * @returns Whether a user may change who an account is delegated to: only its owner can
+ */
+export async function canManageAccount(userId: string, accountId: string): Promise<boolean> {
+  const account = await db.selectOne('accounts', { id: accountId }, { columns: ['user_id'] }).run(pool);
+
+  return account ? account.user_id === userId : true;
+}
+
+/**
+ * Only administrators (roles:manage, which lets them grant themselves
+ * anything) may open accounts for other users
+ * @returns Whether a user may open an account for a user
+ */
+export async function canOpenAccount(userId: string, ownerId: string): Promise<boolean> {
+  if (userId === ownerId) {
+    return true;
+  }
+
+  const owner = await db.selectOne('users', { id: ownerId }, { columns: ['id'] }).run(pool);
+
+  return !owner || hasPermission(userId, 'roles:manage');
+}
+
+/**
+ * @returns Whether a user may create, list and revoke another user's API keys: only their own
+ */
+export async function canManageApiKeys(userId: string, ownerId: string): Promise<boolean> {
+  return userId === ownerId;
+}
+
+/**
+ * @returns Whether a user may read another user's balances, history, accounts and schedules
+ */
+export async function canReadUser(userId: string, ownerId: string): Promise<boolean> {
+  return userId === ownerId || hasPermission(userId, 'accounts:read');
+}
+
+/**
+ * @returns Whether a user may read an account's balance: they own it, were delegated it, or hold accounts:read
+ */
+export async function canReadAccount(userId: string, accountId: string): Promise<boolean> {
+  return (await isOwnerOrDelegate(userId, accountId)) || hasPermission(userId, 'accounts:read');
+}
+
+/**
+ * @returns Whether a user may read a hold: they own or were delegated one of its accounts, or hold accounts:read
+ */
+export async function canReadHold(userId: string, holdId: string): Promise<boolean> {
+  const hold = await db.selectOne(
+    'holds',
+    { id: holdId },
+    { columns: ['source_account_id', 'destination_account_id'] }
+  ).run(pool);
+
+  if (!hold) {
+    return true;
+  }
+
+  return (await isOwnerOrDelegate(userId, hold.source_account_id))
+    || (await isOwnerOrDelegate(userId, hold.destination_account_id))
+    || hasPermission(userId, 'accounts:read');
+}
+
+/**
+ * A transaction's parties are the users it names and, for split payments,
+ * the owners of the accounts it posts to
+ * @returns Whether a user may read a transaction: they are one of its parties, or hold accounts:read
+ */
+export async function canReadTransaction(userId: string, transactionId: string): Promise<boolean> {
+  const [transaction] = await db.sql<s.transactions.SQL | s.postings.SQL | s.accounts.SQL, Array<{ is_party: boolean }>>`
+    SELECT ${db.param(userId)} IN (${'source_user_id'}, ${'destination_user_id'}) OR EXISTS (
+      SELECT 1
+      FROM ${'postings'}
+      JOIN ${'accounts'} ON ${'accounts'}.${'id'} = ${'postings'}.${'account_id'}
+      WHERE ${'postings'}.${'transaction_id'} = ${'transactions'}.${'id'}
+        AND ${'accounts'}.${'user_id'} = ${db.param(userId)}
+    ) AS is_party
+    FROM ${'transactions'}
+    WHERE ${'transactions'}.${'id'} = ${db.param(transactionId)}
+  `.run(pool);
+
+  return !transaction || transaction.is_party || hasPermission(userId, 'accounts:read');
+}
+
+/**
+ * Lets a request through if a policy allowed it; otherwise records the
+ * refusal in the audit log
+ * @throws {Error} 'Forbidden.' if the policy refused it
+ */
+export async function enforcePolicy(
+  context: PolicyContext,
+  action: string,
+  resource: PolicyResource,
+  allowed: boolean | Promise<boolean>
+): Promise<void> {
+  if (await allowed) {
+    return;
+  }
+
+  await recordAuditEvent({
+    actorUserId: context.user?.id,
+    action,
+    resourceType: resource.type,
+    resourceId: resource.id,
+    outcome: 'denied',
+    ipAddress: context.ip,
+    details: context.user?.apiKey ? { api_key_id: context.user.apiKey.id } : undefined,
+  });
+
+  throw new Error('Forbidden.');
+}
@@ -0,0 +1,174 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+import { findCheckpointMismatches } from './balanceCheckpoints';
+import { MAX_REPORTED_FINDINGS, type ReconciliationReport } from '../schemas/reconciliation';
+
+type Checks = ReconciliationReport['checks'];
+
+/**
+ * Compares the customer balances in each currency with the money that
+ * entered and left the system. Both sides are read independently: balances
+ * from the postings on customer accounts, flows from the transaction rows
+ * with a customer on one side only.
+ */
+async function checkCustomerBalances(txClient: db.TxnClientForRepeatableReadRO): Promise<Checks['customer_balances']> {
+  const rows = await db.sql<s.postings.SQL | s.transactions.SQL, Array<{
+    currency: string;
+    customer_balances: string;
+    inflows: string;
+    outflows: string;
+  }>>`
+    WITH balances AS (
+      SELECT p.${'currency'}, SUM(p.${'amount'}) AS customer_balances
+      FROM ${'postings'} p
+      JOIN public.accounts a ON a.id = p.${'account_id'} AND a.kind <> 'system'
+      GROUP BY p.${'currency'}
+    ),
+    flows AS (
+      SELECT
+        ${'currency'},
+        SUM(${'amount'}) FILTER (WHERE ${'source_account_id'} IS NULL AND ${'destination_account_id'} IS NOT NULL) AS inflows,
+        SUM(${'amount'}) FILTER (WHERE ${'destination_account_id'} IS NULL AND ${'source_account_id'} IS NOT NULL) AS outflows
+      FROM ${'transactions'}
+      GROUP BY ${'currency'}
+    )
+    SELECT
+      COALESCE(b.currency, f.currency) AS currency,
+      COALESCE(b.customer_balances, 0) AS customer_balances,
+      COALESCE(f.inflows, 0) AS inflows,
+      COALESCE(f.outflows, 0) AS outflows
+    FROM balances b
+    FULL JOIN flows f ON f.currency = b.currency
+    ORDER BY 1
+  `.run(txClient);
+
+  const currencies = rows.map(row => {
+    const customerBalances = parseInt(row.customer_balances, 10);
+    const inflows = parseInt(row.inflows, 10);
+    const outflows = parseInt(row.outflows, 10);
+
+    return {
+      currency: row.currency,
+      customer_balances: customerBalances,
+      inflows,
+      outflows,
+      difference: customerBalances - (inflows - outflows),
+    };
+  });
+
+  return { ok: currencies.every(currency => currency.difference === 0), currencies };
+}
+
+/**
+ * Finds customer accounts whose balance was below zero after any instant of
+ * their history. Postings made in the same instant are netted first, so the
+ * order of the legs of one entry never shows a dip that did not happen.
+ */
+async function checkNegativeBalances(txClient: db.TxnClientForRepeatableReadRO): Promise<Checks['negative_balances']> {
+  const rows = await db.sql<s.postings.SQL, Array<{
+    account_id: string;
+    user_id: string;
+    currency: string;
+    at: Date;
+    balance: string;
+  }>>`
+    SELECT DISTINCT ON (h.account_id) h.account_id, h.user_id, h.currency, h.created_at AS at, h.balance
+    FROM (
+      SELECT
+        p.${'account_id'},
+        a.user_id,
+        a.currency,
+        p.${'created_at'},
+        SUM(SUM(p.${'amount'})) OVER (PARTITION BY p.${'account_id'} ORDER BY p.${'created_at'}) AS balance
+      FROM ${'postings'} p
+      JOIN public.accounts a ON a.id = p.${'account_id'} AND a.kind <> 'system'
+      GROUP BY p.${'account_id'}, a.user_id, a.currency, p.${'created_at'}
+    ) h
+    WHERE h.balance < 0
+    ORDER BY h.account_id, h.created_at
+    LIMIT ${db.param(MAX_REPORTED_FINDINGS)}
+  `.run(txClient);
+
+  return {
+    ok: rows.length === 0,
+    accounts: rows.map(row => ({
+      account_id: row.account_id,
+      user_id: row.user_id,
+      currency: row.currency,
+      at: row.at.toISOString(),
+      balance: parseInt(row.balance, 10),
+    })),
+  };
+}
+
+/**
+ * Finds failed transaction rows that cannot be traced back: their users,
+ * accounts, currency or schedule are missing, or do not belong together.
+ * Columns are checked by join, not trusted to their foreign keys.
+ */
+async function checkFailedTransactions(txClient: db.TxnClientForRepeatableReadRO): Promise<Checks['failed_transactions']> {
+  const rows = await db.sql<s.users.SQL, Array<{ id: string; idempotency_key: string; reasons: string[] }>>`
+    SELECT id, idempotency_key, reasons
+    FROM (
+      SELECT f.id, f.idempotency_key, array_remove(ARRAY[
+        CASE WHEN f.source_user_id IS NOT NULL AND su.id IS NULL THEN 'source_user_id does not exist' END,
+        CASE WHEN f.destination_user_id IS NOT NULL AND du.id IS NULL THEN 'destination_user_id does not exist' END,
+        CASE WHEN f.source_account_id IS NOT NULL AND sa.id IS NULL THEN 'source_account_id does not exist' END,
+        CASE WHEN f.destination_account_id IS NOT NULL AND da.id IS NULL THEN 'destination_account_id does not exist' END,
+        CASE WHEN f.source_user_id IS NOT NULL AND sa.user_id IS DISTINCT FROM f.source_user_id AND sa.id IS NOT NULL
+          THEN 'source_account_id does not belong to source_user_id' END,
+        CASE WHEN f.destination_user_id IS NOT NULL AND da.user_id IS DISTINCT FROM f.destination_user_id AND da.id IS NOT NULL
+          THEN 'destination_account_id does not belong to destination_user_id' END,
+        CASE WHEN f.currency IS NOT NULL AND c.code IS NULL THEN 'currency is not supported' END,
+        CASE WHEN f.scheduled_transfer_id IS NOT NULL AND st.id IS NULL THEN 'scheduled_transfer_id does not exist' END,
+        CASE WHEN st.id IS NOT NULL AND (st.source_user_id, st.destination_user_id) IS DISTINCT FROM (f.source_user_id, f.destination_user_id)
+          THEN 'users do not match the scheduled transfer' END
+      ], NULL) AS reasons, f.failed_at
+      FROM private.failed_transactions f
+      LEFT JOIN public.users su ON su.id = f.source_user_id
+      LEFT JOIN public.users du ON du.id = f.destination_user_id
+      LEFT JOIN public.accounts sa ON sa.id = f.source_account_id
+      LEFT JOIN public.accounts da ON da.id = f.destination_account_id
+      LEFT JOIN public.currencies c ON c.code = f.currency
+      LEFT JOIN public.scheduled_transfers st ON st.id = f.scheduled_transfer_id
+    ) checked
+    WHERE cardinality(reasons) > 0
+    ORDER BY failed_at, id
+    LIMIT ${db.param(MAX_REPORTED_FINDINGS)}
+  `.run(txClient);
+
+  return { ok: rows.length === 0, orphaned: rows };
+}
+
+/**
+ * Checks the ledger's invariants: customer balances add up to the money
+ * that entered minus the money that left, no customer balance was ever
+ * negative, every balance checkpoint matches the ledger, and every failed
+ * transaction row can be traced back. All checks read one snapshot and
+ * change nothing.
+ * @returns The report; `ok` is false when any check found drift
+ */
+export async function runReconciliation(): Promise<ReconciliationReport> {
+  return db.transaction(pool, db.IsolationLevel.RepeatableReadRO, async (txClient) => {
+    const [{ now }] = await db.sql<s.transactions.SQL, Array<{ now: Date }>>`SELECT NOW() AS now`.run(txClient);
+
+    const customerBalances = await checkCustomerBalances(txClient);
+    const negativeBalances = await checkNegativeBalances(txClient);
+    const checkpoints = await findCheckpointMismatches(txClient);
+    const failedTransactions = await checkFailedTransactions(txClient);
+
+    const checks: Checks = {
+      customer_balances: customerBalances,
+      negative_balances: negativeBalances,
+      checkpoints: { ok: checkpoints.mismatches.length === 0, ...checkpoints },
+      failed_transactions: failedTransactions,
+    };
+
+    return {
+      ok: Object.values(checks).every(check => check.ok),
+      checked_at: now.toISOString(),
+      checks,
+    };
+  });
+}
@@ -0,0 +1,184 @@
+/**
+ * A parsed recurrence rule: the subset of RFC 5545 RRULE that scheduled
+ * transfers support. All dates are evaluated in UTC.
+ *
+ *   FREQ=DAILY|WEEKLY|MONTHLY|YEARLY   required
+ *   INTERVAL=n                          every n periods (default 1)
+ *   BYMONTHDAY=d                        MONTHLY only; 1..31, or -1 for the last day
+ *   COUNT=n                             at most n occurrences
+ *   UNTIL=YYYYMMDD[THHMMSSZ]            no occurrence after this instant
+ *
+ * e.g. 'FREQ=MONTHLY;BYMONTHDAY=1' pays rent on the 1st of every month.
+ */
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  byMonthDay?: number;
+  count?: number;
+  until?: Date;
+}
+
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parsePositiveInteger(value: string): number | undefined {
+  return /^[1-9]\d{0,5}$/.test(value) ? parseInt(value, 10) : undefined;
+}
+
+function parseUntil(value: string): Date | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59'] = match;
+  const until = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+
+  // Reject dates that rolled over, such as 20260230
+  return until.getUTCDate() === +day ? until : undefined;
+}
+
+/**
+ * Parses an RRULE string (with or without the 'RRULE:' prefix)
+ * @returns The parsed rule
+ * @throws {Error} 'Invalid recurrence rule.' if the rule is malformed or uses unsupported parts
+ */
+export function parseRecurrence(value: string): RecurrenceRule {
+  const invalid = () => new Error('Invalid recurrence rule.');
+  const parts = new Map<string, string>();
+
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    const [key, partValue, ...rest] = part.split('=');
+
+    if (!key || partValue === undefined || rest.length > 0 || parts.has(key.toUpperCase())) {
+      throw invalid();
+    }
+
+    parts.set(key.toUpperCase(), partValue.toUpperCase());
+  }
+
+  const freq = FREQUENCIES.find(f => f === parts.get('FREQ'));
+
+  if (!freq) {
+    throw invalid();
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, partValue] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = parsePositiveInteger(partValue);
+        if (interval === undefined) throw invalid();
+        rule.interval = interval;
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const day = partValue === '-1' ? -1 : parsePositiveInteger(partValue);
+        if (freq !== 'MONTHLY' || day === undefined || day > 31) throw invalid();
+        rule.byMonthDay = day;
+        break;
+      }
+      case 'COUNT': {
+        const count = parsePositiveInteger(partValue);
+        if (count === undefined) throw invalid();
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseUntil(partValue);
+        if (!until) throw invalid();
+        rule.until = until;
+        break;
+      }
+      default:
+        throw invalid();
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    // RFC 5545: COUNT and UNTIL must not occur in the same rule
+    throw invalid();
+  }
+
+  return rule;
+}
+
+/**
+ * Checks whether a string is a supported RRULE
+ */
+export function isValidRecurrence(value: string): boolean {
+  try {
+    parseRecurrence(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Date in a given month keeping the time of day of `reference`, with the
+ * day clamped to the month's length (the 31st becomes the 30th in April).
+ */
+function dateInMonth(reference: Date, monthsFromEpoch: number, day: number): Date {
+  const year = Math.floor(monthsFromEpoch / 12);
+  const month = monthsFromEpoch % 12;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const clampedDay = day === -1 ? daysInMonth : Math.min(day, daysInMonth);
+
+  return new Date(Date.UTC(
+    year,
+    month,
+    clampedDay,
+    reference.getUTCHours(),
+    reference.getUTCMinutes(),
+    reference.getUTCSeconds(),
+    reference.getUTCMilliseconds()
+  ));
+}
+
+/**
+ * Computes the n-th occurrence (zero-based) of a rule starting at `startAt`.
+ * Occurrences are derived from the start rather than from the previous
+ * occurrence, so clamping to a short month never shifts later occurrences.
+ * @returns The occurrence, or null once the rule's COUNT or UNTIL is exhausted
+ */
+export function getOccurrence(rule: RecurrenceRule, startAt: Date, index: number): Date | null {
+  if (rule.count !== undefined && index >= rule.count) {
+    return null;
+  }
+
+  let occurrence: Date;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      occurrence = new Date(startAt.getTime() + index * rule.interval * DAY_MS);
+      break;
+    case 'WEEKLY':
+      occurrence = new Date(startAt.getTime() + index * rule.interval * 7 * DAY_MS);
+      break;
+    case 'MONTHLY': {
+      const startMonth = startAt.getUTCFullYear() * 12 + startAt.getUTCMonth();
+      const day = rule.byMonthDay ?? startAt.getUTCDate();
+      // The first occurrence is the first matching day on or after the start
+      const offset = dateInMonth(startAt, startMonth, day) < startAt ? 1 : 0;
+      occurrence = dateInMonth(startAt, startMonth + (index + offset) * rule.interval, day);
+      break;
+    }
+    case 'YEARLY': {
+      const startMonth = startAt.getUTCFullYear() * 12 + startAt.getUTCMonth();
+      occurrence = dateInMonth(startAt, startMonth + index * rule.interval * 12, startAt.getUTCDate());
+      break;
+    }
+  }
+
+  if (rule.until !== undefined && occurrence > rule.until) {
+    return null;
+  }
+
+  return occurrence;
+}
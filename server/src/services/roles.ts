@@ -0,0 +1,112 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+
+/**
+ * Permissions the application checks. Roles and what they grant live in
+ * the database (roles, role_permissions); the permissions themselves are
+ * seeded by migrations.
+ */
+export type Permission =
+  | 'accounts:read'
+  | 'deposits:issue'
+  | 'exchange_rates:write'
+  | 'ledger:audit'
+  | 'ledger:import'
+  | 'roles:manage'
+  | 'transactions:reverse';
+
+export type RoleWithPermissions = s.roles.JSONSelectable & { permissions: string[] };
+
+/**
+ * @returns Whether any of a user's roles grants a permission
+ */
+export async function hasPermission(userId: string, permission: Permission): Promise<boolean> {
+  const [grant] = await db.sql<s.user_roles.SQL | s.role_permissions.SQL, Array<{ role: string }>>`
+    SELECT ${'user_roles'}.${'role'}
+    FROM ${'user_roles'}
+    JOIN ${'role_permissions'} ON ${'role_permissions'}.${'role'} = ${'user_roles'}.${'role'}
+    WHERE ${'user_roles'}.${'user_id'} = ${db.param(userId)}
+      AND ${'role_permissions'}.${'permission'} = ${db.param(permission)}
+    LIMIT 1
+  `.run(pool);
+
+  return grant !== undefined;
+}
+
+/**
+ * @returns Every role with the permissions it grants, by name
+ */
+export async function listRoles(): Promise<RoleWithPermissions[]> {
+  const roles = await db.select('roles', db.all, {
+    order: { by: 'name', direction: 'ASC' },
+    lateral: {
+      permissions: db.select('role_permissions', { role: db.parent('name') }, {
+        columns: ['permission'],
+        order: { by: 'permission', direction: 'ASC' },
+      }),
+    },
+  }).run(pool);
+
+  return roles.map(role => ({
+    ...role,
+    permissions: role.permissions.map(grant => grant.permission),
+  }));
+}
+
+/**
+ * @returns The roles granted to a user, oldest first
+ * @throws {Error} 'User not found.'
+ */
+export async function listUserRoles(userId: string): Promise<s.user_roles.JSONSelectable[]> {
+  const user = await db.selectOne('users', { id: userId }, { columns: ['id'] }).run(pool);
+
+  if (!user) {
+    throw new Error('User not found.');
+  }
+
+  return db.select('user_roles', { user_id: userId }, { order: { by: 'created_at', direction: 'ASC' } }).run(pool);
+}
+
+/**
+ * Grants a role to a user. Granting a role the user already holds returns
+ * the existing grant.
+ * @param grantedBy - The user granting it, or null from the command line
+ * @returns The grant
+ * @throws {Error} 'User not found.' or 'Role not found.'
+ */
+export async function grantRole(userId: string, role: string, grantedBy: string | null): Promise<s.user_roles.JSONSelectable> {
+  const [user, existingRole] = await Promise.all([
+    db.selectOne('users', { id: userId }, { columns: ['id'] }).run(pool),
+    db.selectOne('roles', { name: role }).run(pool),
+  ]);
+
+  if (!user) {
+    throw new Error('User not found.');
+  }
+
+  if (!existingRole) {
+    throw new Error('Role not found.');
+  }
+
+  const [grant] = await db.sql<s.user_roles.SQL, s.user_roles.JSONSelectable[]>`
+    INSERT INTO ${'user_roles'} (${'user_id'}, ${'role'}, ${'granted_by'})
+    VALUES (${db.param(userId)}, ${db.param(role)}, ${db.param(grantedBy)})
+    ON CONFLICT (${'user_id'}, ${'role'}) DO NOTHING
+    RETURNING *
+  `.run(pool);
+
+  return grant ?? db.selectExactlyOne('user_roles', { user_id: userId, role }).run(pool);
+}
+
+/**
+ * Takes a role back from a user
+ * @throws {Error} 'Role grant not found.'
+ */
+export async function revokeRole(userId: string, role: string): Promise<void> {
+  const deleted = await db.deletes('user_roles', { user_id: userId, role }).run(pool);
+
+  if (deleted.length === 0) {
+    throw new Error('Role grant not found.');
+  }
+}
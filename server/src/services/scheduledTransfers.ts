@@ -0,0 +1,317 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+import { assertSupportedCurrency } from './currencies';
+import { canDebitUser } from './policies';
+import { getOccurrence, parseRecurrence } from './recurrence';
+import { executeTransaction, logFailedTransaction } from './transactions';
+
+// Schedules that can still run; completed and cancelled schedules are closed for good
+const OPEN_STATUSES = ['active', 'paused'];
+
+// Why the worker cancels a schedule whose creator lost the right to debit its source
+const CREATOR_NOT_ALLOWED_ERROR = 'Schedule creator may no longer debit the source user.';
+
+/**
+ * Computes when the occurrence at `index` of a schedule is due
+ * @returns The due date, or null if the schedule has no such occurrence
+ */
+function getNextRunAt(schedule: { recurrence: string | null; start_at: Date | string }, index: number): Date | null {
+  const startAt = new Date(schedule.start_at);
+
+  if (!schedule.recurrence) {
+    return index === 0 ? startAt : null;
+  }
+
+  return getOccurrence(parseRecurrence(schedule.recurrence), startAt, index);
+}
+
+/**
+ * Creates a scheduled transfer from a user's default account, on behalf of
+ * `createdByUserId` (the source user or a delegate of that account).
+ * Idempotent on idempotency_key: a repeated request returns the original
+ * schedule.
+ * @returns The created schedule
+ * @throws {Error} 'Unsupported currency.' or 'Recurrence has no occurrences.'
+ */
+export async function createScheduledTransfer(data: {
+  idempotencyKey: string;
+  sourceUserId: string;
+  destinationUserId: string;
+  createdByUserId: string;
+  amount: number;
+  currency: string;
+  startAt: Date;
+  recurrence?: string;
+  failurePolicy?: string;
+  maxRetries?: number;
+  retryDelaySeconds?: number;
+}): Promise<s.scheduled_transfers.JSONSelectable> {
+  const findExisting = () => db.selectOne('scheduled_transfers', { idempotency_key: data.idempotencyKey }).run(pool);
+
+  const existing = await findExisting();
+
+  if (existing) {
+    return existing;
+  }
+
+  await assertSupportedCurrency(data.currency);
+
+  const nextRunAt = getNextRunAt({ recurrence: data.recurrence ?? null, start_at: data.startAt }, 0);
+
+  if (!nextRunAt) {
+    throw new Error('Recurrence has no occurrences.');
+  }
+
+  try {
+    return await db.insert('scheduled_transfers', {
+      idempotency_key: data.idempotencyKey,
+      source_user_id: data.sourceUserId,
+      destination_user_id: data.destinationUserId,
+      created_by_user_id: data.createdByUserId,
+      amount: data.amount,
+      currency: data.currency,
+      recurrence: data.recurrence ?? null,
+      start_at: data.startAt,
+      next_run_at: nextRunAt,
+      failure_policy: data.failurePolicy ?? db.Default,
+      max_retries: data.maxRetries ?? db.Default,
+      retry_delay_seconds: data.retryDelaySeconds ?? db.Default,
+    }).run(pool);
+  } catch (error) {
+    // A concurrent request with the same key won the race
+    if (error instanceof Error && 'code' in error && error.code === '23505') {
+      const winner = await findExisting();
+      if (winner) return winner;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists the scheduled transfers a user pays from, oldest first
+ */
+export async function listScheduledTransfers(userId: string): Promise<s.scheduled_transfers.JSONSelectable[]> {
+  return db.select('scheduled_transfers', { source_user_id: userId }, {
+    order: { by: 'created_at', direction: 'ASC' },
+  }).run(pool);
+}
+
+/**
+ * Get one of a user's scheduled transfers
+ * @returns The schedule, or undefined if the user has no such schedule
+ */
+export async function getScheduledTransfer(userId: string, scheduleId: string): Promise<s.scheduled_transfers.JSONSelectable | undefined> {
+  return db.selectOne('scheduled_transfers', { id: scheduleId, source_user_id: userId }).run(pool);
+}
+
+/**
+ * Pauses or resumes a schedule, or changes its future occurrences. Resuming
+ * resets the retry budget; a pending occurrence that is already due runs on
+ * the worker's next pass.
+ * @returns The updated schedule
+ * @throws {Error} 'Scheduled transfer not found.' or 'Scheduled transfer is closed.'
+ */
+export async function updateScheduledTransfer(userId: string, scheduleId: string, changes: {
+  status?: 'active' | 'paused';
+  amount?: number;
+  failurePolicy?: string;
+  maxRetries?: number;
+  retryDelaySeconds?: number;
+}): Promise<s.scheduled_transfers.JSONSelectable> {
+  const updates: s.scheduled_transfers.Updatable = { updated_at: db.sql`NOW()` };
+
+  if (changes.status !== undefined) {
+    updates.status = changes.status;
+    if (changes.status === 'active') updates.retry_count = 0;
+  }
+  if (changes.amount !== undefined) updates.amount = changes.amount;
+  if (changes.failurePolicy !== undefined) updates.failure_policy = changes.failurePolicy;
+  if (changes.maxRetries !== undefined) updates.max_retries = changes.maxRetries;
+  if (changes.retryDelaySeconds !== undefined) updates.retry_delay_seconds = changes.retryDelaySeconds;
+
+  // Waits for the worker if it is running an occurrence of this schedule
+  const [updated] = await db.update(
+    'scheduled_transfers',
+    updates,
+    { id: scheduleId, source_user_id: userId, status: db.conditions.isIn(OPEN_STATUSES) }
+  ).run(pool);
+
+  if (updated) {
+    return updated;
+  }
+
+  const schedule = await getScheduledTransfer(userId, scheduleId);
+
+  if (!schedule) {
+    throw new Error('Scheduled transfer not found.');
+  }
+
+  throw new Error('Scheduled transfer is closed.');
+}
+
+/**
+ * Cancels a schedule so no further occurrence runs. The row is kept for the
+ * record; cancelling a cancelled schedule returns it unchanged.
+ * @returns The cancelled schedule
+ * @throws {Error} 'Scheduled transfer not found.' or 'Scheduled transfer is closed.' if it has completed
+ */
+export async function cancelScheduledTransfer(userId: string, scheduleId: string): Promise<s.scheduled_transfers.JSONSelectable> {
+  const [cancelled] = await db.update(
+    'scheduled_transfers',
+    { status: 'cancelled', next_run_at: null, updated_at: db.sql`NOW()` },
+    { id: scheduleId, source_user_id: userId, status: db.conditions.isIn(OPEN_STATUSES) }
+  ).run(pool);
+
+  if (cancelled) {
+    return cancelled;
+  }
+
+  const schedule = await getScheduledTransfer(userId, scheduleId);
+
+  if (!schedule) {
+    throw new Error('Scheduled transfer not found.');
+  }
+
+  if (schedule.status !== 'cancelled') {
+    throw new Error('Scheduled transfer is closed.');
+  }
+
+  return schedule;
+}
+
+/**
+ * Claims the oldest due schedule and runs its pending occurrence.
+ *
+ * The claim is a row lock taken with FOR NO KEY UPDATE SKIP LOCKED and held
+ * until the schedule has been advanced, so concurrent workers never pick the
+ * same schedule. (A plain FOR UPDATE would block the failure log, whose
+ * foreign key to the schedule takes a KEY SHARE lock from another connection.)
+ *
+ * The transfer itself runs through executeTransaction with an
+ * idempotency key derived from the schedule id and occurrence index: if the
+ * worker dies after the transfer but before the schedule update, the next
+ * claim finds the existing transfer instead of paying twice.
+ *
+ * Each run debits the source on behalf of the schedule's creator, so a
+ * schedule whose creator may no longer debit the source (a delegate whose
+ * delegation was removed) is cancelled instead of run, and the refusal
+ * logged as a failed transfer.
+ *
+ * @returns false if no schedule was due
+ */
+async function runNextDueScheduledTransfer(): Promise<boolean> {
+  return db.transaction(pool, db.IsolationLevel.ReadCommitted, async (txClient) => {
+    const schedule = await db.selectOne(
+      'scheduled_transfers',
+      { status: 'active', next_run_at: db.sql`${db.self} <= NOW()` },
+      {
+        order: { by: 'next_run_at', direction: 'ASC' },
+        lock: { for: 'NO KEY UPDATE', wait: 'SKIP LOCKED' },
+      }
+    ).run(txClient);
+
+    if (!schedule) {
+      return false;
+    }
+
+    const [{ idempotency_key: idempotencyKey }] = await db.sql<s.scheduled_transfers.SQL, Array<{ idempotency_key: string }>>`
+      SELECT uuid_generate_v5(${db.param(schedule.id)}::uuid, ${db.param(`occurrence:${schedule.occurrence_index}`)}) AS ${'idempotency_key'}
+    `.run(txClient);
+
+    if (!await canDebitUser(schedule.created_by_user_id, schedule.source_user_id, schedule.currency)) {
+      await logFailedTransaction({
+        idempotencyKey,
+        type: 'transfer',
+        sourceUserId: schedule.source_user_id,
+        destinationUserId: schedule.destination_user_id,
+        amount: schedule.amount,
+        currency: schedule.currency,
+        scheduledTransferId: schedule.id,
+        errorMessage: CREATOR_NOT_ALLOWED_ERROR,
+        retryCount: schedule.retry_count,
+      });
+
+      await db.update('scheduled_transfers', {
+        status: 'cancelled',
+        next_run_at: null,
+        last_run_at: db.sql`NOW()`,
+        last_error: CREATOR_NOT_ALLOWED_ERROR,
+        updated_at: db.sql`NOW()`,
+      }, { id: schedule.id }).run(txClient);
+
+      return true;
+    }
+
+    try {
+      const transaction = await executeTransaction({
+        idempotencyKey,
+        sourceUserId: schedule.source_user_id,
+        destinationUserId: schedule.destination_user_id,
+        amount: schedule.amount,
+        currency: schedule.currency,
+      });
+
+      const nextIndex = schedule.occurrence_index + 1;
+      const nextRunAt = getNextRunAt(schedule, nextIndex);
+
+      await db.update('scheduled_transfers', {
+        occurrence_index: nextIndex,
+        next_run_at: nextRunAt,
+        status: nextRunAt ? 'active' : 'completed',
+        retry_count: 0,
+        last_run_at: db.sql`NOW()`,
+        last_transaction_id: transaction.id,
+        last_error: null,
+        updated_at: db.sql`NOW()`,
+      }, { id: schedule.id }).run(txClient);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      await logFailedTransaction({
+        idempotencyKey,
+        type: 'transfer',
+        sourceUserId: schedule.source_user_id,
+        destinationUserId: schedule.destination_user_id,
+        amount: schedule.amount,
+        currency: schedule.currency,
+        scheduledTransferId: schedule.id,
+        errorMessage,
+        retryCount: schedule.retry_count,
+      });
+
+      // Failure policy: retry the same occurrence later, or pause the schedule
+      const retry = schedule.failure_policy === 'retry' && schedule.retry_count < schedule.max_retries;
+
+      await db.update('scheduled_transfers', {
+        ...(retry
+          ? {
+            retry_count: schedule.retry_count + 1,
+            next_run_at: db.sql`NOW() + ${db.param(schedule.retry_delay_seconds)} * INTERVAL '1 second'`,
+          }
+          : { status: 'paused' }),
+        last_run_at: db.sql`NOW()`,
+        last_error: errorMessage,
+        updated_at: db.sql`NOW()`,
+      }, { id: schedule.id }).run(txClient);
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Runs the pending occurrence of every due schedule, one claim at a time,
+ * so that several workers can share the load.
+ * @param limit - Maximum number of occurrences to run in this pass
+ * @returns The number of occurrences run (successful or not)
+ */
+export async function runDueScheduledTransfers(limit = 100): Promise<number> {
+  let processed = 0;
+
+  while (processed < limit && await runNextDueScheduledTransfer()) {
+    processed++;
+  }
+
+  return processed;
+}
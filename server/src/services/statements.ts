@@ -0,0 +1,262 @@
+import * as db from 'zapatos/db';
+import { pool } from '../db';
+import type * as s from 'zapatos/schema';
+import { getCurrency } from './currencies';
+import type { Statement, StatementEntry } from '../schemas/statements';
+
+/**
+ * Builds the statement of a user's default account in a currency for the
+ * period from `from` (inclusive) to `to` (exclusive), like the history and
+ * exports.
+ *
+ * The opening and closing balances are the balances just before the two
+ * bounds, and the entries are the account's postings in between, oldest
+ * first. Everything is read from one snapshot, so the entries account for
+ * the whole difference between the two balances; the statement is checked
+ * against that before it is returned.
+ *
+ * @returns The statement, with amounts in minor units
+ * @throws {Error} 'User not found.' or 'Unsupported currency.'
+ * @throws {Error} 'Statement does not reconcile with the ledger.' if the
+ *   entries don't add up to the closing balance
+ */
+export async function getStatement(userId: string, period: {
+  from: Date;
+  to: Date;
+  currency: string;
+}): Promise<Statement> {
+  const currency = await getCurrency(period.currency);
+
+  if (!currency) {
+    throw new Error('Unsupported currency.');
+  }
+
+  return db.transaction(pool, db.IsolationLevel.RepeatableReadRO, async (txClient) => {
+    const user = await db.selectOne('users', { id: userId }, { columns: ['id'] }).run(txClient);
+
+    if (!user) {
+      throw new Error('User not found.');
+    }
+
+    // get_balance_on_date counts postings at the instant itself, so read it
+    // one microsecond (the resolution of timestamptz) earlier
+    const balanceBefore = async (date: Date): Promise<number> => {
+      const [row] = await db.sql<s.accounts.SQL, Array<{ balance: string }>>`
+        SELECT b.balance
+        FROM public.get_balance_on_date(${db.param(userId)}::uuid, ${db.param(date)}::timestamptz - interval '1 microsecond') b
+        WHERE b.currency = ${db.param(currency.code)}
+      `.run(txClient);
+
+      return row ? parseInt(row.balance, 10) : 0;
+    };
+
+    const openingBalance = await balanceBefore(period.from);
+    const closingBalance = await balanceBefore(period.to);
+
+    const account = await db.selectOne(
+      'accounts',
+      { user_id: userId, currency: currency.code, is_default: true },
+      { columns: ['id'] }
+    ).run(txClient);
+    const accountId = account?.id ?? null;
+
+    const postings = accountId
+      ? await db.select('postings', {
+        account_id: accountId,
+        created_at: db.sql`${db.self} >= ${db.param(period.from)} AND ${db.self} < ${db.param(period.to)}`,
+      }, {
+        // Postings carry their transaction's created_at, so this is history order
+        order: [
+          { by: 'created_at', direction: 'ASC' },
+          { by: 'transaction_id', direction: 'ASC' },
+        ],
+        lateral: {
+          transaction: db.selectExactlyOne('transactions', { id: db.parent('transaction_id') }),
+        },
+      }).run(txClient)
+      : [];
+
+    let runningBalance = openingBalance;
+    let totalIn = 0;
+    let totalOut = 0;
+
+    const entries: StatementEntry[] = postings.map(({ transaction, ...posting }) => {
+      runningBalance += posting.amount;
+
+      if (posting.amount > 0) {
+        totalIn += posting.amount;
+      } else {
+        totalOut -= posting.amount;
+      }
+
+      // The other user, when money moved between two users
+      const counterpartyUserId = transaction.source_user_id && transaction.destination_user_id
+        && transaction.source_user_id !== transaction.destination_user_id
+        ? (posting.amount < 0 ? transaction.destination_user_id : transaction.source_user_id)
+        : null;
+
+      return {
+        transaction_id: transaction.id,
+        created_at: transaction.created_at,
+        type: transaction.type,
+        description: transaction.description,
+        external_reference: transaction.external_reference,
+        counterparty_user_id: counterpartyUserId,
+        amount: posting.amount,
+        running_balance: runningBalance,
+      };
+    });
+
+    if (openingBalance + totalIn - totalOut !== closingBalance) {
+      throw new Error('Statement does not reconcile with the ledger.');
+    }
+
+    return {
+      user_id: userId,
+      account_id: accountId,
+      currency: currency.code,
+      minor_units: currency.minor_units,
+      from: period.from.toISOString(),
+      to: period.to.toISOString(),
+      opening_balance: openingBalance,
+      total_in: totalIn,
+      total_out: totalOut,
+      closing_balance: closingBalance,
+      entries,
+    };
+  });
+}
+
+/**
+ * Formats an amount in minor units as a decimal in major units, e.g. -2500
+ * with 2 minor units as "-25.00"
+ */
+export function formatMinorUnits(amount: number, minorUnits: number): string {
+  const sign = amount < 0 ? '-' : '';
+  const digits = String(Math.abs(amount)).padStart(minorUnits + 1, '0');
+
+  if (minorUnits === 0) {
+    return `${sign}${digits}`;
+  }
+
+  return `${sign}${digits.slice(0, -minorUnits)}.${digits.slice(-minorUnits)}`;
+}
+
+/**
+ * Quotes a CSV field (RFC 4180). Free text that a spreadsheet would read as
+ * a formula is prefixed with a single quote.
+ */
+function csvField(value: string | null, freeText = false): string {
+  let field = value ?? '';
+
+  if (freeText && /^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Renders a statement as CSV: one record per row, in statement order
+ * (opening_balance, entry..., total_in, total_out, closing_balance), with
+ * amounts in major units.
+ */
+export function renderStatementCsv(statement: Statement): string {
+  const amount = (value: number) => formatMinorUnits(value, statement.minor_units);
+
+  const rows = [
+    ['record', 'date', 'transaction_id', 'type', 'description', 'external_reference', 'counterparty_user_id', 'amount', 'balance'],
+    ['opening_balance', statement.from, '', '', '', '', '', '', amount(statement.opening_balance)],
+    ...statement.entries.map(entry => [
+      'entry',
+      entry.created_at,
+      entry.transaction_id,
+      entry.type,
+      csvField(entry.description ?? null, true),
+      csvField(entry.external_reference ?? null, true),
+      entry.counterparty_user_id ?? '',
+      amount(entry.amount),
+      amount(entry.running_balance),
+    ]),
+    ['total_in', statement.to, '', '', '', '', '', amount(statement.total_in), ''],
+    ['total_out', statement.to, '', '', '', '', '', amount(statement.total_out), ''],
+    ['closing_balance', statement.to, '', '', '', '', '', '', amount(statement.closing_balance)],
+  ];
+
+  return rows.map(row => row.join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders a statement as a self-contained HTML document laid out for
+ * printing (or saving as PDF from the browser)
+ */
+export function renderStatementHtml(statement: Statement): string {
+  const amount = (value: number) => escapeHtml(formatMinorUnits(value, statement.minor_units));
+  const period = `${escapeHtml(statement.from)} &ndash; ${escapeHtml(statement.to)}`;
+
+  const entryRows = statement.entries.map(entry => `
+        <tr>
+          <td>${escapeHtml(entry.created_at)}</td>
+          <td>${escapeHtml(entry.type)}</td>
+          <td>${escapeHtml(entry.description ?? '')}</td>
+          <td>${escapeHtml(entry.external_reference ?? '')}</td>
+          <td class="amount">${entry.amount > 0 ? amount(entry.amount) : ''}</td>
+          <td class="amount">${entry.amount < 0 ? amount(-entry.amount) : ''}</td>
+          <td class="amount">${amount(entry.running_balance)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Statement ${escapeHtml(statement.currency)} ${period}</title>
+  <style>
+    body { font-family: sans-serif; font-size: 12px; margin: 2em; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 2em; }
+    th, td { border-bottom: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+    .amount { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+    @media print { body { margin: 0; } tr { page-break-inside: avoid; } }
+  </style>
+</head>
+<body>
+  <h1>Account statement</h1>
+  <p>
+    User: ${escapeHtml(statement.user_id)}<br>
+    Account: ${escapeHtml(statement.account_id ?? '-')}<br>
+    Currency: ${escapeHtml(statement.currency)}<br>
+    Period: ${period}
+  </p>
+  <table class="summary">
+    <tr><th>Opening balance</th><td class="amount">${amount(statement.opening_balance)}</td></tr>
+    <tr><th>Money in</th><td class="amount">${amount(statement.total_in)}</td></tr>
+    <tr><th>Money out</th><td class="amount">${amount(statement.total_out)}</td></tr>
+    <tr><th>Closing balance</th><td class="amount">${amount(statement.closing_balance)}</td></tr>
+  </table>
+  <table class="entries">
+    <thead>
+      <tr>
+        <th>Date</th>
+        <th>Type</th>
+        <th>Description</th>
+        <th>Reference</th>
+        <th class="amount">In</th>
+        <th class="amount">Out</th>
+        <th class="amount">Balance</th>
+      </tr>
+    </thead>
+    <tbody>${entryRows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
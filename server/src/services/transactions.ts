@@ -1,6 +1,38 @@
 import * as db from 'zapatos/db';
 import { pool } from '../db';
 import type * as s from 'zapatos/schema';
+import { randomUUID } from 'crypto';
+import { ensureDefaultAccountId, resolveDefaultAccountId } from './accounts';
+import { getEffectiveExchangeRate } from './exchangeRates';
+import { ensureSystemAccountId, lockLedgerChain, recordJournalEntry, type SystemAccountName } from './ledger';
+
+type CurrencyBalance = { currency: string; balance: number; available_balance?: number; minor_units: number };
+
+type BatchResult = s.batches.JSONSelectable & { transactions: s.transactions.JSONSelectable[] };
+
+// One party of a split payment, read from its posting
+type SplitLeg = { user_id: string; account_id: string; direction: 'debit' | 'credit'; amount: number };
+
+export type TransactionWithLegs = s.transactions.JSONSelectable & { legs?: SplitLeg[] };
+
+/**
+ * Why money moved: optional details recorded with transfers and deposits.
+ * They are part of the ledger row and never change.
+ */
+export interface TransactionDetails {
+  description?: string;
+  externalReference?: string;
+  metadata?: Record<string, string | number | boolean | null>;
+}
+
+// Return conversion NUMERIC columns as text: JSON numbers would round them to a double
+const exactConversionAmounts = {
+  rate: db.sql<s.conversions.SQL>`${'rate'}::text`,
+  unrounded_destination_amount: db.sql<s.conversions.SQL>`${'unrounded_destination_amount'}::text`,
+};
+
+// Transaction types that POST /transactions/:id/reverse accepts
+const REVERSIBLE_TYPES = ['transfer', 'deposit', 'withdrawal'];
 
 const MAX_RETRIES = 10;
 const INITIAL_BACKOFF_MS = 10;
@@ -16,13 +48,27 @@ function isSerializationError(error: any): boolean {
 }
 
 /**
- * Logs a failed transaction to the private.failed_transactions table for audit purposes
+ * Parties and amount of a ledger operation, recorded if the operation fails.
+ * Account-addressed operations may not know the owning users up front, and
+ * user-addressed operations may not have resolved an account. Occurrences of
+ * scheduled transfers also record the schedule they belong to.
  */
-async function logFailedTransaction(data: {
+interface FailedTransactionData {
   idempotencyKey: string;
-  sourceUserId: string | null;
-  destinationUserId: string;
+  type: string;
+  sourceUserId?: string | null;
+  destinationUserId?: string | null;
+  sourceAccountId?: string | null;
+  destinationAccountId?: string | null;
   amount: number;
+  currency?: string;
+  scheduledTransferId?: string;
+}
+
+/**
+ * Logs a failed transaction to the private.failed_transactions table for audit purposes
+ */
+export async function logFailedTransaction(data: FailedTransactionData & {
   errorMessage: string;
   retryCount: number;
 }): Promise<void> {
@@ -30,16 +76,26 @@ async function logFailedTransaction(data: {
     await db.sql`
       INSERT INTO private.failed_transactions (
         idempotency_key,
+        type,
         source_user_id,
         destination_user_id,
+        source_account_id,
+        destination_account_id,
         amount,
+        currency,
+        scheduled_transfer_id,
         error_message,
         retry_count
       ) VALUES (
         ${db.param(data.idempotencyKey)}::uuid,
-        ${db.param(data.sourceUserId)}::uuid,
-        ${db.param(data.destinationUserId)}::uuid,
+        ${db.param(data.type)},
+        ${db.param(data.sourceUserId ?? null)}::uuid,
+        ${db.param(data.destinationUserId ?? null)}::uuid,
+        ${db.param(data.sourceAccountId ?? null)}::uuid,
+        ${db.param(data.destinationAccountId ?? null)}::uuid,
         ${db.param(data.amount)},
+        ${db.param(data.currency ?? null)},
+        ${db.param(data.scheduledTransferId ?? null)}::uuid,
         ${db.param(data.errorMessage)},
         ${db.param(data.retryCount)}
       )
@@ -58,79 +114,43 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Executes a financial transfer with JIT balance verification.
+ * Runs a balance-checked ledger operation inside a SERIALIZABLE transaction,
+ * retrying with exponential backoff on serialization failures and deadlocks.
  *
- * Security guarantees:
- * - Idempotent (UNIQUE constraint on idempotency_key)
- * - Atomic (PostgreSQL TRANSACTION)
- * - Race-condition-free (SELECT FOR UPDATE row locks on users table)
- * - Single source of truth (balance calculated from ledger inside transaction)
- * - No balance drift (balance is never stored, only calculated)
- *
- * @param {object} data - The transaction data
- * @returns {Promise<transactions.JSONSelectable>} The created transaction record
+ * The idempotency check runs before every attempt so a retry that races with
+ * a concurrent request carrying the same key returns the original record.
+ * Operations that record something other than a single ledger row (such as
+ * conversions) pass their own lookup in `findExisting`.
+ * Once retries are exhausted the failure is logged to private.failed_transactions.
+ * @throws {Error} 'Transaction conflict, please retry.' if concurrent writers
+ *   still conflicted on the last attempt
  */
-export async function executeTransaction(data: {
-  idempotencyKey: string;
-  sourceUserId: string;
-  destinationUserId: string;
-  amount: number;
-}): Promise<s.transactions.JSONSelectable> {
+async function runSerializableWithRetry<T = s.transactions.JSONSelectable>(
+  data: FailedTransactionData,
+  work: (txClient: db.TxnClientForSerializable) => Promise<T>,
+  findExisting?: () => Promise<T | undefined>
+): Promise<T> {
   // Retry loop with exponential backoff for serialization errors
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
     try {
       // 1. Idempotency Check: Prevents duplicate API requests
-      const existingTx = await db.selectOne(
-        'transactions',
-        { idempotency_key: data.idempotencyKey }
-      ).run(pool);
+      const existingTx = findExisting
+        ? await findExisting()
+        : await db.selectOne(
+          'transactions',
+          { idempotency_key: data.idempotencyKey }
+        ).run(pool) as T | undefined;
 
       if (existingTx) {
         console.log('Idempotency key already processed. Returning original transaction.');
         return existingTx;
       }
 
-      // 2. Begin Atomic Database Transaction
+      // 2. Begin Atomic Database Transaction, appending to the hash chain
+      // after every writer before it
       return await db.serializable(pool, async (txClient) => {
-        // 3. Acquire Row-Level Locks on Users (Prevents Deadlocks)
-        // Lock users in sorted order by user_id to prevent deadlocks
-        // Since each user = one account, we lock the user rows directly
-        const lockOrderIds = [data.sourceUserId, data.destinationUserId].sort();
-
-        await Promise.all(
-          lockOrderIds.map((userId) =>
-            db.sql`SELECT FROM users WHERE ${{ id: userId }} FOR UPDATE`.run(txClient)
-          )
-        );
-
-        // 4. JIT Balance Verification (Single Source of Truth)
-        // CRITICAL: This calculation happens INSIDE the transaction with locks held,
-        // guaranteeing that the balance cannot change between check and transaction creation.
-        const balanceResult = await db.sql<s.transactions.SQL, Array<{ balance: string }>>`
-          SELECT public.get_current_balance(${db.param(data.sourceUserId)}::uuid) as balance
-        `.run(txClient);
-
-        const sourceBalance = parseInt(balanceResult[0].balance, 10);
-        const transferAmount = data.amount;
-
-        // 5. Authorization Check
-        if (sourceBalance < transferAmount) {
-          throw new Error('Insufficient funds.');
-        }
-
-        // 6. Create Immutable Transaction Record
-        // No balance updates needed - the ledger is self-describing
-        const newTransaction = await db.insert(
-          'transactions',
-          {
-            idempotency_key: data.idempotencyKey,
-            source_user_id: data.sourceUserId,
-            destination_user_id: data.destinationUserId,
-            amount: data.amount,
-          }
-        ).run(txClient);
-
-        return newTransaction;
+        await lockLedgerChain(txClient);
+        return work(txClient);
       });
     } catch (error) {
       // Check if this is a retryable serialization error
@@ -146,15 +166,17 @@ export async function executeTransaction(data: {
       if (attempt === MAX_RETRIES) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         await logFailedTransaction({
-          idempotencyKey: data.idempotencyKey,
-          sourceUserId: data.sourceUserId,
-          destinationUserId: data.destinationUserId,
-          amount: data.amount,
+          ...data,
           errorMessage,
           retryCount: attempt,
         });
       }
 
+      // Nothing was applied, so the client can safely retry with the same idempotency key
+      if (isSerializationError(error)) {
+        throw new Error('Transaction conflict, please retry.');
+      }
+
       throw error;
     }
   }
@@ -164,34 +186,1207 @@ export async function executeTransaction(data: {
 }
 
 /**
- * Get the current balance for a user by calculating from the ledger
- * @returns Balance in cents (integer)
+ * Locks the given accounts in sorted order and returns the customer accounts
+ * that exist. System accounts are never locked (they sit on the other side of
+ * every deposit and would serialize all traffic) and are treated as missing.
+ * Must be called inside a serializable transaction.
+ */
+async function lockAccounts(
+  txClient: db.TxnClientForSerializable,
+  accountIds: Array<string | null>
+): Promise<Map<string, s.accounts.JSONSelectable>> {
+  // 3. Acquire Row-Level Locks on Accounts (Prevents Deadlocks)
+  // Lock accounts in sorted order by account id to prevent deadlocks
+  const lockOrderIds = accountIds
+    .filter((accountId): accountId is string => accountId !== null)
+    .sort();
+
+  const lockedAccounts = new Map<string, s.accounts.JSONSelectable>();
+
+  for (const accountId of lockOrderIds) {
+    const [account] = await db.sql<s.accounts.SQL, s.accounts.JSONSelectable[]>`
+      SELECT * FROM ${'accounts'} WHERE ${{ id: accountId, user_id: db.conditions.isNotNull }} FOR UPDATE
+    `.run(txClient);
+
+    if (account) {
+      lockedAccounts.set(account.id, account);
+    }
+  }
+
+  return lockedAccounts;
+}
+
+/**
+ * Resolves a system account in the currency of a customer account. Called
+ * before the database transaction starts, so that a system account opened on
+ * first use is visible to the transaction's snapshot.
+ * @returns The system account id, or null if the customer account does not exist
+ */
+async function resolveSystemAccountIdFor(name: SystemAccountName, accountId: string): Promise<string | null> {
+  const account = await db.selectOne('accounts', { id: accountId }, { columns: ['currency'] }).run(pool);
+
+  return account ? ensureSystemAccountId(name, account.currency) : null;
+}
+
+/**
+ * Verifies that an account can cover the amount from its available balance
+ * (ledger balance minus active holds). Must be called inside a serializable
+ * transaction while the account's row lock is held; anywhere else it is only
+ * a pre-check (see checkBeforeOpeningAccounts).
+ * An account that does not exist has a balance of zero.
+ *
+ * @throws {Error} 'Insufficient funds.' if the available balance is too low
+ */
+async function assertSufficientFunds(
+  txClient: db.Queryable,
+  accountId: string | null,
+  amount: number
+): Promise<void> {
+  // 4. JIT Balance Verification (Single Source of Truth)
+  // CRITICAL: This calculation happens INSIDE the transaction with locks held,
+  // guaranteeing that the balance cannot change between check and transaction creation.
+  const balanceResult = await db.sql<s.transactions.SQL, Array<{ balance: string }>>`
+    SELECT public.get_account_available_balance(${db.param(accountId)}::uuid) as balance
+  `.run(txClient);
+
+  const sourceBalance = parseInt(balanceResult[0].balance, 10);
+
+  // 5. Authorization Check
+  if (sourceBalance < amount) {
+    throw new Error('Insufficient funds.');
+  }
+}
+
+/**
+ * Checks a request before recipients' default accounts are opened for it, so
+ * that a replay or a request its sources can't cover opens no accounts. The
+ * funds check is repeated under the row locks inside the transaction, which
+ * alone is authoritative.
+ *
+ * @returns The record of the original request if this one is a replay
+ * @throws {Error} 'Insufficient funds.' if a debited account cannot cover its amount
+ */
+async function checkBeforeOpeningAccounts<T>(
+  findExisting: () => Promise<T | undefined>,
+  debits: Array<{ accountId: string | null; amount: number }>
+): Promise<T | undefined> {
+  const existing = await findExisting();
+
+  if (existing) {
+    return existing;
+  }
+
+  for (const debit of debits) {
+    await assertSufficientFunds(pool, debit.accountId, debit.amount);
+  }
+
+  return undefined;
+}
+
+/**
+ * Maps transaction details onto ledger row columns
+ */
+function detailColumns(details: TransactionDetails) {
+  return {
+    description: details.description ?? null,
+    external_reference: details.externalReference ?? null,
+    metadata: details.metadata ?? null,
+  };
+}
+
+/**
+ * Moves funds between two accounts. Shared by the user-addressed and
+ * account-addressed transfer endpoints.
+ *
+ * A missing source account has a zero balance and fails with
+ * 'Insufficient funds.'; a missing destination fails with 'Account not found.'.
+ * Both accounts must hold the same currency ('Currency mismatch.').
+ */
+async function transferBetweenAccounts(data: {
+  idempotencyKey: string;
+  sourceAccountId: string | null;
+  destinationAccountId: string | null;
+  amount: number;
+} & TransactionDetails, failureData: FailedTransactionData): Promise<s.transactions.JSONSelectable> {
+  return runSerializableWithRetry(failureData, async (txClient) => {
+    const lockedAccounts = await lockAccounts(txClient, [data.sourceAccountId, data.destinationAccountId]);
+
+    await assertSufficientFunds(txClient, data.sourceAccountId, data.amount);
+
+    const sourceAccount = data.sourceAccountId ? lockedAccounts.get(data.sourceAccountId) : undefined;
+    const destinationAccount = data.destinationAccountId ? lockedAccounts.get(data.destinationAccountId) : undefined;
+
+    if (!sourceAccount || !destinationAccount) {
+      throw new Error('Account not found.');
+    }
+
+    if (sourceAccount.currency !== destinationAccount.currency) {
+      throw new Error('Currency mismatch.');
+    }
+
+    // 6. Create Immutable Journal Entry
+    // No balance updates needed - the ledger is self-describing
+    const newTransaction = await recordJournalEntry(
+      txClient,
+      {
+        idempotency_key: data.idempotencyKey,
+        type: 'transfer',
+        source_user_id: sourceAccount.user_id,
+        destination_user_id: destinationAccount.user_id,
+        source_account_id: sourceAccount.id,
+        destination_account_id: destinationAccount.id,
+        amount: data.amount,
+        currency: sourceAccount.currency,
+        ...detailColumns(data),
+      },
+      [
+        { accountId: sourceAccount.id, amount: -data.amount },
+        { accountId: destinationAccount.id, amount: data.amount },
+      ]
+    );
+
+    return newTransaction;
+  });
+}
+
+/**
+ * Executes a financial transfer between the default accounts of two users
+ * in one currency with JIT balance verification. The recipient's default
+ * account in that currency is opened if they don't hold it yet, once the
+ * transfer is known not to be a replay and to be covered.
+ *
+ * Security guarantees:
+ * - Idempotent (UNIQUE constraint on idempotency_key)
+ * - Atomic (PostgreSQL TRANSACTION)
+ * - Race-condition-free (SELECT FOR UPDATE row locks on accounts table)
+ * - Single source of truth (balance calculated from ledger inside transaction)
+ * - No balance drift (balance is never stored, only calculated)
+ *
+ * @param {object} data - The transaction data
+ * @returns {Promise<transactions.JSONSelectable>} The created transaction record
+ */
+export async function executeTransaction(data: {
+  idempotencyKey: string;
+  sourceUserId: string;
+  destinationUserId: string;
+  amount: number;
+  currency: string;
+} & TransactionDetails): Promise<s.transactions.JSONSelectable> {
+  const sourceAccountId = await resolveDefaultAccountId(data.sourceUserId, data.currency);
+
+  const existing = await checkBeforeOpeningAccounts(
+    () => db.selectOne('transactions', { idempotency_key: data.idempotencyKey }).run(pool),
+    [{ accountId: sourceAccountId, amount: data.amount }]
+  );
+
+  if (existing) {
+    return existing;
+  }
+
+  const destinationAccountId = await ensureDefaultAccountId(data.destinationUserId, data.currency);
+
+  return transferBetweenAccounts(
+    {
+      idempotencyKey: data.idempotencyKey,
+      sourceAccountId,
+      destinationAccountId,
+      amount: data.amount,
+      description: data.description,
+      externalReference: data.externalReference,
+      metadata: data.metadata,
+    },
+    {
+      idempotencyKey: data.idempotencyKey,
+      type: 'transfer',
+      sourceUserId: data.sourceUserId,
+      destinationUserId: data.destinationUserId,
+      sourceAccountId,
+      destinationAccountId,
+      amount: data.amount,
+      currency: data.currency,
+    }
+  );
+}
+
+/**
+ * Tags an error with the index of the batch leg that caused it, so that
+ * callers can report the result of every leg.
+ */
+function failBatchLeg(error: unknown, legIndex: number): never {
+  if (error instanceof Error) {
+    throw Object.assign(error, { legIndex });
+  }
+  throw error;
+}
+
+/**
+ * Loads a batch and its transfers, ordered by leg
+ * @returns The batch, or undefined if no batch has this idempotency key
+ */
+async function findBatch(idempotencyKey: string): Promise<BatchResult | undefined> {
+  const batch = await db.selectOne('batches', { idempotency_key: idempotencyKey }).run(pool);
+
+  if (!batch) {
+    return undefined;
+  }
+
+  const transactions = await db.select('transactions', { batch_id: batch.id }, {
+    order: { by: 'batch_leg_index', direction: 'ASC' },
+  }).run(pool);
+
+  return { ...batch, transactions };
+}
+
+/**
+ * Executes many transfers between users (e.g. a payroll run) all-or-nothing
+ * in a single serializable transaction, under one batch idempotency key.
+ *
+ * The accounts of every leg are locked up front in sorted order, exactly as
+ * executeTransaction locks its two, and the legs are then applied in request
+ * order. Each leg's balance check sees the legs before it, so a user may
+ * pass on funds received earlier in the same batch. If any leg fails, none
+ * is applied.
+ *
+ * @param {object} data - The batch data
+ * @returns The batch with one transfer per leg, in leg order
+ * @throws {Error} The failing leg's error ('Insufficient funds.',
+ *   'Unsupported currency.', ...) tagged with its `legIndex`
+ */
+export async function executeBatch(data: {
+  idempotencyKey: string;
+  legs: Array<{
+    sourceUserId: string;
+    destinationUserId: string;
+    amount: number;
+    currency: string;
+  }>;
+}): Promise<BatchResult> {
+  const findExisting = () => findBatch(data.idempotencyKey);
+
+  const existing = await findExisting();
+
+  if (existing) {
+    return existing;
+  }
+
+  // Resolve every leg's accounts before the transaction starts, opening
+  // recipients' default accounts as executeTransaction does
+  const accountIds = new Map<string, Promise<string | null>>();
+  const resolveAccountId = (userId: string, currency: string, open: boolean) => {
+    const key = `${open ? 'destination' : 'source'}:${userId}:${currency}`;
+    if (!accountIds.has(key)) {
+      accountIds.set(key, open ? ensureDefaultAccountId(userId, currency) : resolveDefaultAccountId(userId, currency));
+    }
+    return accountIds.get(key)!;
+  };
+
+  const legs: Array<{ sourceAccountId: string | null; destinationAccountId: string | null; amount: number }> = [];
+
+  for (const [legIndex, leg] of data.legs.entries()) {
+    try {
+      legs.push({
+        sourceAccountId: await resolveAccountId(leg.sourceUserId, leg.currency, false),
+        destinationAccountId: await resolveAccountId(leg.destinationUserId, leg.currency, true),
+        amount: leg.amount,
+      });
+    } catch (error) {
+      failBatchLeg(error, legIndex);
+    }
+  }
+
+  return runSerializableWithRetry<BatchResult>(
+    {
+      idempotencyKey: data.idempotencyKey,
+      type: 'batch',
+      amount: data.legs.reduce((total, leg) => total + leg.amount, 0),
+    },
+    async (txClient) => {
+      const lockedAccounts = await lockAccounts(txClient, [
+        ...new Set(legs.flatMap(leg => [leg.sourceAccountId, leg.destinationAccountId])),
+      ]);
+
+      const batch = await db.insert('batches', {
+        idempotency_key: data.idempotencyKey,
+        leg_count: legs.length,
+      }).run(txClient);
+
+      const transactions: s.transactions.JSONSelectable[] = [];
+
+      for (const [legIndex, leg] of legs.entries()) {
+        try {
+          await assertSufficientFunds(txClient, leg.sourceAccountId, leg.amount);
+
+          const sourceAccount = leg.sourceAccountId ? lockedAccounts.get(leg.sourceAccountId) : undefined;
+          const destinationAccount = leg.destinationAccountId ? lockedAccounts.get(leg.destinationAccountId) : undefined;
+
+          if (!sourceAccount || !destinationAccount) {
+            throw new Error('Account not found.');
+          }
+
+          transactions.push(await recordJournalEntry(
+            txClient,
+            {
+              idempotency_key: randomUUID(),
+              type: 'transfer',
+              source_user_id: sourceAccount.user_id,
+              destination_user_id: destinationAccount.user_id,
+              source_account_id: sourceAccount.id,
+              destination_account_id: destinationAccount.id,
+              amount: leg.amount,
+              currency: sourceAccount.currency,
+              batch_id: batch.id,
+              batch_leg_index: legIndex,
+            },
+            [
+              { accountId: sourceAccount.id, amount: -leg.amount },
+              { accountId: destinationAccount.id, amount: leg.amount },
+            ]
+          ));
+        } catch (error) {
+          failBatchLeg(error, legIndex);
+        }
+      }
+
+      return { ...batch, transactions };
+    },
+    findExisting
+  );
+}
+
+/**
+ * Loads the legs of split payments from their postings: debits first, then
+ * credits, largest first
+ * @returns The legs of each transaction, keyed by transaction id
+ */
+async function getSplitLegs(queryable: db.Queryable, transactionIds: string[]): Promise<Map<string, SplitLeg[]>> {
+  const legsByTransaction = new Map<string, SplitLeg[]>();
+
+  if (transactionIds.length === 0) {
+    return legsByTransaction;
+  }
+
+  const rows = await db.sql<s.postings.SQL | s.accounts.SQL, Array<{ transaction_id: string; user_id: string; account_id: string; amount: string }>>`
+    SELECT ${'postings'}.${'transaction_id'}, ${'accounts'}.${'user_id'}, ${'postings'}.${'account_id'}, ${'postings'}.${'amount'}
+    FROM ${'postings'}
+    JOIN ${'accounts'} ON ${'accounts'}.${'id'} = ${'postings'}.${'account_id'}
+    WHERE ${'postings'}.${'transaction_id'} = ANY(${db.param(transactionIds)}::uuid[])
+    ORDER BY ${'postings'}.${'amount'} > 0, ABS(${'postings'}.${'amount'}) DESC, ${'accounts'}.${'user_id'}
+  `.run(queryable);
+
+  for (const row of rows) {
+    const amount = parseInt(row.amount, 10);
+    const legs = legsByTransaction.get(row.transaction_id) ?? [];
+
+    legs.push({
+      user_id: row.user_id,
+      account_id: row.account_id,
+      direction: amount < 0 ? 'debit' : 'credit',
+      amount: Math.abs(amount),
+    });
+    legsByTransaction.set(row.transaction_id, legs);
+  }
+
+  return legsByTransaction;
+}
+
+/**
+ * Executes one payment that debits one or more users and credits several
+ * others in one currency, e.g. a marketplace order split between seller,
+ * platform and courier. The payment is a single journal entry of type
+ * 'split' with one posting per leg, so it is applied atomically and shows
+ * up as one item in each party's history.
+ *
+ * Runs under the same serializable isolation, sorted row locks and JIT
+ * balance checks as executeTransaction. Recipients' default accounts are
+ * opened if they don't hold the currency yet, once the payment is known not
+ * to be a replay and to be covered.
+ *
+ * @param {object} data - The payment data; debits and credits must sum to the same total
+ * @returns The created transaction with its legs
+ * @throws {Error} 'Insufficient funds.' if a debited user cannot cover their leg
+ */
+export async function executeSplitPayment(data: {
+  idempotencyKey: string;
+  currency: string;
+  debits: Array<{ userId: string; amount: number }>;
+  credits: Array<{ userId: string; amount: number }>;
+}): Promise<TransactionWithLegs> {
+  const findExisting = async () => {
+    const transaction = await db.selectOne('transactions', { idempotency_key: data.idempotencyKey }).run(pool);
+    return transaction && { ...transaction, legs: (await getSplitLegs(pool, [transaction.id])).get(transaction.id) ?? [] };
+  };
+
+  const sourceAccountIds = await Promise.all(data.debits.map(leg => resolveDefaultAccountId(leg.userId, data.currency)));
+
+  const existing = await checkBeforeOpeningAccounts(
+    findExisting,
+    data.debits.map((leg, index) => ({ accountId: sourceAccountIds[index], amount: leg.amount }))
+  );
+
+  if (existing) {
+    return existing;
+  }
+
+  const destinationAccountIds = await Promise.all(data.credits.map(leg => ensureDefaultAccountId(leg.userId, data.currency)));
+
+  const amount = data.debits.reduce((total, leg) => total + leg.amount, 0);
+
+  return runSerializableWithRetry<TransactionWithLegs>(
+    {
+      idempotencyKey: data.idempotencyKey,
+      type: 'split',
+      amount,
+      currency: data.currency,
+    },
+    async (txClient) => {
+      const lockedAccounts = await lockAccounts(txClient, [...sourceAccountIds, ...destinationAccountIds]);
+
+      for (const [index, leg] of data.debits.entries()) {
+        await assertSufficientFunds(txClient, sourceAccountIds[index], leg.amount);
+      }
+
+      if (destinationAccountIds.some(accountId => !lockedAccounts.has(accountId))) {
+        throw new Error('Account not found.');
+      }
+
+      const newTransaction = await recordJournalEntry(
+        txClient,
+        {
+          idempotency_key: data.idempotencyKey,
+          type: 'split',
+          amount,
+          currency: data.currency,
+        },
+        [
+          // Every debited account exists: a missing one has no funds
+          ...data.debits.map((leg, index) => ({ accountId: sourceAccountIds[index]!, amount: -leg.amount })),
+          ...data.credits.map((leg, index) => ({ accountId: destinationAccountIds[index], amount: leg.amount })),
+        ]
+      );
+
+      const legs = (await getSplitLegs(txClient, [newTransaction.id])).get(newTransaction.id) ?? [];
+
+      return { ...newTransaction, legs };
+    },
+    findExisting
+  );
+}
+
+/**
+ * Encodes the position of a history row as an opaque cursor
+ */
+function encodeHistoryCursor(transaction: { created_at: string; id: string }): string {
+  return Buffer.from(JSON.stringify([transaction.created_at, transaction.id])).toString('base64url');
+}
+
+/**
+ * Decodes a cursor produced by encodeHistoryCursor
+ * @throws {Error} 'Invalid cursor.' if the cursor was not produced by this API
+ */
+function decodeHistoryCursor(cursor: string): { createdAt: string; id: string } {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (
+      typeof createdAt === 'string' && !isNaN(Date.parse(createdAt)) &&
+      typeof id === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)
+    ) {
+      return { createdAt, id };
+    }
+  } catch {
+    // Falls through to the error below
+  }
+
+  throw new Error('Invalid cursor.');
+}
+
+/**
+ * Lists a page of a user's transactions, newest first: those where the user
+ * is the source or destination, and split payments with a leg on one of the
+ * user's accounts. Split payments carry their legs.
+ *
+ * Pages are keyset-paginated on (created_at, id): the cursor of a page points
+ * at its last row, so rows inserted meanwhile never shift later pages. Each
+ * row carries the running balance, right after the transaction, of the user's
+ * account it posted to (the debited one if it posted to several), and that
+ * account's id (see get_account_balance_after_transaction).
+ *
+ * @param filters - Only transactions matching every given filter. Metadata
+ *   values are compared as text; `from` is inclusive and `to` exclusive
+ * @param queryable - Where to run the query, e.g. a transaction whose
+ *   snapshot several pages should share
+ * @returns The page, and the cursor of the next page (null on the last page)
+ * @throws {Error} 'Invalid cursor.' if the cursor was not produced by this API
+ */
+export async function listUserTransactions(userId: string, filters: {
+  limit: number;
+  cursor?: string;
+  direction?: 'incoming' | 'outgoing' | 'deposit';
+  counterpartyUserId?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  from?: Date;
+  to?: Date;
+  currency?: string;
+  externalReference?: string;
+  metadata?: Record<string, string>;
+}, queryable: db.Queryable = pool): Promise<{ data: Array<TransactionWithLegs & { running_balance_account_id: string; running_balance: number }>; next_cursor: string | null }> {
+  // Split payments in which a user has a leg, optionally on one side only
+  const splitLegOf = (legUserId: string, sign?: '<' | '>') => db.sql<s.transactions.SQL | s.postings.SQL | s.accounts.SQL>`
+    (${{ type: 'split' }} AND ${'id'} IN (
+      SELECT ${'postings'}.${'transaction_id'}
+      FROM ${'postings'}
+      JOIN ${'accounts'} ON ${'accounts'}.${'id'} = ${'postings'}.${'account_id'}
+      WHERE ${'accounts'}.${'user_id'} = ${db.param(legUserId)}
+      ${sign ? db.sql`AND ${'postings'}.${'amount'} ${db.raw(sign)} 0` : db.sql``}
+    ))`;
+
+  const conditions = [
+    db.sql<s.transactions.SQL>`(
+      ${{ source_user_id: userId }}
+      OR ${{ destination_user_id: userId }}
+      OR ${splitLegOf(userId)}
+    )`,
+  ];
+
+  if (filters.cursor !== undefined) {
+    const cursor = decodeHistoryCursor(filters.cursor);
+    conditions.push(db.sql<s.transactions.SQL>`
+      (${'created_at'}, ${'id'}) < (${db.param(cursor.createdAt)}::timestamptz, ${db.param(cursor.id)}::uuid)
+    `);
+  }
+
+  if (filters.direction === 'outgoing') {
+    conditions.push(db.sql<s.transactions.SQL>`(${{ source_user_id: userId }} OR ${splitLegOf(userId, '<')})`);
+  } else if (filters.direction === 'incoming') {
+    conditions.push(db.sql<s.transactions.SQL>`(
+      (${{ destination_user_id: userId }} AND ${'type'} != 'deposit') OR ${splitLegOf(userId, '>')}
+    )`);
+  } else if (filters.direction === 'deposit') {
+    conditions.push(db.sql<s.transactions.SQL>`${{ destination_user_id: userId, type: 'deposit' }}`);
+  }
+
+  if (filters.counterpartyUserId !== undefined) {
+    conditions.push(db.sql<s.transactions.SQL>`(
+      ${{ source_user_id: userId, destination_user_id: filters.counterpartyUserId }}
+      OR ${{ source_user_id: filters.counterpartyUserId, destination_user_id: userId }}
+      OR ${splitLegOf(filters.counterpartyUserId)}
+    )`);
+  }
+
+  if (filters.minAmount !== undefined) {
+    conditions.push(db.sql<s.transactions.SQL>`${{ amount: db.conditions.gte(filters.minAmount) }}`);
+  }
+
+  if (filters.maxAmount !== undefined) {
+    conditions.push(db.sql<s.transactions.SQL>`${{ amount: db.conditions.lte(filters.maxAmount) }}`);
+  }
+
+  if (filters.from !== undefined) {
+    conditions.push(db.sql<s.transactions.SQL>`${{ created_at: db.conditions.gte(filters.from) }}`);
+  }
+
+  if (filters.to !== undefined) {
+    conditions.push(db.sql<s.transactions.SQL>`${{ created_at: db.conditions.lt(filters.to) }}`);
+  }
+
+  if (filters.currency !== undefined) {
+    conditions.push(db.sql<s.transactions.SQL>`${{ currency: filters.currency }}`);
+  }
+
+  if (filters.externalReference !== undefined) {
+    conditions.push(db.sql<s.transactions.SQL>`${{ external_reference: filters.externalReference }}`);
+  }
+
+  for (const [key, value] of Object.entries(filters.metadata ?? {})) {
+    conditions.push(db.sql<s.transactions.SQL>`${'metadata'} ->> ${db.param(key)} = ${db.param(value)}`);
+  }
+
+  // The user's account the row posted to; the debited one first, so that a
+  // move between two of the user's accounts shows its source
+  const postedAccount = db.sql<s.transactions.SQL | s.postings.SQL | s.accounts.SQL>`(
+    SELECT ${'postings'}.${'account_id'}
+    FROM ${'postings'}
+    JOIN ${'accounts'} ON ${'accounts'}.${'id'} = ${'postings'}.${'account_id'}
+    WHERE ${'postings'}.${'transaction_id'} = ${'transactions'}.${'id'}
+      AND ${'accounts'}.${'user_id'} = ${db.param(userId)}
+    ORDER BY ${'postings'}.${'amount'}
+    LIMIT 1
+  )`;
+
+  // One row more than the page tells whether there is a next page
+  const rows = await db.select('transactions', db.sql`${db.mapWithSeparator(conditions, db.sql` AND `, c => c)}`, {
+    order: [
+      { by: 'created_at', direction: 'DESC' },
+      { by: 'id', direction: 'DESC' },
+    ],
+    limit: filters.limit + 1,
+    extras: {
+      running_balance_account_id: db.sql<s.transactions.SQL | s.postings.SQL | s.accounts.SQL, string>`${postedAccount}`,
+      running_balance: db.sql<s.transactions.SQL | s.postings.SQL | s.accounts.SQL, number>`public.get_account_balance_after_transaction(
+        ${postedAccount},
+        ${'transactions'}.${'id'}
+      )`,
+    },
+  }).run(queryable);
+
+  const page = rows.slice(0, filters.limit);
+  const splitLegs = await getSplitLegs(queryable, page.filter(t => t.type === 'split').map(t => t.id));
+
+  return {
+    data: page.map(transaction => (
+      transaction.type === 'split'
+        ? { ...transaction, legs: splitLegs.get(transaction.id) ?? [] }
+        : transaction
+    )),
+    next_cursor: rows.length > filters.limit ? encodeHistoryCursor(page[page.length - 1]) : null,
+  };
+}
+
+/**
+ * Executes a financial transfer between two accounts with JIT balance
+ * verification. The accounts may belong to the same user (e.g. moving
+ * funds into a savings pot), but must hold the same currency.
+ *
+ * Offers the same guarantees as executeTransaction.
+ *
+ * @param {object} data - The transfer data
+ * @returns {Promise<transactions.JSONSelectable>} The created transaction record
+ */
+export async function executeAccountTransfer(data: {
+  idempotencyKey: string;
+  sourceAccountId: string;
+  destinationAccountId: string;
+  amount: number;
+} & TransactionDetails): Promise<s.transactions.JSONSelectable> {
+  return transferBetweenAccounts(data, {
+    idempotencyKey: data.idempotencyKey,
+    type: 'transfer',
+    sourceAccountId: data.sourceAccountId,
+    destinationAccountId: data.destinationAccountId,
+    amount: data.amount,
+  });
+}
+
+/**
+ * Withdraws money from an account (money leaves the system).
+ *
+ * This is the mirror of executeAccountDeposit: the transaction is recorded
+ * with type 'withdrawal' and no destination, representing an outflow to an
+ * external sink, and its postings credit the money back to equity:deposits.
+ * It runs under the same serializable isolation, row lock and JIT balance
+ * check as a transfer.
+ *
+ * Security guarantees:
+ * - Idempotent (UNIQUE constraint on idempotency_key)
+ * - Atomic (PostgreSQL TRANSACTION)
+ * - Race-condition-free (SELECT FOR UPDATE row lock on the account)
+ * - Cannot overdraw (balance calculated from ledger inside transaction)
+ *
+ * @param {object} data - The withdrawal data
+ * @returns {Promise<transactions.JSONSelectable>} The created transaction record
+ */
+export async function executeAccountWithdrawal(data: {
+  idempotencyKey: string;
+  accountId: string;
+  amount: number;
+  currency?: string;
+}): Promise<s.transactions.JSONSelectable> {
+  // Money leaving the system returns to the issuance account
+  const equityAccountId = await resolveSystemAccountIdFor('equity:deposits', data.accountId);
+
+  return runSerializableWithRetry(
+    {
+      idempotencyKey: data.idempotencyKey,
+      type: 'withdrawal',
+      sourceAccountId: data.accountId,
+      amount: data.amount,
+      currency: data.currency,
+    },
+    async (txClient) => {
+      const lockedAccounts = await lockAccounts(txClient, [data.accountId]);
+      const account = lockedAccounts.get(data.accountId);
+
+      if (!account || !equityAccountId) {
+        throw new Error('Account not found.');
+      }
+
+      if (data.currency && data.currency !== account.currency) {
+        throw new Error('Currency mismatch.');
+      }
+
+      await assertSufficientFunds(txClient, account.id, data.amount);
+
+      const newTransaction = await recordJournalEntry(
+        txClient,
+        {
+          idempotency_key: data.idempotencyKey,
+          type: 'withdrawal',
+          source_user_id: account.user_id,
+          source_account_id: account.id,
+          destination_user_id: null, // NULL destination = external sink
+          destination_account_id: null,
+          amount: data.amount,
+          currency: account.currency,
+        },
+        [
+          { accountId: account.id, amount: -data.amount },
+          { accountId: equityAccountId, amount: data.amount },
+        ]
+      );
+
+      return newTransaction;
+    }
+  );
+}
+
+/**
+ * Withdraws money from a user's default account in a currency (money leaves
+ * the system). See executeAccountWithdrawal.
+ *
+ * @param {object} data - The withdrawal data
+ * @returns {Promise<transactions.JSONSelectable>} The created transaction record
+ */
+export async function executeWithdrawal(data: {
+  idempotencyKey: string;
+  userId: string;
+  amount: number;
+  currency: string;
+}): Promise<s.transactions.JSONSelectable> {
+  const accountId = await resolveDefaultAccountId(data.userId, data.currency);
+
+  if (!accountId) {
+    throw new Error('Account not found.');
+  }
+
+  return executeAccountWithdrawal({
+    idempotencyKey: data.idempotencyKey,
+    accountId,
+    amount: data.amount,
+    currency: data.currency,
+  });
+}
+
+/**
+ * Reverses a transaction, fully or partially, with a compensating journal
+ * entry of type 'reversal' linked to the original through
+ * reverses_transaction_id. Money moves back the way it came, so the
+ * original recipient must still hold the amount being reversed.
+ *
+ * Runs under the same serializable isolation, row locks and JIT balance
+ * check as executeTransaction. The total already reversed is re-read with
+ * the locks held, so concurrent reversals can never exceed the original.
+ *
+ * @param {object} data - The reversal data; amount defaults to everything not reversed yet
+ * @returns {Promise<transactions.JSONSelectable>} The created reversal record
+ * @throws {Error} 'Transaction not found.', 'Transaction cannot be reversed.',
+ *   'Reversal exceeds original amount.' or 'Insufficient funds.'
  */
-export async function getUserBalance(userId: string): Promise<number> {
-  const result = await db.sql<s.transactions.SQL, Array<{ balance: string }>>`
-    SELECT public.get_current_balance(${db.param(userId)}::uuid) as balance
+export async function executeReversal(data: {
+  idempotencyKey: string;
+  transactionId: string;
+  amount?: number;
+}): Promise<s.transactions.JSONSelectable> {
+  const original = await db.selectOne('transactions', { id: data.transactionId }).run(pool);
+
+  if (!original) {
+    throw new Error('Transaction not found.');
+  }
+
+  // Conversion legs only balance as a pair, and reversals are final
+  if (!REVERSIBLE_TYPES.includes(original.type)) {
+    throw new Error('Transaction cannot be reversed.');
+  }
+
+  return runSerializableWithRetry(
+    {
+      idempotencyKey: data.idempotencyKey,
+      type: 'reversal',
+      sourceUserId: original.destination_user_id,
+      destinationUserId: original.source_user_id,
+      sourceAccountId: original.destination_account_id,
+      destinationAccountId: original.source_account_id,
+      amount: data.amount ?? original.amount,
+      currency: original.currency,
+    },
+    async (txClient) => {
+      await lockAccounts(txClient, [original.source_account_id ?? null, original.destination_account_id ?? null]);
+
+      const [{ reversed }] = await db.sql<s.transactions.SQL, Array<{ reversed: string }>>`
+        SELECT COALESCE(SUM(${'amount'}), 0) AS reversed
+        FROM ${'transactions'}
+        WHERE ${{ reverses_transaction_id: original.id }}
+      `.run(txClient);
+
+      const remaining = original.amount - parseInt(reversed, 10);
+      const amount = data.amount ?? remaining;
+
+      if (amount <= 0 || amount > remaining) {
+        throw new Error('Reversal exceeds original amount.');
+      }
+
+      // The original recipient gives the money back (system accounts may go negative)
+      if (original.destination_account_id) {
+        await assertSufficientFunds(txClient, original.destination_account_id, amount);
+      }
+
+      const originalPostings = await db.select('postings', { transaction_id: original.id }).run(txClient);
+
+      return recordJournalEntry(
+        txClient,
+        {
+          idempotency_key: data.idempotencyKey,
+          type: 'reversal',
+          reverses_transaction_id: original.id,
+          source_user_id: original.destination_user_id,
+          source_account_id: original.destination_account_id,
+          destination_user_id: original.source_user_id,
+          destination_account_id: original.source_account_id,
+          amount,
+          currency: original.currency,
+        },
+        originalPostings.map(posting => ({
+          accountId: posting.account_id,
+          amount: posting.amount > 0 ? -amount : amount,
+        }))
+      );
+    }
+  );
+}
+
+/**
+ * Places an authorization hold: reserves funds in the source user's default
+ * account for a later transfer to the destination user, without moving any
+ * money. The reserved amount stops counting towards the available balance
+ * until the hold is captured, voided or expires.
+ *
+ * The available balance is checked under the same serializable isolation
+ * and row lock as executeTransaction, so holds and debits racing for the
+ * same funds can never reserve or spend more than the account holds.
+ *
+ * @param {object} data - The hold data
+ * @returns {Promise<holds.JSONSelectable>} The created hold
+ * @throws {Error} 'Insufficient funds.' if the available balance is too low
+ */
+export async function placeHold(data: {
+  idempotencyKey: string;
+  sourceUserId: string;
+  destinationUserId: string;
+  amount: number;
+  currency: string;
+  expiresInSeconds: number;
+}): Promise<s.holds.JSONSelectable> {
+  const findExisting = () => db.selectOne('holds', { idempotency_key: data.idempotencyKey }).run(pool);
+
+  const sourceAccountId = await resolveDefaultAccountId(data.sourceUserId, data.currency);
+
+  const existing = await checkBeforeOpeningAccounts(findExisting, [{ accountId: sourceAccountId, amount: data.amount }]);
+
+  if (existing) {
+    return existing;
+  }
+
+  const destinationAccountId = await ensureDefaultAccountId(data.destinationUserId, data.currency);
+
+  return runSerializableWithRetry<s.holds.JSONSelectable>(
+    {
+      idempotencyKey: data.idempotencyKey,
+      type: 'hold',
+      sourceUserId: data.sourceUserId,
+      destinationUserId: data.destinationUserId,
+      sourceAccountId,
+      destinationAccountId,
+      amount: data.amount,
+      currency: data.currency,
+    },
+    async (txClient) => {
+      // Only the source balance changes; the destination is credited on capture
+      await lockAccounts(txClient, [sourceAccountId]);
+
+      await assertSufficientFunds(txClient, sourceAccountId, data.amount);
+
+      return db.insert('holds', {
+        idempotency_key: data.idempotencyKey,
+        source_user_id: data.sourceUserId,
+        source_account_id: sourceAccountId!,
+        destination_user_id: data.destinationUserId,
+        destination_account_id: destinationAccountId,
+        amount: data.amount,
+        currency: data.currency,
+        expires_at: db.sql`NOW() + ${db.param(data.expiresInSeconds)} * INTERVAL '1 second'`,
+      }).run(txClient);
+    },
+    findExisting
+  );
+}
+
+/**
+ * Captures an active hold, fully or partially: transfers the captured amount
+ * from the source to the destination account and releases the rest. A hold
+ * is captured at most once.
+ *
+ * The hold's own reservation pays for the capture, so there are no funds
+ * to check: the hold was only placed if the available balance covered it,
+ * and every debit since was checked against the available balance, which
+ * leaves the held amount out.
+ *
+ * @param {object} data - The capture data; amount defaults to the full hold
+ * @returns {Promise<transactions.JSONSelectable>} The resulting transfer
+ * @throws {Error} 'Hold not found.', 'Hold is not active.', 'Hold has expired.'
+ *   or 'Capture exceeds held amount.'
+ */
+export async function captureHold(data: {
+  idempotencyKey: string;
+  holdId: string;
+  amount?: number;
+}): Promise<s.transactions.JSONSelectable> {
+  const hold = await db.selectOne('holds', { id: data.holdId }).run(pool);
+
+  if (!hold) {
+    throw new Error('Hold not found.');
+  }
+
+  return runSerializableWithRetry(
+    {
+      idempotencyKey: data.idempotencyKey,
+      type: 'capture',
+      sourceUserId: hold.source_user_id,
+      destinationUserId: hold.destination_user_id,
+      sourceAccountId: hold.source_account_id,
+      destinationAccountId: hold.destination_account_id,
+      amount: data.amount ?? hold.amount,
+      currency: hold.currency,
+    },
+    async (txClient) => {
+      await lockAccounts(txClient, [hold.source_account_id, hold.destination_account_id]);
+
+      const lockedHold = (await db.selectOne('holds', { id: hold.id }, {
+        lock: { for: 'UPDATE' },
+        extras: { expired: db.sql<s.holds.SQL, boolean>`${'expires_at'} <= NOW()` },
+      }).run(txClient))!;
+
+      if (lockedHold.status === 'expired' || (lockedHold.status === 'active' && lockedHold.expired)) {
+        throw new Error('Hold has expired.');
+      }
+
+      if (lockedHold.status !== 'active') {
+        throw new Error('Hold is not active.');
+      }
+
+      const amount = data.amount ?? lockedHold.amount;
+
+      if (amount > lockedHold.amount) {
+        throw new Error('Capture exceeds held amount.');
+      }
+
+      const transfer = await recordJournalEntry(
+        txClient,
+        {
+          idempotency_key: data.idempotencyKey,
+          type: 'transfer',
+          source_user_id: lockedHold.source_user_id,
+          destination_user_id: lockedHold.destination_user_id,
+          source_account_id: lockedHold.source_account_id,
+          destination_account_id: lockedHold.destination_account_id,
+          amount,
+          currency: lockedHold.currency,
+        },
+        [
+          { accountId: lockedHold.source_account_id, amount: -amount },
+          { accountId: lockedHold.destination_account_id, amount },
+        ]
+      );
+
+      await db.update(
+        'holds',
+        { status: 'captured', captured_amount: amount, capture_transaction_id: transfer.id, closed_at: db.sql`NOW()` },
+        { id: lockedHold.id }
+      ).run(txClient);
+
+      return transfer;
+    }
+  );
+}
+
+/**
+ * Converts money between two accounts holding different currencies at the
+ * exchange rate in effect, with JIT balance verification on the source.
+ *
+ * The conversion is recorded as two ledger rows of type 'conversion' (a debit
+ * leg from the source account, a credit leg into the destination account)
+ * plus an immutable conversions row holding the applied rate, the exchange
+ * rate it came from, the unrounded result and the rounding mode. The credited
+ * amount is rounded down to the destination currency's minor unit, so a
+ * conversion never creates value.
+ *
+ * Offers the same guarantees as executeTransaction; idempotency is keyed on
+ * the conversion record.
+ *
+ * @param {object} data - The conversion data
+ * @returns {Promise<conversions.JSONSelectable>} The created conversion record
+ * @throws {Error} 'Account not found.', 'Insufficient funds.',
+ *   'Accounts hold the same currency.', 'Exchange rate not available.' or
+ *   'Converted amount rounds to zero.'
+ */
+export async function executeConversion(data: {
+  idempotencyKey: string;
+  sourceAccountId: string;
+  destinationAccountId: string;
+  amount: number;
+}): Promise<s.conversions.JSONSelectable> {
+  // Each leg balances in its own currency against the FX position account
+  const [sourceFxAccountId, destinationFxAccountId] = await Promise.all([
+    resolveSystemAccountIdFor('fx:conversions', data.sourceAccountId),
+    resolveSystemAccountIdFor('fx:conversions', data.destinationAccountId),
+  ]);
+
+  return runSerializableWithRetry<s.conversions.JSONSelectable>(
+    {
+      idempotencyKey: data.idempotencyKey,
+      type: 'conversion',
+      sourceAccountId: data.sourceAccountId,
+      destinationAccountId: data.destinationAccountId,
+      amount: data.amount,
+    },
+    async (txClient) => {
+      const lockedAccounts = await lockAccounts(txClient, [data.sourceAccountId, data.destinationAccountId]);
+      const sourceAccount = lockedAccounts.get(data.sourceAccountId);
+      const destinationAccount = lockedAccounts.get(data.destinationAccountId);
+
+      if (!sourceAccount || !destinationAccount || !sourceFxAccountId || !destinationFxAccountId) {
+        throw new Error('Account not found.');
+      }
+
+      if (sourceAccount.currency === destinationAccount.currency) {
+        throw new Error('Accounts hold the same currency.');
+      }
+
+      await assertSufficientFunds(txClient, sourceAccount.id, data.amount);
+
+      const exchangeRate = await getEffectiveExchangeRate(txClient, sourceAccount.currency, destinationAccount.currency);
+
+      if (!exchangeRate) {
+        throw new Error('Exchange rate not available.');
+      }
+
+      // Exact NUMERIC arithmetic in the database; the rate is quoted in major
+      // units, so rescale by the difference between the currency exponents
+      const [amounts] = await db.sql<s.currencies.SQL, Array<{ unrounded: db.NumericString; rounded: string }>>`
+        SELECT
+          unrounded::text AS unrounded,
+          trunc(unrounded)::bigint::text AS rounded
+        FROM (
+          SELECT ${db.param(data.amount)}::numeric * ${db.param(exchangeRate.rate)}::numeric
+            * power(10::numeric, destination.${'minor_units'} - source.${'minor_units'}) AS unrounded
+          FROM ${'currencies'} source, ${'currencies'} destination
+          WHERE source.${'code'} = ${db.param(sourceAccount.currency)}
+            AND destination.${'code'} = ${db.param(destinationAccount.currency)}
+        ) AS conversion
+      `.run(txClient);
+
+      const destinationAmount = parseInt(amounts.rounded, 10);
+
+      if (destinationAmount <= 0) {
+        throw new Error('Converted amount rounds to zero.');
+      }
+
+      const debitLeg = await recordJournalEntry(
+        txClient,
+        {
+          idempotency_key: data.idempotencyKey,
+          type: 'conversion',
+          source_user_id: sourceAccount.user_id,
+          source_account_id: sourceAccount.id,
+          destination_user_id: null,
+          destination_account_id: null,
+          amount: data.amount,
+          currency: sourceAccount.currency,
+        },
+        [
+          { accountId: sourceAccount.id, amount: -data.amount },
+          { accountId: sourceFxAccountId, amount: data.amount },
+        ]
+      );
+
+      const creditLeg = await recordJournalEntry(
+        txClient,
+        {
+          idempotency_key: randomUUID(),
+          type: 'conversion',
+          source_user_id: null,
+          source_account_id: null,
+          destination_user_id: destinationAccount.user_id,
+          destination_account_id: destinationAccount.id,
+          amount: destinationAmount,
+          currency: destinationAccount.currency,
+        },
+        [
+          { accountId: destinationFxAccountId, amount: -destinationAmount },
+          { accountId: destinationAccount.id, amount: destinationAmount },
+        ]
+      );
+
+      return db.insert(
+        'conversions',
+        {
+          idempotency_key: data.idempotencyKey,
+          exchange_rate_id: exchangeRate.id,
+          rate: exchangeRate.rate,
+          rounding: 'down',
+          source_transaction_id: debitLeg.id,
+          source_account_id: sourceAccount.id,
+          source_currency: sourceAccount.currency,
+          source_amount: data.amount,
+          destination_transaction_id: creditLeg.id,
+          destination_account_id: destinationAccount.id,
+          destination_currency: destinationAccount.currency,
+          destination_amount: destinationAmount,
+          unrounded_destination_amount: amounts.unrounded,
+        },
+        { extras: exactConversionAmounts }
+      ).run(txClient);
+    },
+    () => db.selectOne('conversions', { idempotency_key: data.idempotencyKey }, { extras: exactConversionAmounts }).run(pool)
+  );
+}
+
+/**
+ * Get the current balances for a user (their default account in each currency)
+ * by calculating from the ledger
+ * @returns One ledger and one available balance (ledger minus active holds) per
+ *   currency, in minor units, with the currency exponent
+ */
+export async function getUserBalances(userId: string): Promise<CurrencyBalance[]> {
+  const result = await db.sql<s.transactions.SQL, Array<{ currency: string; balance: string; available_balance: string; minor_units: number }>>`
+    SELECT * FROM public.get_current_balance(${db.param(userId)}::uuid)
   `.run(pool);
 
-  return parseInt(result[0].balance, 10);
+  return result.map(row => ({
+    ...row,
+    balance: parseInt(row.balance, 10),
+    available_balance: parseInt(row.available_balance, 10),
+  }));
 }
 
 /**
- * Get the balance for a user at a specific date
- * @returns Balance in cents (integer)
+ * Get the balances for a user (their default account in each currency) at a specific date
+ * @returns One balance per currency, in minor units, with the currency exponent
  */
-export async function getUserBalanceOnDate(userId: string, date: Date): Promise<number> {
-  const result = await db.sql<s.transactions.SQL, Array<{ balance: string }>>`
-    SELECT public.get_balance_on_date(${db.param(userId)}::uuid, ${db.param(date)}::timestamptz) as balance
+export async function getUserBalancesOnDate(userId: string, date: Date): Promise<CurrencyBalance[]> {
+  const result = await db.sql<s.transactions.SQL, Array<{ currency: string; balance: string; minor_units: number }>>`
+    SELECT * FROM public.get_balance_on_date(${db.param(userId)}::uuid, ${db.param(date)}::timestamptz)
   `.run(pool);
 
-  return parseInt(result[0].balance, 10);
+  return result.map(row => ({ ...row, balance: parseInt(row.balance, 10) }));
 }
 
 /**
- * Deposits money into a user's account (injects money into the system).
+ * Deposits money into an account (injects money into the system).
  *
- * This creates a transaction with a NULL source_user_id, effectively
- * injecting money into the system. This is how initial capital enters.
+ * This creates a journal entry of type 'deposit' that debits the
+ * equity:deposits issuance account and credits the receiving account. The
+ * transaction row keeps a NULL source, marking money injected into the
+ * system. This is how initial capital enters.
  *
  * Security guarantees:
  * - Idempotent (UNIQUE constraint on idempotency_key)
@@ -200,11 +1395,12 @@ export async function getUserBalanceOnDate(userId: string, date: Date): Promise<
  * @param {object} data - The deposit data
  * @returns {Promise<transactions.JSONSelectable>} The created transaction record
  */
-export async function executeDeposit(data: {
+export async function executeAccountDeposit(data: {
   idempotencyKey: string;
-  userId: string;
+  accountId: string;
   amount: number;
-}): Promise<s.transactions.JSONSelectable> {
+  currency?: string;
+} & TransactionDetails): Promise<s.transactions.JSONSelectable> {
   // 1. Idempotency Check
   const existingTx = await db.selectOne(
     'transactions',
@@ -216,18 +1412,68 @@ export async function executeDeposit(data: {
     return existingTx;
   }
 
+  // New money is issued by debiting the issuance account
+  const equityAccountId = await resolveSystemAccountIdFor('equity:deposits', data.accountId);
+
   // 2. Create deposit transaction with NULL source
   return await db.transaction(pool, db.IsolationLevel.ReadCommitted, async (txClient) => {
-    const newTransaction = await db.insert(
-      'transactions',
+    await lockLedgerChain(txClient);
+
+    const account = await db.selectOne('accounts', { id: data.accountId, user_id: db.conditions.isNotNull }).run(txClient);
+
+    if (!account || !equityAccountId) {
+      throw new Error('Account not found.');
+    }
+
+    if (data.currency && data.currency !== account.currency) {
+      throw new Error('Currency mismatch.');
+    }
+
+    const newTransaction = await recordJournalEntry(
+      txClient,
       {
         idempotency_key: data.idempotencyKey,
+        type: 'deposit',
         source_user_id: null, // NULL source = system deposit
-        destination_user_id: data.userId,
+        source_account_id: null,
+        destination_user_id: account.user_id,
+        destination_account_id: account.id,
         amount: data.amount,
-      }
-    ).run(txClient);
+        currency: account.currency,
+        ...detailColumns(data),
+      },
+      [
+        { accountId: equityAccountId, amount: -data.amount },
+        { accountId: account.id, amount: data.amount },
+      ]
+    );
 
     return newTransaction;
   });
 }
+
+/**
+ * Deposits money into a user's default account in a currency (injects money
+ * into the system), opening that account if needed. See executeAccountDeposit.
+ *
+ * @param {object} data - The deposit data
+ * @returns {Promise<transactions.JSONSelectable>} The created transaction record
+ */
+export async function executeDeposit(data: {
+  idempotencyKey: string;
+  userId: string;
+  amount: number;
+  currency: string;
+} & TransactionDetails): Promise<s.transactions.JSONSelectable> {
+  const accountId = await ensureDefaultAccountId(data.userId, data.currency);
+
+  return executeAccountDeposit({
+    idempotencyKey: data.idempotencyKey,
+    accountId,
+    amount: data.amount,
+    currency: data.currency,
+    description: data.description,
+    externalReference: data.externalReference,
+    metadata: data.metadata,
+  });
+}
@@ -0,0 +1,34 @@
+import { createBalanceCheckpoints } from '../services/balanceCheckpoints';
+
+/**
+ * Starts the in-process balance checkpoint worker. Every `intervalMs` it
+ * checkpoints the accounts that have enough new postings; a pass never
+ * overlaps the previous one. Several server instances may run the worker
+ * side by side: a checkpoint is only ever created once.
+ * @returns A function that stops the worker
+ */
+export function startBalanceCheckpointWorker(intervalMs: number): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+
+    try {
+      const created = await createBalanceCheckpoints();
+
+      if (created > 0) {
+        console.log(`Balance checkpoint worker created ${created} checkpoint(s)`);
+      }
+    } catch (error) {
+      console.error('Balance checkpoint worker failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,34 @@
+import { signLedgerHead } from '../services/ledgerChain';
+
+/**
+ * Starts the in-process ledger checkpoint worker. Every `intervalMs` it signs
+ * the hash chain's head, unless that head is already signed; a pass never
+ * overlaps the previous one. Several server instances may run the worker
+ * side by side: a head is only ever signed once.
+ * @returns A function that stops the worker
+ */
+export function startLedgerChainCheckpointWorker(intervalMs: number): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+
+    try {
+      const chainSeq = await signLedgerHead();
+
+      if (chainSeq !== undefined) {
+        console.log(`Ledger checkpoint worker signed the chain head at entry ${chainSeq}`);
+      }
+    } catch (error) {
+      console.error('Ledger checkpoint worker failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
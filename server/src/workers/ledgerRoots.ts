@@ -0,0 +1,34 @@
+import { buildLedgerRoots } from '../services/ledgerRoots';
+
+/**
+ * Starts the in-process ledger root worker. Every `intervalMs` it builds
+ * Merkle roots over the entries added since the last root; a pass never
+ * overlaps the previous one. Several server instances may run the worker
+ * side by side: a range only ever gets one root.
+ * @returns A function that stops the worker
+ */
+export function startLedgerRootWorker(intervalMs: number): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+
+    try {
+      const created = await buildLedgerRoots();
+
+      if (created > 0) {
+        console.log(`Ledger root worker created ${created} root(s)`);
+      }
+    } catch (error) {
+      console.error('Ledger root worker failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,34 @@
+import { runDueScheduledTransfers } from '../services/scheduledTransfers';
+
+/**
+ * Starts the in-process scheduled transfer worker. Every `intervalMs` it
+ * runs the occurrences that are due; a pass never overlaps the previous one.
+ * Several server instances may run the worker side by side: due schedules
+ * are claimed with FOR UPDATE SKIP LOCKED.
+ * @returns A function that stops the worker
+ */
+export function startScheduledTransferWorker(intervalMs: number): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+
+    try {
+      const processed = await runDueScheduledTransfers();
+
+      if (processed > 0) {
+        console.log(`Scheduled transfer worker ran ${processed} occurrence(s)`);
+      }
+    } catch (error) {
+      console.error('Scheduled transfer worker failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
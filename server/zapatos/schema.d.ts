@@ -23,112 +23,112 @@ declare module 'zapatos/schema' {
   /* --- tables --- */
 
   /**
-   * **pgmigrations**
+   * **account_delegations**
    * - Table in database
    */
-  export namespace pgmigrations {
-    export type Table = 'pgmigrations';
+  export namespace account_delegations {
+    export type Table = 'account_delegations';
     export interface Selectable {
       /**
-      * **pgmigrations.id**
-      * - `int4` in database
-      * - `NOT NULL`, default: `nextval('pgmigrations_id_seq'::regclass)`
+      * **account_delegations.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
       */
-      id: number;
+      account_id: string;
       /**
-      * **pgmigrations.name**
-      * - `varchar` in database
-      * - `NOT NULL`, no default
+      * **account_delegations.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
       */
-      name: string;
+      created_at: Date;
       /**
-      * **pgmigrations.run_on**
-      * - `timestamp` in database
+      * **account_delegations.delegate_user_id**
+      * - `uuid` in database
       * - `NOT NULL`, no default
       */
-      run_on: Date;
+      delegate_user_id: string;
     }
     export interface JSONSelectable {
       /**
-      * **pgmigrations.id**
-      * - `int4` in database
-      * - `NOT NULL`, default: `nextval('pgmigrations_id_seq'::regclass)`
+      * **account_delegations.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
       */
-      id: number;
+      account_id: string;
       /**
-      * **pgmigrations.name**
-      * - `varchar` in database
-      * - `NOT NULL`, no default
+      * **account_delegations.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
       */
-      name: string;
+      created_at: db.TimestampTzString;
       /**
-      * **pgmigrations.run_on**
-      * - `timestamp` in database
+      * **account_delegations.delegate_user_id**
+      * - `uuid` in database
       * - `NOT NULL`, no default
       */
-      run_on: db.TimestampString;
+      delegate_user_id: string;
     }
     export interface Whereable {
       /**
-      * **pgmigrations.id**
-      * - `int4` in database
-      * - `NOT NULL`, default: `nextval('pgmigrations_id_seq'::regclass)`
+      * **account_delegations.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
       */
-      id?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      account_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **pgmigrations.name**
-      * - `varchar` in database
-      * - `NOT NULL`, no default
+      * **account_delegations.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
       */
-      name?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **pgmigrations.run_on**
-      * - `timestamp` in database
+      * **account_delegations.delegate_user_id**
+      * - `uuid` in database
       * - `NOT NULL`, no default
       */
-      run_on?: (db.TimestampString | Date) | db.Parameter<(db.TimestampString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampString | Date) | db.Parameter<(db.TimestampString | Date)> | db.SQLFragment | db.ParentColumn>;
+      delegate_user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
     }
     export interface Insertable {
       /**
-      * **pgmigrations.id**
-      * - `int4` in database
-      * - `NOT NULL`, default: `nextval('pgmigrations_id_seq'::regclass)`
+      * **account_delegations.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
       */
-      id?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment;
+      account_id: string | db.Parameter<string> | db.SQLFragment;
       /**
-      * **pgmigrations.name**
-      * - `varchar` in database
-      * - `NOT NULL`, no default
+      * **account_delegations.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
       */
-      name: string | db.Parameter<string> | db.SQLFragment;
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
       /**
-      * **pgmigrations.run_on**
-      * - `timestamp` in database
+      * **account_delegations.delegate_user_id**
+      * - `uuid` in database
       * - `NOT NULL`, no default
       */
-      run_on: (db.TimestampString | Date) | db.Parameter<(db.TimestampString | Date)> | db.SQLFragment;
+      delegate_user_id: string | db.Parameter<string> | db.SQLFragment;
     }
     export interface Updatable {
       /**
-      * **pgmigrations.id**
-      * - `int4` in database
-      * - `NOT NULL`, default: `nextval('pgmigrations_id_seq'::regclass)`
+      * **account_delegations.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
       */
-      id?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.DefaultType | db.SQLFragment>;
+      account_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
       /**
-      * **pgmigrations.name**
-      * - `varchar` in database
-      * - `NOT NULL`, no default
+      * **account_delegations.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
       */
-      name?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
       /**
-      * **pgmigrations.run_on**
-      * - `timestamp` in database
+      * **account_delegations.delegate_user_id**
+      * - `uuid` in database
       * - `NOT NULL`, no default
       */
-      run_on?: (db.TimestampString | Date) | db.Parameter<(db.TimestampString | Date)> | db.SQLFragment | db.SQLFragment<any, (db.TimestampString | Date) | db.Parameter<(db.TimestampString | Date)> | db.SQLFragment>;
+      delegate_user_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
     }
-    export type UniqueIndex = 'pgmigrations_pkey';
+    export type UniqueIndex = 'account_delegations_pkey';
     export type Column = keyof Selectable;
     export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
     export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
@@ -136,202 +136,5448 @@ declare module 'zapatos/schema' {
   }
 
   /**
-   * **transactions**
+   * **accounts**
    * - Table in database
    */
-  export namespace transactions {
-    export type Table = 'transactions';
+  export namespace accounts {
+    export type Table = 'accounts';
     export interface Selectable {
       /**
-      * **transactions.amount**
-      * - `int8` in database
-      * - `NOT NULL`, no default
-      */
-      amount: db.Int8String;
-      /**
-      * **transactions.created_at**
+      * **accounts.created_at**
       * - `timestamptz` in database
       * - `NOT NULL`, default: `now()`
       */
       created_at: Date;
       /**
-      * **transactions.destination_user_id**
-      * - `uuid` in database
-      * - `NOT NULL`, no default
+      * **accounts.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, default: `'USD'::bpchar`
       */
-      destination_user_id: string;
+      currency: string;
       /**
-      * **transactions.id**
+      * **accounts.id**
       * - `uuid` in database
       * - `NOT NULL`, default: `uuid_generate_v4()`
       */
       id: string;
       /**
-      * **transactions.idempotency_key**
-      * - `uuid` in database
+      * **accounts.is_default**
+      * - `bool` in database
+      * - `NOT NULL`, default: `false`
+      */
+      is_default: boolean;
+      /**
+      * **accounts.kind**
+      * - `text` in database
+      * - `NOT NULL`, default: `'personal'::text`
+      */
+      kind: string;
+      /**
+      * **accounts.name**
+      * - `text` in database
       * - `NOT NULL`, no default
       */
-      idempotency_key: string;
+      name: string;
       /**
-      * **transactions.source_user_id**
+      * **accounts.user_id**
       * - `uuid` in database
       * - Nullable, no default
       */
-      source_user_id: string | null;
+      user_id: string | null;
     }
     export interface JSONSelectable {
       /**
-      * **transactions.amount**
-      * - `int8` in database
-      * - `NOT NULL`, no default
-      */
-      amount: number;
-      /**
-      * **transactions.created_at**
+      * **accounts.created_at**
       * - `timestamptz` in database
       * - `NOT NULL`, default: `now()`
       */
       created_at: db.TimestampTzString;
       /**
-      * **transactions.destination_user_id**
-      * - `uuid` in database
-      * - `NOT NULL`, no default
+      * **accounts.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, default: `'USD'::bpchar`
       */
-      destination_user_id: string;
+      currency: string;
       /**
-      * **transactions.id**
+      * **accounts.id**
       * - `uuid` in database
       * - `NOT NULL`, default: `uuid_generate_v4()`
       */
       id: string;
       /**
-      * **transactions.idempotency_key**
-      * - `uuid` in database
+      * **accounts.is_default**
+      * - `bool` in database
+      * - `NOT NULL`, default: `false`
+      */
+      is_default: boolean;
+      /**
+      * **accounts.kind**
+      * - `text` in database
+      * - `NOT NULL`, default: `'personal'::text`
+      */
+      kind: string;
+      /**
+      * **accounts.name**
+      * - `text` in database
       * - `NOT NULL`, no default
       */
-      idempotency_key: string;
+      name: string;
       /**
-      * **transactions.source_user_id**
+      * **accounts.user_id**
       * - `uuid` in database
       * - Nullable, no default
       */
-      source_user_id: string | null;
+      user_id: string | null;
     }
     export interface Whereable {
       /**
-      * **transactions.amount**
-      * - `int8` in database
-      * - `NOT NULL`, no default
-      */
-      amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
-      /**
-      * **transactions.created_at**
+      * **accounts.created_at**
       * - `timestamptz` in database
       * - `NOT NULL`, default: `now()`
       */
       created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **transactions.destination_user_id**
-      * - `uuid` in database
-      * - `NOT NULL`, no default
+      * **accounts.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, default: `'USD'::bpchar`
       */
-      destination_user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      currency?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **transactions.id**
+      * **accounts.id**
       * - `uuid` in database
       * - `NOT NULL`, default: `uuid_generate_v4()`
       */
       id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **transactions.idempotency_key**
-      * - `uuid` in database
+      * **accounts.is_default**
+      * - `bool` in database
+      * - `NOT NULL`, default: `false`
+      */
+      is_default?: boolean | db.Parameter<boolean> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, boolean | db.Parameter<boolean> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **accounts.kind**
+      * - `text` in database
+      * - `NOT NULL`, default: `'personal'::text`
+      */
+      kind?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **accounts.name**
+      * - `text` in database
       * - `NOT NULL`, no default
       */
-      idempotency_key?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      name?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **transactions.source_user_id**
+      * **accounts.user_id**
       * - `uuid` in database
       * - Nullable, no default
       */
-      source_user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
     }
     export interface Insertable {
       /**
-      * **transactions.amount**
-      * - `int8` in database
-      * - `NOT NULL`, no default
-      */
-      amount: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
-      /**
-      * **transactions.created_at**
+      * **accounts.created_at**
       * - `timestamptz` in database
       * - `NOT NULL`, default: `now()`
       */
       created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
       /**
-      * **transactions.destination_user_id**
-      * - `uuid` in database
-      * - `NOT NULL`, no default
+      * **accounts.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, default: `'USD'::bpchar`
       */
-      destination_user_id: string | db.Parameter<string> | db.SQLFragment;
+      currency?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
       /**
-      * **transactions.id**
+      * **accounts.id**
       * - `uuid` in database
       * - `NOT NULL`, default: `uuid_generate_v4()`
       */
       id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
       /**
-      * **transactions.idempotency_key**
-      * - `uuid` in database
+      * **accounts.is_default**
+      * - `bool` in database
+      * - `NOT NULL`, default: `false`
+      */
+      is_default?: boolean | db.Parameter<boolean> | db.DefaultType | db.SQLFragment;
+      /**
+      * **accounts.kind**
+      * - `text` in database
+      * - `NOT NULL`, default: `'personal'::text`
+      */
+      kind?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **accounts.name**
+      * - `text` in database
       * - `NOT NULL`, no default
       */
-      idempotency_key: string | db.Parameter<string> | db.SQLFragment;
+      name: string | db.Parameter<string> | db.SQLFragment;
       /**
-      * **transactions.source_user_id**
+      * **accounts.user_id**
       * - `uuid` in database
       * - Nullable, no default
       */
-      source_user_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      user_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
     }
     export interface Updatable {
       /**
-      * **transactions.amount**
-      * - `int8` in database
-      * - `NOT NULL`, no default
-      */
-      amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
-      /**
-      * **transactions.created_at**
+      * **accounts.created_at**
       * - `timestamptz` in database
       * - `NOT NULL`, default: `now()`
       */
       created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
       /**
-      * **transactions.destination_user_id**
-      * - `uuid` in database
-      * - `NOT NULL`, no default
+      * **accounts.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, default: `'USD'::bpchar`
       */
-      destination_user_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      currency?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
       /**
-      * **transactions.id**
+      * **accounts.id**
       * - `uuid` in database
       * - `NOT NULL`, default: `uuid_generate_v4()`
       */
       id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
       /**
-      * **transactions.idempotency_key**
-      * - `uuid` in database
+      * **accounts.is_default**
+      * - `bool` in database
+      * - `NOT NULL`, default: `false`
+      */
+      is_default?: boolean | db.Parameter<boolean> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, boolean | db.Parameter<boolean> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **accounts.kind**
+      * - `text` in database
+      * - `NOT NULL`, default: `'personal'::text`
+      */
+      kind?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **accounts.name**
+      * - `text` in database
       * - `NOT NULL`, no default
       */
-      idempotency_key?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      name?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
       /**
-      * **transactions.source_user_id**
+      * **accounts.user_id**
       * - `uuid` in database
       * - Nullable, no default
       */
-      source_user_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      user_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'accounts_id_currency_key' | 'accounts_id_user_id_currency_key' | 'accounts_pkey' | 'idx_accounts_default_per_user_currency' | 'idx_accounts_system_per_currency';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **api_key_nonces**
+   * - Table in database
+   */
+  export namespace api_key_nonces {
+    export type Table = 'api_key_nonces';
+    export interface Selectable {
+      /**
+      * **api_key_nonces.api_key_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      api_key_id: string;
+      /**
+      * **api_key_nonces.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **api_key_nonces.nonce**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      nonce: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **api_key_nonces.api_key_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      api_key_id: string;
+      /**
+      * **api_key_nonces.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **api_key_nonces.nonce**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      nonce: string;
+    }
+    export interface Whereable {
+      /**
+      * **api_key_nonces.api_key_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      api_key_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_key_nonces.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_key_nonces.nonce**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      nonce?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **api_key_nonces.api_key_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      api_key_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **api_key_nonces.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **api_key_nonces.nonce**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      nonce: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **api_key_nonces.api_key_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      api_key_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **api_key_nonces.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **api_key_nonces.nonce**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      nonce?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'api_key_nonces_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **api_keys**
+   * - Table in database
+   */
+  export namespace api_keys {
+    export type Table = 'api_keys';
+    export interface Selectable {
+      /**
+      * **api_keys.allowed_ips**
+      * - `_text` in database
+      * - Nullable, no default
+      */
+      allowed_ips: string[] | null;
+      /**
+      * **api_keys.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **api_keys.expires_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      expires_at: Date | null;
+      /**
+      * **api_keys.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **api_keys.key_hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      key_hash: string;
+      /**
+      * **api_keys.last_used_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      last_used_at: Date | null;
+      /**
+      * **api_keys.last_used_ip**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      last_used_ip: string | null;
+      /**
+      * **api_keys.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name: string;
+      /**
+      * **api_keys.prefix**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      prefix: string;
+      /**
+      * **api_keys.require_signature**
+      * - `bool` in database
+      * - `NOT NULL`, default: `false`
+      */
+      require_signature: boolean;
+      /**
+      * **api_keys.revoked_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      revoked_at: Date | null;
+      /**
+      * **api_keys.scopes**
+      * - `_text` in database
+      * - `NOT NULL`, no default
+      */
+      scopes: string[];
+      /**
+      * **api_keys.signing_secret**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      signing_secret: string | null;
+      /**
+      * **api_keys.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **api_keys.allowed_ips**
+      * - `_text` in database
+      * - Nullable, no default
+      */
+      allowed_ips: string[] | null;
+      /**
+      * **api_keys.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **api_keys.expires_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      expires_at: db.TimestampTzString | null;
+      /**
+      * **api_keys.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **api_keys.key_hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      key_hash: string;
+      /**
+      * **api_keys.last_used_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      last_used_at: db.TimestampTzString | null;
+      /**
+      * **api_keys.last_used_ip**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      last_used_ip: string | null;
+      /**
+      * **api_keys.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name: string;
+      /**
+      * **api_keys.prefix**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      prefix: string;
+      /**
+      * **api_keys.require_signature**
+      * - `bool` in database
+      * - `NOT NULL`, default: `false`
+      */
+      require_signature: boolean;
+      /**
+      * **api_keys.revoked_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      revoked_at: db.TimestampTzString | null;
+      /**
+      * **api_keys.scopes**
+      * - `_text` in database
+      * - `NOT NULL`, no default
+      */
+      scopes: string[];
+      /**
+      * **api_keys.signing_secret**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      signing_secret: string | null;
+      /**
+      * **api_keys.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id: string;
+    }
+    export interface Whereable {
+      /**
+      * **api_keys.allowed_ips**
+      * - `_text` in database
+      * - Nullable, no default
+      */
+      allowed_ips?: string[] | db.Parameter<string[]> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string[] | db.Parameter<string[]> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.expires_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      expires_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.key_hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      key_hash?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.last_used_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      last_used_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.last_used_ip**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      last_used_ip?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.prefix**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      prefix?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.require_signature**
+      * - `bool` in database
+      * - `NOT NULL`, default: `false`
+      */
+      require_signature?: boolean | db.Parameter<boolean> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, boolean | db.Parameter<boolean> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.revoked_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      revoked_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.scopes**
+      * - `_text` in database
+      * - `NOT NULL`, no default
+      */
+      scopes?: string[] | db.Parameter<string[]> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string[] | db.Parameter<string[]> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.signing_secret**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      signing_secret?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **api_keys.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **api_keys.allowed_ips**
+      * - `_text` in database
+      * - Nullable, no default
+      */
+      allowed_ips?: string[] | db.Parameter<string[]> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **api_keys.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **api_keys.expires_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      expires_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **api_keys.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **api_keys.key_hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      key_hash: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **api_keys.last_used_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      last_used_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **api_keys.last_used_ip**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      last_used_ip?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **api_keys.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **api_keys.prefix**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      prefix: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **api_keys.require_signature**
+      * - `bool` in database
+      * - `NOT NULL`, default: `false`
+      */
+      require_signature?: boolean | db.Parameter<boolean> | db.DefaultType | db.SQLFragment;
+      /**
+      * **api_keys.revoked_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      revoked_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **api_keys.scopes**
+      * - `_text` in database
+      * - `NOT NULL`, no default
+      */
+      scopes: string[] | db.Parameter<string[]> | db.SQLFragment;
+      /**
+      * **api_keys.signing_secret**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      signing_secret?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **api_keys.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **api_keys.allowed_ips**
+      * - `_text` in database
+      * - Nullable, no default
+      */
+      allowed_ips?: string[] | db.Parameter<string[]> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string[] | db.Parameter<string[]> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **api_keys.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **api_keys.expires_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      expires_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **api_keys.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **api_keys.key_hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      key_hash?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **api_keys.last_used_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      last_used_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **api_keys.last_used_ip**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      last_used_ip?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **api_keys.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **api_keys.prefix**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      prefix?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **api_keys.require_signature**
+      * - `bool` in database
+      * - `NOT NULL`, default: `false`
+      */
+      require_signature?: boolean | db.Parameter<boolean> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, boolean | db.Parameter<boolean> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **api_keys.revoked_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      revoked_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **api_keys.scopes**
+      * - `_text` in database
+      * - `NOT NULL`, no default
+      */
+      scopes?: string[] | db.Parameter<string[]> | db.SQLFragment | db.SQLFragment<any, string[] | db.Parameter<string[]> | db.SQLFragment>;
+      /**
+      * **api_keys.signing_secret**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      signing_secret?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **api_keys.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'api_keys_key_hash_key' | 'api_keys_pkey' | 'api_keys_prefix_key';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **audit_log**
+   * - Table in database
+   */
+  export namespace audit_log {
+    export type Table = 'audit_log';
+    export interface Selectable {
+      /**
+      * **audit_log.action**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      action: string;
+      /**
+      * **audit_log.actor_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      actor_user_id: string | null;
+      /**
+      * **audit_log.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **audit_log.details**
+      * - `jsonb` in database
+      * - `NOT NULL`, default: `'{}'::jsonb`
+      */
+      details: db.JSONValue;
+      /**
+      * **audit_log.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **audit_log.ip_address**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      ip_address: string | null;
+      /**
+      * **audit_log.outcome**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      outcome: string;
+      /**
+      * **audit_log.resource_id**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      resource_id: string | null;
+      /**
+      * **audit_log.resource_type**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      resource_type: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **audit_log.action**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      action: string;
+      /**
+      * **audit_log.actor_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      actor_user_id: string | null;
+      /**
+      * **audit_log.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **audit_log.details**
+      * - `jsonb` in database
+      * - `NOT NULL`, default: `'{}'::jsonb`
+      */
+      details: db.JSONValue;
+      /**
+      * **audit_log.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **audit_log.ip_address**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      ip_address: string | null;
+      /**
+      * **audit_log.outcome**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      outcome: string;
+      /**
+      * **audit_log.resource_id**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      resource_id: string | null;
+      /**
+      * **audit_log.resource_type**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      resource_type: string;
+    }
+    export interface Whereable {
+      /**
+      * **audit_log.action**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      action?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **audit_log.actor_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      actor_user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **audit_log.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **audit_log.details**
+      * - `jsonb` in database
+      * - `NOT NULL`, default: `'{}'::jsonb`
+      */
+      details?: db.JSONValue | db.Parameter<db.JSONValue> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, db.JSONValue | db.Parameter<db.JSONValue> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **audit_log.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **audit_log.ip_address**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      ip_address?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **audit_log.outcome**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      outcome?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **audit_log.resource_id**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      resource_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **audit_log.resource_type**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      resource_type?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **audit_log.action**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      action: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **audit_log.actor_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      actor_user_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **audit_log.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **audit_log.details**
+      * - `jsonb` in database
+      * - `NOT NULL`, default: `'{}'::jsonb`
+      */
+      details?: db.JSONValue | db.Parameter<db.JSONValue> | db.DefaultType | db.SQLFragment;
+      /**
+      * **audit_log.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **audit_log.ip_address**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      ip_address?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **audit_log.outcome**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      outcome: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **audit_log.resource_id**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      resource_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **audit_log.resource_type**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      resource_type: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **audit_log.action**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      action?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **audit_log.actor_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      actor_user_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **audit_log.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **audit_log.details**
+      * - `jsonb` in database
+      * - `NOT NULL`, default: `'{}'::jsonb`
+      */
+      details?: db.JSONValue | db.Parameter<db.JSONValue> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, db.JSONValue | db.Parameter<db.JSONValue> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **audit_log.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **audit_log.ip_address**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      ip_address?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **audit_log.outcome**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      outcome?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **audit_log.resource_id**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      resource_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **audit_log.resource_type**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      resource_type?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'audit_log_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **auth_sessions**
+   * - Table in database
+   */
+  export namespace auth_sessions {
+    export type Table = 'auth_sessions';
+    export interface Selectable {
+      /**
+      * **auth_sessions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **auth_sessions.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at: Date;
+      /**
+      * **auth_sessions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **auth_sessions.revoked_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      revoked_at: Date | null;
+      /**
+      * **auth_sessions.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **auth_sessions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **auth_sessions.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at: db.TimestampTzString;
+      /**
+      * **auth_sessions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **auth_sessions.revoked_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      revoked_at: db.TimestampTzString | null;
+      /**
+      * **auth_sessions.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id: string;
+    }
+    export interface Whereable {
+      /**
+      * **auth_sessions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **auth_sessions.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **auth_sessions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **auth_sessions.revoked_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      revoked_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **auth_sessions.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **auth_sessions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **auth_sessions.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment;
+      /**
+      * **auth_sessions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **auth_sessions.revoked_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      revoked_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **auth_sessions.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **auth_sessions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **auth_sessions.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment>;
+      /**
+      * **auth_sessions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **auth_sessions.revoked_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      revoked_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **auth_sessions.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'auth_sessions_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **balance_checkpoints**
+   * - Table in database
+   */
+  export namespace balance_checkpoints {
+    export type Table = 'balance_checkpoints';
+    export interface Selectable {
+      /**
+      * **balance_checkpoints.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      account_id: string;
+      /**
+      * **balance_checkpoints.as_of**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      as_of: Date;
+      /**
+      * **balance_checkpoints.balance**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      balance: db.Int8String;
+      /**
+      * **balance_checkpoints.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **balance_checkpoints.posting_count**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      posting_count: db.Int8String;
+    }
+    export interface JSONSelectable {
+      /**
+      * **balance_checkpoints.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      account_id: string;
+      /**
+      * **balance_checkpoints.as_of**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      as_of: db.TimestampTzString;
+      /**
+      * **balance_checkpoints.balance**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      balance: number;
+      /**
+      * **balance_checkpoints.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **balance_checkpoints.posting_count**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      posting_count: number;
+    }
+    export interface Whereable {
+      /**
+      * **balance_checkpoints.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      account_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **balance_checkpoints.as_of**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      as_of?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **balance_checkpoints.balance**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      balance?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **balance_checkpoints.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **balance_checkpoints.posting_count**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      posting_count?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **balance_checkpoints.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      account_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **balance_checkpoints.as_of**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      as_of: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment;
+      /**
+      * **balance_checkpoints.balance**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      balance: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
+      /**
+      * **balance_checkpoints.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **balance_checkpoints.posting_count**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      posting_count: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **balance_checkpoints.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      account_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **balance_checkpoints.as_of**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      as_of?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment>;
+      /**
+      * **balance_checkpoints.balance**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      balance?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
+      /**
+      * **balance_checkpoints.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **balance_checkpoints.posting_count**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      posting_count?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'balance_checkpoints_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **batches**
+   * - Table in database
+   */
+  export namespace batches {
+    export type Table = 'batches';
+    export interface Selectable {
+      /**
+      * **batches.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **batches.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **batches.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string;
+      /**
+      * **batches.leg_count**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+      leg_count: number;
+    }
+    export interface JSONSelectable {
+      /**
+      * **batches.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **batches.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **batches.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string;
+      /**
+      * **batches.leg_count**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+      leg_count: number;
+    }
+    export interface Whereable {
+      /**
+      * **batches.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **batches.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **batches.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **batches.leg_count**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+      leg_count?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **batches.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **batches.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **batches.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **batches.leg_count**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+      leg_count: number | db.Parameter<number> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **batches.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **batches.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **batches.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **batches.leg_count**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+      leg_count?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'batches_idempotency_key_key' | 'batches_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **conversions**
+   * - Table in database
+   */
+  export namespace conversions {
+    export type Table = 'conversions';
+    export interface Selectable {
+      /**
+      * **conversions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **conversions.destination_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_account_id: string;
+      /**
+      * **conversions.destination_amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      destination_amount: db.Int8String;
+      /**
+      * **conversions.destination_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      destination_currency: string;
+      /**
+      * **conversions.destination_transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_transaction_id: string;
+      /**
+      * **conversions.exchange_rate_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      exchange_rate_id: string;
+      /**
+      * **conversions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **conversions.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string;
+      /**
+      * **conversions.rate**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      rate: db.NumericString;
+      /**
+      * **conversions.rounding**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      rounding: string;
+      /**
+      * **conversions.source_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_account_id: string;
+      /**
+      * **conversions.source_amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      source_amount: db.Int8String;
+      /**
+      * **conversions.source_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      source_currency: string;
+      /**
+      * **conversions.source_transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_transaction_id: string;
+      /**
+      * **conversions.unrounded_destination_amount**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      unrounded_destination_amount: db.NumericString;
+    }
+    export interface JSONSelectable {
+      /**
+      * **conversions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **conversions.destination_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_account_id: string;
+      /**
+      * **conversions.destination_amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      destination_amount: number;
+      /**
+      * **conversions.destination_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      destination_currency: string;
+      /**
+      * **conversions.destination_transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_transaction_id: string;
+      /**
+      * **conversions.exchange_rate_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      exchange_rate_id: string;
+      /**
+      * **conversions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **conversions.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string;
+      /**
+      * **conversions.rate**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      rate: number;
+      /**
+      * **conversions.rounding**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      rounding: string;
+      /**
+      * **conversions.source_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_account_id: string;
+      /**
+      * **conversions.source_amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      source_amount: number;
+      /**
+      * **conversions.source_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      source_currency: string;
+      /**
+      * **conversions.source_transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_transaction_id: string;
+      /**
+      * **conversions.unrounded_destination_amount**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      unrounded_destination_amount: number;
+    }
+    export interface Whereable {
+      /**
+      * **conversions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.destination_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_account_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.destination_amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      destination_amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.destination_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      destination_currency?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.destination_transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_transaction_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.exchange_rate_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      exchange_rate_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.rate**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      rate?: (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.rounding**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      rounding?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.source_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_account_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.source_amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      source_amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.source_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      source_currency?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.source_transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_transaction_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **conversions.unrounded_destination_amount**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      unrounded_destination_amount?: (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **conversions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **conversions.destination_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_account_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **conversions.destination_amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      destination_amount: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
+      /**
+      * **conversions.destination_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      destination_currency: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **conversions.destination_transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_transaction_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **conversions.exchange_rate_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      exchange_rate_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **conversions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **conversions.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **conversions.rate**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      rate: (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment;
+      /**
+      * **conversions.rounding**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      rounding: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **conversions.source_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_account_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **conversions.source_amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      source_amount: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
+      /**
+      * **conversions.source_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      source_currency: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **conversions.source_transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_transaction_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **conversions.unrounded_destination_amount**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      unrounded_destination_amount: (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **conversions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **conversions.destination_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_account_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **conversions.destination_amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      destination_amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
+      /**
+      * **conversions.destination_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      destination_currency?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **conversions.destination_transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_transaction_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **conversions.exchange_rate_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      exchange_rate_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **conversions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **conversions.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **conversions.rate**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      rate?: (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment | db.SQLFragment<any, (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment>;
+      /**
+      * **conversions.rounding**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      rounding?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **conversions.source_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_account_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **conversions.source_amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      source_amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
+      /**
+      * **conversions.source_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      source_currency?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **conversions.source_transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_transaction_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **conversions.unrounded_destination_amount**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      unrounded_destination_amount?: (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment | db.SQLFragment<any, (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'conversions_destination_transaction_id_key' | 'conversions_idempotency_key_key' | 'conversions_pkey' | 'conversions_source_transaction_id_key';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **currencies**
+   * - Table in database
+   */
+  export namespace currencies {
+    export type Table = 'currencies';
+    export interface Selectable {
+      /**
+      * **currencies.code**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      code: string;
+      /**
+      * **currencies.minor_units**
+      * - `int2` in database
+      * - `NOT NULL`, no default
+      */
+      minor_units: number;
+      /**
+      * **currencies.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **currencies.code**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      code: string;
+      /**
+      * **currencies.minor_units**
+      * - `int2` in database
+      * - `NOT NULL`, no default
+      */
+      minor_units: number;
+      /**
+      * **currencies.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name: string;
+    }
+    export interface Whereable {
+      /**
+      * **currencies.code**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      code?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **currencies.minor_units**
+      * - `int2` in database
+      * - `NOT NULL`, no default
+      */
+      minor_units?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **currencies.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **currencies.code**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      code: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **currencies.minor_units**
+      * - `int2` in database
+      * - `NOT NULL`, no default
+      */
+      minor_units: number | db.Parameter<number> | db.SQLFragment;
+      /**
+      * **currencies.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **currencies.code**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      code?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **currencies.minor_units**
+      * - `int2` in database
+      * - `NOT NULL`, no default
+      */
+      minor_units?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+      /**
+      * **currencies.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'currencies_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **exchange_rates**
+   * - Table in database
+   */
+  export namespace exchange_rates {
+    export type Table = 'exchange_rates';
+    export interface Selectable {
+      /**
+      * **exchange_rates.base_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      base_currency: string;
+      /**
+      * **exchange_rates.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **exchange_rates.effective_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      effective_at: Date;
+      /**
+      * **exchange_rates.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **exchange_rates.quote_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      quote_currency: string;
+      /**
+      * **exchange_rates.rate**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      rate: db.NumericString;
+    }
+    export interface JSONSelectable {
+      /**
+      * **exchange_rates.base_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      base_currency: string;
+      /**
+      * **exchange_rates.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **exchange_rates.effective_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      effective_at: db.TimestampTzString;
+      /**
+      * **exchange_rates.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **exchange_rates.quote_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      quote_currency: string;
+      /**
+      * **exchange_rates.rate**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      rate: number;
+    }
+    export interface Whereable {
+      /**
+      * **exchange_rates.base_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      base_currency?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **exchange_rates.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **exchange_rates.effective_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      effective_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **exchange_rates.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **exchange_rates.quote_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      quote_currency?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **exchange_rates.rate**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      rate?: (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **exchange_rates.base_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      base_currency: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **exchange_rates.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **exchange_rates.effective_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      effective_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **exchange_rates.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **exchange_rates.quote_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      quote_currency: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **exchange_rates.rate**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      rate: (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **exchange_rates.base_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      base_currency?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **exchange_rates.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **exchange_rates.effective_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      effective_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **exchange_rates.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **exchange_rates.quote_currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      quote_currency?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **exchange_rates.rate**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+      rate?: (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment | db.SQLFragment<any, (number | db.NumericString) | db.Parameter<(number | db.NumericString)> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'exchange_rates_pair_effective_at_key' | 'exchange_rates_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **holds**
+   * - Table in database
+   */
+  export namespace holds {
+    export type Table = 'holds';
+    export interface Selectable {
+      /**
+      * **holds.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount: db.Int8String;
+      /**
+      * **holds.capture_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      capture_transaction_id: string | null;
+      /**
+      * **holds.captured_amount**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+      captured_amount: db.Int8String | null;
+      /**
+      * **holds.closed_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      closed_at: Date | null;
+      /**
+      * **holds.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **holds.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency: string;
+      /**
+      * **holds.destination_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_account_id: string;
+      /**
+      * **holds.destination_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_user_id: string;
+      /**
+      * **holds.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at: Date;
+      /**
+      * **holds.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **holds.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string;
+      /**
+      * **holds.source_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_account_id: string;
+      /**
+      * **holds.source_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_user_id: string;
+      /**
+      * **holds.status**
+      * - `text` in database
+      * - `NOT NULL`, default: `'active'::text`
+      */
+      status: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **holds.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount: number;
+      /**
+      * **holds.capture_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      capture_transaction_id: string | null;
+      /**
+      * **holds.captured_amount**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+      captured_amount: number | null;
+      /**
+      * **holds.closed_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      closed_at: db.TimestampTzString | null;
+      /**
+      * **holds.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **holds.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency: string;
+      /**
+      * **holds.destination_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_account_id: string;
+      /**
+      * **holds.destination_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_user_id: string;
+      /**
+      * **holds.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at: db.TimestampTzString;
+      /**
+      * **holds.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **holds.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string;
+      /**
+      * **holds.source_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_account_id: string;
+      /**
+      * **holds.source_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_user_id: string;
+      /**
+      * **holds.status**
+      * - `text` in database
+      * - `NOT NULL`, default: `'active'::text`
+      */
+      status: string;
+    }
+    export interface Whereable {
+      /**
+      * **holds.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.capture_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      capture_transaction_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.captured_amount**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+      captured_amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.closed_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      closed_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.destination_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_account_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.destination_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.source_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_account_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.source_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **holds.status**
+      * - `text` in database
+      * - `NOT NULL`, default: `'active'::text`
+      */
+      status?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **holds.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
+      /**
+      * **holds.capture_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      capture_transaction_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **holds.captured_amount**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+      captured_amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **holds.closed_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      closed_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **holds.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **holds.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **holds.destination_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_account_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **holds.destination_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_user_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **holds.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment;
+      /**
+      * **holds.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **holds.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **holds.source_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_account_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **holds.source_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_user_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **holds.status**
+      * - `text` in database
+      * - `NOT NULL`, default: `'active'::text`
+      */
+      status?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **holds.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
+      /**
+      * **holds.capture_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      capture_transaction_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **holds.captured_amount**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+      captured_amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **holds.closed_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      closed_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **holds.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **holds.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **holds.destination_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_account_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **holds.destination_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_user_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **holds.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment>;
+      /**
+      * **holds.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **holds.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **holds.source_account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_account_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **holds.source_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_user_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **holds.status**
+      * - `text` in database
+      * - `NOT NULL`, default: `'active'::text`
+      */
+      status?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'holds_capture_transaction_id_key' | 'holds_idempotency_key_key' | 'holds_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **ledger_chain_checkpoints**
+   * - Table in database
+   */
+  export namespace ledger_chain_checkpoints {
+    export type Table = 'ledger_chain_checkpoints';
+    export interface Selectable {
+      /**
+      * **ledger_chain_checkpoints.chain_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      chain_seq: db.Int8String;
+      /**
+      * **ledger_chain_checkpoints.hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      hash: string;
+      /**
+      * **ledger_chain_checkpoints.key_id**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      key_id: string;
+      /**
+      * **ledger_chain_checkpoints.signature**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      signature: string;
+      /**
+      * **ledger_chain_checkpoints.signed_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      signed_at: Date;
+    }
+    export interface JSONSelectable {
+      /**
+      * **ledger_chain_checkpoints.chain_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      chain_seq: number;
+      /**
+      * **ledger_chain_checkpoints.hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      hash: string;
+      /**
+      * **ledger_chain_checkpoints.key_id**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      key_id: string;
+      /**
+      * **ledger_chain_checkpoints.signature**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      signature: string;
+      /**
+      * **ledger_chain_checkpoints.signed_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      signed_at: db.TimestampTzString;
+    }
+    export interface Whereable {
+      /**
+      * **ledger_chain_checkpoints.chain_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      chain_seq?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **ledger_chain_checkpoints.hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      hash?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **ledger_chain_checkpoints.key_id**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      key_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **ledger_chain_checkpoints.signature**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      signature?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **ledger_chain_checkpoints.signed_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      signed_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **ledger_chain_checkpoints.chain_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      chain_seq: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
+      /**
+      * **ledger_chain_checkpoints.hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      hash: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **ledger_chain_checkpoints.key_id**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      key_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **ledger_chain_checkpoints.signature**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      signature: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **ledger_chain_checkpoints.signed_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      signed_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **ledger_chain_checkpoints.chain_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      chain_seq?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
+      /**
+      * **ledger_chain_checkpoints.hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      hash?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **ledger_chain_checkpoints.key_id**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      key_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **ledger_chain_checkpoints.signature**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      signature?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **ledger_chain_checkpoints.signed_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      signed_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'ledger_chain_checkpoints_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **ledger_chain_head**
+   * - Table in database
+   */
+  export namespace ledger_chain_head {
+    export type Table = 'ledger_chain_head';
+    export interface Selectable {
+      /**
+      * **ledger_chain_head.chain_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      chain_seq: db.Int8String;
+      /**
+      * **ledger_chain_head.hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      hash: string;
+      /**
+      * **ledger_chain_head.id**
+      * - `bool` in database
+      * - `NOT NULL`, default: `true`
+      */
+      id: boolean;
+      /**
+      * **ledger_chain_head.transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      transaction_id: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **ledger_chain_head.chain_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      chain_seq: number;
+      /**
+      * **ledger_chain_head.hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      hash: string;
+      /**
+      * **ledger_chain_head.id**
+      * - `bool` in database
+      * - `NOT NULL`, default: `true`
+      */
+      id: boolean;
+      /**
+      * **ledger_chain_head.transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      transaction_id: string;
+    }
+    export interface Whereable {
+      /**
+      * **ledger_chain_head.chain_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      chain_seq?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **ledger_chain_head.hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      hash?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **ledger_chain_head.id**
+      * - `bool` in database
+      * - `NOT NULL`, default: `true`
+      */
+      id?: boolean | db.Parameter<boolean> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, boolean | db.Parameter<boolean> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **ledger_chain_head.transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      transaction_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **ledger_chain_head.chain_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      chain_seq: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
+      /**
+      * **ledger_chain_head.hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      hash: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **ledger_chain_head.id**
+      * - `bool` in database
+      * - `NOT NULL`, default: `true`
+      */
+      id?: boolean | db.Parameter<boolean> | db.DefaultType | db.SQLFragment;
+      /**
+      * **ledger_chain_head.transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      transaction_id: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **ledger_chain_head.chain_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      chain_seq?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
+      /**
+      * **ledger_chain_head.hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      hash?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **ledger_chain_head.id**
+      * - `bool` in database
+      * - `NOT NULL`, default: `true`
+      */
+      id?: boolean | db.Parameter<boolean> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, boolean | db.Parameter<boolean> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **ledger_chain_head.transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      transaction_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'ledger_chain_head_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **ledger_roots**
+   * - Table in database
+   */
+  export namespace ledger_roots {
+    export type Table = 'ledger_roots';
+    export interface Selectable {
+      /**
+      * **ledger_roots.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **ledger_roots.first_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      first_seq: db.Int8String;
+      /**
+      * **ledger_roots.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **ledger_roots.last_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      last_seq: db.Int8String;
+      /**
+      * **ledger_roots.root**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      root: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **ledger_roots.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **ledger_roots.first_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      first_seq: number;
+      /**
+      * **ledger_roots.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **ledger_roots.last_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      last_seq: number;
+      /**
+      * **ledger_roots.root**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      root: string;
+    }
+    export interface Whereable {
+      /**
+      * **ledger_roots.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **ledger_roots.first_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      first_seq?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **ledger_roots.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **ledger_roots.last_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      last_seq?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **ledger_roots.root**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      root?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **ledger_roots.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **ledger_roots.first_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      first_seq: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
+      /**
+      * **ledger_roots.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **ledger_roots.last_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      last_seq: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
+      /**
+      * **ledger_roots.root**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      root: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **ledger_roots.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **ledger_roots.first_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      first_seq?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
+      /**
+      * **ledger_roots.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **ledger_roots.last_seq**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      last_seq?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
+      /**
+      * **ledger_roots.root**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      root?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'ledger_roots_first_seq_key' | 'ledger_roots_last_seq_key' | 'ledger_roots_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **permissions**
+   * - Table in database
+   */
+  export namespace permissions {
+    export type Table = 'permissions';
+    export interface Selectable {
+      /**
+      * **permissions.description**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      description: string;
+      /**
+      * **permissions.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **permissions.description**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      description: string;
+      /**
+      * **permissions.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name: string;
+    }
+    export interface Whereable {
+      /**
+      * **permissions.description**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      description?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **permissions.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **permissions.description**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      description: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **permissions.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **permissions.description**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      description?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **permissions.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'permissions_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **pgmigrations**
+   * - Table in database
+   */
+  export namespace pgmigrations {
+    export type Table = 'pgmigrations';
+    export interface Selectable {
+      /**
+      * **pgmigrations.id**
+      * - `int4` in database
+      * - `NOT NULL`, default: `nextval('pgmigrations_id_seq'::regclass)`
+      */
+      id: number;
+      /**
+      * **pgmigrations.name**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+      name: string;
+      /**
+      * **pgmigrations.run_on**
+      * - `timestamp` in database
+      * - `NOT NULL`, no default
+      */
+      run_on: Date;
+    }
+    export interface JSONSelectable {
+      /**
+      * **pgmigrations.id**
+      * - `int4` in database
+      * - `NOT NULL`, default: `nextval('pgmigrations_id_seq'::regclass)`
+      */
+      id: number;
+      /**
+      * **pgmigrations.name**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+      name: string;
+      /**
+      * **pgmigrations.run_on**
+      * - `timestamp` in database
+      * - `NOT NULL`, no default
+      */
+      run_on: db.TimestampString;
+    }
+    export interface Whereable {
+      /**
+      * **pgmigrations.id**
+      * - `int4` in database
+      * - `NOT NULL`, default: `nextval('pgmigrations_id_seq'::regclass)`
+      */
+      id?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **pgmigrations.name**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+      name?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **pgmigrations.run_on**
+      * - `timestamp` in database
+      * - `NOT NULL`, no default
+      */
+      run_on?: (db.TimestampString | Date) | db.Parameter<(db.TimestampString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampString | Date) | db.Parameter<(db.TimestampString | Date)> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **pgmigrations.id**
+      * - `int4` in database
+      * - `NOT NULL`, default: `nextval('pgmigrations_id_seq'::regclass)`
+      */
+      id?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment;
+      /**
+      * **pgmigrations.name**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+      name: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **pgmigrations.run_on**
+      * - `timestamp` in database
+      * - `NOT NULL`, no default
+      */
+      run_on: (db.TimestampString | Date) | db.Parameter<(db.TimestampString | Date)> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **pgmigrations.id**
+      * - `int4` in database
+      * - `NOT NULL`, default: `nextval('pgmigrations_id_seq'::regclass)`
+      */
+      id?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **pgmigrations.name**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+      name?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **pgmigrations.run_on**
+      * - `timestamp` in database
+      * - `NOT NULL`, no default
+      */
+      run_on?: (db.TimestampString | Date) | db.Parameter<(db.TimestampString | Date)> | db.SQLFragment | db.SQLFragment<any, (db.TimestampString | Date) | db.Parameter<(db.TimestampString | Date)> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'pgmigrations_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **postings**
+   * - Table in database
+   */
+  export namespace postings {
+    export type Table = 'postings';
+    export interface Selectable {
+      /**
+      * **postings.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      account_id: string;
+      /**
+      * **postings.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount: db.Int8String;
+      /**
+      * **postings.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **postings.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency: string;
+      /**
+      * **postings.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **postings.transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      transaction_id: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **postings.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      account_id: string;
+      /**
+      * **postings.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount: number;
+      /**
+      * **postings.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **postings.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency: string;
+      /**
+      * **postings.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **postings.transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      transaction_id: string;
+    }
+    export interface Whereable {
+      /**
+      * **postings.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      account_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **postings.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **postings.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **postings.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **postings.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **postings.transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      transaction_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **postings.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      account_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **postings.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
+      /**
+      * **postings.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **postings.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **postings.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **postings.transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      transaction_id: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **postings.account_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      account_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **postings.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
+      /**
+      * **postings.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **postings.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **postings.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **postings.transaction_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      transaction_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'postings_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **refresh_tokens**
+   * - Table in database
+   */
+  export namespace refresh_tokens {
+    export type Table = 'refresh_tokens';
+    export interface Selectable {
+      /**
+      * **refresh_tokens.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **refresh_tokens.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at: Date;
+      /**
+      * **refresh_tokens.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **refresh_tokens.session_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      session_id: string;
+      /**
+      * **refresh_tokens.token_hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      token_hash: string;
+      /**
+      * **refresh_tokens.used_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      used_at: Date | null;
+    }
+    export interface JSONSelectable {
+      /**
+      * **refresh_tokens.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **refresh_tokens.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at: db.TimestampTzString;
+      /**
+      * **refresh_tokens.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **refresh_tokens.session_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      session_id: string;
+      /**
+      * **refresh_tokens.token_hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      token_hash: string;
+      /**
+      * **refresh_tokens.used_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      used_at: db.TimestampTzString | null;
+    }
+    export interface Whereable {
+      /**
+      * **refresh_tokens.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **refresh_tokens.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **refresh_tokens.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **refresh_tokens.session_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      session_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **refresh_tokens.token_hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      token_hash?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **refresh_tokens.used_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      used_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **refresh_tokens.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **refresh_tokens.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment;
+      /**
+      * **refresh_tokens.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **refresh_tokens.session_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      session_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **refresh_tokens.token_hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      token_hash: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **refresh_tokens.used_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      used_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **refresh_tokens.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **refresh_tokens.expires_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      expires_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment>;
+      /**
+      * **refresh_tokens.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **refresh_tokens.session_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      session_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **refresh_tokens.token_hash**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      token_hash?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **refresh_tokens.used_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      used_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'refresh_tokens_pkey' | 'refresh_tokens_token_hash_key';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **role_permissions**
+   * - Table in database
+   */
+  export namespace role_permissions {
+    export type Table = 'role_permissions';
+    export interface Selectable {
+      /**
+      * **role_permissions.permission**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      permission: string;
+      /**
+      * **role_permissions.role**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      role: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **role_permissions.permission**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      permission: string;
+      /**
+      * **role_permissions.role**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      role: string;
+    }
+    export interface Whereable {
+      /**
+      * **role_permissions.permission**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      permission?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **role_permissions.role**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      role?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **role_permissions.permission**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      permission: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **role_permissions.role**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      role: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **role_permissions.permission**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      permission?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **role_permissions.role**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      role?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'role_permissions_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **roles**
+   * - Table in database
+   */
+  export namespace roles {
+    export type Table = 'roles';
+    export interface Selectable {
+      /**
+      * **roles.description**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      description: string;
+      /**
+      * **roles.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **roles.description**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      description: string;
+      /**
+      * **roles.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name: string;
+    }
+    export interface Whereable {
+      /**
+      * **roles.description**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      description?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **roles.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **roles.description**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      description: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **roles.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **roles.description**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      description?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **roles.name**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      name?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'roles_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **scheduled_transfers**
+   * - Table in database
+   */
+  export namespace scheduled_transfers {
+    export type Table = 'scheduled_transfers';
+    export interface Selectable {
+      /**
+      * **scheduled_transfers.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount: db.Int8String;
+      /**
+      * **scheduled_transfers.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **scheduled_transfers.created_by_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      created_by_user_id: string;
+      /**
+      * **scheduled_transfers.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency: string;
+      /**
+      * **scheduled_transfers.destination_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_user_id: string;
+      /**
+      * **scheduled_transfers.failure_policy**
+      * - `text` in database
+      * - `NOT NULL`, default: `'pause'::text`
+      */
+      failure_policy: string;
+      /**
+      * **scheduled_transfers.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **scheduled_transfers.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string;
+      /**
+      * **scheduled_transfers.last_error**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      last_error: string | null;
+      /**
+      * **scheduled_transfers.last_run_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      last_run_at: Date | null;
+      /**
+      * **scheduled_transfers.last_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      last_transaction_id: string | null;
+      /**
+      * **scheduled_transfers.max_retries**
+      * - `int4` in database
+      * - `NOT NULL`, default: `3`
+      */
+      max_retries: number;
+      /**
+      * **scheduled_transfers.next_run_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      next_run_at: Date | null;
+      /**
+      * **scheduled_transfers.occurrence_index**
+      * - `int4` in database
+      * - `NOT NULL`, default: `0`
+      */
+      occurrence_index: number;
+      /**
+      * **scheduled_transfers.recurrence**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      recurrence: string | null;
+      /**
+      * **scheduled_transfers.retry_count**
+      * - `int4` in database
+      * - `NOT NULL`, default: `0`
+      */
+      retry_count: number;
+      /**
+      * **scheduled_transfers.retry_delay_seconds**
+      * - `int4` in database
+      * - `NOT NULL`, default: `3600`
+      */
+      retry_delay_seconds: number;
+      /**
+      * **scheduled_transfers.source_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_user_id: string;
+      /**
+      * **scheduled_transfers.start_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      start_at: Date;
+      /**
+      * **scheduled_transfers.status**
+      * - `text` in database
+      * - `NOT NULL`, default: `'active'::text`
+      */
+      status: string;
+      /**
+      * **scheduled_transfers.updated_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      updated_at: Date;
+    }
+    export interface JSONSelectable {
+      /**
+      * **scheduled_transfers.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount: number;
+      /**
+      * **scheduled_transfers.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **scheduled_transfers.created_by_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      created_by_user_id: string;
+      /**
+      * **scheduled_transfers.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency: string;
+      /**
+      * **scheduled_transfers.destination_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_user_id: string;
+      /**
+      * **scheduled_transfers.failure_policy**
+      * - `text` in database
+      * - `NOT NULL`, default: `'pause'::text`
+      */
+      failure_policy: string;
+      /**
+      * **scheduled_transfers.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **scheduled_transfers.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string;
+      /**
+      * **scheduled_transfers.last_error**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      last_error: string | null;
+      /**
+      * **scheduled_transfers.last_run_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      last_run_at: db.TimestampTzString | null;
+      /**
+      * **scheduled_transfers.last_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      last_transaction_id: string | null;
+      /**
+      * **scheduled_transfers.max_retries**
+      * - `int4` in database
+      * - `NOT NULL`, default: `3`
+      */
+      max_retries: number;
+      /**
+      * **scheduled_transfers.next_run_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      next_run_at: db.TimestampTzString | null;
+      /**
+      * **scheduled_transfers.occurrence_index**
+      * - `int4` in database
+      * - `NOT NULL`, default: `0`
+      */
+      occurrence_index: number;
+      /**
+      * **scheduled_transfers.recurrence**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      recurrence: string | null;
+      /**
+      * **scheduled_transfers.retry_count**
+      * - `int4` in database
+      * - `NOT NULL`, default: `0`
+      */
+      retry_count: number;
+      /**
+      * **scheduled_transfers.retry_delay_seconds**
+      * - `int4` in database
+      * - `NOT NULL`, default: `3600`
+      */
+      retry_delay_seconds: number;
+      /**
+      * **scheduled_transfers.source_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_user_id: string;
+      /**
+      * **scheduled_transfers.start_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      start_at: db.TimestampTzString;
+      /**
+      * **scheduled_transfers.status**
+      * - `text` in database
+      * - `NOT NULL`, default: `'active'::text`
+      */
+      status: string;
+      /**
+      * **scheduled_transfers.updated_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      updated_at: db.TimestampTzString;
+    }
+    export interface Whereable {
+      /**
+      * **scheduled_transfers.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.created_by_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      created_by_user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.destination_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.failure_policy**
+      * - `text` in database
+      * - `NOT NULL`, default: `'pause'::text`
+      */
+      failure_policy?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.last_error**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      last_error?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.last_run_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      last_run_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.last_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      last_transaction_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.max_retries**
+      * - `int4` in database
+      * - `NOT NULL`, default: `3`
+      */
+      max_retries?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.next_run_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      next_run_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.occurrence_index**
+      * - `int4` in database
+      * - `NOT NULL`, default: `0`
+      */
+      occurrence_index?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.recurrence**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      recurrence?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.retry_count**
+      * - `int4` in database
+      * - `NOT NULL`, default: `0`
+      */
+      retry_count?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.retry_delay_seconds**
+      * - `int4` in database
+      * - `NOT NULL`, default: `3600`
+      */
+      retry_delay_seconds?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.source_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.start_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      start_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.status**
+      * - `text` in database
+      * - `NOT NULL`, default: `'active'::text`
+      */
+      status?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **scheduled_transfers.updated_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      updated_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **scheduled_transfers.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
+      /**
+      * **scheduled_transfers.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.created_by_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      created_by_user_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **scheduled_transfers.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **scheduled_transfers.destination_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_user_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **scheduled_transfers.failure_policy**
+      * - `text` in database
+      * - `NOT NULL`, default: `'pause'::text`
+      */
+      failure_policy?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **scheduled_transfers.last_error**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      last_error?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.last_run_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      last_run_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.last_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      last_transaction_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.max_retries**
+      * - `int4` in database
+      * - `NOT NULL`, default: `3`
+      */
+      max_retries?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.next_run_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      next_run_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.occurrence_index**
+      * - `int4` in database
+      * - `NOT NULL`, default: `0`
+      */
+      occurrence_index?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.recurrence**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      recurrence?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.retry_count**
+      * - `int4` in database
+      * - `NOT NULL`, default: `0`
+      */
+      retry_count?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.retry_delay_seconds**
+      * - `int4` in database
+      * - `NOT NULL`, default: `3600`
+      */
+      retry_delay_seconds?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.source_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_user_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **scheduled_transfers.start_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      start_at: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment;
+      /**
+      * **scheduled_transfers.status**
+      * - `text` in database
+      * - `NOT NULL`, default: `'active'::text`
+      */
+      status?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **scheduled_transfers.updated_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      updated_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **scheduled_transfers.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.created_by_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      created_by_user_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.destination_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      destination_user_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.failure_policy**
+      * - `text` in database
+      * - `NOT NULL`, default: `'pause'::text`
+      */
+      failure_policy?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.last_error**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      last_error?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.last_run_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      last_run_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.last_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      last_transaction_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.max_retries**
+      * - `int4` in database
+      * - `NOT NULL`, default: `3`
+      */
+      max_retries?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.next_run_at**
+      * - `timestamptz` in database
+      * - Nullable, no default
+      */
+      next_run_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.occurrence_index**
+      * - `int4` in database
+      * - `NOT NULL`, default: `0`
+      */
+      occurrence_index?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.recurrence**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      recurrence?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.retry_count**
+      * - `int4` in database
+      * - `NOT NULL`, default: `0`
+      */
+      retry_count?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.retry_delay_seconds**
+      * - `int4` in database
+      * - `NOT NULL`, default: `3600`
+      */
+      retry_delay_seconds?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.source_user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      source_user_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.start_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, no default
+      */
+      start_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.status**
+      * - `text` in database
+      * - `NOT NULL`, default: `'active'::text`
+      */
+      status?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **scheduled_transfers.updated_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      updated_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'scheduled_transfers_idempotency_key_key' | 'scheduled_transfers_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **transactions**
+   * - Table in database
+   */
+  export namespace transactions {
+    export type Table = 'transactions';
+    export interface Selectable {
+      /**
+      * **transactions.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount: db.Int8String;
+      /**
+      * **transactions.batch_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      batch_id: string | null;
+      /**
+      * **transactions.batch_leg_index**
+      * - `int4` in database
+      * - Nullable, no default
+      */
+      batch_leg_index: number | null;
+      /**
+      * **transactions.chain_seq**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+      chain_seq: db.Int8String | null;
+      /**
+      * **transactions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **transactions.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency: string;
+      /**
+      * **transactions.description**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      description: string | null;
+      /**
+      * **transactions.destination_account_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      destination_account_id: string | null;
+      /**
+      * **transactions.destination_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      destination_user_id: string | null;
+      /**
+      * **transactions.external_reference**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      external_reference: string | null;
+      /**
+      * **transactions.hash**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      hash: string | null;
+      /**
+      * **transactions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **transactions.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string;
+      /**
+      * **transactions.metadata**
+      * - `jsonb` in database
+      * - Nullable, no default
+      */
+      metadata: db.JSONValue | null;
+      /**
+      * **transactions.prev_hash**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      prev_hash: string | null;
+      /**
+      * **transactions.reverses_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      reverses_transaction_id: string | null;
+      /**
+      * **transactions.source_account_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      source_account_id: string | null;
+      /**
+      * **transactions.source_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      source_user_id: string | null;
+      /**
+      * **transactions.type**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      type: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **transactions.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount: number;
+      /**
+      * **transactions.batch_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      batch_id: string | null;
+      /**
+      * **transactions.batch_leg_index**
+      * - `int4` in database
+      * - Nullable, no default
+      */
+      batch_leg_index: number | null;
+      /**
+      * **transactions.chain_seq**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+      chain_seq: number | null;
+      /**
+      * **transactions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **transactions.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency: string;
+      /**
+      * **transactions.description**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      description: string | null;
+      /**
+      * **transactions.destination_account_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      destination_account_id: string | null;
+      /**
+      * **transactions.destination_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      destination_user_id: string | null;
+      /**
+      * **transactions.external_reference**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      external_reference: string | null;
+      /**
+      * **transactions.hash**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      hash: string | null;
+      /**
+      * **transactions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id: string;
+      /**
+      * **transactions.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string;
+      /**
+      * **transactions.metadata**
+      * - `jsonb` in database
+      * - Nullable, no default
+      */
+      metadata: db.JSONValue | null;
+      /**
+      * **transactions.prev_hash**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      prev_hash: string | null;
+      /**
+      * **transactions.reverses_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      reverses_transaction_id: string | null;
+      /**
+      * **transactions.source_account_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      source_account_id: string | null;
+      /**
+      * **transactions.source_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      source_user_id: string | null;
+      /**
+      * **transactions.type**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      type: string;
+    }
+    export interface Whereable {
+      /**
+      * **transactions.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.batch_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      batch_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.batch_leg_index**
+      * - `int4` in database
+      * - Nullable, no default
+      */
+      batch_leg_index?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.chain_seq**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+      chain_seq?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.description**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      description?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.destination_account_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      destination_account_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.destination_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      destination_user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.external_reference**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      external_reference?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.hash**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      hash?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.metadata**
+      * - `jsonb` in database
+      * - Nullable, no default
+      */
+      metadata?: db.JSONValue | db.Parameter<db.JSONValue> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, db.JSONValue | db.Parameter<db.JSONValue> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.prev_hash**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      prev_hash?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.reverses_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      reverses_transaction_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.source_account_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      source_account_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.source_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      source_user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transactions.type**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      type?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **transactions.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment;
+      /**
+      * **transactions.batch_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      batch_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.batch_leg_index**
+      * - `int4` in database
+      * - Nullable, no default
+      */
+      batch_leg_index?: number | db.Parameter<number> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.chain_seq**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+      chain_seq?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **transactions.description**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      description?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.destination_account_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      destination_account_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.destination_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      destination_user_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.external_reference**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      external_reference?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.hash**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      hash?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **transactions.metadata**
+      * - `jsonb` in database
+      * - Nullable, no default
+      */
+      metadata?: db.JSONValue | db.Parameter<db.JSONValue> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.prev_hash**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      prev_hash?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.reverses_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      reverses_transaction_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.source_account_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      source_account_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.source_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      source_user_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transactions.type**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      type: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **transactions.amount**
+      * - `int8` in database
+      * - `NOT NULL`, no default
+      */
+      amount?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | db.SQLFragment>;
+      /**
+      * **transactions.batch_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      batch_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.batch_leg_index**
+      * - `int4` in database
+      * - Nullable, no default
+      */
+      batch_leg_index?: number | db.Parameter<number> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.chain_seq**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+      chain_seq?: (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (number | db.Int8String | bigint) | db.Parameter<(number | db.Int8String | bigint)> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.currency**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+      currency?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **transactions.description**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      description?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.destination_account_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      destination_account_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.destination_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      destination_user_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.external_reference**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      external_reference?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.hash**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      hash?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.id**
+      * - `uuid` in database
+      * - `NOT NULL`, default: `uuid_generate_v4()`
+      */
+      id?: string | db.Parameter<string> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.idempotency_key**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      idempotency_key?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **transactions.metadata**
+      * - `jsonb` in database
+      * - Nullable, no default
+      */
+      metadata?: db.JSONValue | db.Parameter<db.JSONValue> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, db.JSONValue | db.Parameter<db.JSONValue> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.prev_hash**
+      * - `text` in database
+      * - Nullable, no default
+      */
+      prev_hash?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.reverses_transaction_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      reverses_transaction_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.source_account_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      source_account_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.source_user_id**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      source_user_id?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transactions.type**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      type?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'transactions_batch_leg_unique' | 'transactions_chain_seq_key' | 'transactions_id_currency_key' | 'transactions_idempotency_key_key' | 'transactions_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **user_roles**
+   * - Table in database
+   */
+  export namespace user_roles {
+    export type Table = 'user_roles';
+    export interface Selectable {
+      /**
+      * **user_roles.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: Date;
+      /**
+      * **user_roles.granted_by**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      granted_by: string | null;
+      /**
+      * **user_roles.role**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      role: string;
+      /**
+      * **user_roles.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **user_roles.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at: db.TimestampTzString;
+      /**
+      * **user_roles.granted_by**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      granted_by: string | null;
+      /**
+      * **user_roles.role**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      role: string;
+      /**
+      * **user_roles.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id: string;
+    }
+    export interface Whereable {
+      /**
+      * **user_roles.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **user_roles.granted_by**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      granted_by?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **user_roles.role**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      role?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **user_roles.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **user_roles.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment;
+      /**
+      * **user_roles.granted_by**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      granted_by?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **user_roles.role**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      role: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **user_roles.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **user_roles.created_at**
+      * - `timestamptz` in database
+      * - `NOT NULL`, default: `now()`
+      */
+      created_at?: (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, (db.TimestampTzString | Date) | db.Parameter<(db.TimestampTzString | Date)> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **user_roles.granted_by**
+      * - `uuid` in database
+      * - Nullable, no default
+      */
+      granted_by?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **user_roles.role**
+      * - `text` in database
+      * - `NOT NULL`, no default
+      */
+      role?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **user_roles.user_id**
+      * - `uuid` in database
+      * - `NOT NULL`, no default
+      */
+      user_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
     }
-    export type UniqueIndex = 'transactions_idempotency_key_key' | 'transactions_pkey';
+    export type UniqueIndex = 'user_roles_pkey';
     export type Column = keyof Selectable;
     export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
     export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
@@ -514,20 +5760,20 @@ declare module 'zapatos/schema' {
   /* --- aggregate types --- */
 
   export namespace public {  
-    export type Table = pgmigrations.Table | transactions.Table | users.Table;
-    export type Selectable = pgmigrations.Selectable | transactions.Selectable | users.Selectable;
-    export type JSONSelectable = pgmigrations.JSONSelectable | transactions.JSONSelectable | users.JSONSelectable;
-    export type Whereable = pgmigrations.Whereable | transactions.Whereable | users.Whereable;
-    export type Insertable = pgmigrations.Insertable | transactions.Insertable | users.Insertable;
-    export type Updatable = pgmigrations.Updatable | transactions.Updatable | users.Updatable;
-    export type UniqueIndex = pgmigrations.UniqueIndex | transactions.UniqueIndex | users.UniqueIndex;
-    export type Column = pgmigrations.Column | transactions.Column | users.Column;
+    export type Table = account_delegations.Table | accounts.Table | api_key_nonces.Table | api_keys.Table | audit_log.Table | auth_sessions.Table | balance_checkpoints.Table | batches.Table | conversions.Table | currencies.Table | exchange_rates.Table | holds.Table | ledger_chain_checkpoints.Table | ledger_chain_head.Table | ledger_roots.Table | permissions.Table | pgmigrations.Table | postings.Table | refresh_tokens.Table | role_permissions.Table | roles.Table | scheduled_transfers.Table | transactions.Table | user_roles.Table | users.Table;
+    export type Selectable = account_delegations.Selectable | accounts.Selectable | api_key_nonces.Selectable | api_keys.Selectable | audit_log.Selectable | auth_sessions.Selectable | balance_checkpoints.Selectable | batches.Selectable | conversions.Selectable | currencies.Selectable | exchange_rates.Selectable | holds.Selectable | ledger_chain_checkpoints.Selectable | ledger_chain_head.Selectable | ledger_roots.Selectable | permissions.Selectable | pgmigrations.Selectable | postings.Selectable | refresh_tokens.Selectable | role_permissions.Selectable | roles.Selectable | scheduled_transfers.Selectable | transactions.Selectable | user_roles.Selectable | users.Selectable;
+    export type JSONSelectable = account_delegations.JSONSelectable | accounts.JSONSelectable | api_key_nonces.JSONSelectable | api_keys.JSONSelectable | audit_log.JSONSelectable | auth_sessions.JSONSelectable | balance_checkpoints.JSONSelectable | batches.JSONSelectable | conversions.JSONSelectable | currencies.JSONSelectable | exchange_rates.JSONSelectable | holds.JSONSelectable | ledger_chain_checkpoints.JSONSelectable | ledger_chain_head.JSONSelectable | ledger_roots.JSONSelectable | permissions.JSONSelectable | pgmigrations.JSONSelectable | postings.JSONSelectable | refresh_tokens.JSONSelectable | role_permissions.JSONSelectable | roles.JSONSelectable | scheduled_transfers.JSONSelectable | transactions.JSONSelectable | user_roles.JSONSelectable | users.JSONSelectable;
+    export type Whereable = account_delegations.Whereable | accounts.Whereable | api_key_nonces.Whereable | api_keys.Whereable | audit_log.Whereable | auth_sessions.Whereable | balance_checkpoints.Whereable | batches.Whereable | conversions.Whereable | currencies.Whereable | exchange_rates.Whereable | holds.Whereable | ledger_chain_checkpoints.Whereable | ledger_chain_head.Whereable | ledger_roots.Whereable | permissions.Whereable | pgmigrations.Whereable | postings.Whereable | refresh_tokens.Whereable | role_permissions.Whereable | roles.Whereable | scheduled_transfers.Whereable | transactions.Whereable | user_roles.Whereable | users.Whereable;
+    export type Insertable = account_delegations.Insertable | accounts.Insertable | api_key_nonces.Insertable | api_keys.Insertable | audit_log.Insertable | auth_sessions.Insertable | balance_checkpoints.Insertable | batches.Insertable | conversions.Insertable | currencies.Insertable | exchange_rates.Insertable | holds.Insertable | ledger_chain_checkpoints.Insertable | ledger_chain_head.Insertable | ledger_roots.Insertable | permissions.Insertable | pgmigrations.Insertable | postings.Insertable | refresh_tokens.Insertable | role_permissions.Insertable | roles.Insertable | scheduled_transfers.Insertable | transactions.Insertable | user_roles.Insertable | users.Insertable;
+    export type Updatable = account_delegations.Updatable | accounts.Updatable | api_key_nonces.Updatable | api_keys.Updatable | audit_log.Updatable | auth_sessions.Updatable | balance_checkpoints.Updatable | batches.Updatable | conversions.Updatable | currencies.Updatable | exchange_rates.Updatable | holds.Updatable | ledger_chain_checkpoints.Updatable | ledger_chain_head.Updatable | ledger_roots.Updatable | permissions.Updatable | pgmigrations.Updatable | postings.Updatable | refresh_tokens.Updatable | role_permissions.Updatable | roles.Updatable | scheduled_transfers.Updatable | transactions.Updatable | user_roles.Updatable | users.Updatable;
+    export type UniqueIndex = account_delegations.UniqueIndex | accounts.UniqueIndex | api_key_nonces.UniqueIndex | api_keys.UniqueIndex | audit_log.UniqueIndex | auth_sessions.UniqueIndex | balance_checkpoints.UniqueIndex | batches.UniqueIndex | conversions.UniqueIndex | currencies.UniqueIndex | exchange_rates.UniqueIndex | holds.UniqueIndex | ledger_chain_checkpoints.UniqueIndex | ledger_chain_head.UniqueIndex | ledger_roots.UniqueIndex | permissions.UniqueIndex | pgmigrations.UniqueIndex | postings.UniqueIndex | refresh_tokens.UniqueIndex | role_permissions.UniqueIndex | roles.UniqueIndex | scheduled_transfers.UniqueIndex | transactions.UniqueIndex | user_roles.UniqueIndex | users.UniqueIndex;
+    export type Column = account_delegations.Column | accounts.Column | api_key_nonces.Column | api_keys.Column | audit_log.Column | auth_sessions.Column | balance_checkpoints.Column | batches.Column | conversions.Column | currencies.Column | exchange_rates.Column | holds.Column | ledger_chain_checkpoints.Column | ledger_chain_head.Column | ledger_roots.Column | permissions.Column | pgmigrations.Column | postings.Column | refresh_tokens.Column | role_permissions.Column | roles.Column | scheduled_transfers.Column | transactions.Column | user_roles.Column | users.Column;
   
-    export type AllBaseTables = [pgmigrations.Table, transactions.Table, users.Table];
+    export type AllBaseTables = [account_delegations.Table, accounts.Table, api_key_nonces.Table, api_keys.Table, audit_log.Table, auth_sessions.Table, balance_checkpoints.Table, batches.Table, conversions.Table, currencies.Table, exchange_rates.Table, holds.Table, ledger_chain_checkpoints.Table, ledger_chain_head.Table, ledger_roots.Table, permissions.Table, pgmigrations.Table, postings.Table, refresh_tokens.Table, role_permissions.Table, roles.Table, scheduled_transfers.Table, transactions.Table, user_roles.Table, users.Table];
     export type AllForeignTables = [];
     export type AllViews = [];
     export type AllMaterializedViews = [];
-    export type AllTablesAndViews = [pgmigrations.Table, transactions.Table, users.Table];
+    export type AllTablesAndViews = [account_delegations.Table, accounts.Table, api_key_nonces.Table, api_keys.Table, audit_log.Table, auth_sessions.Table, balance_checkpoints.Table, batches.Table, conversions.Table, currencies.Table, exchange_rates.Table, holds.Table, ledger_chain_checkpoints.Table, ledger_chain_head.Table, ledger_roots.Table, permissions.Table, pgmigrations.Table, postings.Table, refresh_tokens.Table, role_permissions.Table, roles.Table, scheduled_transfers.Table, transactions.Table, user_roles.Table, users.Table];
   }
 
 
@@ -555,50 +5801,226 @@ declare module 'zapatos/schema' {
   /* === lookups === */
 
   export type SelectableForTable<T extends Table> = {
+    "account_delegations": account_delegations.Selectable;
+    "accounts": accounts.Selectable;
+    "api_key_nonces": api_key_nonces.Selectable;
+    "api_keys": api_keys.Selectable;
+    "audit_log": audit_log.Selectable;
+    "auth_sessions": auth_sessions.Selectable;
+    "balance_checkpoints": balance_checkpoints.Selectable;
+    "batches": batches.Selectable;
+    "conversions": conversions.Selectable;
+    "currencies": currencies.Selectable;
+    "exchange_rates": exchange_rates.Selectable;
+    "holds": holds.Selectable;
+    "ledger_chain_checkpoints": ledger_chain_checkpoints.Selectable;
+    "ledger_chain_head": ledger_chain_head.Selectable;
+    "ledger_roots": ledger_roots.Selectable;
+    "permissions": permissions.Selectable;
     "pgmigrations": pgmigrations.Selectable;
+    "postings": postings.Selectable;
+    "refresh_tokens": refresh_tokens.Selectable;
+    "role_permissions": role_permissions.Selectable;
+    "roles": roles.Selectable;
+    "scheduled_transfers": scheduled_transfers.Selectable;
     "transactions": transactions.Selectable;
+    "user_roles": user_roles.Selectable;
     "users": users.Selectable;
   }[T];
 
   export type JSONSelectableForTable<T extends Table> = {
+    "account_delegations": account_delegations.JSONSelectable;
+    "accounts": accounts.JSONSelectable;
+    "api_key_nonces": api_key_nonces.JSONSelectable;
+    "api_keys": api_keys.JSONSelectable;
+    "audit_log": audit_log.JSONSelectable;
+    "auth_sessions": auth_sessions.JSONSelectable;
+    "balance_checkpoints": balance_checkpoints.JSONSelectable;
+    "batches": batches.JSONSelectable;
+    "conversions": conversions.JSONSelectable;
+    "currencies": currencies.JSONSelectable;
+    "exchange_rates": exchange_rates.JSONSelectable;
+    "holds": holds.JSONSelectable;
+    "ledger_chain_checkpoints": ledger_chain_checkpoints.JSONSelectable;
+    "ledger_chain_head": ledger_chain_head.JSONSelectable;
+    "ledger_roots": ledger_roots.JSONSelectable;
+    "permissions": permissions.JSONSelectable;
     "pgmigrations": pgmigrations.JSONSelectable;
+    "postings": postings.JSONSelectable;
+    "refresh_tokens": refresh_tokens.JSONSelectable;
+    "role_permissions": role_permissions.JSONSelectable;
+    "roles": roles.JSONSelectable;
+    "scheduled_transfers": scheduled_transfers.JSONSelectable;
     "transactions": transactions.JSONSelectable;
+    "user_roles": user_roles.JSONSelectable;
     "users": users.JSONSelectable;
   }[T];
 
   export type WhereableForTable<T extends Table> = {
+    "account_delegations": account_delegations.Whereable;
+    "accounts": accounts.Whereable;
+    "api_key_nonces": api_key_nonces.Whereable;
+    "api_keys": api_keys.Whereable;
+    "audit_log": audit_log.Whereable;
+    "auth_sessions": auth_sessions.Whereable;
+    "balance_checkpoints": balance_checkpoints.Whereable;
+    "batches": batches.Whereable;
+    "conversions": conversions.Whereable;
+    "currencies": currencies.Whereable;
+    "exchange_rates": exchange_rates.Whereable;
+    "holds": holds.Whereable;
+    "ledger_chain_checkpoints": ledger_chain_checkpoints.Whereable;
+    "ledger_chain_head": ledger_chain_head.Whereable;
+    "ledger_roots": ledger_roots.Whereable;
+    "permissions": permissions.Whereable;
     "pgmigrations": pgmigrations.Whereable;
+    "postings": postings.Whereable;
+    "refresh_tokens": refresh_tokens.Whereable;
+    "role_permissions": role_permissions.Whereable;
+    "roles": roles.Whereable;
+    "scheduled_transfers": scheduled_transfers.Whereable;
     "transactions": transactions.Whereable;
+    "user_roles": user_roles.Whereable;
     "users": users.Whereable;
   }[T];
 
   export type InsertableForTable<T extends Table> = {
+    "account_delegations": account_delegations.Insertable;
+    "accounts": accounts.Insertable;
+    "api_key_nonces": api_key_nonces.Insertable;
+    "api_keys": api_keys.Insertable;
+    "audit_log": audit_log.Insertable;
+    "auth_sessions": auth_sessions.Insertable;
+    "balance_checkpoints": balance_checkpoints.Insertable;
+    "batches": batches.Insertable;
+    "conversions": conversions.Insertable;
+    "currencies": currencies.Insertable;
+    "exchange_rates": exchange_rates.Insertable;
+    "holds": holds.Insertable;
+    "ledger_chain_checkpoints": ledger_chain_checkpoints.Insertable;
+    "ledger_chain_head": ledger_chain_head.Insertable;
+    "ledger_roots": ledger_roots.Insertable;
+    "permissions": permissions.Insertable;
     "pgmigrations": pgmigrations.Insertable;
+    "postings": postings.Insertable;
+    "refresh_tokens": refresh_tokens.Insertable;
+    "role_permissions": role_permissions.Insertable;
+    "roles": roles.Insertable;
+    "scheduled_transfers": scheduled_transfers.Insertable;
     "transactions": transactions.Insertable;
+    "user_roles": user_roles.Insertable;
     "users": users.Insertable;
   }[T];
 
   export type UpdatableForTable<T extends Table> = {
+    "account_delegations": account_delegations.Updatable;
+    "accounts": accounts.Updatable;
+    "api_key_nonces": api_key_nonces.Updatable;
+    "api_keys": api_keys.Updatable;
+    "audit_log": audit_log.Updatable;
+    "auth_sessions": auth_sessions.Updatable;
+    "balance_checkpoints": balance_checkpoints.Updatable;
+    "batches": batches.Updatable;
+    "conversions": conversions.Updatable;
+    "currencies": currencies.Updatable;
+    "exchange_rates": exchange_rates.Updatable;
+    "holds": holds.Updatable;
+    "ledger_chain_checkpoints": ledger_chain_checkpoints.Updatable;
+    "ledger_chain_head": ledger_chain_head.Updatable;
+    "ledger_roots": ledger_roots.Updatable;
+    "permissions": permissions.Updatable;
     "pgmigrations": pgmigrations.Updatable;
+    "postings": postings.Updatable;
+    "refresh_tokens": refresh_tokens.Updatable;
+    "role_permissions": role_permissions.Updatable;
+    "roles": roles.Updatable;
+    "scheduled_transfers": scheduled_transfers.Updatable;
     "transactions": transactions.Updatable;
+    "user_roles": user_roles.Updatable;
     "users": users.Updatable;
   }[T];
 
   export type UniqueIndexForTable<T extends Table> = {
+    "account_delegations": account_delegations.UniqueIndex;
+    "accounts": accounts.UniqueIndex;
+    "api_key_nonces": api_key_nonces.UniqueIndex;
+    "api_keys": api_keys.UniqueIndex;
+    "audit_log": audit_log.UniqueIndex;
+    "auth_sessions": auth_sessions.UniqueIndex;
+    "balance_checkpoints": balance_checkpoints.UniqueIndex;
+    "batches": batches.UniqueIndex;
+    "conversions": conversions.UniqueIndex;
+    "currencies": currencies.UniqueIndex;
+    "exchange_rates": exchange_rates.UniqueIndex;
+    "holds": holds.UniqueIndex;
+    "ledger_chain_checkpoints": ledger_chain_checkpoints.UniqueIndex;
+    "ledger_chain_head": ledger_chain_head.UniqueIndex;
+    "ledger_roots": ledger_roots.UniqueIndex;
+    "permissions": permissions.UniqueIndex;
     "pgmigrations": pgmigrations.UniqueIndex;
+    "postings": postings.UniqueIndex;
+    "refresh_tokens": refresh_tokens.UniqueIndex;
+    "role_permissions": role_permissions.UniqueIndex;
+    "roles": roles.UniqueIndex;
+    "scheduled_transfers": scheduled_transfers.UniqueIndex;
     "transactions": transactions.UniqueIndex;
+    "user_roles": user_roles.UniqueIndex;
     "users": users.UniqueIndex;
   }[T];
 
   export type ColumnForTable<T extends Table> = {
+    "account_delegations": account_delegations.Column;
+    "accounts": accounts.Column;
+    "api_key_nonces": api_key_nonces.Column;
+    "api_keys": api_keys.Column;
+    "audit_log": audit_log.Column;
+    "auth_sessions": auth_sessions.Column;
+    "balance_checkpoints": balance_checkpoints.Column;
+    "batches": batches.Column;
+    "conversions": conversions.Column;
+    "currencies": currencies.Column;
+    "exchange_rates": exchange_rates.Column;
+    "holds": holds.Column;
+    "ledger_chain_checkpoints": ledger_chain_checkpoints.Column;
+    "ledger_chain_head": ledger_chain_head.Column;
+    "ledger_roots": ledger_roots.Column;
+    "permissions": permissions.Column;
     "pgmigrations": pgmigrations.Column;
+    "postings": postings.Column;
+    "refresh_tokens": refresh_tokens.Column;
+    "role_permissions": role_permissions.Column;
+    "roles": roles.Column;
+    "scheduled_transfers": scheduled_transfers.Column;
     "transactions": transactions.Column;
+    "user_roles": user_roles.Column;
     "users": users.Column;
   }[T];
 
   export type SQLForTable<T extends Table> = {
+    "account_delegations": account_delegations.SQL;
+    "accounts": accounts.SQL;
+    "api_key_nonces": api_key_nonces.SQL;
+    "api_keys": api_keys.SQL;
+    "audit_log": audit_log.SQL;
+    "auth_sessions": auth_sessions.SQL;
+    "balance_checkpoints": balance_checkpoints.SQL;
+    "batches": batches.SQL;
+    "conversions": conversions.SQL;
+    "currencies": currencies.SQL;
+    "exchange_rates": exchange_rates.SQL;
+    "holds": holds.SQL;
+    "ledger_chain_checkpoints": ledger_chain_checkpoints.SQL;
+    "ledger_chain_head": ledger_chain_head.SQL;
+    "ledger_roots": ledger_roots.SQL;
+    "permissions": permissions.SQL;
     "pgmigrations": pgmigrations.SQL;
+    "postings": postings.SQL;
+    "refresh_tokens": refresh_tokens.SQL;
+    "role_permissions": role_permissions.SQL;
+    "roles": roles.SQL;
+    "scheduled_transfers": scheduled_transfers.SQL;
     "transactions": transactions.SQL;
+    "user_roles": user_roles.SQL;
     "users": users.SQL;
   }[T];
 